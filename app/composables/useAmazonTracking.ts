@@ -1,45 +1,39 @@
 /**
- * Composable for tracking Amazon affiliate link clicks
- * 
+ * Composable for tracked Amazon affiliate links
+ *
+ * Links point to GET /go/:slug, which records the click server-side and
+ * redirects to Amazon with the marketplace's associate tag, so clicks are kept
+ * even when the browser navigates away first or blocks tracking requests.
+ *
  * Usage:
- * const { trackAmazonClick } = useAmazonTracking()
- * await trackAmazonClick(product, amazonUrl)
+ * const { amazonLink } = useAmazonTracking()
+ * <a :href="amazonLink(product.slug, 'buy-button')" target="_blank" rel="nofollow sponsored noopener">
  */
+import { CAMPAIGN_PARAMS, outboundPath, type CampaignParams } from '#shared/affiliate'
+
 export const useAmazonTracking = () => {
+  const baseURL = useRuntimeConfig().app.baseURL
+  const route = useRoute()
+
   /**
-   * Track an Amazon affiliate click
-   * Fire-and-forget pattern - doesn't block user navigation
+   * Outbound link for a product, passing on the campaign the visitor arrived with
+   *
+   * @param placement - Which link this is, e.g. 'buy-button' or 'reviews'
    */
-  const trackAmazonClick = async (
-    product: {
-      id?: string
-      asin: string
-      slug: string
-      marketplace?: { code: string }
-    },
-    amazonUrl: string
-  ) => {
-    try {
-      // Fire and forget - don't wait for response
-      $fetch('/api/track/amazon-click', {
-        method: 'POST',
-        body: {
-          productId: product.id,
-          productAsin: product.asin,
-          productSlug: product.slug,
-          marketplaceCode: product.marketplace?.code || 'US',
-        },
-      }).catch((error) => {
-        // Silently fail - don't block user
-        console.warn('Failed to track Amazon click:', error)
-      })
-    } catch (error) {
-      // Silently fail - tracking should never block the user
-      console.warn('Error tracking Amazon click:', error)
+  const amazonLink = (slug: string, placement?: string) => {
+    const campaign: Partial<CampaignParams> = {}
+
+    for (const param of CAMPAIGN_PARAMS) {
+      const value = route.query[param]
+      if (typeof value === 'string') {
+        campaign[param] = value
+      }
     }
+
+    return `${baseURL}${outboundPath(slug, placement, campaign)}`
   }
 
   return {
-    trackAmazonClick,
+    amazonLink,
   }
 }
@@ -0,0 +1,95 @@
+/**
+ * Compare Composable
+ * Holds the comparison tray (up to four products picked from product cards)
+ * Persists the tray to localStorage
+ *
+ * The tray keeps what it needs to render without a request (title, image); the
+ * /compare page loads the full products by ID.
+ */
+
+import { comparePath, MAX_COMPARE_PRODUCTS } from '#shared/compare'
+
+export interface CompareItem {
+  id: string
+  slug: string
+  title: string
+  image: string | null
+}
+
+const STORAGE_KEY = 'espboards-compare'
+
+const readStoredItems = (): CompareItem[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored)
+      ? stored.filter(item => typeof item?.id === 'string' && typeof item?.title === 'string').slice(0, MAX_COMPARE_PRODUCTS)
+      : []
+  } catch {
+    return []
+  }
+}
+
+export const useCompare = () => {
+  const items = useState<CompareItem[]>('compare', () => [])
+  const loaded = useState<boolean>('compare-loaded', () => false)
+
+  // Load the stored tray once on the client (after hydration, so SSR markup matches)
+  if (process.client && !loaded.value) {
+    loaded.value = true
+    onNuxtReady(() => {
+      items.value = readStoredItems()
+    })
+  }
+
+  const persist = () => {
+    if (process.client) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(items.value))
+    }
+  }
+
+  const isComparing = (id: string) => items.value.some(item => item.id === id)
+
+  const isFull = computed(() => items.value.length >= MAX_COMPARE_PRODUCTS)
+
+  // Add a product; returns false when the tray is full
+  const add = (item: CompareItem) => {
+    if (isComparing(item.id)) return true
+    if (isFull.value) return false
+
+    items.value = [...items.value, item]
+    persist()
+    return true
+  }
+
+  const remove = (id: string) => {
+    items.value = items.value.filter(item => item.id !== id)
+    persist()
+  }
+
+  const toggle = (item: CompareItem) => {
+    if (isComparing(item.id)) {
+      remove(item.id)
+      return true
+    }
+    return add(item)
+  }
+
+  const clear = () => {
+    items.value = []
+    persist()
+  }
+
+  const compareUrl = computed(() => comparePath(items.value.map(item => item.id)))
+
+  return {
+    items: readonly(items),
+    isFull,
+    compareUrl,
+    isComparing,
+    add,
+    remove,
+    toggle,
+    clear,
+    maxItems: MAX_COMPARE_PRODUCTS,
+  }
+}
@@ -2,53 +2,53 @@
  * Marketplace Composable
  * Provides shared marketplace state and functionality across the app
  * Persists marketplace selection to localStorage
+ *
+ * The active marketplaces come from GET /api/marketplaces (loaded once by
+ * plugins/marketplaces.ts), so enabling a marketplace needs no code change.
  */
 
-export type MarketplaceCode = 'US' | 'DE'
+import { DEFAULT_MARKETPLACE_CODE, type Marketplace } from '#shared/marketplaces'
 
-export interface Marketplace {
-  code: MarketplaceCode
-  name: string
-  flag: string
-  currency: string
-  domain: string
-}
+export type { Marketplace }
 
-export const MARKETPLACES: Record<MarketplaceCode, Marketplace> = {
-  US: {
-    code: 'US',
-    name: 'United States',
-    flag: '🇺🇸',
-    currency: 'USD',
-    domain: 'amazon.com',
-  },
-  DE: {
-    code: 'DE',
-    name: 'Germany',
-    flag: '🇩🇪',
-    currency: 'EUR',
-    domain: 'amazon.de',
-  },
-}
+export type MarketplaceCode = string
 
 const STORAGE_KEY = 'espboards-marketplace'
 
+export const useMarketplaces = () => useState<Marketplace[]>('marketplaces', () => [])
+
 export const useMarketplace = () => {
+  const marketplaces = useMarketplaces()
+
+  const getMarketplace = (code: MarketplaceCode) =>
+    marketplaces.value.find(marketplace => marketplace.code === code)
+
   // Reactive state for selected marketplace
   const selectedMarketplace = useState<MarketplaceCode>('marketplace', () => {
     // Try to load from localStorage (client-side only)
     if (process.client) {
       const stored = localStorage.getItem(STORAGE_KEY)
-      if (stored && (stored === 'US' || stored === 'DE')) {
-        return stored as MarketplaceCode
+      if (stored && getMarketplace(stored)) {
+        return stored
       }
     }
-    // Default to US
-    return 'US'
+    // Default to US, or the first active marketplace if US is disabled
+    if (getMarketplace(DEFAULT_MARKETPLACE_CODE) || marketplaces.value.length === 0) {
+      return DEFAULT_MARKETPLACE_CODE
+    }
+    return marketplaces.value[0]!.code
   })
 
-  // Get marketplace details
-  const marketplace = computed(() => MARKETPLACES[selectedMarketplace.value])
+  // Get marketplace details (bare code if the list failed to load)
+  const marketplace = computed<Marketplace>(() => getMarketplace(selectedMarketplace.value) || {
+    id: '',
+    code: selectedMarketplace.value,
+    name: selectedMarketplace.value,
+    flag: '🌐',
+    currency: '',
+    domain: '',
+    locale: 'en-US',
+  })
 
   // Set marketplace and persist to localStorage
   const setMarketplace = (code: MarketplaceCode) => {
@@ -58,16 +58,20 @@ export const useMarketplace = () => {
     }
   }
 
-  // Toggle between marketplaces
+  // Cycle through the active marketplaces
   const toggleMarketplace = () => {
-    const newMarketplace = selectedMarketplace.value === 'US' ? 'DE' : 'US'
-    setMarketplace(newMarketplace)
+    if (marketplaces.value.length === 0) {
+      return
+    }
+    const index = marketplaces.value.findIndex(marketplace => marketplace.code === selectedMarketplace.value)
+    setMarketplace(marketplaces.value[(index + 1) % marketplaces.value.length]!.code)
   }
 
   return {
     selectedMarketplace: readonly(selectedMarketplace),
     marketplace,
-    marketplaces: MARKETPLACES,
+    marketplaces: readonly(marketplaces),
+    getMarketplace,
     setMarketplace,
     toggleMarketplace,
   }
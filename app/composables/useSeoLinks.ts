@@ -0,0 +1,57 @@
+/**
+ * SEO Link Composables
+ * Absolute store URLs, canonical links and hreflang alternates for SSR pages
+ *
+ * The store URL comes from SITE_URL (runtimeConfig.public.siteUrl), falling
+ * back to the request origin plus the /store/ base path.
+ *
+ * Usage:
+ * useSeoLinks({
+ *   canonicalPath: () => data.value?.canonical_path,
+ *   alternates: () => data.value?.alternates,
+ * })
+ */
+
+import { DEFAULT_MARKETPLACE_CODE } from '#shared/marketplaces'
+import { absoluteUrl, hreflangLinks, resolveSiteUrl, type ProductAlternate } from '#shared/seo'
+
+export const useSiteUrl = () => {
+  const config = useRuntimeConfig()
+  const siteUrl = resolveSiteUrl(config.public.siteUrl, useRequestURL().origin, config.app.baseURL)
+
+  return {
+    siteUrl,
+    absoluteUrl: (path: string) => absoluteUrl(siteUrl, path),
+  }
+}
+
+export const useSeoLinks = (options: {
+  canonicalPath: () => string | null | undefined
+  alternates?: () => readonly ProductAlternate[] | null | undefined
+}) => {
+  const { absoluteUrl } = useSiteUrl()
+
+  const canonicalUrl = computed(() => {
+    const path = options.canonicalPath()
+    return path ? absoluteUrl(path) : undefined
+  })
+
+  useHead({
+    link: computed(() => [
+      ...(canonicalUrl.value ? [{ rel: 'canonical', href: canonicalUrl.value }] : []),
+      ...hreflangLinks(options.alternates?.() || [], DEFAULT_MARKETPLACE_CODE).map(link => ({
+        rel: 'alternate',
+        hreflang: link.hreflang,
+        href: absoluteUrl(link.path),
+      })),
+    ]),
+  })
+
+  useSeoMeta({
+    ogUrl: canonicalUrl,
+  })
+
+  return {
+    canonicalUrl,
+  }
+}
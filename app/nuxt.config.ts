@@ -31,11 +31,17 @@ export default defineNuxtConfig({
   runtimeConfig: {
     // Private keys (only available server-side)
     supabaseServiceKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
+    // Comma-separated emails granted the admin role (in addition to app_metadata.role = 'admin')
+    adminEmails: process.env.ADMIN_EMAILS || '',
+    // Bearer token the refresh worker sends to POST /api/cache/invalidate
+    cacheInvalidationSecret: process.env.CACHE_INVALIDATION_SECRET || '',
     
     // Public keys (available on client and server)
     public: {
       supabaseUrl: process.env.SUPABASE_URL || process.env.NUXT_PUBLIC_SUPABASE_URL,
       supabaseKey: process.env.SUPABASE_ANON_KEY || process.env.NUXT_PUBLIC_SUPABASE_KEY,
+      // Public store URL including the /store base path (canonical URLs, sitemaps); request origin when unset
+      siteUrl: process.env.SITE_URL || '',
     },
   },
   // Netlify deployment configuration
@@ -46,6 +52,13 @@ export default defineNuxtConfig({
     externals: {
       inline: ['vue-bundle-renderer']
     },
+    // Cached public catalog responses (server/utils/catalog-cache.ts): in memory
+    // per instance, or on disk with CATALOG_CACHE_DRIVER=fs
+    storage: {
+      'catalog-cache': process.env.CATALOG_CACHE_DRIVER === 'fs'
+        ? { driver: 'fs', base: process.env.CATALOG_CACHE_DIR || './.data/catalog-cache' }
+        : { driver: 'memory' },
+    },
   },
   // Enable SSR (Server-Side Rendering) - default is true but making it explicit
   ssr: true,
@@ -0,0 +1,20 @@
+/**
+ * Load the active marketplaces for useMarketplace()
+ *
+ * Runs during SSR; the list is serialized with the page state so the client
+ * doesn't fetch it again.
+ */
+
+export default defineNuxtPlugin(async () => {
+  const marketplaces = useMarketplaces()
+
+  if (marketplaces.value.length > 0) {
+    return
+  }
+
+  try {
+    marketplaces.value = await $fetch('/api/marketplaces')
+  } catch (error) {
+    console.error('Failed to load marketplaces:', error)
+  }
+})
@@ -0,0 +1,77 @@
+/**
+ * PATCH /api/admin/api-keys/:id
+ * Rename a public API key, change its limits, or revoke it
+ *
+ * Body: { name?, rate_limit_per_minute?, daily_quota?: number | null, revoked?: boolean }
+ * Revoked keys are refused from their next request on; keys are never deleted,
+ * so their usage stays visible.
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { API_KEY_COLUMNS, parseApiKeyInput } from '~/server/utils/api-keys'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const id = getRouterParam(event, 'id')
+
+  if (!id) {
+    throw createError({
+      statusCode: 400,
+      message: 'API key ID is required',
+    })
+  }
+
+  const parsed = parseApiKeyInput(await readBody(event), { create: false })
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 400,
+      message: parsed.message,
+    })
+  }
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+    const { revoked, ...fields } = parsed.value
+
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .update({
+        ...fields,
+        ...(revoked === undefined ? {} : { revoked_at: revoked ? new Date().toISOString() : null }),
+      })
+      .eq('id', id)
+      .select(API_KEY_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!apiKey) {
+      throw createError({
+        statusCode: 404,
+        message: 'API key not found',
+      })
+    }
+
+    return {
+      apiKey,
+      message: revoked ? 'API key revoked' : 'API key updated',
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error updating API key', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to update API key',
+    })
+  }
+})
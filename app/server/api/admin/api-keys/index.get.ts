@@ -0,0 +1,63 @@
+/**
+ * GET /api/admin/api-keys
+ * List public API keys, newest first, with their limits and usage
+ *
+ * Usage per key: requests and refusals today and over the last 30 days (UTC),
+ * plus request_count since creation. Key hashes are never returned.
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { API_KEY_COLUMNS, summarizeApiKeyUsage, usageWindowStart, type ApiKeyUsageRow } from '~/server/utils/api-keys'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+    const now = new Date()
+
+    const [
+      { data: keys, error },
+      { data: usage, error: usageError },
+    ] = await Promise.all([
+      supabase
+        .from('api_keys')
+        .select(API_KEY_COLUMNS)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('api_key_usage')
+        .select('api_key_id, usage_date, request_count, denied_count')
+        .gte('usage_date', usageWindowStart(now)),
+    ])
+
+    if (error) {
+      throw error
+    }
+
+    if (usageError) {
+      throw usageError
+    }
+
+    const summaries = summarizeApiKeyUsage((usage || []) as ApiKeyUsageRow[], now)
+
+    return {
+      keys: (keys || []).map(key => ({
+        ...key,
+        usage: summaries.get(key.id) || { today: 0, denied_today: 0, last_30_days: 0, denied_last_30_days: 0 },
+      })),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching API keys', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to fetch API keys',
+    })
+  }
+})
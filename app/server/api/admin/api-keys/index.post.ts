@@ -0,0 +1,64 @@
+/**
+ * POST /api/admin/api-keys
+ * Create a public API key
+ *
+ * Body: { name, rate_limit_per_minute?: number (default 60), daily_quota?: number | null }
+ * The key is only returned here; the database keeps its SHA-256 hash.
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { API_KEY_COLUMNS, generateApiKey, parseApiKeyInput } from '~/server/utils/api-keys'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const parsed = parseApiKeyInput(await readBody(event), { create: true })
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 400,
+      message: parsed.message,
+    })
+  }
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+    const { key, prefix, hash } = generateApiKey()
+
+    const { data: apiKey, error } = await supabase
+      .from('api_keys')
+      .insert({
+        name: parsed.value.name,
+        rate_limit_per_minute: parsed.value.rate_limit_per_minute,
+        daily_quota: parsed.value.daily_quota ?? null,
+        key_prefix: prefix,
+        key_hash: hash,
+        created_by: event.context.admin?.email || null,
+      })
+      .select(API_KEY_COLUMNS)
+      .single()
+
+    if (error) {
+      throw error
+    }
+
+    return {
+      apiKey,
+      key,
+      message: 'API key created. Copy it now, it will not be shown again',
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error creating API key', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to create API key',
+    })
+  }
+})
@@ -0,0 +1,82 @@
+/**
+ * POST /api/admin/circuit-breakers/:name
+ * Force a circuit breaker open or closed
+ *
+ * Body: { action: 'open' | 'close' }
+ * - open: every request through the breaker is blocked until it is closed again
+ * - close: resets failures and resumes automatic behavior
+ *
+ * Edge Functions pick up the change on their next PA-API request.
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const name = getRouterParam(event, 'name')
+  const body = await readBody(event)
+  const action = body?.action
+
+  if (!name) {
+    throw createError({
+      statusCode: 400,
+      message: 'Circuit breaker name is required',
+    })
+  }
+
+  if (action !== 'open' && action !== 'close') {
+    throw createError({
+      statusCode: 400,
+      message: 'Invalid action. Must be "open" or "close"',
+    })
+  }
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+    const open = action === 'open'
+
+    const { data: breaker, error } = await supabase
+      .from('circuit_breakers')
+      .update({
+        state: open ? 'open' : 'closed',
+        failure_count: 0,
+        success_count: 0,
+        forced_open: open,
+        forced_at: new Date().toISOString(),
+        ...(open ? {} : { last_failure_at: null }),
+      })
+      .eq('name', name)
+      .select('name, state, failure_count, success_count, last_failure_at, forced_open, forced_at, updated_at')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!breaker) {
+      throw createError({
+        statusCode: 404,
+        message: `Circuit breaker "${name}" not found`,
+      })
+    }
+
+    return {
+      breaker,
+      message: open ? `Circuit breaker "${name}" forced open` : `Circuit breaker "${name}" closed`,
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error forcing circuit breaker', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to update circuit breaker',
+    })
+  }
+})
@@ -0,0 +1,45 @@
+/**
+ * GET /api/admin/circuit-breakers
+ * State of the circuit breakers shared by the Edge Functions (e.g. 'paapi-client')
+ *
+ * Response:
+ * {
+ *   breakers: [{ name, state, failure_count, success_count, last_failure_at, forced_open, forced_at, updated_at }]
+ * }
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+
+    const { data: breakers, error } = await supabase
+      .from('circuit_breakers')
+      .select('name, state, failure_count, success_count, last_failure_at, forced_open, forced_at, updated_at')
+      .order('name', { ascending: true })
+
+    if (error) {
+      throw error
+    }
+
+    return {
+      breakers: breakers || [],
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching circuit breakers', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to fetch circuit breakers',
+    })
+  }
+})
@@ -0,0 +1,194 @@
+/**
+ * GET /api/admin/dashboard
+ * Live catalog, refresh and click metrics for the admin dashboard
+ *
+ * Response:
+ * {
+ *   products: { total, by_status: { draft, active, unavailable }, by_marketplace: [{ marketplace, total, by_status }] },
+ *   refresh: { stale_products, never_refreshed, jobs_24h: { total, success, failed, skipped, pending, running },
+ *              success_rate, avg_duration_seconds, last_job_at },
+ *   circuit_breaker: { name, state: 'closed' | 'open' | 'half-open', forced_open, failure_count, last_failure_at, updated_at },
+ *   paapi_quota: { date, used_today, denied_today, by_priority: { interactive, import, background: { requests, denied } } },
+ *   clicks: { today, same_day_last_week, change_percentage, last_7_days, previous_7_days, week_change_percentage },
+ *   top_products: [{ product_id, asin, slug, title, image, marketplace, clicks, sessions }],
+ *   generated_at
+ * }
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { getMarketplaceCodes } from '~/server/utils/marketplaces'
+import {
+  clickWindows,
+  percentChange,
+  quotaDate,
+  refreshSuccessRate,
+  summarizeProductCounts,
+  summarizeQuotaUsage,
+  type ProductStatusCountRow,
+  type RateLimitUsageRow,
+  type RefreshJobStatsRow,
+} from '~/server/utils/dashboard'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+const TOP_PRODUCTS_LIMIT = 5
+const PAAPI_CIRCUIT_BREAKER = 'paapi-client'
+const PAAPI_RATE_LIMITER = 'paapi'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+    const now = new Date()
+    const windows = clickWindows(now)
+    const usageDate = quotaDate(now)
+
+    const countClicks = ({ from, to }: { from: string, to: string }) => supabase
+      .from('amazon_clicks')
+      .select('id', { count: 'exact', head: true })
+      .gte('clicked_at', from)
+      .lt('clicked_at', to)
+
+    const [
+      marketplaces,
+      statusCounts,
+      staleProducts,
+      neverRefreshed,
+      jobStats,
+      circuitBreaker,
+      quotaUsage,
+      clicksToday,
+      clicksSameDayLastWeek,
+      clicksLast7Days,
+      clicksPrevious7Days,
+      topClicked,
+    ] = await Promise.all([
+      getMarketplaceCodes(),
+      supabase.from('v_product_status_counts').select('marketplace, status, product_count'),
+      supabase.from('v_products_needing_refresh').select('id', { count: 'exact', head: true }),
+      supabase.from('v_products_needing_refresh').select('id', { count: 'exact', head: true }).is('last_refresh_at', null),
+      supabase.from('v_refresh_job_stats').select('*').maybeSingle(),
+      supabase
+        .from('circuit_breakers')
+        .select('name, state, forced_open, failure_count, last_failure_at, updated_at')
+        .eq('name', PAAPI_CIRCUIT_BREAKER)
+        .maybeSingle(),
+      supabase
+        .from('rate_limit_usage')
+        .select('priority, request_count, denied_count')
+        .eq('name', PAAPI_RATE_LIMITER)
+        .eq('usage_date', usageDate),
+      countClicks(windows.today),
+      countClicks(windows.sameDayLastWeek),
+      countClicks(windows.last7Days),
+      countClicks(windows.previous7Days),
+      supabase.rpc('top_clicked_products', { since: windows.last7Days.from, max_results: TOP_PRODUCTS_LIMIT }),
+    ])
+
+    for (const result of [
+      statusCounts, staleProducts, neverRefreshed, jobStats, circuitBreaker, quotaUsage,
+      clicksToday, clicksSameDayLastWeek, clicksLast7Days, clicksPrevious7Days, topClicked,
+    ]) {
+      if (result.error) {
+        throw result.error
+      }
+    }
+
+    // Titles and images of the top clicked products
+    const topRows = (topClicked.data || []) as Array<{
+      product_id: string
+      product_asin: string
+      product_slug: string
+      marketplace_code: string
+      clicks: number
+      sessions: number
+    }>
+    const productsById = new Map<string, any>()
+
+    if (topRows.length > 0) {
+      const { data: products, error: productsError } = await supabase
+        .from('products')
+        .select('id, title, images')
+        .in('id', topRows.map(row => row.product_id))
+
+      if (productsError) {
+        throw productsError
+      }
+
+      for (const product of products || []) {
+        productsById.set(product.id, product)
+      }
+    }
+
+    const stats = jobStats.data as RefreshJobStatsRow | null
+    const today = clicksToday.count || 0
+    const sameDayLastWeek = clicksSameDayLastWeek.count || 0
+    const last7Days = clicksLast7Days.count || 0
+    const previous7Days = clicksPrevious7Days.count || 0
+
+    return {
+      products: summarizeProductCounts((statusCounts.data || []) as ProductStatusCountRow[], marketplaces),
+      refresh: {
+        stale_products: staleProducts.count || 0,
+        never_refreshed: neverRefreshed.count || 0,
+        jobs_24h: {
+          total: Number(stats?.total_jobs) || 0,
+          success: Number(stats?.success_count) || 0,
+          failed: Number(stats?.failed_count) || 0,
+          skipped: Number(stats?.skipped_count) || 0,
+          pending: Number(stats?.pending_count) || 0,
+          running: Number(stats?.running_count) || 0,
+        },
+        success_rate: stats ? refreshSuccessRate(stats) : null,
+        avg_duration_seconds: stats?.avg_duration_seconds != null ? Number(stats.avg_duration_seconds) : null,
+        last_job_at: stats?.last_job_created || null,
+      },
+      circuit_breaker: circuitBreaker.data || {
+        name: PAAPI_CIRCUIT_BREAKER,
+        state: 'closed',
+        forced_open: false,
+        failure_count: 0,
+        last_failure_at: null,
+        updated_at: null,
+      },
+      paapi_quota: summarizeQuotaUsage((quotaUsage.data || []) as RateLimitUsageRow[], usageDate),
+      clicks: {
+        today,
+        same_day_last_week: sameDayLastWeek,
+        change_percentage: percentChange(today, sameDayLastWeek),
+        last_7_days: last7Days,
+        previous_7_days: previous7Days,
+        week_change_percentage: percentChange(last7Days, previous7Days),
+      },
+      top_products: topRows.map((row) => {
+        const product = productsById.get(row.product_id)
+        return {
+          product_id: row.product_id,
+          asin: row.product_asin,
+          slug: row.product_slug,
+          title: product?.title || null,
+          image: product?.images?.primary?.medium?.url
+            || product?.images?.primary?.large?.url
+            || product?.images?.primary?.small?.url
+            || null,
+          marketplace: row.marketplace_code,
+          clicks: row.clicks,
+          sessions: row.sessions,
+        }
+      }),
+      generated_at: now.toISOString(),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching dashboard', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to fetch dashboard',
+    })
+  }
+})
@@ -1,4 +1,6 @@
 import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { invalidateCatalogCache } from '~/server/utils/catalog-cache'
+import { useRequestLogger } from '~/server/utils/request-logger'
 
 /**
  * DELETE /api/admin/groups/:id
@@ -6,6 +8,8 @@ import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
  */
 
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const groupId = getRouterParam(event, 'id')
 
   if (!groupId) {
@@ -47,15 +51,17 @@ export default defineEventHandler(async (event) => {
       throw deleteError
     }
 
+    await invalidateCatalogCache()
+
     return {
       message: 'Product group deleted successfully',
     }
   } catch (error: any) {
-    console.error('Error deleting product group:', error)
-    
     if (error.statusCode) {
       throw error
     }
+
+    await log.error('Error deleting product group', error)
     
     throw createError({
       statusCode: 500,
@@ -1,4 +1,5 @@
 import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { useRequestLogger } from '~/server/utils/request-logger'
 
 /**
  * GET /api/admin/groups/:id
@@ -6,6 +7,8 @@ import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
  */
 
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const groupId = getRouterParam(event, 'id')
 
   if (!groupId) {
@@ -54,11 +57,11 @@ export default defineEventHandler(async (event) => {
       },
     }
   } catch (error: any) {
-    console.error('Error fetching product group:', error)
-    
     if (error.statusCode) {
       throw error
     }
+
+    await log.error('Error fetching product group', error)
     
     throw createError({
       statusCode: 500,
@@ -1,5 +1,7 @@
 import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
 import { generateUniqueGroupSlug } from '~/server/utils/slug'
+import { invalidateCatalogCache } from '~/server/utils/catalog-cache'
+import { useRequestLogger } from '~/server/utils/request-logger'
 
 /**
  * PATCH /api/admin/groups/:id
@@ -17,6 +19,8 @@ interface UpdateGroupBody {
 }
 
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const groupId = getRouterParam(event, 'id')
 
   if (!groupId) {
@@ -159,16 +163,18 @@ export default defineEventHandler(async (event) => {
       }
     }
 
+    await invalidateCatalogCache()
+
     return {
       group,
       message: 'Product group updated successfully',
     }
   } catch (error: any) {
-    console.error('Error updating product group:', error)
-    
     if (error.statusCode) {
       throw error
     }
+
+    await log.error('Error updating product group', error)
     
     throw createError({
       statusCode: 500,
@@ -1,4 +1,5 @@
 import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { useRequestLogger } from '~/server/utils/request-logger'
 
 /**
  * GET /api/admin/groups
@@ -7,6 +8,8 @@ import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
  */
 
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   try {
     const query = getQuery(event)
     const marketplaceCode = query.marketplace as string | undefined
@@ -55,7 +58,7 @@ export default defineEventHandler(async (event) => {
           .order('created_at', { ascending: true })
 
         if (productsError) {
-          console.error('Error fetching products for group:', productsError)
+          await log.error('Error fetching products for group', productsError)
           return {
             ...group,
             products: [],
@@ -76,7 +79,11 @@ export default defineEventHandler(async (event) => {
       total: groupsWithProducts.length,
     }
   } catch (error: any) {
-    console.error('Error fetching product groups:', error)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(error)) {
+      await log.error('Error fetching product groups', error)
+    }
+
     throw createError({
       statusCode: 500,
       message: error.message || 'Failed to fetch product groups',
@@ -1,4 +1,6 @@
 import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { invalidateCatalogCache } from '~/server/utils/catalog-cache'
+import { useRequestLogger } from '~/server/utils/request-logger'
 
 /**
  * POST /api/admin/groups
@@ -16,6 +18,8 @@ interface CreateGroupBody {
 }
 
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   try {
     const body = await readBody<CreateGroupBody>(event)
 
@@ -54,16 +58,18 @@ export default defineEventHandler(async (event) => {
       throw error
     }
 
+    await invalidateCatalogCache()
+
     return {
       group,
       message: 'Product group created successfully',
     }
   } catch (error: any) {
-    console.error('Error creating product group:', error)
-    
     if (error.statusCode) {
       throw error
     }
+
+    await log.error('Error creating product group', error)
     
     throw createError({
       statusCode: 500,
@@ -0,0 +1,97 @@
+/**
+ * GET /api/admin/imports/:id
+ * Progress of a bulk import batch: the batch, row counts per status and every row
+ *
+ * Response:
+ * {
+ *   batch: { id, source, status, total_rows, ... },
+ *   counts: { pending: 3, imported: 5, duplicate: 1, not_accessible: 0, invalid_asin: 1, failed: 0 },
+ *   progress: 70, // Percentage of rows settled
+ *   rows: [{ row_number, asin, marketplace, product_type, status, error_message, product, ... }]
+ * }
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { IMPORT_ROW_STATUSES, type ImportRowStatus } from '~/server/utils/import-batch'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const id = getRouterParam(event, 'id')
+
+  if (!id) {
+    throw createError({
+      statusCode: 400,
+      message: 'Import batch ID is required',
+    })
+  }
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+
+    const { data: batch, error: batchError } = await supabase
+      .from('import_batches')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (batchError) {
+      if (batchError.code === 'PGRST116') {
+        throw createError({
+          statusCode: 404,
+          message: 'Import batch not found',
+        })
+      }
+      throw batchError
+    }
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('import_batch_rows')
+      .select(`
+        id,
+        row_number,
+        asin,
+        product_type,
+        status,
+        error_message,
+        attempts,
+        processed_at,
+        marketplace:marketplaces(code),
+        group:product_groups(slug, title),
+        product:products(id, slug, title, status)
+      `)
+      .eq('batch_id', id)
+      .order('row_number', { ascending: true })
+
+    if (rowsError) {
+      throw rowsError
+    }
+
+    const counts = Object.fromEntries(IMPORT_ROW_STATUSES.map(status => [status, 0])) as Record<ImportRowStatus, number>
+    for (const row of rows || []) {
+      counts[row.status as ImportRowStatus]++
+    }
+
+    const total = rows?.length || 0
+
+    return {
+      batch,
+      counts,
+      progress: total > 0 ? Math.round(((total - counts.pending) / total) * 100) : 100,
+      rows: rows || [],
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching import batch', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to fetch import batch',
+    })
+  }
+})
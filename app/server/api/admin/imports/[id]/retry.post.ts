@@ -0,0 +1,82 @@
+/**
+ * POST /api/admin/imports/:id/retry
+ * Put the failed rows of a bulk import batch back in the queue and start importing them
+ *
+ * Only `failed` rows (throttling, network or database errors) are retried;
+ * not accessible and invalid ASINs would fail the same way again.
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { triggerImportBatch } from '~/server/utils/import-batch'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const id = getRouterParam(event, 'id')
+
+  if (!id) {
+    throw createError({
+      statusCode: 400,
+      message: 'Import batch ID is required',
+    })
+  }
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+
+    const { data: rows, error: rowsError } = await supabase
+      .from('import_batch_rows')
+      .update({
+        status: 'pending',
+        error_message: null,
+        locked_at: null,
+        processed_at: null,
+      })
+      .eq('batch_id', id)
+      .eq('status', 'failed')
+      .select('id')
+
+    if (rowsError) {
+      throw rowsError
+    }
+
+    const retried = rows?.length || 0
+
+    if (retried > 0) {
+      const { error: batchError } = await supabase
+        .from('import_batches')
+        .update({ status: 'processing', completed_at: null })
+        .eq('id', id)
+
+      if (batchError) {
+        throw batchError
+      }
+
+      const config = useRuntimeConfig()
+      const triggerError = await triggerImportBatch(config.public.supabaseUrl, config.supabaseServiceKey, id, log.correlationId)
+
+      if (triggerError) {
+        // The cron job starts the batch within a minute
+        await log.warn('Failed to start import-batch function', { batch_id: id, error: triggerError })
+      }
+    }
+
+    return {
+      retried,
+      message: retried > 0 ? `Retrying ${retried} failed rows` : 'No failed rows to retry',
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error retrying import batch', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to retry import batch',
+    })
+  }
+})
@@ -0,0 +1,47 @@
+/**
+ * GET /api/admin/imports
+ * List recent bulk import batches, newest first
+ *
+ * Query parameters:
+ * - limit: Number of batches (default 20, max 100)
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  try {
+    const query = getQuery(event)
+    const limit = Math.min(Math.max(Number.parseInt(String(query.limit ?? ''), 10) || 20, 1), 100)
+
+    const supabase = createServerSupabaseAdminClient()
+
+    const { data: batches, error } = await supabase
+      .from('import_batches')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw error
+    }
+
+    return {
+      batches: batches || [],
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching import batches', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to fetch import batches',
+    })
+  }
+})
@@ -0,0 +1,143 @@
+/**
+ * POST /api/admin/imports
+ * Create a bulk ASIN import batch and start importing it
+ *
+ * Body (one of):
+ * - { asins: string | string[], marketplace: 'US' } - ASINs separated by newlines, commas or spaces
+ * - { csv: string, marketplace?: 'US' } - CSV with asin, marketplace, product_type, group_slug
+ *
+ * Inactive or unknown marketplaces, product types or group slugs reject the request with
+ * 400 and `data.errors` ({ line, message }). Malformed ASINs and repeats are
+ * stored as settled rows. Returns the batch; progress is polled from
+ * GET /api/admin/imports/:id.
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { parseImportRequest, triggerImportBatch, type ImportLineError } from '~/server/utils/import-batch'
+import { getMarketplaces } from '~/server/utils/marketplaces'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  try {
+    const body = await readBody(event)
+    const supabase = createServerSupabaseAdminClient()
+
+    const marketplaces = await getMarketplaces()
+    const marketplaceIds = new Map(marketplaces.map(marketplace => [marketplace.code, marketplace.id]))
+    const parsed = parseImportRequest(body, [...marketplaceIds.keys()])
+
+    if (!parsed.ok) {
+      throw createError({
+        statusCode: 400,
+        message: 'Invalid import',
+        data: { errors: parsed.errors },
+      })
+    }
+
+    // Resolve group slugs per marketplace
+    const groupSlugs = [...new Set(parsed.rows.map(row => row.group_slug).filter((slug): slug is string => !!slug))]
+    const groupIds = new Map<string, string>()
+
+    if (groupSlugs.length > 0) {
+      const { data: groups, error: groupsError } = await supabase
+        .from('product_groups')
+        .select('id, slug, marketplace_id')
+        .in('slug', groupSlugs)
+
+      if (groupsError) {
+        throw groupsError
+      }
+
+      for (const group of groups || []) {
+        groupIds.set(`${group.marketplace_id}:${group.slug}`, group.id)
+      }
+    }
+
+    const errors: ImportLineError[] = []
+    const rows = parsed.rows.map((row) => {
+      const marketplaceId = marketplaceIds.get(row.marketplace)!
+      const groupId = row.group_slug ? groupIds.get(`${marketplaceId}:${row.group_slug}`) : null
+
+      if (groupId === undefined) {
+        errors.push({ line: row.line, message: `Group '${row.group_slug}' not found in marketplace ${row.marketplace}` })
+      }
+
+      return {
+        row_number: row.row_number,
+        asin: row.asin,
+        marketplace_id: marketplaceId,
+        product_type: row.product_type,
+        group_id: groupId ?? null,
+        status: row.status,
+        error_message: row.error_message,
+        processed_at: row.status === 'pending' ? null : new Date().toISOString(),
+      }
+    })
+
+    if (errors.length > 0) {
+      throw createError({
+        statusCode: 400,
+        message: 'Invalid import',
+        data: { errors },
+      })
+    }
+
+    const hasPendingRows = rows.some(row => row.status === 'pending')
+    const now = new Date().toISOString()
+
+    const { data: batch, error: batchError } = await supabase
+      .from('import_batches')
+      .insert({
+        source: parsed.source,
+        total_rows: rows.length,
+        status: hasPendingRows ? 'pending' : 'completed',
+        started_at: hasPendingRows ? null : now,
+        completed_at: hasPendingRows ? null : now,
+      })
+      .select()
+      .single()
+
+    if (batchError) {
+      throw batchError
+    }
+
+    const { error: rowsError } = await supabase
+      .from('import_batch_rows')
+      .insert(rows.map(row => ({ ...row, batch_id: batch.id })))
+
+    if (rowsError) {
+      await supabase.from('import_batches').delete().eq('id', batch.id)
+      throw rowsError
+    }
+
+    if (hasPendingRows) {
+      const config = useRuntimeConfig()
+      const triggerError = await triggerImportBatch(config.public.supabaseUrl, config.supabaseServiceKey, batch.id, log.correlationId)
+
+      if (triggerError) {
+        // The cron job starts the batch within a minute
+        await log.warn('Failed to start import-batch function', { batch_id: batch.id, error: triggerError })
+      }
+    }
+
+    setResponseStatus(event, 201)
+    return {
+      batch,
+      message: `Import of ${rows.length} rows started`,
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error creating import batch', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to create import batch',
+    })
+  }
+})
@@ -0,0 +1,64 @@
+/**
+ * GET /api/admin/logs
+ * List entries of the function_logs table (Edge Functions and Nuxt server routes)
+ *
+ * Query parameters:
+ * - correlationId: Only entries of one request, oldest first
+ * - level: Lowest level shown (debug, info, warn, error; default info, or debug with a correlationId)
+ * - source: Edge Function name or nuxt:<route path>
+ * - limit: Number of entries (default 200, max 1000)
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { parseLogQuery, type FunctionLogRow } from '~/server/utils/request-log'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  try {
+    const filters = parseLogQuery(getQuery(event))
+
+    const supabase = createServerSupabaseAdminClient()
+
+    let query = supabase
+      .from('function_logs')
+      .select('*')
+      .in('level', filters.levels)
+      // A single request reads top to bottom; everything else newest first
+      .order('logged_at', { ascending: filters.correlationId !== null })
+      .order('id', { ascending: filters.correlationId !== null })
+      .limit(filters.limit)
+
+    if (filters.correlationId) {
+      query = query.eq('correlation_id', filters.correlationId)
+    }
+
+    if (filters.source) {
+      query = query.eq('source', filters.source)
+    }
+
+    const { data: logs, error } = await query
+
+    if (error) {
+      throw error
+    }
+
+    return {
+      logs: (logs || []) as FunctionLogRow[],
+      filters,
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching logs', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to fetch logs',
+    })
+  }
+})
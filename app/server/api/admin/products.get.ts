@@ -5,7 +5,12 @@
  * Includes pagination
  */
 
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const query = getQuery(event)
   const marketplace = query.marketplace as string | undefined
   const status = query.status as string | undefined
@@ -14,12 +19,7 @@ export default defineEventHandler(async (event) => {
   const limit = parseInt(query.limit as string) || 20
 
   // Validate marketplace parameter
-  if (marketplace && !['US', 'DE'].includes(marketplace)) {
-    throw createError({
-      statusCode: 400,
-      message: 'Invalid marketplace. Must be "US" or "DE"',
-    })
-  }
+  const marketplaceId = marketplace ? (await requireMarketplace(marketplace)).id : undefined
 
   // Validate status parameter
   if (status && !['draft', 'active', 'unavailable'].includes(status)) {
@@ -32,25 +32,6 @@ export default defineEventHandler(async (event) => {
   try {
     const adminClient = createServerSupabaseAdminClient()
 
-    // Get marketplace_id if marketplace is specified
-    let marketplaceId: string | undefined
-    if (marketplace) {
-      const { data: marketplaceData, error: marketplaceError } = await adminClient
-        .from('marketplaces')
-        .select('id')
-        .eq('code', marketplace)
-        .single()
-
-      if (marketplaceError || !marketplaceData) {
-        throw createError({
-          statusCode: 404,
-          message: `Marketplace "${marketplace}" not found`,
-        })
-      }
-
-      marketplaceId = marketplaceData.id
-    }
-
     // Build query for products
     let productsQuery = adminClient
       .from('products')
@@ -102,7 +83,7 @@ export default defineEventHandler(async (event) => {
     const { data: products, error, count } = await productsQuery
 
     if (error) {
-      console.error('Failed to fetch products:', error)
+      await log.error('Failed to fetch products', error)
       throw createError({
         statusCode: 500,
         message: 'Failed to fetch products',
@@ -119,7 +100,11 @@ export default defineEventHandler(async (event) => {
       },
     }
   } catch (error) {
-    console.error('Admin products API error:', error)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(error)) {
+      await log.error('Admin products API error', error)
+    }
+
     throw error
   }
 })
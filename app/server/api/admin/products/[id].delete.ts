@@ -1,4 +1,8 @@
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const id = getRouterParam(event, 'id')
 
   if (!id) {
@@ -18,7 +22,7 @@ export default defineEventHandler(async (event) => {
       .eq('id', id)
 
     if (deleteError) {
-      console.error('Error deleting product:', deleteError)
+      await log.error('Error deleting product', deleteError)
       throw createError({
         statusCode: 500,
         statusMessage: 'Failed to delete product',
@@ -26,12 +30,18 @@ export default defineEventHandler(async (event) => {
       })
     }
 
+    await invalidateCatalogCache()
+
     return {
       success: true,
       message: 'Product deleted successfully',
     }
   } catch (error: any) {
-    console.error('Delete product error:', error)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(error)) {
+      await log.error('Delete product error', error)
+    }
+
     throw createError({
       statusCode: error.statusCode || 500,
       statusMessage: error.statusMessage || 'Failed to delete product',
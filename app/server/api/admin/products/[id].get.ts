@@ -4,7 +4,11 @@
  * Admin-only endpoint that bypasses RLS
  */
 
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const id = getRouterParam(event, 'id')
   
   if (!id) {
@@ -33,7 +37,7 @@ export default defineEventHandler(async (event) => {
       .single()
 
     if (error) {
-      console.error('Failed to fetch product:', error)
+      await log.error('Failed to fetch product', error)
       
       if (error.code === 'PGRST116') {
         throw createError({
@@ -52,7 +56,11 @@ export default defineEventHandler(async (event) => {
       product,
     }
   } catch (error) {
-    console.error('Get product API error:', error)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(error)) {
+      await log.error('Get product API error', error)
+    }
+
     throw error
   }
 })
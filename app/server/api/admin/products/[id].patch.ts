@@ -1,10 +1,24 @@
+import { validateMetadata } from '~/server/utils/metadata-schemas'
+import { invalidateCatalogCache } from '~/server/utils/catalog-cache'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 /**
  * PATCH /api/admin/products/:id
  * Update product metadata and custom fields
  * Admin-only endpoint that bypasses RLS
+ *
+ * Metadata is validated against its product type schema. Invalid metadata is
+ * rejected with a 400 listing field-level errors in `data.errors`
+ * ([{ path: 'filters.chip', message: '...' }]), as is a body that isn't an
+ * object.
+ *
+ * ?validateOnly=true validates the body without saving and returns
+ * { valid, errors } (used by the editor while typing).
  */
 
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const id = getRouterParam(event, 'id')
   
   if (!id) {
@@ -15,6 +29,16 @@ export default defineEventHandler(async (event) => {
   }
 
   const body = await readBody(event)
+
+  if (!body || typeof body !== 'object') {
+    throw createError({
+      statusCode: 400,
+      message: 'Request body must be an object',
+      data: { errors: [{ path: 'body', message: 'must be an object' }] },
+    })
+  }
+
+  const validateOnly = getQuery(event).validateOnly === 'true'
   
   // Build update object with only allowed fields
   const updates: any = {
@@ -28,6 +52,7 @@ export default defineEventHandler(async (event) => {
       throw createError({
         statusCode: 400,
         message: 'Metadata must be an object',
+        data: { errors: [{ path: 'metadata', message: 'must be an object' }] },
       })
     }
 
@@ -37,9 +62,31 @@ export default defineEventHandler(async (event) => {
       filters: body.metadata.filters || {},
     }
 
+    // Empty metadata is validated too, so a save always sets a product type
+    const validation = validateMetadata(metadata)
+
+    if (validateOnly) {
+      return {
+        valid: validation.valid,
+        errors: validation.fieldErrors,
+      }
+    }
+
+    if (!validation.valid) {
+      throw createError({
+        statusCode: 400,
+        message: `Invalid metadata: ${validation.errors.join(', ')}`,
+        data: { errors: validation.fieldErrors },
+      })
+    }
+
     updates.metadata = metadata
   }
 
+  if (validateOnly) {
+    return { valid: true, errors: [] }
+  }
+
   if (body.status !== undefined) {
     if (!['draft', 'active', 'unavailable'].includes(body.status)) {
       throw createError({
@@ -74,7 +121,7 @@ export default defineEventHandler(async (event) => {
       .single()
 
     if (error) {
-      console.error('Failed to update product:', error)
+      await log.error('Failed to update product', error)
       
       if (error.code === 'PGRST116') {
         throw createError({
@@ -89,12 +136,18 @@ export default defineEventHandler(async (event) => {
       })
     }
 
+    await invalidateCatalogCache()
+
     return {
       success: true,
       product,
     }
   } catch (error) {
-    console.error('Update product API error:', error)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(error)) {
+      await log.error('Update product API error', error)
+    }
+
     throw error
   }
 })
@@ -0,0 +1,96 @@
+/**
+ * GET /api/admin/products/:id/metadata-suggestions
+ * Propose metadata extracted from the product's Amazon text (title, features,
+ * technical and product info) for the admin editor to accept or reject
+ *
+ * Query parameters:
+ * - productType: Product type to extract for (defaults to the product's current
+ *   type, or the type detected from the text)
+ *
+ * Suggestions that fail validateMetadata() are dropped, so `metadata` is always
+ * valid (or null when a required field could not be extracted).
+ * Admin-only endpoint that bypasses RLS
+ */
+
+import { buildProposedMetadata, extractMetadata } from '#shared/metadata-extractor'
+import { isProductType } from '#shared/metadata-filters'
+import { validateMetadata } from '~/server/utils/metadata-schemas'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const id = getRouterParam(event, 'id')
+
+  if (!id) {
+    throw createError({
+      statusCode: 400,
+      message: 'Product ID is required',
+    })
+  }
+
+  const query = getQuery(event)
+  if (query.productType !== undefined && !isProductType(query.productType)) {
+    throw createError({
+      statusCode: 400,
+      message: 'Invalid productType',
+    })
+  }
+
+  try {
+    const adminClient = createServerSupabaseAdminClient()
+
+    const { data: product, error } = await adminClient
+      .from('products')
+      .select('id, title, features, technical_info, product_info, metadata')
+      .eq('id', id)
+      .single()
+
+    if (error) {
+      await log.error('Failed to fetch product', error)
+
+      if (error.code === 'PGRST116') {
+        throw createError({
+          statusCode: 404,
+          message: 'Product not found',
+        })
+      }
+
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to fetch product',
+      })
+    }
+
+    const currentType = (product.metadata as { filters?: Record<string, unknown> } | null)?.filters?.product_type
+    const productType = isProductType(query.productType)
+      ? query.productType
+      : isProductType(currentType) ? currentType : undefined
+
+    const proposal = extractMetadata(product, productType)
+
+    // The extractor only proposes registry values; drop anything the schema still rejects
+    if (proposal.productType && proposal.metadata) {
+      const validation = validateMetadata(proposal.metadata)
+
+      if (!validation.valid) {
+        const rejected = new Set(validation.fieldErrors.map(fieldError => fieldError.path.split('.')[1]))
+        proposal.suggestions = proposal.suggestions.filter(suggestion => !rejected.has(suggestion.key))
+        proposal.metadata = buildProposedMetadata(proposal.productType, proposal.suggestions)
+
+        if (proposal.metadata && !validateMetadata(proposal.metadata).valid) {
+          proposal.metadata = null
+        }
+      }
+    }
+
+    return proposal
+  } catch (error) {
+    // HTTP errors raised above are expected or already logged
+    if (!isError(error)) {
+      await log.error('Get metadata suggestions API error', error)
+    }
+
+    throw error
+  }
+})
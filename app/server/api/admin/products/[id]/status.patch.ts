@@ -4,7 +4,11 @@
  * Admin-only endpoint that bypasses RLS
  */
 
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   // Get product ID from route params
   const id = getRouterParam(event, 'id')
   
@@ -42,7 +46,7 @@ export default defineEventHandler(async (event) => {
       .single()
 
     if (error) {
-      console.error('Failed to update product status:', error)
+      await log.error('Failed to update product status', error)
       
       // Check if product doesn't exist
       if (error.code === 'PGRST116') {
@@ -58,12 +62,18 @@ export default defineEventHandler(async (event) => {
       })
     }
 
+    await invalidateCatalogCache()
+
     return {
       success: true,
       product,
     }
   } catch (error) {
-    console.error('Update status API error:', error)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(error)) {
+      await log.error('Update status API error', error)
+    }
+
     throw error
   }
 })
@@ -1,4 +1,8 @@
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const productId = getRouterParam(event, 'id')
 
   if (!productId) {
@@ -42,7 +46,7 @@ export default defineEventHandler(async (event) => {
       .eq('custom_parent_id', productId)
 
     if (countError) {
-      console.error('Failed to count variants:', countError)
+      await log.error('Failed to count variants', countError)
     }
 
     if (!count || count === 0) {
@@ -62,7 +66,7 @@ export default defineEventHandler(async (event) => {
       .eq('custom_parent_id', productId)
 
     if (updateError) {
-      console.error('Failed to ungroup variants:', updateError)
+      await log.error('Failed to ungroup variants', updateError)
       throw createError({
         statusCode: 500,
         message: 'Failed to ungroup variants',
@@ -83,6 +87,8 @@ export default defineEventHandler(async (event) => {
         .eq('id', groupIdToDelete)
     }
 
+    await invalidateCatalogCache()
+
     return {
       success: true,
       message: `Successfully ungrouped ${count} variant(s) from "${product.title}"`,
@@ -90,7 +96,11 @@ export default defineEventHandler(async (event) => {
       groupDeleted: !!groupIdToDelete,
     }
   } catch (err: any) {
-    console.error('Failed to ungroup variants:', err)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(err)) {
+      await log.error('Failed to ungroup variants', err)
+    }
+
     throw createError({
       statusCode: err.statusCode || 500,
       message: err.message || 'Failed to ungroup variants',
@@ -1,4 +1,8 @@
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const productId = getRouterParam(event, 'id')
 
   if (!productId) {
@@ -45,7 +49,7 @@ export default defineEventHandler(async (event) => {
       .eq('id', productId)
 
     if (updateError) {
-      console.error('Failed to ungroup product:', updateError)
+      await log.error('Failed to ungroup product', updateError)
       throw createError({
         statusCode: 500,
         message: 'Failed to ungroup product',
@@ -80,13 +84,19 @@ export default defineEventHandler(async (event) => {
       }
     }
 
+    await invalidateCatalogCache()
+
     return {
       success: true,
       message: `Successfully ungrouped "${product.title}"`,
       groupDeleted,
     }
   } catch (err: any) {
-    console.error('Failed to ungroup product:', err)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(err)) {
+      await log.error('Failed to ungroup product', err)
+    }
+
     throw createError({
       statusCode: err.statusCode || 500,
       message: err.message || 'Failed to ungroup product',
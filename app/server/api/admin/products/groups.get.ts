@@ -1,31 +1,17 @@
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const query = getQuery(event)
   const marketplace = query.marketplace as string
 
-  if (!marketplace || !['US', 'DE'].includes(marketplace)) {
-    throw createError({
-      statusCode: 400,
-      message: 'Valid marketplace (US or DE) is required',
-    })
-  }
+  const { id: marketplaceId } = await requireMarketplace(marketplace)
 
   try {
     const supabase = createServerSupabaseAdminClient()
 
-    // Get marketplace ID
-    const { data: marketplaceData, error: marketplaceError } = await supabase
-      .from('marketplaces')
-      .select('id')
-      .eq('code', marketplace)
-      .single()
-
-    if (marketplaceError || !marketplaceData) {
-      throw createError({
-        statusCode: 404,
-        message: 'Marketplace not found',
-      })
-    }
-
     // Get all products with variant counts
     const { data: products, error } = await supabase
       .from('products')
@@ -42,11 +28,11 @@ export default defineEventHandler(async (event) => {
         detail_page_url,
         created_at
       `)
-      .eq('marketplace_id', marketplaceData.id)
+      .eq('marketplace_id', marketplaceId)
       .order('created_at', { ascending: false })
 
     if (error) {
-      console.error('Database error:', error)
+      await log.error('Database error', error)
       throw createError({
         statusCode: 500,
         message: 'Failed to load products',
@@ -72,11 +58,11 @@ export default defineEventHandler(async (event) => {
     const { data: variantCounts, error: countError } = await supabase
       .from('products')
       .select('custom_parent_id')
-      .eq('marketplace_id', marketplaceData.id)
+      .eq('marketplace_id', marketplaceId)
       .not('custom_parent_id', 'is', null)
 
     if (countError) {
-      console.error('Failed to count variants:', countError)
+      await log.error('Failed to count variants', countError)
     }
 
     // Create a map of custom_parent_id -> count
@@ -117,7 +103,11 @@ export default defineEventHandler(async (event) => {
       products: enhancedProducts,
     }
   } catch (err: any) {
-    console.error('Failed to load products:', err)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(err)) {
+      await log.error('Failed to load products', err)
+    }
+
     throw createError({
       statusCode: err.statusCode || 500,
       message: err.message || 'Failed to load products',
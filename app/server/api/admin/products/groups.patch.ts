@@ -1,6 +1,10 @@
 import { generateUniqueGroupSlug } from '~/server/utils/slug'
+import { invalidateCatalogCache } from '~/server/utils/catalog-cache'
+import { useRequestLogger } from '~/server/utils/request-logger'
 
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   const body = await readBody(event)
   const { parentId, variantIds } = body
 
@@ -65,7 +69,7 @@ export default defineEventHandler(async (event) => {
         .single()
 
       if (groupError) {
-        console.error('Failed to create product group:', groupError)
+        await log.error('Failed to create product group', groupError)
         throw createError({
           statusCode: 500,
           message: 'Failed to create product group record',
@@ -84,7 +88,7 @@ export default defineEventHandler(async (event) => {
         .eq('id', parentId)
 
       if (parentUpdateError) {
-        console.error('Failed to update parent with group_id:', parentUpdateError)
+        await log.error('Failed to update parent with group_id', parentUpdateError)
       }
     }
 
@@ -109,7 +113,7 @@ export default defineEventHandler(async (event) => {
       .limit(1)
 
     if (checkError) {
-      console.error('Failed to check existing variants:', checkError)
+      await log.error('Failed to check existing variants', checkError)
     }
 
     if (existingVariants && existingVariants.length > 0) {
@@ -129,13 +133,15 @@ export default defineEventHandler(async (event) => {
       .in('id', variantIds)
 
     if (updateError) {
-      console.error('Failed to update variants:', updateError)
+      await log.error('Failed to update variants', updateError)
       throw createError({
         statusCode: 500,
         message: 'Failed to create product group',
       })
     }
 
+    await invalidateCatalogCache()
+
     return {
       success: true,
       message: `Successfully grouped ${variantIds.length} product(s) under "${parent.title}"`,
@@ -144,7 +150,11 @@ export default defineEventHandler(async (event) => {
       variantCount: variantIds.length,
     }
   } catch (err: any) {
-    console.error('Failed to create group:', err)
+    // HTTP errors raised above are expected or already logged
+    if (!isError(err)) {
+      await log.error('Failed to create group', err)
+    }
+
     throw createError({
       statusCode: err.statusCode || 500,
       message: err.message || 'Failed to create product group',
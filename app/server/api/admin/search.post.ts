@@ -1,3 +1,6 @@
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import { correlationHeaders, useRequestLogger } from '~/server/utils/request-logger'
+
 export default defineEventHandler(async (event) => {
   // Validate request method
   if (event.node.req.method !== 'POST') {
@@ -18,12 +21,7 @@ export default defineEventHandler(async (event) => {
     })
   }
 
-  if (!marketplace || typeof marketplace !== 'string' || !['US', 'DE'].includes(marketplace)) {
-    throw createError({
-      statusCode: 400,
-      message: 'Marketplace must be either "US" or "DE"',
-    })
-  }
+  await requireMarketplace(marketplace)
 
   // Validate limit if provided (1-10 per page)
   const itemLimit = limit && typeof limit === 'number' && limit >= 1 && limit <= 10 ? limit : 10
@@ -31,6 +29,8 @@ export default defineEventHandler(async (event) => {
   // Validate page if provided (1-10)
   const itemPage = page && typeof page === 'number' && page >= 1 && page <= 10 ? page : 1
 
+  const log = useRequestLogger(event)
+
   try {
     // Create Supabase client
     const supabase = await createServerSupabaseClient(event)
@@ -43,13 +43,15 @@ export default defineEventHandler(async (event) => {
         limit: itemLimit,
         page: itemPage,
       },
+      headers: correlationHeaders(event),
     })
 
     if (error) {
-      console.error('Edge function error:', error)
+      await log.error('search-products failed', error, { query: query.trim(), marketplace })
       throw createError({
         statusCode: 500,
         message: 'Failed to search products',
+        data: { correlation_id: log.correlationId },
       })
     }
 
@@ -94,10 +96,10 @@ export default defineEventHandler(async (event) => {
         if (!dbError && existingProducts) {
           importedAsins = new Set(existingProducts.map(p => p.asin))
         } else if (dbError) {
-          console.error('Failed to check for existing products:', dbError)
+          await log.error('Failed to check for existing products', dbError)
         }
       } else {
-        console.error('Failed to find marketplace:', marketplace, marketplaceError)
+        await log.error('Failed to find marketplace', marketplaceError, { marketplace })
       }
       
       console.log('Imported ASINs:', Array.from(importedAsins))
@@ -117,11 +119,16 @@ export default defineEventHandler(async (event) => {
       page: itemPage,
       limit: itemLimit,
     }
-  } catch (error) {
-    console.error('Search API error:', error)
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Search API error', error)
     throw createError({
       statusCode: 500,
       message: 'Internal server error',
+      data: { correlation_id: log.correlationId },
     })
   }
 })
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { isConfirmationExpired } from '~/server/utils/alerts'
+
+/**
+ * POST /api/alerts/confirm
+ * Confirm (double opt-in) an alert subscription with the token from the confirmation message
+ * Public endpoint
+ *
+ * Body: { token }
+ */
+
+export default defineEventHandler(async (event) => {
+  const { token } = await readBody(event) || {}
+
+  if (!token || typeof token !== 'string') {
+    throw createError({
+      statusCode: 400,
+      message: 'Confirmation token is required',
+    })
+  }
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+
+    const { data: subscription, error } = await supabase
+      .from('alert_subscriptions')
+      .select('id, status, confirmation_sent_at, product:products!product_id (title, slug)')
+      .eq('confirm_token', token)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch alert subscription:', error)
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to confirm alert',
+      })
+    }
+
+    if (!subscription || subscription.status === 'unsubscribed') {
+      throw createError({
+        statusCode: 404,
+        message: 'Invalid or expired confirmation link',
+      })
+    }
+
+    if (subscription.status === 'pending') {
+      if (isConfirmationExpired(subscription.confirmation_sent_at)) {
+        throw createError({
+          statusCode: 410,
+          message: 'Confirmation link expired. Please subscribe again.',
+        })
+      }
+
+      const { error: updateError } = await supabase
+        .from('alert_subscriptions')
+        .update({
+          status: 'active',
+          confirmed_at: new Date().toISOString(),
+        })
+        .eq('id', subscription.id)
+
+      if (updateError) {
+        console.error('Failed to confirm alert subscription:', updateError)
+        throw createError({
+          statusCode: 500,
+          message: 'Failed to confirm alert',
+        })
+      }
+    }
+
+    return {
+      success: true,
+      status: 'active',
+      product: subscription.product,
+    }
+  } catch (error: any) {
+    console.error('Error confirming alert:', error)
+
+    if (error.statusCode) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      message: 'Internal server error',
+    })
+  }
+})
@@ -0,0 +1,252 @@
+import type { H3Event } from 'h3'
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { correlationHeaders, useRequestLogger } from '~/server/utils/request-logger'
+import { getClientIp } from '~/server/utils/client-ip'
+import {
+  alertDestinationKey,
+  buildConfirmationMessage,
+  generateAlertToken,
+  subscribeRateLimits,
+  validateAlertSubscriptionInput,
+  type AlertSubscriptionInput,
+} from '~/server/utils/alerts'
+import { resolveSiteUrl } from '#shared/seo'
+
+/**
+ * POST /api/alerts/subscribe
+ * Subscribe to price-drop and/or back-in-stock alerts for a product
+ * Public endpoint (double opt-in: the subscription stays pending until confirmed),
+ * rate limited per client and per destination (429 with Retry-After)
+ *
+ * Confirm and unsubscribe links are built from SITE_URL, never from the
+ * request's Host header.
+ *
+ * Body: { product_slug, channel: 'email' | 'webhook', destination, target_price?, notify_when_available? }
+ */
+
+// The confirmation stays queued if delivery takes longer, the visitor shouldn't wait for it
+const DELIVERY_TRIGGER_TIMEOUT = 3000
+
+// Unique index violation: another request created the subscription first
+const UNIQUE_VIOLATION = '23505'
+
+type SupabaseAdminClient = ReturnType<typeof createServerSupabaseAdminClient>
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+  const validation = validateAlertSubscriptionInput(await readBody(event))
+
+  if (!validation.ok) {
+    throw createError({
+      statusCode: 400,
+      message: validation.message,
+    })
+  }
+
+  const input = validation.value
+
+  try {
+    // Subscriptions hold email addresses and tokens, so they are only accessible with the service role
+    const supabase = createServerSupabaseAdminClient()
+
+    await requireSubscribeAttempt(event, supabase, input)
+
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, title, slug, current_price')
+      .eq('slug', input.product_slug)
+      .eq('status', 'active')
+      .single()
+
+    if (productError || !product) {
+      throw createError({
+        statusCode: 404,
+        message: 'Product not found',
+      })
+    }
+
+    if (input.target_price !== null && product.current_price !== null && input.target_price >= Number(product.current_price)) {
+      throw createError({
+        statusCode: 400,
+        message: 'Target price must be below the current price',
+      })
+    }
+
+    const subscriptionFields = {
+      target_price: input.target_price,
+      notify_when_available: input.notify_when_available,
+      status: 'pending',
+      confirm_token: generateAlertToken(),
+      confirmation_sent_at: new Date().toISOString(),
+      confirmed_at: null,
+    }
+
+    const { data: subscription, error: saveError } = await saveSubscription(supabase, product.id, input, subscriptionFields)
+
+    if (saveError || !subscription) {
+      await log.error('Failed to save alert subscription', saveError)
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to save alert subscription',
+      })
+    }
+
+    // Same fallback as the refresh worker's alert links
+    const config = useRuntimeConfig()
+    const siteUrl = resolveSiteUrl(config.public.siteUrl, 'http://localhost:3000', config.app.baseURL)
+
+    const { error: queueError } = await supabase
+      .from('alert_notifications')
+      .insert({
+        subscription_id: subscription.id,
+        kind: 'confirmation',
+        channel: subscription.channel,
+        destination: subscription.destination,
+        payload: buildConfirmationMessage(product, subscription, siteUrl),
+      })
+
+    if (queueError) {
+      await log.error('Failed to queue alert confirmation', queueError)
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to send confirmation',
+      })
+    }
+
+    await triggerNotificationDelivery(event)
+
+    return {
+      success: true,
+      status: 'pending',
+      message: input.channel === 'email'
+        ? 'Check your inbox to confirm the alert'
+        : 'A confirmation link was sent to your webhook',
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error subscribing to alerts', error)
+
+    throw createError({
+      statusCode: 500,
+      message: 'Internal server error',
+    })
+  }
+})
+
+/**
+ * Create the subscription, or renew the live one of the same destination
+ *
+ * Re-subscribing updates the live subscription and asks for confirmation
+ * again. Destinations match case-insensitively like the unique index
+ * (destination_key); an insert losing a race against another subscribe for
+ * the same destination renews the subscription that won.
+ */
+async function saveSubscription(
+  supabase: SupabaseAdminClient,
+  productId: string,
+  input: AlertSubscriptionInput,
+  fields: Record<string, unknown>
+) {
+  for (let attempt = 1; ; attempt++) {
+    const { data: existing, error: lookupError } = await supabase
+      .from('alert_subscriptions')
+      .select('id')
+      .eq('product_id', productId)
+      .eq('channel', input.channel)
+      .eq('destination_key', alertDestinationKey(input.destination))
+      .neq('status', 'unsubscribed')
+      .maybeSingle()
+
+    if (lookupError) {
+      return { data: null, error: lookupError }
+    }
+
+    if (existing) {
+      return await supabase
+        .from('alert_subscriptions')
+        .update(fields)
+        .eq('id', existing.id)
+        .select()
+        .single()
+    }
+
+    const inserted = await supabase
+      .from('alert_subscriptions')
+      .insert({
+        ...fields,
+        product_id: productId,
+        channel: input.channel,
+        destination: input.destination,
+        unsubscribe_token: generateAlertToken(),
+      })
+      .select()
+      .single()
+
+    if (inserted.error?.code !== UNIQUE_VIOLATION || attempt > 1) {
+      return inserted
+    }
+  }
+}
+
+/**
+ * Count the attempt against the client and destination limits
+ * @throws 429 with Retry-After once either limit is used up
+ */
+async function requireSubscribeAttempt(
+  event: H3Event,
+  supabase: SupabaseAdminClient,
+  input: AlertSubscriptionInput
+) {
+  const clientIp = getClientIp(event)
+
+  for (const { key, limit, windowSeconds } of subscribeRateLimits(clientIp, input)) {
+    const { data, error } = await supabase.rpc('take_alert_subscribe_attempt', {
+      p_key: key,
+      p_limit: limit,
+      p_window_seconds: windowSeconds,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    const attempt = data?.[0] as { granted: boolean, retry_after_ms: number } | undefined
+
+    if (attempt && !attempt.granted) {
+      setResponseHeader(event, 'Retry-After', Math.max(1, Math.ceil(attempt.retry_after_ms / 1000)))
+      throw createError({
+        statusCode: 429,
+        message: 'Too many alert subscriptions, please try again later',
+      })
+    }
+  }
+}
+
+/**
+ * Ask the deliver-notifications Edge Function to send the queued confirmation now
+ * The confirmation stays queued (and is sent by the next refresh worker run) if
+ * this fails or takes longer than DELIVERY_TRIGGER_TIMEOUT
+ */
+async function triggerNotificationDelivery(event: H3Event) {
+  const config = useRuntimeConfig()
+
+  try {
+    const response = await fetch(`${config.public.supabaseUrl}/functions/v1/deliver-notifications`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.public.supabaseKey}`,
+        ...correlationHeaders(event),
+      },
+      signal: AbortSignal.timeout(DELIVERY_TRIGGER_TIMEOUT),
+    })
+
+    await response.body?.cancel()
+  } catch (error) {
+    await useRequestLogger(event).warn('Failed to trigger notification delivery', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
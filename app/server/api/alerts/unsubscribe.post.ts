@@ -0,0 +1,80 @@
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+
+/**
+ * POST /api/alerts/unsubscribe
+ * Stop an alert subscription with the token included in every alert message
+ * Public endpoint (idempotent)
+ *
+ * Body: { token }
+ */
+
+export default defineEventHandler(async (event) => {
+  const { token } = await readBody(event) || {}
+
+  if (!token || typeof token !== 'string') {
+    throw createError({
+      statusCode: 400,
+      message: 'Unsubscribe token is required',
+    })
+  }
+
+  try {
+    const supabase = createServerSupabaseAdminClient()
+
+    const { data: subscription, error } = await supabase
+      .from('alert_subscriptions')
+      .select('id, status, product:products!product_id (title, slug)')
+      .eq('unsubscribe_token', token)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Failed to fetch alert subscription:', error)
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to unsubscribe',
+      })
+    }
+
+    if (!subscription) {
+      throw createError({
+        statusCode: 404,
+        message: 'Invalid unsubscribe link',
+      })
+    }
+
+    if (subscription.status !== 'unsubscribed') {
+      const { error: updateError } = await supabase
+        .from('alert_subscriptions')
+        .update({
+          status: 'unsubscribed',
+          unsubscribed_at: new Date().toISOString(),
+        })
+        .eq('id', subscription.id)
+
+      if (updateError) {
+        console.error('Failed to unsubscribe alert:', updateError)
+        throw createError({
+          statusCode: 500,
+          message: 'Failed to unsubscribe',
+        })
+      }
+    }
+
+    return {
+      success: true,
+      status: 'unsubscribed',
+      product: subscription.product,
+    }
+  } catch (error: any) {
+    console.error('Error unsubscribing alert:', error)
+
+    if (error.statusCode) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      message: 'Internal server error',
+    })
+  }
+})
@@ -1,228 +1,189 @@
 /**
- * Analytics API endpoint for Amazon click statistics
- * Requires service role authentication
- * 
- * Usage: GET /api/analytics/clicks?period=30d&groupBy=product
+ * GET /api/analytics/clicks
+ * Amazon click statistics for the admin clicks page
+ *
+ * Query (optional):
+ * - period: 7d (default), 30d, 90d or all
+ * - groupBy: day (default), week, product, marketplace, referrer, device or country
+ * - limit: maximum number of groups for the non-time breakdowns (default 50, max 500)
+ * - format: csv to download the breakdown instead of JSON
+ *
+ * Counting happens in SQL (click_totals, click_breakdown), so totals cover every
+ * click in the period. The summary compares with the period before (none for
+ * 'all'). The series is daily or weekly (see seriesGranularity).
+ * Admin only (server/middleware/admin-auth.ts).
  */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import {
+  buildBreakdown,
+  clickPeriodRange,
+  fillSeries,
+  isTimeDimension,
+  parseClickDimension,
+  parseClickPeriod,
+  seriesGranularity,
+  summarizeClicks,
+  toCsv,
+  type ClickBreakdownRow,
+  type ClickDimension,
+  type ClickTotalsRow,
+} from '~/server/utils/click-analytics'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 500
+
+// Column naming the group of each breakdown row
+const GROUP_COLUMNS: Record<ClickDimension, string[]> = {
+  day: ['date'],
+  week: ['date'],
+  product: ['product_id', 'product_slug', 'product_asin', 'product_title', 'marketplace_code'],
+  marketplace: ['marketplace'],
+  referrer: ['referrer_domain'],
+  device: ['device'],
+  country: ['country_code'],
+}
+
+const BREAKDOWN_COLUMNS = ['clicks', 'sessions', 'share', 'previous_clicks', 'change_percentage']
+
 export default defineEventHandler(async (event) => {
   try {
-    // Get query parameters
     const query = getQuery(event)
-    const period = query.period as string || '7d' // 7d, 30d, 90d, all
-    const groupBy = query.groupBy as string || 'day' // day, week, product, marketplace
-    const limit = parseInt(query.limit as string) || 100
+    const period = parseClickPeriod(query.period)
+    const groupBy = parseClickDimension(query.groupBy)
+    const limit = Math.min(Math.max(parseInt(query.limit as string) || DEFAULT_LIMIT, 1), MAX_LIMIT)
 
-    // Calculate date range
     const now = new Date()
-    let startDate: Date | null = null
-    
-    switch (period) {
-      case '7d':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-        break
-      case '30d':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)
-        break
-      case '90d':
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000)
-        break
-      case 'all':
-        startDate = null
-        break
-      default:
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
-    }
+    const range = clickPeriodRange(period, now)
+    const granularity = seriesGranularity(period, groupBy)
 
-    // Get Supabase admin client (for analytics access)
     const supabase = createServerSupabaseAdminClient()
 
-    // Base query - fetch clicks first, then we'll join with products manually
-    let dbQuery = supabase
-      .from('amazon_clicks')
-      .select('*')
-      .order('clicked_at', { ascending: false })
-      .limit(limit)
+    const totals = (since: string | null, until: string) =>
+      supabase.rpc('click_totals', { since, until }).maybeSingle()
 
-    // Add date filter if applicable
-    if (startDate) {
-      dbQuery = dbQuery.gte('clicked_at', startDate.toISOString())
-    }
+    const breakdown = (dimension: string, since: string | null, until: string, maxResults: number | null) =>
+      supabase.rpc('click_breakdown', { dimension, since, until, max_results: maxResults })
 
-    const { data: clicks, error } = await dbQuery
+    const [current, previous, series, groups, previousGroups] = await Promise.all([
+      totals(range.from, range.to),
+      range.previous ? totals(range.previous.from, range.previous.to) : null,
+      breakdown(granularity, range.from, range.to, null),
+      isTimeDimension(groupBy) ? null : breakdown(groupBy, range.from, range.to, limit),
+      // Every group of the previous period, so groups outside its top `limit` still get a delta
+      !isTimeDimension(groupBy) && range.previous
+        ? breakdown(groupBy, range.previous.from, range.previous.to, null)
+        : null,
+    ])
 
-    if (error) {
-      console.error('Error fetching clicks:', error)
-      throw createError({
-        statusCode: 500,
-        message: 'Failed to fetch click analytics',
-      })
-    }
-
-    // Get unique product slugs to fetch product details
-    const productSlugs = [...new Set(clicks.map((c: any) => c.product_slug).filter(Boolean))]
-    
-    // Fetch product details
-    let productsMap: Record<string, any> = {}
-    if (productSlugs.length > 0) {
-      const { data: products, error: productsError } = await supabase
-        .from('products')
-        .select('slug, title, images')
-        .in('slug', productSlugs)
-      
-      if (!productsError && products) {
-        productsMap = products.reduce((acc, p) => {
-          acc[p.slug] = p
-          return acc
-        }, {} as Record<string, any>)
+    for (const result of [current, previous, series, groups, previousGroups]) {
+      if (result?.error) {
+        console.error('Error aggregating clicks:', result.error)
+        throw createError({
+          statusCode: 500,
+          message: 'Failed to fetch click analytics',
+        })
       }
     }
 
-    // Attach product details to clicks
-    const clicksWithProducts = clicks.map((click: any) => ({
-      ...click,
-      products: productsMap[click.product_slug] || null
-    }))
-
-    // Process data based on groupBy
-    let analytics: any = {}
-
-    switch (groupBy) {
-      case 'product':
-        // Group by product
-        analytics = clicksWithProducts.reduce((acc: any, click: any) => {
-          const key = click.product_slug || click.product_asin
-          if (!acc[key]) {
-            const product = click.products
-            const primaryImage = product?.images?.primary?.large?.url || 
-                                product?.images?.primary?.medium?.url || 
-                                product?.images?.primary?.small?.url
-            
-            acc[key] = {
-              product_slug: click.product_slug,
-              product_asin: click.product_asin,
-              product_title: product?.title,
-              product_image: primaryImage,
-              clicks: 0,
-              sessions: new Set(),
-            }
-          }
-          acc[key].clicks++
-          if (click.session_id) {
-            acc[key].sessions.add(click.session_id)
-          }
-          return acc
-        }, {})
-        analytics = Object.values(analytics).map((item: any) => ({
-          ...item,
-          sessions: item.sessions.size,
-        })).sort((a: any, b: any) => b.clicks - a.clicks)
-        break
-
-      case 'marketplace':
-        // Group by marketplace with product details
-        analytics = clicksWithProducts.reduce((acc: any, click: any) => {
-          // Create composite key with marketplace and product
-          const key = `${click.marketplace_code}_${click.product_slug || click.product_asin}`
-          
-          if (!acc[key]) {
-            const product = click.products
-            const primaryImage = product?.images?.primary?.large?.url || 
-                                product?.images?.primary?.medium?.url || 
-                                product?.images?.primary?.small?.url
-            
-            acc[key] = {
-              marketplace_code: click.marketplace_code,
-              product_slug: click.product_slug,
-              product_asin: click.product_asin,
-              product_title: product?.title,
-              product_image: primaryImage,
-              clicks: 0,
-              sessions: new Set(),
-            }
-          }
-          acc[key].clicks++
-          if (click.session_id) {
-            acc[key].sessions.add(click.session_id)
-          }
-          return acc
-        }, {})
-        analytics = Object.values(analytics).map((item: any) => ({
-          ...item,
-          sessions: item.sessions.size,
-        })).sort((a: any, b: any) => b.clicks - a.clicks)
-        break
-
-      case 'day':
-      case 'week':
-        // Group by time period with product details
-        analytics = clicksWithProducts.reduce((acc: any, click: any) => {
-          const date = new Date(click.clicked_at)
-          let key: string
-          
-          if (groupBy === 'day') {
-            key = date.toISOString().split('T')[0] // YYYY-MM-DD
-          } else {
-            // Week - get start of week
-            const weekStart = new Date(date)
-            weekStart.setDate(date.getDate() - date.getDay())
-            key = weekStart.toISOString().split('T')[0]
-          }
-          
-          // Create a composite key with date and product for better granularity
-          const compositeKey = `${key}_${click.product_slug || click.product_asin}`
-          
-          if (!acc[compositeKey]) {
-            const product = click.products
-            const primaryImage = product?.images?.primary?.large?.url || 
-                                product?.images?.primary?.medium?.url || 
-                                product?.images?.primary?.small?.url
-            
-            acc[compositeKey] = {
-              date: key,
-              product_slug: click.product_slug,
-              product_asin: click.product_asin,
-              product_title: product?.title,
-              product_image: primaryImage,
-              clicks: 0,
-              sessions: new Set(),
-            }
-          }
-          acc[compositeKey].clicks++
-          if (click.session_id) {
-            acc[compositeKey].sessions.add(click.session_id)
+    const summary = summarizeClicks(
+      current.data as ClickTotalsRow | null,
+      previous ? (previous.data as ClickTotalsRow | null) : null
+    )
+
+    const points = fillSeries((series.data || []) as ClickBreakdownRow[], granularity, range.from, range.to)
+
+    let data: Record<string, unknown>[]
+
+    if (isTimeDimension(groupBy)) {
+      data = points.map(point => ({
+        date: point.date,
+        clicks: point.clicks,
+        sessions: point.sessions,
+      }))
+    } else {
+      const items = buildBreakdown(
+        (groups?.data || []) as ClickBreakdownRow[],
+        summary.totalClicks,
+        previousGroups ? (previousGroups.data || []) as ClickBreakdownRow[] : null
+      )
+
+      if (groupBy === 'product') {
+        const productIds = items.map(item => item.key).filter((id): id is string => !!id)
+        const { data: products, error: productsError } = productIds.length
+          ? await supabase
+            .from('products')
+            .select('id, asin, slug, title, images, marketplace:marketplaces!marketplace_id(code)')
+            .in('id', productIds)
+          : { data: [], error: null }
+
+        if (productsError) {
+          // Groups are still useful without titles and images
+          console.error('Error loading clicked products:', productsError)
+        }
+
+        const productsById = new Map((products || []).map((product: any) => [product.id, product]))
+
+        data = items.map(({ key, ...item }) => {
+          const product = key ? productsById.get(key) : null
+          return {
+            product_id: key,
+            product_slug: product?.slug || null,
+            product_asin: product?.asin || null,
+            product_title: product?.title || null,
+            product_image: product?.images?.primary?.medium?.url
+              || product?.images?.primary?.large?.url
+              || product?.images?.primary?.small?.url
+              || null,
+            marketplace_code: product?.marketplace?.code || null,
+            ...item,
           }
-          return acc
-        }, {})
-        analytics = Object.values(analytics).map((item: any) => ({
+        })
+      } else {
+        data = items.map(({ key, ...item }) => ({
+          [GROUP_COLUMNS[groupBy][0] as string]: key,
           ...item,
-          sessions: item.sessions.size,
-        })).sort((a: any, b: any) => 
-          new Date(b.date).getTime() - new Date(a.date).getTime() || b.clicks - a.clicks
-        )
-        break
-
-      default:
-        analytics = clicksWithProducts
+        }))
+      }
     }
 
-    // Calculate summary statistics
-    const totalClicks = clicks.length
-    const uniqueSessions = new Set(clicks.map((c: any) => c.session_id).filter(Boolean)).size
-    const uniqueProducts = new Set(clicks.map((c: any) => c.product_asin)).size
+    if (query.format === 'csv') {
+      const columns = isTimeDimension(groupBy)
+        ? [...GROUP_COLUMNS[groupBy], 'clicks', 'sessions']
+        : [...GROUP_COLUMNS[groupBy], ...BREAKDOWN_COLUMNS]
+
+      setResponseHeaders(event, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="clicks-${groupBy}-${period}-${range.to.slice(0, 10)}.csv"`,
+        'Cache-Control': 'no-store',
+      })
+
+      return toCsv(columns, data)
+    }
 
     return {
       summary: {
-        totalClicks,
-        uniqueSessions,
-        uniqueProducts,
+        ...summary,
         period,
-        startDate: startDate?.toISOString() || null,
-        endDate: now.toISOString(),
+        startDate: range.from,
+        endDate: range.to,
+        previousStartDate: range.previous?.from || null,
+        previousEndDate: range.previous?.to || null,
       },
-      data: analytics,
+      groupBy,
+      series: {
+        granularity,
+        points,
+      },
+      data,
     }
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error fetching click analytics:', error)
+
+    if (error.statusCode) {
+      throw error
+    }
+
     throw createError({
       statusCode: 500,
       message: 'Failed to fetch analytics',
@@ -0,0 +1,29 @@
+/**
+ * POST /api/cache/invalidate
+ * Drop the cached catalog responses after products changed outside the admin API
+ *
+ * Called by the refresh worker Edge Function once it updated products.
+ * Requires `Authorization: Bearer <CACHE_INVALIDATION_SECRET>`; refused
+ * while no secret is configured.
+ */
+
+import { invalidateCatalogCache } from '~/server/utils/catalog-cache'
+import { isValidInvalidationToken } from '~/server/utils/response-cache'
+
+export default defineEventHandler(async (event) => {
+  const config = useRuntimeConfig()
+
+  if (!isValidInvalidationToken(getHeader(event, 'authorization'), config.cacheInvalidationSecret)) {
+    throw createError({
+      statusCode: 401,
+      message: 'Invalid cache invalidation token',
+    })
+  }
+
+  await invalidateCatalogCache()
+
+  return {
+    success: true,
+    message: 'Catalog cache cleared',
+  }
+})
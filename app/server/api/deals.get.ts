@@ -2,20 +2,24 @@
  * GET /api/deals
  * Fetch all products with discounts (including variants)
  * Public endpoint with RLS (only returns active products)
+ * Cached per marketplace (server/utils/catalog-cache.ts)
  */
 
+import type { H3Event } from 'h3'
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import { cachedCatalogResponse } from '~/server/utils/catalog-cache'
+
 export default defineEventHandler(async (event) => {
   const query = getQuery(event)
   const marketplace = query.marketplace as string | undefined
 
   // Validate marketplace parameter
-  if (marketplace && !['US', 'DE'].includes(marketplace)) {
-    throw createError({
-      statusCode: 400,
-      message: 'Invalid marketplace. Must be "US" or "DE"',
-    })
-  }
+  const marketplaceId = marketplace ? (await requireMarketplace(marketplace)).id : undefined
 
+  return cachedCatalogResponse(event, 'deals', {}, () => fetchDeals(event, marketplaceId))
+})
+
+async function fetchDeals(event: H3Event, marketplaceId: string | undefined) {
   try {
     const supabase = await createServerSupabaseClient(event)
 
@@ -54,22 +58,8 @@ export default defineEventHandler(async (event) => {
       .order('savings_percentage', { ascending: false })
 
     // Filter by marketplace if specified
-    if (marketplace) {
-      // First, get the marketplace_id
-      const { data: marketplaceData, error: marketplaceError } = await supabase
-        .from('marketplaces')
-        .select('id')
-        .eq('code', marketplace)
-        .single()
-
-      if (marketplaceError || !marketplaceData) {
-        throw createError({
-          statusCode: 404,
-          message: `Marketplace "${marketplace}" not found`,
-        })
-      }
-
-      productsQuery = productsQuery.eq('marketplace_id', marketplaceData.id)
+    if (marketplaceId) {
+      productsQuery = productsQuery.eq('marketplace_id', marketplaceId)
     }
 
     const { data: products, error } = await productsQuery
@@ -92,4 +82,4 @@ export default defineEventHandler(async (event) => {
       message: 'Internal server error',
     })
   }
-})
+}
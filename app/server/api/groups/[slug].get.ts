@@ -1,9 +1,11 @@
+import type { H3Event } from 'h3'
 import { createServerSupabaseClient } from '~/server/utils/supabase'
+import { cachedCatalogResponse } from '~/server/utils/catalog-cache'
 
 /**
  * GET /api/groups/:slug
  * Fetch a product group by slug with all its products
- * Public endpoint with RLS
+ * Public endpoint with RLS, cached per slug (server/utils/catalog-cache.ts)
  */
 
 export default defineEventHandler(async (event) => {
@@ -16,6 +18,10 @@ export default defineEventHandler(async (event) => {
     })
   }
 
+  return cachedCatalogResponse(event, 'group', { slug }, () => fetchGroup(event, slug))
+})
+
+async function fetchGroup(event: H3Event, slug: string) {
   try {
     const supabase = await createServerSupabaseClient(event)
 
@@ -152,4 +158,4 @@ export default defineEventHandler(async (event) => {
       message: error.message || 'Failed to fetch product group',
     })
   }
-})
+}
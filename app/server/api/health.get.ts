@@ -0,0 +1,114 @@
+/**
+ * GET /api/health
+ * Health of the database, PA-API, the shared PA-API circuit breaker and the refresh worker
+ *
+ * Response (200 when healthy or degraded, 503 when unhealthy):
+ * {
+ *   status: 'healthy' | 'degraded' | 'unhealthy',
+ *   timestamp,
+ *   components: {
+ *     database: { status: 'up' | 'down' | 'degraded', message?, details: { latency_ms } },
+ *     paapi: { status, message?, details: { jobs_24h: { success, failed }, failure_rate } },
+ *     circuit_breaker: { status, message?, details: { name, state, forced_open, failure_count, last_failure_at } },
+ *     refresh: { status, message?, details: { backlog_count, never_refreshed_count, backlog_age_hours, last_success_at, hours_since_success } }
+ *   }
+ * }
+ * Public endpoint for uptime monitors; reads with the service role
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import {
+  checkCircuitBreaker,
+  checkDatabase,
+  checkPaapi,
+  checkRefresh,
+  healthStatusCode,
+  rollUpHealth,
+  type CircuitBreakerRow,
+} from '~/server/utils/health'
+
+const PAAPI_CIRCUIT_BREAKER = 'paapi-client'
+
+export default defineEventHandler(async (event) => {
+  setResponseHeader(event, 'Cache-Control', 'no-store')
+
+  const supabase = createServerSupabaseAdminClient()
+  const startedAt = Date.now()
+  let probeError: string | undefined
+
+  try {
+    const { error } = await supabase.from('marketplaces').select('id', { count: 'exact', head: true })
+    probeError = error?.message
+  } catch (error: any) {
+    probeError = error.message || 'Database unavailable'
+  }
+
+  const now = new Date()
+  const database = checkDatabase(Date.now() - startedAt, probeError)
+
+  if (database.status === 'down') {
+    console.error('Health check: database down:', probeError)
+    const unavailable = { status: 'down' as const, message: 'Database unavailable' }
+    const health = rollUpHealth({ database, paapi: unavailable, circuit_breaker: unavailable, refresh: unavailable }, now)
+    setResponseStatus(event, healthStatusCode(health.status))
+    return health
+  }
+
+  try {
+    const [breaker, backlog, neverRefreshed, oldest, lastSuccess, jobStats] = await Promise.all([
+      supabase
+        .from('circuit_breakers')
+        .select('name, state, forced_open, failure_count, last_failure_at')
+        .eq('name', PAAPI_CIRCUIT_BREAKER)
+        .maybeSingle(),
+      supabase.from('v_products_needing_refresh').select('id', { count: 'exact', head: true }),
+      supabase.from('v_products_needing_refresh').select('id', { count: 'exact', head: true }).is('last_refresh_at', null),
+      supabase
+        .from('v_products_needing_refresh')
+        .select('last_refresh_at')
+        .not('last_refresh_at', 'is', null)
+        .order('last_refresh_at', { ascending: true })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('refresh_jobs')
+        .select('completed_at')
+        .eq('status', 'success')
+        .order('completed_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase.from('v_refresh_job_stats').select('success_count, failed_count').maybeSingle(),
+    ])
+
+    for (const result of [breaker, backlog, neverRefreshed, oldest, lastSuccess, jobStats]) {
+      if (result.error) {
+        throw result.error
+      }
+    }
+
+    const health = rollUpHealth({
+      database,
+      paapi: checkPaapi({
+        success: Number(jobStats.data?.success_count) || 0,
+        failed: Number(jobStats.data?.failed_count) || 0,
+      }),
+      circuit_breaker: checkCircuitBreaker(breaker.data as CircuitBreakerRow | null),
+      refresh: checkRefresh({
+        backlogCount: backlog.count || 0,
+        neverRefreshedCount: neverRefreshed.count || 0,
+        oldestRefreshAt: oldest.data?.last_refresh_at || null,
+        lastSuccessAt: lastSuccess.data?.completed_at || null,
+      }, now),
+    }, now)
+
+    setResponseStatus(event, healthStatusCode(health.status))
+    return health
+  } catch (error: any) {
+    console.error('Health check failed:', error)
+
+    const unknown = { status: 'down' as const, message: error.message || 'Failed to load status' }
+    const health = rollUpHealth({ database, paapi: unknown, circuit_breaker: unknown, refresh: unknown }, now)
+    setResponseStatus(event, healthStatusCode(health.status))
+    return health
+  }
+})
@@ -0,0 +1,25 @@
+/**
+ * GET /api/marketplaces
+ * Active marketplaces in display order, for the marketplace selector
+ *
+ * Response: [{ id, code, name, flag, currency, domain, locale }]
+ */
+
+import { getMarketplaces, MARKETPLACES_MAX_AGE } from '~/server/utils/marketplaces'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const marketplaces = await getMarketplaces()
+
+    setResponseHeader(event, 'Cache-Control', `public, max-age=${MARKETPLACES_MAX_AGE}`)
+
+    return marketplaces
+  } catch (error: any) {
+    console.error('Error fetching marketplaces:', error)
+
+    throw createError({
+      statusCode: 500,
+      message: error.message || 'Failed to fetch marketplaces',
+    })
+  }
+})
@@ -1,9 +1,16 @@
+import type { H3Event } from 'h3'
 import { createServerSupabaseClient } from '~/server/utils/supabase'
+import { cachedCatalogResponse } from '~/server/utils/catalog-cache'
+import { productCanonicalPath, type ProductAlternate } from '#shared/seo'
 
 /**
  * GET /api/products/:slug
  * Fetch a single product by slug
  * Public endpoint with RLS (only returns active products)
+ * Cached per slug (server/utils/catalog-cache.ts)
+ *
+ * Also returns the page's canonical path (variants point to their group or
+ * parent) and the listings of the same ASIN in other marketplaces (hreflang).
  */
 
 export default defineEventHandler(async (event) => {
@@ -16,6 +23,10 @@ export default defineEventHandler(async (event) => {
     })
   }
 
+  return cachedCatalogResponse(event, 'product', { slug }, () => fetchProduct(event, slug))
+})
+
+async function fetchProduct(event: H3Event, slug: string) {
   try {
     const supabase = await createServerSupabaseClient(event)
 
@@ -35,6 +46,7 @@ export default defineEventHandler(async (event) => {
         savings_amount,
         savings_percentage,
         currency,
+        availability_type,
         status,
         metadata,
         created_at,
@@ -94,17 +106,21 @@ export default defineEventHandler(async (event) => {
     // Fetch variants if this is a parent product (custom_parent_id is null and might have children)
     let variants: any[] = []
     let parentMetadata = null
+    let parentSlug: string | null = null
+    let parentGroupId: string | null = null
     
     if (product && product.custom_parent_id) {
       // This product is a variant - fetch parent's metadata
       const { data: parentData, error: parentError } = await supabase
         .from('products')
-        .select('metadata, features')
+        .select('slug, group_id, metadata, features')
         .eq('id', product.custom_parent_id)
         .single()
       
       if (!parentError && parentData) {
         parentMetadata = parentData.metadata
+        parentSlug = parentData.slug
+        parentGroupId = parentData.group_id
         // If the variant doesn't have features but parent does, use parent's features
         if (!product.features && parentData.features) {
           product.features = parentData.features
@@ -143,6 +159,46 @@ export default defineEventHandler(async (event) => {
     // If product has a group, use the group product count, otherwise use variants count
     const totalCount = group ? groupProductCount : variants.length
 
+    // Variants are canonical to their group (their own or the parent's) or, without one, to the parent
+    let canonicalGroupSlug: string | null = group?.slug || null
+    if (product.custom_parent_id && !canonicalGroupSlug && parentGroupId) {
+      const { data: parentGroup } = await supabase
+        .from('product_groups')
+        .select('slug')
+        .eq('id', parentGroupId)
+        .maybeSingle()
+
+      canonicalGroupSlug = parentGroup?.slug || null
+    }
+
+    const canonicalPath = productCanonicalPath(product, { groupSlug: canonicalGroupSlug, parentSlug })
+
+    // Listings of the same ASIN in every marketplace (canonical pages only, this one included)
+    let alternates: ProductAlternate[] = []
+    if (!product.custom_parent_id) {
+      const { data: listings, error: listingsError } = await supabase
+        .from('products')
+        .select(`
+          slug,
+          marketplace:marketplaces!marketplace_id (
+            code,
+            locale
+          )
+        `)
+        .eq('asin', product.asin)
+        .eq('status', 'active')
+        .is('custom_parent_id', null)
+
+      if (listingsError) {
+        console.error('Failed to fetch product alternates:', listingsError)
+      } else {
+        alternates = (listings || []).flatMap((listing) => {
+          const marketplace = listing.marketplace as unknown as { code: string; locale: string } | null
+          return marketplace ? [{ marketplace_code: marketplace.code, locale: marketplace.locale, slug: listing.slug }] : []
+        })
+      }
+    }
+
     // If product has parent metadata, inherit parent's display metadata while keeping variant's own filters
     if (parentMetadata && product) {
       // Keep the variant's own filters (specific to this variant)
@@ -164,9 +220,11 @@ export default defineEventHandler(async (event) => {
       group,
       variants,
       variant_count: totalCount,
+      canonical_path: canonicalPath,
+      alternates,
     }
   } catch (error) {
     console.error('Product API error:', error)
     throw error
   }
-})
+}
@@ -0,0 +1,83 @@
+import { createServerSupabaseClient } from '~/server/utils/supabase'
+import { PRICE_HISTORY_WINDOWS, summarizePriceHistory } from '~/server/utils/price-history'
+
+/**
+ * GET /api/products/:slug/price-history
+ * Fetch price history points and 30/90/365-day min/max/current for a product
+ * Public endpoint with RLS (only returns history of active products)
+ */
+
+export default defineEventHandler(async (event) => {
+  const slug = getRouterParam(event, 'id') // Keep param name as 'id' for route compatibility
+
+  if (!slug) {
+    throw createError({
+      statusCode: 400,
+      message: 'Product slug is required',
+    })
+  }
+
+  try {
+    const supabase = await createServerSupabaseClient(event)
+
+    const { data: product, error } = await supabase
+      .from('products')
+      .select('id, current_price, original_price, currency')
+      .eq('slug', slug)
+      .eq('status', 'active')
+      .single()
+
+    if (error) {
+      console.error('Failed to fetch product:', error)
+      throw createError({
+        statusCode: error.code === 'PGRST116' ? 404 : 500,
+        message: error.code === 'PGRST116' ? 'Product not found' : 'Failed to fetch product',
+      })
+    }
+
+    const longestWindow = Math.max(...PRICE_HISTORY_WINDOWS)
+    const since = new Date(Date.now() - longestWindow * 24 * 60 * 60 * 1000).toISOString()
+    const columns = 'current_price, original_price, availability_type, recorded_at'
+
+    // Points inside the longest window, plus the last point before it (the price in effect at its start)
+    const [{ data: history, error: historyError }, { data: previous, error: previousError }] = await Promise.all([
+      supabase
+        .from('price_history')
+        .select(columns)
+        .eq('product_id', product.id)
+        .gte('recorded_at', since)
+        .order('recorded_at', { ascending: true }),
+      supabase
+        .from('price_history')
+        .select(columns)
+        .eq('product_id', product.id)
+        .lt('recorded_at', since)
+        .order('recorded_at', { ascending: false })
+        .limit(1),
+    ])
+
+    if (historyError || previousError) {
+      console.error('Failed to fetch price history:', historyError || previousError)
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to fetch price history',
+      })
+    }
+
+    return {
+      currency: product.currency,
+      ...summarizePriceHistory([...(previous || []), ...(history || [])], product),
+    }
+  } catch (error: any) {
+    console.error('Error fetching price history:', error)
+
+    if (error.statusCode) {
+      throw error
+    }
+
+    throw createError({
+      statusCode: 500,
+      message: 'Internal server error',
+    })
+  }
+})
@@ -0,0 +1,120 @@
+import { createServerSupabaseClient } from '~/server/utils/supabase'
+import { buildComparison, MAX_COMPARE_PRODUCTS, parseCompareIds, type ComparedProduct } from '#shared/compare'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+/**
+ * GET /api/products/compare
+ * Fetch up to four products with their aligned comparison rows
+ * Public endpoint with RLS (only returns active products)
+ *
+ * Query: ids (comma-separated product IDs, in display order)
+ *
+ * Products that are no longer active are left out and listed in `missing`, so a
+ * shared comparison URL keeps working after a product was removed. Variants
+ * compare with their parent's metadata, like on the product page.
+ */
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const ids = parseCompareIds(getQuery(event).ids)
+
+  if (ids.length === 0) {
+    throw createError({
+      statusCode: 400,
+      message: `Provide between 1 and ${MAX_COMPARE_PRODUCTS} product IDs to compare`,
+    })
+  }
+
+  try {
+    const supabase = await createServerSupabaseClient(event)
+
+    const { data, error } = await supabase
+      .from('products')
+      .select(`
+        id,
+        asin,
+        slug,
+        title,
+        brand,
+        images,
+        detail_page_url,
+        current_price,
+        original_price,
+        savings_percentage,
+        currency,
+        star_rating,
+        customer_review_count,
+        metadata,
+        custom_parent_id,
+        marketplace:marketplaces!marketplace_id (
+          id,
+          code,
+          region_name,
+          currency
+        )
+      `)
+      .in('id', ids)
+      .eq('status', 'active')
+
+    if (error) {
+      throw error
+    }
+
+    const rows = data || []
+
+    // Inherit the parent's metadata for variants (same rule as GET /api/products/:slug)
+    const parentIds = [...new Set(rows.map(row => row.custom_parent_id).filter((id): id is string => !!id))]
+    const parentMetadata = new Map<string, NonNullable<ComparedProduct['metadata']>>()
+
+    if (parentIds.length > 0) {
+      const { data: parents, error: parentsError } = await supabase
+        .from('products')
+        .select('id, metadata')
+        .in('id', parentIds)
+
+      if (parentsError) {
+        await log.error('Failed to fetch parent metadata', parentsError)
+      } else {
+        for (const parent of parents || []) {
+          parentMetadata.set(parent.id, parent.metadata)
+        }
+      }
+    }
+
+    const products = ids
+      .map(id => rows.find(row => row.id === id))
+      .filter((row): row is NonNullable<typeof row> => !!row)
+      .map(({ custom_parent_id, ...product }) => {
+        const parent = custom_parent_id ? parentMetadata.get(custom_parent_id) : null
+
+        return parent
+          ? {
+              ...product,
+              metadata: {
+                ...product.metadata,
+                display: parent.display || product.metadata?.display,
+                filters: parent.filters || product.metadata?.filters,
+              },
+            }
+          : product
+      })
+
+    return {
+      products,
+      rows: buildComparison(products),
+      missing: ids.filter(id => !products.some(product => product.id === id)),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Compare API error', error)
+
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to compare products',
+    })
+  }
+})
@@ -4,9 +4,19 @@
  * 
  * Proxies import requests to the import-product Supabase Edge Function
  * Handles authentication and error transformation for the admin UI
+ *
+ * The request's correlation ID is forwarded to the Edge Function and returned
+ * in error responses (`data.correlation_id`), so a failed import can be looked
+ * up in the admin log viewer.
  */
 
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import { correlationHeaders, useRequestLogger } from '~/server/utils/request-logger'
+import { invalidateCatalogCache } from '~/server/utils/catalog-cache'
+
 export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
   try {
     // Parse request body
     const body = await readBody(event)
@@ -20,12 +30,7 @@ export default defineEventHandler(async (event) => {
       })
     }
 
-    if (!marketplace || !['US', 'DE'].includes(marketplace)) {
-      throw createError({
-        statusCode: 400,
-        message: 'Invalid marketplace. Must be US or DE'
-      })
-    }
+    await requireMarketplace(marketplace)
 
     // Get Supabase configuration from runtime config
     const config = useRuntimeConfig()
@@ -47,6 +52,7 @@ export default defineEventHandler(async (event) => {
       headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${supabaseAnonKey}`,
+        ...correlationHeaders(event),
       },
       body: JSON.stringify({
         asin,
@@ -71,12 +77,23 @@ export default defineEventHandler(async (event) => {
         message = 'Amazon API temporarily unavailable'
       }
 
+      await log.warn('import-product failed', {
+        asin,
+        marketplace,
+        status: response.status,
+        error: errorData.error,
+      })
+
       throw createError({
         statusCode: response.status,
-        message
+        message,
+        data: { correlation_id: log.correlationId },
       })
     }
 
+    // The import may have updated a listed product
+    await invalidateCatalogCache()
+
     // Return successful import result
     const data = await response.json()
     return {
@@ -92,12 +109,13 @@ export default defineEventHandler(async (event) => {
     }
 
     // Log unexpected errors
-    console.error('Unexpected error in import API route:', error)
+    await log.error('Unexpected error in import API route', error)
 
     // Return generic error
     throw createError({
       statusCode: 500,
-      message: 'An unexpected error occurred while importing the product'
+      message: 'An unexpected error occurred while importing the product',
+      data: { correlation_id: log.correlationId },
     })
   }
 })
@@ -1,77 +1,75 @@
+import type { H3Event } from 'h3'
+import type { Marketplace } from '#shared/marketplaces'
+import {
+  LISTING_PRODUCT_SELECT,
+  PRODUCT_SORTS,
+  parseProductListQuery,
+  toListingProduct,
+  type ListingProductRow,
+  type ProductFacets,
+  type ProductListQuery,
+} from '~/server/utils/product-listing'
+import { getMarketplaces } from '~/server/utils/marketplaces'
+import { cachedCatalogResponse } from '~/server/utils/catalog-cache'
+
 /**
  * GET /api/products
- * Fetch products filtered by marketplace
+ * Fetch a page of listing products with server-side filtering, sorting and facet counts
  * Public endpoint with RLS (only returns active products)
+ * Cached per query (server/utils/catalog-cache.ts)
+ *
+ * Query: marketplace, search, type, chip, wifi, bluetooth, usb, flash, psram, gpio,
+ *        minPrice, maxPrice, camera, display, battery, zigbee, thread, sdcard,
+ *        sort (newest | price_low | price_high | savings), page, limit
  */
 
 export default defineEventHandler(async (event) => {
-  const query = getQuery(event)
-  const marketplace = query.marketplace as string | undefined
+  const marketplaces = await getMarketplaces()
+  const parsed = parseProductListQuery(getQuery(event), marketplaces.map(marketplace => marketplace.code))
 
-  // Validate marketplace parameter
-  if (marketplace && !['US', 'DE'].includes(marketplace)) {
+  if (!parsed.ok) {
     throw createError({
       statusCode: 400,
-      message: 'Invalid marketplace. Must be "US" or "DE"',
+      message: parsed.message,
     })
   }
 
+  return cachedCatalogResponse(event, 'products', {}, () => fetchProducts(event, parsed.value, marketplaces))
+})
+
+async function fetchProducts(event: H3Event, query: ProductListQuery, marketplaces: Marketplace[]) {
+  const { marketplace, filters, sort, page, limit } = query
+
   try {
     const supabase = await createServerSupabaseClient(event)
 
-    // Build query - exclude variants (only show parent products and ungrouped products)
-    let productsQuery = supabase
-      .from('products')
-      .select(`
-        id,
-        asin,
-        slug,
-        title,
-        description,
-        brand,
-        images,
-        detail_page_url,
-        current_price,
-        original_price,
-        savings_amount,
-        savings_percentage,
-        currency,
-        status,
-        metadata,
-        raw_paapi_response,
-        created_at,
-        group_id,
-        marketplace:marketplaces!marketplace_id (
-          id,
-          code,
-          region_name,
-          currency
-        )
-      `)
-      .eq('status', 'active')
-      .is('custom_parent_id', null) // Only products without custom parent (excludes manually grouped variants)
-      .order('created_at', { ascending: false })
-
-    // Filter by marketplace if specified
+    // Filter by marketplace if specified (validated against the active marketplaces above)
     if (marketplace) {
-      // First, get the marketplace_id
-      const { data: marketplaceData, error: marketplaceError } = await supabase
-        .from('marketplaces')
-        .select('id')
-        .eq('code', marketplace)
-        .single()
-
-      if (marketplaceError || !marketplaceData) {
-        throw createError({
-          statusCode: 404,
-          message: `Marketplace "${marketplace}" not found`,
-        })
-      }
-
-      productsQuery = productsQuery.eq('marketplace_id', marketplaceData.id)
+      filters.marketplace_id = marketplaces.find(({ code }) => code === marketplace)!.id
     }
 
-    const { data: products, error } = await productsQuery
+    // Filtering happens in search_products; variants (products with a custom parent) are excluded there
+    const { column, ascending } = PRODUCT_SORTS[sort]
+    const from = (page - 1) * limit
+    const to = from + limit - 1
+
+    const productsQuery = supabase
+      .rpc('search_products', { filters }, { count: 'exact' })
+      .select(LISTING_PRODUCT_SELECT)
+      .eq('variants.status', 'active')
+      .eq('group.products.status', 'active')
+      .order('current_price', { referencedTable: 'variants', ascending: true, nullsFirst: false })
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending: true })
+      .range(from, to)
+
+    const [
+      { data: products, error, count },
+      { data: facets, error: facetsError },
+    ] = await Promise.all([
+      productsQuery,
+      supabase.rpc('product_filter_facets', { filters }),
+    ])
 
     if (error) {
       console.error('Failed to fetch products:', error)
@@ -81,64 +79,26 @@ export default defineEventHandler(async (event) => {
       })
     }
 
-    // Fetch variants for each product
-    const productsWithVariants = await Promise.all(
-      (products || []).map(async (product) => {
-        const { data: variants, error: variantsError } = await supabase
-          .from('products')
-          .select('id, asin, title, current_price, original_price, savings_amount, savings_percentage, currency, images')
-          .eq('custom_parent_id', product.id)
-          .eq('status', 'active')
-          .order('current_price', { ascending: true, nullsFirst: false })
-
-        if (variantsError) {
-          console.error('Failed to fetch variants:', variantsError)
-        }
-
-        // Fetch group information if product has group_id
-        let group = null
-        let groupProductCount = 0
-        if (product.group_id) {
-          const { data: groupData, error: groupError } = await supabase
-            .from('product_groups')
-            .select('id, slug, title, description')
-            .eq('id', product.group_id)
-            .single()
-
-          if (!groupError && groupData) {
-            group = groupData
-            
-            // Count all products in this group
-            const { count, error: countError } = await supabase
-              .from('products')
-              .select('id', { count: 'exact', head: true })
-              .eq('group_id', product.group_id)
-              .eq('status', 'active')
-            
-            if (!countError && count !== null) {
-              groupProductCount = count
-            }
-          }
-        }
-
-        // If product has a group, use the group product count, otherwise use variants count
-        const totalCount = group ? groupProductCount : (variants?.length || 0)
+    if (facetsError) {
+      console.error('Failed to fetch product facets:', facetsError)
+    }
 
-        return {
-          ...product,
-          variants: variants || [],
-          variant_count: totalCount,
-          group,
-        }
-      })
-    )
+    // search_products returns SETOF products, which the untyped client infers as one row or many
+    const listingProducts = ((products || []) as unknown as ListingProductRow[]).map(toListingProduct)
 
     return {
-      products: productsWithVariants,
-      count: productsWithVariants.length,
+      products: listingProducts,
+      count: listingProducts.length,
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+      facets: (facets || {}) as ProductFacets,
     }
   } catch (error) {
     console.error('Products API error:', error)
     throw error
   }
-})
+}
@@ -0,0 +1,78 @@
+import {
+  parseSiteSearchQuery,
+  toGroupSearchResult,
+  toProductSearchResult,
+  type GroupSearchRow,
+  type ProductSearchRow,
+} from '~/server/utils/site-search'
+import { getMarketplaces } from '~/server/utils/marketplaces'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+/**
+ * GET /api/search
+ * Ranked full-text search over products and product groups (header typeahead)
+ * Public endpoint with RLS (only returns active products)
+ *
+ * Query: q (at least 2 characters), marketplace, limit (products, default 8)
+ *
+ * Matching is typo tolerant and ignores part number separators, so "esp32s3"
+ * finds "ESP32-S3" boards. Titles and snippets come back as highlight segments.
+ */
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const marketplaces = await getMarketplaces()
+  const parsed = parseSiteSearchQuery(getQuery(event), marketplaces.map(marketplace => marketplace.code))
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 400,
+      message: parsed.message,
+    })
+  }
+
+  const { q, marketplace, limit } = parsed.value
+  const marketplaceId = marketplace ? marketplaces.find(({ code }) => code === marketplace)!.id : null
+
+  try {
+    const supabase = await createServerSupabaseClient(event)
+
+    const [
+      { data: products, error: productsError },
+      { data: groups, error: groupsError },
+    ] = await Promise.all([
+      supabase.rpc('site_search_products', { query: q, marketplace: marketplaceId, max_results: limit }),
+      supabase.rpc('site_search_groups', { query: q, marketplace: marketplaceId, max_results: Math.ceil(limit / 2) }),
+    ])
+
+    if (productsError) {
+      await log.error('Failed to search products', productsError)
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to search products',
+      })
+    }
+
+    // Groups are a bonus in the dropdown; products alone are still a useful answer
+    if (groupsError) {
+      await log.error('Failed to search product groups', groupsError)
+    }
+
+    return {
+      query: q,
+      products: ((products || []) as ProductSearchRow[]).map(toProductSearchResult),
+      groups: ((groups || []) as GroupSearchRow[]).map(toGroupSearchResult),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Search API error', error)
+    throw createError({
+      statusCode: 500,
+      message: 'Search failed',
+    })
+  }
+})
@@ -0,0 +1,80 @@
+/**
+ * GET /api/v1/deals
+ * Page of active products and variants below their original price, biggest savings first
+ * Requires an API key (api-key-auth middleware)
+ *
+ * Query: marketplace, min_savings (percent, default 1), page, limit
+ */
+
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import {
+  API_PRODUCT_COLUMNS,
+  API_V1_ROUTES,
+  pageRange,
+  parseApiParams,
+  toApiPagination,
+  toApiProduct,
+  type ApiProductRow,
+} from '~/server/utils/public-api'
+import { getSiteUrl } from '~/server/utils/sitemap-source'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const parsed = parseApiParams(API_V1_ROUTES.listDeals, getQuery(event))
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 400,
+      message: parsed.message,
+    })
+  }
+
+  const params = parsed.value
+  const page = params.page as number
+  const limit = params.limit as number
+  const marketplaceId = params.marketplace ? (await requireMarketplace(params.marketplace)).id : undefined
+
+  try {
+    const supabase = await createServerSupabaseClient(event)
+    const { from, to } = pageRange(page, limit)
+
+    let dealsQuery = supabase
+      .from('products')
+      .select(API_PRODUCT_COLUMNS, { count: 'exact' })
+      .eq('status', 'active')
+      .gte('savings_percentage', params.min_savings as number)
+      .order('savings_percentage', { ascending: false })
+      .order('id', { ascending: true })
+      .range(from, to)
+
+    if (marketplaceId) {
+      dealsQuery = dealsQuery.eq('marketplace_id', marketplaceId)
+    }
+
+    const { data, error, count } = await dealsQuery
+
+    if (error) {
+      throw error
+    }
+
+    const siteUrl = getSiteUrl(event)
+
+    return {
+      data: ((data || []) as unknown as ApiProductRow[]).map(row => toApiProduct(row, siteUrl)),
+      pagination: toApiPagination(page, limit, count),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching v1 deals', error)
+
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to fetch deals',
+    })
+  }
+})
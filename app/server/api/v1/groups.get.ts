@@ -0,0 +1,80 @@
+/**
+ * GET /api/v1/groups
+ * Page of product groups with at least one active product, by title
+ * Requires an API key (api-key-auth middleware)
+ *
+ * Query: marketplace, page, limit
+ */
+
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import {
+  API_GROUP_COLUMNS,
+  API_V1_ROUTES,
+  pageRange,
+  parseApiParams,
+  toApiGroup,
+  toApiPagination,
+  type ApiGroupRow,
+} from '~/server/utils/public-api'
+import { getSiteUrl } from '~/server/utils/sitemap-source'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const parsed = parseApiParams(API_V1_ROUTES.listGroups, getQuery(event))
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 400,
+      message: parsed.message,
+    })
+  }
+
+  const params = parsed.value
+  const page = params.page as number
+  const limit = params.limit as number
+  const marketplaceId = params.marketplace ? (await requireMarketplace(params.marketplace)).id : undefined
+
+  try {
+    const supabase = await createServerSupabaseClient(event)
+    const { from, to } = pageRange(page, limit)
+
+    // The inner join leaves out groups without active products (from the count too)
+    let groupsQuery = supabase
+      .from('product_groups')
+      .select(API_GROUP_COLUMNS, { count: 'exact' })
+      .eq('products.status', 'active')
+      .order('title', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to)
+
+    if (marketplaceId) {
+      groupsQuery = groupsQuery.eq('marketplace_id', marketplaceId)
+    }
+
+    const { data, error, count } = await groupsQuery
+
+    if (error) {
+      throw error
+    }
+
+    const siteUrl = getSiteUrl(event)
+
+    return {
+      data: ((data || []) as unknown as ApiGroupRow[]).map(row => toApiGroup(row, siteUrl)),
+      pagination: toApiPagination(page, limit, count),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching v1 groups', error)
+
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to fetch product groups',
+    })
+  }
+})
@@ -0,0 +1,28 @@
+/**
+ * GET /api/v1/marketplaces
+ * Active marketplaces in display order
+ * Requires an API key (api-key-auth middleware)
+ */
+
+import { getMarketplaces } from '~/server/utils/marketplaces'
+import { toApiMarketplace } from '~/server/utils/public-api'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  try {
+    const marketplaces = await getMarketplaces()
+
+    return {
+      data: marketplaces.map(toApiMarketplace),
+    }
+  } catch (error) {
+    await log.error('Error fetching v1 marketplaces', error)
+
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to fetch marketplaces',
+    })
+  }
+})
@@ -0,0 +1,14 @@
+/**
+ * GET /api/v1/openapi.json
+ * OpenAPI 3.1 spec of the v1 routes, generated from their definitions
+ * Public (no API key), so clients can be generated before a key is issued
+ */
+
+import { buildOpenApiSpec } from '~/server/utils/public-api'
+import { getSiteUrl } from '~/server/utils/sitemap-source'
+
+export default defineEventHandler((event) => {
+  setResponseHeader(event, 'Cache-Control', 'public, max-age=3600')
+
+  return buildOpenApiSpec(getSiteUrl(event))
+})
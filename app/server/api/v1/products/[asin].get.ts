@@ -0,0 +1,74 @@
+/**
+ * GET /api/v1/products/:asin
+ * Active product or variant by ASIN, in the documented v1 shape
+ * Requires an API key (api-key-auth middleware)
+ *
+ * Query: marketplace (default US)
+ */
+
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import {
+  API_PRODUCT_COLUMNS,
+  API_V1_ROUTES,
+  parseApiParams,
+  toApiProduct,
+  type ApiProductRow,
+} from '~/server/utils/public-api'
+import { getSiteUrl } from '~/server/utils/sitemap-source'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const parsed = parseApiParams(API_V1_ROUTES.getProduct, {
+    ...getQuery(event),
+    asin: getRouterParam(event, 'asin'),
+  })
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 400,
+      message: parsed.message,
+    })
+  }
+
+  const marketplace = await requireMarketplace(parsed.value.marketplace)
+
+  try {
+    const supabase = await createServerSupabaseClient(event)
+
+    const { data, error } = await supabase
+      .from('products')
+      .select(API_PRODUCT_COLUMNS)
+      .eq('asin', parsed.value.asin as string)
+      .eq('marketplace_id', marketplace.id)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      throw createError({
+        statusCode: 404,
+        message: `Product ${parsed.value.asin} not found in marketplace ${marketplace.code}`,
+      })
+    }
+
+    return {
+      data: toApiProduct(data as unknown as ApiProductRow, getSiteUrl(event)),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching v1 product', error)
+
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to fetch product',
+    })
+  }
+})
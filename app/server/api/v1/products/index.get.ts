@@ -0,0 +1,86 @@
+/**
+ * GET /api/v1/products
+ * Page of active products (variants excluded), in the documented v1 shape
+ * Requires an API key (api-key-auth middleware)
+ *
+ * Query: marketplace, search, type, chip, min_price, max_price,
+ *        sort (newest | price_low | price_high | savings), page, limit
+ */
+
+import { requireMarketplace } from '~/server/utils/marketplaces'
+import { PRODUCT_SORTS, type ProductListFilters, type ProductSort } from '~/server/utils/product-listing'
+import {
+  API_PRODUCT_COLUMNS,
+  API_V1_ROUTES,
+  pageRange,
+  parseApiParams,
+  toApiPagination,
+  toApiProduct,
+  type ApiProductRow,
+} from '~/server/utils/public-api'
+import { getSiteUrl } from '~/server/utils/sitemap-source'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const parsed = parseApiParams(API_V1_ROUTES.listProducts, getQuery(event))
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 400,
+      message: parsed.message,
+    })
+  }
+
+  const params = parsed.value
+  const page = params.page as number
+  const limit = params.limit as number
+
+  const filters: ProductListFilters = {}
+  if (params.marketplace) {
+    filters.marketplace_id = (await requireMarketplace(params.marketplace)).id
+  }
+  if (params.search) filters.search = params.search as string
+  if (params.type) filters.type = params.type as string
+  if (params.chip) filters.chip = params.chip as string
+  if (params.min_price !== undefined) filters.min_price = params.min_price as number
+  if (params.max_price !== undefined) filters.max_price = params.max_price as number
+
+  try {
+    const supabase = await createServerSupabaseClient(event)
+
+    // Filtering happens in search_products; variants are excluded there
+    const { column, ascending } = PRODUCT_SORTS[params.sort as ProductSort]
+    const { from, to } = pageRange(page, limit)
+
+    const { data, error, count } = await supabase
+      .rpc('search_products', { filters }, { count: 'exact' })
+      .select(API_PRODUCT_COLUMNS)
+      .order(column, { ascending, nullsFirst: false })
+      .order('id', { ascending: true })
+      .range(from, to)
+
+    if (error) {
+      throw error
+    }
+
+    const siteUrl = getSiteUrl(event)
+
+    return {
+      data: ((data || []) as unknown as ApiProductRow[]).map(row => toApiProduct(row, siteUrl)),
+      pagination: toApiPagination(page, limit, count),
+    }
+  } catch (error: any) {
+    if (error.statusCode) {
+      throw error
+    }
+
+    await log.error('Error fetching v1 products', error)
+
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to fetch products',
+    })
+  }
+})
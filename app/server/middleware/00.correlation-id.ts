@@ -0,0 +1,17 @@
+/**
+ * Server Middleware: Request correlation ID
+ *
+ * Takes the caller's `x-correlation-id` header or creates an ID, keeps it in
+ * `event.context.correlationId` for useRequestLogger() and Edge Function calls,
+ * and returns it in the response header (error responses included). Runs before
+ * the other middleware (file name prefix).
+ */
+
+import { CORRELATION_ID_HEADER, readCorrelationId } from '~/server/utils/request-log'
+
+export default defineEventHandler((event) => {
+  const correlationId = readCorrelationId(getHeader(event, CORRELATION_ID_HEADER)) || crypto.randomUUID()
+
+  event.context.correlationId = correlationId
+  setResponseHeader(event, CORRELATION_ID_HEADER, correlationId)
+})
@@ -0,0 +1,38 @@
+/**
+ * Server Middleware: Admin API authorization
+ *
+ * Page navigation is protected by `middleware/auth.ts`, but that never runs for
+ * direct API calls. This middleware rejects unauthenticated (401) and non-admin
+ * (403) callers of admin-only API routes before any route handler creates a
+ * service-role Supabase client.
+ */
+
+export default defineEventHandler(async (event) => {
+  if (!isAdminApiPath(event.path)) {
+    return
+  }
+
+  const config = useRuntimeConfig()
+
+  const result = await authorizeAdminRequest(
+    {
+      authorization: getHeader(event, 'authorization'),
+      cookieToken: getCookie(event, 'auth-token'),
+    },
+    async (token) => {
+      const supabase = await createServerSupabaseClient(event)
+      const { data: { user }, error } = await supabase.auth.getUser(token)
+      return error ? null : user
+    },
+    { adminEmails: parseAdminEmails(config.adminEmails) }
+  )
+
+  if (!result.ok) {
+    throw createError({
+      statusCode: result.statusCode,
+      message: result.message,
+    })
+  }
+
+  event.context.admin = result.user
+})
@@ -0,0 +1,54 @@
+/**
+ * Server Middleware: Public API keys
+ *
+ * Rejects /api/v1 requests without a valid key (401) or over the key's rate
+ * limit or daily quota (429), and answers every counted request with
+ * X-RateLimit-* headers. The OpenAPI spec (/api/v1/openapi.json) needs no key.
+ */
+
+import { API_KEY_HEADER, authorizeApiKeyRequest, isApiKeyPath, type ApiKeyRequestGrant } from '~/server/utils/api-keys'
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  if (!isApiKeyPath(event.path)) {
+    return
+  }
+
+  let result
+  try {
+    result = await authorizeApiKeyRequest(
+      {
+        apiKey: getHeader(event, API_KEY_HEADER),
+        authorization: getHeader(event, 'authorization'),
+      },
+      async (keyHash) => {
+        const supabase = createServerSupabaseAdminClient()
+        const { data, error } = await supabase.rpc('take_api_key_request', { p_key_hash: keyHash })
+
+        if (error) {
+          throw error
+        }
+
+        return (data?.[0] as ApiKeyRequestGrant | undefined) || null
+      }
+    )
+  } catch (error) {
+    await useRequestLogger(event).error('API key check failed', error)
+    throw createError({
+      statusCode: 503,
+      message: 'API temporarily unavailable',
+    })
+  }
+
+  setResponseHeaders(event, result.headers)
+
+  if (!result.ok) {
+    throw createError({
+      statusCode: result.statusCode,
+      message: result.message,
+    })
+  }
+
+  event.context.apiKeyId = result.apiKeyId
+})
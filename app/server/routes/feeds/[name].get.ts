@@ -0,0 +1,95 @@
+/**
+ * GET /feeds/:marketplace.:format
+ * Product feed of an active marketplace for partner sites and comparison engines
+ *
+ * - /feeds/us.xml: Google Merchant Center RSS
+ * - /feeds/us.json, /feeds/us.csv: the same fields as JSON or CSV
+ *
+ * Campaign parameters (utm_source, ...) of the feed URL are passed on to the
+ * affiliate links, so clicks from each partner can be told apart. Answers
+ * conditional requests (If-None-Match, If-Modified-Since) with 304.
+ * Responds 404 for unknown formats and marketplaces.
+ */
+
+import { getMarketplaces } from '~/server/utils/marketplaces'
+import { FEED_MAX_AGE, getFeedProducts } from '~/server/utils/feed-source'
+import { getSiteUrl } from '~/server/utils/sitemap-source'
+import {
+  buildFeedCsv,
+  buildFeedJson,
+  buildMerchantXml,
+  FEED_CONTENT_TYPES,
+  feedEtag,
+  feedLastModified,
+  isNotModified,
+  parseFeedName,
+  toFeedItems,
+  type FeedChannel,
+} from '~/server/utils/product-feed'
+import { readCampaignParams } from '#shared/affiliate'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const marketplaces = await getMarketplaces()
+  const parsed = parseFeedName(getRouterParam(event, 'name'), marketplaces.map(marketplace => marketplace.code))
+
+  if (!parsed.ok) {
+    throw createError({
+      statusCode: 404,
+      message: parsed.message,
+    })
+  }
+
+  const { format } = parsed.value
+  const marketplace = marketplaces.find(({ code }) => code === parsed.value.marketplace)!
+  const siteUrl = getSiteUrl(event)
+
+  let rows
+  try {
+    rows = await getFeedProducts(marketplace.id)
+  } catch (error) {
+    await log.error('Failed to load product feed', error)
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to load product feed',
+    })
+  }
+
+  const items = toFeedItems(rows, { siteUrl, campaign: readCampaignParams(getQuery(event)) })
+  const lastModified = feedLastModified(rows)
+
+  const channel: FeedChannel = {
+    marketplace: marketplace.code,
+    title: `ESPBoards Store (${marketplace.name})`,
+    link: siteUrl,
+    description: `ESP32 development boards and components on ${marketplace.domain}`,
+    updated_at: lastModified,
+  }
+
+  const body = format === 'xml'
+    ? buildMerchantXml(items, channel)
+    : format === 'json'
+      ? buildFeedJson(items, channel)
+      : buildFeedCsv(items)
+
+  const etag = feedEtag(body)
+
+  setResponseHeaders(event, {
+    'Content-Type': FEED_CONTENT_TYPES[format],
+    'Cache-Control': `public, max-age=${FEED_MAX_AGE}`,
+    'ETag': etag,
+    ...(lastModified ? { 'Last-Modified': new Date(lastModified).toUTCString() } : {}),
+  })
+
+  if (isNotModified(
+    { ifNoneMatch: getRequestHeader(event, 'if-none-match'), ifModifiedSince: getRequestHeader(event, 'if-modified-since') },
+    { etag, lastModified },
+  )) {
+    setResponseStatus(event, 304)
+    return null
+  }
+
+  return body
+})
@@ -0,0 +1,141 @@
+/**
+ * GET /go/:slug
+ * Redirect to a product on Amazon and record the click
+ *
+ * Query (optional):
+ * - placement: which link was clicked, e.g. 'buy-button'
+ * - utm_source, utm_medium, utm_campaign, utm_term, utm_content
+ *
+ * Responds 302 to the product's Amazon URL with the marketplace's associate
+ * tag (or its PAAPI_PARTNER_TAG_<CODE> override), or 404 for unknown and inactive products. The click is recorded
+ * server-side in amazon_clicks (crawlers are redirected without being
+ * recorded); a failed insert never blocks the redirect.
+ *
+ * Only visitors who accepted all cookies (`cookie-consent=all`) get a
+ * session_id cookie; other clicks are recorded without a session.
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import { getClientIp } from '~/server/utils/client-ip'
+import { useRequestLogger } from '~/server/utils/request-logger'
+import {
+  buildAffiliateUrl,
+  isBotUserAgent,
+  readCampaignParams,
+  readCountryCode,
+  readPlacement,
+  resolveAssociateTag,
+  type AffiliateMarketplace,
+} from '#shared/affiliate'
+import { allowsOptionalCookies, CONSENT_KEY, readConsent } from '#shared/consent'
+
+const SESSION_COOKIE = 'session_id'
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30 // 30 days
+
+// Visitor country, set by Netlify's CDN
+const COUNTRY_HEADER = 'x-country'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const slug = getRouterParam(event, 'slug')
+
+  if (!slug) {
+    throw createError({
+      statusCode: 400,
+      message: 'Product slug is required',
+    })
+  }
+
+  const supabase = createServerSupabaseAdminClient()
+
+  const { data: product, error } = await supabase
+    .from('products')
+    .select(`
+      id,
+      asin,
+      slug,
+      detail_page_url,
+      marketplace:marketplaces!marketplace_id (
+        code,
+        host,
+        associate_tag
+      )
+    `)
+    .eq('slug', slug)
+    .eq('status', 'active')
+    .maybeSingle()
+
+  if (error) {
+    await log.error('Error loading product for redirect', error)
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to load product',
+    })
+  }
+
+  const marketplace = product?.marketplace as unknown as (AffiliateMarketplace & { code: string }) | null
+
+  if (!product || !marketplace) {
+    throw createError({
+      statusCode: 404,
+      message: 'Product not found',
+    })
+  }
+
+  const location = buildAffiliateUrl(product.asin, product.detail_page_url, {
+    host: marketplace.host,
+    associate_tag: resolveAssociateTag(marketplace, name => process.env[name]),
+  })
+  const userAgent = getRequestHeader(event, 'user-agent') || null
+
+  if (!isBotUserAgent(userAgent)) {
+    let sessionId = getCookie(event, SESSION_COOKIE) || null
+
+    if (!allowsOptionalCookies(readConsent(getCookie(event, CONSENT_KEY)))) {
+      if (sessionId) {
+        // Set before the visitor opted out (or before consent was required)
+        deleteCookie(event, SESSION_COOKIE)
+      }
+      sessionId = null
+    } else if (!sessionId) {
+      sessionId = crypto.randomUUID()
+      setCookie(event, SESSION_COOKIE, sessionId, {
+        maxAge: SESSION_MAX_AGE,
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+      })
+    }
+
+    const query = getQuery(event)
+
+    const { error: insertError } = await supabase
+      .from('amazon_clicks')
+      .insert({
+        product_id: product.id,
+        product_asin: product.asin,
+        product_slug: product.slug,
+        marketplace_code: marketplace.code,
+        session_id: sessionId,
+        referrer: getRequestHeader(event, 'referer') || null,
+        user_agent: userAgent,
+        ip_address: getClientIp(event) || null,
+        country_code: readCountryCode(getRequestHeader(event, COUNTRY_HEADER)),
+        placement: readPlacement(query.placement),
+        ...readCampaignParams(query),
+      })
+
+    if (insertError) {
+      // Tracking must never block the visitor
+      await log.error('Failed to record Amazon click', insertError)
+    }
+  }
+
+  setResponseHeaders(event, {
+    'Cache-Control': 'no-store',
+    'X-Robots-Tag': 'noindex, nofollow',
+  })
+
+  return sendRedirect(event, location, 302)
+})
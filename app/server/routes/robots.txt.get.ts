@@ -0,0 +1,19 @@
+/**
+ * GET /robots.txt
+ * Crawler rules for the store and the location of its sitemap index
+ *
+ * Crawlers only read /robots.txt at the host root, so the site serving the
+ * root should reference this file's Sitemap line (or the sitemap index) too.
+ */
+
+import { getSiteUrl, SITEMAP_MAX_AGE } from '~/server/utils/sitemap-source'
+import { buildRobotsTxt } from '~/server/utils/sitemap'
+
+export default defineEventHandler((event) => {
+  setResponseHeaders(event, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Cache-Control': `public, max-age=${SITEMAP_MAX_AGE}`,
+  })
+
+  return buildRobotsTxt(getSiteUrl(event))
+})
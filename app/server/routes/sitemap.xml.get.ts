@@ -0,0 +1,53 @@
+/**
+ * GET /sitemap.xml
+ * Sitemap index: the static pages and one sitemap per active marketplace
+ *
+ * A marketplace sitemap's lastmod is the latest change of its products and groups.
+ */
+
+import { getMarketplaces } from '~/server/utils/marketplaces'
+import { getSiteUrl, getSitemapSource, SITEMAP_MAX_AGE } from '~/server/utils/sitemap-source'
+import {
+  buildSitemapIndex,
+  latestDate,
+  marketplaceSitemapName,
+  PAGES_SITEMAP,
+  productLastmod,
+  sitemapPath,
+} from '~/server/utils/sitemap'
+import { absoluteUrl } from '#shared/seo'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const siteUrl = getSiteUrl(event)
+
+  try {
+    const [marketplaces, { products, groups }] = await Promise.all([getMarketplaces(), getSitemapSource()])
+
+    const entries = [
+      { loc: absoluteUrl(siteUrl, sitemapPath(PAGES_SITEMAP)) },
+      ...marketplaces.map(marketplace => ({
+        loc: absoluteUrl(siteUrl, sitemapPath(marketplaceSitemapName(marketplace.code))),
+        lastmod: latestDate(
+          ...products.filter(product => product.marketplace_code === marketplace.code).map(productLastmod),
+          ...groups.filter(group => group.marketplace_code === marketplace.code).map(group => group.updated_at),
+        ),
+      })),
+    ]
+
+    setResponseHeaders(event, {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': `public, max-age=${SITEMAP_MAX_AGE}`,
+    })
+
+    return buildSitemapIndex(entries)
+  } catch (error) {
+    await log.error('Failed to build sitemap index', error)
+    throw createError({
+      statusCode: 500,
+      message: 'Failed to build sitemap',
+    })
+  }
+})
@@ -0,0 +1,75 @@
+/**
+ * GET /sitemaps/:name.xml
+ * One sitemap of the index at /sitemap.xml
+ *
+ * - pages.xml: the static pages
+ * - <marketplace>.xml (us.xml, de.xml): canonical product pages and groups of an
+ *   active marketplace, with lastmod and hreflang alternates
+ *
+ * Responds 404 for unknown names and inactive marketplaces.
+ */
+
+import { getMarketplaces } from '~/server/utils/marketplaces'
+import { getSiteUrl, getSitemapSource, SITEMAP_MAX_AGE } from '~/server/utils/sitemap-source'
+import {
+  buildUrlset,
+  marketplaceSitemapName,
+  marketplaceUrls,
+  PAGES_SITEMAP,
+  staticPageUrls,
+  type SitemapUrl,
+} from '~/server/utils/sitemap'
+import { DEFAULT_MARKETPLACE_CODE } from '#shared/marketplaces'
+import { useRequestLogger } from '~/server/utils/request-logger'
+
+export default defineEventHandler(async (event) => {
+  const log = useRequestLogger(event)
+
+  const name = getRouterParam(event, 'name')?.replace(/\.xml$/, '')
+
+  if (!name) {
+    throw createError({
+      statusCode: 404,
+      message: 'Sitemap not found',
+    })
+  }
+
+  const siteUrl = getSiteUrl(event)
+  let urls: SitemapUrl[]
+
+  if (name === PAGES_SITEMAP) {
+    urls = staticPageUrls(siteUrl)
+  } else {
+    try {
+      const marketplaces = await getMarketplaces()
+      const marketplace = marketplaces.find(({ code }) => marketplaceSitemapName(code) === name)
+
+      if (!marketplace) {
+        throw createError({
+          statusCode: 404,
+          message: 'Sitemap not found',
+        })
+      }
+
+      const { products, groups } = await getSitemapSource()
+      urls = marketplaceUrls(marketplace.code, products, groups, marketplaces, siteUrl, DEFAULT_MARKETPLACE_CODE)
+    } catch (error: any) {
+      if (error.statusCode) {
+        throw error
+      }
+
+      await log.error('Failed to build sitemap', error)
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to build sitemap',
+      })
+    }
+  }
+
+  setResponseHeaders(event, {
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Cache-Control': `public, max-age=${SITEMAP_MAX_AGE}`,
+  })
+
+  return buildUrlset(urls)
+})
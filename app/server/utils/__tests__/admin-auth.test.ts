@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for Admin API Authorization
+ *
+ * Purpose: Ensure every admin-only API route is rejected without a valid admin session
+ *
+ * Test Coverage:
+ * - Every route file under server/api/admin and server/api/analytics is rejected (401) without a session
+ * - Token verification is never attempted when no token is present
+ * - Invalid tokens are rejected (401), non-admin users are forbidden (403)
+ * - Admin role is mapped from app_metadata.role or the ADMIN_EMAILS allowlist
+ * - Bearer header takes precedence over the auth-token cookie
+ * - Public routes are not guarded
+ */
+
+import { readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, it, expect, vi } from 'vitest'
+import type { User } from '@supabase/supabase-js'
+import {
+  authorizeAdminRequest,
+  extractAuthToken,
+  isAdminApiPath,
+  parseAdminEmails,
+  resolveAdminRole,
+} from '../admin-auth'
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const API_DIR = fileURLToPath(new URL('../../api', import.meta.url))
+
+/**
+ * Convert a Nitro route file (e.g. `admin/products/[id]/status.patch.ts`)
+ * into the request it serves (e.g. `PATCH /api/admin/products/<id>/status`)
+ */
+function toRequest(file: string): { method: string, path: string } {
+  const match = file.match(/^(.*?)(?:\.(get|post|patch|put|delete))?\.ts$/)
+  const route = (match?.[1] || file)
+    .replace(/\[[^\]]+\]/g, '00000000-0000-0000-0000-000000000000')
+    .replace(/(^|\/)index$/, '')
+
+  return {
+    method: (match?.[2] || 'get').toUpperCase(),
+    path: `/api/${route}`.replace(/\/$/, ''),
+  }
+}
+
+/**
+ * List every route file below a directory of server/api
+ */
+function listRouteFiles(dir: string): string[] {
+  return (readdirSync(`${API_DIR}/${dir}`, { recursive: true }) as string[])
+    .filter(file => file.endsWith('.ts'))
+    .map(file => `${dir}/${file.replace(/\\/g, '/')}`)
+    .sort()
+}
+
+function createUser(overrides: Partial<User> = {}): User {
+  return {
+    id: 'user-1',
+    email: 'someone@example.com',
+    app_metadata: {},
+    user_metadata: {},
+    aud: 'authenticated',
+    created_at: '2025-11-24T12:00:00Z',
+    ...overrides,
+  } as User
+}
+
+const adminRoutes = [...listRouteFiles('admin'), ...listRouteFiles('analytics')].map(toRequest)
+
+// ============================================================================
+// ROUTE COVERAGE
+// ============================================================================
+
+describe('Admin API routes without a session', () => {
+  it('discovers the admin and analytics route files', () => {
+    expect(adminRoutes).toContainEqual({ method: 'GET', path: '/api/admin/products' })
+    expect(adminRoutes).toContainEqual({
+      method: 'DELETE',
+      path: '/api/admin/products/00000000-0000-0000-0000-000000000000',
+    })
+    expect(adminRoutes).toContainEqual({ method: 'POST', path: '/api/admin/groups' })
+    expect(adminRoutes).toContainEqual({ method: 'GET', path: '/api/analytics/clicks' })
+  })
+
+  it.each(adminRoutes)('$method $path is guarded', ({ path }) => {
+    expect(isAdminApiPath(path)).toBe(true)
+    expect(isAdminApiPath(`${path}?page=2`)).toBe(true)
+  })
+
+  it.each(adminRoutes)('$method $path is rejected with 401 and never verifies a token', async () => {
+    const verifyToken = vi.fn()
+
+    const result = await authorizeAdminRequest({}, verifyToken, { adminEmails: [] })
+
+    expect(result).toEqual({ ok: false, statusCode: 401, message: 'Authentication required' })
+    expect(verifyToken).not.toHaveBeenCalled()
+  })
+
+  it('guards the product import proxy', () => {
+    expect(isAdminApiPath('/api/products/import')).toBe(true)
+  })
+
+  it('does not guard public routes', () => {
+    expect(isAdminApiPath('/api/products')).toBe(false)
+    expect(isAdminApiPath('/api/products/esp32-devkit')).toBe(false)
+    expect(isAdminApiPath('/api/deals')).toBe(false)
+    expect(isAdminApiPath('/api/auth/login')).toBe(false)
+    expect(isAdminApiPath('/api/administrator')).toBe(false)
+  })
+})
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+describe('authorizeAdminRequest', () => {
+  it('rejects invalid tokens with 401', async () => {
+    const result = await authorizeAdminRequest(
+      { cookieToken: 'expired' },
+      async () => null,
+      { adminEmails: [] }
+    )
+
+    expect(result).toEqual({ ok: false, statusCode: 401, message: 'Invalid or expired session' })
+  })
+
+  it('treats verifier failures as an invalid session', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await authorizeAdminRequest(
+      { cookieToken: 'token' },
+      async () => { throw new Error('network down') },
+      { adminEmails: [] }
+    )
+
+    expect(result).toMatchObject({ ok: false, statusCode: 401 })
+    consoleSpy.mockRestore()
+  })
+
+  it('rejects authenticated users without the admin role with 403', async () => {
+    const result = await authorizeAdminRequest(
+      { cookieToken: 'token' },
+      async () => createUser(),
+      { adminEmails: ['admin@example.com'] }
+    )
+
+    expect(result).toEqual({ ok: false, statusCode: 403, message: 'Admin access required' })
+  })
+
+  it('accepts users with app_metadata.role = admin', async () => {
+    const result = await authorizeAdminRequest(
+      { authorization: 'Bearer token' },
+      async () => createUser({ app_metadata: { role: 'admin' } }),
+      { adminEmails: [] }
+    )
+
+    expect(result).toEqual({
+      ok: true,
+      user: { id: 'user-1', email: 'someone@example.com', role: 'admin' },
+    })
+  })
+
+  it('passes the extracted token to the verifier', async () => {
+    const verifyToken = vi.fn(async () => createUser({ email: 'Admin@Example.com' }))
+
+    const result = await authorizeAdminRequest(
+      { authorization: 'Bearer header-token', cookieToken: 'cookie-token' },
+      verifyToken,
+      { adminEmails: ['admin@example.com'] }
+    )
+
+    expect(verifyToken).toHaveBeenCalledWith('header-token')
+    expect(result.ok).toBe(true)
+  })
+})
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+describe('extractAuthToken', () => {
+  it('prefers the bearer header over the cookie', () => {
+    expect(extractAuthToken({ authorization: 'Bearer abc', cookieToken: 'def' })).toBe('abc')
+  })
+
+  it('falls back to the auth-token cookie', () => {
+    expect(extractAuthToken({ authorization: 'Basic abc', cookieToken: 'def' })).toBe('def')
+  })
+
+  it('returns null without credentials', () => {
+    expect(extractAuthToken({ authorization: 'Bearer ', cookieToken: '' })).toBeNull()
+  })
+})
+
+describe('resolveAdminRole', () => {
+  it('ignores user_metadata roles (user-editable)', () => {
+    expect(resolveAdminRole(createUser({ user_metadata: { role: 'admin' } }), [])).toBeNull()
+  })
+
+  it('ignores unknown app_metadata roles', () => {
+    expect(resolveAdminRole(createUser({ app_metadata: { role: 'editor' } }), [])).toBeNull()
+  })
+
+  it('matches allowlisted emails case-insensitively', () => {
+    const emails = parseAdminEmails(' Admin@Example.com , ,other@example.com')
+
+    expect(emails).toEqual(['admin@example.com', 'other@example.com'])
+    expect(resolveAdminRole(createUser({ email: 'ADMIN@example.com' }), emails)).toBe('admin')
+  })
+})
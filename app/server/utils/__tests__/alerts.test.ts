@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for Price Alert Subscriptions
+ *
+ * Purpose: Verify subscribe request validation and the double opt-in message
+ *
+ * Test Coverage:
+ * - Email/webhook destinations are validated and normalized
+ * - A target price or "notify when available" is required
+ * - Webhooks may not target internal hosts or private addresses
+ * - Destinations differing only in case share a subscription and rate limit
+ * - Subscribe attempts are limited per client and destination without storing either
+ * - Tokens are URL-safe and unique
+ * - Confirmation links expire after CONFIRMATION_TTL_DAYS
+ * - Confirmation messages link to the confirm and unsubscribe pages
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  alertDestinationKey,
+  buildConfirmationMessage,
+  CONFIRMATION_TTL_DAYS,
+  generateAlertToken,
+  isConfirmationExpired,
+  isPublicHost,
+  subscribeRateLimits,
+  SUBSCRIBE_LIMITS,
+  validateAlertSubscriptionInput,
+} from '../alerts'
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('validateAlertSubscriptionInput', () => {
+  const body = {
+    product_slug: 'esp32-devkit',
+    channel: 'email',
+    destination: ' Maker@Example.com ',
+    target_price: '9.999',
+  }
+
+  it('normalizes a valid email subscription', () => {
+    expect(validateAlertSubscriptionInput(body)).toEqual({
+      ok: true,
+      value: {
+        product_slug: 'esp32-devkit',
+        channel: 'email',
+        destination: 'maker@example.com',
+        target_price: 10,
+        notify_when_available: false,
+      },
+    })
+  })
+
+  it('accepts an https webhook with only notify_when_available', () => {
+    const result = validateAlertSubscriptionInput({
+      product_slug: 'esp32-devkit',
+      channel: 'webhook',
+      destination: 'https://hooks.example.com/alerts',
+      notify_when_available: true,
+    })
+
+    expect(result.ok).toBe(true)
+  })
+
+  it('rejects plain http webhooks', () => {
+    const result = validateAlertSubscriptionInput({ ...body, channel: 'webhook', destination: 'http://hooks.example.com' })
+
+    expect(result).toEqual({ ok: false, message: 'Webhook URL must be a valid https URL' })
+  })
+
+  it('rejects webhooks to internal hosts', () => {
+    const result = validateAlertSubscriptionInput({ ...body, channel: 'webhook', destination: 'https://169.254.169.254/latest/meta-data' })
+
+    expect(result).toEqual({ ok: false, message: 'Webhook URL must point to a public host' })
+  })
+
+  it('rejects invalid emails, channels and prices', () => {
+    expect(validateAlertSubscriptionInput({ ...body, destination: 'not-an-email' }).ok).toBe(false)
+    expect(validateAlertSubscriptionInput({ ...body, channel: 'sms' }).ok).toBe(false)
+    expect(validateAlertSubscriptionInput({ ...body, target_price: -5 }).ok).toBe(false)
+    expect(validateAlertSubscriptionInput({ ...body, product_slug: '' }).ok).toBe(false)
+    expect(validateAlertSubscriptionInput(null).ok).toBe(false)
+  })
+
+  it('requires a target price or notify_when_available', () => {
+    const result = validateAlertSubscriptionInput({ ...body, target_price: null })
+
+    expect(result).toEqual({ ok: false, message: 'Choose a target price or notify when available' })
+  })
+})
+
+describe('isPublicHost', () => {
+  it('rejects internal names and non-public IP literals', () => {
+    for (const host of ['localhost', 'api.localhost', 'printer.local', 'metadata.internal', '127.0.0.1', '10.0.0.8', '172.31.255.1', '192.168.0.10', '169.254.169.254', '100.64.0.1', '[::1]', '[fd12::1]', '[fe80::1]', '[::ffff:7f00:1]']) {
+      expect(isPublicHost(host), host).toBe(false)
+    }
+  })
+
+  it('accepts public names and addresses', () => {
+    for (const host of ['hooks.example.com', '93.184.215.14', '[2606:4700:4700::1111]']) {
+      expect(isPublicHost(host), host).toBe(true)
+    }
+  })
+
+  it('checks the hostname the URL parser normalized', () => {
+    expect(isPublicHost(new URL('https://0x7f.1/').hostname)).toBe(false)
+    expect(isPublicHost(new URL('https://[::ffff:127.0.0.1]/').hostname)).toBe(false)
+  })
+})
+
+// ============================================================================
+// RATE LIMITS
+// ============================================================================
+
+describe('subscribeRateLimits', () => {
+  const input = { channel: 'email' as const, destination: 'maker@example.com' }
+
+  it('limits per client and per destination with hashed keys', () => {
+    const limits = subscribeRateLimits('203.0.113.7', input)
+
+    expect(limits).toEqual([
+      { key: expect.stringMatching(/^client:[0-9a-f]{64}$/), ...SUBSCRIBE_LIMITS.client },
+      { key: expect.stringMatching(/^destination:[0-9a-f]{64}$/), ...SUBSCRIBE_LIMITS.destination },
+    ])
+    expect(JSON.stringify(limits)).not.toContain('203.0.113.7')
+    expect(JSON.stringify(limits)).not.toContain('maker@example.com')
+  })
+
+  it('shares the destination key across clients', () => {
+    const [clientA, destinationA] = subscribeRateLimits('203.0.113.7', input)
+    const [clientB, destinationB] = subscribeRateLimits(undefined, input)
+
+    expect(clientA!.key).not.toBe(clientB!.key)
+    expect(destinationA!.key).toBe(destinationB!.key)
+  })
+
+  it('counts destinations differing only in case together', () => {
+    const webhook = { channel: 'webhook' as const, destination: 'https://hooks.example.com/Alerts' }
+
+    expect(subscribeRateLimits(undefined, webhook)[1]!.key)
+      .toBe(subscribeRateLimits(undefined, { ...webhook, destination: 'https://HOOKS.example.com/alerts' })[1]!.key)
+  })
+})
+
+describe('alertDestinationKey', () => {
+  it('matches destinations case-insensitively like destination_key', () => {
+    expect(alertDestinationKey('https://Hooks.Example.com/Alerts')).toBe('https://hooks.example.com/alerts')
+  })
+})
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+describe('generateAlertToken', () => {
+  it('generates unique URL-safe tokens', () => {
+    const tokens = new Set(Array.from({ length: 20 }, () => generateAlertToken()))
+
+    expect(tokens.size).toBe(20)
+    for (const token of tokens) {
+      expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/)
+    }
+  })
+})
+
+describe('isConfirmationExpired', () => {
+  const sentAt = '2025-11-28T12:00:00Z'
+  const day = 24 * 60 * 60 * 1000
+
+  it('expires links after CONFIRMATION_TTL_DAYS', () => {
+    const sent = Date.parse(sentAt)
+
+    expect(isConfirmationExpired(sentAt, new Date(sent + (CONFIRMATION_TTL_DAYS - 1) * day))).toBe(false)
+    expect(isConfirmationExpired(sentAt, new Date(sent + (CONFIRMATION_TTL_DAYS + 1) * day))).toBe(true)
+  })
+})
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+describe('buildConfirmationMessage', () => {
+  it('links to the confirm and unsubscribe pages under the store base path', () => {
+    const payload = buildConfirmationMessage(
+      { title: 'ESP32 DevKit', slug: 'esp32-devkit' },
+      { confirm_token: 'confirm-token', unsubscribe_token: 'unsubscribe-token', target_price: 9.5, notify_when_available: true },
+      'https://www.espboards.dev/store/'
+    )
+
+    expect(payload.subject).toBe('Confirm your alert for ESP32 DevKit')
+    expect(payload.text).toContain('the price drops to 9.50 or less or it is back in stock')
+    expect(payload.data.confirm_url).toBe('https://www.espboards.dev/store/alerts/confirm?token=confirm-token')
+    expect(payload.data.unsubscribe_url).toBe('https://www.espboards.dev/store/alerts/unsubscribe?token=unsubscribe-token')
+  })
+})
@@ -0,0 +1,202 @@
+/**
+ * Unit Tests for API Key Authorization
+ *
+ * Purpose: Ensure the public API is only served to valid keys within their limits
+ *
+ * Test Coverage:
+ * - Every route file under server/api/v1 needs a key, except the OpenAPI spec
+ * - Keys are read from X-API-Key or the bearer header and must be well-formed
+ * - Unknown or revoked keys are rejected (401), exhausted ones refused (429) with Retry-After
+ * - Generated keys are stored as hashes with a display prefix
+ * - Admin input validation and usage summaries
+ */
+
+import { readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, it, expect, vi } from 'vitest'
+import {
+  authorizeApiKeyRequest,
+  extractApiKey,
+  generateApiKey,
+  hashApiKey,
+  isApiKeyPath,
+  parseApiKeyInput,
+  rateLimitHeaders,
+  summarizeApiKeyUsage,
+  type ApiKeyRequestGrant,
+} from '../api-keys'
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const V1_DIR = fileURLToPath(new URL('../../api/v1', import.meta.url))
+
+const VALID_KEY = `esk_${'a'.repeat(32)}`
+
+const grant = (overrides: Partial<ApiKeyRequestGrant> = {}): ApiKeyRequestGrant => ({
+  api_key_id: 'key-1',
+  granted: true,
+  reason: null,
+  rate_limit: 60,
+  remaining: 59,
+  reset_ms: 42_300,
+  ...overrides,
+})
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+describe('isApiKeyPath', () => {
+  it('guards every v1 route file except the OpenAPI spec', () => {
+    const files = (readdirSync(V1_DIR, { recursive: true }) as string[])
+      .filter(file => file.endsWith('.ts'))
+      .map(file => file.replace(/\\/g, '/'))
+
+    expect(files.length).toBeGreaterThan(0)
+
+    for (const file of files) {
+      const path = `/api/v1/${file.replace(/\.get\.ts$/, '').replace(/(^|\/)index$/, '').replace(/\[[^\]]+\]/g, 'B08DQQ8CBP')}`
+      expect(isApiKeyPath(path)).toBe(file !== 'openapi.json.get.ts')
+    }
+  })
+
+  it('leaves the other API routes alone', () => {
+    expect(isApiKeyPath('/api/products?page=2')).toBe(false)
+    expect(isApiKeyPath('/api/v10/products')).toBe(false)
+    expect(isApiKeyPath('/api/v1/products?marketplace=US')).toBe(true)
+    expect(isApiKeyPath('/api/v1/openapi.json/')).toBe(false)
+  })
+})
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+describe('generateApiKey', () => {
+  it('creates a well-formed key with its prefix and hash', () => {
+    const { key, prefix, hash } = generateApiKey()
+
+    expect(extractApiKey({ apiKey: key })).toBe(key)
+    expect(key.startsWith(prefix)).toBe(true)
+    expect(prefix).toHaveLength(10)
+    expect(hash).toBe(hashApiKey(key))
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(generateApiKey().key).not.toBe(key)
+  })
+})
+
+describe('extractApiKey', () => {
+  it('prefers the X-API-Key header over the bearer header', () => {
+    const other = `esk_${'b'.repeat(32)}`
+
+    expect(extractApiKey({ apiKey: ` ${VALID_KEY} `, authorization: `Bearer ${other}` })).toBe(VALID_KEY)
+    expect(extractApiKey({ authorization: `bearer ${other}` })).toBe(other)
+  })
+
+  it('ignores malformed keys', () => {
+    expect(extractApiKey({ apiKey: 'esk_short' })).toBeNull()
+    expect(extractApiKey({ authorization: 'Basic abc' })).toBeNull()
+    expect(extractApiKey({})).toBeNull()
+  })
+})
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+describe('authorizeApiKeyRequest', () => {
+  it('rejects requests without a key before looking one up', async () => {
+    const takeRequest = vi.fn()
+
+    const result = await authorizeApiKeyRequest({ apiKey: null }, takeRequest)
+
+    expect(result).toMatchObject({ ok: false, statusCode: 401 })
+    expect(takeRequest).not.toHaveBeenCalled()
+  })
+
+  it('looks keys up by their hash and rejects unknown or revoked ones', async () => {
+    const takeRequest = vi.fn().mockResolvedValue(null)
+
+    const result = await authorizeApiKeyRequest({ apiKey: VALID_KEY }, takeRequest)
+
+    expect(takeRequest).toHaveBeenCalledWith(hashApiKey(VALID_KEY))
+    expect(result).toMatchObject({ ok: false, statusCode: 401, message: 'Invalid or revoked API key' })
+  })
+
+  it('grants requests within the limits with rate limit headers', async () => {
+    const result = await authorizeApiKeyRequest({ apiKey: VALID_KEY }, async () => grant())
+
+    expect(result).toEqual({
+      ok: true,
+      apiKeyId: 'key-1',
+      headers: { 'X-RateLimit-Limit': '60', 'X-RateLimit-Remaining': '59', 'X-RateLimit-Reset': '43' },
+    })
+  })
+
+  it('refuses exhausted keys with Retry-After', async () => {
+    const rate = await authorizeApiKeyRequest({ apiKey: VALID_KEY }, async () => grant({ granted: false, reason: 'rate', remaining: 0 }))
+    const quota = await authorizeApiKeyRequest({ apiKey: VALID_KEY }, async () => grant({ granted: false, reason: 'quota', remaining: 0, reset_ms: 3_600_000 }))
+
+    expect(rate).toMatchObject({ ok: false, statusCode: 429, message: 'Rate limit exceeded' })
+    expect(rate.headers['Retry-After']).toBe('43')
+    expect(quota).toMatchObject({ ok: false, statusCode: 429, message: 'Daily quota of this API key exceeded' })
+    expect(quota.headers['Retry-After']).toBe('3600')
+  })
+})
+
+describe('rateLimitHeaders', () => {
+  it('never reports less than one second or a negative remainder', () => {
+    expect(rateLimitHeaders(grant({ remaining: -1, reset_ms: 0 }))).toMatchObject({
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': '1',
+    })
+  })
+})
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+describe('parseApiKeyInput', () => {
+  it('requires a name on create and fills in the default rate limit', () => {
+    expect(parseApiKeyInput({ name: '  Partner site ' }, { create: true })).toEqual({
+      ok: true,
+      value: { name: 'Partner site', rate_limit_per_minute: 60 },
+    })
+    expect(parseApiKeyInput({}, { create: true })).toMatchObject({ ok: false })
+  })
+
+  it('validates limits', () => {
+    expect(parseApiKeyInput({ rate_limit_per_minute: 0 }, { create: false })).toMatchObject({ ok: false })
+    expect(parseApiKeyInput({ rate_limit_per_minute: 1.5 }, { create: false })).toMatchObject({ ok: false })
+    expect(parseApiKeyInput({ daily_quota: -1 }, { create: false })).toMatchObject({ ok: false })
+    expect(parseApiKeyInput({ daily_quota: null, rate_limit_per_minute: 120 }, { create: false })).toEqual({
+      ok: true,
+      value: { daily_quota: null, rate_limit_per_minute: 120 },
+    })
+  })
+
+  it('only revokes on update and rejects empty updates', () => {
+    expect(parseApiKeyInput({ revoked: true }, { create: false })).toEqual({ ok: true, value: { revoked: true } })
+    expect(parseApiKeyInput({ name: 'Key', revoked: true }, { create: true })).toMatchObject({ ok: false })
+    expect(parseApiKeyInput({ revoked: 'yes' }, { create: false })).toMatchObject({ ok: false })
+    expect(parseApiKeyInput({}, { create: false })).toEqual({ ok: false, message: 'Nothing to update' })
+  })
+})
+
+describe('summarizeApiKeyUsage', () => {
+  it('sums today and the last 30 days per key', () => {
+    const now = new Date('2025-12-06T12:00:00Z')
+    const summaries = summarizeApiKeyUsage([
+      { api_key_id: 'key-1', usage_date: '2025-12-06', request_count: 10, denied_count: 2 },
+      { api_key_id: 'key-1', usage_date: '2025-11-07', request_count: 5, denied_count: 1 },
+      { api_key_id: 'key-1', usage_date: '2025-11-06', request_count: 100, denied_count: 0 },
+      { api_key_id: 'key-2', usage_date: '2025-12-01', request_count: 3, denied_count: 0 },
+    ], now)
+
+    expect(summaries.get('key-1')).toEqual({ today: 10, denied_today: 2, last_30_days: 15, denied_last_30_days: 3 })
+    expect(summaries.get('key-2')).toEqual({ today: 0, denied_today: 0, last_30_days: 3, denied_last_30_days: 0 })
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Unit Tests for Click Analytics
+ *
+ * Purpose: Verify how GET /api/analytics/clicks shapes the SQL aggregates
+ *
+ * Test Coverage:
+ * - Unknown periods and groupings fall back to the defaults
+ * - Periods compare with the equally long period before; all time has none
+ * - The series granularity follows the view and the period
+ * - Series buckets are UTC days or weeks starting Monday, with gaps as zeros
+ * - Breakdowns get their share of all clicks and the change from the previous period
+ * - CSV cells are quoted and formula-like values are neutralized
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  bucketStart,
+  buildBreakdown,
+  clickPeriodRange,
+  fillSeries,
+  parseClickDimension,
+  parseClickPeriod,
+  seriesGranularity,
+  summarizeClicks,
+  toCsv,
+} from '../click-analytics'
+
+const NOW = new Date('2025-12-03T15:30:00.000Z') // Wednesday
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+describe('parseClickPeriod / parseClickDimension', () => {
+  it('accepts known values and falls back to the defaults', () => {
+    expect(parseClickPeriod('90d')).toBe('90d')
+    expect(parseClickPeriod('1y')).toBe('7d')
+    expect(parseClickPeriod(undefined)).toBe('7d')
+
+    expect(parseClickDimension('device')).toBe('device')
+    expect(parseClickDimension('country')).toBe('country')
+    expect(parseClickDimension('city')).toBe('day')
+  })
+})
+
+describe('clickPeriodRange', () => {
+  it('compares with the equally long period before', () => {
+    expect(clickPeriodRange('7d', NOW)).toEqual({
+      from: '2025-11-26T15:30:00.000Z',
+      to: '2025-12-03T15:30:00.000Z',
+      previous: { from: '2025-11-19T15:30:00.000Z', to: '2025-11-26T15:30:00.000Z' },
+    })
+  })
+
+  it('has no start and no previous period for all time', () => {
+    expect(clickPeriodRange('all', NOW)).toEqual({
+      from: null,
+      to: '2025-12-03T15:30:00.000Z',
+      previous: null,
+    })
+  })
+})
+
+describe('seriesGranularity', () => {
+  it('uses the selected granularity for time views', () => {
+    expect(seriesGranularity('all', 'day')).toBe('day')
+    expect(seriesGranularity('7d', 'week')).toBe('week')
+  })
+
+  it('charts all time weekly and shorter periods daily', () => {
+    expect(seriesGranularity('all', 'product')).toBe('week')
+    expect(seriesGranularity('90d', 'device')).toBe('day')
+  })
+})
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+describe('summarizeClicks', () => {
+  it('reports totals and percent changes', () => {
+    const summary = summarizeClicks(
+      { clicks: 150, sessions: 90, products: 12 },
+      { clicks: 100, sessions: 90, products: 0 }
+    )
+
+    expect(summary.totalClicks).toBe(150)
+    expect(summary.previous).toEqual({ totalClicks: 100, uniqueSessions: 90, uniqueProducts: 0 })
+    expect(summary.change).toEqual({ clicks: 50, sessions: 0, products: null })
+  })
+
+  it('has no changes without a previous period', () => {
+    const summary = summarizeClicks(null, null)
+
+    expect(summary.totalClicks).toBe(0)
+    expect(summary.previous).toBeNull()
+    expect(summary.change).toEqual({ clicks: null, sessions: null, products: null })
+  })
+})
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+describe('bucketStart', () => {
+  it('starts weeks on Monday (UTC)', () => {
+    expect(bucketStart(NOW, 'day')).toBe('2025-12-03')
+    expect(bucketStart(NOW, 'week')).toBe('2025-12-01')
+    expect(bucketStart(new Date('2025-12-07T23:59:59.000Z'), 'week')).toBe('2025-12-01')
+    expect(bucketStart(new Date('2025-12-08T00:00:00.000Z'), 'week')).toBe('2025-12-08')
+  })
+})
+
+describe('fillSeries', () => {
+  it('fills days without clicks with zeros', () => {
+    const range = clickPeriodRange('7d', NOW)
+    const points = fillSeries([
+      { bucket: '2025-11-27', clicks: 4, sessions: 3 },
+      { bucket: '2025-12-03', clicks: 1, sessions: 1 },
+    ], 'day', range.from, range.to)
+
+    expect(points).toHaveLength(8)
+    expect(points[0]).toEqual({ date: '2025-11-26', clicks: 0, sessions: 0 })
+    expect(points[1]).toEqual({ date: '2025-11-27', clicks: 4, sessions: 3 })
+    expect(points[7]).toEqual({ date: '2025-12-03', clicks: 1, sessions: 1 })
+  })
+
+  it('starts all-time series at the first bucket with clicks', () => {
+    const points = fillSeries([
+      { bucket: '2025-11-24', clicks: 2, sessions: 2 },
+      { bucket: '2025-11-10', clicks: 5, sessions: 4 },
+    ], 'week', null, NOW.toISOString())
+
+    expect(points.map(point => point.date)).toEqual(['2025-11-10', '2025-11-17', '2025-11-24', '2025-12-01'])
+    expect(points.map(point => point.clicks)).toEqual([5, 0, 2, 0])
+  })
+
+  it('is empty for all time without clicks', () => {
+    expect(fillSeries([], 'week', null, NOW.toISOString())).toEqual([])
+  })
+})
+
+// ============================================================================
+// BREAKDOWNS
+// ============================================================================
+
+describe('buildBreakdown', () => {
+  it('adds the share of all clicks and the change from the previous period', () => {
+    const items = buildBreakdown([
+      { bucket: 'mobile', clicks: 60, sessions: 40 },
+      { bucket: 'desktop', clicks: 30, sessions: 25 },
+      { bucket: 'tablet', clicks: 10, sessions: 10 },
+    ], 100, [
+      { bucket: 'mobile', clicks: 40, sessions: 30 },
+      { bucket: 'desktop', clicks: 30, sessions: 20 },
+    ])
+
+    expect(items[0]).toEqual({
+      key: 'mobile',
+      clicks: 60,
+      sessions: 40,
+      share: 60,
+      previous_clicks: 40,
+      change_percentage: 50,
+    })
+    expect(items[1]?.change_percentage).toBe(0)
+    expect(items[2]?.previous_clicks).toBe(0)
+    expect(items[2]?.change_percentage).toBeNull()
+  })
+
+  it('matches groups without a key (direct visits)', () => {
+    const items = buildBreakdown(
+      [{ bucket: null, clicks: 3, sessions: 3 }],
+      9,
+      [{ bucket: null, clicks: 6, sessions: 5 }]
+    )
+
+    expect(items[0]?.share).toBe(33.3)
+    expect(items[0]?.change_percentage).toBe(-50)
+  })
+
+  it('has no previous values without a previous period', () => {
+    const [item] = buildBreakdown([{ bucket: 'US', clicks: 1, sessions: 1 }], 1, null)
+
+    expect(item?.previous_clicks).toBeNull()
+    expect(item?.change_percentage).toBeNull()
+  })
+})
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+describe('toCsv', () => {
+  it('writes a header row and quotes cells with separators', () => {
+    const csv = toCsv(['product_title', 'clicks', 'change_percentage'], [
+      { product_title: 'ESP32 "DevKit", 38 pins', clicks: 5, change_percentage: null },
+    ])
+
+    expect(csv).toBe('product_title,clicks,change_percentage\r\n"ESP32 ""DevKit"", 38 pins",5,\r\n')
+  })
+
+  it('neutralizes values a spreadsheet would evaluate', () => {
+    const csv = toCsv(['referrer_domain', 'change_percentage'], [
+      { referrer_domain: '=HYPERLINK("x")', change_percentage: -20 },
+    ])
+
+    expect(csv.split('\r\n')[1]).toBe('"\'=HYPERLINK(""x"")",-20')
+  })
+})
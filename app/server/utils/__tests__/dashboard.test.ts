@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for the Admin Dashboard
+ *
+ * Purpose: Verify how GET /api/admin/dashboard rolls up its aggregates
+ *
+ * Test Coverage:
+ * - Product counts are totalled per status and marketplace
+ * - Active marketplaces without products are listed with zero counts
+ * - Refresh success rate ignores skipped jobs and is null without finished jobs
+ * - PA-API quota usage is totalled per priority class for the UTC day
+ * - Click windows compare today with the same weekday last week
+ * - Percent changes without a baseline are null
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  clickWindows,
+  percentChange,
+  quotaDate,
+  refreshSuccessRate,
+  summarizeProductCounts,
+  summarizeQuotaUsage,
+} from '../dashboard'
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+describe('summarizeProductCounts', () => {
+  it('totals counts per status and marketplace', () => {
+    const counts = summarizeProductCounts([
+      { marketplace: 'US', status: 'active', product_count: 10 },
+      { marketplace: 'US', status: 'draft', product_count: 2 },
+      { marketplace: 'DE', status: 'active', product_count: 4 },
+      { marketplace: 'DE', status: 'unavailable', product_count: 1 },
+    ], ['US', 'DE'])
+
+    expect(counts.total).toBe(17)
+    expect(counts.by_status).toEqual({ draft: 2, active: 14, unavailable: 1 })
+    expect(counts.by_marketplace).toEqual([
+      { marketplace: 'US', total: 12, by_status: { draft: 2, active: 10, unavailable: 0 } },
+      { marketplace: 'DE', total: 5, by_status: { draft: 0, active: 4, unavailable: 1 } },
+    ])
+  })
+
+  it('lists active marketplaces first and keeps products of inactive ones', () => {
+    const counts = summarizeProductCounts([
+      { marketplace: 'FR', status: 'draft', product_count: 3 },
+    ], ['US', 'DE'])
+
+    expect(counts.by_marketplace.map(entry => [entry.marketplace, entry.total])).toEqual([
+      ['US', 0],
+      ['DE', 0],
+      ['FR', 3],
+    ])
+  })
+})
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+describe('refreshSuccessRate', () => {
+  it('returns the share of succeeded jobs among finished ones', () => {
+    expect(refreshSuccessRate({ success_count: 45, failed_count: 5 })).toBe(90)
+    expect(refreshSuccessRate({ success_count: 2, failed_count: 1 })).toBe(66.7)
+  })
+
+  it('returns null without finished jobs', () => {
+    expect(refreshSuccessRate({ success_count: 0, failed_count: 0 })).toBeNull()
+  })
+})
+
+// ============================================================================
+// PA-API QUOTA
+// ============================================================================
+
+describe('summarizeQuotaUsage', () => {
+  it('totals requests and refusals per priority class', () => {
+    const usage = summarizeQuotaUsage([
+      { priority: 'interactive', request_count: 12, denied_count: 0 },
+      { priority: 'background', request_count: 6900, denied_count: 40 },
+    ], '2025-12-10')
+
+    expect(usage).toEqual({
+      date: '2025-12-10',
+      used_today: 6912,
+      denied_today: 40,
+      by_priority: {
+        interactive: { requests: 12, denied: 0 },
+        import: { requests: 0, denied: 0 },
+        background: { requests: 6900, denied: 40 },
+      },
+    })
+  })
+
+  it('uses the UTC day the quota resets on', () => {
+    expect(quotaDate(new Date('2025-12-10T23:30:00.000-05:00'))).toBe('2025-12-11')
+  })
+})
+
+// ============================================================================
+// CLICKS
+// ============================================================================
+
+describe('clickWindows', () => {
+  it('compares today so far with the same part of the day a week ago', () => {
+    const windows = clickWindows(new Date('2025-12-10T15:30:00.000Z'))
+
+    expect(windows.today).toEqual({ from: '2025-12-10T00:00:00.000Z', to: '2025-12-10T15:30:00.000Z' })
+    expect(windows.sameDayLastWeek).toEqual({ from: '2025-12-03T00:00:00.000Z', to: '2025-12-03T15:30:00.000Z' })
+    expect(windows.last7Days).toEqual({ from: '2025-12-03T15:30:00.000Z', to: '2025-12-10T15:30:00.000Z' })
+    expect(windows.previous7Days).toEqual({ from: '2025-11-26T15:30:00.000Z', to: '2025-12-03T15:30:00.000Z' })
+  })
+})
+
+describe('percentChange', () => {
+  it('rounds the change to whole percent', () => {
+    expect(percentChange(15, 10)).toBe(50)
+    expect(percentChange(2, 3)).toBe(-33)
+  })
+
+  it('returns null without a baseline', () => {
+    expect(percentChange(5, 0)).toBeNull()
+  })
+})
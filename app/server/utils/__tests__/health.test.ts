@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for Health Checks
+ *
+ * Purpose: Verify the thresholds and roll-up behind GET /api/health
+ *
+ * Test Coverage:
+ * - Database probe latency and errors
+ * - Circuit breaker states, admin overrides and a missing row
+ * - PA-API failure rate needs enough finished refresh jobs
+ * - Refresh backlog age and time since the last successful refresh
+ * - Only a database outage makes the service unhealthy (503)
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  checkCircuitBreaker,
+  checkDatabase,
+  checkPaapi,
+  checkRefresh,
+  healthStatusCode,
+  rollUpHealth,
+  type CircuitBreakerRow,
+  type RefreshHealthInput,
+} from '../health'
+
+const NOW = new Date('2025-12-01T12:00:00.000Z')
+
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString()
+
+const breaker = (overrides: Partial<CircuitBreakerRow> = {}): CircuitBreakerRow => ({
+  name: 'paapi-client',
+  state: 'closed',
+  forced_open: false,
+  failure_count: 0,
+  last_failure_at: null,
+  ...overrides,
+})
+
+const refresh = (overrides: Partial<RefreshHealthInput> = {}): RefreshHealthInput => ({
+  backlogCount: 3,
+  neverRefreshedCount: 0,
+  oldestRefreshAt: hoursAgo(26),
+  lastSuccessAt: hoursAgo(0.1),
+  ...overrides,
+})
+
+// ============================================================================
+// COMPONENTS
+// ============================================================================
+
+describe('checkDatabase', () => {
+  it('is up for a fast probe', () => {
+    expect(checkDatabase(25)).toEqual({ status: 'up', details: { latency_ms: 25 } })
+  })
+
+  it('is degraded for a slow probe', () => {
+    expect(checkDatabase(1500).status).toBe('degraded')
+  })
+
+  it('is down when the probe fails', () => {
+    expect(checkDatabase(30, 'connection refused')).toMatchObject({ status: 'down', message: 'connection refused' })
+  })
+})
+
+describe('checkCircuitBreaker', () => {
+  it('is up when closed or never recorded', () => {
+    expect(checkCircuitBreaker(breaker()).status).toBe('up')
+    expect(checkCircuitBreaker(null).status).toBe('up')
+  })
+
+  it('is degraded when half-open and down when open', () => {
+    expect(checkCircuitBreaker(breaker({ state: 'half-open' })).status).toBe('degraded')
+    expect(checkCircuitBreaker(breaker({ state: 'open', failure_count: 5 })).status).toBe('down')
+  })
+
+  it('reports an admin override', () => {
+    expect(checkCircuitBreaker(breaker({ state: 'open', forced_open: true }))).toMatchObject({
+      status: 'down',
+      message: 'Forced open by an admin',
+    })
+  })
+})
+
+describe('checkPaapi', () => {
+  it('is up with a low failure rate', () => {
+    expect(checkPaapi({ success: 9, failed: 1 })).toEqual({
+      status: 'up',
+      details: { jobs_24h: { success: 9, failed: 1 }, failure_rate: 10 },
+    })
+  })
+
+  it('is degraded when half of the refreshes failed', () => {
+    expect(checkPaapi({ success: 5, failed: 5 }).status).toBe('degraded')
+  })
+
+  it('ignores the failure rate of only a few jobs', () => {
+    expect(checkPaapi({ success: 1, failed: 3 }).status).toBe('up')
+    expect(checkPaapi({ success: 0, failed: 0 }).details?.failure_rate).toBeNull()
+  })
+})
+
+describe('checkRefresh', () => {
+  it('is up with an empty backlog, even without refreshes', () => {
+    expect(checkRefresh(refresh({ backlogCount: 0, lastSuccessAt: null }), NOW).status).toBe('up')
+  })
+
+  it('is up when the worker is keeping up', () => {
+    const health = checkRefresh(refresh(), NOW)
+    expect(health.status).toBe('up')
+    expect(health.details).toMatchObject({ backlog_age_hours: 26, hours_since_success: 0.1 })
+  })
+
+  it('is degraded after an hour and down after six hours without a successful refresh', () => {
+    expect(checkRefresh(refresh({ lastSuccessAt: hoursAgo(2) }), NOW).status).toBe('degraded')
+    expect(checkRefresh(refresh({ lastSuccessAt: hoursAgo(7) }), NOW).status).toBe('down')
+  })
+
+  it('is down when products wait and nothing was ever refreshed', () => {
+    expect(checkRefresh(refresh({ lastSuccessAt: null }), NOW)).toMatchObject({
+      status: 'down',
+      message: 'No successful refresh recorded',
+    })
+  })
+
+  it('is degraded when the backlog is old', () => {
+    expect(checkRefresh(refresh({ oldestRefreshAt: hoursAgo(50) }), NOW).status).toBe('degraded')
+  })
+})
+
+// ============================================================================
+// ROLL-UP
+// ============================================================================
+
+describe('rollUpHealth', () => {
+  const up = { status: 'up' as const }
+
+  it('is healthy when every component is up', () => {
+    const health = rollUpHealth({ database: up, paapi: up, circuit_breaker: up, refresh: up }, NOW)
+    expect(health.status).toBe('healthy')
+    expect(health.timestamp).toBe(NOW.toISOString())
+    expect(healthStatusCode(health.status)).toBe(200)
+  })
+
+  it('is degraded but still 200 when only PA-API is down', () => {
+    const health = rollUpHealth({ database: up, paapi: up, circuit_breaker: { status: 'down' }, refresh: up }, NOW)
+    expect(health.status).toBe('degraded')
+    expect(healthStatusCode(health.status)).toBe(200)
+  })
+
+  it('is unhealthy with 503 when the database is down', () => {
+    const health = rollUpHealth({ database: { status: 'down' }, paapi: up, circuit_breaker: up, refresh: up }, NOW)
+    expect(health.status).toBe('unhealthy')
+    expect(healthStatusCode(health.status)).toBe(503)
+  })
+})
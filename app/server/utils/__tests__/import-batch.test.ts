@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for Bulk ASIN Import
+ *
+ * Purpose: Verify ASIN lists and CSVs are parsed into import batch rows
+ *
+ * Test Coverage:
+ * - CSV parsing with quoted cells and blank lines
+ * - ASIN lists separated by newlines, commas or spaces
+ * - CSV with and without a header row
+ * - Malformed ASINs and repeats are kept as settled rows
+ * - Unknown marketplaces and product types reject the request per line
+ * - Starting the worker reports failures but not a worker still running
+ */
+
+import { describe, it, expect } from 'vitest'
+import { MAX_IMPORT_ROWS, parseCsv, parseImportRequest, triggerImportBatch } from '../import-batch'
+
+const MARKETPLACES = ['US', 'DE']
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+describe('parseCsv', () => {
+  it('splits lines and cells, keeping the line each record starts on', () => {
+    expect(parseCsv('a, b\n\nc,d\r\n')).toEqual([
+      { line: 1, cells: ['a', 'b'] },
+      { line: 3, cells: ['c', 'd'] },
+    ])
+  })
+
+  it('supports quoted cells with commas, quotes and newlines', () => {
+    expect(parseCsv('"x, y","say ""hi""","multi\nline"\nz')).toEqual([
+      { line: 1, cells: ['x, y', 'say "hi"', 'multi\nline'] },
+      { line: 3, cells: ['z'] },
+    ])
+  })
+})
+
+// ============================================================================
+// ASIN LISTS
+// ============================================================================
+
+describe('parseImportRequest with a list', () => {
+  it('accepts ASINs separated by newlines, commas and spaces', () => {
+    const result = parseImportRequest({ asins: 'b0abcdef12\nB0ABCDEF13, B0ABCDEF14  B0ABCDEF15', marketplace: 'us' }, MARKETPLACES)
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.source).toBe('list')
+    expect(result.rows.map(row => [row.row_number, row.line, row.asin, row.marketplace])).toEqual([
+      [1, 1, 'B0ABCDEF12', 'US'],
+      [2, 2, 'B0ABCDEF13', 'US'],
+      [3, 2, 'B0ABCDEF14', 'US'],
+      [4, 2, 'B0ABCDEF15', 'US'],
+    ])
+  })
+
+  it('keeps malformed ASINs and repeats as settled rows', () => {
+    const result = parseImportRequest({ asins: ['B0ABCDEF12', 'B0ABC', 'b0abcdef12'], marketplace: 'US' }, MARKETPLACES)
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.rows.map(row => [row.status, row.error_message])).toEqual([
+      ['pending', null],
+      ['invalid_asin', 'ASIN must be 10 letters or digits'],
+      ['duplicate', 'Same ASIN as row 1'],
+    ])
+  })
+
+  it('requires a marketplace', () => {
+    expect(parseImportRequest({ asins: 'B0ABCDEF12' }, MARKETPLACES)).toEqual({
+      ok: false,
+      errors: [{ line: 0, message: 'Marketplace is required' }],
+    })
+  })
+
+  it('rejects empty and oversized lists', () => {
+    const tooMany = Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `B0${String(i).padStart(8, '0')}`)
+
+    expect(parseImportRequest({ asins: '  ', marketplace: 'US' }, MARKETPLACES).ok).toBe(false)
+    expect(parseImportRequest({ asins: tooMany, marketplace: 'US' }, MARKETPLACES).ok).toBe(false)
+  })
+})
+
+// ============================================================================
+// CSV IMPORTS
+// ============================================================================
+
+describe('parseImportRequest with a CSV', () => {
+  it('reads columns by header name', () => {
+    const csv = 'group_slug,ASIN,marketplace,product_type\nesp32-s3-boards,B0ABCDEF12,DE,development_board\n,B0ABCDEF13,,sensor'
+    const result = parseImportRequest({ csv, marketplace: 'US' }, MARKETPLACES)
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.source).toBe('csv')
+    expect(result.rows).toEqual([
+      expect.objectContaining({ row_number: 1, line: 2, asin: 'B0ABCDEF12', marketplace: 'DE', product_type: 'development_board', group_slug: 'esp32-s3-boards' }),
+      expect.objectContaining({ row_number: 2, line: 3, asin: 'B0ABCDEF13', marketplace: 'US', product_type: 'sensor', group_slug: null }),
+    ])
+  })
+
+  it('reads columns by position without a header', () => {
+    const result = parseImportRequest({ csv: 'B0ABCDEF12,US,display,oled-screens' }, MARKETPLACES)
+
+    expect(result.ok && result.rows[0]).toMatchObject({ asin: 'B0ABCDEF12', marketplace: 'US', product_type: 'display', group_slug: 'oled-screens' })
+  })
+
+  it('treats the same ASIN in different marketplaces as different rows', () => {
+    const result = parseImportRequest({ csv: 'B0ABCDEF12,US\nB0ABCDEF12,DE' }, MARKETPLACES)
+
+    expect(result.ok && result.rows.map(row => row.status)).toEqual(['pending', 'pending'])
+  })
+
+  it('reports unknown marketplaces and product types per line', () => {
+    const result = parseImportRequest({ csv: 'asin,marketplace,product_type\nB0ABCDEF12,FR,\nB0ABCDEF13,US,robot' }, MARKETPLACES)
+
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.errors).toEqual([
+      { line: 2, message: 'Marketplace must be one of: US, DE' },
+      { line: 3, message: expect.stringContaining('Product type must be one of: development_board') },
+    ])
+  })
+})
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+describe('triggerImportBatch', () => {
+  const respond = (response: () => Promise<Response>) => {
+    const requests: Request[] = []
+    const fetchFn = (input: string | URL | Request, init?: RequestInit) => {
+      requests.push(new Request(input, init))
+      return response()
+    }
+    return { requests, fetch: fetchFn as typeof fetch }
+  }
+
+  it('posts the batch with the correlation ID', async () => {
+    const recorder = respond(() => Promise.resolve(new Response('{}')))
+
+    expect(await triggerImportBatch('https://db.example.com', 'service-key', 'batch-1', 'request-1', recorder.fetch)).toBeNull()
+    expect(recorder.requests[0]!.url).toBe('https://db.example.com/functions/v1/import-batch')
+    expect(recorder.requests[0]!.headers.get('authorization')).toBe('Bearer service-key')
+    expect(recorder.requests[0]!.headers.get('x-correlation-id')).toBe('request-1')
+    expect(await recorder.requests[0]!.json()).toEqual({ batch_id: 'batch-1' })
+  })
+
+  it('reports error responses and network failures', async () => {
+    const rejected = respond(() => Promise.resolve(new Response(null, { status: 503 })))
+    const failing = respond(() => Promise.reject(new TypeError('fetch failed')))
+
+    expect(await triggerImportBatch('https://db.example.com', 'key', 'batch-1', undefined, rejected.fetch)).toBe('import-batch responded with HTTP 503')
+    expect(await triggerImportBatch('https://db.example.com', 'key', 'batch-1', undefined, failing.fetch)).toBe('fetch failed')
+  })
+
+  it('counts a worker still running after the timeout as started', async () => {
+    const running = respond(() => Promise.reject(new DOMException('The operation timed out', 'TimeoutError')))
+
+    expect(await triggerImportBatch('https://db.example.com', 'key', 'batch-1', undefined, running.fetch)).toBeNull()
+  })
+})
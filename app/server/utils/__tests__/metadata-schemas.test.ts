@@ -14,6 +14,8 @@
  * - Boolean field validation
  * - Numeric range validation
  * - Cross-type metadata rejection
+ * - Legacy filter keys rejected until canonicalized
+ * - Field-level error paths (filters.chip, display.product_type, ...)
  * 
  * Following TDD principles: Tests written BEFORE implementation
  */
@@ -26,6 +28,7 @@ import {
   getSchemaForProductType,
   type ProductType,
 } from "../metadata-schemas";
+import { canonicalizeMetadata } from "../../../shared/metadata-filters";
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -41,10 +44,11 @@ function createValidDevelopmentBoardMetadata() {
       chip: "ESP32-S3",
       psram: "8MB PSRAM",
       flash: "16MB Flash",
-      wifi: "802.11 b/g/n (WiFi 4)",
-      bluetooth: "BLE 5.0",
+      wifi: "WiFi 4",
+      bluetooth: "Bluetooth 5.0",
       usb: "USB-C",
-      gpio: "36 pins",
+      gpio: "36 GPIO pins",
+      connectivity: "WiFi 4, Bluetooth 5.0",
     },
     filters: {
       product_type: "development_board",
@@ -52,12 +56,13 @@ function createValidDevelopmentBoardMetadata() {
       chip_series: "ESP32-S",
       psram_mb: 8,
       flash_mb: 16,
-      wifi_standards: ["802.11b", "802.11g", "802.11n"],
-      wifi_generation: 4,
-      bluetooth_version: 5.0,
-      has_ble: true,
+      has_wifi: true,
+      wifi_version: "4",
+      has_bluetooth: true,
+      bluetooth_version: "5.0",
       has_zigbee: false,
-      usb_type: "usb-c",
+      usb_type: "usb_c",
+      has_battery_pins: false,
       gpio_pins: 36,
       form_factor: "devkit",
       operating_voltage_v: 3.3,
@@ -249,29 +254,63 @@ describe("metadata-schemas", () => {
       const metadata = createValidDevelopmentBoardMetadata();
 
       // Valid boolean values
-      metadata.filters.has_ble = true;
+      metadata.filters.has_bluetooth = true;
       metadata.filters.has_zigbee = false;
       let result = validateMetadata(metadata);
       expect(result.valid).toBe(true);
 
       // Invalid boolean value (string)
-      (metadata.filters as any).has_ble = "true";
+      (metadata.filters as any).has_bluetooth = "true";
       result = validateMetadata(metadata);
       expect(result.valid).toBe(false);
     });
 
-    it("should validate wifi_standards array correctly", () => {
+    it("should validate wifi_version and bluetooth_version enums correctly", () => {
       const metadata = createValidDevelopmentBoardMetadata();
 
-      // Valid array
-      metadata.filters.wifi_standards = ["802.11b", "802.11g", "802.11n"];
-      let result = validateMetadata(metadata);
-      expect(result.valid).toBe(true);
+      metadata.filters.wifi_version = "6";
+      metadata.filters.bluetooth_version = "5.4";
+      expect(validateMetadata(metadata).valid).toBe(true);
 
-      // Invalid array item
-      metadata.filters.wifi_standards = ["802.11b", "invalid_standard"];
-      result = validateMetadata(metadata);
-      expect(result.valid).toBe(false);
+      // Numeric versions are legacy values
+      (metadata.filters as any).wifi_version = 6;
+      expect(validateMetadata(metadata).valid).toBe(false);
+
+      metadata.filters.wifi_version = "6";
+      (metadata.filters as any).bluetooth_version = 5.0;
+      expect(validateMetadata(metadata).valid).toBe(false);
+    });
+
+    it("should validate usb_type enum correctly", () => {
+      const metadata = createValidDevelopmentBoardMetadata();
+
+      ["micro_usb", "usb_c", "usb_a"].forEach((usbType) => {
+        metadata.filters.usb_type = usbType;
+        expect(validateMetadata(metadata).valid).toBe(true);
+      });
+
+      metadata.filters.usb_type = "usb-c";
+      expect(validateMetadata(metadata).valid).toBe(false);
+    });
+
+    it("should reject legacy filter keys", () => {
+      const legacyFilters = {
+        flash_size: 16,
+        psram_size: 8,
+        gpio_count: 36,
+        has_battery: true,
+        has_battery_connector: true,
+        wifi_standards: ["802.11n"],
+      };
+
+      Object.entries(legacyFilters).forEach(([key, value]) => {
+        const metadata = createValidDevelopmentBoardMetadata();
+        (metadata.filters as any)[key] = value;
+
+        const result = validateMetadata(metadata);
+        expect(result.valid).toBe(false);
+        expect(result.errors.some((e) => e.includes(key))).toBe(true);
+      });
     });
 
     it("should validate gpio_pins range correctly", () => {
@@ -296,6 +335,27 @@ describe("metadata-schemas", () => {
       expect(validateMetadata(metadata).valid).toBe(false);
     });
 
+    it("should accept legacy metadata once canonicalized", () => {
+      const { metadata } = canonicalizeMetadata({
+        display: { product_type: "Development Board", chip: "ESP32-S3", psram_mb: "8MB PSRAM" },
+        filters: {
+          product_type: "development_board",
+          chip: "ESP32-S3",
+          flash_size: 16,
+          psram_size: 8,
+          gpio_count: 36,
+          has_battery: true,
+          wifi_generation: 4,
+          bluetooth_version: 5.0,
+          usb_type: "usb-c",
+        },
+      });
+
+      const result = validateMetadata(metadata);
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+
     it("should allow partial metadata (optional fields)", () => {
       const metadata = {
         display: {
@@ -839,4 +899,58 @@ describe("metadata-schemas", () => {
       expect(result.errors.length).toBeGreaterThan(1);
     });
   });
+
+  // ==========================================================================
+  // FIELD ERROR TESTS
+  // ==========================================================================
+
+  describe("validateMetadata - Field Errors", () => {
+    it("should return no field errors for valid metadata", () => {
+      expect(validateMetadata(createValidDevelopmentBoardMetadata()).fieldErrors).toEqual([]);
+    });
+
+    it("should point enum errors at the field", () => {
+      const metadata = createValidDevelopmentBoardMetadata();
+      metadata.filters.chip = "InvalidChip";
+
+      expect(validateMetadata(metadata).fieldErrors).toEqual([
+        { path: "filters.chip", message: "must be one of: ESP32, ESP32-S2, ESP32-S3, ESP32-C3, ESP32-C6, ESP32-H2" },
+      ]);
+    });
+
+    it("should point missing and unknown properties at the property itself", () => {
+      const metadata = createValidDevelopmentBoardMetadata();
+      delete (metadata.display as any).chip;
+      (metadata.filters as any).flash_size = 16;
+
+      const { fieldErrors } = validateMetadata(metadata);
+      expect(fieldErrors).toContainEqual({ path: "display.chip", message: "is required" });
+      expect(fieldErrors).toContainEqual({ path: "filters.flash_size", message: "is not a known field" });
+    });
+
+    it("should report range and type errors with their path", () => {
+      const metadata = createValidDevelopmentBoardMetadata();
+      metadata.filters.gpio_pins = 101;
+      (metadata.filters as any).has_zigbee = "yes";
+
+      const { fieldErrors } = validateMetadata(metadata);
+      expect(fieldErrors).toContainEqual({ path: "filters.gpio_pins", message: "must be <= 100" });
+      expect(fieldErrors).toContainEqual({ path: "filters.has_zigbee", message: "must be boolean" });
+    });
+
+    it("should include the array index for invalid array items", () => {
+      const metadata = createValidSensorMetadata();
+      metadata.filters.sensor_types = ["temperature", "invalid_sensor"];
+
+      expect(validateMetadata(metadata).fieldErrors[0]?.path).toBe("filters.sensor_types.1");
+    });
+
+    it("should report structural errors as field errors", () => {
+      expect(validateMetadata({ filters: { product_type: "sensor" } }).fieldErrors).toEqual([
+        { path: "display", message: "is required" },
+      ]);
+      expect(validateMetadata({ display: {}, filters: { product_type: "wireless" } }).fieldErrors[0]?.path)
+        .toBe("filters.product_type");
+    });
+  });
 });
@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for Price History Summaries
+ *
+ * Purpose: Verify the 30/90/365-day stats shown on the product price chart
+ *
+ * Test Coverage:
+ * - Rows are normalized (DECIMAL strings) and sorted oldest-first
+ * - The price in effect at a window's start is carried forward
+ * - Unavailable periods (null price) are ignored in min/max
+ * - Inflated "SavingBasis" discounts are flagged only with enough history
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeDiscount,
+  summarizePriceHistory,
+  summarizePriceWindow,
+  toPriceHistoryPoints,
+  type PriceHistoryRow,
+} from '../price-history'
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const NOW = new Date('2025-11-28T12:00:00Z')
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+function row(days: number, price: number | string | null, originalPrice: number | string | null = price): PriceHistoryRow {
+  return {
+    current_price: price,
+    original_price: originalPrice,
+    availability_type: price === null ? null : 'Now',
+    recorded_at: daysAgo(days),
+  }
+}
+
+// ============================================================================
+// POINTS
+// ============================================================================
+
+describe('toPriceHistoryPoints', () => {
+  it('parses DECIMAL strings and sorts oldest-first', () => {
+    const points = toPriceHistoryPoints([row(1, '9.99'), row(10, '12.50', '15.00')])
+
+    expect(points).toEqual([
+      { price: 12.5, original_price: 15, availability_type: 'Now', recorded_at: daysAgo(10) },
+      { price: 9.99, original_price: 9.99, availability_type: 'Now', recorded_at: daysAgo(1) },
+    ])
+  })
+})
+
+// ============================================================================
+// WINDOWS
+// ============================================================================
+
+describe('summarizePriceWindow', () => {
+  const points = toPriceHistoryPoints([
+    row(200, 20),
+    row(60, 14),
+    row(20, null),
+    row(5, 12),
+  ])
+
+  it('carries forward the price in effect at the window start', () => {
+    const stats = summarizePriceWindow(points, 12, 30, NOW)
+
+    expect(stats).toMatchObject({ days: 30, min: 12, max: 14, current: 12, samples: 2, covers_window: true })
+  })
+
+  it('includes older prices in longer windows', () => {
+    expect(summarizePriceWindow(points, 12, 365, NOW)).toMatchObject({
+      min: 12,
+      max: 20,
+      samples: 4,
+      covers_window: false,
+    })
+  })
+
+  it('uses the product price as current even without recent history', () => {
+    expect(summarizePriceWindow(points, '11.49', 30, NOW)).toMatchObject({ min: 11.49, current: 11.49 })
+  })
+
+  it('returns empty stats for products without history or price', () => {
+    expect(summarizePriceWindow([], null, 90, NOW)).toEqual({
+      days: 90,
+      min: null,
+      max: null,
+      average: null,
+      current: null,
+      samples: 0,
+      covers_window: false,
+    })
+  })
+})
+
+// ============================================================================
+// DISCOUNT INSIGHT
+// ============================================================================
+
+describe('analyzeDiscount', () => {
+  it('flags a claimed original price never observed in the reference window', () => {
+    const points = toPriceHistoryPoints([row(120, 12.99), row(10, 11.99, 29.99)])
+    const reference = summarizePriceWindow(points, 11.99, 90, NOW)
+
+    expect(analyzeDiscount(reference, 29.99)).toEqual({
+      claimed_original_price: 29.99,
+      highest_observed_price: 12.99,
+      claimed_savings_percentage: 60.02,
+      observed_savings_percentage: 7.7,
+      is_inflated: true,
+    })
+  })
+
+  it('accepts a discount from a price the product actually sold for', () => {
+    const points = toPriceHistoryPoints([row(120, 19.99), row(10, 14.99, 19.99)])
+    const reference = summarizePriceWindow(points, 14.99, 90, NOW)
+
+    expect(analyzeDiscount(reference, 19.99).is_inflated).toBe(false)
+  })
+
+  it('does not flag products whose history is shorter than the window', () => {
+    const points = toPriceHistoryPoints([row(10, 11.99, 29.99)])
+    const reference = summarizePriceWindow(points, 11.99, 90, NOW)
+
+    expect(analyzeDiscount(reference, 29.99).is_inflated).toBe(false)
+  })
+})
+
+describe('summarizePriceHistory', () => {
+  it('returns points, all chart windows and the discount insight', () => {
+    const summary = summarizePriceHistory(
+      [row(5, 12), row(100, 15)],
+      { current_price: 12, original_price: 15 },
+      NOW
+    )
+
+    expect(summary.points).toHaveLength(2)
+    expect(summary.windows.map(window => window.days)).toEqual([30, 90, 365])
+    expect(summary.discount.is_inflated).toBe(false)
+  })
+})
@@ -0,0 +1,308 @@
+/**
+ * Unit Tests for Product Feeds
+ *
+ * Purpose: Verify the Google Merchant, JSON and CSV feeds carry the same,
+ * well-formed product fields
+ *
+ * Test Coverage:
+ * - Feed names resolve to an active marketplace and a known format
+ * - Availability, GTIN, images and product type are mapped from product data
+ * - Products without a price are left out; variants share an item group
+ * - Each format matches its schema (required Merchant elements, JSON fields, CSV columns)
+ * - Conditional requests (If-None-Match before If-Modified-Since)
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildFeedCsv,
+  buildFeedJson,
+  buildMerchantXml,
+  FEED_CSV_COLUMNS,
+  feedAvailability,
+  feedEtag,
+  feedGtin,
+  feedImages,
+  feedLastModified,
+  isNotModified,
+  parseFeedName,
+  toFeedItems,
+  type FeedChannel,
+  type FeedProductRow,
+} from '../product-feed'
+
+const SITE_URL = 'https://www.espboards.dev/store'
+
+const row = (overrides: Partial<FeedProductRow> = {}): FeedProductRow => ({
+  id: 'product-1',
+  asin: 'B08DQQ8CBP',
+  slug: 'esp32-devkitc-32ue-b08dqq8c',
+  title: 'ESP32-DevKitC-32UE Development Board',
+  description: 'Entry-level board with 4MB flash, "Wi-Fi" & Bluetooth',
+  brand: 'Espressif Systems',
+  images: {
+    primary: { small: { url: 'https://m.media-amazon.com/s.jpg' }, large: { url: 'https://m.media-amazon.com/l.jpg' } },
+    variants: [{ medium: { url: 'https://m.media-amazon.com/v1.jpg' } }, { large: { url: 'https://m.media-amazon.com/l.jpg' } }],
+  },
+  current_price: 23.99,
+  original_price: 29.99,
+  currency: 'USD',
+  availability_type: 'Now',
+  metadata: { filters: { product_type: 'development_board', chip: 'ESP32' } },
+  features: null,
+  external_ids: { EANs: { DisplayValues: ['0712345678911'] } },
+  custom_parent_id: null,
+  last_refresh_at: '2025-12-04T06:00:00Z',
+  updated_at: '2025-12-01T10:00:00Z',
+  ...overrides,
+})
+
+const channel: FeedChannel = {
+  marketplace: 'US',
+  title: 'ESPBoards Store (United States)',
+  link: SITE_URL,
+  description: 'ESP32 development boards and components on amazon.com',
+  updated_at: '2025-12-04T06:00:00.000Z',
+}
+
+const ROWS = [
+  row(),
+  row({
+    id: 'product-2',
+    asin: 'B0VARIANT1',
+    slug: 'esp32-devkitc-3-pack',
+    title: 'ESP32-DevKitC 3-Pack',
+    description: null,
+    features: ['Three boards', 'Pre-soldered headers'],
+    original_price: null,
+    current_price: 54,
+    availability_type: null,
+    metadata: null,
+    external_ids: null,
+    images: null,
+    custom_parent_id: 'product-1',
+  }),
+  row({ id: 'product-3', asin: 'B0NOPRICE1', current_price: null }),
+]
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+describe('parseFeedName', () => {
+  it('resolves the marketplace and format', () => {
+    expect(parseFeedName('de.csv', ['US', 'DE'])).toEqual({ ok: true, value: { marketplace: 'DE', format: 'csv' } })
+    expect(parseFeedName('US.XML', ['US', 'DE'])).toEqual({ ok: true, value: { marketplace: 'US', format: 'xml' } })
+  })
+
+  it('rejects unknown formats and marketplaces', () => {
+    expect(parseFeedName('us.rss', ['US'])).toMatchObject({ ok: false })
+    expect(parseFeedName('fr.json', ['US', 'DE'])).toMatchObject({ ok: false })
+    expect(parseFeedName(undefined, ['US'])).toMatchObject({ ok: false })
+  })
+})
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+describe('feed field mapping', () => {
+  it('maps PA-API availability types', () => {
+    expect(feedAvailability('Now')).toBe('in_stock')
+    expect(feedAvailability('NOW')).toBe('in_stock')
+    expect(feedAvailability('PreOrder')).toBe('preorder')
+    expect(feedAvailability('Backorder')).toBe('backorder')
+    expect(feedAvailability(null)).toBe('out_of_stock')
+  })
+
+  it('takes the first valid GTIN, EANs first', () => {
+    expect(feedGtin({ UPCs: { DisplayValues: ['712345678911'] }, EANs: { DisplayValues: ['not-a-gtin', '4 006381 333931'] } })).toBe('4006381333931')
+    expect(feedGtin({ UPCs: { DisplayValues: ['712345678911'] } })).toBe('712345678911')
+    expect(feedGtin(null)).toBeNull()
+  })
+
+  it('uses the largest primary image and distinct variant images', () => {
+    expect(feedImages(row().images)).toEqual({
+      image_link: 'https://m.media-amazon.com/l.jpg',
+      additional_image_links: ['https://m.media-amazon.com/v1.jpg'],
+    })
+  })
+})
+
+describe('toFeedItems', () => {
+  const items = toFeedItems(ROWS, { siteUrl: SITE_URL, campaign: { utm_source: 'partner' } })
+
+  it('leaves out products without a price', () => {
+    expect(items.map(item => item.id)).toEqual(['B08DQQ8CBP', 'B0VARIANT1'])
+  })
+
+  it('links the product page and the tracked affiliate redirect', () => {
+    expect(items[0]).toMatchObject({
+      link: `${SITE_URL}/products/esp32-devkitc-32ue-b08dqq8c`,
+      affiliate_link: `${SITE_URL}/go/esp32-devkitc-32ue-b08dqq8c?placement=feed&utm_source=partner`,
+      price: 29.99,
+      sale_price: 23.99,
+      gtin: '0712345678911',
+      product_type: 'Development Board',
+      updated_at: '2025-12-04T06:00:00.000Z',
+    })
+  })
+
+  it('groups variants under their parent and fills gaps from it', () => {
+    expect(items[1]).toMatchObject({
+      description: 'Three boards Pre-soldered headers',
+      availability: 'out_of_stock',
+      price: 54,
+      sale_price: null,
+      product_type: 'Development Board',
+      item_group_id: 'B08DQQ8CBP',
+      image_link: null,
+    })
+  })
+
+  it('dates the feed by its latest product change', () => {
+    expect(feedLastModified(ROWS)).toBe('2025-12-04T06:00:00.000Z')
+  })
+})
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+describe('Google Merchant XML schema', () => {
+  const xml = buildMerchantXml(toFeedItems(ROWS, { siteUrl: SITE_URL }), channel)
+  const items = xml.match(/<item>[\s\S]*?<\/item>/g) || []
+
+  it('is an RSS 2.0 channel in the Google namespace', () => {
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">')).toBe(true)
+    expect(xml).toContain(`<link>${SITE_URL}</link>`)
+    expect(xml.trimEnd().endsWith('</rss>')).toBe(true)
+  })
+
+  it('has the required Merchant attributes on every item', () => {
+    expect(items).toHaveLength(2)
+    for (const item of items) {
+      for (const element of ['id', 'title', 'description', 'link', 'availability', 'price', 'condition']) {
+        expect(item).toMatch(new RegExp(`<g:${element}>[^<]+</g:${element}>`))
+      }
+      expect(item).toMatch(/<g:price>\d+\.\d{2} USD<\/g:price>/)
+      expect(item).toMatch(/<g:gtin>\d+<\/g:gtin>|<g:identifier_exists>no<\/g:identifier_exists>/)
+    }
+  })
+
+  it('escapes text and omits empty attributes', () => {
+    expect(items[0]).toContain('&quot;Wi-Fi&quot; &amp; Bluetooth')
+    expect(items[0]).toContain('<g:sale_price>23.99 USD</g:sale_price>')
+    expect(items[1]).not.toContain('<g:image_link>')
+    expect(items[1]).not.toContain('<g:sale_price>')
+  })
+})
+
+describe('JSON schema', () => {
+  const feed = JSON.parse(buildFeedJson(toFeedItems(ROWS, { siteUrl: SITE_URL }), channel))
+
+  it('wraps the items with the channel', () => {
+    expect(feed).toMatchObject({ marketplace: 'US', link: SITE_URL, updated_at: channel.updated_at, count: 2 })
+  })
+
+  it('gives every item the feed fields with their types', () => {
+    for (const item of feed.items) {
+      expect(Object.keys(item).sort()).toEqual([...FEED_CSV_COLUMNS].sort())
+      expect(item).toMatchObject({
+        id: expect.any(String),
+        title: expect.any(String),
+        link: expect.stringMatching(/^https:\/\//),
+        affiliate_link: expect.stringMatching(/^https:\/\/.*\/go\//),
+        additional_image_links: expect.any(Array),
+        availability: expect.stringMatching(/^(in_stock|preorder|backorder|out_of_stock)$/),
+        price: expect.any(Number),
+        currency: 'USD',
+      })
+    }
+  })
+})
+
+describe('CSV schema', () => {
+  // Minimal RFC 4180 parser (quoted cells may contain commas, quotes and newlines)
+  const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = []
+    let cells: string[] = []
+    let cell = ''
+    let quoted = false
+
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index]!
+      if (quoted) {
+        if (char === '"' && text[index + 1] === '"') {
+          cell += '"'
+          index++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          cell += char
+        }
+      } else if (char === '"') {
+        quoted = true
+      } else if (char === ',') {
+        cells.push(cell)
+        cell = ''
+      } else if (char === '\r' && text[index + 1] === '\n') {
+        rows.push([...cells, cell])
+        cells = []
+        cell = ''
+        index++
+      } else {
+        cell += char
+      }
+    }
+
+    return rows
+  }
+
+  const rows = parseCsv(buildFeedCsv(toFeedItems(ROWS, { siteUrl: SITE_URL })))
+
+  it('starts with the header row', () => {
+    expect(rows[0]).toEqual([...FEED_CSV_COLUMNS])
+  })
+
+  it('has one row per item with every column', () => {
+    expect(rows).toHaveLength(3)
+    for (const cells of rows.slice(1)) {
+      expect(cells).toHaveLength(FEED_CSV_COLUMNS.length)
+    }
+
+    const first = Object.fromEntries(FEED_CSV_COLUMNS.map((column, index) => [column, rows[1]![index]]))
+    expect(first).toMatchObject({
+      id: 'B08DQQ8CBP',
+      description: 'Entry-level board with 4MB flash, "Wi-Fi" & Bluetooth',
+      price: '29.99',
+      sale_price: '23.99',
+      additional_image_links: 'https://m.media-amazon.com/v1.jpg',
+    })
+  })
+})
+
+// ============================================================================
+// CONDITIONAL REQUESTS
+// ============================================================================
+
+describe('isNotModified', () => {
+  const etag = feedEtag('<rss/>')
+  const current = { etag, lastModified: '2025-12-04T06:00:00.500Z' }
+
+  it('matches the ETag, weak or in a list', () => {
+    expect(etag).toMatch(/^"[0-9a-f]{40}"$/)
+    expect(isNotModified({ ifNoneMatch: etag }, current)).toBe(true)
+    expect(isNotModified({ ifNoneMatch: `"other", W/${etag}` }, current)).toBe(true)
+    expect(isNotModified({ ifNoneMatch: '"other"' }, current)).toBe(false)
+  })
+
+  it('prefers If-None-Match over If-Modified-Since', () => {
+    expect(isNotModified({ ifNoneMatch: '"other"', ifModifiedSince: 'Fri, 05 Dec 2025 00:00:00 GMT' }, current)).toBe(false)
+  })
+
+  it('compares If-Modified-Since in whole seconds', () => {
+    expect(isNotModified({ ifModifiedSince: 'Thu, 04 Dec 2025 06:00:00 GMT' }, current)).toBe(true)
+    expect(isNotModified({ ifModifiedSince: 'Thu, 04 Dec 2025 05:59:59 GMT' }, current)).toBe(false)
+    expect(isNotModified({}, current)).toBe(false)
+  })
+})
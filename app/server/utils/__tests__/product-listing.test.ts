@@ -0,0 +1,185 @@
+/**
+ * Unit Tests for Product Listing Query Parsing
+ *
+ * Purpose: Verify GET /api/products turns page URL parameters into search filters
+ *
+ * Test Coverage:
+ * - Defaults (newest first, page 1, 12 per page)
+ * - "all"/empty values are treated as no filter
+ * - Numeric, price and boolean feature filters are typed and validated
+ * - Invalid sort, page, limit and marketplace values are rejected
+ * - Rows with embedded variants and group become listing products
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  parseProductListQuery,
+  PRODUCT_SORTS,
+  toListingProduct,
+  type ListingProductRow,
+} from '../product-listing'
+
+const MARKETPLACES = ['US', 'DE']
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+describe('parseProductListQuery defaults', () => {
+  it('returns the first page of newest products without filters', () => {
+    expect(parseProductListQuery({}, MARKETPLACES)).toEqual({
+      ok: true,
+      value: {
+        marketplace: null,
+        filters: {},
+        sort: 'newest',
+        page: 1,
+        limit: DEFAULT_PAGE_SIZE,
+      },
+    })
+  })
+
+  it('ignores "all" and empty values', () => {
+    const result = parseProductListQuery({ type: 'all', chip: 'all', flash: '', search: '   ', camera: '' }, MARKETPLACES)
+
+    expect(result.ok && result.value.filters).toEqual({})
+  })
+
+  it('has a sort column for every sort option on the products page', () => {
+    expect(Object.keys(PRODUCT_SORTS)).toEqual(['newest', 'price_low', 'price_high', 'savings'])
+  })
+})
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+describe('parseProductListQuery filters', () => {
+  it('types page URL parameters for the search function', () => {
+    const result = parseProductListQuery({
+      marketplace: 'DE',
+      search: ' s3 ',
+      type: 'development_board',
+      chip: 'ESP32-S3',
+      usb: 'usb_c',
+      flash: '8',
+      psram: 'none',
+      gpio: '30',
+      minPrice: '5',
+      maxPrice: '19.99',
+      camera: 'true',
+      battery: 'false',
+      sort: 'price_low',
+      page: '3',
+      limit: '24',
+    }, MARKETPLACES)
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        marketplace: 'DE',
+        filters: {
+          search: 's3',
+          type: 'development_board',
+          chip: 'ESP32-S3',
+          usb: 'usb_c',
+          flash: 8,
+          psram: 'none',
+          gpio: 30,
+          min_price: 5,
+          max_price: 19.99,
+          camera: true,
+          battery: false,
+        },
+        sort: 'price_low',
+        page: 3,
+        limit: 24,
+      },
+    })
+  })
+
+  it('uses the first value of repeated parameters', () => {
+    const result = parseProductListQuery({ chip: ['ESP32-C6', 'ESP32'] }, MARKETPLACES)
+
+    expect(result.ok && result.value.filters.chip).toBe('ESP32-C6')
+  })
+
+  it('accepts PSRAM sizes', () => {
+    const result = parseProductListQuery({ psram: '8' }, MARKETPLACES)
+
+    expect(result.ok && result.value.filters.psram).toBe('8')
+  })
+})
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('parseProductListQuery validation', () => {
+  it.each([
+    [{ marketplace: 'FR' }, 'Invalid marketplace. Must be one of: US, DE'],
+    [{ flash: '8MB' }, 'Invalid flash. Must be a whole number'],
+    [{ psram: 'lots' }, 'Invalid psram. Must be "none" or a whole number'],
+    [{ minPrice: '-1' }, 'Invalid minPrice. Must be a positive number'],
+    [{ camera: 'yes' }, 'Invalid camera. Must be "true" or "false"'],
+    [{ sort: 'rating' }, 'Invalid sort. Must be one of: newest, price_low, price_high, savings'],
+    [{ page: '0' }, 'Invalid page. Must be a positive whole number'],
+    [{ limit: String(MAX_PAGE_SIZE + 1) }, `Invalid limit. Must be between 1 and ${MAX_PAGE_SIZE}`],
+  ])('rejects %o', (query, message) => {
+    expect(parseProductListQuery(query, MARKETPLACES)).toEqual({ ok: false, message })
+  })
+
+  it('accepts any active marketplace', () => {
+    expect(parseProductListQuery({ marketplace: 'FR' }, [...MARKETPLACES, 'FR']).ok).toBe(true)
+  })
+})
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+describe('toListingProduct', () => {
+  const row: ListingProductRow = {
+    id: 'product-1',
+    asin: 'B08DQQ8CBP',
+    slug: 'esp32-devkitc',
+    title: 'ESP32-DevKitC',
+    description: null,
+    brand: 'Espressif Systems',
+    images: null,
+    detail_page_url: null,
+    current_price: 10,
+    original_price: null,
+    savings_amount: null,
+    savings_percentage: null,
+    currency: 'USD',
+    status: 'active',
+    metadata: null,
+    raw_paapi_response: null,
+    created_at: '2025-11-29T00:00:00Z',
+    group_id: null,
+    marketplace: null,
+    variants: [
+      { id: 'variant-1', asin: 'B0VARIANT1', title: '3-Pack', current_price: 24, original_price: null, savings_amount: null, savings_percentage: null, currency: 'USD', images: null },
+    ],
+    group: null,
+  }
+
+  it('counts variants of ungrouped products', () => {
+    expect(toListingProduct(row)).toMatchObject({ variants: row.variants, variant_count: 1, group: null })
+    expect(toListingProduct({ ...row, variants: null })).toMatchObject({ variants: [], variant_count: 0 })
+  })
+
+  it('counts the products of a group and drops the embedded count', () => {
+    const product = toListingProduct({
+      ...row,
+      group_id: 'group-1',
+      group: { id: 'group-1', slug: 'esp32-devkitc', title: 'ESP32-DevKitC', description: null, products: [{ count: 4 }] },
+    })
+
+    expect(product.variant_count).toBe(4)
+    expect(product.group).toEqual({ id: 'group-1', slug: 'esp32-devkitc', title: 'ESP32-DevKitC', description: null })
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * Unit Tests for the Public API (v1)
+ *
+ * Purpose: Verify v1 responses keep their documented shape and the OpenAPI
+ * spec matches the route definitions
+ *
+ * Test Coverage:
+ * - Every route file under server/api/v1 has a definition in the spec
+ * - Parameters are converted, defaulted and validated from the definitions
+ * - Serialized products, groups and marketplaces have exactly the schema's fields
+ * - The spec documents parameters, envelopes, errors and the API key scheme
+ */
+
+import { readdirSync } from 'node:fs'
+import { fileURLToPath } from 'node:url'
+import { describe, it, expect } from 'vitest'
+import {
+  API_V1_ROUTES,
+  API_V1_SCHEMAS,
+  buildOpenApiSpec,
+  pageRange,
+  parseApiParams,
+  toApiGroup,
+  toApiMarketplace,
+  toApiPagination,
+  toApiProduct,
+  type ApiGroupRow,
+  type ApiProductRow,
+} from '../public-api'
+
+const SITE_URL = 'https://www.espboards.dev/store'
+
+const V1_DIR = fileURLToPath(new URL('../../api/v1', import.meta.url))
+
+const productRow = (overrides: Partial<ApiProductRow> = {}): ApiProductRow => ({
+  asin: 'B0VARIANT1',
+  slug: 'esp32-devkitc-3-pack',
+  title: 'ESP32-DevKitC 3-Pack',
+  brand: 'Espressif Systems',
+  description: null,
+  metadata: { filters: { chip: 'ESP32', flash_mb: 4, has_wifi: true, extras: { nested: true } } },
+  images: { primary: { medium: { url: 'https://m.media-amazon.com/m.jpg' } } },
+  current_price: 54,
+  original_price: 60,
+  savings_percentage: 10,
+  currency: 'USD',
+  availability_type: 'Now',
+  last_refresh_at: '2025-12-04T06:00:00Z',
+  updated_at: '2025-12-01T10:00:00Z',
+  marketplace: { code: 'US' },
+  parent: { asin: 'B08DQQ8CBP', metadata: { filters: { product_type: 'development_board' } } },
+  group: { slug: 'esp32-devkitc' },
+  ...overrides,
+})
+
+const schemaFields = (name: keyof typeof API_V1_SCHEMAS) => Object.keys(API_V1_SCHEMAS[name].properties).sort()
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+describe('API_V1_ROUTES', () => {
+  it('defines every v1 route file', () => {
+    const documented = Object.values(API_V1_ROUTES).map(route => route.path.replace(/\{[^}]+\}/g, ':param')).sort()
+    const files = (readdirSync(V1_DIR, { recursive: true }) as string[])
+      .filter(file => file.endsWith('.ts') && file !== 'openapi.json.get.ts')
+      .map(file => `/${file.replace(/\\/g, '/').replace(/\.get\.ts$/, '').replace(/\/index$/, '').replace(/\[[^\]]+\]/g, ':param')}`)
+      .sort()
+
+    expect(files).toEqual(documented)
+  })
+})
+
+describe('parseApiParams', () => {
+  it('applies defaults and converts types', () => {
+    expect(parseApiParams(API_V1_ROUTES.listProducts, { type: 'development_board', min_price: '9.5', page: '2', unknown: 'x' })).toEqual({
+      ok: true,
+      value: {
+        marketplace: undefined,
+        search: undefined,
+        type: 'development_board',
+        chip: undefined,
+        min_price: 9.5,
+        max_price: undefined,
+        sort: 'newest',
+        page: 2,
+        limit: 25,
+      },
+    })
+    expect(parseApiParams(API_V1_ROUTES.getProduct, { asin: 'B08DQQ8CBP' })).toEqual({
+      ok: true,
+      value: { asin: 'B08DQQ8CBP', marketplace: 'US' },
+    })
+  })
+
+  it('rejects values outside the definition', () => {
+    expect(parseApiParams(API_V1_ROUTES.listProducts, { limit: '500' })).toEqual({
+      ok: false,
+      message: 'Invalid limit. Must be a whole number between 1 and 100',
+    })
+    expect(parseApiParams(API_V1_ROUTES.listProducts, { page: '1.5' })).toMatchObject({ ok: false })
+    expect(parseApiParams(API_V1_ROUTES.listProducts, { sort: 'random' })).toMatchObject({ ok: false, message: expect.stringContaining('newest, price_low') })
+    expect(parseApiParams(API_V1_ROUTES.listProducts, { marketplace: 'usa' })).toMatchObject({ ok: false })
+    expect(parseApiParams(API_V1_ROUTES.getProduct, { asin: 'not-an-asin' })).toMatchObject({ ok: false })
+    expect(parseApiParams(API_V1_ROUTES.getProduct, {})).toEqual({ ok: false, message: 'Missing asin' })
+  })
+
+  it('pages rows from the parsed page and limit', () => {
+    expect(pageRange(3, 25)).toEqual({ from: 50, to: 74 })
+    expect(toApiPagination(3, 25, 51)).toEqual({ page: 3, limit: 25, total: 51, total_pages: 3 })
+    expect(toApiPagination(1, 25, null)).toEqual({ page: 1, limit: 25, total: 0, total_pages: 0 })
+  })
+})
+
+// ============================================================================
+// SERIALIZERS
+// ============================================================================
+
+describe('toApiProduct', () => {
+  it('has exactly the fields of the Product schema', () => {
+    expect(Object.keys(toApiProduct(productRow(), SITE_URL)).sort()).toEqual(schemaFields('Product'))
+  })
+
+  it('serializes links, specs and the parent', () => {
+    expect(toApiProduct(productRow(), SITE_URL)).toEqual({
+      asin: 'B0VARIANT1',
+      marketplace: 'US',
+      title: 'ESP32-DevKitC 3-Pack',
+      brand: 'Espressif Systems',
+      description: null,
+      product_type: 'development_board',
+      specs: { chip: 'ESP32', flash_mb: 4, has_wifi: true },
+      price: 54,
+      original_price: 60,
+      savings_percentage: 10,
+      currency: 'USD',
+      availability: 'in_stock',
+      image_url: 'https://m.media-amazon.com/m.jpg',
+      url: `${SITE_URL}/products/esp32-devkitc-3-pack`,
+      affiliate_url: `${SITE_URL}/go/esp32-devkitc-3-pack?placement=api`,
+      parent_asin: 'B08DQQ8CBP',
+      group: 'esp32-devkitc',
+      updated_at: '2025-12-04T06:00:00.000Z',
+    })
+  })
+
+  it('handles products without metadata, images or parent', () => {
+    expect(toApiProduct(productRow({ metadata: null, images: null, parent: null, group: null, currency: null }), SITE_URL)).toMatchObject({
+      product_type: null,
+      specs: {},
+      image_url: null,
+      parent_asin: null,
+      group: null,
+      currency: 'USD',
+    })
+  })
+})
+
+describe('toApiGroup', () => {
+  const row: ApiGroupRow = {
+    slug: 'esp32-devkitc',
+    title: 'ESP32-DevKitC',
+    description: null,
+    brand: 'Espressif Systems',
+    images: null,
+    updated_at: '2025-11-30T00:00:00Z',
+    marketplace: { code: 'US' },
+    products: [
+      { current_price: 23.99, currency: 'USD', images: null, updated_at: '2025-12-01T10:00:00Z' },
+      { current_price: null, currency: 'USD', images: { primary: { large: { url: 'https://m.media-amazon.com/l.jpg' } } }, updated_at: null },
+      { current_price: 54, currency: 'USD', images: null, updated_at: null },
+    ],
+  }
+
+  it('has exactly the fields of the Group schema', () => {
+    expect(Object.keys(toApiGroup(row, SITE_URL)).sort()).toEqual(schemaFields('Group'))
+  })
+
+  it('summarizes the active products', () => {
+    expect(toApiGroup(row, SITE_URL)).toMatchObject({
+      url: `${SITE_URL}/groups/esp32-devkitc`,
+      image_url: 'https://m.media-amazon.com/l.jpg',
+      product_count: 3,
+      min_price: 23.99,
+      max_price: 54,
+      currency: 'USD',
+      updated_at: '2025-12-01T10:00:00.000Z',
+    })
+  })
+})
+
+describe('toApiMarketplace', () => {
+  it('leaves out internal fields', () => {
+    const marketplace = toApiMarketplace({ id: 'uuid', code: 'DE', name: 'Germany', flag: '🇩🇪', currency: 'EUR', domain: 'amazon.de', locale: 'de-DE' })
+
+    expect(Object.keys(marketplace).sort()).toEqual(schemaFields('Marketplace'))
+    expect(marketplace).toEqual({ code: 'DE', name: 'Germany', currency: 'EUR', domain: 'amazon.de', locale: 'de-DE' })
+  })
+})
+
+// ============================================================================
+// OPENAPI
+// ============================================================================
+
+describe('buildOpenApiSpec', () => {
+  const spec = buildOpenApiSpec(SITE_URL)
+
+  it('describes the server and the API key scheme', () => {
+    expect(spec.openapi).toBe('3.1.0')
+    expect(spec.servers).toEqual([{ url: `${SITE_URL}/api/v1` }])
+    expect(spec.components.securitySchemes.apiKey).toEqual({ type: 'apiKey', in: 'header', name: 'X-API-Key' })
+    expect(spec.security).toEqual([{ apiKey: [] }])
+  })
+
+  it('has an operation for every route with its parameters', () => {
+    for (const route of Object.values(API_V1_ROUTES)) {
+      const operation = spec.paths[route.path]?.get as any
+
+      expect(operation.operationId).toBe(route.operationId)
+      expect(operation.parameters.map((parameter: any) => parameter.name)).toEqual(route.parameters.map(parameter => parameter.name))
+    }
+
+    expect((spec.paths['/products/{asin}']?.get as any).parameters[0]).toMatchObject({ name: 'asin', in: 'path', required: true })
+  })
+
+  it('wraps responses in their envelope and documents errors', () => {
+    const list = (spec.paths['/products']?.get as any).responses
+    const item = (spec.paths['/products/{asin}']?.get as any).responses
+
+    expect(list[200].content['application/json'].schema.properties).toEqual({
+      data: { type: 'array', items: { $ref: '#/components/schemas/Product' } },
+      pagination: { $ref: '#/components/schemas/Pagination' },
+    })
+    expect(item[200].content['application/json'].schema.properties.data).toEqual({ $ref: '#/components/schemas/Product' })
+    expect(Object.keys(list)).toEqual(['200', '400', '401', '429'])
+    expect(Object.keys(item)).toEqual(['200', '400', '401', '404', '429'])
+    expect(list[429].headers).toHaveProperty('Retry-After')
+  })
+
+  it('only references defined schemas', () => {
+    const refs = JSON.stringify(spec).match(/#\/components\/schemas\/\w+/g) || []
+
+    for (const ref of new Set(refs)) {
+      expect(spec.components.schemas).toHaveProperty(ref.split('/').pop()!)
+    }
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for Request Logs
+ *
+ * Purpose: Verify the log entries of Nuxt server routes and the log viewer filters
+ *
+ * Test Coverage:
+ * - Only well-formed correlation IDs are taken from request headers
+ * - Entries match the Edge Functions' format and map to function_logs rows
+ * - The level filter shows the chosen level and above; a trace includes debug
+ * - Limits are clamped and unusable filters ignored
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildLogEntry, parseLogQuery, readCorrelationId, toFunctionLogRow } from '../request-log'
+
+// ============================================================================
+// CORRELATION
+// ============================================================================
+
+describe('readCorrelationId', () => {
+  it('accepts UUIDs and similar tokens', () => {
+    expect(readCorrelationId('3f1b9a2e-7c4d-4e5f-8a6b-9c0d1e2f3a4b')).toBe('3f1b9a2e-7c4d-4e5f-8a6b-9c0d1e2f3a4b')
+    expect(readCorrelationId(' req_01HZX9 ')).toBe('req_01HZX9')
+  })
+
+  it('rejects missing, short and unsafe values', () => {
+    expect(readCorrelationId(undefined)).toBeNull()
+    expect(readCorrelationId('abc')).toBeNull()
+    expect(readCorrelationId('id with spaces')).toBeNull()
+    expect(readCorrelationId('x'.repeat(129))).toBeNull()
+  })
+})
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+describe('buildLogEntry', () => {
+  it('tags entries with the route and correlation ID', () => {
+    const entry = buildLogEntry('warn', 'import-product failed', {
+      source: 'nuxt:/api/products/import',
+      correlationId: 'req_01HZX9',
+      metadata: { status: 502 },
+    })
+
+    expect(entry).toMatchObject({
+      level: 'warn',
+      message: 'import-product failed',
+      source: 'nuxt:/api/products/import',
+      correlation_id: 'req_01HZX9',
+      metadata: { status: 502 },
+    })
+    expect(entry.error).toBeUndefined()
+  })
+
+  it('serializes errors and non-error values', () => {
+    const entry = buildLogEntry('error', 'Failed', { error: new TypeError('fetch failed') })
+
+    expect(entry.error?.name).toBe('TypeError')
+    expect(entry.error?.message).toBe('fetch failed')
+    expect(entry.error?.stack).toContain('TypeError')
+
+    expect(buildLogEntry('error', 'Failed', { error: 'timeout' }).error).toEqual({ name: 'Error', message: 'timeout' })
+  })
+
+  it('maps to a function_logs row with nulls for missing fields', () => {
+    const entry = buildLogEntry('info', 'Started', { metadata: {} })
+
+    expect(toFunctionLogRow(entry)).toEqual({
+      logged_at: entry.timestamp,
+      level: 'info',
+      message: 'Started',
+      source: null,
+      correlation_id: null,
+      metadata: null,
+      error: null,
+    })
+  })
+})
+
+// ============================================================================
+// LOG VIEWER
+// ============================================================================
+
+describe('parseLogQuery', () => {
+  it('shows info and above by default', () => {
+    expect(parseLogQuery({})).toEqual({
+      correlationId: null,
+      levels: ['info', 'warn', 'error'],
+      source: null,
+      limit: 200,
+    })
+  })
+
+  it('shows a whole trace including debug entries', () => {
+    const query = parseLogQuery({ correlationId: 'req_01HZX9' })
+
+    expect(query.correlationId).toBe('req_01HZX9')
+    expect(query.levels).toEqual(['debug', 'info', 'warn', 'error'])
+    expect(parseLogQuery({ correlationId: 'req_01HZX9', level: 'warn' }).levels).toEqual(['warn', 'error'])
+  })
+
+  it('ignores unusable filters and clamps the limit', () => {
+    const query = parseLogQuery({ correlationId: 'bad', level: 'fatal', source: 'a b', limit: '5000' })
+
+    expect(query.correlationId).toBeNull()
+    expect(query.levels).toEqual(['info', 'warn', 'error'])
+    expect(query.source).toBeNull()
+    expect(query.limit).toBe(1000)
+    expect(parseLogQuery({ source: 'nuxt:/api/products/import', limit: '0' })).toMatchObject({
+      source: 'nuxt:/api/products/import',
+      limit: 1,
+    })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Unit Tests for the Catalog Response Cache
+ *
+ * Purpose: Ensure equivalent catalog requests share a cache entry and entries
+ * are served, revalidated and rebuilt at the right age
+ *
+ * Test Coverage:
+ * - Keys ignore parameter order, empty values and campaign parameters
+ * - Fresh, stale and expired boundaries of the cache policy
+ * - ETags only change with the response and headers follow the policy
+ * - Invalidation tokens must match the configured secret
+ * - CDN purges target the catalog cache tag and need Netlify credentials
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  CATALOG_CACHE_POLICY,
+  cacheState,
+  catalogCacheHeaders,
+  catalogCacheKey,
+  cdnPurgeRequest,
+  isValidInvalidationToken,
+  NETLIFY_PURGE_URL,
+  toCachedResponse,
+} from '../response-cache'
+
+const NOW = Date.parse('2025-12-06T12:00:00Z')
+
+const storedSecondsAgo = (seconds: number) => ({ storedAt: NOW - seconds * 1000 })
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+describe('catalogCacheKey', () => {
+  it('ignores parameter order, empty values and campaign parameters', () => {
+    const key = catalogCacheKey('products', { page: '1', marketplace: 'US' })
+
+    expect(catalogCacheKey('products', { marketplace: 'US', search: '', chip: undefined, page: '1' })).toBe(key)
+    expect(catalogCacheKey('products', { marketplace: ' US ', page: '1', utm_source: 'newsletter', utm_campaign: 'dec' })).toBe(key)
+    expect(key).toMatch(/^products:[0-9a-f]{20}$/)
+  })
+
+  it('separates routes, parameters and values', () => {
+    const key = catalogCacheKey('products', { marketplace: 'US' })
+
+    expect(catalogCacheKey('deals', { marketplace: 'US' })).not.toBe(key)
+    expect(catalogCacheKey('products', { marketplace: 'DE' })).not.toBe(key)
+    expect(catalogCacheKey('products', { marketplace: 'US', page: '2' })).not.toBe(key)
+    expect(catalogCacheKey('group', { slug: 'esp32-devkitc' })).not.toBe(catalogCacheKey('group', { slug: 'esp32-s3-devkitc' }))
+  })
+
+  it('keys repeated parameters by all their values', () => {
+    expect(catalogCacheKey('products', { chip: ['ESP32', 'ESP32-S3'] })).not.toBe(catalogCacheKey('products', { chip: 'ESP32' }))
+    expect(catalogCacheKey('products', { chip: ['ESP32', ''] })).toBe(catalogCacheKey('products', { chip: 'ESP32' }))
+  })
+})
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+describe('cacheState', () => {
+  const { maxAge, staleMaxAge } = CATALOG_CACHE_POLICY
+
+  it('serves entries younger than maxAge as fresh', () => {
+    expect(cacheState(storedSecondsAgo(0), NOW, CATALOG_CACHE_POLICY)).toBe('fresh')
+    expect(cacheState(storedSecondsAgo(maxAge - 1), NOW, CATALOG_CACHE_POLICY)).toBe('fresh')
+  })
+
+  it('revalidates stale entries until the stale window ends', () => {
+    expect(cacheState(storedSecondsAgo(maxAge), NOW, CATALOG_CACHE_POLICY)).toBe('stale')
+    expect(cacheState(storedSecondsAgo(maxAge + staleMaxAge - 1), NOW, CATALOG_CACHE_POLICY)).toBe('stale')
+    expect(cacheState(storedSecondsAgo(maxAge + staleMaxAge), NOW, CATALOG_CACHE_POLICY)).toBe('expired')
+  })
+
+  it('rebuilds entries stored in the future', () => {
+    expect(cacheState(storedSecondsAgo(-5), NOW, CATALOG_CACHE_POLICY)).toBe('expired')
+  })
+})
+
+describe('toCachedResponse', () => {
+  it('derives the ETag from the response only', () => {
+    const entry = toCachedResponse({ products: [{ id: 1 }] }, NOW)
+
+    expect(entry).toEqual({ value: { products: [{ id: 1 }] }, etag: expect.stringMatching(/^"[0-9a-f]{40}"$/), storedAt: NOW })
+    expect(toCachedResponse({ products: [{ id: 1 }] }, NOW + 1000).etag).toBe(entry.etag)
+    expect(toCachedResponse({ products: [{ id: 2 }] }, NOW).etag).not.toBe(entry.etag)
+  })
+})
+
+describe('catalogCacheHeaders', () => {
+  it('makes browsers revalidate and lets the CDN cache like the server', () => {
+    expect(catalogCacheHeaders('"abc"', { maxAge: 60, staleMaxAge: 600 })).toEqual({
+      'Cache-Control': 'public, max-age=0, must-revalidate',
+      'Netlify-CDN-Cache-Control': 'public, s-maxage=60, stale-while-revalidate=600',
+      'Netlify-Cache-Tag': 'catalog',
+      'ETag': '"abc"',
+    })
+  })
+})
+
+// ============================================================================
+// INVALIDATION
+// ============================================================================
+
+describe('isValidInvalidationToken', () => {
+  it('accepts the configured secret as bearer token', () => {
+    expect(isValidInvalidationToken('Bearer s3cret', 's3cret')).toBe(true)
+    expect(isValidInvalidationToken('bearer  s3cret ', 's3cret')).toBe(true)
+  })
+
+  it('rejects other tokens and an unconfigured secret', () => {
+    expect(isValidInvalidationToken('Bearer wrong', 's3cret')).toBe(false)
+    expect(isValidInvalidationToken('s3cret', 's3cret')).toBe(false)
+    expect(isValidInvalidationToken(undefined, 's3cret')).toBe(false)
+    expect(isValidInvalidationToken('Bearer ', '')).toBe(false)
+    expect(isValidInvalidationToken('Bearer anything', undefined)).toBe(false)
+  })
+})
+
+describe('cdnPurgeRequest', () => {
+  const env = (values: Record<string, string>) => (name: string) => values[name]
+
+  it('purges the catalog tag of the site', () => {
+    const request = cdnPurgeRequest(env({ NETLIFY_PURGE_API_TOKEN: 'nf-token', SITE_ID: 'site-1' }))
+
+    expect(request?.url).toBe(NETLIFY_PURGE_URL)
+    expect(request?.init.method).toBe('POST')
+    expect(request?.init.headers).toMatchObject({ Authorization: 'Bearer nf-token' })
+    expect(JSON.parse(request?.init.body as string)).toEqual({ site_id: 'site-1', cache_tags: ['catalog'] })
+  })
+
+  it('is null outside Netlify', () => {
+    expect(cdnPurgeRequest(env({ SITE_ID: 'site-1' }))).toBeNull()
+    expect(cdnPurgeRequest(env({ NETLIFY_PURGE_API_TOKEN: 'nf-token' }))).toBeNull()
+  })
+})
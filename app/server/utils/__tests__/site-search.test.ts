@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for Site Search
+ *
+ * Purpose: Verify GET /api/search validates its query and shapes database rows safely
+ *
+ * Test Coverage:
+ * - Queries are trimmed, collapsed and need at least two characters
+ * - Marketplace codes and limits are validated
+ * - chr(2)/chr(3) highlight markers become text segments (no HTML)
+ * - Product and group rows map to typeahead results with thumbnails
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_QUERY_LENGTH,
+  MAX_SEARCH_LIMIT,
+  parseSiteSearchQuery,
+  toGroupSearchResult,
+  toHighlightSegments,
+  toProductSearchResult,
+  type ProductSearchRow,
+} from '../site-search'
+
+const MARKETPLACES = ['US', 'DE']
+
+const highlight = (word: string) => `\u0002${word}\u0003`
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+describe('parseSiteSearchQuery', () => {
+  it('trims the query and applies the default limit', () => {
+    expect(parseSiteSearchQuery({ q: '  esp32   s3 ' }, MARKETPLACES)).toEqual({
+      ok: true,
+      value: { q: 'esp32 s3', marketplace: null, limit: DEFAULT_SEARCH_LIMIT },
+    })
+  })
+
+  it('requires at least two characters', () => {
+    expect(parseSiteSearchQuery({ q: ' e ' }, MARKETPLACES)).toMatchObject({ ok: false })
+    expect(parseSiteSearchQuery({}, MARKETPLACES)).toMatchObject({ ok: false })
+  })
+
+  it('caps long queries', () => {
+    const parsed = parseSiteSearchQuery({ q: 'x'.repeat(500) }, MARKETPLACES)
+
+    expect(parsed.ok && parsed.value.q.length).toBe(MAX_QUERY_LENGTH)
+  })
+
+  it('accepts active marketplaces only', () => {
+    expect(parseSiteSearchQuery({ q: 'esp32', marketplace: 'DE' }, MARKETPLACES)).toMatchObject({
+      ok: true,
+      value: { marketplace: 'DE' },
+    })
+    expect(parseSiteSearchQuery({ q: 'esp32', marketplace: 'FR' }, MARKETPLACES)).toMatchObject({ ok: false })
+  })
+
+  it('validates the limit', () => {
+    expect(parseSiteSearchQuery({ q: 'esp32', limit: '3' }, MARKETPLACES)).toMatchObject({ ok: true, value: { limit: 3 } })
+    expect(parseSiteSearchQuery({ q: 'esp32', limit: '0' }, MARKETPLACES)).toMatchObject({ ok: false })
+    expect(parseSiteSearchQuery({ q: 'esp32', limit: String(MAX_SEARCH_LIMIT + 1) }, MARKETPLACES)).toMatchObject({ ok: false })
+    expect(parseSiteSearchQuery({ q: 'esp32', limit: '2.5' }, MARKETPLACES)).toMatchObject({ ok: false })
+  })
+})
+
+// ============================================================================
+// HIGHLIGHTS
+// ============================================================================
+
+describe('toHighlightSegments', () => {
+  it('splits matched and plain text', () => {
+    expect(toHighlightSegments(`${highlight('ESP32')}-${highlight('S3')} DevKitC`)).toEqual([
+      { text: 'ESP32', match: true },
+      { text: '-', match: false },
+      { text: 'S3', match: true },
+      { text: ' DevKitC', match: false },
+    ])
+  })
+
+  it('keeps text without markers as one plain segment', () => {
+    expect(toHighlightSegments('<b>Board</b>')).toEqual([{ text: '<b>Board</b>', match: false }])
+    expect(toHighlightSegments(null)).toEqual([])
+  })
+
+  it('tolerates an unterminated match', () => {
+    expect(toHighlightSegments(`Board ${'\u0002'}ESP32`)).toEqual([
+      { text: 'Board ', match: false },
+      { text: 'ESP32', match: true },
+    ])
+  })
+})
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+describe('toProductSearchResult', () => {
+  const row: ProductSearchRow = {
+    id: 'product-1',
+    slug: 'esp32-s3-devkitc-1',
+    title: 'ESP32-S3 DevKitC-1',
+    brand: 'Espressif',
+    images: { primary: { small: { url: 'https://m.media-amazon.com/s.jpg' }, large: { url: 'https://m.media-amazon.com/l.jpg' } } },
+    current_price: 15.5,
+    currency: 'USD',
+    group_slug: 'esp32-s3-devkitc',
+    group_title: 'ESP32-S3 DevKitC',
+    title_highlight: `${highlight('ESP32')}-${highlight('S3')} DevKitC-1`,
+    snippet: null,
+    rank: 1.2,
+  }
+
+  it('maps a row with the smallest image and its group', () => {
+    expect(toProductSearchResult(row)).toEqual({
+      id: 'product-1',
+      slug: 'esp32-s3-devkitc-1',
+      title: [
+        { text: 'ESP32', match: true },
+        { text: '-', match: false },
+        { text: 'S3', match: true },
+        { text: ' DevKitC-1', match: false },
+      ],
+      brand: 'Espressif',
+      image: 'https://m.media-amazon.com/s.jpg',
+      price: 15.5,
+      currency: 'USD',
+      group: { slug: 'esp32-s3-devkitc', title: 'ESP32-S3 DevKitC' },
+      snippet: [],
+    })
+  })
+
+  it('falls back to the plain title (typo matches have no highlighted words)', () => {
+    const result = toProductSearchResult({ ...row, title_highlight: null, group_slug: null, images: null })
+
+    expect(result.title).toEqual([{ text: 'ESP32-S3 DevKitC-1', match: false }])
+    expect(result.group).toBeNull()
+    expect(result.image).toBeNull()
+  })
+})
+
+describe('toGroupSearchResult', () => {
+  it('maps counts and the lowest price', () => {
+    expect(toGroupSearchResult({
+      id: 'group-1',
+      slug: 'xiao-esp32',
+      title: 'XIAO ESP32',
+      images: { primary: { medium: { url: 'https://m.media-amazon.com/m.jpg' } } },
+      product_count: 4,
+      min_price: 6.99,
+      currency: 'USD',
+      title_highlight: `XIAO ${highlight('ESP32')}`,
+      snippet: `Tiny ${highlight('ESP32')} boards`,
+      rank: 0.8,
+    })).toMatchObject({
+      image: 'https://m.media-amazon.com/m.jpg',
+      productCount: 4,
+      minPrice: 6.99,
+      snippet: [
+        { text: 'Tiny ', match: false },
+        { text: 'ESP32', match: true },
+        { text: ' boards', match: false },
+      ],
+    })
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for Sitemaps and robots.txt
+ *
+ * Purpose: Verify the sitemap XML lists canonical pages with lastmod and
+ * hreflang alternates
+ *
+ * Test Coverage:
+ * - XML escaping of URLs
+ * - Marketplace sitemaps skip variants and groups without active products
+ * - lastmod is the latest refresh/update (of a group's products, for groups)
+ * - robots.txt keeps crawlers out of the admin area, API, redirects and feeds
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildRobotsTxt,
+  buildSitemapIndex,
+  buildUrlset,
+  latestDate,
+  marketplaceUrls,
+  type SitemapProduct,
+} from '../sitemap'
+
+const SITE_URL = 'https://www.espboards.dev/store'
+
+const MARKETPLACES = [
+  { code: 'US', locale: 'en-US' },
+  { code: 'DE', locale: 'de-DE' },
+]
+
+const product = (overrides: Partial<SitemapProduct> = {}): SitemapProduct => ({
+  asin: 'B0TEST0001',
+  slug: 'esp32-devkit-us',
+  marketplace_code: 'US',
+  custom_parent_id: null,
+  group_id: null,
+  last_refresh_at: '2025-12-04T06:00:00Z',
+  updated_at: '2025-12-01T10:00:00Z',
+  ...overrides,
+})
+
+// ============================================================================
+// XML
+// ============================================================================
+
+describe('buildUrlset', () => {
+  it('escapes URLs and adds lastmod and alternates', () => {
+    const xml = buildUrlset([{
+      loc: `${SITE_URL}/products?a=1&b=2`,
+      lastmod: '2025-12-04T06:00:00.000Z',
+      alternates: [{ hreflang: 'de-DE', href: `${SITE_URL}/products/board-de` }],
+    }])
+
+    expect(xml).toContain('xmlns:xhtml="http://www.w3.org/1999/xhtml"')
+    expect(xml).toContain(`<loc>${SITE_URL}/products?a=1&amp;b=2</loc>`)
+    expect(xml).toContain('<lastmod>2025-12-04T06:00:00.000Z</lastmod>')
+    expect(xml).toContain(`<xhtml:link rel="alternate" hreflang="de-DE" href="${SITE_URL}/products/board-de"/>`)
+  })
+})
+
+describe('buildSitemapIndex', () => {
+  it('lists each sitemap', () => {
+    const xml = buildSitemapIndex([
+      { loc: `${SITE_URL}/sitemaps/pages.xml` },
+      { loc: `${SITE_URL}/sitemaps/us.xml`, lastmod: '2025-12-04T06:00:00.000Z' },
+    ])
+
+    expect(xml.match(/<sitemap>/g)).toHaveLength(2)
+    expect(xml).toContain(`<loc>${SITE_URL}/sitemaps/us.xml</loc>\n    <lastmod>2025-12-04T06:00:00.000Z</lastmod>`)
+  })
+})
+
+describe('buildRobotsTxt', () => {
+  it('disallows private paths under the base path and points to the sitemap', () => {
+    const robots = buildRobotsTxt(SITE_URL)
+
+    expect(robots).toContain('Disallow: /store/admin\n')
+    expect(robots).toContain('Disallow: /store/api/\n')
+    expect(robots).toContain('Disallow: /store/go/\n')
+    expect(robots).toContain('Disallow: /store/feeds/\n')
+    expect(robots).toContain(`Sitemap: ${SITE_URL}/sitemap.xml`)
+  })
+})
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+describe('latestDate', () => {
+  it('returns the latest valid timestamp', () => {
+    expect(latestDate('2025-12-01T10:00:00Z', null, '2025-12-04T06:00:00Z', 'not a date')).toBe('2025-12-04T06:00:00.000Z')
+    expect(latestDate(null, undefined)).toBeNull()
+  })
+})
+
+describe('marketplaceUrls', () => {
+  const products = [
+    product({ group_id: 'group-us' }),
+    product({ slug: 'esp32-devkit-de', marketplace_code: 'DE', last_refresh_at: null }),
+    product({ asin: 'B0TEST0002', slug: 'esp32-devkit-3-pack', custom_parent_id: 'parent', group_id: 'group-us', last_refresh_at: '2025-12-05T06:00:00Z' }),
+  ]
+  const groups = [
+    { id: 'group-us', slug: 'esp32-devkit', marketplace_code: 'US', updated_at: '2025-11-30T00:00:00Z' },
+    { id: 'group-empty', slug: 'discontinued', marketplace_code: 'US', updated_at: '2025-11-30T00:00:00Z' },
+  ]
+
+  it('lists groups with active products and canonical products of the marketplace', () => {
+    const urls = marketplaceUrls('US', products, groups, MARKETPLACES, SITE_URL, 'US')
+
+    expect(urls.map(url => url.loc)).toEqual([
+      `${SITE_URL}/groups/esp32-devkit`,
+      `${SITE_URL}/products/esp32-devkit-us`,
+    ])
+  })
+
+  it('dates groups by their latest product, variants included', () => {
+    const [group] = marketplaceUrls('US', products, groups, MARKETPLACES, SITE_URL, 'US')
+
+    expect(group!.lastmod).toBe('2025-12-05T06:00:00.000Z')
+  })
+
+  it('links the same ASIN across marketplaces', () => {
+    const germanUrls = marketplaceUrls('DE', products, groups, MARKETPLACES, SITE_URL, 'US')
+
+    expect(germanUrls).toEqual([{
+      loc: `${SITE_URL}/products/esp32-devkit-de`,
+      lastmod: '2025-12-01T10:00:00.000Z',
+      alternates: [
+        { hreflang: 'de-DE', href: `${SITE_URL}/products/esp32-devkit-de` },
+        { hreflang: 'en-US', href: `${SITE_URL}/products/esp32-devkit-us` },
+        { hreflang: 'x-default', href: `${SITE_URL}/products/esp32-devkit-us` },
+      ],
+    }])
+  })
+
+  it('leaves listings of inactive marketplaces out of the alternates', () => {
+    const urls = marketplaceUrls('DE', products, groups, [{ code: 'DE', locale: 'de-DE' }], SITE_URL, 'US')
+
+    expect(urls[0]!.alternates).toEqual([])
+  })
+})
@@ -0,0 +1,181 @@
+/**
+ * Admin API Authorization
+ *
+ * Shared logic for the `admin-auth` server middleware, which guards every
+ * admin-only API route before a service-role Supabase client is created.
+ *
+ * Flow:
+ * 1. Match the request path against the protected API prefixes
+ * 2. Read the access token from the `Authorization: Bearer` header or the `auth-token` cookie
+ * 3. Verify the token with Supabase Auth
+ * 4. Map the Supabase user to an admin role (app_metadata.role or ADMIN_EMAILS allowlist)
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import type { User } from '@supabase/supabase-js'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Roles that grant access to the admin API
+ */
+export type AdminRole = 'admin'
+
+/**
+ * Authenticated admin attached to `event.context.admin` by the middleware
+ */
+export interface AdminUser {
+  id: string
+  email: string | null
+  role: AdminRole
+}
+
+/**
+ * Credentials extracted from the incoming request
+ */
+export interface AdminRequestCredentials {
+  authorization?: string | null
+  cookieToken?: string | null
+}
+
+/**
+ * Outcome of authorizing a request
+ */
+export type AdminAuthorizationResult =
+  | { ok: true, user: AdminUser }
+  | { ok: false, statusCode: 401 | 403, message: string }
+
+/**
+ * Resolves an access token to a Supabase user (null when the token is invalid)
+ */
+export type AdminTokenVerifier = (token: string) => Promise<User | null>
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * API path prefixes that require an authenticated admin
+ */
+export const ADMIN_API_PREFIXES = ['/api/admin', '/api/analytics']
+
+/**
+ * Individual admin-only routes living outside the protected prefixes
+ */
+export const ADMIN_API_ROUTES = ['/api/products/import']
+
+const ADMIN_ROLES: readonly AdminRole[] = ['admin']
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a request path targets an admin-only API route
+ */
+export function isAdminApiPath(path: string): boolean {
+  const pathname = (path.split('?')[0] || '').replace(/\/+$/, '')
+
+  if (ADMIN_API_ROUTES.includes(pathname)) {
+    return true
+  }
+
+  return ADMIN_API_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))
+}
+
+/**
+ * Extract the access token, preferring the bearer header over the cookie
+ */
+export function extractAuthToken(credentials: AdminRequestCredentials): string | null {
+  const bearer = credentials.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+
+  if (bearer) {
+    return bearer
+  }
+
+  return credentials.cookieToken?.trim() || null
+}
+
+/**
+ * Parse the comma-separated ADMIN_EMAILS allowlist
+ */
+export function parseAdminEmails(value: string | undefined | null): string[] {
+  return (value || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Map a Supabase user to an admin role
+ *
+ * `app_metadata` can only be written with the service role key, so a role set
+ * there is trusted. The email allowlist covers accounts created before roles existed.
+ */
+export function resolveAdminRole(user: User, adminEmails: string[]): AdminRole | null {
+  const role = user.app_metadata?.role
+
+  if (typeof role === 'string' && (ADMIN_ROLES as readonly string[]).includes(role)) {
+    return role as AdminRole
+  }
+
+  if (user.email && adminEmails.includes(user.email.toLowerCase())) {
+    return 'admin'
+  }
+
+  return null
+}
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+/**
+ * Authorize a request against the admin API
+ *
+ * @param credentials - Bearer header and/or auth-token cookie from the request
+ * @param verifyToken - Resolves the token to a Supabase user
+ * @param options.adminEmails - Normalized ADMIN_EMAILS allowlist
+ * @returns The admin user, or the status code and message to reject with
+ */
+export async function authorizeAdminRequest(
+  credentials: AdminRequestCredentials,
+  verifyToken: AdminTokenVerifier,
+  options: { adminEmails: string[] }
+): Promise<AdminAuthorizationResult> {
+  const token = extractAuthToken(credentials)
+
+  if (!token) {
+    return { ok: false, statusCode: 401, message: 'Authentication required' }
+  }
+
+  let user: User | null
+  try {
+    user = await verifyToken(token)
+  } catch (error) {
+    console.error('Admin token verification failed:', error)
+    user = null
+  }
+
+  if (!user) {
+    return { ok: false, statusCode: 401, message: 'Invalid or expired session' }
+  }
+
+  const role = resolveAdminRole(user, options.adminEmails)
+
+  if (!role) {
+    return { ok: false, statusCode: 403, message: 'Admin access required' }
+  }
+
+  return {
+    ok: true,
+    user: {
+      id: user.id,
+      email: user.email ?? null,
+      role,
+    },
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Price Alert Subscriptions
+ *
+ * Shared logic for the public subscribe/confirm/unsubscribe routes under
+ * /api/alerts. Subscriptions are double opt-in: a new subscription stays
+ * `pending` until the confirmation link (sent through the notification queue)
+ * is opened. Alerts themselves are evaluated by the refresh worker.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { createHash, randomBytes } from 'node:crypto'
+import { BlockList, isIP } from 'node:net'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AlertChannel = 'email' | 'webhook'
+
+/**
+ * Validated subscribe request
+ */
+export interface AlertSubscriptionInput {
+  product_slug: string
+  channel: AlertChannel
+  destination: string
+  target_price: number | null
+  notify_when_available: boolean
+}
+
+export type AlertValidationResult =
+  | { ok: true, value: AlertSubscriptionInput }
+  | { ok: false, message: string }
+
+/**
+ * Rendered message stored in alert_notifications.payload
+ */
+export interface AlertNotificationPayload {
+  subject: string
+  text: string
+  data: Record<string, unknown>
+}
+
+/**
+ * Attempts allowed per key in a fixed window (take_alert_subscribe_attempt)
+ */
+export interface SubscribeRateLimit {
+  key: string
+  limit: number
+  windowSeconds: number
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ALERT_CHANNELS: readonly AlertChannel[] = ['email', 'webhook']
+
+/**
+ * Days a confirmation link stays valid
+ */
+export const CONFIRMATION_TTL_DAYS = 7
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Subscribe attempts per client IP and per destination
+ *
+ * Each attempt sends a confirmation message, so the destination limit keeps
+ * the endpoint from being used to flood someone's inbox or webhook.
+ */
+export const SUBSCRIBE_LIMITS = {
+  client: { limit: 10, windowSeconds: 60 * 60 },
+  destination: { limit: 3, windowSeconds: 60 * 60 },
+} as const
+
+// Loopback, private, link-local, shared and reserved ranges webhooks may not target
+const NON_PUBLIC_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+const NON_PUBLIC_HOSTNAME = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate and normalize a subscribe request body
+ *
+ * Emails are lowercased so re-subscribing matches the existing subscription.
+ * Webhooks must use https.
+ */
+export function validateAlertSubscriptionInput(body: unknown): AlertValidationResult {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+
+  const productSlug = typeof input.product_slug === 'string' ? input.product_slug.trim() : ''
+  if (!productSlug) {
+    return { ok: false, message: 'Product slug is required' }
+  }
+
+  const channel = input.channel
+  if (!ALERT_CHANNELS.includes(channel as AlertChannel)) {
+    return { ok: false, message: `Channel must be one of: ${ALERT_CHANNELS.join(', ')}` }
+  }
+
+  let destination = typeof input.destination === 'string' ? input.destination.trim() : ''
+  if (channel === 'email') {
+    destination = destination.toLowerCase()
+    if (!EMAIL_PATTERN.test(destination) || destination.length > 254) {
+      return { ok: false, message: 'A valid email address is required' }
+    }
+  } else if (!isHttpsUrl(destination)) {
+    return { ok: false, message: 'Webhook URL must be a valid https URL' }
+  } else if (!isPublicHost(new URL(destination).hostname)) {
+    return { ok: false, message: 'Webhook URL must point to a public host' }
+  }
+
+  let targetPrice: number | null = null
+  if (input.target_price !== undefined && input.target_price !== null && input.target_price !== '') {
+    targetPrice = Number(input.target_price)
+    if (!Number.isFinite(targetPrice) || targetPrice <= 0) {
+      return { ok: false, message: 'Target price must be a positive number' }
+    }
+    targetPrice = Math.round(targetPrice * 100) / 100
+  }
+
+  const notifyWhenAvailable = input.notify_when_available === true
+
+  if (targetPrice === null && !notifyWhenAvailable) {
+    return { ok: false, message: 'Choose a target price or notify when available' }
+  }
+
+  return {
+    ok: true,
+    value: {
+      product_slug: productSlug,
+      channel: channel as AlertChannel,
+      destination,
+      target_price: targetPrice,
+      notify_when_available: notifyWhenAvailable,
+    },
+  }
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether a URL hostname may be the target of a webhook
+ *
+ * Rejects internal names and IP literals outside the public ranges (BlockList
+ * checks IPv4-mapped IPv6 addresses against the IPv4 ranges). Names resolving to private addresses are
+ * rejected again at delivery (WebhookTransport).
+ */
+export function isPublicHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase()
+
+  if (!host || NON_PUBLIC_HOSTNAME.test(host)) {
+    return false
+  }
+
+  const version = isIP(host)
+
+  if (version === 0) {
+    return true
+  }
+
+  return !NON_PUBLIC_ADDRESSES.check(host, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/**
+ * Generate an unguessable URL-safe token for confirm/unsubscribe links
+ */
+export function generateAlertToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+/**
+ * Case-insensitive key of a destination, as stored in alert_subscriptions.destination_key
+ *
+ * One live subscription is allowed per product, channel and key, so webhook
+ * URLs differing only in case re-subscribe instead of adding a subscription.
+ */
+export function alertDestinationKey(destination: string): string {
+  return destination.toLowerCase()
+}
+
+/**
+ * Rate limit keys of a subscribe attempt
+ *
+ * The IP and destination are hashed, so the limits table holds no addresses.
+ *
+ * @param clientIp - Client IP (unknown clients share one key)
+ * @param input - Validated subscribe request
+ */
+export function subscribeRateLimits(clientIp: string | undefined, input: Pick<AlertSubscriptionInput, 'channel' | 'destination'>): SubscribeRateLimit[] {
+  const hash = (value: string) => createHash('sha256').update(value).digest('hex')
+
+  return [
+    { key: `client:${hash(clientIp || 'unknown')}`, ...SUBSCRIBE_LIMITS.client },
+    { key: `destination:${hash(`${input.channel}:${alertDestinationKey(input.destination)}`)}`, ...SUBSCRIBE_LIMITS.destination },
+  ]
+}
+
+/**
+ * Check whether a pending subscription's confirmation link has expired
+ */
+export function isConfirmationExpired(confirmationSentAt: string, now: Date = new Date()): boolean {
+  const expiresAt = Date.parse(confirmationSentAt) + CONFIRMATION_TTL_DAYS * 24 * 60 * 60 * 1000
+  return now.getTime() > expiresAt
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * Render the double opt-in confirmation message
+ *
+ * @param product - Product the alert is for
+ * @param subscription - Subscription being confirmed
+ * @param siteUrl - Public store URL including the base path (e.g. https://www.espboards.dev/store)
+ */
+export function buildConfirmationMessage(
+  product: { title: string | null, slug: string },
+  subscription: {
+    confirm_token: string
+    unsubscribe_token: string
+    target_price: number | string | null // DECIMAL columns may come back as strings
+    notify_when_available: boolean
+  },
+  siteUrl: string
+): AlertNotificationPayload {
+  const baseUrl = siteUrl.replace(/\/+$/, '')
+  const title = product.title || 'this product'
+  const confirmUrl = `${baseUrl}/alerts/confirm?token=${subscription.confirm_token}`
+  const unsubscribeUrl = `${baseUrl}/alerts/unsubscribe?token=${subscription.unsubscribe_token}`
+
+  const conditions = [
+    subscription.target_price !== null ? `the price drops to ${Number(subscription.target_price).toFixed(2)} or less` : null,
+    subscription.notify_when_available ? 'it is back in stock' : null,
+  ].filter(Boolean).join(' or ')
+
+  return {
+    subject: `Confirm your alert for ${title}`,
+    text: [
+      `You asked to be notified when ${conditions} for ${title}.`,
+      '',
+      `Confirm the alert: ${confirmUrl}`,
+      '',
+      `This link expires in ${CONFIRMATION_TTL_DAYS} days. If you did not request this alert, ignore this message.`,
+      `Unsubscribe: ${unsubscribeUrl}`,
+      '',
+    ].join('\n'),
+    data: {
+      type: 'confirmation',
+      product_title: product.title,
+      product_url: `${baseUrl}/products/${product.slug}`,
+      confirm_url: confirmUrl,
+      confirm_token: subscription.confirm_token,
+      unsubscribe_url: unsubscribeUrl,
+    },
+  }
+}
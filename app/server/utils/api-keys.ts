@@ -0,0 +1,334 @@
+/**
+ * API Key Authorization
+ *
+ * Shared logic for the `api-key-auth` server middleware, which guards the
+ * public read-only API (/api/v1).
+ *
+ * Flow:
+ * 1. Match the request path against /api/v1 (the OpenAPI spec stays public)
+ * 2. Read the key from the `X-API-Key` header or `Authorization: Bearer`
+ * 3. Count the request with take_api_key_request(), which looks the key up by
+ *    its SHA-256 hash and checks its per-minute rate limit and daily quota
+ * 4. Answer with X-RateLimit-* headers, and Retry-After when refused
+ *
+ * Keys look like `esk_` followed by 32 base64url characters. Only their hash
+ * and first characters are stored; the key itself is shown once, on creation.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { createHash, randomBytes } from 'node:crypto'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Credentials extracted from the incoming request
+ */
+export interface ApiKeyCredentials {
+  apiKey?: string | null
+  authorization?: string | null
+}
+
+/**
+ * Row returned by take_api_key_request() (none for unknown or revoked keys)
+ */
+export interface ApiKeyRequestGrant {
+  api_key_id: string
+  granted: boolean
+  reason: 'rate' | 'quota' | null
+  rate_limit: number
+  remaining: number
+  reset_ms: number
+}
+
+/**
+ * Counts a request against the key with this hash
+ */
+export type ApiKeyRequestTaker = (keyHash: string) => Promise<ApiKeyRequestGrant | null>
+
+/**
+ * Outcome of authorizing a request, with the headers to answer with either way
+ */
+export type ApiKeyAuthorizationResult =
+  | { ok: true, apiKeyId: string, headers: Record<string, string> }
+  | { ok: false, statusCode: 401 | 429, message: string, headers: Record<string, string> }
+
+/**
+ * Generated key; `key` is returned to the admin once and never stored
+ */
+export interface GeneratedApiKey {
+  key: string
+  prefix: string
+  hash: string
+}
+
+/**
+ * Validated fields of an admin create or update request
+ */
+export interface ApiKeyInput {
+  name?: string
+  rate_limit_per_minute?: number
+  daily_quota?: number | null
+  revoked?: boolean
+}
+
+export type ApiKeyInputResult =
+  | { ok: true, value: ApiKeyInput }
+  | { ok: false, message: string }
+
+/**
+ * Row of api_key_usage
+ */
+export interface ApiKeyUsageRow {
+  api_key_id: string
+  usage_date: string
+  request_count: number
+  denied_count: number
+}
+
+export interface ApiKeyUsageSummary {
+  today: number
+  denied_today: number
+  last_30_days: number
+  denied_last_30_days: number
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * API path prefix that requires a key
+ */
+export const PUBLIC_API_PREFIX = '/api/v1'
+
+/**
+ * Routes under the prefix that stay public
+ */
+export const KEYLESS_API_ROUTES = ['/api/v1/openapi.json']
+
+export const API_KEY_HEADER = 'x-api-key'
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60
+export const MAX_RATE_LIMIT_PER_MINUTE = 10_000
+export const MAX_DAILY_QUOTA = 10_000_000
+
+/**
+ * Columns returned to the admin area (everything but key_hash and the rate limit window)
+ */
+export const API_KEY_COLUMNS = 'id, name, key_prefix, rate_limit_per_minute, daily_quota, request_count, last_used_at, created_by, revoked_at, created_at'
+
+const KEY_PREFIX = 'esk_'
+const KEY_PATTERN = /^esk_[A-Za-z0-9_-]{32}$/
+
+// Characters kept in key_prefix (KEY_PREFIX plus 6)
+const DISPLAY_PREFIX_LENGTH = 10
+
+const USAGE_WINDOW_DAYS = 30
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Create a random key with its display prefix and hash
+ */
+export function generateApiKey(): GeneratedApiKey {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+  }
+}
+
+/**
+ * SHA-256 of a key (hex), as stored in api_keys.key_hash
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex')
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a request path needs an API key
+ */
+export function isApiKeyPath(path: string): boolean {
+  const pathname = (path.split('?')[0] || '').replace(/\/+$/, '')
+
+  if (KEYLESS_API_ROUTES.includes(pathname)) {
+    return false
+  }
+
+  return pathname === PUBLIC_API_PREFIX || pathname.startsWith(`${PUBLIC_API_PREFIX}/`)
+}
+
+/**
+ * Extract a well-formed key, preferring the X-API-Key header over the bearer header
+ */
+export function extractApiKey(credentials: ApiKeyCredentials): string | null {
+  const key = credentials.apiKey?.trim()
+    || credentials.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+
+  return key && KEY_PATTERN.test(key) ? key : null
+}
+
+/**
+ * Rate limit headers for a counted request
+ *
+ * X-RateLimit-Reset is in seconds; Retry-After is only sent when refused.
+ */
+export function rateLimitHeaders(grant: ApiKeyRequestGrant): Record<string, string> {
+  const resetSeconds = String(Math.max(1, Math.ceil(grant.reset_ms / 1000)))
+
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(grant.rate_limit),
+    'X-RateLimit-Remaining': String(Math.max(0, grant.remaining)),
+    'X-RateLimit-Reset': resetSeconds,
+  }
+
+  if (!grant.granted) {
+    headers['Retry-After'] = resetSeconds
+  }
+
+  return headers
+}
+
+// ============================================================================
+// AUTHORIZATION
+// ============================================================================
+
+/**
+ * Authorize a request against the public API
+ *
+ * @param credentials - X-API-Key and/or Authorization header from the request
+ * @param takeRequest - Counts the request against the key with the given hash
+ * @returns The key's id, or the status code and message to reject with
+ */
+export async function authorizeApiKeyRequest(
+  credentials: ApiKeyCredentials,
+  takeRequest: ApiKeyRequestTaker
+): Promise<ApiKeyAuthorizationResult> {
+  const key = extractApiKey(credentials)
+
+  if (!key) {
+    return { ok: false, statusCode: 401, message: 'API key required (X-API-Key header)', headers: {} }
+  }
+
+  const grant = await takeRequest(hashApiKey(key))
+
+  if (!grant) {
+    return { ok: false, statusCode: 401, message: 'Invalid or revoked API key', headers: {} }
+  }
+
+  const headers = rateLimitHeaders(grant)
+
+  if (!grant.granted) {
+    return {
+      ok: false,
+      statusCode: 429,
+      message: grant.reason === 'quota' ? 'Daily quota of this API key exceeded' : 'Rate limit exceeded',
+      headers,
+    }
+  }
+
+  return { ok: true, apiKeyId: grant.api_key_id, headers }
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+/**
+ * Validate the body of POST /api/admin/api-keys (`create`) or PATCH /api/admin/api-keys/:id
+ *
+ * A name is required on create; updates only carry the fields to change.
+ */
+export function parseApiKeyInput(body: unknown, options: { create: boolean }): ApiKeyInputResult {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  const value: ApiKeyInput = {}
+
+  if (input.name !== undefined || options.create) {
+    const name = typeof input.name === 'string' ? input.name.trim() : ''
+    if (!name || name.length > 100) {
+      return { ok: false, message: 'Invalid name. Must be 1 to 100 characters' }
+    }
+    value.name = name
+  }
+
+  if (input.rate_limit_per_minute !== undefined) {
+    const limit = input.rate_limit_per_minute
+    if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_RATE_LIMIT_PER_MINUTE) {
+      return { ok: false, message: `Invalid rate_limit_per_minute. Must be between 1 and ${MAX_RATE_LIMIT_PER_MINUTE}` }
+    }
+    value.rate_limit_per_minute = limit as number
+  } else if (options.create) {
+    value.rate_limit_per_minute = DEFAULT_RATE_LIMIT_PER_MINUTE
+  }
+
+  if (input.daily_quota !== undefined) {
+    const quota = input.daily_quota
+    if (quota !== null && (!Number.isInteger(quota) || (quota as number) < 1 || (quota as number) > MAX_DAILY_QUOTA)) {
+      return { ok: false, message: `Invalid daily_quota. Must be null or between 1 and ${MAX_DAILY_QUOTA}` }
+    }
+    value.daily_quota = quota as number | null
+  }
+
+  if (input.revoked !== undefined) {
+    if (options.create || typeof input.revoked !== 'boolean') {
+      return { ok: false, message: 'Invalid revoked. Must be true or false, on update' }
+    }
+    value.revoked = input.revoked
+  }
+
+  if (!options.create && Object.keys(value).length === 0) {
+    return { ok: false, message: 'Nothing to update' }
+  }
+
+  return { ok: true, value }
+}
+
+/**
+ * Day the 30-day usage window starts (YYYY-MM-DD, UTC)
+ */
+export function usageWindowStart(now: Date = new Date()): string {
+  const start = new Date(now.getTime() - (USAGE_WINDOW_DAYS - 1) * 24 * 60 * 60 * 1000)
+  return start.toISOString().slice(0, 10)
+}
+
+/**
+ * Requests per key today and over the last 30 days (UTC), from api_key_usage rows
+ */
+export function summarizeApiKeyUsage(
+  rows: readonly ApiKeyUsageRow[],
+  now: Date = new Date()
+): Map<string, ApiKeyUsageSummary> {
+  const today = now.toISOString().slice(0, 10)
+  const windowStart = usageWindowStart(now)
+  const summaries = new Map<string, ApiKeyUsageSummary>()
+
+  for (const row of rows) {
+    if (row.usage_date < windowStart || row.usage_date > today) continue
+
+    const summary = summaries.get(row.api_key_id)
+      || { today: 0, denied_today: 0, last_30_days: 0, denied_last_30_days: 0 }
+
+    summary.last_30_days += row.request_count
+    summary.denied_last_30_days += row.denied_count
+
+    if (row.usage_date === today) {
+      summary.today += row.request_count
+      summary.denied_today += row.denied_count
+    }
+
+    summaries.set(row.api_key_id, summary)
+  }
+
+  return summaries
+}
@@ -0,0 +1,150 @@
+/**
+ * Catalog response cache, kept in the `catalog-cache` Nitro storage mount
+ *
+ * The mount is in memory per server instance, or on disk with
+ * CATALOG_CACHE_DRIVER=fs (nuxt.config.ts). See server/utils/response-cache.ts
+ * for keys, freshness, headers and how stale other instances can get.
+ */
+
+import type { H3Event } from 'h3'
+import {
+  CACHE_STATUS_HEADER,
+  CATALOG_CACHE_POLICY,
+  CATALOG_CACHE_STORAGE,
+  cacheState,
+  catalogCacheHeaders,
+  catalogCacheKey,
+  cdnPurgeRequest,
+  toCachedResponse,
+  type CachedResponse,
+} from '~/server/utils/response-cache'
+import { isNotModified } from '~/server/utils/product-feed'
+
+// Bumped on invalidation, so rebuilds started before it aren't stored
+let generation = 0
+
+// Purging the CDN must not hold up the admin request for long
+const CDN_PURGE_TIMEOUT = 5000
+
+// Rebuilds in progress, so concurrent misses of one key share a query
+const pending = new Map<string, Promise<CachedResponse>>()
+
+function rebuild<T>(key: string, load: () => Promise<T>): Promise<CachedResponse<T>> {
+  const startedIn = generation
+  const pendingKey = `${startedIn}:${key}`
+
+  const inProgress = pending.get(pendingKey)
+  if (inProgress) {
+    return inProgress as Promise<CachedResponse<T>>
+  }
+
+  const promise = (async () => {
+    const entry = toCachedResponse(await load())
+
+    if (startedIn === generation) {
+      await useStorage(CATALOG_CACHE_STORAGE).setItem(key, entry).catch((error) => {
+        console.error('Failed to store cached response:', error)
+      })
+    }
+
+    return entry
+  })().finally(() => pending.delete(pendingKey))
+
+  pending.set(pendingKey, promise)
+  return promise
+}
+
+/**
+ * Serve a public catalog response from the cache
+ *
+ * Stale entries are served while `load` rebuilds them in the background;
+ * errors thrown by `load` are never cached. Answers If-None-Match with 304.
+ *
+ * @param route - Route name, part of the cache key
+ * @param params - Route parameters (e.g. the slug), keyed with the query
+ * @param load - Builds the response (the route's queries)
+ */
+export async function cachedCatalogResponse<T>(
+  event: H3Event,
+  route: string,
+  params: Record<string, unknown>,
+  load: () => Promise<T>,
+): Promise<T | null> {
+  const key = catalogCacheKey(route, { ...getQuery(event), ...params })
+
+  const cached = await useStorage(CATALOG_CACHE_STORAGE).getItem<CachedResponse<T>>(key).catch((error) => {
+    console.error('Failed to read cached response:', error)
+    return null
+  })
+
+  const state = cached ? cacheState(cached, Date.now(), CATALOG_CACHE_POLICY) : 'expired'
+  let entry: CachedResponse<T>
+
+  if (cached && state !== 'expired') {
+    entry = cached
+
+    if (state === 'stale') {
+      const revalidation = rebuild(key, load).catch((error) => {
+        console.error(`Failed to revalidate cached ${route} response:`, error)
+      })
+      event.waitUntil?.(revalidation)
+    }
+  } else {
+    entry = await rebuild(key, load)
+  }
+
+  setResponseHeaders(event, {
+    ...catalogCacheHeaders(entry.etag, CATALOG_CACHE_POLICY),
+    [CACHE_STATUS_HEADER]: state === 'fresh' ? 'HIT' : state === 'stale' ? 'STALE' : 'MISS',
+  })
+
+  if (isNotModified({ ifNoneMatch: getRequestHeader(event, 'if-none-match') }, { etag: entry.etag, lastModified: null })) {
+    setResponseStatus(event, 304)
+    return null
+  }
+
+  return entry.value
+}
+
+/**
+ * Purge the catalog responses from the Netlify CDN
+ *
+ * Skipped outside Netlify; failures are logged, the CDN entries then expire
+ * within the cache lifetime.
+ */
+async function purgeCdnCache(): Promise<void> {
+  const request = cdnPurgeRequest(name => process.env[name])
+
+  if (!request) {
+    return
+  }
+
+  try {
+    const response = await fetch(request.url, { ...request.init, signal: AbortSignal.timeout(CDN_PURGE_TIMEOUT) })
+
+    if (!response.ok) {
+      console.error(`Failed to purge catalog CDN cache: HTTP ${response.status}`)
+    }
+  } catch (error) {
+    console.error('Failed to purge catalog CDN cache:', error)
+  }
+}
+
+/**
+ * Drop every cached catalog response
+ *
+ * Called after admin product and group changes and by the refresh worker
+ * (POST /api/cache/invalidate). Clears this server instance's storage and
+ * purges the CDN; other instances catch up within the cache lifetime.
+ */
+export async function invalidateCatalogCache(): Promise<void> {
+  generation++
+
+  try {
+    await useStorage(CATALOG_CACHE_STORAGE).clear()
+  } catch (error) {
+    console.error('Failed to clear catalog cache:', error)
+  }
+
+  await purgeCdnCache()
+}
@@ -0,0 +1,265 @@
+/**
+ * Click Analytics
+ *
+ * Shapes the aggregates read by GET /api/analytics/clicks: totals for the
+ * selected period and the one before it (click_totals), a gap-free daily or
+ * weekly series and per-group breakdowns (click_breakdown), and their CSV export.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { percentChange } from './dashboard'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ClickPeriod = '7d' | '30d' | '90d' | 'all'
+
+export type ClickDimension = 'day' | 'week' | 'product' | 'marketplace' | 'referrer' | 'device' | 'country'
+
+export type SeriesGranularity = 'day' | 'week'
+
+/**
+ * Start (null = all time) and end timestamps (ISO) of a period and the one before it
+ */
+export interface ClickPeriodRange {
+  from: string | null
+  to: string
+  previous: { from: string, to: string } | null
+}
+
+/**
+ * Row of click_totals()
+ */
+export interface ClickTotalsRow {
+  clicks: number
+  sessions: number
+  products: number
+}
+
+/**
+ * Row of click_breakdown()
+ */
+export interface ClickBreakdownRow {
+  bucket: string | null
+  clicks: number
+  sessions: number
+}
+
+export interface ClickSummary {
+  totalClicks: number
+  uniqueSessions: number
+  uniqueProducts: number
+  previous: { totalClicks: number, uniqueSessions: number, uniqueProducts: number } | null
+  change: { clicks: number | null, sessions: number | null, products: number | null }
+}
+
+export interface SeriesPoint {
+  date: string // YYYY-MM-DD, first day of the bucket
+  clicks: number
+  sessions: number
+}
+
+/**
+ * One group of a breakdown, with its share of all clicks in the period
+ */
+export interface BreakdownItem {
+  key: string | null
+  clicks: number
+  sessions: number
+  share: number // percent
+  previous_clicks: number | null
+  change_percentage: number | null
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CLICK_PERIODS: readonly ClickPeriod[] = ['7d', '30d', '90d', 'all']
+
+export const CLICK_DIMENSIONS: readonly ClickDimension[] = ['day', 'week', 'product', 'marketplace', 'referrer', 'device', 'country']
+
+const PERIOD_DAYS: Record<Exclude<ClickPeriod, 'all'>, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+export function parseClickPeriod(value: unknown): ClickPeriod {
+  return CLICK_PERIODS.includes(value as ClickPeriod) ? value as ClickPeriod : '7d'
+}
+
+export function parseClickDimension(value: unknown): ClickDimension {
+  return CLICK_DIMENSIONS.includes(value as ClickDimension) ? value as ClickDimension : 'day'
+}
+
+export function isTimeDimension(dimension: ClickDimension): dimension is SeriesGranularity {
+  return dimension === 'day' || dimension === 'week'
+}
+
+/**
+ * The period ending now and the equally long period before it ('all' has none)
+ */
+export function clickPeriodRange(period: ClickPeriod, now: Date): ClickPeriodRange {
+  const nowMs = now.getTime()
+  const iso = (ms: number) => new Date(ms).toISOString()
+
+  if (period === 'all') {
+    return { from: null, to: iso(nowMs), previous: null }
+  }
+
+  const length = PERIOD_DAYS[period] * DAY_MS
+
+  return {
+    from: iso(nowMs - length),
+    to: iso(nowMs),
+    previous: { from: iso(nowMs - 2 * length), to: iso(nowMs - length) },
+  }
+}
+
+/**
+ * Granularity of the series: the selected one for day and week views,
+ * otherwise weekly for all time and daily for the shorter periods
+ */
+export function seriesGranularity(period: ClickPeriod, dimension: ClickDimension): SeriesGranularity {
+  if (isTimeDimension(dimension)) {
+    return dimension
+  }
+
+  return period === 'all' ? 'week' : 'day'
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+export function summarizeClicks(current: ClickTotalsRow | null, previous: ClickTotalsRow | null): ClickSummary {
+  const totals = current || { clicks: 0, sessions: 0, products: 0 }
+
+  return {
+    totalClicks: totals.clicks,
+    uniqueSessions: totals.sessions,
+    uniqueProducts: totals.products,
+    previous: previous
+      ? { totalClicks: previous.clicks, uniqueSessions: previous.sessions, uniqueProducts: previous.products }
+      : null,
+    change: {
+      clicks: previous ? percentChange(totals.clicks, previous.clicks) : null,
+      sessions: previous ? percentChange(totals.sessions, previous.sessions) : null,
+      products: previous ? percentChange(totals.products, previous.products) : null,
+    },
+  }
+}
+
+// ============================================================================
+// SERIES
+// ============================================================================
+
+/**
+ * First day (UTC) of the day or ISO week (starting Monday) containing a timestamp
+ */
+export function bucketStart(time: Date, granularity: SeriesGranularity): string {
+  const day = Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate())
+  const offset = granularity === 'week' ? ((time.getUTCDay() + 6) % 7) * DAY_MS : 0
+  return new Date(day - offset).toISOString().slice(0, 10)
+}
+
+/**
+ * Series from `from` (or the first bucket with clicks) to `to`, with empty buckets as zeros
+ */
+export function fillSeries(
+  rows: ClickBreakdownRow[],
+  granularity: SeriesGranularity,
+  from: string | null,
+  to: string
+): SeriesPoint[] {
+  const byDate = new Map(rows.filter(row => row.bucket).map(row => [row.bucket as string, row]))
+  const first = from ? bucketStart(new Date(from), granularity) : [...byDate.keys()].sort()[0]
+
+  if (!first) {
+    return []
+  }
+
+  const last = bucketStart(new Date(to), granularity)
+  const step = granularity === 'week' ? 7 * DAY_MS : DAY_MS
+  const points: SeriesPoint[] = []
+
+  for (let time = Date.parse(first); time <= Date.parse(last); time += step) {
+    const date = new Date(time).toISOString().slice(0, 10)
+    const row = byDate.get(date)
+    points.push({ date, clicks: row?.clicks || 0, sessions: row?.sessions || 0 })
+  }
+
+  return points
+}
+
+// ============================================================================
+// BREAKDOWNS
+// ============================================================================
+
+/**
+ * Breakdown groups with their share of all clicks and the change from the previous period
+ *
+ * @param previousRows - The same breakdown for the previous period, null when there is none
+ */
+export function buildBreakdown(
+  rows: ClickBreakdownRow[],
+  totalClicks: number,
+  previousRows: ClickBreakdownRow[] | null
+): BreakdownItem[] {
+  const previousByKey = previousRows
+    ? new Map(previousRows.map(row => [row.bucket, row.clicks]))
+    : null
+
+  return rows.map((row) => {
+    const previousClicks = previousByKey ? previousByKey.get(row.bucket) || 0 : null
+
+    return {
+      key: row.bucket,
+      clicks: row.clicks,
+      sessions: row.sessions,
+      share: totalClicks > 0 ? Math.round((row.clicks / totalClicks) * 1000) / 10 : 0,
+      previous_clicks: previousClicks,
+      change_percentage: previousClicks === null ? null : percentChange(row.clicks, previousClicks),
+    }
+  })
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  let text = String(value)
+
+  // Keep spreadsheet apps from evaluating values as formulas
+  if (/^[=+\-@\t\r]/.test(text) && typeof value === 'string') {
+    text = `'${text}`
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * CSV document (header row first, CRLF line endings) from rows of objects
+ */
+export function toCsv<T extends Record<string, unknown>>(columns: readonly (keyof T & string)[], rows: T[]): string {
+  const lines = [
+    columns.join(','),
+    ...rows.map(row => columns.map(column => csvCell(row[column])).join(',')),
+  ]
+
+  return `${lines.join('\r\n')}\r\n`
+}
@@ -0,0 +1,14 @@
+import { getRequestHeader, getRequestIP, type H3Event } from 'h3'
+
+// Connecting IP set by Netlify's CDN
+const CLIENT_IP_HEADER = 'x-nf-client-connection-ip'
+
+/**
+ * IP address of the visitor behind a request
+ *
+ * Prefers the address Netlify's CDN saw and falls back to the socket address.
+ * X-Forwarded-For is never trusted: clients can prefix it with any address.
+ */
+export function getClientIp(event: H3Event): string | undefined {
+  return getRequestHeader(event, CLIENT_IP_HEADER) || getRequestIP(event)
+}
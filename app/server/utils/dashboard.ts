@@ -0,0 +1,216 @@
+/**
+ * Admin Dashboard
+ *
+ * Shapes the aggregates read by GET /api/admin/dashboard: product counts per
+ * status and marketplace (v_product_status_counts), refresh job success rate
+ * (v_refresh_job_stats), today's PA-API quota usage (rate_limit_usage) and the
+ * click comparison windows.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProductStatus = 'draft' | 'active' | 'unavailable'
+
+export interface ProductStatusCountRow {
+  marketplace: string
+  status: ProductStatus
+  product_count: number
+}
+
+export interface ProductCounts {
+  total: number
+  by_status: Record<ProductStatus, number>
+  by_marketplace: Array<{
+    marketplace: string
+    total: number
+    by_status: Record<ProductStatus, number>
+  }>
+}
+
+/**
+ * Row of v_refresh_job_stats (last 24 hours; numeric columns arrive as numbers or strings)
+ */
+export interface RefreshJobStatsRow {
+  total_jobs: number
+  success_count: number
+  failed_count: number
+  skipped_count: number
+  pending_count: number
+  running_count: number
+  avg_duration_seconds: number | string | null
+  last_job_created: string | null
+}
+
+/**
+ * PA-API rate limiter priority classes (see _shared/rate-limiter.ts)
+ */
+export type RequestPriority = 'interactive' | 'import' | 'background'
+
+/**
+ * Row of rate_limit_usage for one UTC day and priority class
+ */
+export interface RateLimitUsageRow {
+  priority: RequestPriority
+  request_count: number
+  denied_count: number
+}
+
+export interface QuotaUsage {
+  date: string
+  used_today: number
+  denied_today: number
+  by_priority: Record<RequestPriority, { requests: number, denied: number }>
+}
+
+/**
+ * Start and end timestamps (ISO) of the click comparison windows
+ */
+export interface ClickWindows {
+  today: { from: string, to: string }
+  sameDayLastWeek: { from: string, to: string }
+  last7Days: { from: string, to: string }
+  previous7Days: { from: string, to: string }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PRODUCT_STATUSES: readonly ProductStatus[] = ['draft', 'active', 'unavailable']
+
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ['interactive', 'import', 'background']
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+const emptyStatusCounts = () =>
+  Object.fromEntries(PRODUCT_STATUSES.map(status => [status, 0])) as Record<ProductStatus, number>
+
+/**
+ * Roll up per-marketplace status counts
+ *
+ * @param marketplaces - Active marketplace codes, listed first and in this order
+ *                       (with zero counts if they have no products yet)
+ */
+export function summarizeProductCounts(rows: ProductStatusCountRow[], marketplaces: readonly string[]): ProductCounts {
+  const counts: ProductCounts = { total: 0, by_status: emptyStatusCounts(), by_marketplace: [] }
+  const byMarketplace = new Map<string, ProductCounts['by_marketplace'][number]>()
+
+  for (const code of marketplaces) {
+    byMarketplace.set(code, { marketplace: code, total: 0, by_status: emptyStatusCounts() })
+  }
+
+  for (const row of rows) {
+    let entry = byMarketplace.get(row.marketplace)
+    if (!entry) {
+      entry = { marketplace: row.marketplace, total: 0, by_status: emptyStatusCounts() }
+      byMarketplace.set(row.marketplace, entry)
+    }
+
+    const count = Number(row.product_count) || 0
+    entry.total += count
+    entry.by_status[row.status] = (entry.by_status[row.status] || 0) + count
+    counts.total += count
+    counts.by_status[row.status] = (counts.by_status[row.status] || 0) + count
+  }
+
+  counts.by_marketplace = [...byMarketplace.values()]
+  return counts
+}
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+/**
+ * Percentage of finished refresh jobs that succeeded (one decimal)
+ *
+ * Skipped jobs (circuit breaker open) and unfinished jobs are left out, so the
+ * rate reflects PA-API outcomes only. Null when no job finished.
+ */
+export function refreshSuccessRate(stats: Pick<RefreshJobStatsRow, 'success_count' | 'failed_count'>): number | null {
+  const success = Number(stats.success_count) || 0
+  const finished = success + (Number(stats.failed_count) || 0)
+
+  if (finished === 0) {
+    return null
+  }
+
+  return Math.round((success / finished) * 1000) / 10
+}
+
+// ============================================================================
+// PA-API QUOTA
+// ============================================================================
+
+/**
+ * UTC date (YYYY-MM-DD) the PA-API daily quota of a moment belongs to
+ */
+export function quotaDate(now: Date): string {
+  return now.toISOString().slice(0, 10)
+}
+
+/**
+ * Total today's granted and refused PA-API requests, per priority class
+ */
+export function summarizeQuotaUsage(rows: RateLimitUsageRow[], date: string): QuotaUsage {
+  const usage: QuotaUsage = {
+    date,
+    used_today: 0,
+    denied_today: 0,
+    by_priority: Object.fromEntries(
+      REQUEST_PRIORITIES.map(priority => [priority, { requests: 0, denied: 0 }]),
+    ) as QuotaUsage['by_priority'],
+  }
+
+  for (const row of rows) {
+    const counts = usage.by_priority[row.priority]
+    if (!counts) continue
+
+    counts.requests += row.request_count
+    counts.denied += row.denied_count
+    usage.used_today += row.request_count
+    usage.denied_today += row.denied_count
+  }
+
+  return usage
+}
+
+// ============================================================================
+// CLICKS
+// ============================================================================
+
+/**
+ * Today (UTC) so far vs. the same part of the same weekday last week,
+ * and the last 7 days vs. the 7 days before
+ */
+export function clickWindows(now: Date): ClickWindows {
+  const nowMs = now.getTime()
+  const todayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const iso = (ms: number) => new Date(ms).toISOString()
+
+  return {
+    today: { from: iso(todayStart), to: iso(nowMs) },
+    sameDayLastWeek: { from: iso(todayStart - 7 * DAY_MS), to: iso(nowMs - 7 * DAY_MS) },
+    last7Days: { from: iso(nowMs - 7 * DAY_MS), to: iso(nowMs) },
+    previous7Days: { from: iso(nowMs - 14 * DAY_MS), to: iso(nowMs - 7 * DAY_MS) },
+  }
+}
+
+/**
+ * Change from previous to current in percent (rounded), null if there is no baseline
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) {
+    return null
+  }
+
+  return Math.round(((current - previous) / previous) * 100)
+}
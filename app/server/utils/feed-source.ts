@@ -0,0 +1,64 @@
+/**
+ * Product feed data, loaded from the `products` table
+ *
+ * Cached per marketplace for half an hour, so partners polling a feed share
+ * one query. Only the ExternalIds part of raw_paapi_response is selected.
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import type { FeedProductRow } from '~/server/utils/product-feed'
+
+export const FEED_MAX_AGE = 30 * 60
+
+// Rows per request (PostgREST caps responses at 1000 rows)
+const PAGE_SIZE = 1000
+
+/**
+ * Active products (variants included) of a marketplace
+ */
+export const getFeedProducts = defineCachedFunction(async (marketplaceId: string): Promise<FeedProductRow[]> => {
+  const supabase = createServerSupabaseAdminClient()
+
+  const products: FeedProductRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select(`
+        id,
+        asin,
+        slug,
+        title,
+        description,
+        brand,
+        images,
+        current_price,
+        original_price,
+        currency,
+        availability_type,
+        metadata,
+        features,
+        external_ids:raw_paapi_response->ItemsResult->Items->0->ItemInfo->ExternalIds,
+        custom_parent_id,
+        last_refresh_at,
+        updated_at
+      `)
+      .eq('marketplace_id', marketplaceId)
+      .eq('status', 'active')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    products.push(...((data || []) as unknown as FeedProductRow[]))
+
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return products
+}, {
+  name: 'product-feed',
+  maxAge: FEED_MAX_AGE,
+  getKey: (marketplaceId: string) => marketplaceId,
+})
@@ -0,0 +1,208 @@
+/**
+ * Health Checks
+ *
+ * Builds the response of GET /api/health, the same HealthCheckResponse the
+ * health Edge Function returns (supabase/functions/_shared/health.ts, which also
+ * reports the PA-API credentials and the breaker metrics of its isolate).
+ *
+ * Overall status:
+ * - healthy: every component is up
+ * - degraded: the database is up but another component is degraded or down
+ * - unhealthy: the database is down
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy'
+
+export interface ComponentHealth {
+  status: 'up' | 'down' | 'degraded'
+  message?: string
+  details?: Record<string, unknown>
+}
+
+export interface HealthCheckResponse {
+  status: HealthStatus
+  timestamp: string
+  components: {
+    database: ComponentHealth
+    paapi: ComponentHealth
+    circuit_breaker: ComponentHealth
+    refresh: ComponentHealth
+  }
+}
+
+/**
+ * Row of the circuit_breakers table
+ */
+export interface CircuitBreakerRow {
+  name: string
+  state: 'closed' | 'open' | 'half-open'
+  forced_open: boolean
+  failure_count: number
+  last_failure_at: string | null
+}
+
+export interface RefreshHealthInput {
+  /** Products waiting for a refresh (including never refreshed ones) */
+  backlogCount: number
+  /** Waiting products that were never refreshed */
+  neverRefreshedCount: number
+  /** Oldest last_refresh_at among waiting products */
+  oldestRefreshAt: string | null
+  /** completed_at of the most recent successful refresh job */
+  lastSuccessAt: string | null
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DATABASE_SLOW_MS = 1000
+
+/** Refresh failure rate (percent, last 24 hours) at which PA-API is degraded */
+export const PAAPI_DEGRADED_FAILURE_RATE = 50
+
+/** Minimum finished refresh jobs before the failure rate is trusted */
+export const PAAPI_MIN_FINISHED_JOBS = 5
+
+/** Hours without a successful refresh, while products wait, before the worker is degraded / down */
+export const REFRESH_DEGRADED_AFTER_HOURS = 1
+export const REFRESH_DOWN_AFTER_HOURS = 6
+
+/** Hours since the oldest waiting product was refreshed before the backlog is degraded */
+export const BACKLOG_DEGRADED_AFTER_HOURS = 48
+
+const HOUR_MS = 60 * 60 * 1000
+
+const hoursSince = (timestamp: string, now: Date) =>
+  Math.round(((now.getTime() - new Date(timestamp).getTime()) / HOUR_MS) * 10) / 10
+
+// ============================================================================
+// COMPONENT CHECKS
+// ============================================================================
+
+export function checkDatabase(latencyMs: number, error?: string): ComponentHealth {
+  if (error) {
+    return { status: 'down', message: error, details: { latency_ms: latencyMs } }
+  }
+
+  if (latencyMs > DATABASE_SLOW_MS) {
+    return { status: 'degraded', message: `Database responded in ${latencyMs}ms`, details: { latency_ms: latencyMs } }
+  }
+
+  return { status: 'up', details: { latency_ms: latencyMs } }
+}
+
+/**
+ * Check the shared PA-API circuit breaker (a missing row means it never tripped)
+ */
+export function checkCircuitBreaker(row: CircuitBreakerRow | null): ComponentHealth {
+  if (!row) {
+    return { status: 'up', details: { state: 'closed' } }
+  }
+
+  const details = {
+    name: row.name,
+    state: row.state,
+    forced_open: row.forced_open,
+    failure_count: row.failure_count,
+    last_failure_at: row.last_failure_at,
+  }
+
+  if (row.forced_open) {
+    return { status: 'down', message: 'Forced open by an admin', details }
+  }
+
+  if (row.state === 'open') {
+    return { status: 'down', message: 'Circuit is open after repeated PA-API failures', details }
+  }
+
+  if (row.state === 'half-open') {
+    return { status: 'degraded', message: 'Circuit is testing whether PA-API has recovered', details }
+  }
+
+  return { status: 'up', details }
+}
+
+/**
+ * Check PA-API from the refresh jobs of the last 24 hours
+ */
+export function checkPaapi(jobs: { success: number, failed: number }): ComponentHealth {
+  const finished = jobs.success + jobs.failed
+  const failureRate = finished > 0 ? Math.round((jobs.failed / finished) * 1000) / 10 : null
+  const details = { jobs_24h: jobs, failure_rate: failureRate }
+
+  if (failureRate !== null && finished >= PAAPI_MIN_FINISHED_JOBS && failureRate >= PAAPI_DEGRADED_FAILURE_RATE) {
+    return { status: 'degraded', message: `${failureRate}% of refreshes failed in the last 24 hours`, details }
+  }
+
+  return { status: 'up', details }
+}
+
+/**
+ * Check the refresh backlog and the last successful refresh
+ */
+export function checkRefresh(input: RefreshHealthInput, now: Date): ComponentHealth {
+  const hoursSinceSuccess = input.lastSuccessAt ? hoursSince(input.lastSuccessAt, now) : null
+  const backlogAgeHours = input.oldestRefreshAt ? hoursSince(input.oldestRefreshAt, now) : null
+  const details = {
+    backlog_count: input.backlogCount,
+    never_refreshed_count: input.neverRefreshedCount,
+    backlog_age_hours: backlogAgeHours,
+    last_success_at: input.lastSuccessAt,
+    hours_since_success: hoursSinceSuccess,
+  }
+
+  // Nothing waiting: an idle worker is fine
+  if (input.backlogCount === 0) {
+    return { status: 'up', details }
+  }
+
+  if (hoursSinceSuccess === null || hoursSinceSuccess >= REFRESH_DOWN_AFTER_HOURS) {
+    return {
+      status: 'down',
+      message: hoursSinceSuccess === null
+        ? 'No successful refresh recorded'
+        : `No successful refresh for ${hoursSinceSuccess} hours`,
+      details,
+    }
+  }
+
+  if (hoursSinceSuccess >= REFRESH_DEGRADED_AFTER_HOURS) {
+    return { status: 'degraded', message: `No successful refresh for ${hoursSinceSuccess} hours`, details }
+  }
+
+  if (backlogAgeHours !== null && backlogAgeHours >= BACKLOG_DEGRADED_AFTER_HOURS) {
+    return { status: 'degraded', message: `Oldest waiting product was refreshed ${backlogAgeHours} hours ago`, details }
+  }
+
+  return { status: 'up', details }
+}
+
+// ============================================================================
+// ROLL-UP
+// ============================================================================
+
+export function rollUpHealth(components: HealthCheckResponse['components'], now: Date): HealthCheckResponse {
+  let status: HealthStatus = 'healthy'
+
+  if (components.database.status === 'down') {
+    status = 'unhealthy'
+  } else if (Object.values(components).some(component => component.status !== 'up')) {
+    status = 'degraded'
+  }
+
+  return { status, timestamp: now.toISOString(), components }
+}
+
+/**
+ * 503 only when unhealthy, so monitors alert on outages but not on a degraded PA-API
+ */
+export function healthStatusCode(status: HealthStatus): number {
+  return status === 'unhealthy' ? 503 : 200
+}
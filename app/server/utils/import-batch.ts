@@ -0,0 +1,323 @@
+/**
+ * Bulk ASIN Import
+ *
+ * Parses the body of POST /api/admin/imports into the rows of an import batch.
+ * Input is either a plain list of ASINs (one marketplace for all of them) or a
+ * CSV with the columns `asin, marketplace, product_type, group_slug` (header
+ * optional; empty marketplace falls back to the request's marketplace).
+ *
+ * Lines that can't be imported as asked (unknown marketplace or product type)
+ * reject the whole request with per-line errors so the admin can fix the input.
+ * Malformed ASINs and repeats within the input are kept as settled rows
+ * (`invalid_asin` / `duplicate`) so every submitted line shows up in the batch.
+ * The rows are imported by the import-batch Edge Function.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { isProductType, PRODUCT_TYPES, type ProductType } from '../../shared/metadata-filters'
+import { CORRELATION_ID_HEADER } from './request-log'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImportSource = 'list' | 'csv'
+
+export type ImportRowStatus = 'pending' | 'imported' | 'duplicate' | 'not_accessible' | 'invalid_asin' | 'failed'
+
+/**
+ * One parsed line of the input
+ */
+export interface ParsedImportRow {
+  row_number: number
+  line: number
+  asin: string
+  marketplace: string
+  product_type: ProductType | null
+  group_slug: string | null
+  status: Extract<ImportRowStatus, 'pending' | 'invalid_asin' | 'duplicate'>
+  error_message: string | null
+}
+
+/**
+ * Problem with one line of the input
+ */
+export interface ImportLineError {
+  line: number
+  message: string
+}
+
+export type ImportParseResult =
+  | { ok: true, source: ImportSource, rows: ParsedImportRow[] }
+  | { ok: false, errors: ImportLineError[] }
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Maximum lines per batch (10 worker runs of 100 rows)
+ */
+export const MAX_IMPORT_ROWS = 1000
+
+export const IMPORT_ROW_STATUSES: readonly ImportRowStatus[] = [
+  'pending', 'imported', 'duplicate', 'not_accessible', 'invalid_asin', 'failed',
+]
+
+/**
+ * CSV columns in positional order (used when the CSV has no header)
+ */
+const CSV_COLUMNS = ['asin', 'marketplace', 'product_type', 'group_slug'] as const
+
+type CsvColumn = typeof CSV_COLUMNS[number]
+
+const CSV_HEADER_ALIASES: Record<string, CsvColumn> = {
+  asin: 'asin',
+  marketplace: 'marketplace',
+  product_type: 'product_type',
+  type: 'product_type',
+  group_slug: 'group_slug',
+  group: 'group_slug',
+}
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV text into lines of trimmed cells
+ *
+ * Supports quoted cells with embedded commas, newlines and doubled quotes.
+ * Returns the 1-based line each record starts on; blank lines are dropped.
+ */
+export function parseCsv(text: string): Array<{ line: number, cells: string[] }> {
+  const records: Array<{ line: number, cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    cells.push(cell.trim())
+    if (cells.some(value => value !== '')) {
+      records.push({ line: recordLine, cells })
+    }
+    cells = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      cells.push(cell.trim())
+      cell = ''
+    } else if (char === '\n') {
+      endRecord()
+      line++
+      recordLine = line
+    } else if (char !== '\r') {
+      cell += char
+    }
+  }
+
+  endRecord()
+  return records
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Normalize an ASIN as typed or pasted (trimmed, uppercase)
+ */
+export function normalizeAsin(value: string): string {
+  return value.trim().toUpperCase()
+}
+
+/**
+ * Map the CSV header to column names, or null when the first line is data
+ */
+function readCsvHeader(cells: string[]): Array<CsvColumn | null> | null {
+  const columns = cells.map(cell => CSV_HEADER_ALIASES[cell.toLowerCase()] ?? null)
+  return columns.includes('asin') ? columns : null
+}
+
+/**
+ * Turn the raw lines into batch rows, validating marketplaces and product types
+ */
+function buildRows(
+  lines: Array<{ line: number, values: Partial<Record<CsvColumn, string>> }>,
+  defaultMarketplace: string | null,
+  marketplaces: readonly string[],
+): ImportParseResult {
+  const errors: ImportLineError[] = []
+  const rows: ParsedImportRow[] = []
+  const firstRowByKey = new Map<string, number>()
+
+  if (lines.length === 0) {
+    return { ok: false, errors: [{ line: 0, message: 'No ASINs to import' }] }
+  }
+
+  if (lines.length > MAX_IMPORT_ROWS) {
+    return { ok: false, errors: [{ line: 0, message: `At most ${MAX_IMPORT_ROWS} ASINs can be imported at once` }] }
+  }
+
+  for (const { line, values } of lines) {
+    const marketplace = (values.marketplace || defaultMarketplace || '').trim().toUpperCase()
+    const productType = values.product_type?.trim() || null
+    const groupSlug = values.group_slug?.trim().toLowerCase() || null
+
+    if (!marketplace) {
+      errors.push({ line, message: 'Marketplace is required' })
+    } else if (!marketplaces.includes(marketplace)) {
+      errors.push({ line, message: `Marketplace must be one of: ${marketplaces.join(', ')}` })
+    }
+
+    if (productType !== null && !isProductType(productType)) {
+      errors.push({ line, message: `Product type must be one of: ${PRODUCT_TYPES.join(', ')}` })
+    }
+
+    const asin = normalizeAsin(values.asin || '')
+    const row: ParsedImportRow = {
+      row_number: rows.length + 1,
+      line,
+      asin,
+      marketplace,
+      product_type: isProductType(productType) ? productType : null,
+      group_slug: groupSlug,
+      status: 'pending',
+      error_message: null,
+    }
+
+    const key = `${marketplace}:${asin}`
+    const firstRow = firstRowByKey.get(key)
+
+    if (!ASIN_PATTERN.test(asin)) {
+      row.status = 'invalid_asin'
+      row.error_message = 'ASIN must be 10 letters or digits'
+    } else if (firstRow !== undefined) {
+      row.status = 'duplicate'
+      row.error_message = `Same ASIN as row ${firstRow}`
+    } else {
+      firstRowByKey.set(key, row.row_number)
+    }
+
+    rows.push(row)
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, source: 'list', rows }
+}
+
+/**
+ * Parse an import request body
+ *
+ * @param body - `{ asins: string | string[], marketplace }` or `{ csv: string, marketplace? }`
+ * @param marketplaces - Marketplace codes that can be imported into
+ */
+export function parseImportRequest(body: unknown, marketplaces: readonly string[]): ImportParseResult {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  const defaultMarketplace = typeof input.marketplace === 'string' && input.marketplace.trim()
+    ? input.marketplace
+    : null
+
+  if (typeof input.csv === 'string' && input.csv.trim()) {
+    const records = parseCsv(input.csv)
+    const columns = records.length > 0 ? readCsvHeader(records[0]!.cells) : null
+    const dataRecords = columns ? records.slice(1) : records
+
+    const lines = dataRecords.map(({ line, cells }) => {
+      const values: Partial<Record<CsvColumn, string>> = {}
+      cells.forEach((cell, index) => {
+        const column = columns ? columns[index] : CSV_COLUMNS[index]
+        if (column) values[column] = cell
+      })
+      return { line, values }
+    })
+
+    const result = buildRows(lines, defaultMarketplace, marketplaces)
+    return result.ok ? { ...result, source: 'csv' } : result
+  }
+
+  const asins = Array.isArray(input.asins)
+    ? input.asins.filter((asin): asin is string => typeof asin === 'string')
+    : typeof input.asins === 'string' ? input.asins.split('\n') : []
+
+  // One ASIN per line; commas, semicolons and spaces also separate ASINs on a line
+  const lines = asins.flatMap((text, index) =>
+    text.split(/[\s,;]+/).filter(Boolean).map(asin => ({ line: index + 1, values: { asin } })),
+  )
+
+  if (!defaultMarketplace && lines.length > 0) {
+    return { ok: false, errors: [{ line: 0, message: 'Marketplace is required' }] }
+  }
+
+  return buildRows(lines, defaultMarketplace, marketplaces)
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Milliseconds the admin request waits for the import-batch function
+ */
+export const IMPORT_TRIGGER_TIMEOUT = 3000
+
+/**
+ * Start the import-batch Edge Function for a batch
+ *
+ * Waits until the function answered or IMPORT_TRIGGER_TIMEOUT passed: it
+ * imports up to 100 rows per run and keeps running after the wait ends, so a
+ * timeout counts as started. The cron job picks up the rest (and everything
+ * left pending if this call fails). The correlation ID of the admin request,
+ * when given, tags the function's logs for the log viewer.
+ *
+ * @returns Why the function could not be started, or null
+ */
+export async function triggerImportBatch(
+  supabaseUrl: string,
+  serviceKey: string,
+  batchId: string,
+  correlationId?: string,
+  fetchFn: typeof fetch = fetch
+): Promise<string | null> {
+  try {
+    const response = await fetchFn(`${supabaseUrl}/functions/v1/import-batch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${serviceKey}`,
+        ...(correlationId ? { [CORRELATION_ID_HEADER]: correlationId } : {}),
+      },
+      body: JSON.stringify({ batch_id: batchId }),
+      signal: AbortSignal.timeout(IMPORT_TRIGGER_TIMEOUT),
+    })
+
+    await response.body?.cancel()
+    return response.ok ? null : `import-batch responded with HTTP ${response.status}`
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return null
+    }
+
+    return error instanceof Error ? error.message : String(error)
+  }
+}
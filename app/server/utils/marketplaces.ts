@@ -0,0 +1,66 @@
+/**
+ * Active marketplaces, loaded from the `marketplaces` table
+ *
+ * Cached for a few minutes: activating a marketplace or changing its settings
+ * reaches validators and the selector without a deploy.
+ */
+
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import {
+  invalidMarketplaceMessage,
+  MARKETPLACE_COLUMNS,
+  toMarketplace,
+  type Marketplace,
+  type MarketplaceRow,
+} from '#shared/marketplaces'
+
+export const MARKETPLACES_MAX_AGE = 300
+
+/**
+ * Active marketplaces in display order
+ */
+export const getMarketplaces = defineCachedFunction(async (): Promise<Marketplace[]> => {
+  const supabase = createServerSupabaseAdminClient()
+
+  const { data, error } = await supabase
+    .from('marketplaces')
+    .select(MARKETPLACE_COLUMNS)
+    .eq('is_active', true)
+    .order('sort_order', { ascending: true })
+    .order('code', { ascending: true })
+
+  if (error) {
+    throw error
+  }
+
+  return ((data || []) as MarketplaceRow[]).map(toMarketplace)
+}, {
+  name: 'marketplaces',
+  maxAge: MARKETPLACES_MAX_AGE,
+  getKey: () => 'active',
+})
+
+export async function getMarketplaceCodes(): Promise<string[]> {
+  return (await getMarketplaces()).map(marketplace => marketplace.code)
+}
+
+/**
+ * Resolve a marketplace code from a request
+ *
+ * @throws 400 if the code isn't one of the active marketplaces
+ */
+export async function requireMarketplace(code: unknown): Promise<Marketplace> {
+  const marketplaces = await getMarketplaces()
+  const marketplace = typeof code === 'string'
+    ? marketplaces.find(marketplace => marketplace.code === code)
+    : undefined
+
+  if (!marketplace) {
+    throw createError({
+      statusCode: 400,
+      message: invalidMarketplaceMessage(marketplaces.map(marketplace => marketplace.code)),
+    })
+  }
+
+  return marketplace
+}
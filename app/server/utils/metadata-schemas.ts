@@ -8,6 +8,7 @@
  * Architecture:
  * - Dual-structure metadata: display (UI) + filters (queries)
  * - 6 product types with type-specific schemas
+ * - Schemas generated from the shared filter registry (shared/metadata-filters.ts)
  * - Strict validation with no additional properties
  * - Type-safe enums and ranges
  * 
@@ -20,22 +21,28 @@
  * ```
  */
 
-import Ajv, { type JSONSchemaType } from "ajv";
+import Ajv, { type ErrorObject, type ValidateFunction } from "ajv";
+import {
+  PRODUCT_TYPE_DEFINITIONS,
+  type MetadataFilterField,
+  type ProductType,
+  type ProductTypeDefinition,
+} from "../../shared/metadata-filters";
+
+export type { ProductType };
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 /**
- * Product type enum - defines the 6 supported product categories
+ * A validation error tied to a metadata field
+ * path: dot-separated location, e.g. "filters.chip" or "display.product_type"
  */
-export type ProductType =
-  | "development_board"
-  | "sensor"
-  | "display"
-  | "power"
-  | "communication"
-  | "accessory";
+export interface MetadataFieldError {
+  path: string;
+  message: string;
+}
 
 /**
  * Validation result returned by validateMetadata()
@@ -43,6 +50,7 @@ export type ProductType =
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
+  fieldErrors: MetadataFieldError[];
 }
 
 /**
@@ -61,431 +69,65 @@ export interface ProductMetadata {
 // ============================================================================
 
 /**
- * Schema for Development Board metadata
- * Required: product_type, chip
- * Optional: psram, flash, wifi, bluetooth, etc.
+ * JSON Schema for a single filter field
  */
-const developmentBoardSchema = {
-  type: "object",
-  required: ["display", "filters"],
-  properties: {
-    display: {
-      type: "object",
-      required: ["product_type", "chip"],
-      properties: {
-        product_type: { type: "string" },
-        chip: { type: "string" },
-        psram: { type: "string" },
-        flash: { type: "string" },
-        wifi: { type: "string" },
-        bluetooth: { type: "string" },
-        zigbee: { type: "string" },
-        thread: { type: "string" },
-        battery_connector: { type: "string" },
-        camera_connector: { type: "string" },
-        lcd_connector: { type: "string" },
-        usb: { type: "string" },
-        gpio: { type: "string" },
-        form_factor: { type: "string" },
-        operating_voltage: { type: "string" },
-      },
-      additionalProperties: false,
-    },
-    filters: {
-      type: "object",
-      required: ["product_type", "chip"],
-      properties: {
-        product_type: { type: "string", const: "development_board" },
-        chip: {
-          type: "string",
-          enum: ["ESP32", "ESP32-S2", "ESP32-S3", "ESP32-C3", "ESP32-C6", "ESP32-H2"],
-        },
-        chip_series: {
-          type: "string",
-          enum: ["ESP32", "ESP32-S", "ESP32-C", "ESP32-H"],
-        },
-        psram_mb: { type: "number", minimum: 0 },
-        flash_mb: { type: "number", minimum: 0 },
-        wifi_standards: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["802.11b", "802.11g", "802.11n", "802.11ac", "802.11ax"],
-          },
-        },
-        wifi_generation: { type: "number", minimum: 4, maximum: 6 },
-        bluetooth_version: { type: "number" },
-        has_ble: { type: "boolean" },
-        has_zigbee: { type: "boolean" },
-        has_thread: { type: "boolean" },
-        has_battery_connector: { type: "boolean" },
-        has_camera_connector: { type: "boolean" },
-        has_lcd_connector: { type: "boolean" },
-        usb_type: {
-          type: "string",
-          enum: ["micro-usb", "usb-c", "usb-a", "none"],
-        },
-        gpio_pins: { type: "number", minimum: 0, maximum: 100 },
-        form_factor: {
-          type: "string",
-          enum: ["devkit", "mini", "pico", "wrover", "wroom"],
-        },
-        operating_voltage_v: { type: "number" },
-      },
-      additionalProperties: false,
-    },
-  },
-  additionalProperties: false,
-};
+function buildFieldSchema(field: MetadataFilterField): Record<string, unknown> {
+  const allowed = field.options?.map((option) => option.value);
 
-/**
- * Schema for Sensor Module metadata
- * Required: product_type, sensor_types (array, min 1 item)
- * Optional: temperature/humidity/pressure ranges, interfaces, etc.
- */
-const sensorSchema = {
-  type: "object",
-  required: ["display", "filters"],
-  properties: {
-    display: {
-      type: "object",
-      required: ["product_type", "sensors"],
-      properties: {
-        product_type: { type: "string" },
-        sensors: { type: "string" },
-        temperature_range: { type: "string" },
-        humidity_range: { type: "string" },
-        pressure_range: { type: "string" },
-        interfaces: { type: "string" },
-        operating_voltage: { type: "string" },
-        accuracy: { type: "string" },
-        response_time: { type: "string" },
-      },
-      additionalProperties: false,
-    },
-    filters: {
-      type: "object",
-      required: ["product_type", "sensor_types"],
-      properties: {
-        product_type: { type: "string", const: "sensor" },
-        sensor_types: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: [
-              "temperature",
-              "humidity",
-              "pressure",
-              "gas",
-              "light",
-              "motion",
-              "proximity",
-              "accelerometer",
-              "gyroscope",
-              "magnetometer",
-              "sound",
-              "distance",
-              "color",
-              "uv",
-              "co2",
-              "particulate",
-            ],
-          },
-          minItems: 1,
-        },
-        temperature_range_min_c: { type: "number" },
-        temperature_range_max_c: { type: "number" },
-        humidity_range_min_pct: { type: "number", minimum: 0, maximum: 100 },
-        humidity_range_max_pct: { type: "number", minimum: 0, maximum: 100 },
-        pressure_range_min_hpa: { type: "number" },
-        pressure_range_max_hpa: { type: "number" },
-        interfaces: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["i2c", "spi", "uart", "analog", "digital"],
-          },
-        },
-        operating_voltage_v: { type: "number" },
-        voltage_range_min_v: { type: "number" },
-        voltage_range_max_v: { type: "number" },
-        accuracy_percent: { type: "number" },
-        accuracy_degrees_c: { type: "number" },
-        response_time_ms: { type: "number", minimum: 0 },
-      },
-      additionalProperties: false,
-    },
-  },
-  additionalProperties: false,
-};
-
-/**
- * Schema for Display Module metadata
- * Required: product_type, display_type
- * Optional: screen_size, resolution, color_depth, touchscreen, etc.
- */
-const displaySchema = {
-  type: "object",
-  required: ["display", "filters"],
-  properties: {
-    display: {
-      type: "object",
-      required: ["product_type", "display_type"],
-      properties: {
-        product_type: { type: "string" },
-        display_type: { type: "string" },
-        screen_size: { type: "string" },
-        resolution: { type: "string" },
-        color_depth: { type: "string" },
-        interfaces: { type: "string" },
-        touchscreen: { type: "string" },
-        backlight: { type: "string" },
-        operating_voltage: { type: "string" },
-      },
-      additionalProperties: false,
-    },
-    filters: {
-      type: "object",
-      required: ["product_type", "display_type"],
-      properties: {
-        product_type: { type: "string", const: "display" },
-        display_type: {
-          type: "string",
-          enum: ["lcd", "oled", "e-ink", "tft", "led-matrix"],
-        },
-        screen_size_inches: { type: "number", minimum: 0 },
-        resolution_width: { type: "number", minimum: 0 },
-        resolution_height: { type: "number", minimum: 0 },
-        resolution_total_pixels: { type: "number", minimum: 0 },
-        color_depth_bits: { type: "number", enum: [1, 16, 18, 24] },
-        is_color: { type: "boolean" },
-        interfaces: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["spi", "i2c", "parallel", "hdmi"],
-          },
-        },
-        has_touchscreen: { type: "boolean" },
-        touchscreen_type: {
-          type: "string",
-          enum: ["resistive", "capacitive", "none"],
-        },
-        has_backlight: { type: "boolean" },
-        operating_voltage_v: { type: "number" },
-        voltage_range_min_v: { type: "number" },
-        voltage_range_max_v: { type: "number" },
-      },
-      additionalProperties: false,
-    },
-  },
-  additionalProperties: false,
-};
+  if (field.type === "string[]") {
+    return {
+      type: "array",
+      items: allowed ? { type: "string", enum: allowed } : { type: "string" },
+      ...(field.minItems !== undefined && { minItems: field.minItems }),
+    };
+  }
 
-/**
- * Schema for Power Module metadata
- * Required: product_type, module_type
- * Optional: voltages, current, efficiency, protection, battery_type, etc.
- */
-const powerSchema = {
-  type: "object",
-  required: ["display", "filters"],
-  properties: {
-    display: {
-      type: "object",
-      required: ["product_type", "module_type"],
-      properties: {
-        product_type: { type: "string" },
-        module_type: { type: "string" },
-        input_voltage: { type: "string" },
-        output_voltage: { type: "string" },
-        output_current: { type: "string" },
-        efficiency: { type: "string" },
-        protection: { type: "string" },
-        battery_type: { type: "string" },
-        capacity: { type: "string" },
-      },
-      additionalProperties: false,
-    },
-    filters: {
-      type: "object",
-      required: ["product_type", "module_type"],
-      properties: {
-        product_type: { type: "string", const: "power" },
-        module_type: {
-          type: "string",
-          enum: ["battery", "charger", "regulator", "converter", "solar-panel"],
-        },
-        input_voltage_min_v: { type: "number" },
-        input_voltage_max_v: { type: "number" },
-        output_voltage_v: { type: "number" },
-        output_current_a: { type: "number" },
-        efficiency_percent: { type: "number", minimum: 0, maximum: 100 },
-        protection_features: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: [
-              "overcurrent",
-              "overvoltage",
-              "reverse-polarity",
-              "short-circuit",
-              "thermal",
-            ],
-          },
-        },
-        battery_type: {
-          type: "string",
-          enum: ["li-ion", "li-po", "nimh", "nicd", "alkaline"],
-        },
-        battery_capacity_mah: { type: "number", minimum: 0 },
-      },
-      additionalProperties: false,
-    },
-  },
-  additionalProperties: false,
-};
+  return {
+    type: field.type,
+    ...(allowed && { enum: allowed }),
+    ...(field.minimum !== undefined && { minimum: field.minimum }),
+    ...(field.maximum !== undefined && { maximum: field.maximum }),
+  };
+}
 
 /**
- * Schema for Communication Module metadata
- * Required: product_type, protocol
- * Optional: frequency, range, data_rate, interfaces, antenna, etc.
+ * JSON Schema for a product type's metadata
+ * display: free-form strings limited to the type's display keys
+ * filters: typed fields from the registry, product_type fixed to the type
  */
-const communicationSchema = {
-  type: "object",
-  required: ["display", "filters"],
-  properties: {
-    display: {
-      type: "object",
-      required: ["product_type", "protocol"],
-      properties: {
-        product_type: { type: "string" },
-        protocol: { type: "string" },
-        frequency: { type: "string" },
-        range: { type: "string" },
-        data_rate: { type: "string" },
-        interfaces: { type: "string" },
-        antenna: { type: "string" },
-        operating_voltage: { type: "string" },
-      },
-      additionalProperties: false,
-    },
-    filters: {
-      type: "object",
-      required: ["product_type", "protocol"],
-      properties: {
-        product_type: { type: "string", const: "communication" },
-        protocol: {
-          type: "string",
-          enum: [
-            "wifi",
-            "bluetooth",
-            "lora",
-            "zigbee",
-            "thread",
-            "cellular",
-            "nfc",
-            "rfid",
-          ],
-        },
-        frequency_mhz: { type: "number" },
-        range_meters: { type: "number", minimum: 0 },
-        data_rate_kbps: { type: "number", minimum: 0 },
-        interfaces: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["spi", "uart", "i2c", "usb"],
-          },
-        },
-        antenna_type: {
-          type: "string",
-          enum: [
-            "internal",
-            "external",
-            "ufl-connector",
-            "sma-connector",
-            "pcb-trace",
-          ],
-        },
-        operating_voltage_v: { type: "number" },
-      },
-      additionalProperties: false,
-    },
-  },
-  additionalProperties: false,
-};
+function buildProductTypeSchema(definition: ProductTypeDefinition) {
+  const filterProperties: Record<string, unknown> = {
+    product_type: { type: "string", const: definition.type },
+  };
+  for (const field of definition.fields) {
+    filterProperties[field.key] = buildFieldSchema(field);
+  }
 
-/**
- * Schema for Accessory metadata
- * Required: product_type, accessory_type
- * Optional: length, connector_type, material, quantity, compatible_with
- */
-const accessorySchema = {
-  type: "object",
-  required: ["display", "filters"],
-  properties: {
-    display: {
-      type: "object",
-      required: ["product_type", "accessory_type"],
-      properties: {
-        product_type: { type: "string" },
-        accessory_type: { type: "string" },
-        length: { type: "string" },
-        connector_type: { type: "string" },
-        material: { type: "string" },
-        quantity: { type: "string" },
-        compatible_with: { type: "string" },
+  return {
+    type: "object",
+    required: ["display", "filters"],
+    properties: {
+      display: {
+        type: "object",
+        required: [...definition.requiredDisplayKeys],
+        properties: Object.fromEntries(
+          definition.displayKeys.map((key) => [key, { type: "string" }])
+        ),
+        additionalProperties: false,
       },
-      additionalProperties: false,
-    },
-    filters: {
-      type: "object",
-      required: ["product_type", "accessory_type"],
-      properties: {
-        product_type: { type: "string", const: "accessory" },
-        accessory_type: {
-          type: "string",
-          enum: [
-            "cable",
-            "adapter",
-            "case",
-            "antenna",
-            "breadboard",
-            "jumper-wires",
-            "tools",
-            "kit",
-          ],
-        },
-        length_cm: { type: "number", minimum: 0 },
-        connector_types: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: [
-              "usb-c",
-              "usb-a",
-              "micro-usb",
-              "male-male",
-              "female-female",
-              "male-female",
-            ],
-          },
-        },
-        quantity: { type: "number", minimum: 1 },
-        compatible_with: {
-          type: "array",
-          items: {
-            type: "string",
-            enum: ["ESP32", "ESP32-S2", "ESP32-S3", "ESP32-C3", "ESP32-C6", "ESP32-H2"],
-          },
-        },
+      filters: {
+        type: "object",
+        required: [
+          "product_type",
+          ...definition.fields.filter((field) => field.required).map((field) => field.key),
+        ],
+        properties: filterProperties,
+        additionalProperties: false,
       },
-      additionalProperties: false,
     },
-  },
-  additionalProperties: false,
-};
+    additionalProperties: false,
+  };
+}
 
 // ============================================================================
 // SCHEMA REGISTRY
@@ -495,19 +137,41 @@ const accessorySchema = {
  * Registry of all metadata schemas by product type
  * Used by validateMetadata() to select the appropriate schema
  */
-export const metadataSchemas: Record<ProductType, any> = {
-  development_board: developmentBoardSchema,
-  sensor: sensorSchema,
-  display: displaySchema,
-  power: powerSchema,
-  communication: communicationSchema,
-  accessory: accessorySchema,
-};
+export const metadataSchemas: Record<ProductType, any> = Object.fromEntries(
+  Object.values(PRODUCT_TYPE_DEFINITIONS).map((definition) => [
+    definition.type,
+    buildProductTypeSchema(definition),
+  ])
+) as Record<ProductType, any>;
 
 // ============================================================================
 // VALIDATION FUNCTION
 // ============================================================================
 
+// Configure Ajv with strict validation
+// - allErrors: collect all errors, not just the first one
+// - strict: false - allow JSON Schema draft-07 features
+// - strictSchema: false - don't validate schema itself strictly
+const ajv = new Ajv({
+  allErrors: true,
+  strict: false,
+  strictSchema: false,
+  // Don't remove additional properties, just report errors
+  removeAdditional: false,
+});
+
+// Compiled validators, one per product type (compiled on first use)
+const validators = new Map<ProductType, ValidateFunction>();
+
+function getValidator(productType: ProductType): ValidateFunction {
+  let validate = validators.get(productType);
+  if (!validate) {
+    validate = ajv.compile(metadataSchemas[productType]);
+    validators.set(productType, validate);
+  }
+  return validate;
+}
+
 /**
  * Validate product metadata against product-type-specific JSON Schema
  * 
@@ -518,7 +182,7 @@ export const metadataSchemas: Record<ProductType, any> = {
  * 4. Validate metadata against product-type-specific schema using Ajv
  * 
  * @param metadata - Metadata object to validate
- * @returns ValidationResult with valid flag and error messages
+ * @returns ValidationResult with valid flag, error messages and per-field errors
  * 
  * @example
  * ```typescript
@@ -528,67 +192,83 @@ export const metadataSchemas: Record<ProductType, any> = {
  * });
  * 
  * if (!result.valid) {
- *   console.error("Validation errors:", result.errors);
+ *   console.error("Validation errors:", result.fieldErrors);
+ *   // [{ path: "filters.chip", message: "must be one of: ESP32, ESP32-S2, ..." }]
  * }
  * ```
  */
 export function validateMetadata(metadata: unknown): ValidationResult {
   // Step 1: Check metadata is an object
   if (!metadata || typeof metadata !== "object") {
-    return {
-      valid: false,
-      errors: ['Metadata must be an object with "display" and "filters" properties'],
-    };
+    return invalid(
+      { path: "metadata", message: 'must be an object with "display" and "filters" properties' },
+      'Metadata must be an object with "display" and "filters" properties'
+    );
   }
 
   const metadataObj = metadata as any;
 
   // Step 2: Check for required display and filters properties
   if (!metadataObj.filters || !metadataObj.display) {
-    return {
-      valid: false,
-      errors: ['Metadata must have both "display" and "filters" properties'],
-    };
+    return invalid(
+      { path: metadataObj.filters ? "display" : "filters", message: "is required" },
+      'Metadata must have both "display" and "filters" properties'
+    );
   }
 
   // Step 3: Extract and validate product_type
   const productType = metadataObj.filters?.product_type;
-
   if (!productType || !(productType in metadataSchemas)) {
-    return {
-      valid: false,
-      errors: [
-        `Invalid or missing filters.product_type. Must be one of: ${Object.keys(metadataSchemas).join(", ")}`,
-      ],
-    };
+    const allowed = Object.keys(metadataSchemas).join(", ");
+    return invalid(
+      { path: "filters.product_type", message: `must be one of: ${allowed}` },
+      `Invalid or missing filters.product_type. Must be one of: ${allowed}`
+    );
   }
 
   // Step 4: Validate against product-type-specific schema
-  const schema = metadataSchemas[productType as ProductType];
-  // Configure Ajv with strict validation
-  // - allErrors: collect all errors, not just the first one
-  // - strict: false - allow JSON Schema draft-07 features
-  // - strictSchema: false - don't validate schema itself strictly
-  const ajv = new Ajv({ 
-    allErrors: true, 
-    strict: false, 
-    strictSchema: false,
-    // Don't remove additional properties, just report errors
-    removeAdditional: false
-  });
-  const validate = ajv.compile(schema);
+  const validate = getValidator(productType as ProductType);
   const valid = validate(metadata);
+  const fieldErrors = valid ? [] : (validate.errors || []).map(toFieldError);
 
   return {
     valid,
-    errors: valid
-      ? []
-      : (validate.errors?.map(
-          (e) => `${e.instancePath} ${e.message}${e.params ? `: ${JSON.stringify(e.params)}` : ""}`
-        ) || []),
+    errors: fieldErrors.map(formatFieldError),
+    fieldErrors,
   };
 }
 
+function invalid(fieldError: MetadataFieldError, error: string): ValidationResult {
+  return { valid: false, errors: [error], fieldErrors: [fieldError] };
+}
+
+function formatFieldError(error: MetadataFieldError): string {
+  return `${error.path} ${error.message}`;
+}
+
+/**
+ * Turn an Ajv error into a field path and a readable message
+ * Ajv reports missing and unknown properties on the parent object; the path
+ * points at the property itself so the editor can show it next to the input.
+ */
+function toFieldError(error: ErrorObject): MetadataFieldError {
+  const segments = error.instancePath.split("/").filter(Boolean);
+  const params = error.params as Record<string, any>;
+
+  switch (error.keyword) {
+    case "required":
+      return { path: [...segments, params.missingProperty].join("."), message: "is required" };
+    case "additionalProperties":
+      return { path: [...segments, params.additionalProperty].join("."), message: "is not a known field" };
+    case "enum":
+      return { path: segments.join("."), message: `must be one of: ${params.allowedValues.join(", ")}` };
+    case "const":
+      return { path: segments.join("."), message: `must be ${JSON.stringify(params.allowedValue)}` };
+    default:
+      return { path: segments.join(".") || "metadata", message: error.message || "is invalid" };
+  }
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
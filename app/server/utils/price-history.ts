@@ -0,0 +1,207 @@
+/**
+ * Price History Summaries
+ *
+ * Turns raw `price_history` rows into the chart data served by
+ * GET /api/products/:slug/price-history.
+ *
+ * Rows are written only when price or availability changes, so a price stays in
+ * effect until the next row. Window stats therefore carry forward the last row
+ * recorded before the window started.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Chart windows offered on the product page (in days)
+ */
+export const PRICE_HISTORY_WINDOWS = [30, 90, 365] as const
+
+export type PriceHistoryWindow = typeof PRICE_HISTORY_WINDOWS[number]
+
+/**
+ * Single price_history row as returned by Supabase (DECIMAL columns may be strings)
+ */
+export interface PriceHistoryRow {
+  current_price: number | string | null
+  original_price: number | string | null
+  availability_type: string | null
+  recorded_at: string
+}
+
+/**
+ * Normalized chart point (price is null while the product was unavailable)
+ */
+export interface PriceHistoryPoint {
+  price: number | null
+  original_price: number | null
+  availability_type: string | null
+  recorded_at: string
+}
+
+/**
+ * Min/max/current for one chart window
+ */
+export interface PriceWindowStats {
+  days: PriceHistoryWindow
+  min: number | null
+  max: number | null
+  average: number | null
+  current: number | null
+  samples: number
+  /** Whether history reaches back to the start of the window */
+  covers_window: boolean
+}
+
+/**
+ * How the Amazon "SavingBasis" discount compares to prices we actually observed
+ */
+export interface DiscountInsight {
+  claimed_original_price: number | null
+  highest_observed_price: number | null
+  claimed_savings_percentage: number | null
+  observed_savings_percentage: number | null
+  is_inflated: boolean
+}
+
+export interface PriceHistorySummary {
+  points: PriceHistoryPoint[]
+  windows: PriceWindowStats[]
+  discount: DiscountInsight
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Window used to judge whether a claimed discount is real
+ */
+const DISCOUNT_REFERENCE_WINDOW: PriceHistoryWindow = 90
+
+function toPrice(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : null
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Normalize rows and sort them oldest-first
+ */
+export function toPriceHistoryPoints(rows: PriceHistoryRow[]): PriceHistoryPoint[] {
+  return rows
+    .map(row => ({
+      price: toPrice(row.current_price),
+      original_price: toPrice(row.original_price),
+      availability_type: row.availability_type,
+      recorded_at: row.recorded_at,
+    }))
+    .sort((a, b) => Date.parse(a.recorded_at) - Date.parse(b.recorded_at))
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+/**
+ * Compute min/max/average/current for the last `days` days
+ *
+ * @param points - Oldest-first points (see toPriceHistoryPoints)
+ * @param currentPrice - Price currently stored on the product (falls back to the latest point)
+ * @param days - Window size
+ * @param now - Reference time (injectable for tests)
+ */
+export function summarizePriceWindow(
+  points: PriceHistoryPoint[],
+  currentPrice: number | string | null,
+  days: PriceHistoryWindow,
+  now: Date = new Date()
+): PriceWindowStats {
+  const start = now.getTime() - days * DAY_MS
+
+  const inWindow = points.filter(point => Date.parse(point.recorded_at) >= start)
+  const carried = points.filter(point => Date.parse(point.recorded_at) < start).at(-1)
+
+  const prices = [carried, ...inWindow]
+    .map(point => point?.price)
+    .filter((price): price is number => typeof price === 'number')
+
+  const current = toPrice(currentPrice) ?? points.at(-1)?.price ?? null
+  if (current !== null) {
+    prices.push(current)
+  }
+
+  return {
+    days,
+    min: prices.length ? Math.min(...prices) : null,
+    max: prices.length ? Math.max(...prices) : null,
+    average: prices.length ? round(prices.reduce((sum, price) => sum + price, 0) / prices.length) : null,
+    current,
+    samples: inWindow.length,
+    covers_window: carried !== undefined,
+  }
+}
+
+/**
+ * Compare Amazon's claimed original price to the highest price we observed
+ *
+ * A discount is flagged as inflated when the claimed "was" price is higher than
+ * anything the product actually sold for during the reference window. Products
+ * whose history is younger than the window are never flagged.
+ */
+export function analyzeDiscount(
+  reference: PriceWindowStats,
+  originalPrice: number | string | null
+): DiscountInsight {
+  const claimed = toPrice(originalPrice)
+  const current = reference.current
+  const highest = reference.max
+
+  const savings = (basis: number | null): number | null =>
+    basis && current !== null && basis > current ? round(((basis - current) / basis) * 100) : null
+
+  return {
+    claimed_original_price: claimed,
+    highest_observed_price: highest,
+    claimed_savings_percentage: savings(claimed),
+    observed_savings_percentage: savings(highest),
+    is_inflated: reference.covers_window &&
+      claimed !== null && highest !== null && current !== null &&
+      claimed > current && claimed > highest,
+  }
+}
+
+/**
+ * Build the full price history response for a product
+ *
+ * @param rows - price_history rows (any order)
+ * @param product - Current price fields stored on the product
+ * @param now - Reference time (injectable for tests)
+ */
+export function summarizePriceHistory(
+  rows: PriceHistoryRow[],
+  product: { current_price: number | string | null, original_price: number | string | null },
+  now: Date = new Date()
+): PriceHistorySummary {
+  const points = toPriceHistoryPoints(rows)
+  const windows = PRICE_HISTORY_WINDOWS.map(days => summarizePriceWindow(points, product.current_price, days, now))
+  const reference = windows.find(window => window.days === DISCOUNT_REFERENCE_WINDOW)!
+
+  return {
+    points,
+    windows,
+    discount: analyzeDiscount(reference, product.original_price),
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Product Feeds
+ *
+ * GET /feeds/:marketplace.:format syndicates a marketplace's active products to
+ * partner sites and comparison engines, as a Google Merchant RSS feed (.xml),
+ * JSON (.json) or CSV (.csv). Every format has the same fields:
+ *
+ *   id              ASIN
+ *   link            the product page in the store
+ *   affiliate_link  the tracked Amazon redirect (GET /go/:slug, placement 'feed')
+ *   availability    from availability_type (in_stock, preorder, backorder, out_of_stock)
+ *   gtin            EAN, UPC or ISBN from PA-API's ItemInfo.ExternalIds
+ *   product_type    label of metadata.filters.product_type
+ *
+ * Products without a price are left out (every format requires one). Feeds
+ * carry an ETag (hash of the body) and Last-Modified (latest product update),
+ * so pollers get a 304 until something changes.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { createHash } from 'node:crypto'
+import { outboundPath, type CampaignParams } from '../../shared/affiliate'
+import { isProductType, PRODUCT_TYPE_DEFINITIONS } from '../../shared/metadata-filters'
+import { absoluteUrl, productPath } from '../../shared/seo'
+import { toCsv } from './click-analytics'
+import { escapeXml, latestDate } from './sitemap'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FeedFormat = 'xml' | 'json' | 'csv'
+
+export type FeedAvailability = 'in_stock' | 'preorder' | 'backorder' | 'out_of_stock'
+
+export type FeedNameResult =
+  | { ok: true; value: { marketplace: string; format: FeedFormat } }
+  | { ok: false; message: string }
+
+interface ImageVariant {
+  url?: string
+}
+
+type ImageSizes = Partial<Record<'small' | 'medium' | 'large' | 'highRes', ImageVariant>>
+
+interface ExternalIdValues {
+  DisplayValues?: unknown[]
+}
+
+/**
+ * Active product, as loaded for the feeds
+ */
+export interface FeedProductRow {
+  id: string
+  asin: string
+  slug: string
+  title: string
+  description: string | null
+  brand: string | null
+  images: { primary?: ImageSizes; variants?: ImageSizes[] } | null
+  current_price: number | null
+  original_price: number | null
+  currency: string | null
+  availability_type: string | null
+  metadata: { filters?: Record<string, unknown> } | null
+  features: string[] | null
+  external_ids: Partial<Record<'EANs' | 'UPCs' | 'ISBNs', ExternalIdValues>> | null
+  custom_parent_id: string | null
+  last_refresh_at: string | null
+  updated_at: string | null
+}
+
+export interface FeedItem {
+  id: string
+  title: string
+  description: string
+  link: string
+  affiliate_link: string
+  image_link: string | null
+  additional_image_links: string[]
+  availability: FeedAvailability
+  price: number
+  sale_price: number | null
+  currency: string
+  brand: string | null
+  gtin: string | null
+  product_type: string | null
+  item_group_id: string | null
+  updated_at: string | null
+}
+
+export interface FeedChannel {
+  marketplace: string
+  title: string
+  link: string
+  description: string
+  updated_at: string | null
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const FEED_FORMATS: readonly FeedFormat[] = ['xml', 'json', 'csv']
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  xml: 'application/xml; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+}
+
+export const FEED_PLACEMENT = 'feed'
+
+export const FEED_CSV_COLUMNS = [
+  'id', 'title', 'description', 'link', 'affiliate_link', 'image_link', 'additional_image_links',
+  'availability', 'price', 'sale_price', 'currency', 'brand', 'gtin', 'product_type', 'item_group_id', 'updated_at',
+] as const
+
+// Google Merchant limits
+const MAX_TITLE_LENGTH = 150
+const MAX_DESCRIPTION_LENGTH = 5000
+const MAX_ADDITIONAL_IMAGES = 10
+
+const AVAILABILITY_TYPES: Record<string, FeedAvailability> = {
+  now: 'in_stock',
+  preorder: 'preorder',
+  backorder: 'backorder',
+}
+
+const GTIN_PATTERN = /^(\d{8}|\d{12,14})$/
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Marketplace and format of a feed file name ("de.csv" -> DE, csv)
+ *
+ * @param marketplaces - Codes of the active marketplaces
+ */
+export function parseFeedName(name: string | undefined, marketplaces: readonly string[]): FeedNameResult {
+  const match = /^([a-z]{2,3})\.([a-z]+)$/i.exec(name || '')
+  const format = match?.[2]?.toLowerCase() as FeedFormat | undefined
+
+  if (!match || !format || !FEED_FORMATS.includes(format)) {
+    return { ok: false, message: `Unknown feed. Use /feeds/<marketplace>.<${FEED_FORMATS.join('|')}>` }
+  }
+
+  const marketplace = marketplaces.find(code => code.toLowerCase() === match[1]!.toLowerCase())
+  if (!marketplace) {
+    return { ok: false, message: `Unknown marketplace. Must be one of: ${marketplaces.map(code => code.toLowerCase()).join(', ')}` }
+  }
+
+  return { ok: true, value: { marketplace, format } }
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Feed availability of a PA-API availability type ('Now', 'PreOrder', ...)
+ *
+ * Products without an offer (no type) count as out of stock.
+ */
+export function feedAvailability(availabilityType: string | null): FeedAvailability {
+  return AVAILABILITY_TYPES[(availabilityType || '').toLowerCase()] || 'out_of_stock'
+}
+
+/**
+ * First valid GTIN of PA-API's ExternalIds (EAN, then UPC, then ISBN)
+ */
+export function feedGtin(externalIds: FeedProductRow['external_ids']): string | null {
+  for (const key of ['EANs', 'UPCs', 'ISBNs'] as const) {
+    for (const value of externalIds?.[key]?.DisplayValues || []) {
+      const gtin = String(value).replace(/[\s-]/g, '')
+      if (GTIN_PATTERN.test(gtin)) return gtin
+    }
+  }
+
+  return null
+}
+
+const largestImage = (sizes: ImageSizes | undefined) =>
+  sizes?.highRes?.url || sizes?.large?.url || sizes?.medium?.url || sizes?.small?.url || null
+
+/**
+ * Largest primary image and up to ten more from the image variants
+ */
+export function feedImages(images: FeedProductRow['images']): { image_link: string | null; additional_image_links: string[] } {
+  const imageLink = largestImage(images?.primary)
+  const additional = (images?.variants || [])
+    .map(largestImage)
+    .filter((url): url is string => !!url && url !== imageLink)
+
+  return {
+    image_link: imageLink,
+    additional_image_links: [...new Set(additional)].slice(0, MAX_ADDITIONAL_IMAGES),
+  }
+}
+
+export function feedProductType(metadata: FeedProductRow['metadata']): string | null {
+  const type = metadata?.filters?.product_type
+  return isProductType(type) ? PRODUCT_TYPE_DEFINITIONS[type].label : null
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 3).trimEnd()}...` : text
+}
+
+/**
+ * Feed items of a marketplace's active products (those with a price)
+ *
+ * Variants share an item_group_id (their parent's ASIN) and inherit the
+ * parent's product type when they have none.
+ *
+ * @param campaign - Campaign parameters of the feed request, passed on to the affiliate links
+ */
+export function toFeedItems(
+  rows: readonly FeedProductRow[],
+  options: { siteUrl: string; campaign?: Partial<CampaignParams> },
+): FeedItem[] {
+  const byId = new Map(rows.map(row => [row.id, row]))
+
+  return rows.flatMap((row) => {
+    if (row.current_price === null || row.current_price === undefined) return []
+
+    const parent = row.custom_parent_id ? byId.get(row.custom_parent_id) : undefined
+    const onSale = row.original_price !== null && row.original_price > row.current_price
+    const description = row.description?.trim() || (row.features || []).join(' ') || row.title
+
+    return [{
+      id: row.asin,
+      title: truncate(row.title, MAX_TITLE_LENGTH),
+      description: truncate(description, MAX_DESCRIPTION_LENGTH),
+      link: absoluteUrl(options.siteUrl, productPath(row.slug)),
+      affiliate_link: absoluteUrl(options.siteUrl, outboundPath(row.slug, FEED_PLACEMENT, options.campaign)),
+      ...feedImages(row.images),
+      availability: feedAvailability(row.availability_type),
+      price: onSale ? row.original_price! : row.current_price,
+      sale_price: onSale ? row.current_price : null,
+      currency: row.currency || 'USD',
+      brand: row.brand,
+      gtin: feedGtin(row.external_ids),
+      product_type: feedProductType(row.metadata) || (parent ? feedProductType(parent.metadata) : null),
+      item_group_id: parent?.asin || null,
+      updated_at: latestDate(row.last_refresh_at, row.updated_at),
+    }]
+  })
+}
+
+/**
+ * Latest product change, for Last-Modified
+ */
+export function feedLastModified(rows: readonly FeedProductRow[]): string | null {
+  return latestDate(...rows.flatMap(row => [row.last_refresh_at, row.updated_at]))
+}
+
+// ============================================================================
+// FORMATS
+// ============================================================================
+
+const formatPrice = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`
+
+/**
+ * Google Merchant Center RSS 2.0 feed
+ */
+export function buildMerchantXml(items: readonly FeedItem[], channel: FeedChannel): string {
+  const element = (name: string, value: string | null) =>
+    value === null ? [] : [`      <g:${name}>${escapeXml(value)}</g:${name}>`]
+
+  const entries = items.map(item => [
+    '    <item>',
+    ...element('id', item.id),
+    ...element('title', item.title),
+    ...element('description', item.description),
+    ...element('link', item.link),
+    ...element('ads_redirect', item.affiliate_link),
+    ...element('image_link', item.image_link),
+    ...item.additional_image_links.flatMap(url => element('additional_image_link', url)),
+    ...element('availability', item.availability),
+    ...element('price', formatPrice(item.price, item.currency)),
+    ...element('sale_price', item.sale_price === null ? null : formatPrice(item.sale_price, item.currency)),
+    ...element('brand', item.brand),
+    ...(item.gtin ? element('gtin', item.gtin) : element('identifier_exists', 'no')),
+    ...element('product_type', item.product_type),
+    ...element('item_group_id', item.item_group_id),
+    ...element('condition', 'new'),
+    '    </item>',
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.link)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
+
+export function buildFeedJson(items: readonly FeedItem[], channel: FeedChannel): string {
+  return JSON.stringify({
+    marketplace: channel.marketplace,
+    title: channel.title,
+    link: channel.link,
+    updated_at: channel.updated_at,
+    count: items.length,
+    items,
+  })
+}
+
+/**
+ * CSV feed (additional image links comma-separated within their cell)
+ */
+export function buildFeedCsv(items: readonly FeedItem[]): string {
+  return toCsv(FEED_CSV_COLUMNS, items.map(item => ({
+    ...item,
+    additional_image_links: item.additional_image_links.join(','),
+  })))
+}
+
+// ============================================================================
+// CONDITIONAL REQUESTS
+// ============================================================================
+
+/**
+ * Strong ETag of a feed body
+ */
+export function feedEtag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('hex')}"`
+}
+
+/**
+ * Whether a conditional request can be answered with 304 Not Modified
+ *
+ * If-None-Match takes precedence over If-Modified-Since (RFC 9110).
+ */
+export function isNotModified(
+  request: { ifNoneMatch?: string | null; ifModifiedSince?: string | null },
+  current: { etag: string; lastModified: string | null },
+): boolean {
+  if (request.ifNoneMatch) {
+    const tags = request.ifNoneMatch.split(',').map(tag => tag.trim().replace(/^W\//, ''))
+    return tags.includes('*') || tags.includes(current.etag)
+  }
+
+  if (request.ifModifiedSince && current.lastModified) {
+    const since = Date.parse(request.ifModifiedSince)
+    // HTTP dates have whole seconds
+    const modified = Math.floor(Date.parse(current.lastModified) / 1000) * 1000
+    return !Number.isNaN(since) && modified <= since
+  }
+
+  return false
+}
@@ -0,0 +1,319 @@
+/**
+ * Product Listing Query
+ *
+ * Parses the query string of GET /api/products into the filters passed to the
+ * search_products / product_filter_facets database functions, plus the sort
+ * and page to request. Query parameter names match the products page URL
+ * (?chip=ESP32-S3&flash=8&camera=true&sort=price_low&page=2).
+ *
+ * Listing rows embed their variants and group (LISTING_PRODUCT_SELECT), so a
+ * page is loaded with one request.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { invalidMarketplaceMessage } from '../../shared/marketplaces'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProductSort = 'newest' | 'price_low' | 'price_high' | 'savings'
+
+/**
+ * Filters understood by the search_products database function
+ */
+export interface ProductListFilters {
+  marketplace_id?: string
+  search?: string
+  type?: string
+  chip?: string
+  wifi?: string
+  bluetooth?: string
+  usb?: string
+  flash?: number
+  psram?: string
+  gpio?: number
+  min_price?: number
+  max_price?: number
+  camera?: boolean
+  display?: boolean
+  battery?: boolean
+  zigbee?: boolean
+  thread?: boolean
+  sdcard?: boolean
+}
+
+export interface ProductListQuery {
+  marketplace: string | null
+  filters: ProductListFilters
+  sort: ProductSort
+  page: number
+  limit: number
+}
+
+export type ProductListQueryResult =
+  | { ok: true, value: ProductListQuery }
+  | { ok: false, message: string }
+
+/**
+ * Product counts per facet value, as returned by product_filter_facets
+ */
+export type ProductFacets = Record<string, Record<string, number>>
+
+export interface ListingVariant {
+  id: string
+  asin: string
+  title: string | null
+  current_price: number | null
+  original_price: number | null
+  savings_amount: number | null
+  savings_percentage: number | null
+  currency: string | null
+  images: unknown
+}
+
+export interface ListingGroup {
+  id: string
+  slug: string
+  title: string
+  description: string | null
+}
+
+/**
+ * search_products row selected with LISTING_PRODUCT_SELECT
+ */
+export interface ListingProductRow {
+  id: string
+  asin: string
+  slug: string
+  title: string | null
+  description: string | null
+  brand: string | null
+  images: unknown
+  detail_page_url: string | null
+  current_price: number | null
+  original_price: number | null
+  savings_amount: number | null
+  savings_percentage: number | null
+  currency: string | null
+  status: string
+  metadata: Record<string, unknown> | null
+  raw_paapi_response: unknown
+  created_at: string
+  group_id: string | null
+  marketplace: { id: string, code: string, region_name: string, currency: string } | null
+  variants: ListingVariant[] | null
+  group: (ListingGroup & { products: { count: number }[] }) | null
+}
+
+/**
+ * Listing product as returned by GET /api/products
+ */
+export type ListingProduct = Omit<ListingProductRow, 'variants' | 'group'> & {
+  variants: ListingVariant[]
+  variant_count: number
+  group: ListingGroup | null
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Column order for each sort option
+ * Products without a price sort last; id breaks ties so pages never overlap.
+ */
+export const PRODUCT_SORTS: Record<ProductSort, { column: string, ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  price_low: { column: 'current_price', ascending: true },
+  price_high: { column: 'current_price', ascending: false },
+  savings: { column: 'savings_percentage', ascending: false },
+}
+
+export const DEFAULT_PAGE_SIZE = 12
+export const MAX_PAGE_SIZE = 100
+
+/**
+ * Columns of a listing row with its active variants (cheapest first, see the
+ * `variants` computed relationship) and its group with the active product count
+ */
+export const LISTING_PRODUCT_SELECT = `
+  id,
+  asin,
+  slug,
+  title,
+  description,
+  brand,
+  images,
+  detail_page_url,
+  current_price,
+  original_price,
+  savings_amount,
+  savings_percentage,
+  currency,
+  status,
+  metadata,
+  raw_paapi_response,
+  created_at,
+  group_id,
+  marketplace:marketplaces!marketplace_id (
+    id,
+    code,
+    region_name,
+    currency
+  ),
+  variants (
+    id,
+    asin,
+    title,
+    current_price,
+    original_price,
+    savings_amount,
+    savings_percentage,
+    currency,
+    images
+  ),
+  group:product_groups!group_id (
+    id,
+    slug,
+    title,
+    description,
+    products!group_id (count)
+  )
+`
+
+const TEXT_FILTERS = ['type', 'chip', 'wifi', 'bluetooth', 'usb'] as const
+const MIN_SIZE_FILTERS = ['flash', 'gpio'] as const
+const FEATURE_FILTERS = ['camera', 'display', 'battery', 'zigbee', 'thread', 'sdcard'] as const
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse and validate the GET /api/products query string
+ *
+ * "all" and empty values mean "no filter", matching the page's select defaults.
+ *
+ * @param marketplaces - Codes of the active marketplaces
+ */
+export function parseProductListQuery(query: Record<string, unknown>, marketplaces: readonly string[]): ProductListQueryResult {
+  const filters: ProductListFilters = {}
+
+  const marketplace = queryValue(query.marketplace)
+  if (marketplace && !marketplaces.includes(marketplace)) {
+    return { ok: false, message: invalidMarketplaceMessage(marketplaces) }
+  }
+
+  const search = queryValue(query.search)
+  if (search) {
+    filters.search = search.slice(0, 200)
+  }
+
+  for (const key of TEXT_FILTERS) {
+    const value = queryValue(query[key])
+    if (value) {
+      filters[key] = value
+    }
+  }
+
+  for (const key of MIN_SIZE_FILTERS) {
+    const value = queryValue(query[key])
+    if (value) {
+      const size = parseInteger(value)
+      if (size === null) {
+        return { ok: false, message: `Invalid ${key}. Must be a whole number` }
+      }
+      filters[key] = size
+    }
+  }
+
+  const psram = queryValue(query.psram)
+  if (psram) {
+    if (psram !== 'none' && parseInteger(psram) === null) {
+      return { ok: false, message: 'Invalid psram. Must be "none" or a whole number' }
+    }
+    filters.psram = psram
+  }
+
+  for (const [param, key] of [['minPrice', 'min_price'], ['maxPrice', 'max_price']] as const) {
+    const value = queryValue(query[param])
+    if (value) {
+      const price = Number(value)
+      if (!Number.isFinite(price) || price < 0) {
+        return { ok: false, message: `Invalid ${param}. Must be a positive number` }
+      }
+      filters[key] = price
+    }
+  }
+
+  for (const key of FEATURE_FILTERS) {
+    const value = queryValue(query[key])
+    if (value === 'true' || value === 'false') {
+      filters[key] = value === 'true'
+    } else if (value) {
+      return { ok: false, message: `Invalid ${key}. Must be "true" or "false"` }
+    }
+  }
+
+  const sort = queryValue(query.sort) || 'newest'
+  if (!(sort in PRODUCT_SORTS)) {
+    return { ok: false, message: `Invalid sort. Must be one of: ${Object.keys(PRODUCT_SORTS).join(', ')}` }
+  }
+
+  const page = parseInteger(queryValue(query.page) || '1')
+  if (page === null || page < 1) {
+    return { ok: false, message: 'Invalid page. Must be a positive whole number' }
+  }
+
+  const limit = parseInteger(queryValue(query.limit) || String(DEFAULT_PAGE_SIZE))
+  if (limit === null || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { ok: false, message: `Invalid limit. Must be between 1 and ${MAX_PAGE_SIZE}` }
+  }
+
+  return {
+    ok: true,
+    value: {
+      marketplace: marketplace || null,
+      filters,
+      sort: sort as ProductSort,
+      page,
+      limit,
+    },
+  }
+}
+
+/**
+ * Single trimmed value of a query parameter ("all" counts as unset)
+ */
+function queryValue(value: unknown): string | null {
+  const first = Array.isArray(value) ? value[0] : value
+  if (first === undefined || first === null) return null
+
+  const text = String(first).trim()
+  return text === '' || text === 'all' ? null : text
+}
+
+function parseInteger(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null
+}
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+/**
+ * Listing product from a row: grouped products count every product of their
+ * group, other products their variants
+ */
+export function toListingProduct(row: ListingProductRow): ListingProduct {
+  const { variants, group, ...product } = row
+
+  return {
+    ...product,
+    variants: variants || [],
+    variant_count: group ? (group.products[0]?.count ?? 0) : (variants?.length || 0),
+    group: group ? { id: group.id, slug: group.slug, title: group.title, description: group.description } : null,
+  }
+}
@@ -0,0 +1,698 @@
+/**
+ * Public API (v1)
+ *
+ * Route definitions, response schemas and serializers of the read-only
+ * /api/v1 surface. Unlike the /api routes behind the store pages, v1 responses
+ * have a fixed, documented shape: rows are serialized field by field (no
+ * raw_paapi_response or internal ids), and new fields are only ever added.
+ *
+ * Each route handler validates its parameters against its entry in
+ * API_V1_ROUTES, and GET /api/v1/openapi.json is generated from the same
+ * entries and API_V1_SCHEMAS, so the spec can't drift from the routes.
+ *
+ * Lists are wrapped as { data: [...], pagination }, single items as { data }.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { outboundPath } from '../../shared/affiliate'
+import { DEFAULT_MARKETPLACE_CODE, type Marketplace } from '../../shared/marketplaces'
+import { isProductType, PRODUCT_TYPES } from '../../shared/metadata-filters'
+import { absoluteUrl, groupPath, productPath } from '../../shared/seo'
+import { feedAvailability, feedImages, type FeedAvailability, type FeedProductRow } from './product-feed'
+import { latestDate } from './sitemap'
+import { MAX_PAGE_SIZE, PRODUCT_SORTS } from './product-listing'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * JSON Schema (OpenAPI 3.1 flavour) of a parameter or response field
+ */
+export interface ApiSchema {
+  type?: string | string[]
+  format?: string
+  description?: string
+  enum?: readonly (string | number | null)[]
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  maxLength?: number
+  default?: string | number | boolean
+  items?: ApiSchema
+  properties?: Record<string, ApiSchema>
+  required?: readonly string[]
+  additionalProperties?: boolean | ApiSchema
+  $ref?: string
+}
+
+export interface ApiParameter {
+  name: string
+  in: 'path' | 'query'
+  description: string
+  required?: boolean
+  schema: ApiSchema & { type: 'string' | 'integer' | 'number' | 'boolean' }
+}
+
+/**
+ * A v1 route: `page` responses are paginated lists, `list` full lists, `item` single objects
+ */
+export interface ApiRoute {
+  path: string
+  operationId: string
+  summary: string
+  description: string
+  tag: string
+  parameters: readonly ApiParameter[]
+  schema: keyof typeof API_V1_SCHEMAS
+  returns: 'page' | 'list' | 'item'
+}
+
+export type ApiParamValues = Record<string, string | number | boolean | undefined>
+
+export type ApiParamsResult =
+  | { ok: true, value: ApiParamValues }
+  | { ok: false, message: string }
+
+export interface ApiPagination {
+  page: number
+  limit: number
+  total: number
+  total_pages: number
+}
+
+/**
+ * Product, as returned by the API
+ */
+export interface ApiProduct {
+  asin: string
+  marketplace: string | null
+  title: string
+  brand: string | null
+  description: string | null
+  product_type: string | null
+  specs: Record<string, string | number | boolean | string[]>
+  price: number | null
+  original_price: number | null
+  savings_percentage: number | null
+  currency: string
+  availability: FeedAvailability
+  image_url: string | null
+  url: string
+  affiliate_url: string
+  parent_asin: string | null
+  group: string | null
+  updated_at: string | null
+}
+
+export interface ApiGroup {
+  slug: string
+  marketplace: string | null
+  title: string
+  description: string | null
+  brand: string | null
+  image_url: string | null
+  url: string
+  product_count: number
+  min_price: number | null
+  max_price: number | null
+  currency: string | null
+  updated_at: string | null
+}
+
+export interface ApiMarketplace {
+  code: string
+  name: string
+  currency: string
+  domain: string
+  locale: string
+}
+
+/**
+ * Product row selected with API_PRODUCT_COLUMNS
+ */
+export interface ApiProductRow {
+  asin: string
+  slug: string
+  title: string
+  brand: string | null
+  description: string | null
+  metadata: { filters?: Record<string, unknown> } | null
+  images: FeedProductRow['images']
+  current_price: number | null
+  original_price: number | null
+  savings_percentage: number | null
+  currency: string | null
+  availability_type: string | null
+  last_refresh_at: string | null
+  updated_at: string | null
+  marketplace: { code: string } | null
+  parent: { asin: string, metadata: ApiProductRow['metadata'] } | null
+  group: { slug: string } | null
+}
+
+/**
+ * Group row selected with API_GROUP_COLUMNS (products: its active products)
+ */
+export interface ApiGroupRow {
+  slug: string
+  title: string
+  description: string | null
+  brand: string | null
+  images: FeedProductRow['images']
+  updated_at: string | null
+  marketplace: { code: string } | null
+  products: Array<{
+    current_price: number | null
+    currency: string | null
+    images: FeedProductRow['images']
+    updated_at: string | null
+  }>
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const API_VERSION = '1.0.0'
+
+/**
+ * Placement of affiliate_url clicks in click analytics
+ */
+export const API_PLACEMENT = 'api'
+
+export const API_DEFAULT_PAGE_SIZE = 25
+
+export const API_PRODUCT_COLUMNS = `
+  asin,
+  slug,
+  title,
+  brand,
+  description,
+  metadata,
+  images,
+  current_price,
+  original_price,
+  savings_percentage,
+  currency,
+  availability_type,
+  last_refresh_at,
+  updated_at,
+  marketplace:marketplaces!marketplace_id (code),
+  parent:products!custom_parent_id (asin, metadata),
+  group:product_groups!group_id (slug)
+`
+
+export const API_GROUP_COLUMNS = `
+  slug,
+  title,
+  description,
+  brand,
+  images,
+  updated_at,
+  marketplace:marketplaces!marketplace_id (code),
+  products!inner (current_price, currency, images, updated_at)
+`
+
+const nullable = (type: string, description: string, extra: ApiSchema = {}): ApiSchema => ({
+  type: [type, 'null'],
+  description,
+  ...extra,
+})
+
+/**
+ * Response schemas, by name (components.schemas of the spec)
+ */
+export const API_V1_SCHEMAS = {
+  Product: {
+    type: 'object',
+    required: [
+      'asin', 'marketplace', 'title', 'brand', 'description', 'product_type', 'specs', 'price', 'original_price',
+      'savings_percentage', 'currency', 'availability', 'image_url', 'url', 'affiliate_url', 'parent_asin', 'group', 'updated_at',
+    ],
+    properties: {
+      asin: { type: 'string', description: 'Amazon Standard Identification Number', pattern: '^[A-Z0-9]{10}$' },
+      marketplace: nullable('string', 'Marketplace code, e.g. "US"'),
+      title: { type: 'string' },
+      brand: nullable('string', 'Brand or manufacturer'),
+      description: nullable('string', 'Product description'),
+      product_type: nullable('string', 'Product type key', { enum: [...PRODUCT_TYPES, null] }),
+      specs: {
+        type: 'object',
+        description: 'Specifications for filtering, e.g. { "chip": "ESP32-S3", "flash_mb": 8 }; keys depend on product_type',
+        additionalProperties: { type: ['string', 'number', 'boolean', 'array'], items: { type: 'string' } },
+      },
+      price: nullable('number', 'Current price'),
+      original_price: nullable('number', 'List price before savings'),
+      savings_percentage: nullable('number', 'Savings against original_price, in percent'),
+      currency: { type: 'string', description: 'ISO 4217 currency code' },
+      availability: { type: 'string', enum: ['in_stock', 'preorder', 'backorder', 'out_of_stock'] },
+      image_url: nullable('string', 'Largest product image', { format: 'uri' }),
+      url: { type: 'string', format: 'uri', description: 'Product page in the store' },
+      affiliate_url: { type: 'string', format: 'uri', description: 'Tracked link to the Amazon listing; use it for "buy" links' },
+      parent_asin: nullable('string', 'ASIN of the parent product, for variants'),
+      group: nullable('string', 'Slug of the product group'),
+      updated_at: nullable('string', 'Latest price refresh or update', { format: 'date-time' }),
+    },
+  },
+  Group: {
+    type: 'object',
+    required: [
+      'slug', 'marketplace', 'title', 'description', 'brand', 'image_url', 'url',
+      'product_count', 'min_price', 'max_price', 'currency', 'updated_at',
+    ],
+    properties: {
+      slug: { type: 'string' },
+      marketplace: nullable('string', 'Marketplace code, e.g. "US"'),
+      title: { type: 'string' },
+      description: nullable('string', 'Group description'),
+      brand: nullable('string', 'Brand or manufacturer'),
+      image_url: nullable('string', 'Group image, else the first product image', { format: 'uri' }),
+      url: { type: 'string', format: 'uri', description: 'Group page in the store' },
+      product_count: { type: 'integer', description: 'Active products in the group' },
+      min_price: nullable('number', 'Lowest current price in the group'),
+      max_price: nullable('number', 'Highest current price in the group'),
+      currency: nullable('string', 'ISO 4217 currency code'),
+      updated_at: nullable('string', 'Latest update of the group or its products', { format: 'date-time' }),
+    },
+  },
+  Marketplace: {
+    type: 'object',
+    required: ['code', 'name', 'currency', 'domain', 'locale'],
+    properties: {
+      code: { type: 'string', description: 'Marketplace code, used in the marketplace parameter' },
+      name: { type: 'string' },
+      currency: { type: 'string', description: 'ISO 4217 currency code' },
+      domain: { type: 'string', description: 'Amazon domain, e.g. "amazon.de"' },
+      locale: { type: 'string', description: 'BCP 47 locale, e.g. "de-DE"' },
+    },
+  },
+  Pagination: {
+    type: 'object',
+    required: ['page', 'limit', 'total', 'total_pages'],
+    properties: {
+      page: { type: 'integer' },
+      limit: { type: 'integer' },
+      total: { type: 'integer', description: 'Items across all pages' },
+      total_pages: { type: 'integer' },
+    },
+  },
+  Error: {
+    type: 'object',
+    required: ['statusCode', 'message'],
+    properties: {
+      statusCode: { type: 'integer' },
+      message: { type: 'string' },
+    },
+  },
+} satisfies Record<string, ApiSchema>
+
+const MARKETPLACE_PARAMETER: ApiParameter = {
+  name: 'marketplace',
+  in: 'query',
+  description: 'Marketplace code (see /marketplaces); all marketplaces when omitted',
+  schema: { type: 'string', pattern: '^[A-Z]{2}$' },
+}
+
+const PAGE_PARAMETERS: readonly ApiParameter[] = [
+  { name: 'page', in: 'query', description: 'Page number', schema: { type: 'integer', minimum: 1, default: 1 } },
+  {
+    name: 'limit',
+    in: 'query',
+    description: 'Items per page',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: API_DEFAULT_PAGE_SIZE },
+  },
+]
+
+/**
+ * Routes of /api/v1, by handler
+ */
+export const API_V1_ROUTES = {
+  listProducts: {
+    path: '/products',
+    operationId: 'listProducts',
+    summary: 'List products',
+    description: 'Active products, without variants (see parent_asin). Filters combine with AND.',
+    tag: 'Products',
+    parameters: [
+      MARKETPLACE_PARAMETER,
+      { name: 'search', in: 'query', description: 'Words in the title, brand or description', schema: { type: 'string', maxLength: 200 } },
+      { name: 'type', in: 'query', description: 'Product type key', schema: { type: 'string', enum: PRODUCT_TYPES } },
+      { name: 'chip', in: 'query', description: 'Chip, e.g. "ESP32-S3"', schema: { type: 'string', maxLength: 50 } },
+      { name: 'min_price', in: 'query', description: 'Lowest current price', schema: { type: 'number', minimum: 0 } },
+      { name: 'max_price', in: 'query', description: 'Highest current price', schema: { type: 'number', minimum: 0 } },
+      {
+        name: 'sort',
+        in: 'query',
+        description: 'Sort order; products without a price come last',
+        schema: { type: 'string', enum: Object.keys(PRODUCT_SORTS), default: 'newest' },
+      },
+      ...PAGE_PARAMETERS,
+    ],
+    schema: 'Product',
+    returns: 'page',
+  },
+  getProduct: {
+    path: '/products/{asin}',
+    operationId: 'getProduct',
+    summary: 'Get a product by ASIN',
+    description: 'An active product or variant listed in the marketplace.',
+    tag: 'Products',
+    parameters: [
+      { name: 'asin', in: 'path', description: 'ASIN', required: true, schema: { type: 'string', pattern: '^[A-Z0-9]{10}$' } },
+      { ...MARKETPLACE_PARAMETER, description: 'Marketplace code (see /marketplaces)', schema: { ...MARKETPLACE_PARAMETER.schema, default: DEFAULT_MARKETPLACE_CODE } },
+    ],
+    schema: 'Product',
+    returns: 'item',
+  },
+  listGroups: {
+    path: '/groups',
+    operationId: 'listGroups',
+    summary: 'List product groups',
+    description: 'Groups with at least one active product, by title.',
+    tag: 'Groups',
+    parameters: [MARKETPLACE_PARAMETER, ...PAGE_PARAMETERS],
+    schema: 'Group',
+    returns: 'page',
+  },
+  listDeals: {
+    path: '/deals',
+    operationId: 'listDeals',
+    summary: 'List deals',
+    description: 'Active products and variants priced below their original price, biggest savings first.',
+    tag: 'Products',
+    parameters: [
+      MARKETPLACE_PARAMETER,
+      {
+        name: 'min_savings',
+        in: 'query',
+        description: 'Lowest savings_percentage',
+        schema: { type: 'integer', minimum: 1, maximum: 99, default: 1 },
+      },
+      ...PAGE_PARAMETERS,
+    ],
+    schema: 'Product',
+    returns: 'page',
+  },
+  listMarketplaces: {
+    path: '/marketplaces',
+    operationId: 'listMarketplaces',
+    summary: 'List marketplaces',
+    description: 'Active marketplaces in display order.',
+    tag: 'Marketplaces',
+    parameters: [],
+    schema: 'Marketplace',
+    returns: 'list',
+  },
+} satisfies Record<string, ApiRoute>
+
+// ============================================================================
+// PARAMETERS
+// ============================================================================
+
+/**
+ * Validate request parameters against a route's definition
+ *
+ * Values are converted to the parameter's type; missing ones take the default.
+ * Parameters the route doesn't define are ignored.
+ *
+ * @param values - Query parameters merged with the route parameters
+ */
+export function parseApiParams(route: ApiRoute, values: Record<string, unknown>): ApiParamsResult {
+  const parsed: ApiParamValues = {}
+
+  for (const { name, required, schema } of route.parameters) {
+    const raw = paramValue(values[name])
+
+    if (raw === null) {
+      if (required) {
+        return { ok: false, message: `Missing ${name}` }
+      }
+      parsed[name] = schema.default
+      continue
+    }
+
+    const value = convertParam(raw, schema)
+    if (value === null) {
+      return { ok: false, message: `Invalid ${name}. ${describeParam(schema)}` }
+    }
+    parsed[name] = value
+  }
+
+  return { ok: true, value: parsed }
+}
+
+function paramValue(value: unknown): string | null {
+  const first = Array.isArray(value) ? value[0] : value
+  if (first === undefined || first === null) return null
+
+  const text = String(first).trim()
+  return text === '' ? null : text
+}
+
+function convertParam(raw: string, schema: ApiParameter['schema']): string | number | boolean | null {
+  if (schema.type === 'boolean') {
+    return raw === 'true' ? true : raw === 'false' ? false : null
+  }
+
+  if (schema.type === 'integer' || schema.type === 'number') {
+    const number = schema.type === 'integer' ? (/^-?\d+$/.test(raw) ? Number(raw) : Number.NaN) : Number(raw)
+
+    if (!Number.isFinite(number)) return null
+    if (schema.minimum !== undefined && number < schema.minimum) return null
+    if (schema.maximum !== undefined && number > schema.maximum) return null
+    return number
+  }
+
+  if (schema.maxLength !== undefined && raw.length > schema.maxLength) return null
+  if (schema.pattern && !new RegExp(schema.pattern).test(raw)) return null
+  if (schema.enum && !schema.enum.includes(raw)) return null
+  return raw
+}
+
+function describeParam(schema: ApiParameter['schema']): string {
+  if (schema.type === 'boolean') {
+    return 'Must be "true" or "false"'
+  }
+
+  if (schema.enum) {
+    return `Must be one of: ${schema.enum.join(', ')}`
+  }
+
+  if (schema.type === 'integer' || schema.type === 'number') {
+    const kind = schema.type === 'integer' ? 'a whole number' : 'a number'
+    if (schema.minimum !== undefined && schema.maximum !== undefined) {
+      return `Must be ${kind} between ${schema.minimum} and ${schema.maximum}`
+    }
+    return schema.minimum !== undefined ? `Must be ${kind} of at least ${schema.minimum}` : `Must be ${kind}`
+  }
+
+  if (schema.pattern) {
+    return `Must match ${schema.pattern}`
+  }
+
+  return `Must be at most ${schema.maxLength} characters`
+}
+
+/**
+ * Row range of a page (for .range()) and the pagination object of the response
+ */
+export function pageRange(page: number, limit: number): { from: number, to: number } {
+  const from = (page - 1) * limit
+  return { from, to: from + limit - 1 }
+}
+
+export function toApiPagination(page: number, limit: number, total: number | null): ApiPagination {
+  return {
+    page,
+    limit,
+    total: total || 0,
+    total_pages: Math.ceil((total || 0) / limit),
+  }
+}
+
+// ============================================================================
+// SERIALIZERS
+// ============================================================================
+
+const SPEC_VALUE_TYPES = ['string', 'number', 'boolean']
+
+function productType(metadata: ApiProductRow['metadata']): string | null {
+  const type = metadata?.filters?.product_type
+  return isProductType(type) ? type : null
+}
+
+function toSpecs(metadata: ApiProductRow['metadata']): ApiProduct['specs'] {
+  const specs: ApiProduct['specs'] = {}
+
+  for (const [key, value] of Object.entries(metadata?.filters || {})) {
+    if (key === 'product_type') continue
+
+    if (SPEC_VALUE_TYPES.includes(typeof value)) {
+      specs[key] = value as string | number | boolean
+    } else if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+      specs[key] = value
+    }
+  }
+
+  return specs
+}
+
+/**
+ * Serialize a product row selected with API_PRODUCT_COLUMNS
+ *
+ * Variants without a product type of their own take their parent's.
+ */
+export function toApiProduct(row: ApiProductRow, siteUrl: string): ApiProduct {
+  return {
+    asin: row.asin,
+    marketplace: row.marketplace?.code || null,
+    title: row.title,
+    brand: row.brand,
+    description: row.description,
+    product_type: productType(row.metadata) || productType(row.parent?.metadata || null),
+    specs: toSpecs(row.metadata),
+    price: row.current_price,
+    original_price: row.original_price,
+    savings_percentage: row.savings_percentage,
+    currency: row.currency || 'USD',
+    availability: feedAvailability(row.availability_type),
+    image_url: feedImages(row.images).image_link,
+    url: absoluteUrl(siteUrl, productPath(row.slug)),
+    affiliate_url: absoluteUrl(siteUrl, outboundPath(row.slug, API_PLACEMENT)),
+    parent_asin: row.parent?.asin || null,
+    group: row.group?.slug || null,
+    updated_at: latestDate(row.last_refresh_at, row.updated_at),
+  }
+}
+
+/**
+ * Serialize a group row selected with API_GROUP_COLUMNS
+ */
+export function toApiGroup(row: ApiGroupRow, siteUrl: string): ApiGroup {
+  const prices = row.products
+    .map(product => product.current_price)
+    .filter((price): price is number => price !== null && price !== undefined)
+
+  return {
+    slug: row.slug,
+    marketplace: row.marketplace?.code || null,
+    title: row.title,
+    description: row.description,
+    brand: row.brand,
+    image_url: feedImages(row.images).image_link
+      || row.products.map(product => feedImages(product.images).image_link).find(Boolean)
+      || null,
+    url: absoluteUrl(siteUrl, groupPath(row.slug)),
+    product_count: row.products.length,
+    min_price: prices.length > 0 ? Math.min(...prices) : null,
+    max_price: prices.length > 0 ? Math.max(...prices) : null,
+    currency: row.products.find(product => product.currency)?.currency || null,
+    updated_at: latestDate(row.updated_at, ...row.products.map(product => product.updated_at)),
+  }
+}
+
+export function toApiMarketplace(marketplace: Marketplace): ApiMarketplace {
+  return {
+    code: marketplace.code,
+    name: marketplace.name,
+    currency: marketplace.currency,
+    domain: marketplace.domain,
+    locale: marketplace.locale,
+  }
+}
+
+// ============================================================================
+// OPENAPI
+// ============================================================================
+
+const schemaRef = (name: string): ApiSchema => ({ $ref: `#/components/schemas/${name}` })
+
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': { description: 'Requests allowed per minute', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current minute', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Seconds until the limit resets', schema: { type: 'integer' } },
+}
+
+function responseSchema(route: ApiRoute): ApiSchema {
+  if (route.returns === 'item') {
+    return { type: 'object', required: ['data'], properties: { data: schemaRef(route.schema) } }
+  }
+
+  const data = { type: 'array', items: schemaRef(route.schema) }
+
+  return route.returns === 'page'
+    ? { type: 'object', required: ['data', 'pagination'], properties: { data, pagination: schemaRef('Pagination') } }
+    : { type: 'object', required: ['data'], properties: { data } }
+}
+
+const errorResponse = (description: string, headers?: Record<string, unknown>) => ({
+  description,
+  ...(headers ? { headers } : {}),
+  content: { 'application/json': { schema: schemaRef('Error') } },
+})
+
+/**
+ * OpenAPI 3.1 document of the v1 routes
+ *
+ * @param siteUrl - Absolute store URL; the server URL is its /api/v1
+ */
+export function buildOpenApiSpec(siteUrl: string, routes: readonly ApiRoute[] = Object.values(API_V1_ROUTES)) {
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const route of routes) {
+    const hasPathParameters = route.parameters.some(parameter => parameter.in === 'path')
+
+    paths[route.path] = {
+      ...paths[route.path],
+      get: {
+        operationId: route.operationId,
+        summary: route.summary,
+        description: route.description,
+        tags: [route.tag],
+        parameters: route.parameters.map(({ name, in: location, description, required, schema }) => ({
+          name,
+          in: location,
+          description,
+          required: location === 'path' || !!required,
+          schema,
+        })),
+        responses: {
+          200: {
+            description: route.summary,
+            headers: RATE_LIMIT_HEADERS,
+            content: { 'application/json': { schema: responseSchema(route) } },
+          },
+          400: errorResponse('Invalid parameter'),
+          401: errorResponse('Missing, invalid or revoked API key'),
+          ...(hasPathParameters ? { 404: errorResponse('Not found') } : {}),
+          429: errorResponse('Rate limit or daily quota exceeded', {
+            ...RATE_LIMIT_HEADERS,
+            'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } },
+          }),
+        },
+      },
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'ESPBoards Store API',
+      version: API_VERSION,
+      description: 'Read-only access to the ESPBoards Store catalog. Send your API key in the X-API-Key header. '
+        + 'Responses of v1 only gain fields; nothing is renamed or removed.',
+    },
+    servers: [{ url: absoluteUrl(siteUrl, '/api/v1') }],
+    security: [{ apiKey: [] }],
+    tags: [...new Set(routes.map(route => route.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+      },
+      schemas: API_V1_SCHEMAS,
+    },
+  }
+}
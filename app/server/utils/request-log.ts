@@ -0,0 +1,165 @@
+/**
+ * Request Logs
+ *
+ * Nuxt server routes log in the same JSON shape as the Edge Functions' Logger
+ * (supabase/functions/_shared/logger.ts) and tag every entry with the request's
+ * correlation ID. The ID comes from the caller's `x-correlation-id` header or is
+ * created by server/middleware/00.correlation-id.ts, is forwarded to Edge
+ * Functions and returned in the response header, so GET /api/admin/logs can
+ * list one request across the Nuxt route and the functions it called.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export interface RequestLogEntry {
+  timestamp: string
+  level: LogLevel
+  message: string
+  source?: string
+  correlation_id?: string
+  metadata?: Record<string, unknown>
+  error?: {
+    name: string
+    message: string
+    stack?: string
+  }
+}
+
+/**
+ * Row of the function_logs table
+ */
+export interface FunctionLogRow {
+  id?: number
+  logged_at: string
+  level: LogLevel
+  message: string
+  source: string | null
+  correlation_id: string | null
+  metadata: Record<string, unknown> | null
+  error: RequestLogEntry['error'] | null
+}
+
+/**
+ * Filters of GET /api/admin/logs
+ */
+export interface LogQuery {
+  correlationId: string | null
+  levels: LogLevel[]
+  source: string | null
+  limit: number
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CORRELATION_ID_HEADER = 'x-correlation-id'
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._-]{8,128}$/
+
+const SOURCE_PATTERN = /^[A-Za-z0-9:/._-]{1,100}$/
+
+const DEFAULT_LOG_LIMIT = 200
+const MAX_LOG_LIMIT = 1000
+
+// ============================================================================
+// CORRELATION
+// ============================================================================
+
+/**
+ * Correlation ID from a request header; null when missing or malformed
+ */
+export function readCorrelationId(value: unknown): string | null {
+  const id = typeof value === 'string' ? value.trim() : ''
+  return CORRELATION_ID_PATTERN.test(id) ? id : null
+}
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+/**
+ * Log entry in the Edge Functions' format
+ */
+export function buildLogEntry(
+  level: LogLevel,
+  message: string,
+  context: { source?: string, correlationId?: string, metadata?: Record<string, unknown>, error?: unknown } = {}
+): RequestLogEntry {
+  const entry: RequestLogEntry = {
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+  }
+
+  if (context.source) {
+    entry.source = context.source
+  }
+
+  if (context.correlationId) {
+    entry.correlation_id = context.correlationId
+  }
+
+  if (context.metadata && Object.keys(context.metadata).length > 0) {
+    entry.metadata = context.metadata
+  }
+
+  if (context.error !== undefined) {
+    const error = context.error as { name?: unknown, message?: unknown, stack?: unknown } | null
+    entry.error = {
+      name: typeof error?.name === 'string' ? error.name : 'Error',
+      message: typeof error?.message === 'string' ? error.message : String(context.error),
+      ...(typeof error?.stack === 'string' ? { stack: error.stack } : {}),
+    }
+  }
+
+  return entry
+}
+
+export function toFunctionLogRow(entry: RequestLogEntry): FunctionLogRow {
+  return {
+    logged_at: entry.timestamp,
+    level: entry.level,
+    message: entry.message,
+    source: entry.source ?? null,
+    correlation_id: entry.correlation_id ?? null,
+    metadata: entry.metadata ?? null,
+    error: entry.error ?? null,
+  }
+}
+
+// ============================================================================
+// LOG VIEWER
+// ============================================================================
+
+/**
+ * Filters of the log viewer
+ *
+ * `level` is the lowest level shown (default: info); a correlation ID shows the
+ * whole request including debug entries unless a level is given.
+ */
+export function parseLogQuery(query: Record<string, unknown>): LogQuery {
+  const correlationId = readCorrelationId(query.correlationId)
+  const minLevel = LOG_LEVELS.includes(query.level as LogLevel)
+    ? query.level as LogLevel
+    : correlationId ? 'debug' : 'info'
+  const source = typeof query.source === 'string' && SOURCE_PATTERN.test(query.source.trim())
+    ? query.source.trim()
+    : null
+  const limit = parseInt(String(query.limit ?? ''), 10)
+
+  return {
+    correlationId,
+    levels: LOG_LEVELS.slice(LOG_LEVELS.indexOf(minLevel)),
+    source,
+    limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), MAX_LOG_LIMIT) : DEFAULT_LOG_LIMIT,
+  }
+}
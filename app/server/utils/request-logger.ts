@@ -0,0 +1,62 @@
+import type { H3Event } from 'h3'
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import {
+  buildLogEntry,
+  CORRELATION_ID_HEADER,
+  toFunctionLogRow,
+  type LogLevel,
+} from '~/server/utils/request-log'
+
+/**
+ * Logger of a Nuxt server request
+ *
+ * Writes JSON lines tagged with the request's correlation ID and route, and
+ * stores warnings and errors in function_logs for the admin log viewer. Await
+ * warn() and error() before responding; storing them never throws.
+ */
+export function useRequestLogger(event: H3Event) {
+  const correlationId: string | undefined = event.context.correlationId
+  const source = `nuxt:${event.path.split('?')[0]}`
+
+  const write = async (level: LogLevel, message: string, metadata?: Record<string, unknown>, error?: unknown) => {
+    const entry = buildLogEntry(level, message, { source, correlationId, metadata, error })
+    const line = JSON.stringify(entry)
+
+    if (level === 'error') {
+      console.error(line)
+    } else {
+      console.log(line)
+    }
+
+    if (level !== 'warn' && level !== 'error') {
+      return
+    }
+
+    try {
+      const { error: insertError } = await createServerSupabaseAdminClient()
+        .from('function_logs')
+        .insert(toFunctionLogRow(entry))
+
+      if (insertError) {
+        console.error('Failed to store log entry:', insertError.message)
+      }
+    } catch (storeError) {
+      console.error('Failed to store log entry:', storeError)
+    }
+  }
+
+  return {
+    correlationId,
+    info: (message: string, metadata?: Record<string, unknown>) => write('info', message, metadata),
+    warn: (message: string, metadata?: Record<string, unknown>) => write('warn', message, metadata),
+    error: (message: string, error?: unknown, metadata?: Record<string, unknown>) => write('error', message, metadata, error),
+  }
+}
+
+/**
+ * Headers passing the request's correlation ID on to an Edge Function
+ */
+export function correlationHeaders(event: H3Event): Record<string, string> {
+  const correlationId: string | undefined = event.context.correlationId
+  return correlationId ? { [CORRELATION_ID_HEADER]: correlationId } : {}
+}
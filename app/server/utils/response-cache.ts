@@ -0,0 +1,201 @@
+/**
+ * Catalog Response Cache
+ *
+ * The public catalog routes (GET /api/products, /api/products/:slug,
+ * /api/deals, /api/groups/:slug) answer every visitor the same way, and their
+ * data only changes when an admin edits products or groups or the refresh
+ * worker updates prices. Their responses are kept in Nitro storage
+ * (`catalog-cache` mount, see server/utils/catalog-cache.ts) with
+ * stale-while-revalidate semantics:
+ *
+ * - fresh (younger than maxAge): served from the cache
+ * - stale (younger than maxAge + staleMaxAge): served from the cache while
+ *   the response is rebuilt in the background
+ * - expired or missing: rebuilt before answering
+ *
+ * Entries are keyed by route and a hash of the query (marketplace, filters,
+ * sort, page) and route parameters. Admin mutations and the refresh worker
+ * (POST /api/cache/invalidate) clear the whole cache.
+ *
+ * Responses carry an ETag (browsers revalidate every time and get a 304) and
+ * Netlify-CDN-Cache-Control, so the CDN serves them for maxAge and then
+ * stale-while-revalidate like the server cache. They are tagged with
+ * CATALOG_CACHE_TAG, and invalidation purges that tag from the CDN through
+ * Netlify's purge API (NETLIFY_PURGE_API_TOKEN and SITE_ID, both set by
+ * Netlify in functions).
+ *
+ * The storage is per server instance: invalidation only clears the instance
+ * that received it. Other instances keep serving their entries, so after a
+ * change a response can be up to maxAge + staleMaxAge (11 minutes) old until
+ * every instance rebuilt it.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { CAMPAIGN_PARAMS } from '../../shared/affiliate'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Cache lifetimes in seconds
+ */
+export interface CachePolicy {
+  maxAge: number
+  staleMaxAge: number
+}
+
+export type CacheState = 'fresh' | 'stale' | 'expired'
+
+/**
+ * Stored response (value is the JSON body)
+ */
+export interface CachedResponse<T = unknown> {
+  value: T
+  etag: string
+  storedAt: number
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CATALOG_CACHE_STORAGE = 'catalog-cache'
+
+export const CATALOG_CACHE_POLICY: CachePolicy = {
+  maxAge: 60,
+  staleMaxAge: 10 * 60,
+}
+
+/**
+ * Netlify cache tag of every catalog response, purged on invalidation
+ */
+export const CATALOG_CACHE_TAG = 'catalog'
+
+export const NETLIFY_PURGE_URL = 'https://api.netlify.com/api/v1/purge'
+
+/**
+ * Response header saying how the response was served (HIT, STALE or MISS)
+ */
+export const CACHE_STATUS_HEADER = 'X-Cache'
+
+// Campaign parameters of shared links never change a catalog response
+const IGNORED_PARAMS: readonly string[] = CAMPAIGN_PARAMS
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Storage key of a route's response for a query
+ *
+ * Parameters are sorted and empty ones dropped, so `?page=1&marketplace=US`
+ * and `?marketplace=US&search=&page=1` share an entry. The query is hashed to
+ * keep keys short and safe as file names (filesystem driver).
+ *
+ * @param route - Route name, e.g. 'products' or 'group'
+ * @param values - Query parameters merged with the route parameters
+ */
+export function catalogCacheKey(route: string, values: Record<string, unknown>): string {
+  const normalized = Object.keys(values)
+    .filter(name => !IGNORED_PARAMS.includes(name))
+    .sort()
+    .flatMap((name) => {
+      const value = values[name]
+      const list = (Array.isArray(value) ? value : [value])
+        .filter(item => item !== undefined && item !== null && String(item).trim() !== '')
+        .map(item => String(item).trim())
+
+      return list.length > 0 ? [`${name}=${list.join(',')}`] : []
+    })
+    .join('&')
+
+  return `${route}:${createHash('sha1').update(normalized).digest('hex').slice(0, 20)}`
+}
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+export function toCachedResponse<T>(value: T, now: number = Date.now()): CachedResponse<T> {
+  return {
+    value,
+    etag: `"${createHash('sha1').update(JSON.stringify(value)).digest('hex')}"`,
+    storedAt: now,
+  }
+}
+
+/**
+ * Whether a stored response can be served as is, served while rebuilt, or must be rebuilt
+ */
+export function cacheState(entry: Pick<CachedResponse, 'storedAt'>, now: number, policy: CachePolicy): CacheState {
+  const age = (now - entry.storedAt) / 1000
+
+  if (age < 0 || age >= policy.maxAge + policy.staleMaxAge) return 'expired'
+  return age < policy.maxAge ? 'fresh' : 'stale'
+}
+
+/**
+ * Caching headers of a catalog response
+ *
+ * Browsers always revalidate (ETag), the Netlify CDN caches like the server
+ * until the catalog tag is purged.
+ */
+export function catalogCacheHeaders(etag: string, policy: CachePolicy): Record<string, string> {
+  return {
+    'Cache-Control': 'public, max-age=0, must-revalidate',
+    'Netlify-CDN-Cache-Control': `public, s-maxage=${policy.maxAge}, stale-while-revalidate=${policy.staleMaxAge}`,
+    'Netlify-Cache-Tag': CATALOG_CACHE_TAG,
+    'ETag': etag,
+  }
+}
+
+// ============================================================================
+// INVALIDATION
+// ============================================================================
+
+/**
+ * Check the bearer token of POST /api/cache/invalidate against CACHE_INVALIDATION_SECRET
+ *
+ * Always false while no secret is configured.
+ */
+export function isValidInvalidationToken(authorization: string | null | undefined, secret: string | undefined): boolean {
+  const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+
+  if (!secret || !token) {
+    return false
+  }
+
+  const expected = createHash('sha256').update(secret).digest()
+  const actual = createHash('sha256').update(token).digest()
+  return timingSafeEqual(expected, actual)
+}
+
+/**
+ * Netlify API request purging the catalog responses from the CDN
+ *
+ * @param env - Environment lookup (process.env in production)
+ * @returns Request options, or null outside Netlify (no token or site ID)
+ */
+export function cdnPurgeRequest(env: (name: string) => string | undefined): { url: string, init: RequestInit } | null {
+  const token = env('NETLIFY_PURGE_API_TOKEN')
+  const siteId = env('SITE_ID')
+
+  if (!token || !siteId) {
+    return null
+  }
+
+  return {
+    url: NETLIFY_PURGE_URL,
+    init: {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ site_id: siteId, cache_tags: [CATALOG_CACHE_TAG] }),
+    },
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Site Search
+ *
+ * Parses the query string of GET /api/search and shapes the rows returned by
+ * the site_search_products / site_search_groups database functions for the
+ * header typeahead.
+ *
+ * The database marks matched words with chr(2) / chr(3) (see
+ * 20251205000001_create_site_search.sql); they are turned into text segments
+ * here so the client never renders product text as HTML.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { invalidMarketplaceMessage } from '../../shared/marketplaces'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SiteSearchQuery {
+  q: string
+  marketplace: string | null
+  limit: number
+}
+
+export type SiteSearchQueryResult =
+  | { ok: true; value: SiteSearchQuery }
+  | { ok: false; message: string }
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+interface ImageVariant {
+  url: string
+}
+
+interface SearchImages {
+  primary?: {
+    small?: ImageVariant
+    medium?: ImageVariant
+    large?: ImageVariant
+  }
+}
+
+/**
+ * Row of the site_search_products database function
+ */
+export interface ProductSearchRow {
+  id: string
+  slug: string
+  title: string
+  brand: string | null
+  images: SearchImages | null
+  current_price: number | null
+  currency: string | null
+  group_slug: string | null
+  group_title: string | null
+  title_highlight: string | null
+  snippet: string | null
+  rank: number
+}
+
+/**
+ * Row of the site_search_groups database function
+ */
+export interface GroupSearchRow {
+  id: string
+  slug: string
+  title: string
+  images: SearchImages | null
+  product_count: number
+  min_price: number | null
+  currency: string | null
+  title_highlight: string | null
+  snippet: string | null
+  rank: number
+}
+
+export interface ProductSearchResult {
+  id: string
+  slug: string
+  title: HighlightSegment[]
+  brand: string | null
+  image: string | null
+  price: number | null
+  currency: string | null
+  group: { slug: string; title: string } | null
+  snippet: HighlightSegment[]
+}
+
+export interface GroupSearchResult {
+  id: string
+  slug: string
+  title: HighlightSegment[]
+  image: string | null
+  productCount: number
+  minPrice: number | null
+  currency: string | null
+  snippet: HighlightSegment[]
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export const MIN_QUERY_LENGTH = 2
+export const MAX_QUERY_LENGTH = 100
+export const DEFAULT_SEARCH_LIMIT = 8
+export const MAX_SEARCH_LIMIT = 20
+
+/**
+ * Parse and validate the GET /api/search query string (?q=esp32s3&marketplace=DE&limit=8)
+ *
+ * @param marketplaces - Codes of the active marketplaces
+ */
+export function parseSiteSearchQuery(query: Record<string, unknown>, marketplaces: readonly string[]): SiteSearchQueryResult {
+  const q = (queryValue(query.q) || '').replace(/\s+/g, ' ')
+  if (q.length < MIN_QUERY_LENGTH) {
+    return { ok: false, message: `Query must be at least ${MIN_QUERY_LENGTH} characters` }
+  }
+
+  const marketplace = queryValue(query.marketplace)
+  if (marketplace && !marketplaces.includes(marketplace)) {
+    return { ok: false, message: invalidMarketplaceMessage(marketplaces) }
+  }
+
+  const limitValue = queryValue(query.limit)
+  const limit = limitValue ? Number(limitValue) : DEFAULT_SEARCH_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    return { ok: false, message: `Invalid limit. Must be between 1 and ${MAX_SEARCH_LIMIT}` }
+  }
+
+  return {
+    ok: true,
+    value: {
+      q: q.slice(0, MAX_QUERY_LENGTH),
+      marketplace,
+      limit,
+    },
+  }
+}
+
+function queryValue(value: unknown): string | null {
+  const first = Array.isArray(value) ? value[0] : value
+  if (first === undefined || first === null) return null
+
+  const text = String(first).trim()
+  return text === '' ? null : text
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+const HIGHLIGHT_START = '\u0002'
+const HIGHLIGHT_STOP = '\u0003'
+
+/**
+ * Split database-highlighted text into plain and matched segments
+ *
+ * Adjacent matches (e.g. "ESP32" and "S3" of "ESP32-S3") stay separate segments.
+ */
+export function toHighlightSegments(text: string | null): HighlightSegment[] {
+  if (!text) return []
+
+  const segments: HighlightSegment[] = []
+  for (const [index, part] of text.split(HIGHLIGHT_START).entries()) {
+    const [matched, rest] = index === 0 ? [null, part] : splitOnce(part, HIGHLIGHT_STOP)
+
+    if (matched) segments.push({ text: matched, match: true })
+    if (rest) segments.push({ text: rest, match: false })
+  }
+
+  return segments
+}
+
+function splitOnce(text: string, separator: string): [string, string] {
+  const position = text.indexOf(separator)
+  return position === -1 ? [text, ''] : [text.slice(0, position), text.slice(position + separator.length)]
+}
+
+/**
+ * Smallest primary image, for the typeahead's thumbnails
+ */
+export function searchThumbnail(images: SearchImages | null): string | null {
+  return images?.primary?.small?.url
+    || images?.primary?.medium?.url
+    || images?.primary?.large?.url
+    || null
+}
+
+export function toProductSearchResult(row: ProductSearchRow): ProductSearchResult {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title_highlight ? toHighlightSegments(row.title_highlight) : [{ text: row.title, match: false }],
+    brand: row.brand,
+    image: searchThumbnail(row.images),
+    price: row.current_price,
+    currency: row.currency,
+    group: row.group_slug && row.group_title ? { slug: row.group_slug, title: row.group_title } : null,
+    snippet: toHighlightSegments(row.snippet),
+  }
+}
+
+export function toGroupSearchResult(row: GroupSearchRow): GroupSearchResult {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title_highlight ? toHighlightSegments(row.title_highlight) : [{ text: row.title, match: false }],
+    image: searchThumbnail(row.images),
+    productCount: Number(row.product_count),
+    minPrice: row.min_price,
+    currency: row.currency,
+    snippet: toHighlightSegments(row.snippet),
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Sitemap data, loaded from the `products` and `product_groups` tables
+ *
+ * Cached for an hour: sitemaps are fetched by crawlers, and prices (lastmod)
+ * change at most once a day with the background refresh.
+ */
+
+import type { H3Event } from 'h3'
+import { createServerSupabaseAdminClient } from '~/server/utils/supabase'
+import type { SitemapGroup, SitemapProduct } from '~/server/utils/sitemap'
+import { resolveSiteUrl } from '#shared/seo'
+
+export const SITEMAP_MAX_AGE = 60 * 60
+
+// Rows per request (PostgREST caps responses at 1000 rows)
+const PAGE_SIZE = 1000
+
+/**
+ * Absolute store URL for sitemap and robots.txt links (SITE_URL, or this request's origin)
+ */
+export function getSiteUrl(event: H3Event): string {
+  const config = useRuntimeConfig(event)
+  return resolveSiteUrl(config.public.siteUrl, getRequestURL(event).origin, config.app.baseURL)
+}
+
+interface SitemapSource {
+  products: SitemapProduct[]
+  groups: SitemapGroup[]
+}
+
+/**
+ * Active products and all groups of every marketplace
+ */
+export const getSitemapSource = defineCachedFunction(async (): Promise<SitemapSource> => {
+  const supabase = createServerSupabaseAdminClient()
+
+  const products: SitemapProduct[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select(`
+        asin,
+        slug,
+        custom_parent_id,
+        group_id,
+        last_refresh_at,
+        updated_at,
+        marketplace:marketplaces!marketplace_id (
+          code
+        )
+      `)
+      .eq('status', 'active')
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    for (const row of data || []) {
+      const marketplace = row.marketplace as unknown as { code: string } | null
+      if (!marketplace) continue
+
+      products.push({
+        asin: row.asin,
+        slug: row.slug,
+        marketplace_code: marketplace.code,
+        custom_parent_id: row.custom_parent_id,
+        group_id: row.group_id,
+        last_refresh_at: row.last_refresh_at,
+        updated_at: row.updated_at,
+      })
+    }
+
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const groups: SitemapGroup[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('product_groups')
+      .select(`
+        id,
+        slug,
+        updated_at,
+        marketplace:marketplaces!marketplace_id (
+          code
+        )
+      `)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    for (const row of data || []) {
+      const marketplace = row.marketplace as unknown as { code: string } | null
+      if (!marketplace) continue
+
+      groups.push({ id: row.id, slug: row.slug, marketplace_code: marketplace.code, updated_at: row.updated_at })
+    }
+
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return { products, groups }
+}, {
+  name: 'sitemap',
+  maxAge: SITEMAP_MAX_AGE,
+  getKey: () => 'all',
+})
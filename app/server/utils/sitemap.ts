@@ -0,0 +1,221 @@
+/**
+ * Sitemaps and robots.txt
+ *
+ * GET /sitemap.xml is a sitemap index pointing to one sitemap for the static
+ * pages (/sitemaps/pages.xml) and one per active marketplace (/sitemaps/us.xml,
+ * /sitemaps/de.xml). Marketplace sitemaps list the canonical product pages
+ * (variants are left out, they are canonical to their group or parent) and
+ * the groups with active products, with hreflang alternates linking the
+ * listings of the same ASIN across marketplaces.
+ *
+ * Kept free of Nitro auto-imports so it can be unit tested in isolation.
+ */
+
+import { absoluteUrl, groupPath, hreflangLinks, productPath, type ProductAlternate } from '../../shared/seo'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SitemapUrl {
+  loc: string
+  lastmod?: string | null
+  alternates?: { hreflang: string; href: string }[]
+}
+
+export interface SitemapIndexEntry {
+  loc: string
+  lastmod?: string | null
+}
+
+/**
+ * Active product, as loaded for the sitemaps
+ */
+export interface SitemapProduct {
+  asin: string
+  slug: string
+  marketplace_code: string
+  custom_parent_id: string | null
+  group_id: string | null
+  last_refresh_at: string | null
+  updated_at: string | null
+}
+
+export interface SitemapGroup {
+  id: string
+  slug: string
+  marketplace_code: string
+  updated_at: string | null
+}
+
+export interface SitemapMarketplace {
+  code: string
+  locale: string
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Static pages worth indexing (admin, alerts and legal pages are left out)
+ */
+export const STATIC_PAGES = ['/', '/products', '/deals', '/categories', '/categories/development-boards', '/about'] as const
+
+export const PAGES_SITEMAP = 'pages'
+
+/**
+ * Paths crawlers should skip: the admin area, the API, the tracked Amazon
+ * redirects and the partner product feeds
+ */
+const DISALLOWED_PATHS = ['/admin', '/api/', '/go/', '/feeds/']
+
+// ============================================================================
+// XML
+// ============================================================================
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+export function buildUrlset(urls: readonly SitemapUrl[]): string {
+  const entries = urls.map((url) => {
+    const lines = [`    <loc>${escapeXml(url.loc)}</loc>`]
+    if (url.lastmod) {
+      lines.push(`    <lastmod>${url.lastmod}</lastmod>`)
+    }
+    for (const alternate of url.alternates || []) {
+      lines.push(`    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}"/>`)
+    }
+    return `  <url>\n${lines.join('\n')}\n  </url>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...entries,
+    '</urlset>',
+    '',
+  ].join('\n')
+}
+
+export function buildSitemapIndex(entries: readonly SitemapIndexEntry[]): string {
+  const sitemaps = entries.map((entry) => {
+    const lastmod = entry.lastmod ? `\n    <lastmod>${entry.lastmod}</lastmod>` : ''
+    return `  <sitemap>\n    <loc>${escapeXml(entry.loc)}</loc>${lastmod}\n  </sitemap>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps,
+    '</sitemapindex>',
+    '',
+  ].join('\n')
+}
+
+export function buildRobotsTxt(siteUrl: string): string {
+  const basePath = new URL(siteUrl).pathname.replace(/\/+$/, '')
+
+  return [
+    'User-agent: *',
+    ...DISALLOWED_PATHS.map(path => `Disallow: ${basePath}${path}`),
+    '',
+    `Sitemap: ${absoluteUrl(siteUrl, '/sitemap.xml')}`,
+    '',
+  ].join('\n')
+}
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+/**
+ * Sitemap file name of a marketplace ("DE" -> "de")
+ */
+export const marketplaceSitemapName = (code: string) => code.toLowerCase()
+
+export function sitemapPath(name: string): string {
+  return `/sitemaps/${name}.xml`
+}
+
+/**
+ * Latest of some timestamps as a W3C date, or null
+ */
+export function latestDate(...values: (string | null | undefined)[]): string | null {
+  const times = values
+    .map(value => value ? Date.parse(value) : NaN)
+    .filter(time => !Number.isNaN(time))
+
+  return times.length > 0 ? new Date(Math.max(...times)).toISOString() : null
+}
+
+export const productLastmod = (product: SitemapProduct) => latestDate(product.last_refresh_at, product.updated_at)
+
+export function staticPageUrls(siteUrl: string): SitemapUrl[] {
+  return STATIC_PAGES.map(path => ({ loc: absoluteUrl(siteUrl, path) }))
+}
+
+/**
+ * Product and group URLs of one marketplace's sitemap
+ *
+ * @param products - Active products of every marketplace (for the hreflang alternates)
+ * @param groups - Groups of every marketplace
+ * @param defaultCode - Marketplace used as x-default
+ */
+export function marketplaceUrls(
+  code: string,
+  products: readonly SitemapProduct[],
+  groups: readonly SitemapGroup[],
+  marketplaces: readonly SitemapMarketplace[],
+  siteUrl: string,
+  defaultCode: string,
+): SitemapUrl[] {
+  const locales = new Map(marketplaces.map(marketplace => [marketplace.code, marketplace.locale]))
+
+  // Canonical listings by ASIN, in active marketplaces only
+  const listingsByAsin = new Map<string, ProductAlternate[]>()
+  for (const product of products) {
+    const locale = locales.get(product.marketplace_code)
+    if (product.custom_parent_id || !locale) continue
+
+    const listings = listingsByAsin.get(product.asin) || []
+    listings.push({ marketplace_code: product.marketplace_code, locale, slug: product.slug })
+    listingsByAsin.set(product.asin, listings)
+  }
+
+  const productUrls = products
+    .filter(product => product.marketplace_code === code && !product.custom_parent_id)
+    .map(product => ({
+      loc: absoluteUrl(siteUrl, productPath(product.slug)),
+      lastmod: productLastmod(product),
+      alternates: hreflangLinks(listingsByAsin.get(product.asin) || [], defaultCode).map(link => ({
+        hreflang: link.hreflang,
+        href: absoluteUrl(siteUrl, link.path),
+      })),
+    }))
+
+  // A group changes with its products' prices, so its lastmod is the latest of them
+  const groupProducts = new Map<string, SitemapProduct[]>()
+  for (const product of products) {
+    if (!product.group_id) continue
+
+    const members = groupProducts.get(product.group_id) || []
+    members.push(product)
+    groupProducts.set(product.group_id, members)
+  }
+
+  const groupUrls = groups
+    .filter(group => group.marketplace_code === code && groupProducts.has(group.id))
+    .map(group => ({
+      loc: absoluteUrl(siteUrl, groupPath(group.slug)),
+      lastmod: latestDate(group.updated_at, ...groupProducts.get(group.id)!.map(productLastmod)),
+    }))
+
+  return [...groupUrls, ...productUrls]
+}
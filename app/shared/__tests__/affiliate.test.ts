@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for Affiliate Outbound Links
+ *
+ * Purpose: Verify the links product pages send visitors through and the
+ * Amazon URL and click attribution GET /go/:slug derives from them
+ *
+ * Test Coverage:
+ * - Outbound paths carry the placement and campaign parameters
+ * - Affiliate URLs always use the marketplace's host and associate tag
+ * - PAAPI_PARTNER_TAG_<CODE> overrides the stored associate tag
+ * - Campaign values are trimmed, cut and taken from the first repeated value
+ * - Placements must be short lowercase slugs
+ * - Country codes are two letters; CDN placeholders count as unknown
+ * - Crawlers and requests without a user agent are not counted
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildAffiliateUrl,
+  CAMPAIGN_VALUE_MAX_LENGTH,
+  isBotUserAgent,
+  outboundPath,
+  readCampaignParams,
+  readCountryCode,
+  readPlacement,
+  resolveAssociateTag,
+} from '../affiliate'
+
+const DE = { host: 'www.amazon.de', associate_tag: 'espboards-21' }
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+describe('outboundPath', () => {
+  it('links to the redirect with placement and campaign', () => {
+    expect(outboundPath('esp32-devkitc', 'buy-button', { utm_source: 'newsletter', utm_medium: null }))
+      .toBe('go/esp32-devkitc?placement=buy-button&utm_source=newsletter')
+  })
+
+  it('omits an empty query', () => {
+    expect(outboundPath('esp32-devkitc')).toBe('go/esp32-devkitc')
+  })
+})
+
+describe('buildAffiliateUrl', () => {
+  it('keeps the detail page URL and replaces its tag', () => {
+    expect(buildAffiliateUrl('B08DQQ8CBP', 'https://www.amazon.de/dp/B08DQQ8CBP?tag=old-21&linkCode=ogi&th=1', DE))
+      .toBe('https://www.amazon.de/dp/B08DQQ8CBP?tag=espboards-21&linkCode=ogi&th=1')
+  })
+
+  it('falls back to the /dp/ URL without a usable detail page URL', () => {
+    const fallback = 'https://www.amazon.de/dp/B08DQQ8CBP?tag=espboards-21'
+
+    expect(buildAffiliateUrl('B08DQQ8CBP', null, DE)).toBe(fallback)
+    expect(buildAffiliateUrl('B08DQQ8CBP', 'not a url', DE)).toBe(fallback)
+    expect(buildAffiliateUrl('B08DQQ8CBP', 'http://www.amazon.de/dp/B08DQQ8CBP', DE)).toBe(fallback)
+  })
+
+  it('never redirects to another host', () => {
+    expect(buildAffiliateUrl('B08DQQ8CBP', 'https://www.amazon.com/dp/B08DQQ8CBP', DE))
+      .toBe('https://www.amazon.de/dp/B08DQQ8CBP?tag=espboards-21')
+    expect(buildAffiliateUrl('B08DQQ8CBP', 'https://evil.example/dp/B08DQQ8CBP', DE))
+      .toBe('https://www.amazon.de/dp/B08DQQ8CBP?tag=espboards-21')
+  })
+
+  it('drops the tag for marketplaces without one', () => {
+    expect(buildAffiliateUrl('B08DQQ8CBP', 'https://www.amazon.de/dp/B08DQQ8CBP?tag=old-21&th=1', { ...DE, associate_tag: null }))
+      .toBe('https://www.amazon.de/dp/B08DQQ8CBP?th=1')
+  })
+})
+
+describe('resolveAssociateTag', () => {
+  const env = (values: Record<string, string>) => (name: string) => values[name]
+
+  it('prefers the PAAPI_PARTNER_TAG_<CODE> variable', () => {
+    expect(resolveAssociateTag({ ...DE, code: 'DE' }, env({ PAAPI_PARTNER_TAG_DE: ' realtag-21 ' }))).toBe('realtag-21')
+    expect(resolveAssociateTag({ ...DE, code: 'DE' }, env({ PAAPI_PARTNER_TAG_US: 'realtag-20' }))).toBe('espboards-21')
+  })
+
+  it('is null without a stored or overriding tag', () => {
+    expect(resolveAssociateTag({ host: 'www.amazon.co.uk', associate_tag: null, code: 'UK' }, env({ PAAPI_PARTNER_TAG_UK: '' }))).toBeNull()
+  })
+})
+
+// ============================================================================
+// CLICK ATTRIBUTION
+// ============================================================================
+
+describe('readCampaignParams', () => {
+  it('reads every campaign parameter', () => {
+    expect(readCampaignParams({ utm_source: ' newsletter ', utm_campaign: ['black-friday', 'other'], utm_medium: '' })).toEqual({
+      utm_source: 'newsletter',
+      utm_medium: null,
+      utm_campaign: 'black-friday',
+      utm_term: null,
+      utm_content: null,
+    })
+  })
+
+  it('cuts long values', () => {
+    expect(readCampaignParams({ utm_content: 'x'.repeat(500) }).utm_content).toHaveLength(CAMPAIGN_VALUE_MAX_LENGTH)
+  })
+})
+
+describe('readPlacement', () => {
+  it('accepts short lowercase slugs only', () => {
+    expect(readPlacement('buy-button')).toBe('buy-button')
+    expect(readPlacement('Buy Button')).toBeNull()
+    expect(readPlacement('x'.repeat(51))).toBeNull()
+    expect(readPlacement(['buy-button'])).toBeNull()
+  })
+})
+
+describe('readCountryCode', () => {
+  it('accepts two-letter codes in any case', () => {
+    expect(readCountryCode('DE')).toBe('DE')
+    expect(readCountryCode(' us ')).toBe('US')
+  })
+
+  it('treats missing, malformed and placeholder codes as unknown', () => {
+    expect(readCountryCode(undefined)).toBeNull()
+    expect(readCountryCode('DEU')).toBeNull()
+    expect(readCountryCode('XX')).toBeNull()
+    expect(readCountryCode('T1')).toBeNull()
+  })
+})
+
+describe('isBotUserAgent', () => {
+  it('detects crawlers and missing user agents', () => {
+    expect(isBotUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe(true)
+    expect(isBotUserAgent('facebookexternalhit/1.1')).toBe(true)
+    expect(isBotUserAgent(null)).toBe(true)
+  })
+
+  it('counts browsers', () => {
+    expect(isBotUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0 Safari/537.36')).toBe(false)
+  })
+})
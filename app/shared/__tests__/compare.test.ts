@@ -0,0 +1,112 @@
+/**
+ * Unit Tests for Product Comparison
+ *
+ * Purpose: Verify the shareable comparison URL and the aligned spec table
+ *
+ * Test Coverage:
+ * - Only valid product IDs are read from ?ids=, deduplicated and capped at four
+ * - Spec values prefer metadata.display and fall back to formatted filters
+ * - Rows are flagged as differing only when known values disagree
+ * - Price and rating rows are formatted per product
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildComparison, comparePath, parseCompareIds, specValue, type ComparedProduct } from '../compare'
+
+const ID_A = '0b6d2c1e-8f3a-4c5b-9d7e-1a2b3c4d5e6f'
+const ID_B = '1c7e3d2f-9a4b-4d6c-8e8f-2b3c4d5e6f70'
+const ID_C = '2d8f4e3a-0b5c-4e7d-9f90-3c4d5e6f7081'
+const ID_D = '3e905f4b-1c6d-4f8e-8a01-4d5e6f708192'
+const ID_E = '4fa1605c-2d7e-4091-9b12-5e6f708192a3'
+
+const product = (overrides: Partial<ComparedProduct> = {}): ComparedProduct => ({
+  id: ID_A,
+  current_price: 12.99,
+  currency: 'USD',
+  star_rating: 4.5,
+  customer_review_count: 1280,
+  metadata: null,
+  ...overrides,
+})
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+describe('parseCompareIds', () => {
+  it('keeps valid IDs in order without duplicates', () => {
+    expect(parseCompareIds(`${ID_B},${ID_A.toUpperCase()}, ${ID_B},not-an-id`)).toEqual([ID_B, ID_A])
+  })
+
+  it('caps the comparison at four products', () => {
+    expect(parseCompareIds([ID_A, ID_B, ID_C, ID_D, ID_E].join(','))).toEqual([ID_A, ID_B, ID_C, ID_D])
+  })
+
+  it('reads repeated parameters and ignores anything else', () => {
+    expect(parseCompareIds([ID_A, ID_C])).toEqual([ID_A, ID_C])
+    expect(parseCompareIds(undefined)).toEqual([])
+  })
+})
+
+describe('comparePath', () => {
+  it('builds a shareable URL', () => {
+    expect(comparePath([ID_A, ID_B])).toBe(`/compare?ids=${ID_A},${ID_B}`)
+    expect(comparePath([])).toBe('/compare')
+  })
+})
+
+// ============================================================================
+// TABLE
+// ============================================================================
+
+describe('specValue', () => {
+  it('prefers the display text', () => {
+    const board = product({ metadata: { display: { flash: '8MB Flash' }, filters: { flash_mb: 4 } } })
+
+    expect(specValue(board, 'flash')).toBe('8MB Flash')
+  })
+
+  it('formats filters without display text', () => {
+    const board = product({ metadata: { filters: { chip: 'ESP32-S3', psram_mb: 8, usb_type: 'usb_c', gpio_pins: 36 } } })
+
+    expect(specValue(board, 'chip')).toBe('ESP32-S3')
+    expect(specValue(board, 'psram')).toBe('8MB PSRAM')
+    expect(specValue(board, 'usb')).toBe('USB-C')
+    expect(specValue(board, 'gpio')).toBe('36 GPIO pins')
+  })
+
+  it('shows connectivity flags without a version as yes or no', () => {
+    const board = product({ metadata: { filters: { has_wifi: true, has_bluetooth: false } } })
+
+    expect(specValue(board, 'wifi')).toBe('Yes')
+    expect(specValue(board, 'bluetooth')).toBe('No')
+    expect(specValue(product(), 'wifi')).toBeNull()
+  })
+})
+
+describe('buildComparison', () => {
+  it('aligns one value per product and flags differing rows', () => {
+    const rows = buildComparison([
+      product({ metadata: { filters: { chip: 'ESP32-S3', flash_mb: 8 } } }),
+      product({ id: ID_B, current_price: 9.5, metadata: { filters: { chip: 'ESP32-S3', flash_mb: 16 } } }),
+    ])
+    const row = (key: string) => rows.find(candidate => candidate.key === key)!
+
+    expect(rows.map(candidate => candidate.key)).toEqual(['price', 'rating', 'chip', 'flash', 'psram', 'wifi', 'bluetooth', 'usb', 'gpio'])
+    expect(row('price').values).toEqual(['$12.99', '$9.50'])
+    expect(row('price').differs).toBe(true)
+    expect(row('rating').values).toEqual(['4.5 / 5 (1,280 reviews)', '4.5 / 5 (1,280 reviews)'])
+    expect(row('chip').differs).toBe(false)
+    expect(row('flash').differs).toBe(true)
+  })
+
+  it('does not flag rows where only one product is known', () => {
+    const rows = buildComparison([
+      product({ metadata: { filters: { psram_mb: 8 } } }),
+      product({ id: ID_B, current_price: null, star_rating: null, metadata: null }),
+    ])
+
+    expect(rows.find(row => row.key === 'psram')).toMatchObject({ values: ['8MB PSRAM', null], differs: false })
+    expect(rows.find(row => row.key === 'price')?.values).toEqual(['$12.99', null])
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * Unit Tests for Cookie Consent
+ *
+ * Purpose: Verify how the banner's choice is stored and read back by server routes
+ *
+ * Test Coverage:
+ * - Only known choices are read; anything else means "not chosen yet"
+ * - Optional cookies need an explicit "accept all"
+ * - The consent cookie is site-wide and long-lived
+ */
+
+import { describe, it, expect } from 'vitest'
+import { allowsOptionalCookies, CONSENT_MAX_AGE, consentCookie, readConsent } from '../consent'
+
+describe('readConsent', () => {
+  it('reads known choices', () => {
+    expect(readConsent('all')).toBe('all')
+    expect(readConsent('necessary')).toBe('necessary')
+  })
+
+  it('treats missing and unknown values as not chosen', () => {
+    expect(readConsent(undefined)).toBeNull()
+    expect(readConsent('none')).toBeNull()
+  })
+})
+
+describe('allowsOptionalCookies', () => {
+  it('allows optional cookies once the visitor accepted all', () => {
+    expect(allowsOptionalCookies('all')).toBe(true)
+    expect(allowsOptionalCookies('necessary')).toBe(false)
+  })
+
+  it('skips optional cookies until the visitor chooses', () => {
+    expect(allowsOptionalCookies(null)).toBe(false)
+    expect(allowsOptionalCookies(readConsent(undefined))).toBe(false)
+  })
+})
+
+describe('consentCookie', () => {
+  it('stores the choice for the whole site', () => {
+    expect(consentCookie('necessary')).toBe(`cookie-consent=necessary; path=/; max-age=${CONSENT_MAX_AGE}; SameSite=Lax`)
+  })
+})
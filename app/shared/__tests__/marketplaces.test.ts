@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for Marketplaces
+ *
+ * Purpose: Verify how `marketplaces` rows are exposed to the app and how
+ * unknown marketplace codes are reported
+ *
+ * Test Coverage:
+ * - Rows are mapped to the selector's name and domain
+ * - The error message lists the active marketplace codes
+ */
+
+import { describe, it, expect } from 'vitest'
+import { invalidMarketplaceMessage, toMarketplace } from '../marketplaces'
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+describe('toMarketplace', () => {
+  it('maps a row to the marketplace shown in the selector', () => {
+    expect(toMarketplace({
+      id: 'mkpl-uk',
+      code: 'UK',
+      region_name: 'United Kingdom',
+      flag: '🇬🇧',
+      currency: 'GBP',
+      host: 'www.amazon.co.uk',
+      locale: 'en-GB',
+    })).toEqual({
+      id: 'mkpl-uk',
+      code: 'UK',
+      name: 'United Kingdom',
+      flag: '🇬🇧',
+      currency: 'GBP',
+      domain: 'amazon.co.uk',
+      locale: 'en-GB',
+    })
+  })
+})
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('invalidMarketplaceMessage', () => {
+  it('lists the active marketplace codes', () => {
+    expect(invalidMarketplaceMessage(['US', 'DE', 'UK'])).toBe('Invalid marketplace. Must be one of: US, DE, UK')
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Unit Tests for the Product Metadata Extractor
+ *
+ * Purpose: Verify metadata proposed from Amazon product text is accurate, scored
+ * and valid against the product type schemas
+ *
+ * Test Coverage:
+ * - Product type detection from title and features
+ * - Development board specifications from title, features and PA-API info
+ * - Specifications implied by the chip
+ * - Confidence drops when texts disagree
+ * - Proposals for other product types
+ * - Proposed metadata passes validateMetadata()
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildProposedMetadata, detectProductType, extractMetadata } from '../metadata-extractor'
+import { validateMetadata } from '../../server/utils/metadata-schemas'
+
+const S3_BOARD = {
+  title: 'ESP32-S3-DevKitC-1 N16R8 Development Board, 16MB Flash 8MB PSRAM, WiFi + Bluetooth 5, Type-C',
+  features: [
+    'Dual-core Xtensa LX7 processor running at up to 240 MHz',
+    '45 GPIO pins, SPI, I2C, UART',
+    'Onboard RGB LED and boot button',
+  ],
+  technical_info: null,
+  product_info: {
+    UnitCount: { DisplayValue: 1, Label: 'NumberOfItems', Locale: 'en_US' },
+    Color: { DisplayValue: 'Black', Label: 'Color', Locale: 'en_US' },
+  },
+}
+
+const valueOf = (proposal: ReturnType<typeof extractMetadata>, key: string) =>
+  proposal.suggestions.find(suggestion => suggestion.key === key)?.value
+
+// ============================================================================
+// PRODUCT TYPE
+// ============================================================================
+
+describe('detectProductType', () => {
+  it.each([
+    ['ESP32 Development Board WiFi Bluetooth Dual Core CP2102', 'development_board'],
+    ['BME280 Temperature Humidity Pressure Sensor Module I2C', 'sensor'],
+    ['0.96 Inch OLED Display Module 128x64 I2C SSD1306', 'display'],
+    ['TP4056 Lithium Battery Charging Module Type-C', 'power'],
+    ['SX1278 LoRa Module 433MHz Ra-02', 'communication'],
+    ['120pcs Dupont Jumper Wires Male to Female', 'accessory'],
+  ])('detects %s', (title, type) => {
+    expect(detectProductType({ title }).productType).toBe(type)
+  })
+
+  it('trusts the title more than the features', () => {
+    const fromTitle = detectProductType({ title: 'ESP32-C3 SuperMini Development Board' })
+    const fromFeatures = detectProductType({ title: 'ESP32-C3 SuperMini', features: ['Tiny development board'] })
+
+    expect(fromTitle.confidence).toBeGreaterThan(fromFeatures.confidence)
+  })
+
+  it('returns no type for unrelated text', () => {
+    expect(detectProductType({ title: 'Coffee mug' })).toEqual({ productType: null, confidence: 0 })
+  })
+})
+
+// ============================================================================
+// DEVELOPMENT BOARDS
+// ============================================================================
+
+describe('extractMetadata for development boards', () => {
+  it('extracts specifications from the title, features and product info', () => {
+    const proposal = extractMetadata(S3_BOARD)
+
+    expect(proposal.productType).toBe('development_board')
+    expect(proposal.metadata?.filters).toMatchObject({
+      product_type: 'development_board',
+      chip: 'ESP32-S3',
+      chip_series: 'ESP32-S',
+      flash_mb: 16,
+      psram_mb: 8,
+      usb_type: 'usb_c',
+      has_wifi: true,
+      has_bluetooth: true,
+      bluetooth_version: '5.0',
+      cpu_cores: 2,
+      mcu_architecture: 'Xtensa LX7',
+      cpu_speed_mhz: 240,
+      gpio_pins: 45,
+      pieces: 1,
+    })
+    expect(proposal.metadata?.display).toMatchObject({
+      product_type: 'Development Board',
+      chip: 'ESP32-S3',
+      flash: '16MB Flash',
+      psram: '8MB PSRAM',
+      usb: 'USB-C',
+    })
+  })
+
+  it('scores every field and records where it was found', () => {
+    const proposal = extractMetadata(S3_BOARD)
+    const chip = proposal.suggestions.find(suggestion => suggestion.key === 'chip')
+    const gpio = proposal.suggestions.find(suggestion => suggestion.key === 'gpio_pins')
+
+    expect(chip).toMatchObject({ label: 'Chip Model', source: 'title', confidence: 0.95 })
+    expect(gpio).toMatchObject({ source: 'features[1]', match: '45 GPIO' })
+    expect(gpio!.confidence).toBeLessThan(chip!.confidence)
+    for (const suggestion of proposal.suggestions) {
+      expect(suggestion.confidence).toBeGreaterThan(0)
+      expect(suggestion.confidence).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('fills in what the chip implies with lower confidence', () => {
+    const proposal = extractMetadata({ title: 'ESP32-C6 Development Board' })
+    const wifi = proposal.suggestions.find(suggestion => suggestion.key === 'wifi_version')
+
+    expect(proposal.metadata?.filters).toMatchObject({ has_wifi: true, wifi_version: '6', has_thread: true, has_zigbee: true })
+    expect(wifi).toMatchObject({ source: 'chip', match: 'ESP32-C6' })
+    expect(wifi!.confidence).toBeLessThan(0.95)
+  })
+
+  it('does not propose details of a feature the chip lacks', () => {
+    const proposal = extractMetadata({ title: 'ESP32-S2 Mini Development Board, Bluetooth not supported' }, 'development_board')
+
+    expect(valueOf(proposal, 'has_bluetooth')).toBe(true)
+    expect(valueOf(proposal, 'bluetooth_version')).toBeUndefined()
+  })
+
+  it('lowers the confidence when texts disagree', () => {
+    const agreeing = extractMetadata({ title: 'ESP32 Board 4MB Flash', features: ['4MB flash memory'] })
+    const disagreeing = extractMetadata({ title: 'ESP32 Board 4MB Flash', features: ['16MB flash memory'] })
+
+    expect(valueOf(disagreeing, 'flash_mb')).toBe(4)
+    expect(disagreeing.suggestions.find(s => s.key === 'flash_mb')!.confidence)
+      .toBeLessThan(agreeing.suggestions.find(s => s.key === 'flash_mb')!.confidence)
+  })
+
+  it('only proposes values the registry allows', () => {
+    const proposal = extractMetadata({ title: 'ESP32 Development Board 150 GPIO, Bluetooth 3.0' })
+
+    expect(valueOf(proposal, 'gpio_pins')).toBeUndefined()
+    expect(valueOf(proposal, 'bluetooth_version')).toBe('4.2')
+  })
+
+  it('returns no metadata when the chip is unknown', () => {
+    const proposal = extractMetadata({ title: 'ESP8266 NodeMCU Development Board Micro USB' })
+
+    expect(proposal.productType).toBe('development_board')
+    expect(valueOf(proposal, 'usb_type')).toBe('micro_usb')
+    expect(proposal.metadata).toBeNull()
+  })
+})
+
+// ============================================================================
+// OTHER PRODUCT TYPES
+// ============================================================================
+
+describe('extractMetadata for other product types', () => {
+  it('expands sensor part numbers to sensor types', () => {
+    const proposal = extractMetadata({ title: 'BME280 Temperature Humidity Pressure Sensor Module I2C SPI 3.3V' })
+
+    expect(proposal.metadata?.filters).toMatchObject({
+      product_type: 'sensor',
+      sensor_types: ['temperature', 'humidity', 'pressure'],
+      interfaces: ['i2c', 'spi'],
+    })
+    expect(proposal.metadata?.display.sensors).toBe('Temperature, Humidity, Pressure')
+  })
+
+  it('extracts display size and resolution', () => {
+    const proposal = extractMetadata({ title: '0.96 Inch OLED Display Module 128x64 I2C SSD1306' })
+
+    expect(proposal.metadata?.filters).toMatchObject({
+      product_type: 'display',
+      display_type: 'oled',
+      screen_size_inches: 0.96,
+      resolution_width: 128,
+      resolution_height: 64,
+      interfaces: ['i2c'],
+    })
+  })
+
+  it('extracts accessory connectors and quantity', () => {
+    const proposal = extractMetadata({ title: '120pcs Dupont Jumper Wires Male to Female 20cm' })
+
+    expect(proposal.metadata?.filters).toMatchObject({
+      product_type: 'accessory',
+      accessory_type: 'jumper-wires',
+      connector_types: ['male-female'],
+      quantity: 120,
+      length_cm: 20,
+    })
+  })
+
+  it('uses the given product type instead of detecting one', () => {
+    const proposal = extractMetadata({ title: 'SX1278 LoRa Module 433MHz' }, 'communication')
+
+    expect(proposal.productTypeConfidence).toBe(1)
+    expect(proposal.metadata?.filters).toMatchObject({ protocol: 'lora', frequency_mhz: 433 })
+  })
+})
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('proposed metadata', () => {
+  it.each([
+    [S3_BOARD],
+    [{ title: 'ESP32-WROOM-32 DevKit V1 with OV2640 Camera and Micro SD Card Slot' }],
+    [{ title: 'ESP32-H2 Zigbee Thread Board' }],
+    [{ title: 'SCD40 CO2 Sensor Module' }],
+    [{ title: '2.8 inch TFT Touch Screen 240x320 SPI ILI9341 Capacitive' }],
+    [{ title: 'MT3608 DC-DC Step Up Boost Converter, Input 2V-24V Output 28V 2A' }],
+    [{ title: 'RC522 RFID Module 13.56MHz SPI' }],
+  ])('passes validateMetadata (%#)', (product) => {
+    const proposal = extractMetadata(product)
+
+    expect(proposal.metadata).not.toBeNull()
+    expect(validateMetadata(proposal.metadata)).toMatchObject({ valid: true, errors: [] })
+  })
+
+  it('drops details of toggles that were not accepted', () => {
+    const proposal = extractMetadata({ title: 'ESP32-C3 Board WiFi 4 Bluetooth 5.0' })
+    const withoutWifi = proposal.suggestions.filter(suggestion => suggestion.key !== 'has_wifi')
+
+    expect(buildProposedMetadata('development_board', withoutWifi)?.filters).not.toHaveProperty('wifi_version')
+  })
+})
@@ -0,0 +1,254 @@
+/**
+ * Unit Tests for the Product Metadata Filter Registry
+ *
+ * Purpose: Verify the shared filter vocabulary used by the schemas, admin editor
+ * and catalog, and the rewrite of legacy metadata to canonical keys
+ *
+ * Test Coverage:
+ * - Catalog filters expose the query parameters GET /api/products understands
+ * - Display values are generated from filters
+ * - Legacy keys and values are renamed and coerced
+ * - Unknown or unconvertible values are kept and reported
+ * - Canonical metadata is left unchanged
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildDisplayMetadata,
+  canonicalizeMetadata,
+  deriveFilters,
+  getCatalogFilters,
+  getMetadataFields,
+  PRODUCT_TYPES,
+  refreshDisplayMetadata,
+} from '../metadata-filters'
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+describe('metadata filter registry', () => {
+  it('defines the 6 product types', () => {
+    expect(PRODUCT_TYPES).toEqual(['development_board', 'sensor', 'display', 'power', 'communication', 'accessory'])
+  })
+
+  it('returns no fields for unknown product types', () => {
+    expect(getMetadataFields('wireless')).toEqual([])
+    expect(getMetadataFields(undefined)).toEqual([])
+  })
+
+  it('exposes the catalog query parameters for development boards', () => {
+    const filters = getCatalogFilters('development_board')
+    const byParam = Object.fromEntries(filters.map(filter => [filter.param, filter]))
+
+    expect(Object.keys(byParam).sort()).toEqual([
+      'battery', 'bluetooth', 'camera', 'chip', 'display', 'flash', 'gpio', 'psram', 'sdcard', 'thread', 'usb', 'wifi', 'zigbee',
+    ])
+    expect(byParam.flash).toMatchObject({ key: 'flash_mb', match: 'min' })
+    expect(byParam.psram!.options.map(option => option.value)).toEqual(['none', '2', '8'])
+    expect(byParam.battery).toMatchObject({ key: 'has_battery_pins', match: 'flag' })
+    expect(byParam.usb!.options.map(option => option.value)).toEqual(['micro_usb', 'usb_c', 'usb_a'])
+  })
+
+  it('derives chip_series from chip', () => {
+    expect(deriveFilters('development_board', { chip: 'ESP32-S3' }).chip_series).toBe('ESP32-S')
+    expect(deriveFilters('development_board', { chip: 'ESP32' }).chip_series).toBe('ESP32')
+  })
+})
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+describe('buildDisplayMetadata', () => {
+  it('formats filter values for display', () => {
+    expect(buildDisplayMetadata('development_board', {
+      chip: 'ESP32-S3',
+      psram_mb: 8,
+      flash_mb: 16,
+      gpio_pins: 36,
+      has_wifi: true,
+      wifi_version: '4',
+      has_bluetooth: true,
+      bluetooth_version: '5.0',
+      usb_type: 'usb_c',
+      has_camera: true,
+      has_battery_pins: true,
+      cpu_cores: 1,
+    })).toEqual({
+      product_type: 'Development Board',
+      chip: 'ESP32-S3',
+      cpu_cores: '1 Core',
+      psram: '8MB PSRAM',
+      flash: '16MB Flash',
+      gpio: '36 GPIO pins',
+      wifi: 'WiFi 4',
+      bluetooth: 'Bluetooth 5.0',
+      usb: 'USB-C',
+      connectivity: 'WiFi 4, Bluetooth 5.0',
+      features: 'Camera, Battery',
+    })
+  })
+
+  it('skips empty values and summaries', () => {
+    expect(buildDisplayMetadata('development_board', { chip: 'ESP32', psram_mb: null, usb_type: '' })).toEqual({
+      product_type: 'Development Board',
+      chip: 'ESP32',
+    })
+  })
+
+  it('keeps hand-written display values when refreshing', () => {
+    const display = refreshDisplayMetadata(
+      'sensor',
+      { sensor_types: ['temperature', 'co2'] },
+      { product_type: 'Sensor', sensors: 'old', temperature_range: '-40°C to 85°C', psram: '8MB PSRAM' }
+    )
+
+    expect(display).toEqual({
+      product_type: 'Sensor',
+      sensors: 'Temperature, CO2',
+      temperature_range: '-40°C to 85°C',
+    })
+  })
+})
+
+// ============================================================================
+// CANONICALIZATION
+// ============================================================================
+
+describe('canonicalizeMetadata', () => {
+  it('renames legacy catalog and schema keys', () => {
+    const result = canonicalizeMetadata({
+      display: { product_type: 'Development Board', chip: 'ESP32-S3' },
+      filters: {
+        product_type: 'development_board',
+        chip: 'ESP32-S3',
+        flash_size: '16MB',
+        psram_size: 8,
+        gpio_count: 36,
+        has_battery: true,
+        has_camera_connector: false,
+        has_ble: true,
+      },
+    })
+
+    expect(result.changed).toBe(true)
+    expect(result.unconverted).toEqual([])
+    expect(result.metadata.filters).toEqual({
+      product_type: 'development_board',
+      chip: 'ESP32-S3',
+      chip_series: 'ESP32-S',
+      flash_mb: 16,
+      psram_mb: 8,
+      gpio_pins: 36,
+      has_battery_pins: true,
+      has_camera: false,
+      has_bluetooth: true,
+    })
+    expect(result.changes).toContain('flash_size -> flash_mb')
+    expect(result.changes).toContain('has_battery -> has_battery_pins')
+  })
+
+  it('converts legacy values', () => {
+    const result = canonicalizeMetadata({
+      display: { product_type: 'Development Board', chip: 'ESP32' },
+      filters: {
+        product_type: 'development_board',
+        chip: 'ESP32-WROVER',
+        wifi_standards: ['802.11b', '802.11g', '802.11n'],
+        bluetooth_version: 5,
+        usb_type: 'usb-c',
+        psram_mb: 'none',
+      },
+    })
+
+    expect(result.unconverted).toEqual([])
+    expect(result.metadata.filters).toMatchObject({
+      chip: 'ESP32',
+      form_factor: 'wrover',
+      has_wifi: true,
+      wifi_version: '4',
+      bluetooth_version: '5.0',
+      usb_type: 'usb_c',
+      psram_mb: 0,
+    })
+    expect(result.metadata.filters).not.toHaveProperty('wifi_standards')
+  })
+
+  it('drops "none" USB types and legacy display keys', () => {
+    const result = canonicalizeMetadata({
+      display: { product_type: 'Development Board', chip: 'ESP32', usb_type: 'None', battery_connector: 'Yes', psram_mb: '8MB PSRAM' },
+      filters: { product_type: 'development_board', chip: 'ESP32', usb_type: 'none' },
+    })
+
+    expect(result.metadata.filters).not.toHaveProperty('usb_type')
+    expect(result.metadata.display).toEqual({ product_type: 'Development Board', chip: 'ESP32' })
+  })
+
+  it('prefers the canonical key over legacy keys', () => {
+    const result = canonicalizeMetadata({
+      display: {},
+      filters: { product_type: 'development_board', chip: 'ESP32', has_battery_pins: false, has_battery: true },
+    })
+
+    expect(result.metadata.filters.has_battery_pins).toBe(false)
+    expect(result.metadata.filters).not.toHaveProperty('has_battery')
+    expect(result.changes).toContain('has_battery dropped (has_battery_pins is set)')
+  })
+
+  it('maps legacy product types', () => {
+    const result = canonicalizeMetadata({
+      display: { product_type: 'Wireless Module' },
+      filters: { product_type: 'wireless', protocol: 'lora' },
+    })
+
+    expect(result.metadata.filters.product_type).toBe('communication')
+    expect(result.metadata.display).toMatchObject({ product_type: 'Communication Module', protocol: 'LoRa' })
+  })
+
+  it('reports values it cannot convert and keeps them', () => {
+    const result = canonicalizeMetadata({
+      display: { product_type: 'Development Board', chip: 'ESP32', notes: 'hand-written' },
+      filters: { product_type: 'development_board', chip: 'ESP32', flash_size: 'large', has_lcd_connector: true },
+    })
+
+    expect(result.unconverted).toEqual([
+      { key: 'flash_size', value: 'large', reason: 'expected a number' },
+      { key: 'has_lcd_connector', value: true, reason: 'unknown field' },
+      { key: 'display.notes', value: 'hand-written', reason: 'unknown display field' },
+    ])
+    expect(result.metadata.filters).toMatchObject({ flash_size: 'large', has_lcd_connector: true })
+    expect(result.metadata.display.notes).toBe('hand-written')
+  })
+
+  it('reports unknown product types without changes', () => {
+    const metadata = { display: {}, filters: { product_type: 'breakout', chip: 'ESP32' } }
+    const result = canonicalizeMetadata(metadata)
+
+    expect(result.changed).toBe(false)
+    expect(result.metadata).toEqual(metadata)
+    expect(result.unconverted).toHaveLength(1)
+    expect(result.unconverted[0]!.key).toBe('product_type')
+  })
+
+  it('leaves unclassified metadata alone', () => {
+    expect(canonicalizeMetadata({ display: {}, filters: {} })).toEqual({
+      metadata: { display: {}, filters: {} },
+      changed: false,
+      changes: [],
+      unconverted: [],
+    })
+  })
+
+  it('leaves canonical metadata unchanged', () => {
+    const first = canonicalizeMetadata({
+      display: { product_type: 'Development Board', chip: 'ESP32-C6' },
+      filters: { product_type: 'development_board', chip: 'ESP32-C6', flash_size: 4, has_thread: true },
+    })
+    const second = canonicalizeMetadata(first.metadata)
+
+    expect(second.changed).toBe(false)
+    expect(second.changes).toEqual([])
+    expect(second.metadata).toEqual(first.metadata)
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for Canonical URLs and hreflang Alternates
+ *
+ * Purpose: Verify variant pages collapse onto one canonical page and listings
+ * of the same ASIN link to each other
+ *
+ * Test Coverage:
+ * - The store URL comes from SITE_URL or the request origin and base path
+ * - Variants are canonical to their group, else their parent
+ * - hreflang links need two locales and use the default marketplace as x-default
+ */
+
+import { describe, it, expect } from 'vitest'
+import { absoluteUrl, hreflangLinks, productCanonicalPath, resolveSiteUrl } from '../seo'
+
+// ============================================================================
+// URLS
+// ============================================================================
+
+describe('resolveSiteUrl', () => {
+  it('prefers the configured URL without a trailing slash', () => {
+    expect(resolveSiteUrl('https://www.espboards.dev/store/', 'http://localhost:3000', '/store/')).toBe('https://www.espboards.dev/store')
+  })
+
+  it('falls back to the request origin and base path', () => {
+    expect(resolveSiteUrl('', 'http://localhost:3000', '/store/')).toBe('http://localhost:3000/store')
+    expect(resolveSiteUrl(undefined, 'http://localhost:3000', '/')).toBe('http://localhost:3000')
+  })
+})
+
+describe('absoluteUrl', () => {
+  it('joins app paths to the store URL', () => {
+    expect(absoluteUrl('https://www.espboards.dev/store', '/products/board')).toBe('https://www.espboards.dev/store/products/board')
+    expect(absoluteUrl('https://www.espboards.dev/store', 'sitemap.xml')).toBe('https://www.espboards.dev/store/sitemap.xml')
+  })
+})
+
+// ============================================================================
+// CANONICAL
+// ============================================================================
+
+describe('productCanonicalPath', () => {
+  it('keeps parent and standalone products canonical to themselves', () => {
+    expect(productCanonicalPath({ slug: 'xiao-esp32c3', custom_parent_id: null }, { groupSlug: 'xiao' })).toBe('/products/xiao-esp32c3')
+  })
+
+  it('collapses variants onto their group', () => {
+    expect(productCanonicalPath(
+      { slug: 'xiao-esp32c3-3-pack', custom_parent_id: 'parent-id' },
+      { groupSlug: 'xiao', parentSlug: 'xiao-esp32c3' },
+    )).toBe('/groups/xiao')
+  })
+
+  it('collapses ungrouped variants onto their parent', () => {
+    expect(productCanonicalPath(
+      { slug: 'xiao-esp32c3-3-pack', custom_parent_id: 'parent-id' },
+      { parentSlug: 'xiao-esp32c3' },
+    )).toBe('/products/xiao-esp32c3')
+  })
+})
+
+// ============================================================================
+// HREFLANG
+// ============================================================================
+
+describe('hreflangLinks', () => {
+  const us = { marketplace_code: 'US', locale: 'en-US', slug: 'esp32-devkit-us' }
+  const de = { marketplace_code: 'DE', locale: 'de-DE', slug: 'esp32-devkit-de' }
+
+  it('links every locale and the default marketplace as x-default', () => {
+    expect(hreflangLinks([us, de], 'US')).toEqual([
+      { hreflang: 'de-DE', path: '/products/esp32-devkit-de' },
+      { hreflang: 'en-US', path: '/products/esp32-devkit-us' },
+      { hreflang: 'x-default', path: '/products/esp32-devkit-us' },
+    ])
+  })
+
+  it('returns nothing for a single listing', () => {
+    expect(hreflangLinks([us], 'US')).toEqual([])
+    expect(hreflangLinks([us, { ...us, slug: 'esp32-devkit-us-2' }], 'US')).toEqual([])
+  })
+
+  it('omits x-default when the default marketplace has no listing', () => {
+    const uk = { marketplace_code: 'UK', locale: 'en-GB', slug: 'esp32-devkit-uk' }
+
+    expect(hreflangLinks([de, uk], 'US').map(link => link.hreflang)).toEqual(['de-DE', 'en-GB'])
+  })
+})
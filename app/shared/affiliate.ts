@@ -0,0 +1,167 @@
+/**
+ * Affiliate Outbound Links
+ *
+ * Product pages link to Amazon through GET /go/:slug
+ * (server/routes/go/[slug].get.ts), which records the click in `amazon_clicks`
+ * and redirects to the product with the marketplace's associate tag. The page
+ * builds the link (composables/useAmazonTracking.ts) and passes on which link
+ * was clicked and the campaign the visitor arrived with.
+ *
+ * This module has no imports so it can be shared by the app, Nitro and vitest.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Marketplace columns needed to build an affiliate URL
+ */
+export interface AffiliateMarketplace {
+  host: string // e.g. 'www.amazon.de'
+  associate_tag: string | null // null until the marketplace is activated
+}
+
+export type CampaignParam = typeof CAMPAIGN_PARAMS[number]
+
+export type CampaignParams = Record<CampaignParam, string | null>
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Campaign parameters recorded with a click (also amazon_clicks columns)
+ */
+export const CAMPAIGN_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const
+
+/**
+ * Longest campaign value stored; longer values are cut
+ */
+export const CAMPAIGN_VALUE_MAX_LENGTH = 200
+
+const PLACEMENT_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/
+
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/
+
+/**
+ * Placeholder codes CDNs send when they cannot locate a visitor (unknown, Tor)
+ */
+const UNKNOWN_COUNTRY_CODES = ['XX', 'T1']
+
+/**
+ * Crawlers and link preview fetchers follow links without a visitor behind them
+ */
+const BOT_USER_AGENT_PATTERN = /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|headless|curl|wget|python-requests|httpclient/i
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+/**
+ * Path of the outbound link for a product (relative to the app's base URL)
+ */
+export function outboundPath(slug: string, placement?: string, campaign: Partial<CampaignParams> = {}): string {
+  const query = new URLSearchParams()
+
+  if (placement) {
+    query.set('placement', placement)
+  }
+
+  for (const param of CAMPAIGN_PARAMS) {
+    const value = campaign[param]
+    if (value) {
+      query.set(param, value)
+    }
+  }
+
+  const search = query.toString()
+  return `go/${encodeURIComponent(slug)}${search ? `?${search}` : ''}`
+}
+
+/**
+ * Associate tag of a marketplace
+ *
+ * A PAAPI_PARTNER_TAG_<CODE> variable overrides the stored tag, like in the
+ * Edge Functions (supabase/functions/_shared/marketplaces.ts), until the real
+ * tag has been copied into marketplaces.associate_tag.
+ */
+export function resolveAssociateTag(
+  marketplace: AffiliateMarketplace & { code: string },
+  env: (name: string) => string | undefined,
+): string | null {
+  return env(`PAAPI_PARTNER_TAG_${marketplace.code}`)?.trim() || marketplace.associate_tag?.trim() || null
+}
+
+/**
+ * Amazon URL of a product with the marketplace's associate tag
+ *
+ * Keeps PA-API's DetailPageURL (and its link parameters) when it points to the
+ * marketplace's host, and falls back to the plain /dp/ URL otherwise, so a
+ * stored URL can never redirect visitors off Amazon.
+ */
+export function buildAffiliateUrl(asin: string, detailPageUrl: string | null, marketplace: AffiliateMarketplace): string {
+  let url: URL | null = null
+
+  if (detailPageUrl) {
+    try {
+      url = new URL(detailPageUrl)
+    } catch {
+      url = null
+    }
+  }
+
+  if (!url || url.protocol !== 'https:' || url.hostname !== marketplace.host) {
+    url = new URL(`https://${marketplace.host}/dp/${encodeURIComponent(asin)}`)
+  }
+
+  // Only inactive marketplaces lack a tag (enforced by the marketplaces table)
+  if (marketplace.associate_tag) {
+    url.searchParams.set('tag', marketplace.associate_tag)
+  } else {
+    url.searchParams.delete('tag')
+  }
+
+  return url.toString()
+}
+
+// ============================================================================
+// CLICK ATTRIBUTION
+// ============================================================================
+
+/**
+ * Campaign parameters of a request (first value, trimmed and cut; null when absent)
+ */
+export function readCampaignParams(query: Record<string, unknown>): CampaignParams {
+  const campaign = {} as CampaignParams
+
+  for (const param of CAMPAIGN_PARAMS) {
+    const raw = Array.isArray(query[param]) ? query[param][0] : query[param]
+    const value = typeof raw === 'string' ? raw.trim().slice(0, CAMPAIGN_VALUE_MAX_LENGTH) : ''
+    campaign[param] = value || null
+  }
+
+  return campaign
+}
+
+/**
+ * Which link was clicked (e.g. 'buy-button'); null unless a short lowercase slug
+ */
+export function readPlacement(value: unknown): string | null {
+  return typeof value === 'string' && PLACEMENT_PATTERN.test(value) ? value : null
+}
+
+/**
+ * Visitor country from a CDN geolocation header (ISO 3166-1 alpha-2); null when unknown
+ */
+export function readCountryCode(value: unknown): string | null {
+  const code = typeof value === 'string' ? value.trim().toUpperCase() : ''
+  return COUNTRY_CODE_PATTERN.test(code) && !UNKNOWN_COUNTRY_CODES.includes(code) ? code : null
+}
+
+/**
+ * Whether a request comes from a crawler rather than a visitor (not recorded as a click)
+ */
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT_PATTERN.test(userAgent)
+}
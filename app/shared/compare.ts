@@ -0,0 +1,172 @@
+/**
+ * Product Comparison
+ *
+ * Builds the aligned spec table of the /compare page (GET /api/products/compare)
+ * and parses its shareable `?ids=` parameter. Spec values come from the
+ * product's `metadata.display` text and fall back to formatting `metadata.filters`
+ * with the filter registry (./metadata-filters), so products imported before
+ * their display text was generated still compare.
+ *
+ * Rows whose values differ are flagged so the page can highlight them; a row
+ * only differs when at least two products have a value and they are not all equal.
+ */
+
+import { PRODUCT_TYPE_DEFINITIONS, type MetadataValue } from './metadata-filters'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ComparedProduct {
+  id: string
+  current_price: number | null
+  currency: string
+  star_rating: number | null
+  customer_review_count: number | null
+  metadata: {
+    display?: Record<string, unknown>
+    filters?: Record<string, unknown>
+  } | null
+}
+
+export interface ComparisonRow {
+  key: string
+  label: string
+  group: 'overview' | 'specs'
+  values: Array<string | null>
+  differs: boolean
+}
+
+/**
+ * Spec row backed by a development board filter field
+ * - flag: boolean filter shown as the version's display text, "Yes" or "No"
+ */
+interface SpecRow {
+  key: string
+  label: string
+  field: string
+  flag?: string
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_COMPARE_PRODUCTS = 4
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const SPEC_ROWS: readonly SpecRow[] = [
+  { key: 'chip', label: 'Chip', field: 'chip' },
+  { key: 'flash', label: 'Flash', field: 'flash_mb' },
+  { key: 'psram', label: 'PSRAM', field: 'psram_mb' },
+  { key: 'wifi', label: 'WiFi', field: 'wifi_version', flag: 'has_wifi' },
+  { key: 'bluetooth', label: 'Bluetooth / BLE', field: 'bluetooth_version', flag: 'has_bluetooth' },
+  { key: 'usb', label: 'USB', field: 'usb_type' },
+  { key: 'gpio', label: 'GPIO', field: 'gpio_pins' },
+]
+
+const BOARD_FIELDS = PRODUCT_TYPE_DEFINITIONS.development_board.fields
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+/**
+ * Product IDs of a comparison URL (?ids=a,b,c): valid UUIDs, deduplicated,
+ * in the given order and at most MAX_COMPARE_PRODUCTS
+ */
+export function parseCompareIds(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value.join(',') : typeof value === 'string' ? value : ''
+  const ids = raw
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(id => UUID_PATTERN.test(id))
+
+  return [...new Set(ids)].slice(0, MAX_COMPARE_PRODUCTS)
+}
+
+/**
+ * Path of the comparison page for the given products
+ */
+export function comparePath(ids: readonly string[]): string {
+  return ids.length > 0 ? `/compare?ids=${ids.join(',')}` : '/compare'
+}
+
+// ============================================================================
+// TABLE
+// ============================================================================
+
+/**
+ * Human-readable spec value of a product; null when unknown
+ */
+export function specValue(product: ComparedProduct, key: string): string | null {
+  const row = SPEC_ROWS.find(spec => spec.key === key)
+  const display = product.metadata?.display?.[key]
+
+  if (typeof display === 'string' && display.trim()) {
+    return display.trim()
+  }
+
+  if (!row) {
+    return null
+  }
+
+  const filters = product.metadata?.filters ?? {}
+  const value = filters[row.field]
+  const field = BOARD_FIELDS.find(candidate => candidate.key === row.field)
+
+  if (value !== undefined && value !== null && value !== '' && field?.display) {
+    return field.display.format(value as MetadataValue)
+  }
+
+  if (row.flag && typeof filters[row.flag] === 'boolean') {
+    return filters[row.flag] ? 'Yes' : 'No'
+  }
+
+  return null
+}
+
+/**
+ * Format a price the way the product cards do
+ */
+export function formatComparePrice(price: number | null, currency: string): string | null {
+  if (!price) return null
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency || 'USD',
+  }).format(price)
+}
+
+function formatRating(product: ComparedProduct): string | null {
+  if (product.star_rating === null || product.star_rating === undefined) return null
+
+  const rating = `${Number(product.star_rating).toFixed(1)} / 5`
+  return product.customer_review_count
+    ? `${rating} (${product.customer_review_count.toLocaleString('en-US')} reviews)`
+    : rating
+}
+
+function buildRow(key: string, label: string, group: ComparisonRow['group'], values: Array<string | null>): ComparisonRow {
+  const known = values.filter((value): value is string => value !== null)
+  const normalized = new Set(known.map(value => value.toLowerCase()))
+
+  return {
+    key,
+    label,
+    group,
+    values,
+    differs: known.length >= 2 && normalized.size > 1,
+  }
+}
+
+/**
+ * Rows of the comparison table, one value per product in the given order
+ */
+export function buildComparison(products: readonly ComparedProduct[]): ComparisonRow[] {
+  return [
+    buildRow('price', 'Price', 'overview', products.map(product => formatComparePrice(product.current_price, product.currency))),
+    buildRow('rating', 'Rating', 'overview', products.map(formatRating)),
+    ...SPEC_ROWS.map(row => buildRow(row.key, row.label, 'specs', products.map(product => specValue(product, row.key)))),
+  ]
+}
@@ -0,0 +1,57 @@
+/**
+ * Cookie Consent
+ *
+ * The banner (components/CookieConsent.vue) keeps the visitor's choice in
+ * localStorage and mirrors it in the `cookie-consent` cookie, so server routes
+ * can honor it too: GET /go/:slug sets a `session_id` cookie only for visitors
+ * who accepted all cookies.
+ *
+ * This module has no imports so it can be shared by the app, Nitro and vitest.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ConsentChoice = 'all' | 'necessary'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * localStorage key and cookie name of the choice
+ */
+export const CONSENT_KEY = 'cookie-consent'
+
+export const CONSENT_MAX_AGE = 60 * 60 * 24 * 365 // 1 year
+
+const CONSENT_CHOICES: readonly ConsentChoice[] = ['all', 'necessary']
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Stored choice, or null when the visitor has not chosen yet
+ */
+export function readConsent(value: unknown): ConsentChoice | null {
+  return CONSENT_CHOICES.includes(value as ConsentChoice) ? value as ConsentChoice : null
+}
+
+/**
+ * Whether optional cookies (analytics such as `session_id`) may be set
+ *
+ * Only an explicit "accept all" opts in; visitors who have not chosen yet get
+ * necessary cookies only.
+ */
+export function allowsOptionalCookies(consent: ConsentChoice | null): boolean {
+  return consent === 'all'
+}
+
+/**
+ * `document.cookie` assignment storing a choice for the whole site
+ */
+export function consentCookie(choice: ConsentChoice): string {
+  return `${CONSENT_KEY}=${choice}; path=/; max-age=${CONSENT_MAX_AGE}; SameSite=Lax`
+}
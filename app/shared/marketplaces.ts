@@ -0,0 +1,74 @@
+/**
+ * Marketplaces
+ *
+ * The `marketplaces` table is the single source of truth for the supported
+ * Amazon marketplaces. The server loads the active rows (server/utils/marketplaces.ts),
+ * serves them from GET /api/marketplaces and validates `marketplace` parameters
+ * against them; the storefront selector (composables/useMarketplace.ts) lists them.
+ *
+ * This module has no imports so it can be shared by the app, Nitro and vitest.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Active marketplace as exposed to the app
+ */
+export interface Marketplace {
+  id: string
+  code: string
+  name: string
+  flag: string
+  currency: string
+  domain: string // Storefront domain without "www.", e.g. 'amazon.de'
+  locale: string // BCP 47 locale for prices, e.g. 'de-DE'
+}
+
+/**
+ * Columns of a `marketplaces` row needed to build a Marketplace
+ */
+export interface MarketplaceRow {
+  id: string
+  code: string
+  region_name: string
+  flag: string
+  currency: string
+  host: string
+  locale: string
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Marketplace selected until the visitor picks another one
+ */
+export const DEFAULT_MARKETPLACE_CODE = 'US'
+
+export const MARKETPLACE_COLUMNS = 'id, code, region_name, flag, currency, host, locale'
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function toMarketplace(row: MarketplaceRow): Marketplace {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.region_name,
+    flag: row.flag,
+    currency: row.currency,
+    domain: row.host.replace(/^www\./, ''),
+    locale: row.locale,
+  }
+}
+
+/**
+ * Error message for a marketplace code that isn't one of the active ones
+ */
+export function invalidMarketplaceMessage(codes: readonly string[]): string {
+  return `Invalid marketplace. Must be one of: ${codes.join(', ')}`
+}
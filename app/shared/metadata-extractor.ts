@@ -0,0 +1,632 @@
+/**
+ * Product Metadata Extractor
+ *
+ * Proposes `metadata.filters` / `metadata.display` for a product from the Amazon
+ * text stored by import-product: `title`, `features`, `technical_info` and
+ * `product_info`. Extraction is rule-based: every rule is a pattern with a base
+ * confidence, scaled by how reliable the text it matched is (the title beats a
+ * feature bullet) and reduced when the texts disagree.
+ *
+ * Only values the filter registry (./metadata-filters) allows are proposed, so
+ * the proposed metadata passes validateMetadata() once every required field of
+ * the product type was found. Used by:
+ * - The admin editor suggestions (GET /api/admin/products/:id/metadata-suggestions)
+ * - The backfill script (scripts/backfill-product-metadata.ts)
+ */
+
+import {
+  buildDisplayMetadata,
+  deriveFilters,
+  getMetadataFields,
+  PRODUCT_TYPES,
+  type MetadataFilterField,
+  type MetadataValue,
+  type ProductType,
+} from './metadata-filters'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Product columns the extractor reads
+ */
+export interface ProductText {
+  title?: string | null
+  features?: readonly string[] | null
+  technical_info?: unknown
+  product_info?: unknown
+}
+
+/**
+ * A proposed `metadata.filters` value
+ */
+export interface MetadataSuggestion {
+  key: string
+  label: string
+  value: MetadataValue
+  confidence: number // 0-1
+  source: string // Where the value was found ("title", "features[2]", "product_info.UnitCount", "chip")
+  match: string // Text the value was extracted from
+}
+
+export interface MetadataProposal {
+  productType: ProductType | null
+  productTypeConfidence: number
+  suggestions: MetadataSuggestion[]
+  metadata: { display: Record<string, string>, filters: Record<string, unknown> } | null // null until every required field is suggested
+}
+
+type RuleValue = MetadataValue | undefined
+
+interface FieldRule {
+  key: string
+  pattern: RegExp // Must have the g flag
+  value: (match: RegExpExecArray) => RuleValue
+  confidence: number
+}
+
+interface TextSource {
+  name: string
+  text: string
+  weight: number
+}
+
+interface Candidate {
+  value: MetadataValue
+  confidence: number
+  source: string
+  match: string
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+const rule = (key: string, pattern: RegExp, value: MetadataValue | FieldRule['value'], confidence: number): FieldRule => ({
+  key,
+  pattern,
+  value: typeof value === 'function' ? value : () => value,
+  confidence,
+})
+
+const number = (text: string | undefined, factor = 1) => {
+  const value = Number(text?.replace(',', '.')) * factor
+  return Number.isFinite(value) ? Math.round(value * 1000) / 1000 : undefined
+}
+
+// Patterns shared by several product types
+const CHIP_RULES = (key: string, confidence: number) => [
+  rule(key, /\bESP32[\s-]?(S2|S3|C3|C6|H2)\b/gi, match => `ESP32-${match[1]!.toUpperCase()}`, confidence),
+  rule(key, /\bESP[\s-]?(?:WROOM|WROVER)[\s-]?32\b|\bESP32(?![\s-]?(?:S2|S3|C3|C6|H2)\b)\b/gi, 'ESP32', confidence - 0.1),
+]
+
+const INTERFACE_RULES = [
+  rule('interfaces', /\bI2C\b|\bIIC\b|\bI²C\b/gi, 'i2c', 0.85),
+  rule('interfaces', /\bSPI\b/gi, 'spi', 0.85),
+  rule('interfaces', /\bUART\b|\bTTL serial\b/gi, 'uart', 0.8),
+  rule('interfaces', /\banalog(?:ue)? (?:output|signal|input)\b/gi, 'analog', 0.7),
+  rule('interfaces', /\bdigital (?:output|signal)\b/gi, 'digital', 0.7),
+  rule('interfaces', /\bparallel\b/gi, 'parallel', 0.7),
+  rule('interfaces', /\bHDMI\b/gi, 'hdmi', 0.85),
+]
+
+const OPERATING_VOLTAGE_RULE = rule(
+  'operating_voltage_v',
+  /\b(?:operating|working|supply) voltage\s*[:=]?\s*(\d+(?:[.,]\d+)?)\s*V(?:olts?)?\b(?!\s*(?:-|~|to)\s*\d)/gi,
+  match => number(match[1]),
+  0.8
+)
+
+const VOLTAGE_RANGE_RULES = [
+  rule('voltage_range_min_v', /\b(\d+(?:[.,]\d+)?)\s*V?\s*(?:-|~|to)\s*(\d+(?:[.,]\d+)?)\s*V(?:olts?|DC)?\b/gi, match => number(match[1]), 0.75),
+  rule('voltage_range_max_v', /\b(\d+(?:[.,]\d+)?)\s*V?\s*(?:-|~|to)\s*(\d+(?:[.,]\d+)?)\s*V(?:olts?|DC)?\b/gi, match => number(match[2]), 0.75),
+]
+
+const PIECES_PATTERN = /\b(\d{1,3})\s*(?:pcs|pieces|pack)\b|\bpack of (\d{1,3})\b|\b(?:number ?of ?items|unit ?count)\s*:\s*(\d{1,3})\b/gi
+
+const FIELD_RULES: Record<ProductType, FieldRule[]> = {
+  development_board: [
+    ...CHIP_RULES('chip', 0.95),
+    rule('form_factor', /\bWROVER\b/gi, 'wrover', 0.8),
+    rule('form_factor', /\bWROOM\b/gi, 'wroom', 0.8),
+    rule('form_factor', /\bdev[\s-]?kit\w*\b|\bdevelopment board\b|\bdev board\b/gi, 'devkit', 0.6),
+    rule('form_factor', /\bmini\b/gi, 'mini', 0.6),
+    rule('form_factor', /\bpico\b/gi, 'pico', 0.7),
+    rule('mcu_architecture', /\bLX6\b/gi, 'Xtensa LX6', 0.85),
+    rule('mcu_architecture', /\bLX7\b/gi, 'Xtensa LX7', 0.85),
+    rule('mcu_architecture', /\bRISC-?V\b/gi, 'RISC-V', 0.85),
+    rule('cpu_cores', /\bdual[\s-]?core\b/gi, 2, 0.85),
+    rule('cpu_cores', /\bsingle[\s-]?core\b/gi, 1, 0.85),
+    rule('cpu_speed_mhz', /\b(80|96|160|240)\s*MHz\b/gi, match => number(match[1]), 0.8),
+    rule('flash_mb', /\b(\d{1,2})\s*M(?:B|byte)?\s*(?:Q?SPI\s*)?Flash\b/gi, match => number(match[1]), 0.9),
+    rule('flash_mb', /\bFlash(?:\s*(?:memory|size))?\s*[:=]?\s*(\d{1,2})\s*M(?:B|byte)\b/gi, match => number(match[1]), 0.9),
+    rule('flash_mb', /\b(\d{2,3})\s*M-?bit\s*Flash\b/gi, match => number(match[1], 1 / 8), 0.75),
+    rule('flash_mb', /\bN(4|8|16|32)R(?:2|8)\b/g, match => number(match[1]), 0.85),
+    rule('psram_mb', /\b(\d{1,2})\s*M(?:B|byte)?\s*O?PSRAM\b/gi, match => number(match[1]), 0.9),
+    rule('psram_mb', /\bPSRAM\s*[:=]?\s*(\d{1,2})\s*M(?:B|byte)\b/gi, match => number(match[1]), 0.9),
+    rule('psram_mb', /\bN(?:4|8|16|32)R(2|8)\b/g, match => number(match[1]), 0.85),
+    rule('psram_mb', /\b(?:no|without) PSRAM\b/gi, 0, 0.7),
+    rule('gpio_pins', /\b(\d{1,3})\s*(?:x\s*)?GPIOs?\b/gi, match => number(match[1]), 0.8),
+    rule('gpio_pins', /\bGPIOs?(?:\s*pins)?\s*[:=]\s*(\d{1,3})\b/gi, match => number(match[1]), 0.8),
+    rule('gpio_pins', /\b(\d{1,3})\s*(?:I\/O|IO) pins\b/gi, match => number(match[1]), 0.7),
+    rule('usb_type', /\b(?:USB[\s-]?)?Type[\s-]?C\b|\bUSB[\s-]?C\b/gi, 'usb_c', 0.9),
+    rule('usb_type', /\bmicro[\s-]?USB\b/gi, 'micro_usb', 0.9),
+    rule('has_wifi', /\bWi-?Fi\b|\b802\.11/gi, true, 0.85),
+    rule('wifi_version', /\bWi-?Fi\s*6\b|\b802\.11\s?ax\b/gi, '6', 0.9),
+    rule('wifi_version', /\bWi-?Fi\s*5\b|\b802\.11\s?ac\b/gi, '5', 0.9),
+    rule('wifi_version', /\bWi-?Fi\s*4\b|\b802\.11\s?(?:b\/g\/)?n\b/gi, '4', 0.85),
+    rule('has_bluetooth', /\bBluetooth\b|\bBLE\b/gi, true, 0.85),
+    rule(
+      'bluetooth_version',
+      /\b(?:Bluetooth|BLE|BT)\s*(?:LE\s*|Low Energy\s*)?v?(\d(?:\.\d)?)\b/gi,
+      match => (match[1] === '5' ? '5.0' : match[1]),
+      0.85
+    ),
+    rule('has_zigbee', /\bZigbee\b/gi, true, 0.85),
+    rule('has_thread', /\bThread\b/g, true, 0.75),
+    rule('has_camera', /\bcamera\b|\bOV\d{4}\b/gi, true, 0.85),
+    rule('has_display', /\b(?:OLED|LCD|TFT|e-?paper|e-?ink)\b|\b(?:built-?in|onboard|integrated)\s+(?:\S+\s+)?(?:display|screen)\b/gi, true, 0.75),
+    rule('has_battery_pins', /\b(?:li-?po|lipo|li-?ion|lithium)\b|\bbattery (?:connector|interface|port|charging|charger|management|socket|pins?)\b|\bJST\b/gi, true, 0.75),
+    rule('has_sd_card', /\b(?:micro\s*)?SD[\s-]?card\b|\b(?:micro\s*)?SD slot\b|\bTF[\s-]?card\b/gi, true, 0.85),
+    rule('pieces', PIECES_PATTERN, match => number(match[1] ?? match[2] ?? match[3]), 0.85),
+    OPERATING_VOLTAGE_RULE,
+  ],
+  sensor: [
+    rule('sensor_types', /\btemperature\b|\bthermometer\b|\bDS18B20\b/gi, 'temperature', 0.85),
+    rule('sensor_types', /\bhumidity\b|\bhygrometer\b/gi, 'humidity', 0.85),
+    rule('sensor_types', /\b(?:barometric )?pressure\b/gi, 'pressure', 0.8),
+    rule('sensor_types', /\bgas\b|\bMQ-?\d{1,3}\b/gi, 'gas', 0.8),
+    rule('sensor_types', /\blight sensor\b|\blux\b|\bBH1750\b|\bphotoresistor\b|\bLDR\b/gi, 'light', 0.8),
+    rule('sensor_types', /\bPIR\b|\bmotion\b|\bHC-?SR501\b/gi, 'motion', 0.8),
+    rule('sensor_types', /\bproximity\b/gi, 'proximity', 0.8),
+    rule('sensor_types', /\baccelerometer\b|\bADXL\d{3}\b|\bMPU-?6050\b/gi, 'accelerometer', 0.85),
+    rule('sensor_types', /\bgyro(?:scope)?\b|\bMPU-?6050\b/gi, 'gyroscope', 0.85),
+    rule('sensor_types', /\bmagnetometer\b|\bcompass\b|\b[HQ]MC5883L?\b/gi, 'magnetometer', 0.85),
+    rule('sensor_types', /\bsound\b|\bmicrophone\b|\bINMP441\b/gi, 'sound', 0.75),
+    rule('sensor_types', /\bdistance\b|\bultrasonic\b|\bHC-?SR04\b|\bVL53L\dX?\b|\btime[\s-]of[\s-]flight\b/gi, 'distance', 0.8),
+    rule('sensor_types', /\bcolou?r sensor\b|\bTCS3\d{3,4}\b/gi, 'color', 0.85),
+    rule('sensor_types', /\bUV\b|\bultraviolet\b/gi, 'uv', 0.8),
+    rule('sensor_types', /\bCO2\b|\bSCD[34]\d\b|\bMH-?Z19\w?\b/gi, 'co2', 0.9),
+    rule('sensor_types', /\bparticulate\b|\bPM2\.5\b|\bPMS\d{4}\b|\bSDS011\b/gi, 'particulate', 0.85),
+    rule('sensor_types', /\bBME[26]80\b|\bBMP[12]80\b/gi, match => /^BME/i.test(match[0]) ? ['temperature', 'humidity', 'pressure'] : ['temperature', 'pressure'], 0.9),
+    rule('sensor_types', /\bDHT(?:11|22)\b|\bAM2302\b|\bSHT[34]\d\b|\bAHT[12]\d\b/gi, ['temperature', 'humidity'], 0.9),
+    ...INTERFACE_RULES,
+    OPERATING_VOLTAGE_RULE,
+    ...VOLTAGE_RANGE_RULES,
+    rule('response_time_ms', /\bresponse time\s*[:=]?\s*[<≤]?\s*(\d+(?:[.,]\d+)?)\s*ms\b/gi, match => number(match[1]), 0.8),
+  ],
+  display: [
+    rule('display_type', /\bOLED\b/gi, 'oled', 0.9),
+    rule('display_type', /\b(?:e-?ink|e-?paper)\b/gi, 'e-ink', 0.9),
+    rule('display_type', /\bTFT\b/gi, 'tft', 0.85),
+    rule('display_type', /(?<!TFT[\s-]?)\bLCD\b/gi, 'lcd', 0.8),
+    rule('display_type', /\bLED (?:dot )?matrix\b|\bMAX7219\b/gi, 'led-matrix', 0.85),
+    rule('screen_size_inches', /\b(\d{1,2}(?:[.,]\d{1,2})?)\s*(?:"|''|″|[\s-]?inch(?:es)?\b)/gi, match => number(match[1]), 0.85),
+    rule('resolution_width', /\b(\d{2,4})\s*[x×*]\s*(\d{2,4})\b/gi, match => number(match[1]), 0.85),
+    rule('resolution_height', /\b(\d{2,4})\s*[x×*]\s*(\d{2,4})\b/gi, match => number(match[2]), 0.85),
+    rule('color_depth_bits', /\b(16|18|24)[\s-]?bit colou?r\b/gi, match => number(match[1]), 0.8),
+    rule('color_depth_bits', /\b65K colou?rs?\b/gi, 16, 0.8),
+    rule('color_depth_bits', /\b262K colou?rs?\b/gi, 18, 0.8),
+    rule('is_color', /\bfull[\s-]?colou?r\b|\bRGB\b|\b(?:65|262)K colou?rs?\b/gi, true, 0.75),
+    rule('is_color', /\bmonochrome\b/gi, false, 0.8),
+    ...INTERFACE_RULES,
+    rule('has_touchscreen', /\btouch\s*(?:screen|panel)?\b/gi, true, 0.8),
+    rule('touchscreen_type', /\bcapacitive\b/gi, 'capacitive', 0.85),
+    rule('touchscreen_type', /\bresistive\b/gi, 'resistive', 0.85),
+    rule('has_backlight', /\bbacklight\b/gi, true, 0.75),
+    OPERATING_VOLTAGE_RULE,
+    ...VOLTAGE_RANGE_RULES,
+  ],
+  power: [
+    rule('module_type', /\bsolar panel\b/gi, 'solar-panel', 0.9),
+    rule('module_type', /\bcharg(?:er|ing) (?:board|module)\b|\bTP4056\b|\bIP5306\b/gi, 'charger', 0.85),
+    rule('module_type', /\b(?:voltage )?regulator\b|\bLDO\b|\bAMS1117\b/gi, 'regulator', 0.85),
+    rule('module_type', /\bbuck\b|\bboost\b|\bstep[\s-]?(?:up|down)\b|\bDC[\s-]?DC\b|\bLM2596\b|\bMT3608\b|\bXL6009\b/gi, 'converter', 0.85),
+    rule('module_type', /\bbatter(?:y|ies)\b/gi, 'battery', 0.6),
+    rule('input_voltage_min_v', /\binput(?: voltage)?\s*[:=]?\s*(?:DC\s*)?(\d+(?:[.,]\d+)?)\s*V?\s*(?:-|~|to)\s*(\d+(?:[.,]\d+)?)\s*V\b/gi, match => number(match[1]), 0.8),
+    rule('input_voltage_max_v', /\binput(?: voltage)?\s*[:=]?\s*(?:DC\s*)?(\d+(?:[.,]\d+)?)\s*V?\s*(?:-|~|to)\s*(\d+(?:[.,]\d+)?)\s*V\b/gi, match => number(match[2]), 0.8),
+    rule('output_voltage_v', /\boutput(?: voltage)?\s*[:=]?\s*(?:DC\s*)?(\d+(?:[.,]\d+)?)\s*V\b(?!\s*(?:-|~|to)\s*\d)/gi, match => number(match[1]), 0.8),
+    rule('output_current_a', /\boutput(?: current)?\s*[:=]?\s*(?:max\.?\s*)?(\d+(?:[.,]\d+)?)\s*A\b/gi, match => number(match[1]), 0.75),
+    rule('output_current_a', /\boutput(?: current)?\s*[:=]?\s*(?:max\.?\s*)?(\d+)\s*mA\b/gi, match => number(match[1], 1 / 1000), 0.75),
+    rule('efficiency_percent', /\befficiency\s*(?:up to|of)?\s*[:=]?\s*(\d{2,3})\s*%/gi, match => number(match[1]), 0.8),
+    rule('protection_features', /\bover[\s-]?current\b/gi, 'overcurrent', 0.8),
+    rule('protection_features', /\bover[\s-]?voltage\b/gi, 'overvoltage', 0.8),
+    rule('protection_features', /\breverse[\s-]?(?:polarity|connection)\b/gi, 'reverse-polarity', 0.8),
+    rule('protection_features', /\bshort[\s-]?circuit\b/gi, 'short-circuit', 0.8),
+    rule('protection_features', /\bthermal\b|\bover[\s-]?temperature\b/gi, 'thermal', 0.75),
+    rule('battery_type', /\bli-?po\b|\blipo\b|\blithium polymer\b/gi, 'li-po', 0.85),
+    rule('battery_type', /\bli-?ion\b|\blithium[\s-]ion\b|\b18650\b/gi, 'li-ion', 0.85),
+    rule('battery_type', /\bNiMH\b/gi, 'nimh', 0.85),
+    rule('battery_type', /\balkaline\b/gi, 'alkaline', 0.85),
+    rule('battery_capacity_mah', /\b(\d{2,5})\s*mAh\b/gi, match => number(match[1]), 0.85),
+  ],
+  communication: [
+    rule('protocol', /\bLoRa(?:WAN)?\b|\bSX12[67]\d\b|\bRFM9[56]\b/gi, 'lora', 0.9),
+    rule('protocol', /\bNFC\b|\bPN532\b/gi, 'nfc', 0.85),
+    rule('protocol', /\bRFID\b|\bRC522\b/gi, 'rfid', 0.85),
+    rule('protocol', /\bGSM\b|\bGPRS\b|\bLTE\b|\bNB-?IoT\b|\bSIM(?:800|900|7[06]00)\w*\b/gi, 'cellular', 0.85),
+    rule('protocol', /\bZigbee\b/gi, 'zigbee', 0.85),
+    rule('protocol', /\bBluetooth\b|\bHC-0[56]\b|\bHM-1[09]\b/gi, 'bluetooth', 0.75),
+    rule('protocol', /\bWi-?Fi\b|\bESP-?01S?\b|\bESP8266\b/gi, 'wifi', 0.75),
+    rule('frequency_mhz', /\b(\d{3,4}(?:[.,]\d+)?)\s*MHz\b/gi, match => number(match[1]), 0.85),
+    rule('frequency_mhz', /\b(\d{1,2}(?:[.,]\d+)?)\s*GHz\b/gi, match => number(match[1], 1000), 0.8),
+    rule('range_meters', /\b(?:range|distance)\b\D{0,20}?(\d+(?:[.,]\d+)?)\s*(k?m)\b/gi, match => number(match[1], match[2]!.toLowerCase() === 'km' ? 1000 : 1), 0.6),
+    rule('interfaces', /\bI2C\b|\bIIC\b/gi, 'i2c', 0.85),
+    rule('interfaces', /\bSPI\b/gi, 'spi', 0.85),
+    rule('interfaces', /\bUART\b|\bTTL serial\b/gi, 'uart', 0.8),
+    rule('interfaces', /\bUSB\b/gi, 'usb', 0.6),
+    rule('antenna_type', /\bu\.?fl\b|\bIPEX\b/gi, 'ufl-connector', 0.85),
+    rule('antenna_type', /\bSMA\b/gi, 'sma-connector', 0.85),
+    rule('antenna_type', /\bPCB antenna\b/gi, 'pcb-trace', 0.8),
+    rule('antenna_type', /\bexternal antenna\b/gi, 'external', 0.7),
+    OPERATING_VOLTAGE_RULE,
+  ],
+  accessory: [
+    rule('accessory_type', /\bjumper (?:wires?|cables?)\b|\bdupont\b/gi, 'jumper-wires', 0.9),
+    rule('accessory_type', /\bbreadboards?\b/gi, 'breadboard', 0.9),
+    rule('accessory_type', /\bcables?\b/gi, 'cable', 0.7),
+    rule('accessory_type', /\badapters?\b/gi, 'adapter', 0.75),
+    rule('accessory_type', /\bcase\b|\benclosure\b|\bhousing\b/gi, 'case', 0.8),
+    rule('accessory_type', /\bantennas?\b/gi, 'antenna', 0.85),
+    rule('accessory_type', /\bsoldering\b|\bmultimeter\b|\btweezers\b|\bcrimp\w*\b|\bwire strippers?\b/gi, 'tools', 0.8),
+    rule('accessory_type', /\bkit\b/gi, 'kit', 0.7),
+    rule('length_cm', /\b(\d+(?:[.,]\d+)?)\s*cm\b/gi, match => number(match[1]), 0.8),
+    rule('length_cm', /\b(\d+(?:[.,]\d+)?)\s*(?:m|meters?|metres?)\b/gi, match => number(match[1], 100), 0.75),
+    rule('connector_types', /\b(?:USB[\s-]?)?Type[\s-]?C\b|\bUSB[\s-]?C\b/gi, 'usb-c', 0.85),
+    rule('connector_types', /\bmicro[\s-]?USB\b/gi, 'micro-usb', 0.85),
+    rule('connector_types', /\bUSB[\s-]?A\b/gi, 'usb-a', 0.8),
+    rule('connector_types', /\bmale[\s-]+(?:to[\s-]+)?male\b/gi, 'male-male', 0.85),
+    rule('connector_types', /\bfemale[\s-]+(?:to[\s-]+)?female\b/gi, 'female-female', 0.85),
+    rule('connector_types', /\bmale[\s-]+(?:to[\s-]+)?female\b|\bfemale[\s-]+(?:to[\s-]+)?male\b/gi, 'male-female', 0.85),
+    rule('quantity', PIECES_PATTERN, match => number(match[1] ?? match[2] ?? match[3]), 0.85),
+    ...CHIP_RULES('compatible_with', 0.7),
+  ],
+}
+
+/**
+ * Keywords that identify a product type, with their weight
+ */
+const PRODUCT_TYPE_RULES: Record<ProductType, Array<[RegExp, number]>> = {
+  development_board: [
+    [/\bdev(?:elopment)?[\s-]?(?:board|kit)\b|\bdevkit\w*\b|\bNodeMCU\b|\bWROOM\b|\bWROVER\b/i, 3],
+    [/\bESP32\b/i, 1.5],
+    [/\bmicro-?controller\b|\bMCU\b/i, 1],
+    [/\bfor (?:ESP32|Arduino|Raspberry)\b/i, -1.5],
+  ],
+  sensor: [
+    [/\bsensors?\b/i, 3],
+    [/\bBME[26]80\b|\bBMP[12]80\b|\bDHT(?:11|22)\b|\bDS18B20\b|\bMPU-?6050\b|\bHC-?SR0[14]\b|\bVL53L\dX?\b|\bSCD[34]\d\b/i, 2],
+  ],
+  display: [
+    [/\bdisplay\b|\bscreen\b/i, 1.5],
+    [/\bOLED\b|\bLCD\b|\bTFT\b|\be-?ink\b|\be-?paper\b/i, 2],
+  ],
+  power: [
+    [/\bcharg(?:er|ing) (?:board|module)\b|\bregulator\b|\bbuck\b|\bboost\b|\bstep[\s-]?(?:up|down)\b|\bsolar panel\b|\bpower supply\b/i, 3],
+    [/\b(?:li-?ion|li-?po|lipo) batter(?:y|ies)\b|\b18650\b|\bTP4056\b/i, 2],
+  ],
+  communication: [
+    [/\bLoRa\b|\bSX12[67]\d\b|\bnRF24L01\b|\bRFID\b|\bNFC\b|\bRC522\b|\bPN532\b|\bGSM\b|\bGPRS\b|\bSIM800\w*\b|\btransceiver\b/i, 3],
+    [/\bHC-0[56]\b|\bESP-?01S?\b|\bZigbee module\b/i, 2],
+  ],
+  accessory: [
+    [/\bjumper (?:wires?|cables?)\b|\bdupont\b|\bbreadboards?\b|\benclosure\b|\bcase\b|\bantenna\b|\bsoldering\b/i, 3],
+    [/\bcables?\b|\badapters?\b|\bstarter kit\b/i, 2],
+  ],
+}
+
+/**
+ * Specifications implied by the chip when the text doesn't mention them
+ */
+const CHIP_CAPABILITIES: Record<string, Record<string, MetadataValue>> = {
+  'ESP32': { mcu_architecture: 'Xtensa LX6', cpu_cores: 2, cpu_speed_mhz: 240, has_wifi: true, wifi_version: '4', has_bluetooth: true, bluetooth_version: '4.2' },
+  'ESP32-S2': { mcu_architecture: 'Xtensa LX7', cpu_cores: 1, cpu_speed_mhz: 240, has_wifi: true, wifi_version: '4', has_bluetooth: false },
+  'ESP32-S3': { mcu_architecture: 'Xtensa LX7', cpu_cores: 2, cpu_speed_mhz: 240, has_wifi: true, wifi_version: '4', has_bluetooth: true, bluetooth_version: '5.0' },
+  'ESP32-C3': { mcu_architecture: 'RISC-V', cpu_cores: 1, cpu_speed_mhz: 160, has_wifi: true, wifi_version: '4', has_bluetooth: true, bluetooth_version: '5.0' },
+  'ESP32-C6': { mcu_architecture: 'RISC-V', cpu_cores: 1, cpu_speed_mhz: 160, has_wifi: true, wifi_version: '6', has_bluetooth: true, bluetooth_version: '5.3', has_zigbee: true, has_thread: true },
+  'ESP32-H2': { mcu_architecture: 'RISC-V', cpu_cores: 1, cpu_speed_mhz: 96, has_wifi: false, has_bluetooth: true, bluetooth_version: '5.3', has_zigbee: true, has_thread: true },
+}
+
+// Confidence of implied specifications relative to the chip's
+const CHIP_CAPABILITY_FACTOR = 0.9
+
+// How much a text source is trusted relative to the title
+const SOURCE_WEIGHTS = {
+  title: 1,
+  technical_info: 0.95,
+  product_info: 0.95,
+  features: 0.85,
+}
+
+// Weight of a product type keyword found outside the title
+const TYPE_KEYWORD_FEATURE_WEIGHT = 0.3
+
+// Keyword score at which a product type is fully trusted (one strong keyword)
+const TYPE_SCORE_CONFIDENT = 3
+
+// ============================================================================
+// TEXT SOURCES
+// ============================================================================
+
+function collectSources(product: ProductText): TextSource[] {
+  const sources: TextSource[] = []
+
+  if (product.title?.trim()) {
+    sources.push({ name: 'title', text: product.title, weight: SOURCE_WEIGHTS.title })
+  }
+
+  for (const column of ['technical_info', 'product_info'] as const) {
+    for (const [name, text] of flattenInfo(product[column], column)) {
+      sources.push({ name, text, weight: SOURCE_WEIGHTS[column] })
+    }
+  }
+
+  product.features?.forEach((text, index) => {
+    if (typeof text === 'string' && text.trim()) {
+      sources.push({ name: `features[${index}]`, text, weight: SOURCE_WEIGHTS.features })
+    }
+  })
+
+  return sources
+}
+
+/**
+ * Flatten technical_info / product_info into "Label: value" lines. Handles both
+ * PA-API attributes ({ DisplayValue(s), Label, Unit }) and plain key/value objects.
+ */
+function flattenInfo(value: unknown, path: string, label?: string): Array<[string, string]> {
+  if (value === null || value === undefined) return []
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return [[path, label ? `${label}: ${value}` : String(value)]]
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => flattenInfo(item, `${path}[${index}]`, label))
+  }
+
+  if (typeof value !== 'object') return []
+
+  const record = value as Record<string, unknown>
+  if ('DisplayValue' in record || 'DisplayValues' in record) {
+    const attributeLabel = typeof record.Label === 'string' ? record.Label : label
+    const unit = typeof record.Unit === 'string' ? ` ${record.Unit}` : ''
+    const values = Array.isArray(record.DisplayValues) ? record.DisplayValues : [record.DisplayValue]
+
+    return values
+      .filter(item => item !== null && item !== undefined && typeof item !== 'object')
+      .map(item => [path, attributeLabel ? `${attributeLabel}: ${item}${unit}` : `${item}${unit}`])
+  }
+
+  return Object.entries(record).flatMap(([key, item]) => flattenInfo(item, `${path}.${key}`, key))
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Detect the product type from keywords, weighting the title over the other text
+ */
+export function detectProductType(product: ProductText): { productType: ProductType | null, confidence: number } {
+  const title = product.title ?? ''
+  const otherText = collectSources(product).filter(source => source.name !== 'title').map(source => source.text).join('\n')
+
+  const scores = PRODUCT_TYPES.map((type) => {
+    let score = 0
+    let inTitle = false
+    for (const [pattern, weight] of PRODUCT_TYPE_RULES[type]) {
+      if (pattern.test(title)) {
+        score += weight
+        inTitle ||= weight > 0
+      } else if (pattern.test(otherText)) {
+        score += weight * TYPE_KEYWORD_FEATURE_WEIGHT
+      }
+    }
+    return { type, score, inTitle }
+  }).sort((a, b) => b.score - a.score)
+
+  const [best, runnerUp] = scores
+  if (!best || best.score <= 0) return { productType: null, confidence: 0 }
+
+  const share = best.score / (best.score + Math.max(runnerUp?.score ?? 0, 0))
+  const strength = Math.min(best.score / TYPE_SCORE_CONFIDENT, 1)
+  return {
+    productType: best.type,
+    confidence: round(Math.min(share * strength, 0.95) * (best.inTitle ? 1 : 0.7)),
+  }
+}
+
+function isAllowedValue(field: MetadataFilterField, value: MetadataValue): boolean {
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string') return false
+      break
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return false
+      break
+    case 'integer':
+      if (!Number.isInteger(value)) return false
+      break
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'string[]':
+      return typeof value === 'string' && (!field.options || field.options.some(option => option.value === value))
+  }
+
+  if (field.options && !field.options.some(option => option.value === value)) return false
+  if (field.minimum !== undefined && (value as number) < field.minimum) return false
+  if (field.maximum !== undefined && (value as number) > field.maximum) return false
+  return true
+}
+
+function findCandidates(type: ProductType, sources: TextSource[]): Map<string, Candidate[]> {
+  const fields = new Map(getMetadataFields(type).map(field => [field.key, field]))
+  const candidates = new Map<string, Candidate[]>()
+
+  for (const source of sources) {
+    for (const fieldRule of FIELD_RULES[type]) {
+      const field = fields.get(fieldRule.key)
+      if (!field) continue
+
+      for (const match of source.text.matchAll(fieldRule.pattern)) {
+        const value = fieldRule.value(match)
+        // List rules (e.g. BME280) can add several items at once
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item === undefined || !isAllowedValue(field, item)) continue
+
+          const fieldCandidates = candidates.get(field.key) ?? []
+          fieldCandidates.push({
+            value: item,
+            confidence: fieldRule.confidence * source.weight,
+            source: source.name,
+            match: match[0],
+          })
+          candidates.set(field.key, fieldCandidates)
+        }
+      }
+    }
+  }
+
+  return candidates
+}
+
+/**
+ * Pick the value found most often. Disagreeing texts lower the confidence,
+ * by up to half when every other match points at a different value.
+ */
+function resolveCandidates(field: MetadataFilterField, candidates: Candidate[]): MetadataSuggestion {
+  const best = (group: Candidate[]) => group.reduce((a, b) => (b.confidence > a.confidence ? b : a))
+
+  if (field.type === 'string[]') {
+    const byItem = new Map<string, Candidate[]>()
+    for (const candidate of candidates) {
+      byItem.set(String(candidate.value), [...(byItem.get(String(candidate.value)) ?? []), candidate])
+    }
+
+    const items = [...byItem.values()].map(best)
+    const order = (value: MetadataValue) => field.options?.findIndex(option => option.value === value) ?? 0
+    const strongest = best(items)
+
+    return {
+      key: field.key,
+      label: field.label,
+      value: items.map(item => String(item.value)).sort((a, b) => order(a) - order(b)),
+      confidence: round(items.reduce((sum, item) => sum + item.confidence, 0) / items.length),
+      source: strongest.source,
+      match: strongest.match,
+    }
+  }
+
+  const groups = new Map<string, Candidate[]>()
+  for (const candidate of candidates) {
+    const key = JSON.stringify(candidate.value)
+    groups.set(key, [...(groups.get(key) ?? []), candidate])
+  }
+
+  const score = (group: Candidate[]) => group.reduce((sum, candidate) => sum + candidate.confidence, 0)
+  const total = score(candidates)
+  const winner = [...groups.values()].reduce((a, b) => (score(b) > score(a) ? b : a))
+  const strongest = best(winner)
+
+  return {
+    key: field.key,
+    label: field.label,
+    value: strongest.value,
+    confidence: round(strongest.confidence * (0.5 + 0.5 * score(winner) / total)),
+    source: strongest.source,
+    match: strongest.match,
+  }
+}
+
+/**
+ * Propose metadata for a product. Pass `productType` when it is already known
+ * (e.g. set in the editor); otherwise it is detected from the text.
+ */
+export function extractMetadata(product: ProductText, productType?: ProductType): MetadataProposal {
+  const detected = productType ? { productType, confidence: 1 } : detectProductType(product)
+  if (!detected.productType) {
+    return { productType: null, productTypeConfidence: 0, suggestions: [], metadata: null }
+  }
+
+  const type = detected.productType
+  const fields = getMetadataFields(type).filter(field => !field.derived)
+  const candidates = findCandidates(type, collectSources(product))
+
+  const suggestions = new Map<string, MetadataSuggestion>()
+  for (const field of fields) {
+    const fieldCandidates = candidates.get(field.key)
+    if (fieldCandidates?.length) suggestions.set(field.key, resolveCandidates(field, fieldCandidates))
+  }
+
+  // Fill in what the chip implies (e.g. an ESP32-C6 has WiFi 6 and Thread)
+  const chip = suggestions.get('chip')
+  if (chip && type === 'development_board') {
+    for (const [key, value] of Object.entries(CHIP_CAPABILITIES[String(chip.value)] ?? {})) {
+      const field = fields.find(f => f.key === key)
+      if (!field || suggestions.has(key) || !isAllowedValue(field, value)) continue
+
+      suggestions.set(key, {
+        key,
+        label: field.label,
+        value,
+        confidence: round(chip.confidence * CHIP_CAPABILITY_FACTOR),
+        source: 'chip',
+        match: String(chip.value),
+      })
+    }
+  }
+
+  // A detail (e.g. wifi_version) implies its toggle; a toggle that is off drops its details
+  for (const field of fields) {
+    const suggestion = suggestions.get(field.key)
+    if (!field.dependsOn || !suggestion) continue
+
+    const parent = suggestions.get(field.dependsOn)
+    if (parent?.value === false) {
+      suggestions.delete(field.key)
+    } else if (!parent) {
+      const parentField = fields.find(f => f.key === field.dependsOn)
+      if (parentField) {
+        suggestions.set(parentField.key, { ...suggestion, key: parentField.key, label: parentField.label, value: true })
+      }
+    }
+  }
+
+  const ordered = fields.flatMap(field => suggestions.get(field.key) ?? [])
+
+  return {
+    productType: type,
+    productTypeConfidence: detected.confidence,
+    suggestions: ordered,
+    metadata: buildProposedMetadata(type, ordered),
+  }
+}
+
+/**
+ * Build `metadata` from accepted suggestions, or null when a required field
+ * (e.g. a development board's chip) is missing
+ */
+export function buildProposedMetadata(
+  type: ProductType,
+  suggestions: readonly MetadataSuggestion[]
+): { display: Record<string, string>, filters: Record<string, unknown> } | null {
+  const fields = getMetadataFields(type)
+  const filters: Record<string, unknown> = { product_type: type }
+
+  for (const suggestion of suggestions) {
+    filters[suggestion.key] = suggestion.value
+  }
+
+  for (const field of fields) {
+    if (field.dependsOn && filters[field.dependsOn] !== true) delete filters[field.key]
+  }
+
+  if (fields.some(field => field.required && filters[field.key] === undefined)) return null
+
+  const derived = deriveFilters(type, filters)
+  return { display: buildDisplayMetadata(type, derived), filters: derived }
+}
@@ -0,0 +1,1012 @@
+/**
+ * Product Metadata Filter Registry
+ *
+ * Single source of truth for the machine-readable `metadata.filters` vocabulary
+ * of every product type. The registry drives:
+ * - The Ajv validation schemas (server/utils/metadata-schemas.ts)
+ * - The admin metadata editor form fields (pages/admin/products/[id]/edit.vue)
+ * - The catalog filter UI and query parameters (pages/products/index.vue)
+ * - The metadata migration script (scripts/migrate-metadata-filters.ts)
+ * - The metadata extractor's proposals (shared/metadata-extractor.ts)
+ *
+ * The catalog SQL (product_matches_filters / product_filter_facets) mirrors the
+ * `catalog` entries below and must be updated together with them.
+ *
+ * Older keys that were written by previous versions of the editor, schemas or
+ * catalog are listed as `legacyKeys` so canonicalizeMetadata() can rewrite them.
+ *
+ * This module has no imports so it can be shared by the app, Nitro, vitest and
+ * Deno scripts.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Product type enum - defines the 6 supported product categories
+ */
+export type ProductType =
+  | 'development_board'
+  | 'sensor'
+  | 'display'
+  | 'power'
+  | 'communication'
+  | 'accessory'
+
+export type MetadataFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'string[]'
+
+export type MetadataValue = string | number | boolean | string[]
+
+export interface MetadataFieldOption {
+  value: string | number
+  label: string
+}
+
+/**
+ * Catalog filter backed by a metadata field
+ * - equals: product value equals the selected option
+ * - min: product value is at least the selected option ("none" matches a missing/zero value)
+ * - flag: boolean feature toggle
+ */
+export interface CatalogFilter {
+  param: string
+  label: string
+  match: 'equals' | 'min' | 'flag'
+  options?: readonly MetadataFieldOption[] // Defaults to the field options
+}
+
+/**
+ * A `metadata.filters` field
+ */
+export interface MetadataFilterField {
+  key: string
+  label: string
+  type: MetadataFieldType
+  required?: boolean
+  options?: readonly MetadataFieldOption[] // Allowed values (items for string[])
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  unit?: string
+  group?: string // Editor fieldset (e.g. "Connectivity")
+  dependsOn?: string // Boolean field that must be set for this field to apply
+  derived?: boolean // Computed by the product type's derive(), not edited directly
+  legacyKeys?: readonly string[]
+  display?: {
+    key: string
+    format: (value: MetadataValue) => string
+  }
+  catalog?: CatalogFilter
+}
+
+/**
+ * Metadata definition of a product type
+ */
+export interface ProductTypeDefinition {
+  type: ProductType
+  label: string
+  fields: readonly MetadataFilterField[]
+  displayKeys: readonly string[] // Allowed `metadata.display` keys
+  requiredDisplayKeys: readonly string[]
+  derive?: (filters: Record<string, unknown>) => Record<string, unknown> // Filters computed from other filters
+  summarize?: (filters: Record<string, unknown>) => Record<string, string> // Aggregated display values ('' when empty)
+}
+
+/**
+ * Value that could not be converted to the canonical vocabulary
+ */
+export interface UnconvertedMetadataValue {
+  key: string
+  value: unknown
+  reason: string
+}
+
+export interface CanonicalizeResult {
+  metadata: { display: Record<string, unknown>, filters: Record<string, unknown> }
+  changed: boolean
+  changes: string[] // Human-readable conversions ("flash_size -> flash_mb")
+  unconverted: UnconvertedMetadataValue[]
+}
+
+// ============================================================================
+// OPTIONS
+// ============================================================================
+
+const CHIP_OPTIONS = [
+  { value: 'ESP32', label: 'ESP32' },
+  { value: 'ESP32-S2', label: 'ESP32-S2' },
+  { value: 'ESP32-S3', label: 'ESP32-S3' },
+  { value: 'ESP32-C3', label: 'ESP32-C3' },
+  { value: 'ESP32-C6', label: 'ESP32-C6' },
+  { value: 'ESP32-H2', label: 'ESP32-H2' },
+] as const
+
+const USB_TYPE_LABELS: Record<string, string> = {
+  micro_usb: 'Micro USB',
+  usb_c: 'USB-C',
+  usb_a: 'USB-A',
+}
+
+const plural = (value: number, singular: string, pluralForm = `${singular}s`) =>
+  `${value} ${value === 1 ? singular : pluralForm}`
+
+const optionLabel = (options: readonly MetadataFieldOption[], value: MetadataValue) =>
+  options.find(option => option.value === value)?.label ?? String(value)
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const developmentBoard: ProductTypeDefinition = {
+  type: 'development_board',
+  label: 'Development Board',
+  fields: [
+    {
+      key: 'chip',
+      label: 'Chip Model',
+      type: 'string',
+      required: true,
+      options: CHIP_OPTIONS,
+      display: { key: 'chip', format: String },
+      catalog: { param: 'chip', label: 'Chip Model', match: 'equals' },
+    },
+    {
+      key: 'mcu_architecture',
+      label: 'MCU Architecture',
+      type: 'string',
+      options: [
+        { value: 'Xtensa LX6', label: 'Xtensa LX6' },
+        { value: 'Xtensa LX7', label: 'Xtensa LX7' },
+        { value: 'RISC-V', label: 'RISC-V' },
+      ],
+      display: { key: 'mcu_architecture', format: String },
+    },
+    {
+      key: 'cpu_cores',
+      label: 'CPU Cores',
+      type: 'integer',
+      options: [
+        { value: 1, label: '1 Core (Single-core)' },
+        { value: 2, label: '2 Cores (Dual-core)' },
+      ],
+      display: { key: 'cpu_cores', format: value => plural(Number(value), 'Core') },
+    },
+    {
+      key: 'cpu_speed_mhz',
+      label: 'CPU Speed',
+      type: 'number',
+      minimum: 0,
+      unit: 'MHz',
+      display: { key: 'cpu_speed', format: value => `${value} MHz` },
+    },
+    {
+      key: 'usb_ports',
+      label: 'USB Ports',
+      type: 'integer',
+      minimum: 0,
+      display: { key: 'usb_ports', format: value => plural(Number(value), 'USB Port') },
+    },
+    {
+      key: 'pieces',
+      label: 'Pieces in Package',
+      type: 'integer',
+      minimum: 1,
+      display: { key: 'pieces', format: value => plural(Number(value), 'Piece') },
+    },
+    {
+      key: 'psram_mb',
+      label: 'PSRAM',
+      type: 'number',
+      minimum: 0,
+      unit: 'MB',
+      legacyKeys: ['psram_size'],
+      display: { key: 'psram', format: value => `${value}MB PSRAM` },
+      catalog: {
+        param: 'psram',
+        label: 'PSRAM Size',
+        match: 'min',
+        options: [
+          { value: 'none', label: 'No PSRAM' },
+          { value: '2', label: '2MB' },
+          { value: '8', label: '8MB+' },
+        ],
+      },
+    },
+    {
+      key: 'flash_mb',
+      label: 'Flash Memory',
+      type: 'number',
+      minimum: 0,
+      unit: 'MB',
+      legacyKeys: ['flash_size'],
+      display: { key: 'flash', format: value => `${value}MB Flash` },
+      catalog: {
+        param: 'flash',
+        label: 'Flash Size',
+        match: 'min',
+        options: [
+          { value: '4', label: '4MB' },
+          { value: '8', label: '8MB' },
+          { value: '16', label: '16MB+' },
+        ],
+      },
+    },
+    {
+      key: 'gpio_pins',
+      label: 'GPIO Pins',
+      type: 'integer',
+      minimum: 0,
+      maximum: 100,
+      legacyKeys: ['gpio_count'],
+      display: { key: 'gpio', format: value => `${value} GPIO pins` },
+      catalog: {
+        param: 'gpio',
+        label: 'GPIO Pins',
+        match: 'min',
+        options: [
+          { value: '20', label: '20+ pins' },
+          { value: '30', label: '30+ pins' },
+          { value: '40', label: '40+ pins' },
+        ],
+      },
+    },
+    {
+      key: 'has_wifi',
+      label: 'WiFi',
+      type: 'boolean',
+      group: 'Connectivity',
+    },
+    {
+      key: 'wifi_version',
+      label: 'WiFi Version',
+      type: 'string',
+      group: 'Connectivity',
+      dependsOn: 'has_wifi',
+      options: [
+        { value: '4', label: 'WiFi 4 (802.11n)' },
+        { value: '5', label: 'WiFi 5 (802.11ac)' },
+        { value: '6', label: 'WiFi 6 (802.11ax)' },
+      ],
+      legacyKeys: ['wifi_generation'],
+      display: { key: 'wifi', format: value => `WiFi ${value}` },
+      catalog: { param: 'wifi', label: 'WiFi Version', match: 'equals' },
+    },
+    {
+      key: 'has_bluetooth',
+      label: 'Bluetooth',
+      type: 'boolean',
+      group: 'Connectivity',
+      legacyKeys: ['has_ble'],
+    },
+    {
+      key: 'bluetooth_version',
+      label: 'Bluetooth Version',
+      type: 'string',
+      group: 'Connectivity',
+      dependsOn: 'has_bluetooth',
+      options: [
+        { value: '4.2', label: 'Bluetooth 4.2' },
+        { value: '5.0', label: 'Bluetooth 5.0 (LE)' },
+        { value: '5.1', label: 'Bluetooth 5.1 (LE)' },
+        { value: '5.2', label: 'Bluetooth 5.2 (LE)' },
+        { value: '5.3', label: 'Bluetooth 5.3 (LE)' },
+        { value: '5.4', label: 'Bluetooth 5.4 (LE)' },
+      ],
+      display: { key: 'bluetooth', format: value => `Bluetooth ${value}` },
+      catalog: { param: 'bluetooth', label: 'Bluetooth', match: 'equals' },
+    },
+    {
+      key: 'has_zigbee',
+      label: 'Zigbee',
+      type: 'boolean',
+      group: 'Connectivity',
+      catalog: { param: 'zigbee', label: 'Zigbee', match: 'flag' },
+    },
+    {
+      key: 'has_thread',
+      label: 'Thread',
+      type: 'boolean',
+      group: 'Connectivity',
+      catalog: { param: 'thread', label: 'Thread', match: 'flag' },
+    },
+    {
+      key: 'usb_type',
+      label: 'USB Port',
+      type: 'string',
+      options: Object.entries(USB_TYPE_LABELS).map(([value, label]) => ({ value, label })),
+      display: { key: 'usb', format: value => USB_TYPE_LABELS[String(value)] ?? String(value) },
+      catalog: { param: 'usb', label: 'USB Type', match: 'equals' },
+    },
+    {
+      key: 'has_camera',
+      label: 'Camera Support',
+      type: 'boolean',
+      group: 'Hardware Features',
+      legacyKeys: ['has_camera_connector'],
+      catalog: { param: 'camera', label: 'Camera', match: 'flag' },
+    },
+    {
+      key: 'has_display',
+      label: 'Built-in Display',
+      type: 'boolean',
+      group: 'Hardware Features',
+      catalog: { param: 'display', label: 'Display', match: 'flag' },
+    },
+    {
+      key: 'has_battery_pins',
+      label: 'Battery Connector',
+      type: 'boolean',
+      group: 'Hardware Features',
+      legacyKeys: ['has_battery', 'has_battery_connector'],
+      catalog: { param: 'battery', label: 'Battery', match: 'flag' },
+    },
+    {
+      key: 'has_sd_card',
+      label: 'SD Card Slot',
+      type: 'boolean',
+      group: 'Hardware Features',
+      catalog: { param: 'sdcard', label: 'SD Card', match: 'flag' },
+    },
+    {
+      key: 'form_factor',
+      label: 'Form Factor',
+      type: 'string',
+      options: [
+        { value: 'devkit', label: 'DevKit' },
+        { value: 'mini', label: 'Mini' },
+        { value: 'pico', label: 'Pico' },
+        { value: 'wrover', label: 'WROVER' },
+        { value: 'wroom', label: 'WROOM' },
+      ],
+      display: { key: 'form_factor', format: value => optionLabel(developmentBoardFormFactors, value) },
+    },
+    {
+      key: 'operating_voltage_v',
+      label: 'Operating Voltage',
+      type: 'number',
+      unit: 'V',
+      display: { key: 'operating_voltage', format: value => `${value}V` },
+    },
+    {
+      key: 'chip_series',
+      label: 'Chip Series',
+      type: 'string',
+      derived: true,
+      options: [
+        { value: 'ESP32', label: 'ESP32' },
+        { value: 'ESP32-S', label: 'ESP32-S' },
+        { value: 'ESP32-C', label: 'ESP32-C' },
+        { value: 'ESP32-H', label: 'ESP32-H' },
+      ],
+    },
+  ],
+  displayKeys: [
+    'product_type', 'chip', 'mcu_architecture', 'cpu_cores', 'cpu_speed', 'usb_ports', 'pieces', 'psram',
+    'flash', 'gpio', 'wifi', 'bluetooth', 'usb', 'form_factor', 'operating_voltage', 'connectivity', 'features',
+  ],
+  requiredDisplayKeys: ['product_type', 'chip'],
+  derive: (filters) => {
+    const chip = typeof filters.chip === 'string' ? filters.chip : ''
+    const series = /^ESP32-[SCH]/.exec(chip)?.[0] ?? (chip === 'ESP32' ? 'ESP32' : undefined)
+    return series ? { chip_series: series } : {}
+  },
+  summarize: (filters) => {
+    const connectivity = [
+      filters.has_wifi ? (filters.wifi_version ? `WiFi ${filters.wifi_version}` : 'WiFi') : null,
+      filters.has_bluetooth ? (filters.bluetooth_version ? `Bluetooth ${filters.bluetooth_version}` : 'Bluetooth') : null,
+      filters.has_zigbee ? 'Zigbee' : null,
+      filters.has_thread ? 'Thread' : null,
+    ].filter(Boolean)
+
+    const features = [
+      filters.has_camera ? 'Camera' : null,
+      filters.has_display ? 'Display' : null,
+      filters.has_battery_pins ? 'Battery' : null,
+      filters.has_sd_card ? 'SD Card' : null,
+    ].filter(Boolean)
+
+    return {
+      connectivity: connectivity.join(', '),
+      features: features.join(', '),
+    }
+  },
+}
+
+const developmentBoardFormFactors = developmentBoard.fields.find(field => field.key === 'form_factor')!.options!
+
+const sensor: ProductTypeDefinition = {
+  type: 'sensor',
+  label: 'Sensor',
+  fields: [
+    {
+      key: 'sensor_types',
+      label: 'Sensor Types',
+      type: 'string[]',
+      required: true,
+      minItems: 1,
+      options: [
+        { value: 'temperature', label: 'Temperature' },
+        { value: 'humidity', label: 'Humidity' },
+        { value: 'pressure', label: 'Pressure' },
+        { value: 'gas', label: 'Gas' },
+        { value: 'light', label: 'Light' },
+        { value: 'motion', label: 'Motion' },
+        { value: 'proximity', label: 'Proximity' },
+        { value: 'accelerometer', label: 'Accelerometer' },
+        { value: 'gyroscope', label: 'Gyroscope' },
+        { value: 'magnetometer', label: 'Magnetometer' },
+        { value: 'sound', label: 'Sound' },
+        { value: 'distance', label: 'Distance' },
+        { value: 'color', label: 'Color' },
+        { value: 'uv', label: 'UV' },
+        { value: 'co2', label: 'CO2' },
+        { value: 'particulate', label: 'Particulate' },
+      ],
+      display: { key: 'sensors', format: value => (value as string[]).map(item => optionLabel(sensorTypes, item)).join(', ') },
+    },
+    { key: 'temperature_range_min_c', label: 'Min Temperature', type: 'number', unit: '°C' },
+    { key: 'temperature_range_max_c', label: 'Max Temperature', type: 'number', unit: '°C' },
+    { key: 'humidity_range_min_pct', label: 'Min Humidity', type: 'number', minimum: 0, maximum: 100, unit: '%' },
+    { key: 'humidity_range_max_pct', label: 'Max Humidity', type: 'number', minimum: 0, maximum: 100, unit: '%' },
+    { key: 'pressure_range_min_hpa', label: 'Min Pressure', type: 'number', unit: 'hPa' },
+    { key: 'pressure_range_max_hpa', label: 'Max Pressure', type: 'number', unit: 'hPa' },
+    {
+      key: 'interfaces',
+      label: 'Interfaces',
+      type: 'string[]',
+      options: ['i2c', 'spi', 'uart', 'analog', 'digital'].map(value => ({ value, label: value.toUpperCase() })),
+    },
+    { key: 'operating_voltage_v', label: 'Operating Voltage', type: 'number', unit: 'V' },
+    { key: 'voltage_range_min_v', label: 'Min Voltage', type: 'number', unit: 'V' },
+    { key: 'voltage_range_max_v', label: 'Max Voltage', type: 'number', unit: 'V' },
+    { key: 'accuracy_percent', label: 'Accuracy', type: 'number', unit: '%' },
+    { key: 'accuracy_degrees_c', label: 'Accuracy', type: 'number', unit: '°C' },
+    { key: 'response_time_ms', label: 'Response Time', type: 'number', minimum: 0, unit: 'ms' },
+  ],
+  displayKeys: [
+    'product_type', 'sensors', 'temperature_range', 'humidity_range', 'pressure_range', 'interfaces',
+    'operating_voltage', 'accuracy', 'response_time',
+  ],
+  requiredDisplayKeys: ['product_type', 'sensors'],
+}
+
+const sensorTypes = sensor.fields[0]!.options!
+
+const display: ProductTypeDefinition = {
+  type: 'display',
+  label: 'Display',
+  fields: [
+    {
+      key: 'display_type',
+      label: 'Display Type',
+      type: 'string',
+      required: true,
+      options: [
+        { value: 'lcd', label: 'LCD' },
+        { value: 'oled', label: 'OLED' },
+        { value: 'e-ink', label: 'E-Ink' },
+        { value: 'tft', label: 'TFT' },
+        { value: 'led-matrix', label: 'LED Matrix' },
+      ],
+      display: { key: 'display_type', format: value => optionLabel(displayTypes, value) },
+    },
+    { key: 'screen_size_inches', label: 'Screen Size', type: 'number', minimum: 0, unit: 'in' },
+    { key: 'resolution_width', label: 'Resolution Width', type: 'number', minimum: 0, unit: 'px' },
+    { key: 'resolution_height', label: 'Resolution Height', type: 'number', minimum: 0, unit: 'px' },
+    { key: 'resolution_total_pixels', label: 'Total Pixels', type: 'number', minimum: 0 },
+    {
+      key: 'color_depth_bits',
+      label: 'Color Depth',
+      type: 'number',
+      options: [1, 16, 18, 24].map(value => ({ value, label: `${value}-bit` })),
+    },
+    { key: 'is_color', label: 'Color', type: 'boolean' },
+    {
+      key: 'interfaces',
+      label: 'Interfaces',
+      type: 'string[]',
+      options: ['spi', 'i2c', 'parallel', 'hdmi'].map(value => ({ value, label: value.toUpperCase() })),
+    },
+    { key: 'has_touchscreen', label: 'Touchscreen', type: 'boolean' },
+    {
+      key: 'touchscreen_type',
+      label: 'Touchscreen Type',
+      type: 'string',
+      options: [
+        { value: 'resistive', label: 'Resistive' },
+        { value: 'capacitive', label: 'Capacitive' },
+        { value: 'none', label: 'None' },
+      ],
+    },
+    { key: 'has_backlight', label: 'Backlight', type: 'boolean' },
+    { key: 'operating_voltage_v', label: 'Operating Voltage', type: 'number', unit: 'V' },
+    { key: 'voltage_range_min_v', label: 'Min Voltage', type: 'number', unit: 'V' },
+    { key: 'voltage_range_max_v', label: 'Max Voltage', type: 'number', unit: 'V' },
+  ],
+  displayKeys: [
+    'product_type', 'display_type', 'screen_size', 'resolution', 'color_depth', 'interfaces',
+    'touchscreen', 'backlight', 'operating_voltage',
+  ],
+  requiredDisplayKeys: ['product_type', 'display_type'],
+}
+
+const displayTypes = display.fields[0]!.options!
+
+const power: ProductTypeDefinition = {
+  type: 'power',
+  label: 'Power Module',
+  fields: [
+    {
+      key: 'module_type',
+      label: 'Module Type',
+      type: 'string',
+      required: true,
+      options: [
+        { value: 'battery', label: 'Battery' },
+        { value: 'charger', label: 'Charger' },
+        { value: 'regulator', label: 'Regulator' },
+        { value: 'converter', label: 'Converter' },
+        { value: 'solar-panel', label: 'Solar Panel' },
+      ],
+      display: { key: 'module_type', format: value => optionLabel(powerModuleTypes, value) },
+    },
+    { key: 'input_voltage_min_v', label: 'Min Input Voltage', type: 'number', unit: 'V' },
+    { key: 'input_voltage_max_v', label: 'Max Input Voltage', type: 'number', unit: 'V' },
+    { key: 'output_voltage_v', label: 'Output Voltage', type: 'number', unit: 'V' },
+    { key: 'output_current_a', label: 'Output Current', type: 'number', unit: 'A' },
+    { key: 'efficiency_percent', label: 'Efficiency', type: 'number', minimum: 0, maximum: 100, unit: '%' },
+    {
+      key: 'protection_features',
+      label: 'Protection',
+      type: 'string[]',
+      options: [
+        { value: 'overcurrent', label: 'Overcurrent' },
+        { value: 'overvoltage', label: 'Overvoltage' },
+        { value: 'reverse-polarity', label: 'Reverse Polarity' },
+        { value: 'short-circuit', label: 'Short Circuit' },
+        { value: 'thermal', label: 'Thermal' },
+      ],
+    },
+    {
+      key: 'battery_type',
+      label: 'Battery Type',
+      type: 'string',
+      options: [
+        { value: 'li-ion', label: 'Li-Ion' },
+        { value: 'li-po', label: 'Li-Po' },
+        { value: 'nimh', label: 'NiMH' },
+        { value: 'nicd', label: 'NiCd' },
+        { value: 'alkaline', label: 'Alkaline' },
+      ],
+    },
+    { key: 'battery_capacity_mah', label: 'Capacity', type: 'number', minimum: 0, unit: 'mAh' },
+  ],
+  displayKeys: [
+    'product_type', 'module_type', 'input_voltage', 'output_voltage', 'output_current', 'efficiency',
+    'protection', 'battery_type', 'capacity',
+  ],
+  requiredDisplayKeys: ['product_type', 'module_type'],
+}
+
+const powerModuleTypes = power.fields[0]!.options!
+
+const communication: ProductTypeDefinition = {
+  type: 'communication',
+  label: 'Communication Module',
+  fields: [
+    {
+      key: 'protocol',
+      label: 'Protocol',
+      type: 'string',
+      required: true,
+      options: [
+        { value: 'wifi', label: 'WiFi' },
+        { value: 'bluetooth', label: 'Bluetooth' },
+        { value: 'lora', label: 'LoRa' },
+        { value: 'zigbee', label: 'Zigbee' },
+        { value: 'thread', label: 'Thread' },
+        { value: 'cellular', label: 'Cellular' },
+        { value: 'nfc', label: 'NFC' },
+        { value: 'rfid', label: 'RFID' },
+      ],
+      display: { key: 'protocol', format: value => optionLabel(communicationProtocols, value) },
+    },
+    { key: 'frequency_mhz', label: 'Frequency', type: 'number', unit: 'MHz' },
+    { key: 'range_meters', label: 'Range', type: 'number', minimum: 0, unit: 'm' },
+    { key: 'data_rate_kbps', label: 'Data Rate', type: 'number', minimum: 0, unit: 'kbps' },
+    {
+      key: 'interfaces',
+      label: 'Interfaces',
+      type: 'string[]',
+      options: ['spi', 'uart', 'i2c', 'usb'].map(value => ({ value, label: value.toUpperCase() })),
+    },
+    {
+      key: 'antenna_type',
+      label: 'Antenna',
+      type: 'string',
+      options: [
+        { value: 'internal', label: 'Internal' },
+        { value: 'external', label: 'External' },
+        { value: 'ufl-connector', label: 'U.FL Connector' },
+        { value: 'sma-connector', label: 'SMA Connector' },
+        { value: 'pcb-trace', label: 'PCB Trace' },
+      ],
+    },
+    { key: 'operating_voltage_v', label: 'Operating Voltage', type: 'number', unit: 'V' },
+  ],
+  displayKeys: [
+    'product_type', 'protocol', 'frequency', 'range', 'data_rate', 'interfaces', 'antenna', 'operating_voltage',
+  ],
+  requiredDisplayKeys: ['product_type', 'protocol'],
+}
+
+const communicationProtocols = communication.fields[0]!.options!
+
+const accessory: ProductTypeDefinition = {
+  type: 'accessory',
+  label: 'Accessory',
+  fields: [
+    {
+      key: 'accessory_type',
+      label: 'Accessory Type',
+      type: 'string',
+      required: true,
+      options: [
+        { value: 'cable', label: 'Cable' },
+        { value: 'adapter', label: 'Adapter' },
+        { value: 'case', label: 'Case' },
+        { value: 'antenna', label: 'Antenna' },
+        { value: 'breadboard', label: 'Breadboard' },
+        { value: 'jumper-wires', label: 'Jumper Wires' },
+        { value: 'tools', label: 'Tools' },
+        { value: 'kit', label: 'Kit' },
+      ],
+      display: { key: 'accessory_type', format: value => optionLabel(accessoryTypes, value) },
+    },
+    { key: 'length_cm', label: 'Length', type: 'number', minimum: 0, unit: 'cm' },
+    {
+      key: 'connector_types',
+      label: 'Connectors',
+      type: 'string[]',
+      options: [
+        { value: 'usb-c', label: 'USB-C' },
+        { value: 'usb-a', label: 'USB-A' },
+        { value: 'micro-usb', label: 'Micro USB' },
+        { value: 'male-male', label: 'Male-Male' },
+        { value: 'female-female', label: 'Female-Female' },
+        { value: 'male-female', label: 'Male-Female' },
+      ],
+    },
+    { key: 'quantity', label: 'Quantity', type: 'number', minimum: 1 },
+    { key: 'compatible_with', label: 'Compatible With', type: 'string[]', options: CHIP_OPTIONS },
+  ],
+  displayKeys: ['product_type', 'accessory_type', 'length', 'connector_type', 'material', 'quantity', 'compatible_with'],
+  requiredDisplayKeys: ['product_type', 'accessory_type'],
+}
+
+const accessoryTypes = accessory.fields[0]!.options!
+
+/**
+ * Metadata definitions by product type
+ */
+export const PRODUCT_TYPE_DEFINITIONS: Record<ProductType, ProductTypeDefinition> = {
+  development_board: developmentBoard,
+  sensor,
+  display,
+  power,
+  communication,
+  accessory,
+}
+
+export const PRODUCT_TYPES = Object.keys(PRODUCT_TYPE_DEFINITIONS) as ProductType[]
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+export function isProductType(type: unknown): type is ProductType {
+  return typeof type === 'string' && type in PRODUCT_TYPE_DEFINITIONS
+}
+
+/**
+ * Filter fields of a product type (empty for unknown types)
+ */
+export function getMetadataFields(type: unknown): readonly MetadataFilterField[] {
+  return isProductType(type) ? PRODUCT_TYPE_DEFINITIONS[type].fields : []
+}
+
+/**
+ * Catalog filters of a product type, in display order
+ */
+export function getCatalogFilters(type: ProductType): Array<CatalogFilter & { key: string, options: readonly MetadataFieldOption[] }> {
+  return PRODUCT_TYPE_DEFINITIONS[type].fields
+    .filter(field => field.catalog)
+    .map(field => ({
+      ...field.catalog!,
+      key: field.key,
+      options: (field.catalog!.options ?? field.options ?? []).map(option => ({ value: String(option.value), label: option.label })),
+    }))
+}
+
+
+/**
+ * Apply a product type's derived filters (e.g. chip_series from chip)
+ */
+export function deriveFilters(type: ProductType, filters: Record<string, unknown>): Record<string, unknown> {
+  return { ...filters, ...PRODUCT_TYPE_DEFINITIONS[type].derive?.(filters) }
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+/**
+ * Build the human-readable `metadata.display` values for the given filters
+ */
+export function buildDisplayMetadata(type: ProductType, filters: Record<string, unknown>): Record<string, string> {
+  const definition = PRODUCT_TYPE_DEFINITIONS[type]
+  const result: Record<string, string> = { product_type: definition.label }
+
+  for (const field of definition.fields) {
+    const value = filters[field.key]
+    if (!field.display || value === undefined || value === null || value === '') continue
+    if (Array.isArray(value) && value.length === 0) continue
+
+    result[field.display.key] = field.display.format(value as MetadataValue)
+  }
+
+  for (const [key, value] of Object.entries(definition.summarize?.(filters) ?? {})) {
+    if (value) result[key] = value
+  }
+
+  return result
+}
+
+/**
+ * Regenerate the registry-owned display values, keeping other allowed
+ * hand-written values (e.g. a sensor's temperature_range) and dropping
+ * keys the product type doesn't allow
+ */
+export function refreshDisplayMetadata(
+  type: ProductType,
+  filters: Record<string, unknown>,
+  display: Record<string, unknown>
+): Record<string, unknown> {
+  const definition = PRODUCT_TYPE_DEFINITIONS[type]
+  const generatedKeys = generatedDisplayKeys(definition)
+  const kept = Object.entries(display)
+    .filter(([key]) => definition.displayKeys.includes(key) && !generatedKeys.has(key))
+
+  return { ...Object.fromEntries(kept), ...buildDisplayMetadata(type, filters) }
+}
+
+function generatedDisplayKeys(definition: ProductTypeDefinition): Set<string> {
+  return new Set([
+    'product_type',
+    ...definition.fields.flatMap(field => field.display ? [field.display.key] : []),
+    ...Object.keys(definition.summarize?.({}) ?? {}),
+  ])
+}
+
+// ============================================================================
+// CANONICALIZATION
+// ============================================================================
+
+/**
+ * Product types offered by the old editor
+ */
+const LEGACY_PRODUCT_TYPES: Record<string, ProductType> = {
+  wireless: 'communication',
+}
+
+/**
+ * Legacy values mapped to canonical ones (null drops the value)
+ */
+const LEGACY_VALUES: Record<string, Record<string, string | null>> = {
+  usb_type: { 'micro-usb': 'micro_usb', 'usb-c': 'usb_c', 'usb-a': 'usb_a', 'none': null },
+}
+
+/**
+ * Modules the old editor offered as chips
+ */
+const LEGACY_CHIP_MODULES: Record<string, { chip: string, form_factor: string }> = {
+  'ESP32-WROOM-32': { chip: 'ESP32', form_factor: 'wroom' },
+  'ESP32-WROVER': { chip: 'ESP32', form_factor: 'wrover' },
+}
+
+/**
+ * WiFi generation of the old schema's wifi_standards values
+ */
+const WIFI_STANDARD_VERSIONS: Record<string, string> = {
+  '802.11n': '4',
+  '802.11ac': '5',
+  '802.11ax': '6',
+}
+
+/**
+ * Display keys of the old schema, now covered by connectivity/features
+ */
+const LEGACY_DISPLAY_KEYS = new Set(['zigbee', 'thread', 'battery_connector', 'camera_connector', 'lcd_connector'])
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === ''
+
+/**
+ * Convert a value to a field's canonical type
+ * Returns `value: undefined` for legacy "not set" markers and a reason when the
+ * value can't be converted.
+ */
+function coerceFieldValue(field: MetadataFilterField, value: unknown): { value: unknown } | { reason: string } {
+  switch (field.type) {
+    case 'boolean':
+      if (typeof value === 'boolean') return { value }
+      if (value === 'true' || value === 1) return { value: true }
+      if (value === 'false' || value === 0) return { value: false }
+      return { reason: 'expected a boolean' }
+
+    case 'number':
+    case 'integer': {
+      // "16MB" and "16" are stored by older imports
+      const parsed = typeof value === 'number' ? value : Number.parseFloat(String(value))
+      if (!Number.isFinite(parsed)) return { reason: 'expected a number' }
+      if (field.type === 'integer' && !Number.isInteger(parsed)) return { reason: 'expected a whole number' }
+      if (field.minimum !== undefined && parsed < field.minimum) return { reason: `must be >= ${field.minimum}` }
+      if (field.maximum !== undefined && parsed > field.maximum) return { reason: `must be <= ${field.maximum}` }
+      if (field.options && !field.options.some(option => option.value === parsed)) return { reason: 'not an allowed value' }
+      return { value: parsed }
+    }
+
+    case 'string': {
+      if (typeof value !== 'string' && typeof value !== 'number') return { reason: 'expected a string' }
+      let text = String(value)
+      // The old schema stored bluetooth_version as a number (5 -> "5.0")
+      if (field.key === 'bluetooth_version' && /^\d+$/.test(text)) text = `${text}.0`
+      const legacy = LEGACY_VALUES[field.key]
+      if (legacy && text in legacy) {
+        const mapped = legacy[text]
+        if (mapped === null) return { value: undefined }
+        text = mapped!
+      }
+      if (field.options && !field.options.some(option => option.value === text)) return { reason: 'not an allowed value' }
+      return { value: text }
+    }
+
+    case 'string[]': {
+      const items = Array.isArray(value) ? value : [value]
+      if (!items.every(item => typeof item === 'string')) return { reason: 'expected a list of strings' }
+      if (field.options && !items.every(item => field.options!.some(option => option.value === item))) {
+        return { reason: 'contains values that are not allowed' }
+      }
+      return { value: items }
+    }
+  }
+}
+
+/**
+ * Rewrite metadata to the canonical vocabulary of its product type
+ *
+ * - Legacy keys are renamed (flash_size -> flash_mb, has_battery -> has_battery_pins, ...)
+ * - Values are coerced to the field type ("8MB" -> 8, 5 -> "5.0", "usb-c" -> "usb_c")
+ * - Legacy display keys are dropped; generated display values are rebuilt when
+ *   the filters changed, otherwise hand-written values are kept
+ * - Values that can't be converted are kept as-is and reported in `unconverted`,
+ *   so the result only validates once they're fixed by hand
+ */
+export function canonicalizeMetadata(metadata: unknown): CanonicalizeResult {
+  const source = (metadata && typeof metadata === 'object' ? metadata : {}) as Record<string, unknown>
+  const originalFilters = (source.filters && typeof source.filters === 'object' ? source.filters : {}) as Record<string, unknown>
+  const originalDisplay = (source.display && typeof source.display === 'object' ? source.display : {}) as Record<string, unknown>
+  const filters = { ...originalFilters }
+  const changes: string[] = []
+  const unconverted: UnconvertedMetadataValue[] = []
+
+  // Unclassified products keep the empty default metadata
+  if (Object.keys(filters).length === 0) {
+    return { metadata: { display: { ...originalDisplay }, filters }, changed: false, changes, unconverted }
+  }
+
+  const rawType = filters.product_type
+  const type = typeof rawType === 'string' ? LEGACY_PRODUCT_TYPES[rawType] ?? rawType : rawType
+  if (!isProductType(type)) {
+    return {
+      metadata: { display: { ...originalDisplay }, filters },
+      changed: false,
+      changes,
+      unconverted: [{ key: 'product_type', value: rawType, reason: `must be one of: ${PRODUCT_TYPES.join(', ')}` }],
+    }
+  }
+  if (type !== rawType) changes.push(`product_type ${rawType} -> ${type}`)
+
+  const definition = PRODUCT_TYPE_DEFINITIONS[type]
+
+  if (type === 'development_board') {
+    const module = typeof filters.chip === 'string' ? LEGACY_CHIP_MODULES[filters.chip] : undefined
+    if (module) {
+      changes.push(`chip ${filters.chip} -> ${module.chip} (form_factor ${module.form_factor})`)
+      filters.chip = module.chip
+      filters.form_factor ??= module.form_factor
+    }
+
+    if (Array.isArray(filters.wifi_standards)) {
+      const versions = filters.wifi_standards.map(standard => WIFI_STANDARD_VERSIONS[String(standard)]).filter(Boolean)
+      if (filters.wifi_standards.length > 0) filters.has_wifi ??= true
+      if (versions.length > 0 && isBlank(filters.wifi_version) && isBlank(filters.wifi_generation)) {
+        filters.wifi_version = versions.sort().at(-1)
+      }
+      changes.push('wifi_standards -> has_wifi, wifi_version')
+      delete filters.wifi_standards
+    }
+  }
+
+  const result: Record<string, unknown> = { product_type: type }
+
+  for (const field of definition.fields) {
+    const candidates = [field.key, ...(field.legacyKeys ?? [])].filter(key => !isBlank(filters[key]))
+    const sourceKey = candidates[0] // The canonical key wins over legacy keys
+    for (const ignored of candidates.slice(1)) {
+      changes.push(`${ignored} dropped (${sourceKey} is set)`)
+    }
+    if (!sourceKey) continue
+
+    let value = filters[sourceKey]
+    // Legacy "no PSRAM" markers
+    if (field.key === 'psram_mb' && (value === false || value === 'none')) value = 0
+
+    const coerced = coerceFieldValue(field, value)
+    if ('reason' in coerced) {
+      unconverted.push({ key: sourceKey, value: filters[sourceKey], reason: coerced.reason })
+      result[sourceKey] = filters[sourceKey]
+      continue
+    }
+
+    if (sourceKey !== field.key) changes.push(`${sourceKey} -> ${field.key}`)
+    if (coerced.value === undefined) {
+      changes.push(`${field.key} ${JSON.stringify(filters[sourceKey])} dropped`)
+      continue
+    }
+    if (JSON.stringify(coerced.value) !== JSON.stringify(filters[sourceKey])) {
+      changes.push(`${field.key} ${JSON.stringify(filters[sourceKey])} -> ${JSON.stringify(coerced.value)}`)
+    }
+    result[field.key] = coerced.value
+  }
+
+  Object.assign(result, definition.derive?.(result))
+
+  const knownKeys = new Set(['product_type', ...definition.fields.flatMap(field => [field.key, ...(field.legacyKeys ?? [])])])
+  for (const [key, value] of Object.entries(filters)) {
+    if (knownKeys.has(key)) continue
+    unconverted.push({ key, value, reason: 'unknown field' })
+    result[key] = value
+  }
+
+  // Display: keep allowed values, drop legacy keys, regenerate values derived
+  // from converted filters (or only fill in missing ones if nothing changed)
+  const filtersChanged = !sameRecord(result, originalFilters)
+  const display: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(originalDisplay)) {
+    if (definition.displayKeys.includes(key)) {
+      display[key] = value
+    } else if (LEGACY_DISPLAY_KEYS.has(key) || knownKeys.has(key)) {
+      changes.push(`display.${key} dropped`)
+    } else {
+      unconverted.push({ key: `display.${key}`, value, reason: 'unknown display field' })
+      display[key] = value
+    }
+  }
+  for (const [key, value] of Object.entries(buildDisplayMetadata(type, result))) {
+    if (filtersChanged || key === 'product_type' || isBlank(display[key])) display[key] = value
+  }
+
+  return {
+    metadata: { display, filters: result },
+    changed: filtersChanged || !sameRecord(display, originalDisplay),
+    changes,
+    unconverted,
+  }
+}
+
+function sameRecord(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length
+    && keys.every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]))
+}
@@ -0,0 +1,118 @@
+/**
+ * Canonical URLs and hreflang Alternates
+ *
+ * One product (ASIN) is usually listed in several marketplaces, each listing
+ * with its own page. Product pages link those pages to each other as hreflang
+ * alternates (by marketplace locale), and the sitemaps list the same sets.
+ *
+ * Variant pages (products with a custom parent) are near duplicates of their
+ * parent, so their canonical URL points to the group page when they belong to
+ * a group, and to the parent product otherwise. Only canonical pages go into
+ * the sitemaps and get alternates.
+ *
+ * This module has no imports so it can be shared by the app, Nitro and vitest.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Listing of the same ASIN in a marketplace
+ */
+export interface ProductAlternate {
+  marketplace_code: string
+  locale: string
+  slug: string
+}
+
+export interface HreflangLink {
+  hreflang: string
+  path: string
+}
+
+// ============================================================================
+// URLS
+// ============================================================================
+
+/**
+ * Absolute store URL without a trailing slash ("https://www.espboards.dev/store")
+ *
+ * @param configured - SITE_URL, when set
+ * @param origin - Origin of the current request, used otherwise
+ * @param baseURL - The app's base path, e.g. '/store/'
+ */
+export function resolveSiteUrl(configured: string | undefined, origin: string, baseURL: string): string {
+  const url = configured?.trim() || `${origin}${baseURL}`
+  return url.replace(/\/+$/, '')
+}
+
+/**
+ * Absolute URL of an app path ("/products/x" -> "https://www.espboards.dev/store/products/x")
+ */
+export function absoluteUrl(siteUrl: string, path: string): string {
+  return `${siteUrl}${path.startsWith('/') ? path : `/${path}`}`
+}
+
+export const productPath = (slug: string) => `/products/${slug}`
+
+export const groupPath = (slug: string) => `/groups/${slug}`
+
+// ============================================================================
+// CANONICAL
+// ============================================================================
+
+/**
+ * App path a product page is canonical to
+ *
+ * @param product - The product shown (custom_parent_id set for variants)
+ * @param related - Slugs of the variant's group and parent, when known
+ */
+export function productCanonicalPath(
+  product: { slug: string; custom_parent_id: string | null },
+  related: { groupSlug?: string | null; parentSlug?: string | null } = {},
+): string {
+  if (!product.custom_parent_id) {
+    return productPath(product.slug)
+  }
+
+  if (related.groupSlug) {
+    return groupPath(related.groupSlug)
+  }
+
+  return productPath(related.parentSlug || product.slug)
+}
+
+// ============================================================================
+// HREFLANG
+// ============================================================================
+
+/**
+ * hreflang links for the listings of one ASIN, ordered by locale
+ *
+ * A single listing gets none (there is nothing to choose between); the
+ * default marketplace's listing also serves as x-default.
+ *
+ * @param defaultCode - Marketplace for visitors matching no locale, e.g. 'US'
+ */
+export function hreflangLinks(alternates: readonly ProductAlternate[], defaultCode: string): HreflangLink[] {
+  const byLocale = new Map<string, ProductAlternate>()
+  for (const alternate of alternates) {
+    if (!byLocale.has(alternate.locale)) {
+      byLocale.set(alternate.locale, alternate)
+    }
+  }
+
+  if (byLocale.size < 2) return []
+
+  const links = [...byLocale.values()]
+    .sort((a, b) => a.locale.localeCompare(b.locale))
+    .map(alternate => ({ hreflang: alternate.locale, path: productPath(alternate.slug) }))
+
+  const fallback = alternates.find(alternate => alternate.marketplace_code === defaultCode)
+  if (fallback) {
+    links.push({ hreflang: 'x-default', path: productPath(fallback.slug) })
+  }
+
+  return links
+}
@@ -0,0 +1,205 @@
+#!/usr/bin/env -S deno run --unstable-sloppy-imports --node-modules-dir=manual --allow-env --allow-net --allow-read
+
+/**
+ * Fill in products.metadata for products that have none yet, using the
+ * rule-based extractor (app/shared/metadata-extractor.ts) over the stored
+ * Amazon title, features, technical_info and product_info.
+ *
+ * Only the product type and fields extracted with at least --min-confidence
+ * (default 0.8) are written; products whose required fields (e.g. a development
+ * board's chip) aren't found confidently are listed for the admin editor, which
+ * shows every suggestion. Products that already have a product type are skipped.
+ *
+ * Extracted fields are merged into the product's existing metadata (e.g. display
+ * values entered by hand) and the result is checked with the same schema
+ * validation as the admin API; products that fail it are listed instead.
+ *
+ * Runs as a dry run by default and only reports what would be written.
+ *
+ * Needs --unstable-sloppy-imports (the app modules import each other without
+ * file extensions) and --node-modules-dir=manual (Ajv is loaded from
+ * app/node_modules, so run `pnpm install` in app/ first).
+ *
+ * Usage: deno run --unstable-sloppy-imports --node-modules-dir=manual --allow-env --allow-net --allow-read scripts/backfill-product-metadata.ts [--apply] [--verbose] [--min-confidence=0.8]
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { buildProposedMetadata, extractMetadata } from '../app/shared/metadata-extractor.ts'
+import { validateMetadata } from '../app/server/utils/metadata-schemas.ts'
+
+const PAGE_SIZE = 500
+const DEFAULT_MIN_CONFIDENCE = 0.8
+
+// Load environment variables from .env.local or .env
+async function loadEnv() {
+  const envFiles = ['.env.local', '.env']
+
+  for (const envFile of envFiles) {
+    try {
+      const text = await Deno.readTextFile(envFile)
+      const lines = text.split('\n')
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        // Skip comments and empty lines
+        if (!trimmed || trimmed.startsWith('#')) continue
+
+        const match = trimmed.match(/^([^=]+)=(.*)$/)
+        if (match) {
+          const key = match[1].trim()
+          const value = match[2].trim().replace(/^["']|["']$/g, '') // Remove quotes
+          Deno.env.set(key, value)
+        }
+      }
+      console.log(`📁 Loaded environment from ${envFile}`)
+      break
+    } catch {
+      // File doesn't exist, try next
+      continue
+    }
+  }
+}
+
+await loadEnv()
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set')
+  console.error('Make sure you have these in your .env.local or .env file')
+  Deno.exit(1)
+}
+
+const apply = Deno.args.includes('--apply')
+const verbose = Deno.args.includes('--verbose')
+const minConfidenceArg = Deno.args.find(arg => arg.startsWith('--min-confidence='))
+const minConfidence = minConfidenceArg ? Number(minConfidenceArg.split('=')[1]) : DEFAULT_MIN_CONFIDENCE
+
+if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+  console.error('❌ Error: --min-confidence must be a number between 0 and 1')
+  Deno.exit(1)
+}
+
+console.log(apply ? '✏️  Apply mode: products will be updated' : '🔎 Dry run: no products will be updated (pass --apply to write)')
+console.log(`🎯 Minimum confidence: ${minConfidence}`)
+console.log('🔄 Connecting to Supabase...')
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+interface ProductRow {
+  id: string
+  asin: string
+  title: string | null
+  features: string[] | null
+  technical_info: unknown
+  product_info: unknown
+  metadata: { display?: Record<string, unknown>, filters?: Record<string, unknown> } | null
+}
+
+let scanned = 0
+let classified = 0
+let filled = 0
+let failed = 0
+const unresolved: Array<{ product: ProductRow, reason: string }> = []
+
+for (let from = 0; ; from += PAGE_SIZE) {
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, asin, title, features, technical_info, product_info, metadata')
+    .order('id')
+    .range(from, from + PAGE_SIZE - 1)
+
+  if (error) {
+    console.error('❌ Error fetching products:', error.message)
+    Deno.exit(1)
+  }
+
+  for (const product of (products || []) as ProductRow[]) {
+    scanned++
+
+    if (product.metadata?.filters?.product_type) {
+      classified++
+      continue
+    }
+
+    const proposal = extractMetadata(product)
+
+    if (!proposal.productType) {
+      unresolved.push({ product, reason: 'product type not recognised' })
+      continue
+    }
+
+    if (proposal.productTypeConfidence < minConfidence) {
+      unresolved.push({ product, reason: `product type ${proposal.productType} (${proposal.productTypeConfidence}) below confidence` })
+      continue
+    }
+
+    const accepted = proposal.suggestions.filter(suggestion => suggestion.confidence >= minConfidence)
+    const proposed = buildProposedMetadata(proposal.productType, accepted)
+
+    if (!proposed) {
+      unresolved.push({ product, reason: `required ${proposal.productType} fields not found confidently` })
+      continue
+    }
+
+    // Keep what is already there; extracted values win where both are set
+    const metadata = {
+      ...product.metadata,
+      display: { ...product.metadata?.display, ...proposed.display },
+      filters: { ...product.metadata?.filters, ...proposed.filters },
+    }
+
+    const validation = validateMetadata(metadata)
+
+    if (!validation.valid) {
+      unresolved.push({ product, reason: `invalid metadata: ${validation.errors.join(', ')}` })
+      continue
+    }
+
+    if (verbose) {
+      console.log(`\n  ${product.asin} ${product.title || ''}`)
+      console.log(`    - product_type = ${proposal.productType} (${proposal.productTypeConfidence})`)
+      accepted.forEach(suggestion => console.log(`    - ${suggestion.key} = ${JSON.stringify(suggestion.value)} (${suggestion.confidence}, ${suggestion.source})`))
+    }
+
+    if (apply) {
+      const { error: updateError } = await supabase
+        .from('products')
+        .update({ metadata })
+        .eq('id', product.id)
+
+      if (updateError) {
+        console.error(`❌ Failed to update ${product.asin}: ${updateError.message}`)
+        failed++
+        continue
+      }
+    }
+
+    filled++
+  }
+
+  if (!products || products.length < PAGE_SIZE) break
+}
+
+console.log(`\n📊 Scanned ${scanned} products`)
+console.log(`  ${apply ? 'Filled' : 'Would fill'}: ${filled}`)
+console.log(`  Already classified: ${classified}`)
+if (failed > 0) console.log(`  Failed to update: ${failed}`)
+
+if (unresolved.length > 0) {
+  console.log(`\n⚠️  ${unresolved.length} products could not be filled in:`)
+  for (const { product, reason } of unresolved) {
+    console.log(`  ${product.asin} (${product.id}) ${product.title || ''}: ${reason}`)
+  }
+  console.log('\nReview these in the admin product editor, which shows every extracted suggestion.')
+} else {
+  console.log('\n✅ Every product has metadata')
+}
+
+if (failed > 0) Deno.exit(1)
@@ -0,0 +1,78 @@
+#!/usr/bin/env -S deno run --allow-net --allow-read
+
+/**
+ * Run the fake PA-API server (supabase/functions/_shared/fake-paapi.ts) with
+ * the item fixtures in scripts/fixtures/paapi, so imports, refreshes and deals
+ * work offline.
+ *
+ * Each fixture file holds one PA-API item (as found in ItemsResult.Items) or a
+ * whole GetItems response, e.g. a product's raw_paapi_response.
+ *
+ * Point the Edge Functions at it, with any access/secret key:
+ *   PAAPI_ENDPOINT_OVERRIDE=http://host.docker.internal:8787/paapi5   (supabase functions serve)
+ *   PAAPI_ENDPOINT_OVERRIDE=http://localhost:8787/paapi5              (deno test)
+ *
+ * Simulate failures with a scenario file or at runtime:
+ *   curl -X PUT localhost:8787/__fake/scenario -d '{"throttle": 3}'
+ *   curl -X PUT localhost:8787/__fake/scenario -d '{"inaccessible": ["B08DQQ8CBP"], "delayMs": 11000}'
+ *   curl -X PUT localhost:8787/__fake/scenario -d '{"prices": {"B08DQQ8CBP": [23.99, 19.99]}}'
+ *   curl localhost:8787/__fake/state
+ *
+ * Usage: deno run --allow-net --allow-read scripts/fake-paapi.ts [--port=8787] [--fixtures=scripts/fixtures/paapi] [--scenario=scenario.json] [--access-key=KEY]
+ */
+
+import { FakePaapi, type FakePaapiScenario } from '../supabase/functions/_shared/fake-paapi.ts'
+import type { PaapiItem } from '../supabase/functions/_shared/types.ts'
+
+const DEFAULT_PORT = 8787
+const DEFAULT_FIXTURES = new URL('./fixtures/paapi/', import.meta.url)
+
+function getFlag(name: string): string | undefined {
+  const prefix = `--${name}=`
+  return Deno.args.find(arg => arg.startsWith(prefix))?.slice(prefix.length)
+}
+
+// Load every *.json fixture as one or more items
+async function loadItems(dir: string | URL): Promise<PaapiItem[]> {
+  const items: PaapiItem[] = []
+
+  for await (const entry of Deno.readDir(dir)) {
+    if (!entry.isFile || !entry.name.endsWith('.json')) continue
+
+    const path = typeof dir === 'string' ? `${dir}/${entry.name}` : new URL(entry.name, dir)
+    const data = JSON.parse(await Deno.readTextFile(path))
+    const fileItems: PaapiItem[] = data.ItemsResult?.Items ?? [data]
+
+    for (const item of fileItems) {
+      if (!item.ASIN) {
+        console.warn(`⚠️  Skipping ${entry.name}: no ASIN`)
+        continue
+      }
+      items.push(item)
+    }
+  }
+
+  return items
+}
+
+const port = Number(getFlag('port')) || DEFAULT_PORT
+const fixtures = getFlag('fixtures') ?? DEFAULT_FIXTURES
+const scenarioFile = getFlag('scenario')
+
+const items = await loadItems(fixtures)
+const scenario: FakePaapiScenario = scenarioFile
+  ? JSON.parse(await Deno.readTextFile(scenarioFile))
+  : {}
+
+const fake = new FakePaapi({ items, scenario, accessKey: getFlag('access-key') })
+
+console.log(`🧪 Fake PA-API serving ${items.length} items: ${items.map(item => item.ASIN).join(', ')}`)
+if (scenarioFile) {
+  console.log(`🎬 Scenario: ${JSON.stringify(scenario)}`)
+}
+
+Deno.serve({ port }, async (req) => {
+  const response = await fake.handle(req)
+  console.log(`${req.method} ${new URL(req.url).pathname} → ${response.status}`)
+  return response
+})
@@ -0,0 +1,151 @@
+#!/usr/bin/env -S deno run --allow-env --allow-net --allow-read
+
+/**
+ * Rewrite products.metadata to the canonical filter vocabulary
+ * (app/shared/metadata-filters.ts): flash_size -> flash_mb, has_battery -> has_battery_pins, ...
+ *
+ * Runs as a dry run by default and only reports what would change.
+ * Values that can't be converted are kept and listed so they can be fixed in the admin editor.
+ *
+ * Usage: deno run --allow-env --allow-net --allow-read scripts/migrate-metadata-filters.ts [--apply] [--verbose]
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { canonicalizeMetadata, type UnconvertedMetadataValue } from '../app/shared/metadata-filters.ts'
+
+const PAGE_SIZE = 500
+
+// Load environment variables from .env.local or .env
+async function loadEnv() {
+  const envFiles = ['.env.local', '.env']
+
+  for (const envFile of envFiles) {
+    try {
+      const text = await Deno.readTextFile(envFile)
+      const lines = text.split('\n')
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        // Skip comments and empty lines
+        if (!trimmed || trimmed.startsWith('#')) continue
+
+        const match = trimmed.match(/^([^=]+)=(.*)$/)
+        if (match) {
+          const key = match[1].trim()
+          const value = match[2].trim().replace(/^["']|["']$/g, '') // Remove quotes
+          Deno.env.set(key, value)
+        }
+      }
+      console.log(`📁 Loaded environment from ${envFile}`)
+      break
+    } catch {
+      // File doesn't exist, try next
+      continue
+    }
+  }
+}
+
+await loadEnv()
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error('❌ Error: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set')
+  console.error('Make sure you have these in your .env.local or .env file')
+  Deno.exit(1)
+}
+
+const apply = Deno.args.includes('--apply')
+const verbose = Deno.args.includes('--verbose')
+
+console.log(apply ? '✏️  Apply mode: products will be updated' : '🔎 Dry run: no products will be updated (pass --apply to write)')
+console.log('🔄 Connecting to Supabase...')
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+})
+
+interface ProductRow {
+  id: string
+  asin: string
+  title: string | null
+  metadata: unknown
+}
+
+let scanned = 0
+let unchanged = 0
+let converted = 0
+let failed = 0
+const unconvertedRows: Array<{ product: ProductRow, values: UnconvertedMetadataValue[] }> = []
+
+for (let from = 0; ; from += PAGE_SIZE) {
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('id, asin, title, metadata')
+    .not('metadata', 'is', null)
+    .order('id')
+    .range(from, from + PAGE_SIZE - 1)
+
+  if (error) {
+    console.error('❌ Error fetching products:', error.message)
+    Deno.exit(1)
+  }
+
+  for (const product of (products || []) as ProductRow[]) {
+    scanned++
+    const result = canonicalizeMetadata(product.metadata)
+
+    if (result.unconverted.length > 0) {
+      unconvertedRows.push({ product, values: result.unconverted })
+    }
+
+    if (!result.changed) {
+      unchanged++
+      continue
+    }
+
+    if (verbose) {
+      console.log(`\n  ${product.asin} ${product.title || ''}`)
+      result.changes.forEach(change => console.log(`    - ${change}`))
+    }
+
+    if (apply) {
+      const { error: updateError } = await supabase
+        .from('products')
+        .update({ metadata: result.metadata })
+        .eq('id', product.id)
+
+      if (updateError) {
+        console.error(`❌ Failed to update ${product.asin}: ${updateError.message}`)
+        failed++
+        continue
+      }
+    }
+
+    converted++
+  }
+
+  if (!products || products.length < PAGE_SIZE) break
+}
+
+console.log(`\n📊 Scanned ${scanned} products with metadata`)
+console.log(`  ${apply ? 'Converted' : 'Would convert'}: ${converted}`)
+console.log(`  Already canonical: ${unchanged}`)
+if (failed > 0) console.log(`  Failed to update: ${failed}`)
+
+if (unconvertedRows.length > 0) {
+  console.log(`\n⚠️  ${unconvertedRows.length} products have values that could not be converted (kept as-is):`)
+  for (const { product, values } of unconvertedRows) {
+    console.log(`\n  ${product.asin} (${product.id}) ${product.title || ''}`)
+    values.forEach(value => console.log(`    - ${value.key} = ${JSON.stringify(value.value)}: ${value.reason}`))
+  }
+  console.log('\nFix these in the admin product editor; metadata with unknown fields fails validation.')
+} else {
+  console.log('\n✅ All metadata uses the canonical filter keys')
+}
+
+if (failed > 0) Deno.exit(1)
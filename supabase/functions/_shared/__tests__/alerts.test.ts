@@ -0,0 +1,270 @@
+/**
+ * Unit tests for price-drop / back-in-stock alerts and notification transports
+ *
+ * Tests verify:
+ * - Price-drop alerts fire only when the price crosses the target
+ * - Back-in-stock alerts fire only when availability changes to "Now"
+ * - Rendered messages carry product and unsubscribe links
+ * - Webhook and file transports deliver offline (injected fetch, temp file)
+ * - Webhooks only reach public hosts and never follow redirects
+ * - The console transport keeps destinations and tokens out of the logs
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+} from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+
+import { findTriggeredAlerts, renderAlertMessage } from "../alerts.ts";
+import {
+  ConsoleTransport,
+  createNotificationTransports,
+  FileTransport,
+  isPublicAddress,
+  type NotificationMessage,
+  WebhookTransport,
+} from "../notification-transport.ts";
+import { type LogEntry, Logger, LogLevel } from "../logger.ts";
+import type { AlertSubscription } from "../types.ts";
+
+function createSubscription(overrides: Partial<AlertSubscription> = {}): AlertSubscription {
+  return {
+    id: "sub-1",
+    product_id: "product-1",
+    channel: "email",
+    destination: "maker@example.com",
+    destination_key: "maker@example.com",
+    target_price: 10,
+    notify_when_available: false,
+    status: "active",
+    confirm_token: "confirm-token",
+    unsubscribe_token: "unsubscribe-token",
+    confirmation_sent_at: "2025-11-28T10:00:00Z",
+    confirmed_at: "2025-11-28T10:05:00Z",
+    unsubscribed_at: null,
+    last_notified_at: null,
+    created_at: "2025-11-28T10:00:00Z",
+    updated_at: "2025-11-28T10:05:00Z",
+    ...overrides,
+  };
+}
+
+const message: NotificationMessage = {
+  channel: "webhook",
+  destination: "https://hooks.example.com/alerts",
+  subject: "Price drop",
+  text: "ESP32 DevKit dropped to 9.99 USD",
+  data: { type: "price_drop", current_price: 9.99 },
+};
+
+describe("findTriggeredAlerts", () => {
+  it("should fire a price drop when the price crosses the target", () => {
+    const alerts = findTriggeredAlerts(
+      [createSubscription()],
+      { current_price: 12.99, availability_type: "Now" },
+      { current_price: 9.99, availability_type: "Now" },
+    );
+
+    assertEquals(alerts.map((alert) => alert.kind), ["price_drop"]);
+  });
+
+  it("should not fire again while the price stays below the target", () => {
+    const alerts = findTriggeredAlerts(
+      [createSubscription()],
+      { current_price: 9.99, availability_type: "Now" },
+      { current_price: 8.99, availability_type: "Now" },
+    );
+
+    assertEquals(alerts, []);
+  });
+
+  it("should fire back in stock when availability changes to Now", () => {
+    const alerts = findTriggeredAlerts(
+      [createSubscription({ target_price: null, notify_when_available: true })],
+      { current_price: null, availability_type: "OutOfStock" },
+      { current_price: 14.99, availability_type: "Now" },
+    );
+
+    assertEquals(alerts.map((alert) => alert.kind), ["back_in_stock"]);
+  });
+
+  it("should prefer price_drop when both conditions are met", () => {
+    const alerts = findTriggeredAlerts(
+      [createSubscription({ notify_when_available: true })],
+      { current_price: null, availability_type: null },
+      { current_price: 9.5, availability_type: "Now" },
+    );
+
+    assertEquals(alerts.map((alert) => alert.kind), ["price_drop"]);
+  });
+
+  it("should compare DECIMAL strings from Postgres numerically", () => {
+    const alerts = findTriggeredAlerts(
+      [createSubscription({ target_price: "10.00" as unknown as number })],
+      { current_price: "10.50" as unknown as number, availability_type: "Now" },
+      { current_price: 10, availability_type: "Now" },
+    );
+
+    assertEquals(alerts.length, 1);
+  });
+});
+
+describe("renderAlertMessage", () => {
+  it("should include the product and unsubscribe links", () => {
+    const payload = renderAlertMessage(
+      { subscription: createSubscription(), kind: "price_drop" },
+      { id: "product-1", title: "ESP32 DevKit", slug: "esp32-devkit", currency: "USD" },
+      { current_price: 9.99, availability_type: "Now" },
+      "https://www.espboards.dev/store/",
+    );
+
+    assertEquals(payload.subject, "Price drop: ESP32 DevKit is now 9.99 USD");
+    assertStringIncludes(payload.text, "https://www.espboards.dev/store/products/esp32-devkit");
+    assertEquals(
+      payload.data["unsubscribe_url"],
+      "https://www.espboards.dev/store/alerts/unsubscribe?token=unsubscribe-token",
+    );
+  });
+});
+
+// hooks.example.com resolves to a public address
+const publicDns = (): Promise<string[]> => Promise.resolve(["93.184.215.14"]);
+
+describe("WebhookTransport", () => {
+  it("should POST the message as JSON", async () => {
+    const requests: { url: string; body: Record<string, unknown> }[] = [];
+    const fakeFetch = (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+      requests.push({ url: String(input), body: JSON.parse(String(init?.body)) });
+      return Promise.resolve(new Response("ok", { status: 200 }));
+    };
+
+    await new WebhookTransport(1000, fakeFetch as typeof fetch, publicDns).send(message);
+
+    assertEquals(requests.length, 1);
+    assertEquals(requests[0]?.url, "https://hooks.example.com/alerts");
+    assertEquals(requests[0]?.body["type"], "price_drop");
+    assertEquals(requests[0]?.body["subject"], "Price drop");
+  });
+
+  it("should fail on non-2xx responses so delivery is retried", async () => {
+    const fakeFetch = (): Promise<Response> => Promise.resolve(new Response("nope", { status: 500 }));
+
+    await assertRejects(
+      () => new WebhookTransport(1000, fakeFetch as typeof fetch, publicDns).send(message),
+      Error,
+      "HTTP 500",
+    );
+  });
+
+  it("should not follow redirects", async () => {
+    let redirect: RequestRedirect | undefined;
+    const fakeFetch = (_input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+      redirect = init?.redirect;
+      return Promise.resolve(new Response(null, { status: 302, headers: { Location: "http://169.254.169.254/" } }));
+    };
+
+    await assertRejects(
+      () => new WebhookTransport(1000, fakeFetch as typeof fetch, publicDns).send(message),
+      Error,
+      "HTTP 302",
+    );
+    assertEquals(redirect, "manual");
+  });
+
+  it("should refuse private, link-local and internal hosts without a request", async () => {
+    let requests = 0;
+    const fakeFetch = (): Promise<Response> => {
+      requests++;
+      return Promise.resolve(new Response("ok"));
+    };
+    const privateDns = (): Promise<string[]> => Promise.resolve(["93.184.215.14", "10.0.0.5"]);
+
+    for (const destination of ["https://169.254.169.254/latest", "https://[::1]/hook", "https://localhost/hook", "https://metadata.internal/"]) {
+      await assertRejects(
+        () => new WebhookTransport(1000, fakeFetch as typeof fetch, publicDns).send({ ...message, destination }),
+        Error,
+        "is not public",
+      );
+    }
+    await assertRejects(
+      () => new WebhookTransport(1000, fakeFetch as typeof fetch, privateDns).send(message),
+      Error,
+      "is not public",
+    );
+    assertEquals(requests, 0);
+  });
+});
+
+describe("isPublicAddress", () => {
+  it("should reject loopback, private, link-local and mapped addresses", () => {
+    for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:7f00:1"]) {
+      assertEquals(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("should accept public addresses", () => {
+    for (const address of ["93.184.215.14", "8.8.8.8", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      assertEquals(isPublicAddress(address), true, address);
+    }
+  });
+});
+
+describe("ConsoleTransport", () => {
+  it("should log neither the destination nor tokens", async () => {
+    const entries: LogEntry[] = [];
+    const logger = new Logger({ minLevel: LogLevel.DEBUG, sampleRate: 1, sinks: [{ write: (entry) => entries.push(entry) }] });
+
+    await new ConsoleTransport(logger).send({
+      channel: "email",
+      destination: "maker@example.com",
+      subject: "Confirm your alert",
+      text: "Confirm the alert: https://www.espboards.dev/store/alerts/confirm?token=confirm-token",
+      data: { type: "confirmation", confirm_token: "confirm-token", confirm_url: "https://www.espboards.dev/store/alerts/confirm?token=confirm-token" },
+    });
+
+    const logged = JSON.stringify(entries);
+    assertEquals(entries.length, 1);
+    assertEquals(logged.includes("maker@example.com"), false);
+    assertEquals(logged.includes("confirm-token"), false);
+    assertStringIncludes(logged, "***@example.com");
+  });
+});
+
+describe("FileTransport", () => {
+  it("should append one JSON line per message", async () => {
+    const path = await Deno.makeTempFile({ suffix: ".jsonl" });
+
+    try {
+      const transport = new FileTransport(path);
+      await transport.send(message);
+      await transport.send({ ...message, subject: "Back in stock" });
+
+      const lines = (await Deno.readTextFile(path)).trim().split("\n").map((line) => JSON.parse(line));
+
+      assertEquals(lines.map((line) => line.subject), ["Price drop", "Back in stock"]);
+    } finally {
+      await Deno.remove(path);
+    }
+  });
+});
+
+describe("createNotificationTransports", () => {
+  const logger = new Logger({ minLevel: LogLevel.ERROR });
+
+  it("should default to the console transport for every channel", () => {
+    const transports = createNotificationTransports(() => undefined, logger);
+
+    assertEquals(transports.email.name, "console");
+    assertEquals(transports.webhook.name, "console");
+  });
+
+  it("should use SMTP and webhooks in live mode", () => {
+    const env: Record<string, string> = { NOTIFICATION_TRANSPORT: "live", SMTP_HOSTNAME: "smtp.example.com" };
+    const transports = createNotificationTransports((name) => env[name], logger);
+
+    assertEquals(transports.email.name, "smtp");
+    assertEquals(transports.webhook.name, "webhook");
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for catalog cache invalidation
+ *
+ * Tests verify:
+ * - The endpoint is built from SITE_URL and needs CACHE_INVALIDATION_SECRET
+ * - Requests carry the bearer secret and the logger's correlation ID
+ * - Failed or unconfigured invalidations return false without throwing
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+
+import { cacheInvalidationConfigFromEnv, invalidateCatalogCache } from "../cache-invalidation.ts";
+import { Logger, LogLevel } from "../logger.ts";
+
+const CONFIG = { url: "https://www.espboards.dev/store/api/cache/invalidate", secret: "s3cret" };
+
+/**
+ * fetch recording its requests
+ */
+function recordingFetch(respond: () => Response | Promise<Response>) {
+  const requests: Request[] = [];
+
+  const fetchFn = (input: string | URL | Request, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    return Promise.resolve(respond());
+  };
+
+  return { requests, fetch: fetchFn as typeof fetch };
+}
+
+describe("cacheInvalidationConfigFromEnv", () => {
+  it("should build the endpoint from SITE_URL", () => {
+    const env: Record<string, string> = { SITE_URL: "https://www.espboards.dev/store/", CACHE_INVALIDATION_SECRET: "s3cret" };
+
+    assertEquals(cacheInvalidationConfigFromEnv((name) => env[name]), CONFIG);
+  });
+
+  it("should be null without a secret or site URL", () => {
+    assertEquals(cacheInvalidationConfigFromEnv((name) => name === "SITE_URL" ? "https://example.com" : undefined), null);
+    assertEquals(cacheInvalidationConfigFromEnv((name) => name === "CACHE_INVALIDATION_SECRET" ? "s3cret" : undefined), null);
+  });
+});
+
+describe("invalidateCatalogCache", () => {
+  const logger = new Logger({ minLevel: LogLevel.ERROR, correlationId: "refresh-run-1" });
+
+  it("should POST with the bearer secret and correlation ID", async () => {
+    const recorder = recordingFetch(() => new Response(JSON.stringify({ success: true })));
+
+    assertEquals(await invalidateCatalogCache(CONFIG, logger, recorder.fetch), true);
+    assertEquals(recorder.requests.length, 1);
+    assertEquals(recorder.requests[0].method, "POST");
+    assertEquals(recorder.requests[0].url, CONFIG.url);
+    assertEquals(recorder.requests[0].headers.get("authorization"), "Bearer s3cret");
+    assertEquals(recorder.requests[0].headers.get("x-correlation-id"), "refresh-run-1");
+  });
+
+  it("should return false on error responses and network failures", async () => {
+    const rejected = recordingFetch(() => new Response(null, { status: 401 }));
+    const failing = recordingFetch(() => Promise.reject(new TypeError("connection refused")));
+
+    assertEquals(await invalidateCatalogCache(CONFIG, logger, rejected.fetch), false);
+    assertEquals(await invalidateCatalogCache(CONFIG, logger, failing.fetch), false);
+  });
+
+  it("should skip the request when not configured", async () => {
+    const recorder = recordingFetch(() => new Response(null));
+
+    assertEquals(await invalidateCatalogCache(null, logger, recorder.fetch), false);
+    assertEquals(recorder.requests.length, 0);
+  });
+});
@@ -26,7 +26,9 @@ import {
   CircuitBreaker,
   CircuitState,
   CircuitOpenError,
+  InMemoryCircuitStateStore,
   type CircuitBreakerConfig,
+  type CircuitStateStore,
 } from "../circuit-breaker.ts";
 
 describe("CircuitBreaker", () => {
@@ -488,5 +490,132 @@ describe("CircuitBreaker", () => {
         assertEquals(customError.code, "CUSTOM_CODE");
       }
     });
+
+    it("should not count errors rejected by isFailure", async () => {
+      class SkippedError extends Error {}
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        isFailure: (error) => !(error instanceof SkippedError),
+      });
+
+      await assertRejects(
+        async () => await breaker.execute(async (): Promise<never> => {
+          throw new SkippedError("never reached the service");
+        }),
+        SkippedError
+      );
+
+      const state = breaker.getState();
+      assertEquals(state.state, CircuitState.CLOSED);
+      assertEquals(state.failureCount, 0);
+    });
+  });
+
+  describe("Shared State Store", () => {
+    const failureFn = async (): Promise<never> => {
+      throw new Error("Service failure");
+    };
+    const successFn = async (): Promise<string> => "success";
+
+    it("should share OPEN state between breakers using the same store", async () => {
+      const store = new InMemoryCircuitStateStore();
+      const first = new CircuitBreaker({ failureThreshold: 2, name: "shared", store });
+      const second = new CircuitBreaker({ failureThreshold: 2, name: "shared", store });
+
+      for (let i = 0; i < 2; i++) {
+        await assertRejects(async () => await first.execute(failureFn), Error, "Service failure");
+      }
+
+      await assertRejects(
+        async () => await second.execute(successFn),
+        CircuitOpenError,
+        "Circuit breaker is OPEN"
+      );
+      assertEquals(second.getState().state, CircuitState.OPEN);
+    });
+
+    it("should count failures across breakers", async () => {
+      const store = new InMemoryCircuitStateStore();
+      const first = new CircuitBreaker({ failureThreshold: 2, name: "shared", store });
+      const second = new CircuitBreaker({ failureThreshold: 2, name: "shared", store });
+
+      await assertRejects(async () => await first.execute(failureFn), Error);
+      await assertRejects(async () => await second.execute(failureFn), Error);
+
+      assertEquals((await first.loadState()).state, CircuitState.OPEN);
+    });
+
+    it("should keep breakers with different names apart", async () => {
+      const store = new InMemoryCircuitStateStore();
+      const first = new CircuitBreaker({ failureThreshold: 1, name: "first", store });
+      const second = new CircuitBreaker({ failureThreshold: 1, name: "second", store });
+
+      await assertRejects(async () => await first.execute(failureFn), Error);
+
+      assertEquals(await second.execute(successFn), "success");
+    });
+
+    it("should block every request while forced OPEN", async () => {
+      const store = new InMemoryCircuitStateStore();
+      const admin = new CircuitBreaker({ cooldownTimeout: 0, name: "shared", store });
+      const worker = new CircuitBreaker({ cooldownTimeout: 0, name: "shared", store });
+
+      await admin.forceOpen();
+
+      // The cooldown doesn't lift a forced OPEN circuit
+      await assertRejects(
+        async () => await worker.execute(successFn),
+        CircuitOpenError,
+        "forced by admin"
+      );
+      assertEquals(worker.isRequestAllowed(), false);
+      assertEquals(worker.getState().forcedOpen, true);
+    });
+
+    it("should not let a saved request outcome undo a forced OPEN", async () => {
+      const store = new InMemoryCircuitStateStore();
+      await store.force("shared", true);
+      await store.save("shared", { state: CircuitState.CLOSED, failureCount: 0, successCount: 1 });
+
+      assertEquals((await store.load("shared"))?.forcedOpen, true);
+    });
+
+    it("should resume automatic behavior when force-closed", async () => {
+      const store = new InMemoryCircuitStateStore();
+      const admin = new CircuitBreaker({ failureThreshold: 1, name: "shared", store });
+      const worker = new CircuitBreaker({ failureThreshold: 1, name: "shared", store });
+
+      await assertRejects(async () => await worker.execute(failureFn), Error);
+      await admin.forceOpen();
+      await admin.forceClose();
+
+      assertEquals(await worker.execute(successFn), "success");
+      const state = worker.getState();
+      assertEquals(state.state, CircuitState.CLOSED);
+      assertEquals(state.forcedOpen, false);
+    });
+
+    it("should allow a recovery test once the cooldown has passed", async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownTimeout: 50 });
+
+      await assertRejects(async () => await breaker.execute(failureFn), Error);
+      assertEquals(breaker.isRequestAllowed(), false);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      assertEquals(breaker.isRequestAllowed(), true);
+    });
+
+    it("should fall back to local state when the store fails", async () => {
+      const failingStore: CircuitStateStore = {
+        load: () => Promise.reject(new Error("Store unavailable")),
+        save: () => Promise.reject(new Error("Store unavailable")),
+        force: () => Promise.reject(new Error("Store unavailable")),
+      };
+      const breaker = new CircuitBreaker({ failureThreshold: 1, store: failingStore });
+
+      assertEquals(await breaker.execute(successFn), "success");
+      await assertRejects(async () => await breaker.execute(failureFn), Error, "Service failure");
+      assertEquals(breaker.getState().state, CircuitState.OPEN);
+    });
   });
 });
@@ -0,0 +1,203 @@
+/**
+ * Fake PA-API Server Tests
+ *
+ * Runs the real PaapiClient (Signature V4 signing via aws4fetch) against the
+ * fake server to verify:
+ * - GetItems and SearchItems are served from fixture items
+ * - Unsigned or malformed requests are rejected with InvalidSignature
+ * - Partial Errors arrays, ItemNotAccessible and InvalidParameterValue
+ * - TooManyRequests throttling, timeouts and scheduled price changes
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertExists,
+  assertRejects,
+} from "https://deno.land/std@0.220.0/assert/mod.ts";
+import { afterAll, beforeAll, beforeEach, describe, it } from "https://deno.land/std@0.220.0/testing/bdd.ts";
+
+import { checkSignatureV4Shape, FakePaapi } from "../fake-paapi.ts";
+import { getPaapiCircuitBreaker, PaapiClient, PaapiClientError, type PaapiConfig } from "../paapi-client.ts";
+import { ErrorCode } from "../errors.ts";
+import type { PaapiItem } from "../types.ts";
+
+const ESP32_DEVKIT: PaapiItem = {
+  ASIN: "B08DQQ8CBP",
+  DetailPageURL: "https://www.amazon.com/dp/B08DQQ8CBP",
+  ItemInfo: {
+    Title: { DisplayValue: "ESP32-DevKitC-32UE Development Board" },
+    ByLineInfo: { Brand: { DisplayValue: "Espressif Systems" } },
+  },
+  Offers: {
+    Listings: [{
+      Price: { Amount: 23.99, Currency: "USD" },
+      SavingBasis: { Amount: 29.99 },
+      Availability: { Type: "Now", Message: "In Stock" },
+    }],
+  },
+};
+
+const ESP32_CAM: PaapiItem = {
+  ASIN: "B07RXPHYNM",
+  ItemInfo: {
+    Title: { DisplayValue: "ESP32-CAM WiFi Bluetooth Camera Module OV2640" },
+    ByLineInfo: { Brand: { DisplayValue: "AZ-Delivery" } },
+  },
+};
+
+const RESOURCES = ["ItemInfo.Title", "Offers.Listings.Price"];
+
+describe("FakePaapi", () => {
+  const fake = new FakePaapi({ items: [ESP32_DEVKIT, ESP32_CAM], accessKey: "FAKE_ACCESS_KEY" });
+  let server: Deno.HttpServer<Deno.NetAddr>;
+  let config: PaapiConfig;
+
+  const client = (timeout?: number) => new PaapiClient(config, timeout);
+
+  beforeAll(() => {
+    server = Deno.serve({ port: 0, onListen: () => {} }, (req) => fake.handle(req));
+    config = {
+      accessKey: "FAKE_ACCESS_KEY",
+      secretKey: "FAKE_SECRET_KEY",
+      partnerTag: "test-partner-20",
+      marketplace: "www.amazon.com",
+      region: "us-east-1",
+      endpoint: `http://localhost:${server.addr.port}/paapi5`,
+    };
+  });
+
+  afterAll(async () => {
+    await server.shutdown();
+  });
+
+  beforeEach(async () => {
+    fake.setScenario({});
+    // Failures below must not trip the shared breaker for later tests
+    await getPaapiCircuitBreaker().forceClose();
+  });
+
+  describe("Signature V4", () => {
+    it("should accept requests signed by PaapiClient", async () => {
+      const response = await client().getItems({ itemIds: ["B08DQQ8CBP"], resources: RESOURCES });
+
+      assertEquals(response.ItemsResult?.Items?.[0]?.ASIN, "B08DQQ8CBP");
+      assertEquals(fake.getState().requests.GetItems, 1);
+    });
+
+    it("should reject unsigned requests with InvalidSignature", async () => {
+      const response = await fetch(`${config.endpoint}/getitems`, {
+        method: "POST",
+        body: JSON.stringify({ ItemIds: ["B08DQQ8CBP"] }),
+      });
+      const body = await response.json();
+
+      assertEquals(response.status, 401);
+      assertEquals(body.Errors[0].Code, "InvalidSignature");
+    });
+
+    it("should reject other access keys and wrong operations", () => {
+      const headers = new Headers({
+        "Authorization": `AWS4-HMAC-SHA256 Credential=OTHER_KEY/20251201/us-east-1/ProductAdvertisingAPI/aws4_request, SignedHeaders=content-encoding;host;x-amz-date;x-amz-target, Signature=${"a".repeat(64)}`,
+        "X-Amz-Date": "20251201T120000Z",
+        "X-Amz-Target": "com.amazon.paapi5.v1.ProductAdvertisingAPIv1.SearchItems",
+        "Content-Encoding": "amz-1.0",
+      });
+
+      assertEquals(checkSignatureV4Shape(headers, "SearchItems"), null);
+      assertEquals(checkSignatureV4Shape(headers, "SearchItems", "FAKE_ACCESS_KEY"), "Unknown access key OTHER_KEY");
+      assert(checkSignatureV4Shape(headers, "GetItems")?.startsWith("X-Amz-Target must be"));
+    });
+  });
+
+  describe("GetItems", () => {
+    it("should return partial results with per-ASIN errors", async () => {
+      const response = await client().getItems({
+        itemIds: ["B08DQQ8CBP", "B000000000", "bad-asin"],
+        resources: RESOURCES,
+      });
+
+      assertEquals(response.ItemsResult?.Items?.map((item) => item.ASIN), ["B08DQQ8CBP"]);
+      assertEquals(response.Errors?.map((error) => error.Code), ["ItemNotAccessible", "InvalidParameterValue"]);
+    });
+
+    it("should throw ItemNotAccessible when no item resolves", async () => {
+      fake.setScenario({ inaccessible: ["B08DQQ8CBP"] });
+
+      const error = await assertRejects(
+        () => client().getItems({ itemIds: ["B08DQQ8CBP"], resources: RESOURCES }),
+        PaapiClientError,
+      );
+      assertEquals(error.code, ErrorCode.PAAPI_ITEM_NOT_ACCESSIBLE);
+    });
+
+    it("should throttle the next requests with TooManyRequests", async () => {
+      fake.setScenario({ throttle: 1 });
+
+      const error = await assertRejects(
+        () => client().getItems({ itemIds: ["B08DQQ8CBP"], resources: RESOURCES }),
+        PaapiClientError,
+      );
+      assertEquals(error.code, ErrorCode.PAAPI_THROTTLED);
+
+      const response = await client().getItems({ itemIds: ["B08DQQ8CBP"], resources: RESOURCES });
+      assertExists(response.ItemsResult);
+    });
+
+    it("should time out slow responses", async () => {
+      fake.setScenario({ delayMs: 200 });
+
+      const error = await assertRejects(
+        () => client(50).getItems({ itemIds: ["B08DQQ8CBP"], resources: RESOURCES }),
+        PaapiClientError,
+      );
+      assertEquals(error.code, "TIMEOUT");
+
+      // Let the delayed response finish before the server shuts down
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    });
+
+    it("should change prices on every request and keep the last one", async () => {
+      fake.setScenario({ prices: { B08DQQ8CBP: [23.99, 19.99] } });
+
+      const prices: Array<number | undefined> = [];
+      for (let i = 0; i < 3; i++) {
+        const response = await client().getItems({ itemIds: ["B08DQQ8CBP"], resources: RESOURCES });
+        prices.push(response.ItemsResult?.Items?.[0]?.Offers?.Listings?.[0]?.Price?.Amount);
+      }
+
+      assertEquals(prices, [23.99, 19.99, 19.99]);
+      assertEquals(fake.getState().priceRequests, { B08DQQ8CBP: 3 });
+    });
+  });
+
+  describe("SearchItems", () => {
+    it("should match keywords against titles and brands", async () => {
+      const response = await client().searchItems({ Keywords: "esp32 espressif" });
+
+      assertEquals(response.SearchResult?.Items?.map((item) => item.ASIN), ["B08DQQ8CBP"]);
+      assertEquals(response.SearchResult?.TotalResultCount, 1);
+    });
+
+    it("should fail with NoResults when nothing matches", async () => {
+      await assertRejects(
+        () => client().searchItems({ Keywords: "raspberry pi" }),
+        PaapiClientError,
+        "No results found",
+      );
+    });
+  });
+
+  describe("Control endpoints", () => {
+    it("should replace the scenario at runtime", async () => {
+      const response = await fetch(`http://localhost:${server.addr.port}/__fake/scenario`, {
+        method: "PUT",
+        body: JSON.stringify({ throttle: 2 }),
+      });
+      const state = await response.json();
+
+      assertEquals(state.scenario, { throttle: 2 });
+      assertEquals(state.requests, { GetItems: 0, SearchItems: 0, rejected: 0 });
+    });
+  });
+});
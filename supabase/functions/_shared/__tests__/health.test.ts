@@ -0,0 +1,174 @@
+/**
+ * Unit tests for health checks
+ *
+ * Tests verify:
+ * - Database latency and probe errors
+ * - Circuit breaker states (including admin overrides)
+ * - PA-API credentials and refresh failure rate
+ * - Refresh backlog age and last successful refresh
+ * - Roll-up to healthy / degraded / unhealthy and HTTP status codes
+ */
+
+import { assertEquals } from "https://deno.land/std@0.220.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.220.0/testing/bdd.ts";
+
+import { CircuitState, type CircuitBreakerState } from "../circuit-breaker.ts";
+import {
+  checkCircuitBreaker,
+  checkDatabase,
+  checkPaapi,
+  checkRefresh,
+  healthStatusCode,
+  rollUpHealth,
+  type RefreshHealthInput,
+} from "../health.ts";
+
+const NOW = new Date("2025-12-01T12:00:00.000Z");
+
+const hoursAgo = (hours: number) => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+const metrics = {
+  totalSuccesses: 10,
+  totalFailures: 1,
+  totalRequests: 11,
+  circuitOpens: 0,
+  circuitCloses: 0,
+};
+
+const breakerState = (overrides: Partial<CircuitBreakerState> = {}): CircuitBreakerState => ({
+  name: "paapi-client",
+  state: CircuitState.CLOSED,
+  failureCount: 0,
+  successCount: 0,
+  forcedOpen: false,
+  ...overrides,
+});
+
+const refreshInput = (overrides: Partial<RefreshHealthInput> = {}): RefreshHealthInput => ({
+  backlogCount: 3,
+  neverRefreshedCount: 0,
+  oldestRefreshAt: hoursAgo(26),
+  lastSuccessAt: hoursAgo(0.1),
+  ...overrides,
+});
+
+describe("checkDatabase", () => {
+  it("should be up for a fast probe", () => {
+    assertEquals(checkDatabase(25).status, "up");
+  });
+
+  it("should be degraded for a slow probe", () => {
+    assertEquals(checkDatabase(1500).status, "degraded");
+  });
+
+  it("should be down when the probe fails", () => {
+    const health = checkDatabase(30, "connection refused");
+    assertEquals(health.status, "down");
+    assertEquals(health.message, "connection refused");
+  });
+});
+
+describe("checkCircuitBreaker", () => {
+  it("should be up when closed and include metrics", () => {
+    const health = checkCircuitBreaker(breakerState(), metrics);
+    assertEquals(health.status, "up");
+    assertEquals(health.details?.metrics, metrics);
+  });
+
+  it("should be degraded when half-open", () => {
+    assertEquals(checkCircuitBreaker(breakerState({ state: CircuitState.HALF_OPEN }), metrics).status, "degraded");
+  });
+
+  it("should be down when open", () => {
+    assertEquals(checkCircuitBreaker(breakerState({ state: CircuitState.OPEN }), metrics).status, "down");
+  });
+
+  it("should be down when forced open", () => {
+    const health = checkCircuitBreaker(breakerState({ state: CircuitState.OPEN, forcedOpen: true }), metrics);
+    assertEquals(health.status, "down");
+    assertEquals(health.message, "Forced open by an admin");
+  });
+});
+
+describe("checkPaapi", () => {
+  it("should be down without credentials", () => {
+    assertEquals(checkPaapi(false, { success: 10, failed: 0 }).status, "down");
+  });
+
+  it("should be up with a low failure rate", () => {
+    const health = checkPaapi(true, { success: 9, failed: 1 });
+    assertEquals(health.status, "up");
+    assertEquals(health.details?.failure_rate, 10);
+  });
+
+  it("should be degraded when half of the refreshes failed", () => {
+    assertEquals(checkPaapi(true, { success: 5, failed: 5 }).status, "degraded");
+  });
+
+  it("should ignore the failure rate of only a few jobs", () => {
+    assertEquals(checkPaapi(true, { success: 1, failed: 3 }).status, "up");
+  });
+});
+
+describe("checkRefresh", () => {
+  it("should be up with an empty backlog, even without refreshes", () => {
+    assertEquals(checkRefresh(refreshInput({ backlogCount: 0, lastSuccessAt: null }), NOW).status, "up");
+  });
+
+  it("should be up when the worker is keeping up", () => {
+    const health = checkRefresh(refreshInput(), NOW);
+    assertEquals(health.status, "up");
+    assertEquals(health.details?.backlog_age_hours, 26);
+  });
+
+  it("should be degraded after an hour without a successful refresh", () => {
+    assertEquals(checkRefresh(refreshInput({ lastSuccessAt: hoursAgo(2) }), NOW).status, "degraded");
+  });
+
+  it("should be down after six hours without a successful refresh", () => {
+    assertEquals(checkRefresh(refreshInput({ lastSuccessAt: hoursAgo(7) }), NOW).status, "down");
+  });
+
+  it("should be down when products wait and nothing was ever refreshed", () => {
+    const health = checkRefresh(refreshInput({ lastSuccessAt: null }), NOW);
+    assertEquals(health.status, "down");
+    assertEquals(health.message, "No successful refresh recorded");
+  });
+
+  it("should be degraded when the backlog is old", () => {
+    assertEquals(checkRefresh(refreshInput({ oldestRefreshAt: hoursAgo(50) }), NOW).status, "degraded");
+  });
+});
+
+describe("rollUpHealth", () => {
+  const up = { status: "up" as const };
+
+  it("should be healthy when every component is up", () => {
+    const health = rollUpHealth({ database: up, paapi: up, circuit_breaker: up, refresh: up }, NOW);
+    assertEquals(health.status, "healthy");
+    assertEquals(health.timestamp, NOW.toISOString());
+    assertEquals(healthStatusCode(health.status), 200);
+  });
+
+  it("should be degraded when PA-API is down but the database is up", () => {
+    const health = rollUpHealth({
+      database: up,
+      paapi: up,
+      circuit_breaker: { status: "down" },
+      refresh: up,
+    }, NOW);
+    assertEquals(health.status, "degraded");
+    assertEquals(healthStatusCode(health.status), 200);
+  });
+
+  it("should be unhealthy when the database is down", () => {
+    const health = rollUpHealth({
+      database: { status: "down" },
+      paapi: up,
+      circuit_breaker: up,
+      refresh: up,
+    }, NOW);
+    assertEquals(health.status, "unhealthy");
+    assertEquals(healthStatusCode(health.status), 503);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for bulk import row outcomes
+ *
+ * Tests verify:
+ * - Per-ASIN GetItems errors settle rows as not accessible or invalid
+ * - Whole-request errors only settle rows when the ASIN itself was rejected
+ * - Imported products are drafts carrying the row's product type and group
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+
+import { buildImportedProduct, outcomeForMissingItem, outcomeForRequestError } from "../import-rows.ts";
+import { PaapiClientError } from "../paapi-client.ts";
+import { ErrorCode } from "../errors.ts";
+import type { PaapiItem } from "../types.ts";
+
+const ROW = {
+  asin: "B0ABCDEF12",
+  marketplace_id: "marketplace-us",
+  product_type: "sensor",
+  group_id: "group-1",
+};
+
+describe("outcomeForMissingItem", () => {
+  it("should settle ItemNotAccessible errors as not accessible", () => {
+    const outcome = outcomeForMissingItem({
+      status: "error",
+      error: { Code: "ItemNotAccessible", Message: "The ItemId B0ABCDEF12 is not accessible." },
+    });
+
+    assertEquals(outcome, { status: "not_accessible", error_message: "The ItemId B0ABCDEF12 is not accessible." });
+  });
+
+  it("should settle InvalidParameterValue errors as invalid ASINs", () => {
+    const outcome = outcomeForMissingItem({
+      status: "error",
+      error: { Code: "InvalidParameterValue", Message: "The value [B0ABCDEF12] provided is invalid." },
+    });
+
+    assertEquals(outcome.status, "invalid_asin");
+  });
+
+  it("should settle ASINs missing from the response as not accessible", () => {
+    assertEquals(outcomeForMissingItem({ status: "missing" }).status, "not_accessible");
+    assertEquals(outcomeForMissingItem(undefined).status, "not_accessible");
+  });
+});
+
+describe("outcomeForRequestError", () => {
+  it("should settle rows rejected as not accessible", () => {
+    const error = new PaapiClientError("Not accessible", ErrorCode.PAAPI_ITEM_NOT_ACCESSIBLE);
+
+    assertEquals(outcomeForRequestError(error).status, "not_accessible");
+  });
+
+  it("should settle rows rejected as invalid values", () => {
+    const error = new PaapiClientError("Invalid parameter", ErrorCode.PAAPI_INVALID_PARAMETER);
+
+    assertEquals(outcomeForRequestError(error).status, "invalid_asin");
+  });
+
+  it("should fail rows on throttling and network errors so they can be retried", () => {
+    const throttled = new PaapiClientError("Rate limit exceeded", ErrorCode.PAAPI_THROTTLED);
+
+    assertEquals(outcomeForRequestError(throttled), { status: "failed", error_message: "Rate limit exceeded" });
+    assertEquals(outcomeForRequestError(new Error("Network timeout")).status, "failed");
+  });
+});
+
+describe("buildImportedProduct", () => {
+  const item = {
+    ASIN: "B0ABCDEF12",
+    DetailPageURL: "https://www.amazon.com/dp/B0ABCDEF12",
+    ItemInfo: { Title: { DisplayValue: "BME280 Sensor Module" } },
+    Offers: { Listings: [{ Price: { Amount: 9.99, Currency: "USD" } }] },
+  } as unknown as PaapiItem;
+
+  it("should create a draft with the row's product type and group", () => {
+    const product = buildImportedProduct(item, ROW, "2025-11-30T12:00:00.000Z");
+
+    assertEquals(product.status, "draft");
+    assertEquals(product.asin, "B0ABCDEF12");
+    assertEquals(product.marketplace_id, "marketplace-us");
+    assertEquals(product.group_id, "group-1");
+    assertEquals(product.title, "BME280 Sensor Module");
+    assertEquals(product.current_price, 9.99);
+    assertEquals(product.currency, "USD");
+    assertEquals(product.detail_page_url, "https://www.amazon.com/dp/B0ABCDEF12");
+    assertEquals(product.metadata, { display: {}, filters: { product_type: "sensor" } });
+    assertEquals(product.last_refresh_at, "2025-11-30T12:00:00.000Z");
+  });
+
+  it("should leave metadata empty without a product type", () => {
+    const product = buildImportedProduct(item, { ...ROW, product_type: null, group_id: null }, "2025-11-30T12:00:00.000Z");
+
+    assertEquals(product.metadata, { display: {}, filters: {} });
+    assertEquals(product.group_id, null);
+  });
+});
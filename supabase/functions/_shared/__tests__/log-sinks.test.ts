@@ -0,0 +1,174 @@
+/**
+ * Unit tests for log sinks
+ *
+ * Tests verify:
+ * - Buffered sinks send entries on flush() or when the batch is full
+ * - Entries below the sink's minimum level are skipped
+ * - Failed sends are dropped without rejecting flush()
+ * - PostgresLogSink maps entries to function_logs rows
+ * - LOG_SINKS selects the sinks, skipping those missing their settings
+ */
+
+import { assertEquals, assertInstanceOf } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { afterEach, beforeEach, describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+import { createLogSinks, HttpLogSink, PostgresLogSink } from "../log-sinks.ts";
+import { ConsoleSink, type LogEntry, LogLevel } from "../logger.ts";
+
+function entry(level: LogLevel, message = "Test"): LogEntry {
+  return {
+    timestamp: "2025-12-04T10:00:00.000Z",
+    level,
+    message,
+    source: "import-product",
+    correlation_id: "nuxt-request-1234",
+  };
+}
+
+/**
+ * fetch recording the posted batches
+ */
+function recordingFetch(status = 200) {
+  const batches: LogEntry[][] = [];
+  const requests: Request[] = [];
+
+  const fetchFn = (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requests.push(request);
+    return request.json().then((body) => {
+      batches.push(body);
+      return new Response(null, { status });
+    });
+  };
+
+  return { batches, requests, fetch: fetchFn as typeof fetch };
+}
+
+// Silence the sinks' own warnings and send failures
+const originalConsoleWarn = console.warn;
+const originalConsoleError = console.error;
+
+beforeEach(() => {
+  console.warn = () => {};
+  console.error = () => {};
+});
+
+afterEach(() => {
+  console.warn = originalConsoleWarn;
+  console.error = originalConsoleError;
+});
+
+describe("HttpLogSink", () => {
+  it("should send buffered entries as one JSON array on flush", async () => {
+    const shipper = recordingFetch();
+    const sink = new HttpLogSink("https://logs.example.com/ingest", { token: "secret", fetch: shipper.fetch });
+
+    sink.write(entry(LogLevel.INFO, "First"));
+    sink.write(entry(LogLevel.ERROR, "Second"));
+    assertEquals(shipper.batches.length, 0);
+
+    await sink.flush();
+
+    assertEquals(shipper.batches.length, 1);
+    assertEquals(shipper.batches[0]?.map((e) => e.message), ["First", "Second"]);
+    assertEquals(shipper.requests[0]?.headers.get("Authorization"), "Bearer secret");
+  });
+
+  it("should send without waiting for flush once the batch is full", async () => {
+    const shipper = recordingFetch();
+    const sink = new HttpLogSink("https://logs.example.com/ingest", { batchSize: 2, fetch: shipper.fetch });
+
+    sink.write(entry(LogLevel.INFO));
+    sink.write(entry(LogLevel.INFO));
+    await sink.flush();
+
+    assertEquals(shipper.batches.length, 1);
+    assertEquals(shipper.batches[0]?.length, 2);
+  });
+
+  it("should skip entries below its minimum level", async () => {
+    const shipper = recordingFetch();
+    const sink = new HttpLogSink("https://logs.example.com/ingest", { minLevel: LogLevel.WARN, fetch: shipper.fetch });
+
+    sink.write(entry(LogLevel.INFO));
+    sink.write(entry(LogLevel.WARN));
+    await sink.flush();
+
+    assertEquals(shipper.batches[0]?.map((e) => e.level), [LogLevel.WARN]);
+  });
+
+  it("should drop a batch the shipper rejects", async () => {
+    const shipper = recordingFetch(503);
+    const sink = new HttpLogSink("https://logs.example.com/ingest", { fetch: shipper.fetch });
+
+    sink.write(entry(LogLevel.ERROR));
+    await sink.flush();
+    await sink.flush();
+
+    assertEquals(shipper.batches.length, 1);
+  });
+});
+
+describe("PostgresLogSink", () => {
+  it("should insert entries as function_logs rows", async () => {
+    const inserts: { table: string; rows: unknown }[] = [];
+    const supabase = {
+      from: (table: string) => ({
+        insert: (rows: unknown) => {
+          inserts.push({ table, rows });
+          return Promise.resolve({ error: null });
+        },
+      }),
+    } as unknown as SupabaseClient;
+
+    const sink = new PostgresLogSink(supabase);
+    sink.write(entry(LogLevel.WARN, "Slow PA-API response"));
+    await sink.flush();
+
+    assertEquals(inserts, [{
+      table: "function_logs",
+      rows: [{
+        logged_at: "2025-12-04T10:00:00.000Z",
+        level: LogLevel.WARN,
+        message: "Slow PA-API response",
+        source: "import-product",
+        correlation_id: "nuxt-request-1234",
+        metadata: null,
+        error: null,
+      }],
+    }]);
+  });
+});
+
+describe("createLogSinks", () => {
+  const env = (values: Record<string, string>) => (name: string) => values[name];
+
+  it("should log to the console by default", () => {
+    const sinks = createLogSinks(env({}));
+
+    assertEquals(sinks.length, 1);
+    assertInstanceOf(sinks[0], ConsoleSink);
+  });
+
+  it("should create the listed sinks", () => {
+    const sinks = createLogSinks(env({
+      LOG_SINKS: "console, postgres,http",
+      SUPABASE_URL: "http://localhost:54321",
+      SUPABASE_SERVICE_ROLE_KEY: "service-role-key",
+      LOG_HTTP_URL: "https://logs.example.com/ingest",
+    }));
+
+    assertEquals(sinks.length, 3);
+    assertInstanceOf(sinks[0], ConsoleSink);
+    assertInstanceOf(sinks[1], PostgresLogSink);
+    assertInstanceOf(sinks[2], HttpLogSink);
+  });
+
+  it("should skip sinks missing their settings and fall back to the console", () => {
+    const sinks = createLogSinks(env({ LOG_SINKS: "http,postgres,syslog" }));
+
+    assertEquals(sinks.length, 1);
+    assertInstanceOf(sinks[0], ConsoleSink);
+  });
+});
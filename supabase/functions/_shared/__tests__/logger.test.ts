@@ -8,6 +8,8 @@
  * - Metadata attachment
  * - Error logging with stack traces
  * - Child logger creation
+ * - Sinks and correlation-ID based sampling
+ * - Request tracing (x-correlation-id in and out, flushing)
  */
 
 import {
@@ -22,13 +24,20 @@ import {
   it,
 } from 'https://deno.land/std@0.208.0/testing/bdd.ts';
 import {
+  configureLogging,
+  ConsoleSink,
+  CORRELATION_ID_HEADER,
+  correlationIdFromRequest,
   createLogger,
   createLoggerWithCorrelation,
   generateCorrelationId,
+  isSampled,
   Logger,
   LogEntry,
   LogLevel,
   logger,
+  LogSink,
+  withRequestTracing,
 } from '../logger.ts';
 
 // Capture console.log output for testing
@@ -395,3 +404,137 @@ describe('Logger', () => {
     });
   });
 });
+
+/**
+ * Sink keeping entries in memory
+ */
+class MemorySink implements LogSink {
+  entries: LogEntry[] = [];
+  flushes = 0;
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+
+  flush(): Promise<void> {
+    this.flushes++;
+    return Promise.resolve();
+  }
+}
+
+describe('Log sinks', () => {
+  afterEach(() => {
+    configureLogging({ sinks: [new ConsoleSink()], sampleRate: 1 });
+  });
+
+  it('should write to the logger\'s own sinks', () => {
+    const sink = new MemorySink();
+    const testLogger = createLogger({ sinks: [sink], source: 'import-product' });
+
+    testLogger.info('Imported');
+
+    assertEquals(sink.entries.length, 1);
+    assertEquals(sink.entries[0]?.source, 'import-product');
+  });
+
+  it('should use the configured default sinks, also for existing loggers', () => {
+    const testLogger = createLogger();
+    const sink = new MemorySink();
+    configureLogging({ sinks: [sink] });
+
+    testLogger.warn('Slow response');
+
+    assertEquals(sink.entries[0]?.message, 'Slow response');
+  });
+
+  it('should keep logging when a sink throws', () => {
+    const sink = new MemorySink();
+    const failing: LogSink = {
+      write() {
+        throw new Error('sink down');
+      },
+    };
+
+    createLogger({ sinks: [failing, sink] }).info('Still logged');
+
+    assertEquals(sink.entries.length, 1);
+  });
+});
+
+describe('Sampling', () => {
+  it('should decide the same way for every log of a correlation ID', () => {
+    const decisions = new Set(
+      Array.from({ length: 5 }, () => isSampled('3f1b9a2e-request', 0.5)),
+    );
+
+    assertEquals(decisions.size, 1);
+  });
+
+  it('should keep roughly the sampled share of correlation IDs', () => {
+    const ids = Array.from({ length: 1000 }, (_, i) => `request-${i}`);
+    const kept = ids.filter((id) => isSampled(id, 0.25)).length;
+
+    assertEquals(kept > 180 && kept < 320, true);
+  });
+
+  it('should drop sampled-out info logs but keep warnings and errors', () => {
+    const sink = new MemorySink();
+    const testLogger = createLogger({ sinks: [sink], sampleRate: 0, correlationId: 'request-1' });
+
+    testLogger.info('Dropped');
+    testLogger.warn('Kept');
+    testLogger.error('Kept too', new Error('boom'));
+
+    assertEquals(sink.entries.map((entry) => entry.level), [LogLevel.WARN, LogLevel.ERROR]);
+  });
+});
+
+describe('Request tracing', () => {
+  it('should take a valid correlation ID from the request', () => {
+    const req = new Request('http://localhost/', {
+      headers: { [CORRELATION_ID_HEADER]: 'nuxt-request-1234' },
+    });
+
+    assertEquals(correlationIdFromRequest(req), 'nuxt-request-1234');
+  });
+
+  it('should replace missing or malformed correlation IDs', () => {
+    const req = new Request('http://localhost/', {
+      headers: { [CORRELATION_ID_HEADER]: 'bad id <script>' },
+    });
+
+    assertEquals(correlationIdFromRequest(req).length, 36);
+  });
+
+  it('should pass the correlation ID to the handler and back in the response', async () => {
+    let seen: string | null = null;
+    const handler = withRequestTracing((req) => {
+      seen = req.headers.get(CORRELATION_ID_HEADER);
+      return Promise.resolve(new Response('{}', { status: 500 }));
+    });
+
+    const response = await handler(new Request('http://localhost/', {
+      headers: { [CORRELATION_ID_HEADER]: 'nuxt-request-1234' },
+    }));
+    await response.body?.cancel();
+
+    assertEquals(seen, 'nuxt-request-1234');
+    assertEquals(response.status, 500);
+    assertEquals(response.headers.get(CORRELATION_ID_HEADER), 'nuxt-request-1234');
+    assertStringIncludes(response.headers.get('Access-Control-Expose-Headers') ?? '', CORRELATION_ID_HEADER);
+  });
+
+  it('should flush the default sinks after the request', async () => {
+    const sink = new MemorySink();
+    configureLogging({ sinks: [sink] });
+
+    try {
+      const handler = withRequestTracing(() => Promise.resolve(new Response(null, { status: 204 })));
+      await handler(new Request('http://localhost/'));
+    } finally {
+      configureLogging({ sinks: [new ConsoleSink()] });
+    }
+
+    assertEquals(sink.flushes, 1);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Unit tests for marketplace settings
+ *
+ * Tests verify:
+ * - PAAPI_PARTNER_TAG_<CODE> overrides the stored associate tag
+ * - Marketplaces without any partner tag are refused
+ * - PA-API base URLs are derived from GetItems endpoints
+ */
+
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+
+import { getPaapiBaseEndpoint, getPartnerTag } from "../marketplaces.ts";
+
+describe("getPartnerTag", () => {
+  const env = (values: Record<string, string>) => (name: string) => values[name];
+
+  it("should prefer the PAAPI_PARTNER_TAG_<CODE> secret", () => {
+    assertEquals(getPartnerTag({ code: "US", associate_tag: "espboards-20" }, env({ PAAPI_PARTNER_TAG_US: "realtag-20" })), "realtag-20");
+    assertEquals(getPartnerTag({ code: "DE", associate_tag: "realtag-21" }, env({ PAAPI_PARTNER_TAG_US: "realtag-20" })), "realtag-21");
+  });
+
+  it("should refuse marketplaces without a partner tag", () => {
+    assertThrows(
+      () => getPartnerTag({ code: "UK", associate_tag: null }, env({})),
+      Error,
+      "No partner tag configured for marketplace UK",
+    );
+    assertThrows(() => getPartnerTag({ code: "UK", associate_tag: " " }, env({ PAAPI_PARTNER_TAG_UK: "" })), Error);
+  });
+});
+
+describe("getPaapiBaseEndpoint", () => {
+  it("should strip the operation from the endpoint", () => {
+    assertEquals(getPaapiBaseEndpoint("https://webservices.amazon.de/paapi5/getitems"), "https://webservices.amazon.de/paapi5");
+    assertEquals(getPaapiBaseEndpoint("https://webservices.amazon.com/paapi5/"), "https://webservices.amazon.com/paapi5");
+  });
+});
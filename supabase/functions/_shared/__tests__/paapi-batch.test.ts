@@ -0,0 +1,110 @@
+/**
+ * Unit tests for PA-API GetItems batching helpers
+ *
+ * Tests verify:
+ * - Products are split into GetItems requests of at most 10 ASINs
+ * - Grouping by marketplace keeps first-seen order
+ * - Per-ASIN Errors are mapped to the ASIN they refer to
+ * - Batched responses with only per-ASIN errors are treated as partial results
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+
+import {
+  chunk,
+  findErrorItemId,
+  groupBy,
+  isPartialGetItemsResult,
+  matchGetItemsResults,
+  PAAPI_MAX_ITEM_IDS,
+} from "../paapi-batch.ts";
+import type { PaapiGetItemsResponse } from "../types.ts";
+
+const notAccessible = (asin: string) => ({
+  Code: "ItemNotAccessible",
+  Message: `The ItemId ${asin} is not accessible through the Product Advertising API.`,
+});
+
+describe("chunk", () => {
+  it("should split 23 ASINs into batches of 10, 10 and 3", () => {
+    const asins = Array.from({ length: 23 }, (_, i) => `B0000000${String(i).padStart(2, "0")}`);
+
+    const batches = chunk(asins);
+
+    assertEquals(PAAPI_MAX_ITEM_IDS, 10);
+    assertEquals(batches.map((batch) => batch.length), [10, 10, 3]);
+    assertEquals(batches.flat(), asins);
+  });
+
+  it("should return no batches for an empty list", () => {
+    assertEquals(chunk([]), []);
+  });
+});
+
+describe("groupBy", () => {
+  it("should group products by marketplace in first-seen order", () => {
+    const products = [
+      { asin: "B000000001", marketplace: "US" },
+      { asin: "B000000002", marketplace: "DE" },
+      { asin: "B000000003", marketplace: "US" },
+    ];
+
+    const groups = groupBy(products, (product) => product.marketplace);
+
+    assertEquals([...groups.keys()], ["US", "DE"]);
+    assertEquals(groups.get("US")?.map((product) => product.asin), ["B000000001", "B000000003"]);
+  });
+});
+
+describe("findErrorItemId", () => {
+  it("should find the ASIN named in an ItemNotAccessible error", () => {
+    assertEquals(findErrorItemId(notAccessible("B000000002"), ["B000000001", "B000000002"]), "B000000002");
+  });
+
+  it("should ignore errors that are not about a single item", () => {
+    const throttled = { Code: "TooManyRequests", Message: "Request for B000000001 was throttled" };
+
+    assertEquals(findErrorItemId(throttled, ["B000000001"]), null);
+  });
+});
+
+describe("isPartialGetItemsResult", () => {
+  it("should accept batched responses whose errors all name requested ASINs", () => {
+    const response: PaapiGetItemsResponse = {
+      ItemsResult: { Items: [{ ASIN: "B000000001" }] },
+      Errors: [notAccessible("B000000002")],
+    };
+
+    assertEquals(isPartialGetItemsResult(response, ["B000000001", "B000000002"]), true);
+  });
+
+  it("should reject single-item requests so callers still get an error", () => {
+    const response: PaapiGetItemsResponse = { Errors: [notAccessible("B000000002")] };
+
+    assertEquals(isPartialGetItemsResult(response, ["B000000002"]), false);
+  });
+
+  it("should reject responses with request-level errors", () => {
+    const response: PaapiGetItemsResponse = {
+      Errors: [{ Code: "InvalidSignature", Message: "The request signature is invalid" }],
+    };
+
+    assertEquals(isPartialGetItemsResult(response, ["B000000001", "B000000002"]), false);
+  });
+});
+
+describe("matchGetItemsResults", () => {
+  it("should fan a batched response out to each requested ASIN", () => {
+    const response: PaapiGetItemsResponse = {
+      ItemsResult: { Items: [{ ASIN: "B000000001" }] },
+      Errors: [notAccessible("B000000002")],
+    };
+
+    const results = matchGetItemsResults(["B000000001", "B000000002", "B000000003"], response);
+
+    assertEquals(results.get("B000000001")?.status, "found");
+    assertEquals(results.get("B000000002")?.status, "error");
+    assertEquals(results.get("B000000003")?.status, "missing");
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for price history change detection
+ *
+ * Tests verify:
+ * - First snapshot of a product is always recorded
+ * - Price, SavingBasis and availability changes are recorded
+ * - Unchanged snapshots are skipped (DECIMAL strings vs numbers)
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+
+import { hasPriceChanged, type PriceSnapshot } from "../price-history.ts";
+
+const baseSnapshot: PriceSnapshot = {
+  current_price: 12.99,
+  original_price: 15.99,
+  savings_percentage: 18.76,
+  currency: "USD",
+  availability_type: "Now",
+};
+
+describe("hasPriceChanged", () => {
+  it("should record the first snapshot of a product", () => {
+    assertEquals(hasPriceChanged(null, baseSnapshot), true);
+  });
+
+  it("should skip identical snapshots", () => {
+    assertEquals(hasPriceChanged(baseSnapshot, { ...baseSnapshot }), false);
+  });
+
+  it("should treat DECIMAL strings from Postgres as equal numbers", () => {
+    const stored = {
+      ...baseSnapshot,
+      current_price: "12.99",
+      original_price: "15.99",
+    } as unknown as PriceSnapshot;
+
+    assertEquals(hasPriceChanged(stored, baseSnapshot), false);
+  });
+
+  it("should record a price change", () => {
+    assertEquals(hasPriceChanged(baseSnapshot, { ...baseSnapshot, current_price: 10.99 }), true);
+  });
+
+  it("should record a SavingBasis change", () => {
+    assertEquals(hasPriceChanged(baseSnapshot, { ...baseSnapshot, original_price: 19.99 }), true);
+  });
+
+  it("should record an availability change", () => {
+    assertEquals(hasPriceChanged(baseSnapshot, { ...baseSnapshot, availability_type: null }), true);
+  });
+
+  it("should ignore savings percentage rounding differences", () => {
+    assertEquals(hasPriceChanged(baseSnapshot, { ...baseSnapshot, savings_percentage: 18.8 }), false);
+  });
+});
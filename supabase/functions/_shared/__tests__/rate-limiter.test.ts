@@ -0,0 +1,182 @@
+/**
+ * Rate Limiter Unit Tests
+ *
+ * Verifies the PA-API token bucket and daily quota:
+ * - Tokens refill at requestsPerSecond, bursts up to the bucket size
+ * - Lower priority classes leave their reserve of the daily quota to higher ones
+ * - The quota resets at UTC midnight and refusals are recorded per class
+ * - acquire() waits for tokens, yields to higher classes and gives up after maxWaitMs
+ * - hasBudget() lets workers yield before a request would be refused
+ * - A failing store never blocks requests
+ */
+
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.220.0/assert/mod.ts";
+import { describe, it } from "https://deno.land/std@0.220.0/testing/bdd.ts";
+
+import {
+  InMemoryRateLimitStore,
+  msUntilQuotaReset,
+  RateLimiter,
+  RateLimitError,
+  type RateLimitStore,
+  type TokenRequest,
+} from "../rate-limiter.ts";
+
+const NOON = Date.parse("2025-12-01T12:00:00.000Z");
+
+const request = (overrides: Partial<TokenRequest> = {}): TokenRequest => ({
+  priority: "interactive",
+  requestsPerSecond: 1,
+  quotaLimit: 100,
+  ...overrides,
+});
+
+describe("InMemoryRateLimitStore", () => {
+  it("should refill one token per 1/requestsPerSecond", async () => {
+    const store = new InMemoryRateLimitStore();
+
+    assertEquals((await store.take("paapi", request(), NOON)).granted, true);
+
+    const refused = await store.take("paapi", request(), NOON + 400);
+    assertEquals(refused.granted, false);
+    assertEquals(refused.reason, "rate");
+    assertEquals(refused.waitMs, 600);
+
+    assertEquals((await store.take("paapi", request(), NOON + 1000)).granted, true);
+  });
+
+  it("should allow bursts up to requestsPerSecond", async () => {
+    const store = new InMemoryRateLimitStore();
+    const fast = request({ requestsPerSecond: 3 });
+
+    const decisions = [];
+    for (let i = 0; i < 4; i++) {
+      decisions.push((await store.take("paapi", fast, NOON)).granted);
+    }
+
+    assertEquals(decisions, [true, true, true, false]);
+  });
+
+  it("should refuse a class once its quota limit is used and record the refusal", async () => {
+    const store = new InMemoryRateLimitStore();
+
+    for (let i = 0; i < 2; i++) {
+      await store.take("paapi", request({ priority: "background", quotaLimit: 2 }), NOON + i * 1000);
+    }
+
+    const refused = await store.take("paapi", request({ priority: "background", quotaLimit: 2 }), NOON + 5000);
+    assertEquals(refused.reason, "quota");
+    assertEquals(refused.waitMs, msUntilQuotaReset(NOON + 5000));
+
+    // Higher classes still have their reserve
+    assertEquals((await store.take("paapi", request({ quotaLimit: 3 }), NOON + 6000)).granted, true);
+
+    const usage = await store.usage("paapi", NOON + 6000);
+    assertEquals(usage.usedToday, 3);
+    assertEquals(usage.byPriority.background, { requests: 2, denied: 1 });
+    assertEquals(usage.byPriority.interactive, { requests: 1, denied: 0 });
+  });
+
+  it("should reset the quota at UTC midnight", async () => {
+    const store = new InMemoryRateLimitStore();
+    const beforeMidnight = Date.parse("2025-12-01T23:59:59.000Z");
+
+    await store.take("paapi", request({ quotaLimit: 1 }), beforeMidnight);
+    assertEquals((await store.take("paapi", request({ quotaLimit: 1 }), beforeMidnight + 500)).reason, "quota");
+    assertEquals(msUntilQuotaReset(beforeMidnight + 500), 500);
+
+    const afterMidnight = await store.take("paapi", request({ quotaLimit: 1 }), beforeMidnight + 1000);
+    assertEquals(afterMidnight.granted, true);
+    assertEquals((await store.usage("paapi", beforeMidnight + 1000)).date, "2025-12-02");
+  });
+});
+
+describe("RateLimiter", () => {
+  it("should reserve part of the daily quota for higher classes", () => {
+    const limiter = new RateLimiter({ dailyQuota: 1000 });
+
+    assertEquals(limiter.quotaLimit("interactive"), 1000);
+    assertEquals(limiter.quotaLimit("import"), 950);
+    assertEquals(limiter.quotaLimit("background"), 800);
+  });
+
+  it("should wait for the next token", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    const startedAt = Date.now();
+
+    await limiter.acquire();
+    await limiter.acquire();
+
+    assert(Date.now() - startedAt >= 900, "second request should wait for a refill");
+  });
+
+  it("should give up with a rate error after maxWaitMs", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, maxWaitMs: { background: 100 } });
+    await limiter.acquire("background");
+
+    const error = await assertRejects(() => limiter.acquire("background"), RateLimitError);
+    assertEquals(error.reason, "rate");
+    assertEquals(error.priority, "background");
+  });
+
+  it("should throw a quota error without waiting once the class's share is used", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, dailyQuota: 10 });
+
+    for (let i = 0; i < 8; i++) {
+      await limiter.acquire("background");
+    }
+
+    const error = await assertRejects(() => limiter.acquire("background"), RateLimitError);
+    assertEquals(error.reason, "quota");
+    assert(error.retryAfter > 0);
+
+    assertEquals(await limiter.hasBudget("background"), false);
+    assertEquals(await limiter.hasBudget("import"), true);
+    assertEquals(await limiter.hasBudget("interactive", 2), true);
+    assertEquals(await limiter.hasBudget("interactive", 3), false);
+
+    const usage = await limiter.getUsage();
+    assertEquals(usage.usedToday, 8);
+    assertEquals(usage.remaining, { interactive: 2, import: 1, background: 0 });
+    assertEquals(usage.byPriority.background.denied, 1);
+  });
+
+  it("should let waiting higher classes go first", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    await limiter.acquire("background");
+
+    const order: string[] = [];
+    const background = limiter.acquire("background").then(() => order.push("background"));
+    const interactive = limiter.acquire("interactive").then(() => order.push("interactive"));
+    await Promise.all([background, interactive]);
+
+    assertEquals(order, ["interactive", "background"]);
+  });
+
+  it("should fall back to a local bucket when the store fails", async () => {
+    const failingStore: RateLimitStore = {
+      take: () => Promise.reject(new Error("connection refused")),
+      usage: () => Promise.reject(new Error("connection refused")),
+    };
+    const limiter = new RateLimiter({ store: failingStore });
+
+    await limiter.acquire("background");
+
+    assertEquals(await limiter.hasBudget("background"), true);
+    assertEquals((await limiter.getUsage()).usedToday, 1);
+  });
+
+  it("should share buckets between limiters with the same store", async () => {
+    const store = new InMemoryRateLimitStore();
+    const isolateA = new RateLimiter({ name: "paapi", store, maxWaitMs: { interactive: 0 } });
+    const isolateB = new RateLimiter({ name: "paapi", store, maxWaitMs: { interactive: 0 } });
+
+    await isolateA.acquire();
+
+    await assertRejects(() => isolateB.acquire(), RateLimitError);
+  });
+});
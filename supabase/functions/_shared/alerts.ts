@@ -0,0 +1,376 @@
+/**
+ * Price-Drop and Back-in-Stock Alerts
+ *
+ * Evaluates active alert_subscriptions after the refresh worker updates a
+ * product, queues notifications in alert_notifications and delivers the queue
+ * through the configured NotificationTransports.
+ *
+ * Alerts fire on transitions only, so a subscriber is not notified again on every
+ * refresh while the condition still holds:
+ * - price_drop: current_price moves from above the target (or unknown) to at/below it
+ * - back_in_stock: availability_type changes to "Now" from anything else
+ *
+ * Constitution Compliance:
+ * - Reliability: Delivery failures are retried (MAX_DELIVERY_ATTEMPTS), never fail the refresh
+ * - Observability: Queue and delivery outcomes logged with the caller's correlation ID
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+import type {
+  AlertNotification,
+  AlertNotificationInsert,
+  AlertNotificationKind,
+  AlertSubscription,
+} from "./types.ts";
+import { Logger } from "./logger.ts";
+import type { NotificationTransports } from "./notification-transport.ts";
+
+/**
+ * PA-API availability type of an item that can be bought right now
+ */
+export const AVAILABLE_NOW = "Now";
+
+/**
+ * Delivery attempts before a notification is marked failed
+ */
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+/**
+ * Claims older than this are considered abandoned (e.g. the run timed out)
+ */
+export const DELIVERY_CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Price and availability of a product before/after a refresh
+ */
+export interface ProductAlertState {
+  current_price: number | null;
+  availability_type: string | null;
+}
+
+/**
+ * Product details used to render alert messages
+ */
+export interface AlertProduct {
+  id: string;
+  title: string | null;
+  slug: string | null;
+  currency: string | null;
+}
+
+/**
+ * Subscription whose condition was met by a refresh
+ */
+export interface TriggeredAlert {
+  subscription: AlertSubscription;
+  kind: Exclude<AlertNotificationKind, "confirmation">;
+}
+
+/**
+ * Delivery run outcome
+ */
+export interface DeliveryResult {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Normalize a price for comparison (DECIMAL columns come back as strings or numbers)
+ */
+function toPrice(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Find the subscriptions triggered by a product refresh
+ *
+ * A subscription triggers at most one alert per refresh; price_drop wins when
+ * both conditions are met.
+ *
+ * @param subscriptions - Active subscriptions of the product
+ * @param previous - Price/availability before the refresh
+ * @param current - Price/availability after the refresh
+ * @returns Alerts to queue
+ */
+export function findTriggeredAlerts(
+  subscriptions: AlertSubscription[],
+  previous: ProductAlertState,
+  current: ProductAlertState,
+): TriggeredAlert[] {
+  const previousPrice = toPrice(previous.current_price);
+  const currentPrice = toPrice(current.current_price);
+  const cameBackInStock = current.availability_type === AVAILABLE_NOW &&
+    previous.availability_type !== AVAILABLE_NOW;
+
+  const triggered: TriggeredAlert[] = [];
+
+  for (const subscription of subscriptions) {
+    const target = toPrice(subscription.target_price);
+    const reachedTarget = target !== null && currentPrice !== null && currentPrice <= target &&
+      (previousPrice === null || previousPrice > target);
+
+    if (reachedTarget) {
+      triggered.push({ subscription, kind: "price_drop" });
+    } else if (subscription.notify_when_available && cameBackInStock) {
+      triggered.push({ subscription, kind: "back_in_stock" });
+    }
+  }
+
+  return triggered;
+}
+
+/**
+ * Render the message for a triggered alert
+ *
+ * @param alert - Triggered alert
+ * @param product - Refreshed product
+ * @param current - Price/availability after the refresh
+ * @param siteUrl - Public store URL including the base path (e.g. https://www.espboards.dev/store)
+ * @returns Notification payload stored in alert_notifications
+ */
+export function renderAlertMessage(
+  alert: TriggeredAlert,
+  product: AlertProduct,
+  current: ProductAlertState,
+  siteUrl: string,
+): AlertNotification["payload"] {
+  const baseUrl = siteUrl.replace(/\/+$/, "");
+  const productUrl = `${baseUrl}/products/${product.slug}`;
+  const unsubscribeUrl = `${baseUrl}/alerts/unsubscribe?token=${alert.subscription.unsubscribe_token}`;
+  const title = product.title || "A product you follow";
+  const price = toPrice(current.current_price);
+  const formattedPrice = price === null ? "N/A" : `${price.toFixed(2)} ${product.currency || ""}`.trim();
+
+  const subject = alert.kind === "price_drop"
+    ? `Price drop: ${title} is now ${formattedPrice}`
+    : `Back in stock: ${title}`;
+
+  const headline = alert.kind === "price_drop"
+    ? `${title} dropped to ${formattedPrice} (your target: ${alert.subscription.target_price}).`
+    : `${title} is available again at ${formattedPrice}.`;
+
+  return {
+    subject,
+    text: `${headline}\n\nView the product: ${productUrl}\n\nStop these alerts: ${unsubscribeUrl}\n`,
+    data: {
+      type: alert.kind,
+      product_id: product.id,
+      product_title: product.title,
+      product_url: productUrl,
+      current_price: price,
+      currency: product.currency,
+      availability_type: current.availability_type,
+      target_price: toPrice(alert.subscription.target_price),
+      unsubscribe_url: unsubscribeUrl,
+    },
+  };
+}
+
+/**
+ * Queue alerts for a refreshed product
+ *
+ * Best-effort: failures are logged and never fail the caller's refresh.
+ *
+ * @param supabase - Service role client
+ * @param product - Refreshed product
+ * @param previous - Price/availability before the refresh
+ * @param current - Price/availability after the refresh
+ * @param siteUrl - Public store URL used in message links
+ * @param logger - Logger carrying the caller's correlation ID
+ * @returns Number of notifications queued
+ */
+export async function queueProductAlerts(
+  supabase: SupabaseClient,
+  product: AlertProduct,
+  previous: ProductAlertState,
+  current: ProductAlertState,
+  siteUrl: string,
+  logger: Logger,
+): Promise<number> {
+  try {
+    const { data: subscriptions, error: selectError } = await supabase
+      .from("alert_subscriptions")
+      .select("*")
+      .eq("product_id", product.id)
+      .eq("status", "active");
+
+    if (selectError) {
+      throw new Error(`Failed to read alert subscriptions: ${selectError.message}`);
+    }
+
+    const triggered = findTriggeredAlerts((subscriptions || []) as AlertSubscription[], previous, current);
+
+    if (triggered.length === 0) {
+      return 0;
+    }
+
+    const notifications: AlertNotificationInsert[] = triggered.map((alert) => ({
+      subscription_id: alert.subscription.id,
+      kind: alert.kind,
+      channel: alert.subscription.channel,
+      destination: alert.subscription.destination,
+      payload: renderAlertMessage(alert, product, current, siteUrl),
+    }));
+
+    const { error: insertError } = await supabase
+      .from("alert_notifications")
+      .insert(notifications);
+
+    if (insertError) {
+      throw new Error(`Failed to queue alert notifications: ${insertError.message}`);
+    }
+
+    await supabase
+      .from("alert_subscriptions")
+      .update({ last_notified_at: new Date().toISOString() })
+      .in("id", triggered.map((alert) => alert.subscription.id));
+
+    logger.info("Alert notifications queued", {
+      product_id: product.id,
+      price_drop: triggered.filter((alert) => alert.kind === "price_drop").length,
+      back_in_stock: triggered.filter((alert) => alert.kind === "back_in_stock").length,
+    });
+
+    return triggered.length;
+  } catch (error) {
+    logger.warn("Failed to evaluate alert subscriptions", {
+      product_id: product.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return 0;
+  }
+}
+
+/**
+ * Claim up to `limit` pending notifications for this run (oldest first)
+ *
+ * Notifications are claimed with a conditional update on locked_at, like
+ * import-batch claims its rows, so a notification selected by two overlapping
+ * runs (subscribe trigger and refresh worker) is only sent by the run whose
+ * update wins.
+ */
+async function claimPendingNotifications(supabase: SupabaseClient, limit: number): Promise<AlertNotification[]> {
+  const staleBefore = new Date(Date.now() - DELIVERY_CLAIM_TIMEOUT_MS).toISOString();
+  const claimable = `locked_at.is.null,locked_at.lt.${staleBefore}`;
+
+  const { data: candidates, error: selectError } = await supabase
+    .from("alert_notifications")
+    .select("id")
+    .eq("status", "pending")
+    .or(claimable)
+    .order("created_at", { ascending: true })
+    .limit(limit);
+
+  if (selectError) {
+    throw new Error(`Failed to read pending notifications: ${selectError.message}`);
+  }
+
+  if (!candidates || candidates.length === 0) {
+    return [];
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("alert_notifications")
+    .update({ locked_at: new Date().toISOString() })
+    .in("id", candidates.map((notification) => notification.id))
+    .eq("status", "pending")
+    .or(claimable)
+    .select("*");
+
+  if (claimError) {
+    throw new Error(`Failed to claim pending notifications: ${claimError.message}`);
+  }
+
+  return ((claimed || []) as AlertNotification[])
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Deliver pending notifications (oldest first)
+ *
+ * Each notification is claimed before it is sent and released with its
+ * outcome. Failed deliveries stay pending until MAX_DELIVERY_ATTEMPTS is
+ * reached.
+ *
+ * @param supabase - Service role client
+ * @param transports - Transport per channel
+ * @param logger - Logger carrying the caller's correlation ID
+ * @param limit - Maximum notifications to deliver in this run (default: 50)
+ * @returns Number of notifications sent and failed
+ */
+export async function deliverPendingNotifications(
+  supabase: SupabaseClient,
+  transports: NotificationTransports,
+  logger: Logger,
+  limit = 50,
+): Promise<DeliveryResult> {
+  const result: DeliveryResult = { sent: 0, failed: 0 };
+
+  let pending: AlertNotification[];
+
+  try {
+    pending = await claimPendingNotifications(supabase, limit);
+  } catch (error) {
+    logger.warn("Failed to claim pending notifications", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return result;
+  }
+
+  for (const notification of pending) {
+    const transport = transports[notification.channel];
+    const attempts = notification.attempts + 1;
+
+    try {
+      await transport.send({
+        channel: notification.channel,
+        destination: notification.destination,
+        subject: notification.payload.subject,
+        text: notification.payload.text,
+        data: notification.payload.data,
+      });
+
+      await supabase
+        .from("alert_notifications")
+        .update({ status: "sent", attempts, sent_at: new Date().toISOString(), last_error: null, locked_at: null })
+        .eq("id", notification.id);
+
+      result.sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await supabase
+        .from("alert_notifications")
+        .update({
+          status: attempts >= MAX_DELIVERY_ATTEMPTS ? "failed" : "pending",
+          attempts,
+          last_error: message,
+          locked_at: null,
+        })
+        .eq("id", notification.id);
+
+      logger.warn("Notification delivery failed", {
+        notification_id: notification.id,
+        kind: notification.kind,
+        transport: transport.name,
+        attempts,
+        error: message,
+      });
+
+      result.failed++;
+    }
+  }
+
+  if (result.sent > 0 || result.failed > 0) {
+    logger.info("Notification delivery completed", { ...result });
+  }
+
+  return result;
+}
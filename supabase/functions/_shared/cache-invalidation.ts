@@ -0,0 +1,95 @@
+/**
+ * Catalog Cache Invalidation
+ *
+ * The Nuxt server caches its public catalog responses (products, deals,
+ * groups). Workers that change product data ask it to drop them through
+ * POST {SITE_URL}/api/cache/invalidate, authorized with the shared
+ * CACHE_INVALIDATION_SECRET.
+ *
+ * Invalidation is best effort: a failure is logged and the cached responses
+ * expire on their own within a few minutes.
+ */
+
+import { CORRELATION_ID_HEADER, Logger } from "./logger.ts";
+
+/**
+ * Where and how to reach the invalidation endpoint
+ */
+export interface CacheInvalidationConfig {
+  url: string;
+  secret: string;
+}
+
+/**
+ * Read the invalidation settings from environment variables
+ *
+ * @param env - Environment lookup (Deno.env.get in production)
+ * @returns Settings, or null when SITE_URL or CACHE_INVALIDATION_SECRET is missing
+ */
+export function cacheInvalidationConfigFromEnv(
+  env: (name: string) => string | undefined,
+): CacheInvalidationConfig | null {
+  const siteUrl = env("SITE_URL");
+  const secret = env("CACHE_INVALIDATION_SECRET");
+
+  if (!siteUrl || !secret) {
+    return null;
+  }
+
+  return { url: `${siteUrl.replace(/\/+$/, "")}/api/cache/invalidate`, secret };
+}
+
+/**
+ * Ask the Nuxt server to drop its cached catalog responses
+ *
+ * Never throws.
+ *
+ * @param config - Endpoint settings (null skips invalidation)
+ * @param logger - Logger (its correlation ID is forwarded)
+ * @param fetchFn - fetch implementation (injectable for tests)
+ * @param timeout - Request timeout in milliseconds (default: 10000)
+ * @returns Whether the cache was invalidated
+ */
+export async function invalidateCatalogCache(
+  config: CacheInvalidationConfig | null,
+  logger: Logger,
+  fetchFn: typeof fetch = fetch,
+  timeout = 10000,
+): Promise<boolean> {
+  if (!config) {
+    logger.warn("SITE_URL or CACHE_INVALIDATION_SECRET not set, catalog cache not invalidated", {});
+    return false;
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const correlationId = logger.getCorrelationId();
+
+  try {
+    const response = await fetchFn(config.url, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${config.secret}`,
+        ...(correlationId ? { [CORRELATION_ID_HEADER]: correlationId } : {}),
+      },
+      signal: controller.signal,
+    });
+
+    // Drain the body so the connection can be reused
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw new Error(`Invalidation endpoint responded with HTTP ${response.status}`);
+    }
+
+    logger.info("Catalog cache invalidated", {});
+    return true;
+  } catch (error) {
+    logger.warn("Failed to invalidate catalog cache", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
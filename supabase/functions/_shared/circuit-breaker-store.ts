@@ -0,0 +1,118 @@
+/**
+ * Postgres circuit breaker state store
+ *
+ * Keeps circuit breaker state in the circuit_breakers table so every Edge
+ * Function isolate shares one breaker per name. Edge Functions switch the
+ * shared PA-API breaker to it with usePersistentPaapiCircuitBreaker().
+ *
+ * Concurrent isolates read and write whole rows, so a failure recorded by one
+ * isolate can be overwritten by another finishing at the same moment. That only
+ * delays opening by a request or two; admin overrides (forced_open) are only
+ * written by force() and can't be lost this way.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { CircuitState, type CircuitStateStore, type StoredCircuitState } from "./circuit-breaker.ts";
+import { getPaapiCircuitBreaker } from "./paapi-client.ts";
+
+/**
+ * circuit_breaker_state enum value for each CircuitState
+ */
+export const CIRCUIT_STATE_COLUMN: Record<CircuitState, string> = {
+  [CircuitState.CLOSED]: "closed",
+  [CircuitState.OPEN]: "open",
+  [CircuitState.HALF_OPEN]: "half-open",
+};
+
+const CIRCUIT_STATE_FROM_COLUMN: Record<string, CircuitState> = {
+  "closed": CircuitState.CLOSED,
+  "open": CircuitState.OPEN,
+  "half-open": CircuitState.HALF_OPEN,
+};
+
+/**
+ * Row of the circuit_breakers table
+ */
+interface CircuitBreakerRow {
+  state: string;
+  failure_count: number;
+  success_count: number;
+  last_failure_at: string | null;
+  forced_open: boolean;
+}
+
+export class PostgresCircuitStateStore implements CircuitStateStore {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async load(name: string): Promise<StoredCircuitState | null> {
+    const { data, error } = await this.supabase
+      .from("circuit_breakers")
+      .select("state, failure_count, success_count, last_failure_at, forced_open")
+      .eq("name", name)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load circuit breaker ${name}: ${error.message}`);
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    const row = data as CircuitBreakerRow;
+    return {
+      state: CIRCUIT_STATE_FROM_COLUMN[row.state] ?? CircuitState.CLOSED,
+      failureCount: row.failure_count,
+      successCount: row.success_count,
+      lastFailureTime: row.last_failure_at ? new Date(row.last_failure_at).getTime() : undefined,
+      forcedOpen: row.forced_open,
+    };
+  }
+
+  async save(name: string, state: Omit<StoredCircuitState, "forcedOpen">): Promise<void> {
+    const { error } = await this.supabase
+      .from("circuit_breakers")
+      .upsert({
+        name,
+        state: CIRCUIT_STATE_COLUMN[state.state],
+        failure_count: state.failureCount,
+        success_count: state.successCount,
+        last_failure_at: state.lastFailureTime ? new Date(state.lastFailureTime).toISOString() : null,
+      }, { onConflict: "name" });
+
+    if (error) {
+      throw new Error(`Failed to save circuit breaker ${name}: ${error.message}`);
+    }
+  }
+
+  async force(name: string, open: boolean): Promise<void> {
+    const { error } = await this.supabase
+      .from("circuit_breakers")
+      .upsert({
+        name,
+        state: open ? "open" : "closed",
+        failure_count: 0,
+        success_count: 0,
+        forced_open: open,
+        forced_at: new Date().toISOString(),
+        ...(open ? {} : { last_failure_at: null }),
+      }, { onConflict: "name" });
+
+    if (error) {
+      throw new Error(`Failed to force circuit breaker ${name}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Share the PA-API circuit breaker with every other isolate
+ *
+ * Call once per request with a service role client before using PA-API.
+ *
+ * @returns The breaker state loaded from the table
+ */
+export function usePersistentPaapiCircuitBreaker(supabase: SupabaseClient) {
+  const breaker = getPaapiCircuitBreaker();
+  breaker.setStore(new PostgresCircuitStateStore(supabase));
+  return breaker.loadState();
+}
@@ -14,6 +14,12 @@
  * - HALF_OPEN → CLOSED: After successful test request
  * - HALF_OPEN → OPEN: After failed test request
  * 
+ * State is kept in a CircuitStateStore. The default in-memory store is private
+ * to the breaker (one breaker per isolate); a shared store such as the
+ * circuit_breakers table (see circuit-breaker-store.ts) lets every Edge
+ * Function isolate use the same breaker. An admin can force the circuit OPEN
+ * until it is force-closed again.
+ * 
  * Constitution Compliance:
  * - Performance: Prevent cascade failures, auto-recovery
  * - Observability: State changes logged with timestamps
@@ -48,10 +54,23 @@ export interface CircuitBreakerConfig {
   cooldownTimeout?: number;
 
   /**
-   * Name for logging and identification
+   * Name for logging and identification (also the key in the state store)
    * @default "circuit-breaker"
    */
   name?: string;
+
+  /**
+   * Whether an error thrown by the protected function counts as a failure
+   * (e.g. errors raised before the remote service was called)
+   * @default Every error counts
+   */
+  isFailure?: (error: unknown) => boolean;
+
+  /**
+   * Where the state is kept
+   * @default A new InMemoryCircuitStateStore
+   */
+  store?: CircuitStateStore;
 }
 
 /**
@@ -82,6 +101,74 @@ export interface CircuitBreakerState {
    * Circuit breaker name
    */
   name: string;
+
+  /**
+   * Whether an admin forced the circuit OPEN
+   */
+  forcedOpen: boolean;
+}
+
+/**
+ * Circuit state as kept in a CircuitStateStore
+ */
+export interface StoredCircuitState {
+  state: CircuitState;
+  failureCount: number;
+  successCount: number;
+  lastFailureTime?: number;
+  forcedOpen: boolean;
+}
+
+/**
+ * Storage for circuit breaker state, keyed by breaker name
+ *
+ * save() never changes forcedOpen: only force() does, so a breaker saving the
+ * outcome of a request can't undo an admin's concurrent override.
+ */
+export interface CircuitStateStore {
+  /**
+   * @returns Stored state, or null if the breaker has none yet
+   */
+  load(name: string): Promise<StoredCircuitState | null>;
+
+  save(name: string, state: Omit<StoredCircuitState, "forcedOpen">): Promise<void>;
+
+  /**
+   * Force the circuit OPEN, or CLOSED (resetting failures and resuming automatic behavior)
+   */
+  force(name: string, open: boolean): Promise<void>;
+}
+
+/**
+ * Process-local state store
+ *
+ * Breakers sharing an instance share state, which lets tests simulate several
+ * isolates without a database.
+ */
+export class InMemoryCircuitStateStore implements CircuitStateStore {
+  private readonly states = new Map<string, StoredCircuitState>();
+
+  load(name: string): Promise<StoredCircuitState | null> {
+    const state = this.states.get(name);
+    return Promise.resolve(state ? { ...state } : null);
+  }
+
+  save(name: string, state: Omit<StoredCircuitState, "forcedOpen">): Promise<void> {
+    this.states.set(name, { ...state, forcedOpen: this.states.get(name)?.forcedOpen ?? false });
+    return Promise.resolve();
+  }
+
+  force(name: string, open: boolean): Promise<void> {
+    const current = this.states.get(name);
+    this.states.set(name, {
+      state: open ? CircuitState.OPEN : CircuitState.CLOSED,
+      failureCount: 0,
+      successCount: 0,
+      lastFailureTime: open ? current?.lastFailureTime : undefined,
+      forcedOpen: open,
+    });
+    return Promise.resolve();
+  }
 }
 
 /**
@@ -159,7 +246,9 @@ export class CircuitBreaker {
   private failureCount: number;
   private successCount: number;
   private lastFailureTime?: number;
-  private readonly config: Required<CircuitBreakerConfig>;
+  private forcedOpen: boolean;
+  private store: CircuitStateStore;
+  private readonly config: Required<Omit<CircuitBreakerConfig, "store">>;
   private readonly logger: Logger;
 
   // Metrics
@@ -179,12 +268,15 @@ export class CircuitBreaker {
       failureThreshold: config?.failureThreshold ?? 5,
       cooldownTimeout: config?.cooldownTimeout ?? 5 * 60 * 1000, // 5 minutes default
       name: config?.name ?? "circuit-breaker",
+      isFailure: config?.isFailure ?? (() => true),
     };
 
     this.state = CircuitState.CLOSED;
     this.failureCount = 0;
     this.successCount = 0;
     this.lastFailureTime = undefined;
+    this.forcedOpen = false;
+    this.store = config?.store ?? new InMemoryCircuitStateStore();
 
     // Initialize metrics
     this.totalSuccesses = 0;
@@ -217,6 +309,15 @@ export class CircuitBreaker {
   async execute<T>(fn: () => Promise<T>): Promise<T> {
     this.totalRequests++;
 
+    await this.loadState();
+
+    if (this.forcedOpen) {
+      throw new CircuitOpenError(
+        "Circuit breaker is OPEN (forced by admin)",
+        this.config.cooldownTimeout
+      );
+    }
+
     // Check if we should transition to HALF_OPEN
     if (this.state === CircuitState.OPEN) {
       if (this.shouldAttemptRecovery()) {
@@ -230,14 +331,122 @@ export class CircuitBreaker {
       }
     }
 
+    let result: T;
     try {
-      const result = await fn();
-      this.onSuccess();
-      return result;
+      result = await fn();
     } catch (error) {
-      this.onFailure();
+      if (this.config.isFailure(error)) {
+        this.onFailure();
+        await this.saveState();
+      }
       throw error;
     }
+
+    this.onSuccess();
+    await this.saveState();
+    return result;
+  }
+
+  /**
+   * Replace the state store (e.g. with a shared one once a database client exists)
+   *
+   * The next execute() or loadState() picks up the stored state.
+   */
+  setStore(store: CircuitStateStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Refresh the local state from the store
+   *
+   * Store errors are logged and the local state is kept, so an unreachable
+   * store never blocks requests.
+   *
+   * @returns Current state with metadata
+   */
+  async loadState(): Promise<CircuitBreakerState> {
+    try {
+      const stored = await this.store.load(this.config.name);
+      if (stored) {
+        this.state = stored.state;
+        this.failureCount = stored.failureCount;
+        this.successCount = stored.successCount;
+        this.lastFailureTime = stored.lastFailureTime;
+        this.forcedOpen = stored.forcedOpen;
+      }
+    } catch (error) {
+      this.logger.warn("Failed to load circuit breaker state, using local state", {
+        name: this.config.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return this.getState();
+  }
+
+  /**
+   * Whether execute() would currently let a request through
+   *
+   * False while forced OPEN, or OPEN with the cooldown still running (an OPEN
+   * circuit past its cooldown lets the next request through as a HALF_OPEN test).
+   */
+  isRequestAllowed(): boolean {
+    if (this.forcedOpen) {
+      return false;
+    }
+    return this.state !== CircuitState.OPEN || this.shouldAttemptRecovery();
+  }
+
+  /**
+   * Force the circuit OPEN until forceClose() is called
+   */
+  async forceOpen(): Promise<void> {
+    await this.store.force(this.config.name, true);
+    this.state = CircuitState.OPEN;
+    this.forcedOpen = true;
+    this.circuitOpens++;
+
+    this.logger.warn("Circuit breaker forced OPEN", {
+      name: this.config.name,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Close the circuit, reset failures and resume automatic behavior
+   */
+  async forceClose(): Promise<void> {
+    await this.store.force(this.config.name, false);
+    this.state = CircuitState.CLOSED;
+    this.forcedOpen = false;
+    this.failureCount = 0;
+    this.successCount = 0;
+    this.lastFailureTime = undefined;
+    this.circuitCloses++;
+
+    this.logger.info("Circuit breaker forced CLOSED", {
+      name: this.config.name,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Write the local state to the store (errors are logged, not thrown)
+   */
+  private async saveState(): Promise<void> {
+    try {
+      await this.store.save(this.config.name, {
+        state: this.state,
+        failureCount: this.failureCount,
+        successCount: this.successCount,
+        lastFailureTime: this.lastFailureTime,
+      });
+    } catch (error) {
+      this.logger.warn("Failed to save circuit breaker state", {
+        name: this.config.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 
   /**
@@ -379,6 +588,7 @@ export class CircuitBreaker {
       successCount: this.successCount,
       lastFailureTime: this.lastFailureTime,
       name: this.config.name,
+      forcedOpen: this.forcedOpen,
     };
   }
 
@@ -0,0 +1,374 @@
+/**
+ * Fake PA-API 5.0 server for local development and end-to-end tests
+ *
+ * Serves GetItems and SearchItems from fixture items so import → refresh →
+ * deals flows run without Amazon credentials. Point clients at it with
+ * PAAPI_ENDPOINT_OVERRIDE (see PaapiClient) and start it with
+ * scripts/fake-paapi.ts, or mount FakePaapi.handle() in a test.
+ *
+ * Behaves like PA-API where the store depends on it:
+ * - Requests must carry a Signature V4 Authorization header of the right shape
+ *   (credential scope, signed headers, hex signature); the signature itself is
+ *   not verified. Malformed signatures get 401 InvalidSignature.
+ * - Unknown ASINs (or ones listed in scenario.inaccessible) come back as
+ *   ItemNotAccessible in Errors next to the items that resolved; malformed ASINs
+ *   as InvalidParameterValue.
+ * - A search without matches returns 404 NoResults.
+ *
+ * Scenarios simulate failures: throttled requests (429 TooManyRequests),
+ * slow responses (client timeouts) and prices that change on every GetItems.
+ * They can be swapped at runtime with PUT /__fake/scenario.
+ */
+
+import type { PaapiError, PaapiItem } from "./types.ts";
+import { PaapiErrorCode } from "./types.ts";
+
+/**
+ * Failures and price changes to simulate
+ */
+export interface FakePaapiScenario {
+  /**
+   * Answer the next N requests with 429 TooManyRequests
+   */
+  throttle?: number;
+
+  /**
+   * ASINs reported as ItemNotAccessible even if a fixture exists
+   */
+  inaccessible?: string[];
+
+  /**
+   * Delay before every response (exceed the client timeout to simulate timeouts)
+   */
+  delayMs?: number;
+
+  /**
+   * Price per GetItems call for an ASIN: the nth request returns prices[n],
+   * the last price sticks
+   */
+  prices?: Record<string, number[]>;
+}
+
+/**
+ * Fake server options
+ */
+export interface FakePaapiOptions {
+  /**
+   * Items served by GetItems and SearchItems
+   */
+  items: PaapiItem[];
+
+  /**
+   * Initial scenario
+   * @default {}
+   */
+  scenario?: FakePaapiScenario;
+
+  /**
+   * Reject signatures of any other access key
+   */
+  accessKey?: string;
+}
+
+/**
+ * Request counters (GET /__fake/state)
+ */
+export interface FakePaapiState {
+  scenario: FakePaapiScenario;
+  requests: { GetItems: number; SearchItems: number; rejected: number };
+  priceRequests: Record<string, number>;
+}
+
+type Operation = "GetItems" | "SearchItems";
+
+const TARGET_PREFIX = "com.amazon.paapi5.v1.ProductAdvertisingAPIv1.";
+
+const AUTHORIZATION_PATTERN =
+  /^AWS4-HMAC-SHA256 Credential=([^/\s]+)\/(\d{8})\/([a-z0-9-]+)\/ProductAdvertisingAPI\/aws4_request, ?SignedHeaders=([a-z0-9;-]+), ?Signature=[0-9a-f]{64}$/;
+
+const AMZ_DATE_PATTERN = /^(\d{8})T\d{6}Z$/;
+
+const ASIN_PATTERN = /^[A-Z0-9]{10}$/;
+
+/**
+ * Check that a request is signed the way aws4fetch signs PA-API requests
+ *
+ * @returns Why the signature is malformed, or null if the shape is valid
+ */
+export function checkSignatureV4Shape(
+  headers: Headers,
+  operation: Operation,
+  accessKey?: string,
+): string | null {
+  const authorization = headers.get("authorization");
+  if (!authorization) {
+    return "Missing Authorization header";
+  }
+
+  const match = authorization.match(AUTHORIZATION_PATTERN);
+  if (!match) {
+    return "Authorization header is not an AWS4-HMAC-SHA256 signature for ProductAdvertisingAPI";
+  }
+
+  const [, credentialKey, credentialDate, , signedHeaders] = match;
+  const amzDate = headers.get("x-amz-date")?.match(AMZ_DATE_PATTERN);
+
+  if (!amzDate) {
+    return "Missing or malformed X-Amz-Date header";
+  }
+
+  if (amzDate[1] !== credentialDate) {
+    return "Credential scope date does not match X-Amz-Date";
+  }
+
+  if (accessKey && credentialKey !== accessKey) {
+    return `Unknown access key ${credentialKey}`;
+  }
+
+  const signed = signedHeaders!.split(";");
+  for (const header of ["host", "x-amz-date", "x-amz-target"]) {
+    if (!signed.includes(header)) {
+      return `SignedHeaders must include ${header}`;
+    }
+  }
+
+  if (headers.get("x-amz-target") !== `${TARGET_PREFIX}${operation}`) {
+    return `X-Amz-Target must be ${TARGET_PREFIX}${operation}`;
+  }
+
+  if (headers.get("content-encoding") !== "amz-1.0") {
+    return "Content-Encoding must be amz-1.0";
+  }
+
+  return null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+function errorResponse(status: number, type: string, error: PaapiError): Response {
+  return jsonResponse({ __type: `com.amazon.paapi5#${type}`, Errors: [error] }, status);
+}
+
+/**
+ * Stateful fake PA-API (scenario and request counters live per instance)
+ *
+ * @example
+ * ```typescript
+ * const fake = new FakePaapi({ items: [item], scenario: { throttle: 1 } });
+ * const server = Deno.serve({ port: 0 }, (req) => fake.handle(req));
+ * const client = new PaapiClient({ ...config, endpoint: `http://localhost:${server.addr.port}/paapi5` });
+ * ```
+ */
+export class FakePaapi {
+  private readonly items: Map<string, PaapiItem>;
+  private readonly accessKey?: string;
+  private scenario: FakePaapiScenario;
+  private throttleRemaining: number;
+  private requests = { GetItems: 0, SearchItems: 0, rejected: 0 };
+  private priceRequests = new Map<string, number>();
+
+  constructor(options: FakePaapiOptions) {
+    this.items = new Map(options.items.map((item) => [item.ASIN, item]));
+    this.accessKey = options.accessKey;
+    this.scenario = options.scenario ?? {};
+    this.throttleRemaining = this.scenario.throttle ?? 0;
+  }
+
+  /**
+   * Replace the scenario and reset the counters
+   */
+  setScenario(scenario: FakePaapiScenario): void {
+    this.scenario = scenario;
+    this.throttleRemaining = scenario.throttle ?? 0;
+    this.requests = { GetItems: 0, SearchItems: 0, rejected: 0 };
+    this.priceRequests = new Map();
+  }
+
+  getState(): FakePaapiState {
+    return {
+      scenario: this.scenario,
+      requests: { ...this.requests },
+      priceRequests: Object.fromEntries(this.priceRequests),
+    };
+  }
+
+  /**
+   * Handle a request (PA-API operations under any path prefix, plus /__fake/*)
+   */
+  async handle(req: Request): Promise<Response> {
+    const path = new URL(req.url).pathname.toLowerCase().replace(/\/+$/, "");
+
+    if (path === "/__fake/state" && req.method === "GET") {
+      return jsonResponse(this.getState());
+    }
+
+    if (path === "/__fake/scenario" && req.method === "PUT") {
+      this.setScenario(await req.json() as FakePaapiScenario);
+      return jsonResponse(this.getState());
+    }
+
+    const operation: Operation | null = path.endsWith("/getitems")
+      ? "GetItems"
+      : path.endsWith("/searchitems")
+      ? "SearchItems"
+      : null;
+
+    if (!operation || req.method !== "POST") {
+      return errorResponse(404, "ResourceNotFoundException", {
+        Code: PaapiErrorCode.ResourceNotFound,
+        Message: `No PA-API operation at ${req.method} ${path}`,
+      });
+    }
+
+    const signatureError = checkSignatureV4Shape(req.headers, operation, this.accessKey);
+    if (signatureError) {
+      this.requests.rejected++;
+      return errorResponse(401, "InvalidSignatureException", {
+        Code: PaapiErrorCode.InvalidSignature,
+        Message: `The request has not been correctly signed. ${signatureError}`,
+      });
+    }
+
+    if (this.scenario.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.scenario.delayMs));
+    }
+
+    if (this.throttleRemaining > 0) {
+      this.throttleRemaining--;
+      this.requests.rejected++;
+      return errorResponse(429, "TooManyRequestsException", {
+        Code: PaapiErrorCode.TooManyRequests,
+        Message: "The request was denied due to request throttling. Please verify the number of requests made per second to the Amazon Product Advertising API.",
+      });
+    }
+
+    let body: Record<string, unknown>;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(400, "InvalidParameterValueException", {
+        Code: PaapiErrorCode.InvalidParameterValue,
+        Message: "The request body is not valid JSON.",
+      });
+    }
+
+    this.requests[operation]++;
+
+    return operation === "GetItems" ? this.getItems(body) : this.searchItems(body);
+  }
+
+  private getItems(body: Record<string, unknown>): Response {
+    const itemIds = Array.isArray(body["ItemIds"]) ? body["ItemIds"] as string[] : [];
+
+    if (itemIds.length === 0 || itemIds.length > 10) {
+      return errorResponse(400, "InvalidParameterValueException", {
+        Code: PaapiErrorCode.InvalidParameterValue,
+        Message: "ItemIds must contain between 1 and 10 values.",
+      });
+    }
+
+    const items: PaapiItem[] = [];
+    const errors: PaapiError[] = [];
+
+    for (const asin of itemIds) {
+      const item = this.items.get(asin);
+
+      if (!ASIN_PATTERN.test(asin)) {
+        errors.push({
+          Code: PaapiErrorCode.InvalidParameterValue,
+          Message: `The value [${asin}] provided in the request for ItemIds is invalid.`,
+        });
+      } else if (!item || this.scenario.inaccessible?.includes(asin)) {
+        errors.push({
+          Code: PaapiErrorCode.ItemNotAccessible,
+          Message: `The ItemId ${asin} is not accessible through the Product Advertising API.`,
+        });
+      } else {
+        items.push(this.withScheduledPrice(item));
+      }
+    }
+
+    return jsonResponse({
+      ...(items.length > 0 ? { ItemsResult: { Items: items } } : {}),
+      ...(errors.length > 0 ? { Errors: errors } : {}),
+    });
+  }
+
+  private searchItems(body: Record<string, unknown>): Response {
+    const keywords = String(body["Keywords"] ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+    const itemCount = Number(body["ItemCount"]) || 10;
+    const itemPage = Number(body["ItemPage"]) || 1;
+
+    if (keywords.length === 0) {
+      return errorResponse(400, "InvalidParameterValueException", {
+        Code: PaapiErrorCode.InvalidParameterValue,
+        Message: "Keywords must not be empty.",
+      });
+    }
+
+    const matches = [...this.items.values()].filter((item) => {
+      const text = [
+        item.ItemInfo?.Title?.DisplayValue,
+        item.ItemInfo?.ByLineInfo?.Brand?.DisplayValue,
+      ].join(" ").toLowerCase();
+      return keywords.every((keyword) => text.includes(keyword));
+    });
+
+    if (matches.length === 0) {
+      return errorResponse(404, "NoResultsException", {
+        Code: "NoResults",
+        Message: "No results found for your request.",
+      });
+    }
+
+    const start = (itemPage - 1) * itemCount;
+
+    return jsonResponse({
+      SearchResult: {
+        Items: matches.slice(start, start + itemCount),
+        TotalResultCount: matches.length,
+      },
+    });
+  }
+
+  /**
+   * Apply the scenario's next price for the item (if any) to its first listing
+   */
+  private withScheduledPrice(item: PaapiItem): PaapiItem {
+    const prices = this.scenario.prices?.[item.ASIN];
+    const listing = item.Offers?.Listings?.[0];
+
+    if (!prices || prices.length === 0 || !listing?.Price) {
+      return item;
+    }
+
+    const count = this.priceRequests.get(item.ASIN) ?? 0;
+    this.priceRequests.set(item.ASIN, count + 1);
+    const amount = prices[Math.min(count, prices.length - 1)]!;
+    const currency = listing.Price.Currency ?? "USD";
+
+    return {
+      ...item,
+      Offers: {
+        ...item.Offers,
+        Listings: [
+          {
+            ...listing,
+            // Fixture Savings no longer apply; the store derives savings from SavingBasis
+            Price: {
+              Amount: amount,
+              Currency: currency,
+              DisplayAmount: new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount),
+            } as NonNullable<typeof listing.Price>,
+          },
+          ...(item.Offers?.Listings?.slice(1) ?? []),
+        ],
+      },
+    };
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Health Checks (T073)
+ *
+ * Builds the HealthCheckResponse served by the health Edge Function. Each
+ * component is checked on its own and the overall status is rolled up:
+ * - healthy: every component is up
+ * - degraded: the database is up but another component is degraded or down
+ *   (the store keeps serving the last fetched product data)
+ * - unhealthy: the database is down (nothing can be served)
+ *
+ * The check* functions are pure so the thresholds can be unit tested;
+ * runHealthChecks() gathers their inputs from the database.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+import {
+  CircuitState,
+  type CircuitBreakerMetrics,
+  type CircuitBreakerState,
+} from "./circuit-breaker.ts";
+import type { ComponentHealth, HealthCheckResponse } from "./types.ts";
+
+/**
+ * Database round trips slower than this are reported as degraded
+ */
+export const DATABASE_SLOW_MS = 1000;
+
+/**
+ * Refresh job failure rate (percent, last 24 hours) at which PA-API is degraded
+ */
+export const PAAPI_DEGRADED_FAILURE_RATE = 50;
+
+/**
+ * Minimum finished refresh jobs before the failure rate is trusted
+ */
+export const PAAPI_MIN_FINISHED_JOBS = 5;
+
+/**
+ * Hours without a successful refresh (while products are waiting) before the
+ * refresh worker is degraded / down. The worker runs every few minutes.
+ */
+export const REFRESH_DEGRADED_AFTER_HOURS = 1;
+export const REFRESH_DOWN_AFTER_HOURS = 6;
+
+/**
+ * Hours since the oldest waiting product was last refreshed before the backlog
+ * is degraded. Products become due 24 hours after their last refresh.
+ */
+export const BACKLOG_DEGRADED_AFTER_HOURS = 48;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Inputs of checkRefresh()
+ */
+export interface RefreshHealthInput {
+  /** Products waiting for a refresh (including never refreshed ones) */
+  backlogCount: number;
+  /** Waiting products that were never refreshed */
+  neverRefreshedCount: number;
+  /** Oldest last_refresh_at among waiting products */
+  oldestRefreshAt: string | null;
+  /** completed_at of the most recent successful refresh job */
+  lastSuccessAt: string | null;
+}
+
+/**
+ * Refresh job counts of the last 24 hours (v_refresh_job_stats)
+ */
+export interface RefreshJobCounts {
+  success: number;
+  failed: number;
+}
+
+function hoursSince(timestamp: string, now: Date): number {
+  return Math.round(((now.getTime() - new Date(timestamp).getTime()) / HOUR_MS) * 10) / 10;
+}
+
+/**
+ * Check the database probe result
+ *
+ * @param latencyMs - Round trip of the probe query
+ * @param error - Probe error message, if the query failed
+ */
+export function checkDatabase(latencyMs: number, error?: string): ComponentHealth {
+  if (error) {
+    return { status: "down", message: error, details: { latency_ms: latencyMs } };
+  }
+
+  if (latencyMs > DATABASE_SLOW_MS) {
+    return {
+      status: "degraded",
+      message: `Database responded in ${latencyMs}ms`,
+      details: { latency_ms: latencyMs },
+    };
+  }
+
+  return { status: "up", details: { latency_ms: latencyMs } };
+}
+
+/**
+ * Check the shared PA-API circuit breaker
+ *
+ * @param state - Breaker state (loaded from the circuit_breakers table)
+ * @param metrics - Counters of the breaker in this isolate
+ */
+export function checkCircuitBreaker(
+  state: CircuitBreakerState,
+  metrics: CircuitBreakerMetrics,
+): ComponentHealth {
+  const details = {
+    name: state.name,
+    state: state.state,
+    forced_open: state.forcedOpen,
+    failure_count: state.failureCount,
+    last_failure_at: state.lastFailureTime ? new Date(state.lastFailureTime).toISOString() : null,
+    metrics,
+  };
+
+  if (state.forcedOpen) {
+    return { status: "down", message: "Forced open by an admin", details };
+  }
+
+  switch (state.state) {
+    case CircuitState.OPEN:
+      return { status: "down", message: "Circuit is open after repeated PA-API failures", details };
+    case CircuitState.HALF_OPEN:
+      return { status: "degraded", message: "Circuit is testing whether PA-API has recovered", details };
+    default:
+      return { status: "up", details };
+  }
+}
+
+/**
+ * Check PA-API from credentials and recent refresh results
+ *
+ * @param credentialsConfigured - Whether PAAPI_ACCESS_KEY and PAAPI_SECRET_KEY are set
+ * @param jobs - Refresh job counts of the last 24 hours
+ */
+export function checkPaapi(credentialsConfigured: boolean, jobs: RefreshJobCounts): ComponentHealth {
+  const finished = jobs.success + jobs.failed;
+  const failureRate = finished > 0 ? Math.round((jobs.failed / finished) * 1000) / 10 : null;
+  const details = {
+    credentials_configured: credentialsConfigured,
+    jobs_24h: { success: jobs.success, failed: jobs.failed },
+    failure_rate: failureRate,
+  };
+
+  if (!credentialsConfigured) {
+    return { status: "down", message: "PA-API credentials are not configured", details };
+  }
+
+  if (
+    failureRate !== null &&
+    finished >= PAAPI_MIN_FINISHED_JOBS &&
+    failureRate >= PAAPI_DEGRADED_FAILURE_RATE
+  ) {
+    return {
+      status: "degraded",
+      message: `${failureRate}% of refreshes failed in the last 24 hours`,
+      details,
+    };
+  }
+
+  return { status: "up", details };
+}
+
+/**
+ * Check the refresh backlog and the last successful refresh
+ */
+export function checkRefresh(input: RefreshHealthInput, now: Date): ComponentHealth {
+  const hoursSinceSuccess = input.lastSuccessAt ? hoursSince(input.lastSuccessAt, now) : null;
+  const backlogAgeHours = input.oldestRefreshAt ? hoursSince(input.oldestRefreshAt, now) : null;
+  const details = {
+    backlog_count: input.backlogCount,
+    never_refreshed_count: input.neverRefreshedCount,
+    backlog_age_hours: backlogAgeHours,
+    last_success_at: input.lastSuccessAt,
+    hours_since_success: hoursSinceSuccess,
+  };
+
+  // Nothing waiting: an idle worker is fine
+  if (input.backlogCount === 0) {
+    return { status: "up", details };
+  }
+
+  if (hoursSinceSuccess === null || hoursSinceSuccess >= REFRESH_DOWN_AFTER_HOURS) {
+    return {
+      status: "down",
+      message: hoursSinceSuccess === null
+        ? "No successful refresh recorded"
+        : `No successful refresh for ${hoursSinceSuccess} hours`,
+      details,
+    };
+  }
+
+  if (hoursSinceSuccess >= REFRESH_DEGRADED_AFTER_HOURS) {
+    return { status: "degraded", message: `No successful refresh for ${hoursSinceSuccess} hours`, details };
+  }
+
+  if (backlogAgeHours !== null && backlogAgeHours >= BACKLOG_DEGRADED_AFTER_HOURS) {
+    return {
+      status: "degraded",
+      message: `Oldest waiting product was refreshed ${backlogAgeHours} hours ago`,
+      details,
+    };
+  }
+
+  return { status: "up", details };
+}
+
+/**
+ * Roll component checks up into the overall status
+ */
+export function rollUpHealth(
+  components: HealthCheckResponse["components"],
+  now: Date,
+): HealthCheckResponse {
+  let status: HealthCheckResponse["status"] = "healthy";
+
+  if (components.database.status === "down") {
+    status = "unhealthy";
+  } else if (Object.values(components).some((component) => component.status !== "up")) {
+    status = "degraded";
+  }
+
+  return { status, timestamp: now.toISOString(), components };
+}
+
+/**
+ * HTTP status for a health response: 503 only when unhealthy, so monitors
+ * alert on outages but not on a degraded PA-API
+ */
+export function healthStatusCode(status: HealthCheckResponse["status"]): number {
+  return status === "unhealthy" ? 503 : 200;
+}
+
+/**
+ * Gather the refresh inputs from the database
+ *
+ * @throws {Error} If a query fails
+ */
+async function loadRefreshInputs(supabase: SupabaseClient): Promise<{
+  refresh: RefreshHealthInput;
+  jobs: RefreshJobCounts;
+}> {
+  const [backlog, neverRefreshed, oldest, lastSuccess, stats] = await Promise.all([
+    supabase.from("v_products_needing_refresh").select("id", { count: "exact", head: true }),
+    supabase.from("v_products_needing_refresh").select("id", { count: "exact", head: true }).is("last_refresh_at", null),
+    supabase
+      .from("v_products_needing_refresh")
+      .select("last_refresh_at")
+      .not("last_refresh_at", "is", null)
+      .order("last_refresh_at", { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("refresh_jobs")
+      .select("completed_at")
+      .eq("status", "success")
+      .order("completed_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase.from("v_refresh_job_stats").select("success_count, failed_count").maybeSingle(),
+  ]);
+
+  for (const result of [backlog, neverRefreshed, oldest, lastSuccess, stats]) {
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+  }
+
+  return {
+    refresh: {
+      backlogCount: backlog.count ?? 0,
+      neverRefreshedCount: neverRefreshed.count ?? 0,
+      oldestRefreshAt: oldest.data?.last_refresh_at ?? null,
+      lastSuccessAt: lastSuccess.data?.completed_at ?? null,
+    },
+    jobs: {
+      success: Number(stats.data?.success_count) || 0,
+      failed: Number(stats.data?.failed_count) || 0,
+    },
+  };
+}
+
+/**
+ * Run every health check
+ *
+ * @param supabase - Service role client
+ * @param breaker - PA-API breaker state (already loaded from the shared store) and metrics
+ * @param credentialsConfigured - Whether PA-API credentials are set
+ */
+export async function runHealthChecks(
+  supabase: SupabaseClient,
+  breaker: { state: CircuitBreakerState; metrics: CircuitBreakerMetrics },
+  credentialsConfigured: boolean,
+): Promise<HealthCheckResponse> {
+  const startedAt = Date.now();
+  const probe = await supabase.from("marketplaces").select("id", { count: "exact", head: true });
+  const database = checkDatabase(Date.now() - startedAt, probe.error?.message);
+  const now = new Date();
+
+  if (database.status === "down") {
+    const unavailable: ComponentHealth = { status: "down", message: "Database unavailable" };
+    return rollUpHealth({
+      database,
+      paapi: checkPaapi(credentialsConfigured, { success: 0, failed: 0 }),
+      circuit_breaker: checkCircuitBreaker(breaker.state, breaker.metrics),
+      refresh: unavailable,
+    }, now);
+  }
+
+  try {
+    const { refresh, jobs } = await loadRefreshInputs(supabase);
+    return rollUpHealth({
+      database,
+      paapi: checkPaapi(credentialsConfigured, jobs),
+      circuit_breaker: checkCircuitBreaker(breaker.state, breaker.metrics),
+      refresh: checkRefresh(refresh, now),
+    }, now);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return rollUpHealth({
+      database,
+      paapi: checkPaapi(credentialsConfigured, { success: 0, failed: 0 }),
+      circuit_breaker: checkCircuitBreaker(breaker.state, breaker.metrics),
+      refresh: { status: "down", message: `Failed to load refresh status: ${message}` },
+    }, now);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Bulk import row outcomes
+ *
+ * Maps GetItems results and errors to import_batch_rows statuses and builds the
+ * product inserted for an imported row. Used by the import-batch Edge Function.
+ *
+ * Row statuses:
+ * - imported: product created as a draft
+ * - duplicate: ASIN already exists in the marketplace (or earlier in the batch)
+ * - not_accessible: PA-API does not return the item for this marketplace
+ * - invalid_asin: malformed ASIN, or rejected by PA-API as an invalid value
+ * - failed: transient error (throttling, network, database); can be retried
+ */
+
+import { PaapiClientError } from "./paapi-client.ts";
+import { ErrorCode } from "./errors.ts";
+import { extractProductData } from "./paapi-items.ts";
+import type { GetItemsResult } from "./paapi-batch.ts";
+import { PaapiErrorCode, type PaapiItem } from "./types.ts";
+
+/**
+ * Status of a row in import_batch_rows
+ */
+export type ImportRowStatus =
+  | "pending"
+  | "imported"
+  | "duplicate"
+  | "not_accessible"
+  | "invalid_asin"
+  | "failed";
+
+/**
+ * Settled outcome of a row that was looked up with GetItems
+ */
+export interface ImportRowOutcome {
+  status: Exclude<ImportRowStatus, "pending" | "imported" | "duplicate">;
+  error_message: string;
+}
+
+/**
+ * Row data needed to insert an imported product
+ */
+export interface ImportRowTarget {
+  asin: string;
+  marketplace_id: string;
+  product_type: string | null;
+  group_id: string | null;
+}
+
+/**
+ * Outcome of an ASIN that GetItems did not return as an item
+ *
+ * @param result - Per-ASIN result from matchGetItemsResults()
+ * @returns 'invalid_asin' for InvalidParameterValue, otherwise 'not_accessible'
+ */
+export function outcomeForMissingItem(
+  result: Exclude<GetItemsResult, { status: "found" }> | undefined,
+): ImportRowOutcome {
+  if (result?.status === "error" && result.error.Code === PaapiErrorCode.InvalidParameterValue) {
+    return { status: "invalid_asin", error_message: result.error.Message };
+  }
+
+  if (result?.status === "error") {
+    return { status: "not_accessible", error_message: result.error.Message };
+  }
+
+  return { status: "not_accessible", error_message: "Item not returned by PA-API" };
+}
+
+/**
+ * Outcome of rows whose whole GetItems request failed after retries
+ *
+ * PA-API rejects a single-ASIN request outright instead of listing the ASIN in
+ * `Errors`, so not-accessible and invalid-value errors still settle the row.
+ *
+ * @param error - Last error from fetchBatchWithRetry()
+ * @returns Row outcome; 'failed' rows can be retried by the admin
+ */
+export function outcomeForRequestError(error: Error): ImportRowOutcome {
+  if (error instanceof PaapiClientError && error.code === ErrorCode.PAAPI_INVALID_PARAMETER) {
+    return { status: "invalid_asin", error_message: error.message };
+  }
+
+  if (
+    error instanceof PaapiClientError &&
+    (error.code === ErrorCode.PAAPI_ITEM_NOT_ACCESSIBLE || error.code === PaapiErrorCode.ItemNotAccessible)
+  ) {
+    return { status: "not_accessible", error_message: error.message };
+  }
+
+  return { status: "failed", error_message: error.message || "Unknown error" };
+}
+
+/**
+ * Build the products row inserted for an imported ASIN
+ *
+ * Imported products start as drafts. A product type from the CSV is stored in
+ * metadata.filters so the admin editor proposes the remaining fields.
+ *
+ * @param item - Item returned by GetItems
+ * @param row - Import row being settled
+ * @param now - Import timestamp (ISO string)
+ * @returns Product columns to insert
+ */
+export function buildImportedProduct(item: PaapiItem, row: ImportRowTarget, now: string) {
+  const listing = item.Offers?.Listings?.[0];
+
+  return {
+    ...extractProductData(item),
+    asin: row.asin,
+    marketplace_id: row.marketplace_id,
+    group_id: row.group_id,
+    detail_page_url: item.DetailPageURL || null,
+    currency: listing?.Price?.Currency || null,
+    metadata: {
+      display: {},
+      filters: row.product_type ? { product_type: row.product_type } : {},
+    },
+    status: "draft",
+    last_refresh_at: now,
+  };
+}
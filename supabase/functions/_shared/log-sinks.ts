@@ -0,0 +1,239 @@
+/**
+ * Log sinks for the shared Logger
+ *
+ * Besides the console, log entries can go to:
+ * - PostgresLogSink: the function_logs table, read by the admin log viewer
+ *   (/admin/logs, filterable by correlation ID)
+ * - HttpLogSink: a log shipper accepting JSON arrays of entries (Vector,
+ *   Logtail, a Loki adapter, ...)
+ *
+ * Both buffer entries and send them in batches when the buffer is full or on
+ * flush(), which withRequestTracing() calls after every request. A failed send
+ * is reported on stderr and the batch dropped; logging never fails a request.
+ *
+ * Edge Functions call configureLoggingFromEnv() at startup:
+ * - LOG_SINKS: comma-separated list of console, postgres, http (default: console)
+ * - LOG_SAMPLE_RATE: share of requests whose debug/info logs are kept (default: 1)
+ * - LOG_HTTP_URL / LOG_HTTP_TOKEN: log shipper endpoint and bearer token
+ * - LOG_DB_MIN_LEVEL: lowest level stored in function_logs (default: info)
+ */
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  configureLogging,
+  ConsoleSink,
+  LOG_LEVEL_PRIORITY,
+  type LogEntry,
+  LogLevel,
+  type LogSink,
+} from "./logger.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BufferedSinkOptions {
+  /** Lowest level sent (default: info) */
+  minLevel?: LogLevel;
+  /** Entries buffered before sending without waiting for flush() (default: 50) */
+  batchSize?: number;
+}
+
+export interface HttpLogSinkOptions extends BufferedSinkOptions {
+  token?: string;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Row of the function_logs table
+ */
+interface FunctionLogRow {
+  logged_at: string;
+  level: LogLevel;
+  message: string;
+  source: string | null;
+  correlation_id: string | null;
+  metadata: Record<string, unknown> | null;
+  error: LogEntry["error"] | null;
+}
+
+// ============================================================================
+// BUFFERED SINK
+// ============================================================================
+
+abstract class BufferedSink implements LogSink {
+  private buffer: LogEntry[] = [];
+  private sending: Promise<void> = Promise.resolve();
+  private readonly minLevel: LogLevel;
+  private readonly batchSize: number;
+
+  constructor(private readonly name: string, options: BufferedSinkOptions = {}) {
+    this.minLevel = options.minLevel ?? LogLevel.INFO;
+    this.batchSize = options.batchSize ?? 50;
+  }
+
+  write(entry: LogEntry): void {
+    if (LOG_LEVEL_PRIORITY[entry.level] < LOG_LEVEL_PRIORITY[this.minLevel]) {
+      return;
+    }
+
+    this.buffer.push(entry);
+
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Send buffered entries; resolves once every batch taken so far was sent or dropped
+   */
+  flush(): Promise<void> {
+    const batch = this.buffer.splice(0);
+
+    if (batch.length > 0) {
+      // Batches are sent one after the other to keep their order
+      this.sending = this.sending
+        .then(() => this.send(batch))
+        .catch((error) => {
+          // Not through the Logger, which would write to this sink again
+          console.error(JSON.stringify({
+            timestamp: new Date().toISOString(),
+            level: LogLevel.ERROR,
+            message: `Failed to send ${batch.length} log entries to ${this.name}`,
+            error: { name: error?.name, message: error?.message },
+          }));
+        });
+    }
+
+    return this.sending;
+  }
+
+  protected abstract send(entries: LogEntry[]): Promise<void>;
+}
+
+// ============================================================================
+// SINKS
+// ============================================================================
+
+/**
+ * Stores entries in the function_logs table (service role client)
+ */
+export class PostgresLogSink extends BufferedSink {
+  constructor(private readonly supabase: SupabaseClient, options: BufferedSinkOptions = {}) {
+    super("function_logs", options);
+  }
+
+  protected async send(entries: LogEntry[]): Promise<void> {
+    const rows: FunctionLogRow[] = entries.map((entry) => ({
+      logged_at: entry.timestamp,
+      level: entry.level,
+      message: entry.message,
+      source: entry.source ?? null,
+      correlation_id: entry.correlation_id ?? null,
+      metadata: entry.metadata ?? null,
+      error: entry.error ?? null,
+    }));
+
+    const { error } = await this.supabase.from("function_logs").insert(rows);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
+
+/**
+ * POSTs batches of entries as a JSON array to a log shipper
+ */
+export class HttpLogSink extends BufferedSink {
+  private readonly fetchFn: typeof fetch;
+
+  constructor(private readonly url: string, private readonly options: HttpLogSinkOptions = {}) {
+    super(new URL(url).host, options);
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  protected async send(entries: LogEntry[]): Promise<void> {
+    const response = await this.fetchFn(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.options.token ? { "Authorization": `Bearer ${this.options.token}` } : {}),
+      },
+      body: JSON.stringify(entries),
+    });
+
+    // Release the connection
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw new Error(`Log shipper responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Create the sinks listed in LOG_SINKS
+ *
+ * Sinks missing their settings are skipped with a warning; without any usable
+ * sink, logs go to the console.
+ *
+ * @param env - Environment lookup (Deno.env.get in production)
+ * @returns Configured sinks
+ */
+export function createLogSinks(env: (name: string) => string | undefined): LogSink[] {
+  const names = (env("LOG_SINKS") || "console")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const minLevel = Object.values(LogLevel).find((level) => level === env("LOG_DB_MIN_LEVEL")) ?? LogLevel.INFO;
+  const sinks: LogSink[] = [];
+
+  for (const name of new Set(names)) {
+    if (name === "console") {
+      sinks.push(new ConsoleSink());
+    } else if (name === "postgres") {
+      const url = env("SUPABASE_URL");
+      const serviceRoleKey = env("SUPABASE_SERVICE_ROLE_KEY");
+
+      if (url && serviceRoleKey) {
+        sinks.push(new PostgresLogSink(createClient(url, serviceRoleKey), { minLevel }));
+      } else {
+        console.warn("LOG_SINKS: postgres needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, skipped");
+      }
+    } else if (name === "http") {
+      const url = env("LOG_HTTP_URL");
+
+      if (url) {
+        sinks.push(new HttpLogSink(url, { token: env("LOG_HTTP_TOKEN") }));
+      } else {
+        console.warn("LOG_SINKS: http needs LOG_HTTP_URL, skipped");
+      }
+    } else {
+      console.warn(`LOG_SINKS: unknown sink "${name}", skipped`);
+    }
+  }
+
+  return sinks.length > 0 ? sinks : [new ConsoleSink()];
+}
+
+/**
+ * Configure the default sinks and sampling of every Logger from environment variables
+ *
+ * @param env - Environment lookup (Deno.env.get in production)
+ */
+export function configureLoggingFromEnv(
+  env: (name: string) => string | undefined = (name) => Deno.env.get(name),
+): void {
+  const sampleRate = Number(env("LOG_SAMPLE_RATE") ?? 1);
+
+  configureLogging({
+    sinks: createLogSinks(env),
+    sampleRate: Number.isFinite(sampleRate) ? sampleRate : 1,
+  });
+}
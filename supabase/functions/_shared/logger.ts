@@ -7,6 +7,12 @@
  * - JSON output for log aggregation
  * - Timestamp in ISO 8601 format
  * - Metadata attachment
+ * - Pluggable sinks (console by default; Postgres and HTTP in log-sinks.ts)
+ * - Sampling of debug/info logs per correlation ID
+ *
+ * Request tracing: callers send an `x-correlation-id` header (the Nuxt server
+ * routes forward theirs). withRequestTracing() makes sure every request has one,
+ * echoes it on the response and flushes buffered sinks before returning.
  * 
  * Constitution Compliance:
  * - Observability: Structured logs enable monitoring and debugging
@@ -38,6 +44,7 @@ export interface LogEntry {
   timestamp: string;
   level: LogLevel;
   message: string;
+  source?: string;
   correlation_id?: string;
   metadata?: LogMetadata;
   error?: {
@@ -47,6 +54,17 @@ export interface LogEntry {
   };
 }
 
+/**
+ * Destination of log entries
+ *
+ * write() must not throw or block; sinks that send entries elsewhere buffer
+ * them and send them on flush().
+ */
+export interface LogSink {
+  write(entry: LogEntry): void;
+  flush?(): Promise<void>;
+}
+
 /**
  * Logger configuration
  */
@@ -54,12 +72,26 @@ export interface LoggerConfig {
   minLevel: LogLevel;
   correlationId?: string;
   defaultMetadata?: LogMetadata;
+  /** Function or module writing the logs, e.g. 'import-product' */
+  source?: string;
+  /** Defaults to the sinks set with configureLogging() */
+  sinks?: LogSink[];
+  /** Share of correlation IDs whose debug/info logs are kept (0-1); warnings and errors are always kept */
+  sampleRate?: number;
+}
+
+/**
+ * Process-wide logging defaults (see configureLogging)
+ */
+export interface LoggingDefaults {
+  sinks: LogSink[];
+  sampleRate: number;
 }
 
 /**
  * Log level priority for filtering
  */
-const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
   [LogLevel.DEBUG]: 0,
   [LogLevel.INFO]: 1,
   [LogLevel.WARN]: 2,
@@ -73,6 +105,77 @@ const DEFAULT_CONFIG: LoggerConfig = {
   minLevel: LogLevel.INFO,
 };
 
+/**
+ * Header carrying the correlation ID between the Nuxt server and Edge Functions
+ */
+export const CORRELATION_ID_HEADER = "x-correlation-id";
+
+/**
+ * Accepted correlation IDs (UUIDs and similar tokens from other callers)
+ */
+const CORRELATION_ID_PATTERN = /^[A-Za-z0-9._-]{8,128}$/;
+
+/**
+ * Writes entries as JSON lines to stdout (collected by Supabase's function logs)
+ */
+export class ConsoleSink implements LogSink {
+  write(entry: LogEntry): void {
+    console.log(JSON.stringify(entry));
+  }
+}
+
+const defaults: LoggingDefaults = {
+  sinks: [new ConsoleSink()],
+  sampleRate: 1,
+};
+
+/**
+ * Set the sinks and sample rate used by every logger without its own
+ *
+ * Applies to loggers created earlier too, so module-level loggers pick up the
+ * configuration done at function startup.
+ */
+export function configureLogging(options: Partial<LoggingDefaults>): void {
+  if (options.sinks !== undefined) {
+    defaults.sinks = options.sinks;
+  }
+  if (options.sampleRate !== undefined) {
+    defaults.sampleRate = Math.min(Math.max(options.sampleRate, 0), 1);
+  }
+}
+
+/**
+ * Send buffered entries of the default sinks
+ */
+export async function flushLogs(): Promise<void> {
+  await Promise.all(defaults.sinks.map((sink) => sink.flush?.().catch(() => undefined)));
+}
+
+/**
+ * Whether debug/info logs of a correlation ID are kept
+ *
+ * Hashes the ID so every log line of a request (across functions) gets the
+ * same decision; logs without an ID are sampled randomly.
+ */
+export function isSampled(correlationId: string | undefined, sampleRate: number): boolean {
+  if (sampleRate >= 1) {
+    return true;
+  }
+  if (sampleRate <= 0) {
+    return false;
+  }
+  if (correlationId === undefined) {
+    return Math.random() < sampleRate;
+  }
+
+  let hash = 2166136261;
+  for (let i = 0; i < correlationId.length; i++) {
+    hash = Math.imul(hash ^ correlationId.charCodeAt(i), 16777619);
+  }
+
+  return (hash >>> 0) / 0x100000000 < sampleRate;
+}
+
 /**
  * Generate a unique correlation ID for request tracing
  * Format: UUID v4
@@ -83,6 +186,47 @@ export function generateCorrelationId(): string {
   return crypto.randomUUID();
 }
 
+/**
+ * Correlation ID sent by the caller, or a new one
+ *
+ * @param req - Incoming request
+ * @returns Correlation ID for this request
+ */
+export function correlationIdFromRequest(req: Request): string {
+  const header = req.headers.get(CORRELATION_ID_HEADER)?.trim();
+  return header && CORRELATION_ID_PATTERN.test(header) ? header : generateCorrelationId();
+}
+
+/**
+ * Wrap an Edge Function handler for request tracing
+ *
+ * The handler sees the caller's correlation ID (or a new one) in the
+ * x-correlation-id header, the response carries it back, and buffered log
+ * sinks are flushed before the response is returned.
+ *
+ * @param handler - Edge Function handler
+ * @returns Handler for Deno.serve
+ */
+export function withRequestTracing(
+  handler: (req: Request) => Promise<Response>
+): (req: Request) => Promise<Response> {
+  return async (req: Request): Promise<Response> => {
+    const correlationId = correlationIdFromRequest(req);
+    const headers = new Headers(req.headers);
+    headers.set(CORRELATION_ID_HEADER, correlationId);
+
+    try {
+      const response = await handler(new Request(req, { headers }));
+      const traced = new Response(response.body, response);
+      traced.headers.set(CORRELATION_ID_HEADER, correlationId);
+      traced.headers.append("Access-Control-Expose-Headers", CORRELATION_ID_HEADER);
+      return traced;
+    } finally {
+      await flushLogs();
+    }
+  };
+}
+
 /**
  * Structured logger class
  */
@@ -123,7 +267,23 @@ export class Logger {
    * @returns True if level should be logged
    */
   private shouldLog(level: LogLevel): boolean {
-    return LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[this.config.minLevel];
+    if (LOG_LEVEL_PRIORITY[level] < LOG_LEVEL_PRIORITY[this.config.minLevel]) {
+      return false;
+    }
+
+    if (LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[LogLevel.WARN]) {
+      return true;
+    }
+
+    return isSampled(this.config.correlationId, this.config.sampleRate ?? defaults.sampleRate);
+  }
+
+  /**
+   * Send buffered entries of this logger's sinks
+   */
+  async flush(): Promise<void> {
+    const sinks = this.config.sinks ?? defaults.sinks;
+    await Promise.all(sinks.map((sink) => sink.flush?.().catch(() => undefined)));
   }
 
   /**
@@ -150,6 +310,10 @@ export class Logger {
       message,
     };
 
+    if (this.config.source !== undefined) {
+      entry.source = this.config.source;
+    }
+
     // Add correlation ID if set
     if (this.config.correlationId !== undefined) {
       entry.correlation_id = this.config.correlationId;
@@ -174,8 +338,13 @@ export class Logger {
       };
     }
 
-    // Output as JSON to stdout
-    console.log(JSON.stringify(entry));
+    for (const sink of this.config.sinks ?? defaults.sinks) {
+      try {
+        sink.write(entry);
+      } catch {
+        // A broken sink must never break the caller
+      }
+    }
   }
 
   /**
@@ -0,0 +1,86 @@
+/**
+ * Marketplace settings
+ *
+ * The marketplaces table is the single source of truth for the Amazon host,
+ * AWS signing region, PA-API endpoint and associate tag of each marketplace.
+ * Functions load the settings of the marketplaces they work on and build
+ * their PA-API clients from them (see createMarketplaceClient()).
+ *
+ * Partner tags: a PAAPI_PARTNER_TAG_<CODE> secret (how tags were configured
+ * before the table) overrides associate_tag, so existing deployments keep
+ * their tags until the table holds the real ones. Cut-over: copy each secret
+ * into marketplaces.associate_tag, then unset the secret.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { Marketplace } from "./types.ts";
+
+/**
+ * Marketplace columns needed to call PA-API and format prices
+ */
+export type MarketplaceSettings = Pick<
+  Marketplace,
+  "id" | "code" | "currency" | "host" | "paapi_region" | "paapi_endpoint" | "associate_tag" | "locale"
+>;
+
+/**
+ * Select list for MarketplaceSettings (also usable in embedded selects)
+ */
+export const MARKETPLACE_SETTINGS_COLUMNS = "id, code, currency, host, paapi_region, paapi_endpoint, associate_tag, locale";
+
+/**
+ * Load the settings of an active marketplace
+ *
+ * @param supabase - Supabase client (marketplaces are publicly readable)
+ * @param code - Marketplace code (e.g. "US", "DE")
+ * @returns Settings, or null if the marketplace doesn't exist or is inactive
+ * @throws {Error} If the query fails
+ */
+export async function getMarketplaceSettings(
+  supabase: SupabaseClient,
+  code: string,
+): Promise<MarketplaceSettings | null> {
+  const { data, error } = await supabase
+    .from("marketplaces")
+    .select(MARKETPLACE_SETTINGS_COLUMNS)
+    .eq("code", code)
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load marketplace ${code}: ${error.message}`);
+  }
+
+  return data as MarketplaceSettings | null;
+}
+
+/**
+ * PA-API base URL for a marketplace, derived from its GetItems endpoint
+ *
+ * @param paapiEndpoint - e.g. "https://webservices.amazon.de/paapi5/getitems"
+ * @returns e.g. "https://webservices.amazon.de/paapi5"
+ */
+export function getPaapiBaseEndpoint(paapiEndpoint: string): string {
+  return paapiEndpoint.replace(/\/+$/, "").replace(/\/(getitems|searchitems)$/i, "");
+}
+
+/**
+ * Partner tag sent to PA-API for a marketplace
+ *
+ * @param marketplace - Marketplace code and stored associate tag
+ * @param env - Environment lookup (Deno.env.get in production)
+ * @returns PAAPI_PARTNER_TAG_<CODE> when set, otherwise associate_tag
+ * @throws {Error} If the marketplace has no partner tag
+ */
+export function getPartnerTag(
+  marketplace: Pick<MarketplaceSettings, "code" | "associate_tag">,
+  env: (name: string) => string | undefined = (name) => Deno.env.get(name),
+): string {
+  const tag = env(`PAAPI_PARTNER_TAG_${marketplace.code}`)?.trim() || marketplace.associate_tag?.trim();
+
+  if (!tag) {
+    throw new Error(`No partner tag configured for marketplace ${marketplace.code}`);
+  }
+
+  return tag;
+}
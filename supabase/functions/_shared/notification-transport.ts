@@ -0,0 +1,366 @@
+/**
+ * Notification Transports
+ *
+ * Pluggable delivery for alert notifications (price drops, back in stock,
+ * double opt-in confirmations). Each channel of a subscription is mapped to a
+ * transport, so alerts can be delivered for real or captured offline:
+ *
+ * - SmtpTransport: email over SMTP
+ * - WebhookTransport: JSON POST to the subscriber's https URL
+ * - FileTransport: appends JSON lines to a local file (dev/testing)
+ * - ConsoleTransport: logs the message subject with a redacted destination (dev default)
+ *
+ * Configuration (NOTIFICATION_TRANSPORT):
+ * - "live": email -> SMTP, webhook -> HTTP POST
+ * - "file": every channel -> NOTIFICATION_FILE_PATH (default ./notifications.jsonl)
+ * - "console" (default): every channel -> structured logs
+ */
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+import type { AlertChannel } from "./types.ts";
+import { Logger } from "./logger.ts";
+
+/**
+ * Message handed to a transport
+ */
+export interface NotificationMessage {
+  channel: AlertChannel;
+  destination: string; // Email address or webhook URL
+  subject: string;
+  text: string;
+  data: Record<string, unknown>; // Structured payload (sent as JSON to webhooks)
+}
+
+/**
+ * Delivery mechanism for notification messages
+ */
+export interface NotificationTransport {
+  readonly name: string;
+
+  /**
+   * Deliver a message
+   * @throws {Error} If delivery fails (the notification is retried later)
+   */
+  send(message: NotificationMessage): Promise<void>;
+}
+
+/**
+ * Transport per subscription channel
+ */
+export type NotificationTransports = Record<AlertChannel, NotificationTransport>;
+
+/**
+ * SMTP connection settings
+ */
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  from: string;
+  tls: boolean;
+}
+
+/**
+ * Logs messages instead of delivering them
+ */
+export class ConsoleTransport implements NotificationTransport {
+  readonly name = "console";
+
+  constructor(private readonly logger: Logger) {}
+
+  /**
+   * Logs where the message went and what it was about, never the destination
+   * itself or the text and links (they carry confirm/unsubscribe tokens)
+   */
+  send(message: NotificationMessage): Promise<void> {
+    this.logger.info("Notification (console transport)", {
+      channel: message.channel,
+      destination: redactDestination(message.destination),
+      subject: message.subject,
+      type: message.data["type"],
+    });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Appends messages as JSON lines to a local file
+ */
+export class FileTransport implements NotificationTransport {
+  readonly name = "file";
+
+  constructor(private readonly path: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const line = JSON.stringify({ ...message, sent_at: new Date().toISOString() });
+    await Deno.writeTextFile(this.path, `${line}\n`, { append: true });
+  }
+}
+
+/**
+ * POSTs the message as JSON to the subscriber's webhook URL
+ *
+ * Subscribers choose the URL, so only public hosts are contacted: the host
+ * must resolve to public addresses only, and redirects are not followed
+ * (a 3xx response fails the delivery).
+ */
+export class WebhookTransport implements NotificationTransport {
+  readonly name = "webhook";
+
+  /**
+   * @param timeout - Request timeout in milliseconds (default: 10000)
+   * @param fetchFn - fetch implementation (injectable for tests)
+   * @param resolveHost - Addresses of a hostname (injectable for tests)
+   */
+  constructor(
+    private readonly timeout = 10000,
+    private readonly fetchFn: typeof fetch = fetch,
+    private readonly resolveHost: (hostname: string) => Promise<string[]> = resolveHostAddresses,
+  ) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await this.requirePublicDestination(message.destination);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await this.fetchFn(message.destination, {
+        method: "POST",
+        redirect: "manual",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subject: message.subject,
+          text: message.text,
+          ...message.data,
+        }),
+        signal: controller.signal,
+      });
+
+      // Drain the body so the connection can be reused
+      await response.body?.cancel();
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with HTTP ${response.status}`);
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * @throws {Error} If the URL is not https or its host is not public
+   */
+  private async requirePublicDestination(destination: string): Promise<void> {
+    const url = new URL(destination);
+
+    if (url.protocol !== "https:") {
+      throw new Error("Webhook URL must use https");
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "").toLowerCase();
+
+    if (NON_PUBLIC_HOSTNAME.test(hostname)) {
+      throw new Error(`Webhook host ${hostname} is not public`);
+    }
+
+    const addresses = isIpAddress(hostname) ? [hostname] : await this.resolveHost(hostname);
+
+    if (addresses.length === 0 || addresses.some((address) => !isPublicAddress(address))) {
+      throw new Error(`Webhook host ${hostname} is not public`);
+    }
+  }
+}
+
+const NON_PUBLIC_HOSTNAME = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/;
+
+/**
+ * A and AAAA records of a hostname (none if it does not resolve)
+ */
+async function resolveHostAddresses(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+
+  return lookups.flatMap((lookup) => lookup.status === "fulfilled" ? lookup.value : []);
+}
+
+function isIpAddress(value: string): boolean {
+  return /^\d+\.\d+\.\d+\.\d+$/.test(value) || value.includes(":");
+}
+
+/**
+ * Whether an IP address is outside the loopback, private, link-local, shared
+ * and reserved ranges (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isPublicAddress(address: string): boolean {
+  if (!address.includes(":")) {
+    const octets = address.split(".").map(Number);
+    if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) {
+      return false;
+    }
+
+    const [a, b, c] = octets;
+    if (a === undefined || b === undefined || c === undefined) {
+      return false;
+    }
+
+    return !(
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && c === 0) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  const groups = expandIpv6(address);
+  if (!groups) {
+    return false;
+  }
+
+  const [first, , , , , sixth, high, low] = groups;
+  if (first === undefined || high === undefined || low === undefined) {
+    return false;
+  }
+
+  // ::ffff:a.b.c.d
+  if (groups.slice(0, 5).every((group) => group === 0) && sixth === 0xffff) {
+    return isPublicAddress([high >> 8, high & 0xff, low >> 8, low & 0xff].join("."));
+  }
+
+  return !(
+    groups.slice(0, 7).every((group) => group === 0) || // :: and ::1
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null if malformed
+ */
+function expandIpv6(address: string): number[] | null {
+  let value = address.toLowerCase().split("%")[0] ?? "";
+
+  // Embedded IPv4 tail (::ffff:127.0.0.1)
+  const ipv4 = value.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a = 0, b = 0, c = 0, d = 0] = ipv4.slice(1).map(Number);
+    value = `${value.slice(0, ipv4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = value.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail].map((group) => parseInt(group, 16));
+  return groups.length === 8 && groups.every((group) => Number.isInteger(group) && group >= 0 && group <= 0xffff) ? groups : null;
+}
+
+/**
+ * Destination safe to log: the email domain or the webhook host
+ */
+export function redactDestination(destination: string): string {
+  const at = destination.lastIndexOf("@");
+  if (at > 0 && !destination.includes("://")) {
+    return `***${destination.slice(at)}`;
+  }
+
+  try {
+    return `${new URL(destination).origin}/***`;
+  } catch {
+    return "***";
+  }
+}
+
+/**
+ * Sends messages as plain-text email over SMTP
+ */
+export class SmtpTransport implements NotificationTransport {
+  readonly name = "smtp";
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    const client = new SMTPClient({
+      connection: {
+        hostname: this.config.hostname,
+        port: this.config.port,
+        tls: this.config.tls,
+        auth: this.config.username
+          ? { username: this.config.username, password: this.config.password || "" }
+          : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: this.config.from,
+        to: message.destination,
+        subject: message.subject,
+        content: message.text,
+      });
+    } finally {
+      await client.close();
+    }
+  }
+}
+
+/**
+ * Create the transport for each channel from environment variables
+ *
+ * @param env - Environment lookup (Deno.env.get in production)
+ * @param logger - Logger used by the console transport
+ * @returns Transport per channel
+ */
+export function createNotificationTransports(
+  env: (name: string) => string | undefined,
+  logger: Logger,
+): NotificationTransports {
+  const mode = env("NOTIFICATION_TRANSPORT") || "console";
+
+  if (mode === "file") {
+    const fileTransport = new FileTransport(env("NOTIFICATION_FILE_PATH") || "./notifications.jsonl");
+    return { email: fileTransport, webhook: fileTransport };
+  }
+
+  if (mode !== "live") {
+    const consoleTransport = new ConsoleTransport(logger);
+    return { email: consoleTransport, webhook: consoleTransport };
+  }
+
+  const smtpHostname = env("SMTP_HOSTNAME");
+
+  if (!smtpHostname) {
+    logger.warn("SMTP_HOSTNAME not set, email notifications will be logged only", {});
+  }
+
+  return {
+    email: smtpHostname
+      ? new SmtpTransport({
+        hostname: smtpHostname,
+        port: Number(env("SMTP_PORT") || 465),
+        username: env("SMTP_USERNAME"),
+        password: env("SMTP_PASSWORD"),
+        from: env("SMTP_FROM") || "alerts@espboards.dev",
+        tls: env("SMTP_TLS") !== "false",
+      })
+      : new ConsoleTransport(logger),
+    webhook: new WebhookTransport(),
+  };
+}
@@ -10,6 +10,7 @@
  * - Request timeout handling (10 seconds default)
  * - Type-safe request/response structures
  * - Circuit breaker protection against cascade failures (T049)
+ * - Shared rate limiter for the account's request rate and daily quota
  * 
  * @see https://webservices.amazon.com/paapi5/documentation/
  */
@@ -27,7 +28,9 @@ import type {
 import { PaapiErrorCode } from "./types.ts";
 import { ErrorCode } from "./errors.ts";
 import { CircuitBreaker, CircuitOpenError, CircuitState } from "./circuit-breaker.ts";
+import { RateLimiter, RateLimitError, type RequestPriority } from "./rate-limiter.ts";
 import { Logger, LogLevel } from "./logger.ts";
+import { isPartialGetItemsResult } from "./paapi-batch.ts";
 
 /**
  * Export types for use in tests and other modules
@@ -43,12 +46,27 @@ export type { PaapiConfig, PaapiGetItemsRequest as GetItemsRequest, PaapiGetItem
  * - Auto-recovery via HALF_OPEN state
  * 
  * All PA-API clients share this circuit breaker to provide
- * system-wide protection.
+ * system-wide protection. Requests refused by the rate limiter never reached
+ * PA-API and don't count as failures.
  */
 const paapiCircuitBreaker = new CircuitBreaker({
   failureThreshold: 5,
   cooldownTimeout: 5 * 60 * 1000, // 5 minutes
   name: "paapi-client",
+  isFailure: (error) => !(error instanceof RateLimitError),
+});
+
+/**
+ * Singleton rate limiter for PA-API calls
+ * 
+ * PA-API allows 1 request per second and 8640 requests per day to start with,
+ * raised with the account's shipped revenue; set PAAPI_REQUESTS_PER_SECOND
+ * and PAAPI_DAILY_QUOTA to the account's current limits.
+ */
+const paapiRateLimiter = new RateLimiter({
+  name: "paapi",
+  requestsPerSecond: Number(Deno.env.get("PAAPI_REQUESTS_PER_SECOND")) || 1,
+  dailyQuota: Number(Deno.env.get("PAAPI_DAILY_QUOTA")) || 8640,
 });
 
 /**
@@ -60,6 +78,15 @@ export function getPaapiCircuitBreaker(): CircuitBreaker {
   return paapiCircuitBreaker;
 }
 
+/**
+ * Get the shared PA-API rate limiter instance
+ * 
+ * @returns Rate limiter instance
+ */
+export function getPaapiRateLimiter(): RateLimiter {
+  return paapiRateLimiter;
+}
+
 /**
  * PA-API Request structure for internal use
  */
@@ -118,6 +145,7 @@ export class PaapiClientError extends Error {
  */
 export class PaapiClient {
   private readonly config: PaapiConfig;
+  private readonly priority: RequestPriority;
   private readonly timeout: number;
   private readonly awsClient: AwsClient;
   private readonly logger: Logger;
@@ -125,13 +153,20 @@ export class PaapiClient {
   /**
    * Create a new PA-API client
    * 
+   * PAAPI_ENDPOINT_OVERRIDE replaces the endpoint of every client, e.g. to
+   * point all functions at the fake PA-API server (scripts/fake-paapi.ts).
+   * 
    * @param config - Client configuration with credentials and marketplace settings
    * @param timeout - Request timeout in milliseconds (default: 10000)
    * @throws {PaapiClientError} If configuration is invalid
    */
   constructor(config: PaapiConfig, timeout = 10000) {
     this.validateConfig(config);
-    this.config = config;
+    this.config = {
+      ...config,
+      endpoint: Deno.env.get("PAAPI_ENDPOINT_OVERRIDE") || config.endpoint,
+    };
+    this.priority = config.priority ?? "interactive";
     this.timeout = timeout;
     
     // Initialize AWS client for signature V4 signing
@@ -175,12 +210,18 @@ export class PaapiClient {
   /**
    * Fetch product information from PA-API using GetItems operation
    * 
-   * Protected by circuit breaker to prevent cascade failures during PA-API outages.
+   * Protected by circuit breaker to prevent cascade failures during PA-API outages,
+   * and waits for a rate limiter token at the client's priority.
+   * 
+   * Accepts up to 10 item IDs. For multi-item requests, per-ASIN errors
+   * (ItemNotAccessible, InvalidParameterValue) are returned in `Errors` instead
+   * of being thrown; see matchGetItemsResults() in paapi-batch.ts.
    * 
    * @param request - GetItems request with item IDs and resources to fetch
    * @returns Promise resolving to PA-API response with product data
    * @throws {PaapiClientError} If request fails or times out
    * @throws {CircuitOpenError} If circuit breaker is OPEN
+   * @throws {RateLimitError} If no request slot is available in time or the daily quota is used
    * 
    * @example
    * ```typescript
@@ -206,6 +247,7 @@ export class PaapiClient {
     // Execute request through circuit breaker
     try {
       const response = await paapiCircuitBreaker.execute(async () => {
+        await paapiRateLimiter.acquire(this.priority);
         return await this.executeGetItems(request);
       });
 
@@ -226,6 +268,16 @@ export class PaapiClient {
         throw error;
       }
 
+      if (error instanceof RateLimitError) {
+        this.logger.warn("PA-API request blocked by rate limiter", {
+          reason: error.reason,
+          priority: error.priority,
+          retryAfter: error.retryAfter,
+          itemCount: request.itemIds.length,
+        });
+        throw error;
+      }
+
       // Log other errors
       this.logger.error("PA-API request failed", error as Error, {
         itemCount: request.itemIds.length,
@@ -239,12 +291,14 @@ export class PaapiClient {
   /**
    * Search for products using PA-API SearchItems operation
    *
-   * Protected by circuit breaker to prevent cascade failures during PA-API outages.
+   * Protected by circuit breaker to prevent cascade failures during PA-API outages,
+   * and waits for a rate limiter token at the client's priority.
    *
    * @param request - SearchItems request with keywords and search parameters
    * @returns Promise resolving to PA-API response with search results
    * @throws {PaapiClientError} If request fails or times out
    * @throws {CircuitOpenError} If circuit breaker is OPEN
+   * @throws {RateLimitError} If no request slot is available in time or the daily quota is used
    *
    * @example
    * ```typescript
@@ -274,6 +328,7 @@ export class PaapiClient {
     // Execute request through circuit breaker
     try {
       const response = await paapiCircuitBreaker.execute(async () => {
+        await paapiRateLimiter.acquire(this.priority);
         return await this.executeSearchItems(request);
       });
 
@@ -296,6 +351,16 @@ export class PaapiClient {
         throw error;
       }
 
+      if (error instanceof RateLimitError) {
+        this.logger.warn("PA-API search request blocked by rate limiter", {
+          reason: error.reason,
+          priority: error.priority,
+          retryAfter: error.retryAfter,
+          keywords: request.Keywords,
+        });
+        throw error;
+      }
+
       // Log other errors
       this.logger.error("PA-API search request failed", error as Error, {
         keywords: request.Keywords,
@@ -456,7 +521,9 @@ export class PaapiClient {
       }
 
       // Validate response structure
-      if (data.Errors && data.Errors.length > 0) {
+      // Batched requests list inaccessible/invalid ASINs in Errors next to the
+      // items that resolved; return those so callers can handle each ASIN.
+      if (data.Errors && data.Errors.length > 0 && !isPartialGetItemsResult(data, request.itemIds)) {
         throw this.handlePaapiError(data, response.status);
       }
 
@@ -555,7 +622,7 @@ export class PaapiClient {
       "ap-northeast-1": "https://webservices.amazon.co.jp/paapi5",
     };
 
-    const baseEndpoint = baseEndpoints[this.config.region] || baseEndpoints["us-east-1"]!;
+    const baseEndpoint = this.config.endpoint || baseEndpoints[this.config.region] || baseEndpoints["us-east-1"]!;
     const operationPath = operation === "SearchItems" ? "searchitems" : "getitems";
     
     return `${baseEndpoint}/${operationPath}`;
@@ -0,0 +1,357 @@
+/**
+ * PA-API GetItems helpers shared by workers that fetch full product data
+ *
+ * Used by:
+ * - refresh-worker: refreshes existing products every 24 hours
+ * - import-batch: imports bulk ASIN lists in batches of 10
+ *
+ * Provides the requested resources, one client per marketplace, retry with
+ * exponential backoff and the transform from a PA-API item to product columns.
+ */
+
+import { PaapiClient, PaapiClientError } from "./paapi-client.ts";
+import { CircuitOpenError } from "./circuit-breaker.ts";
+import { RateLimitError } from "./rate-limiter.ts";
+import { getPaapiBaseEndpoint, getPartnerTag, type MarketplaceSettings } from "./marketplaces.ts";
+import type { Logger } from "./logger.ts";
+import type { PaapiGetItemsResponse, PaapiItem, PaapiRequestPriority } from "./types.ts";
+
+/**
+ * Product columns read from a PA-API item (shared by refresh and import)
+ */
+export interface ProductItemData {
+  title: string | null;
+  brand: string | null;
+  manufacturer: string | null;
+  features: string[] | null;
+  technical_info: Record<string, unknown> | null;
+  product_info: Record<string, unknown> | null;
+  content_info: Record<string, unknown> | null;
+  manufacture_info: Record<string, unknown> | null;
+  images: Record<string, unknown> | null;
+  current_price: number | null;
+  original_price: number | null;
+  savings_amount: number | null;
+  savings_percentage: number | null;
+  availability_type: string | null;
+  availability_message: string | null;
+  customer_review_count: number | null;
+  star_rating: number | null;
+  raw_paapi_response: PaapiGetItemsResponse;
+}
+
+/**
+ * PA-API resources requested for every refreshed or imported product
+ */
+export const GET_ITEMS_RESOURCES = [
+  // Browse node information
+  'BrowseNodeInfo.BrowseNodes',
+  'BrowseNodeInfo.BrowseNodes.Ancestor',
+  'BrowseNodeInfo.BrowseNodes.SalesRank',
+  'BrowseNodeInfo.WebsiteSalesRank',
+  
+  // Customer reviews
+  'CustomerReviews.Count',
+  'CustomerReviews.StarRating',
+  
+  // All image resources
+  'Images.Primary.Small',
+  'Images.Primary.Medium',
+  'Images.Primary.Large',
+  'Images.Primary.HighRes',
+  'Images.Variants.Small',
+  'Images.Variants.Medium',
+  'Images.Variants.Large',
+  'Images.Variants.HighRes',
+  
+  // Item information
+  'ItemInfo.ByLineInfo',
+  'ItemInfo.ContentInfo',
+  'ItemInfo.ContentRating',
+  'ItemInfo.Classifications',
+  'ItemInfo.ExternalIds',
+  'ItemInfo.Features',
+  'ItemInfo.ManufactureInfo',
+  'ItemInfo.ProductInfo',
+  'ItemInfo.TechnicalInfo',
+  'ItemInfo.Title',
+  'ItemInfo.TradeInInfo',
+  
+  // Offers and pricing - detailed
+  'Offers.Listings.Availability.MaxOrderQuantity',
+  'Offers.Listings.Availability.Message',
+  'Offers.Listings.Availability.MinOrderQuantity',
+  'Offers.Listings.Availability.Type',
+  'Offers.Listings.Condition',
+  'Offers.Listings.Condition.ConditionNote',
+  'Offers.Listings.Condition.SubCondition',
+  'Offers.Listings.DeliveryInfo.IsAmazonFulfilled',
+  'Offers.Listings.DeliveryInfo.IsFreeShippingEligible',
+  'Offers.Listings.DeliveryInfo.IsPrimeEligible',
+  'Offers.Listings.DeliveryInfo.ShippingCharges',
+  'Offers.Listings.IsBuyBoxWinner',
+  'Offers.Listings.LoyaltyPoints.Points',
+  'Offers.Listings.MerchantInfo',
+  'Offers.Listings.Price',
+  'Offers.Listings.ProgramEligibility.IsPrimeExclusive',
+  'Offers.Listings.ProgramEligibility.IsPrimePantry',
+  'Offers.Listings.Promotions',
+  'Offers.Listings.SavingBasis',
+  'Offers.Summaries.HighestPrice',
+  'Offers.Summaries.LowestPrice',
+  'Offers.Summaries.OfferCount',
+  
+  // Parent ASIN
+  'ParentASIN',
+  
+  // Rental offers
+  'RentalOffers.Listings.Availability.MaxOrderQuantity',
+  'RentalOffers.Listings.Availability.Message',
+  'RentalOffers.Listings.Availability.MinOrderQuantity',
+  'RentalOffers.Listings.Availability.Type',
+  'RentalOffers.Listings.BasePrice',
+  'RentalOffers.Listings.Condition',
+  'RentalOffers.Listings.Condition.ConditionNote',
+  'RentalOffers.Listings.Condition.SubCondition',
+  'RentalOffers.Listings.DeliveryInfo.IsAmazonFulfilled',
+  'RentalOffers.Listings.DeliveryInfo.IsFreeShippingEligible',
+  'RentalOffers.Listings.DeliveryInfo.IsPrimeEligible',
+  'RentalOffers.Listings.DeliveryInfo.ShippingCharges',
+  'RentalOffers.Listings.MerchantInfo',
+];
+
+/**
+ * T057: Maximum retries per GetItems batch (4 total attempts)
+ */
+export const MAX_RETRIES = 3;
+
+/**
+ * Create a PA-API client for a marketplace (one per marketplace per run)
+ *
+ * Host, signing region, endpoint and partner tag come from the marketplaces table
+ * (see getPartnerTag() for the partner tag override).
+ *
+ * @param marketplace - Marketplace settings (see getMarketplaceSettings())
+ * @param priority - Rate limiter class of the worker's requests
+ * @returns PA-API client configured for the marketplace
+ */
+export function createMarketplaceClient(
+  marketplace: MarketplaceSettings,
+  priority: PaapiRequestPriority,
+): PaapiClient {
+  return new PaapiClient({
+    accessKey: Deno.env.get("PAAPI_ACCESS_KEY") || "",
+    secretKey: Deno.env.get("PAAPI_SECRET_KEY") || "",
+    partnerTag: getPartnerTag(marketplace),
+    marketplace: marketplace.host,
+    region: marketplace.paapi_region,
+    endpoint: getPaapiBaseEndpoint(marketplace.paapi_endpoint),
+    priority,
+  });
+}
+
+/**
+ * T058: Transform a PA-API item into product columns
+ *
+ * @param item - Item returned by GetItems
+ * @returns Product fields (status and timestamps excluded)
+ */
+export function extractProductData(item: PaapiItem): ProductItemData {
+  // Extract basic information
+  const title = item.ItemInfo?.Title?.DisplayValue || null;
+  const brand = item.ItemInfo?.ByLineInfo?.Brand?.DisplayValue || null;
+  const manufacturer = item.ItemInfo?.ByLineInfo?.Manufacturer?.DisplayValue || null;
+
+  // Extract features and extended info (cast to unknown for dynamic PA-API fields)
+  const itemInfo = item.ItemInfo as unknown as Record<string, unknown>;
+  const featuresData = itemInfo?.Features as Record<string, unknown> | undefined;
+  const features = (featuresData?.DisplayValues as string[] | undefined) || null;
+
+  const technicalInfo = itemInfo?.TechnicalInfo ? 
+    itemInfo.TechnicalInfo as Record<string, unknown> : null;
+  const productInfo = itemInfo?.ProductInfo ? 
+    itemInfo.ProductInfo as Record<string, unknown> : null;
+  const contentInfo = itemInfo?.ContentInfo ? 
+    itemInfo.ContentInfo as Record<string, unknown> : null;
+  const manufactureInfo = itemInfo?.ManufactureInfo ? 
+    itemInfo.ManufactureInfo as Record<string, unknown> : null;
+
+  // Extract ALL image variants
+  const images = (() => {
+    const imageData: Record<string, unknown> = {};
+    const paapiImages = item.Images as unknown as Record<string, unknown>;
+    
+    if (paapiImages?.Primary) {
+      const primary = paapiImages.Primary as Record<string, unknown>;
+      const primaryData: Record<string, unknown> = {};
+      
+      if (primary.Small) {
+        const small = primary.Small as Record<string, unknown>;
+        primaryData.small = { url: small.URL, width: small.Width || null, height: small.Height || null };
+      }
+      if (primary.Medium) {
+        const medium = primary.Medium as Record<string, unknown>;
+        primaryData.medium = { url: medium.URL, width: medium.Width || null, height: medium.Height || null };
+      }
+      if (primary.Large) {
+        const large = primary.Large as Record<string, unknown>;
+        primaryData.large = { url: large.URL, width: large.Width || null, height: large.Height || null };
+      }
+      if (primary.HighRes) {
+        const highRes = primary.HighRes as Record<string, unknown>;
+        primaryData.highRes = { url: highRes.URL, width: highRes.Width || null, height: highRes.Height || null };
+      }
+      
+      if (Object.keys(primaryData).length > 0) {
+        imageData.primary = primaryData;
+      }
+    }
+    
+    if (paapiImages?.Variants && Array.isArray(paapiImages.Variants)) {
+      imageData.variants = (paapiImages.Variants as Record<string, unknown>[]).map((variant) => {
+        const variantData: Record<string, unknown> = {};
+        if (variant.Small) {
+          const small = variant.Small as Record<string, unknown>;
+          variantData.small = { url: small.URL, width: small.Width || null, height: small.Height || null };
+        }
+        if (variant.Medium) {
+          const medium = variant.Medium as Record<string, unknown>;
+          variantData.medium = { url: medium.URL, width: medium.Width || null, height: medium.Height || null };
+        }
+        if (variant.Large) {
+          const large = variant.Large as Record<string, unknown>;
+          variantData.large = { url: large.URL, width: large.Width || null, height: large.Height || null };
+        }
+        if (variant.HighRes) {
+          const highRes = variant.HighRes as Record<string, unknown>;
+          variantData.highRes = { url: highRes.URL, width: highRes.Width || null, height: highRes.Height || null };
+        }
+        return variantData;
+      });
+    }
+    
+    return Object.keys(imageData).length > 0 ? imageData : null;
+  })();
+
+  // Extract price information
+  const offers = item.Offers?.Listings?.[0];
+  const currentPrice = offers?.Price?.Amount || null;
+  const originalPrice = offers?.SavingBasis?.Amount || currentPrice;
+  
+  // Calculate savings (only if both prices exist)
+  let savingsAmount: number | null = null;
+  let savingsPercentage: number | null = null;
+  
+  if (currentPrice && originalPrice && currentPrice < originalPrice) {
+    savingsAmount = originalPrice - currentPrice;
+    savingsPercentage = (savingsAmount / originalPrice) * 100;
+    
+    // Round to 2 decimal places
+    savingsAmount = Math.round(savingsAmount * 100) / 100;
+    savingsPercentage = Math.round(savingsPercentage * 100) / 100;
+  }
+
+  // Extract availability
+  const availabilityType = offers?.Availability?.Type || null;
+  const availabilityMessage = offers?.Availability?.Message || null;
+
+  // Extract reviews and rating
+  const customerReviewCount = item.CustomerReviews?.Count || null;
+  const starRating = item.CustomerReviews?.StarRating?.Value || null;
+
+  return {
+    title,
+    brand,
+    manufacturer,
+    features,
+    technical_info: technicalInfo,
+    product_info: productInfo,
+    content_info: contentInfo,
+    manufacture_info: manufactureInfo,
+    images,
+    current_price: currentPrice,
+    original_price: originalPrice,
+    savings_amount: savingsAmount,
+    savings_percentage: savingsPercentage,
+    availability_type: availabilityType,
+    availability_message: availabilityMessage,
+    customer_review_count: customerReviewCount,
+    star_rating: starRating,
+    // Stored per item in the single-item response shape the frontend reads
+    raw_paapi_response: { ItemsResult: { Items: [item] } },
+  };
+}
+
+/**
+ * T057: Outcome of a GetItems batch after retries
+ */
+export type BatchFetchResult =
+  | { ok: true; response: PaapiGetItemsResponse; retryCount: number }
+  | { ok: false; error: Error; retryCount: number };
+
+/**
+ * T059: Check whether PA-API rejected the whole request because the ASIN
+ * doesn't exist or is invalid (only thrown for single-ASIN batches)
+ */
+export function isItemNotAccessibleError(error: Error): boolean {
+  return error instanceof PaapiClientError &&
+    (error.code === "ItemNotAccessible" ||
+     error.code === "PAAPI_INVALID_PARAMETER" ||
+     error.message.includes("not accessible") ||
+     error.message.includes("Invalid parameter value"));
+}
+
+/**
+ * T057: Call GetItems for up to 10 ASINs with exponential backoff (1s, 2s, 4s)
+ *
+ * Stops retrying when the circuit breaker opens, the rate limiter refuses the
+ * request or the item is not accessible.
+ *
+ * @param client - PA-API client for the batch's marketplace
+ * @param asins - ASINs in the batch
+ * @param logger - Caller's logger
+ * @returns Response, or the last error once retries are exhausted
+ */
+export async function fetchBatchWithRetry(
+  client: PaapiClient,
+  asins: string[],
+  logger: Logger,
+): Promise<BatchFetchResult> {
+  let retryCount = 0;
+  let lastError: Error = new Error("Unknown error");
+
+  while (retryCount <= MAX_RETRIES) {
+    if (retryCount > 0) {
+      const delayMs = Math.pow(2, retryCount - 1) * 1000; // 1s, 2s, 4s
+      logger.info("Retrying PA-API call", { asins, retry_count: retryCount, delay_ms: delayMs });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+
+    try {
+      const response = await client.getItems({ itemIds: asins, resources: GET_ITEMS_RESOURCES });
+      return { ok: true, response, retryCount };
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      retryCount++;
+
+      if (
+        lastError instanceof CircuitOpenError ||
+        lastError instanceof RateLimitError ||
+        isItemNotAccessibleError(lastError)
+      ) {
+        return { ok: false, error: lastError, retryCount };
+      }
+
+      if (retryCount <= MAX_RETRIES) {
+        logger.warn("PA-API call failed, will retry", {
+          asins,
+          retry_count: retryCount,
+          max_retries: MAX_RETRIES,
+          error: lastError.message,
+        });
+      }
+    }
+  }
+
+  return { ok: false, error: lastError, retryCount };
+}
@@ -0,0 +1,135 @@
+/**
+ * Price History Recording
+ *
+ * Products only store the latest PA-API price, so every writer (import-product,
+ * refresh-worker) calls recordPriceChange() after saving a product. A row is
+ * appended to price_history only when price or availability differs from the
+ * most recent entry, keeping the table small enough to chart directly.
+ *
+ * Change detection compares:
+ * - current_price (Offers.Listings[0].Price.Amount)
+ * - original_price (Offers.Listings[0].SavingBasis.Amount)
+ * - availability_type (Offers.Listings[0].Availability.Type)
+ *
+ * Recording is best-effort: failures are logged and never fail the caller's import/refresh.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+import type { PriceHistoryInsert, PriceHistorySource } from "./types.ts";
+import { Logger } from "./logger.ts";
+
+/**
+ * Price fields tracked for a product
+ */
+export interface PriceSnapshot {
+  current_price: number | null;
+  original_price: number | null;
+  savings_percentage: number | null;
+  currency: string | null;
+  availability_type: string | null;
+}
+
+/**
+ * Normalize a price for comparison (DECIMAL columns come back as strings or numbers)
+ */
+function normalizePrice(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : null;
+}
+
+/**
+ * Check whether a new snapshot differs from the last recorded one
+ *
+ * @param previous - Latest price_history entry (null when the product has no history yet)
+ * @param next - Snapshot about to be saved
+ * @returns true when the snapshot should be recorded
+ */
+export function hasPriceChanged(
+  previous: PriceSnapshot | null,
+  next: PriceSnapshot,
+): boolean {
+  if (!previous) {
+    return true;
+  }
+
+  return normalizePrice(previous.current_price) !== normalizePrice(next.current_price) ||
+    normalizePrice(previous.original_price) !== normalizePrice(next.original_price) ||
+    (previous.availability_type || null) !== (next.availability_type || null);
+}
+
+/**
+ * Append a price_history row when price or availability changed
+ *
+ * @param supabase - Service role client (price_history is not writable by anon)
+ * @param productId - Product the snapshot belongs to
+ * @param snapshot - Price fields that were just saved on the product
+ * @param source - Writer recording the change
+ * @param logger - Logger carrying the caller's correlation ID
+ * @returns true when a row was inserted
+ */
+export async function recordPriceChange(
+  supabase: SupabaseClient,
+  productId: string,
+  snapshot: PriceSnapshot,
+  source: PriceHistorySource,
+  logger: Logger,
+): Promise<boolean> {
+  try {
+    const { data: latest, error: selectError } = await supabase
+      .from("price_history")
+      .select("current_price, original_price, savings_percentage, currency, availability_type")
+      .eq("product_id", productId)
+      .order("recorded_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (selectError) {
+      throw new Error(`Failed to read price history: ${selectError.message}`);
+    }
+
+    if (!hasPriceChanged(latest as PriceSnapshot | null, snapshot)) {
+      return false;
+    }
+
+    const entry: PriceHistoryInsert = {
+      product_id: productId,
+      current_price: normalizePrice(snapshot.current_price),
+      original_price: normalizePrice(snapshot.original_price),
+      savings_percentage: normalizePrice(snapshot.savings_percentage),
+      currency: snapshot.currency,
+      availability_type: snapshot.availability_type,
+      source,
+    };
+
+    const { error: insertError } = await supabase
+      .from("price_history")
+      .insert(entry);
+
+    if (insertError) {
+      throw new Error(`Failed to insert price history: ${insertError.message}`);
+    }
+
+    logger.info("Price change recorded", {
+      product_id: productId,
+      source,
+      previous_price: latest?.current_price ?? null,
+      current_price: entry.current_price,
+      availability_type: entry.availability_type,
+    });
+
+    return true;
+  } catch (error) {
+    logger.warn("Failed to record price history", {
+      product_id: productId,
+      source,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return false;
+  }
+}
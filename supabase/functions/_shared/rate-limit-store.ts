@@ -0,0 +1,99 @@
+/**
+ * Postgres rate limit store
+ *
+ * Keeps token buckets in the rate_limits table and daily usage in
+ * rate_limit_usage, so every Edge Function isolate shares the PA-API request
+ * rate and quota. Tokens are taken with the take_rate_limit_token() function,
+ * which locks the bucket row, so concurrent isolates can't spend the same token.
+ * Edge Functions switch the shared PA-API limiter to it with
+ * usePersistentPaapiRateLimiter().
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  type QuotaUsage,
+  type RateLimitStore,
+  type RequestPriority,
+  REQUEST_PRIORITIES,
+  type TokenDecision,
+  type TokenRequest,
+  utcDate,
+} from "./rate-limiter.ts";
+import { getPaapiRateLimiter } from "./paapi-client.ts";
+
+/**
+ * Row returned by take_rate_limit_token()
+ */
+interface TokenDecisionRow {
+  granted: boolean;
+  reason: "rate" | "quota" | null;
+  wait_ms: number;
+  used_today: number;
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private readonly supabase: SupabaseClient) {}
+
+  async take(name: string, request: TokenRequest, _now: number): Promise<TokenDecision> {
+    const { data, error } = await this.supabase
+      .rpc("take_rate_limit_token", {
+        p_name: name,
+        p_priority: request.priority,
+        p_requests_per_second: request.requestsPerSecond,
+        p_quota_limit: request.quotaLimit,
+      })
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to take rate limit token ${name}: ${error.message}`);
+    }
+
+    const row = data as TokenDecisionRow;
+    return {
+      granted: row.granted,
+      ...(row.reason ? { reason: row.reason } : {}),
+      waitMs: row.wait_ms,
+      usedToday: row.used_today,
+    };
+  }
+
+  async usage(name: string, now: number): Promise<QuotaUsage> {
+    const date = utcDate(now);
+    const { data, error } = await this.supabase
+      .from("rate_limit_usage")
+      .select("priority, request_count, denied_count")
+      .eq("name", name)
+      .eq("usage_date", date);
+
+    if (error) {
+      throw new Error(`Failed to load rate limit usage ${name}: ${error.message}`);
+    }
+
+    const byPriority = Object.fromEntries(
+      REQUEST_PRIORITIES.map((priority) => [priority, { requests: 0, denied: 0 }]),
+    ) as QuotaUsage["byPriority"];
+
+    for (const row of data ?? []) {
+      const counts = byPriority[row.priority as RequestPriority];
+      if (counts) {
+        counts.requests = row.request_count;
+        counts.denied = row.denied_count;
+      }
+    }
+
+    return {
+      date,
+      usedToday: Object.values(byPriority).reduce((sum, counts) => sum + counts.requests, 0),
+      byPriority,
+    };
+  }
+}
+
+/**
+ * Share the PA-API rate limiter with every other isolate
+ *
+ * Call once per request with a service role client before using PA-API.
+ */
+export function usePersistentPaapiRateLimiter(supabase: SupabaseClient): void {
+  getPaapiRateLimiter().setStore(new PostgresRateLimitStore(supabase));
+}
@@ -0,0 +1,444 @@
+/**
+ * Token Bucket Rate Limiter
+ *
+ * Keeps PA-API usage within the account's limits: a requests-per-second token
+ * bucket plus a daily request quota (Amazon grants both per account, not per
+ * isolate).
+ *
+ * Requests have a priority class (interactive admin searches > imports >
+ * background refreshes):
+ * - Every class except the highest keeps a share of the daily quota in reserve
+ *   for the classes above it, so a refresh backlog can't use up the budget
+ *   admins need for searches.
+ * - Within an isolate, lower classes wait while a higher class is waiting for a
+ *   token.
+ *
+ * acquire() waits for a token up to a per-class limit and then throws
+ * RateLimitError. Background workers should check hasBudget() first and yield
+ * (defer their work) instead of failing requests.
+ *
+ * State is kept in a RateLimitStore. The default in-memory store only limits
+ * one isolate; the rate_limits table (see rate-limit-store.ts) shares the
+ * bucket and quota across every Edge Function.
+ */
+
+import { Logger, LogLevel } from "./logger.ts";
+import type { PaapiRequestPriority as RequestPriority } from "./types.ts";
+
+export type { RequestPriority };
+
+/**
+ * Priority classes, highest first
+ */
+export const REQUEST_PRIORITIES: readonly RequestPriority[] = ["interactive", "import", "background"];
+
+/**
+ * Rate limiter configuration options
+ */
+export interface RateLimiterConfig {
+  /**
+   * Name for logging (also the key in the store)
+   * @default "rate-limiter"
+   */
+  name?: string;
+
+  /**
+   * Sustained requests per second (also the burst size, at least 1)
+   * @default 1
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Requests per UTC day
+   * @default 8640
+   */
+  dailyQuota?: number;
+
+  /**
+   * Fraction of the daily quota a class leaves for higher classes
+   * @default { interactive: 0, import: 0.05, background: 0.2 }
+   */
+  reserve?: Partial<Record<RequestPriority, number>>;
+
+  /**
+   * Longest time a class waits for a token before acquire() throws (in milliseconds)
+   * @default { interactive: 5000, import: 15000, background: 15000 }
+   */
+  maxWaitMs?: Partial<Record<RequestPriority, number>>;
+
+  /**
+   * Where the bucket and usage are kept
+   * @default A new InMemoryRateLimitStore
+   */
+  store?: RateLimitStore;
+}
+
+/**
+ * Request for one token
+ */
+export interface TokenRequest {
+  priority: RequestPriority;
+  requestsPerSecond: number;
+
+  /**
+   * Requests per day after which this class is refused
+   * (daily quota minus the reserve for higher classes)
+   */
+  quotaLimit: number;
+}
+
+/**
+ * Outcome of a token request
+ */
+export interface TokenDecision {
+  granted: boolean;
+
+  /**
+   * Why the token was refused: bucket empty ("rate") or quota used ("quota")
+   */
+  reason?: "rate" | "quota";
+
+  /**
+   * Time until a token could be granted (in milliseconds)
+   */
+  waitMs: number;
+
+  /**
+   * Requests granted today, including this one
+   */
+  usedToday: number;
+}
+
+/**
+ * Requests per class for one UTC day
+ */
+export interface QuotaUsage {
+  /**
+   * UTC date (YYYY-MM-DD)
+   */
+  date: string;
+
+  usedToday: number;
+
+  /**
+   * Granted and refused (quota used) requests per class
+   */
+  byPriority: Record<RequestPriority, { requests: number; denied: number }>;
+}
+
+/**
+ * Storage for token buckets and daily usage, keyed by limiter name
+ *
+ * take() must check and update atomically so concurrent isolates can't spend
+ * the same token.
+ */
+export interface RateLimitStore {
+  take(name: string, request: TokenRequest, now: number): Promise<TokenDecision>;
+
+  usage(name: string, now: number): Promise<QuotaUsage>;
+}
+
+/**
+ * UTC date (YYYY-MM-DD) of a timestamp
+ */
+export function utcDate(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Milliseconds until the next UTC midnight, when the daily quota resets
+ */
+export function msUntilQuotaReset(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight.getTime() - now;
+}
+
+function emptyUsage(date: string): QuotaUsage {
+  return {
+    date,
+    usedToday: 0,
+    byPriority: {
+      interactive: { requests: 0, denied: 0 },
+      import: { requests: 0, denied: 0 },
+      background: { requests: 0, denied: 0 },
+    },
+  };
+}
+
+/**
+ * Process-local store
+ *
+ * Limiters sharing an instance share buckets and usage, which lets tests
+ * simulate several isolates without a database.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private readonly usages = new Map<string, QuotaUsage>();
+
+  take(name: string, request: TokenRequest, now: number): Promise<TokenDecision> {
+    const usage = this.currentUsage(name, now);
+
+    if (usage.usedToday >= request.quotaLimit) {
+      usage.byPriority[request.priority].denied++;
+      return Promise.resolve({
+        granted: false,
+        reason: "quota",
+        waitMs: msUntilQuotaReset(now),
+        usedToday: usage.usedToday,
+      });
+    }
+
+    const capacity = Math.max(1, request.requestsPerSecond);
+    const bucket = this.buckets.get(name) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (Math.max(0, now - bucket.updatedAt) / 1000) * request.requestsPerSecond);
+    bucket.updatedAt = now;
+    this.buckets.set(name, bucket);
+
+    if (bucket.tokens < 1) {
+      return Promise.resolve({
+        granted: false,
+        reason: "rate",
+        waitMs: Math.ceil(((1 - bucket.tokens) / request.requestsPerSecond) * 1000),
+        usedToday: usage.usedToday,
+      });
+    }
+
+    bucket.tokens -= 1;
+    usage.usedToday++;
+    usage.byPriority[request.priority].requests++;
+
+    return Promise.resolve({ granted: true, waitMs: 0, usedToday: usage.usedToday });
+  }
+
+  usage(name: string, now: number): Promise<QuotaUsage> {
+    const usage = this.currentUsage(name, now);
+    return Promise.resolve(structuredClone(usage));
+  }
+
+  private currentUsage(name: string, now: number): QuotaUsage {
+    const date = utcDate(now);
+    let usage = this.usages.get(name);
+
+    if (!usage || usage.date !== date) {
+      usage = emptyUsage(date);
+      this.usages.set(name, usage);
+    }
+
+    return usage;
+  }
+}
+
+/**
+ * Error thrown when no token is available in time or the class's quota is used
+ */
+export class RateLimitError extends Error {
+  /**
+   * Time to wait before retry (in milliseconds)
+   */
+  public readonly retryAfter: number;
+
+  constructor(
+    message: string,
+    public readonly reason: "rate" | "quota",
+    retryAfter: number,
+    public readonly priority: RequestPriority,
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Quota usage with the limits it is measured against
+ */
+export interface RateLimiterUsage extends QuotaUsage {
+  name: string;
+  requestsPerSecond: number;
+  dailyQuota: number;
+
+  /**
+   * Requests each class may still make today
+   */
+  remaining: Record<RequestPriority, number>;
+}
+
+/**
+ * How often a lower class checks whether higher classes are done waiting
+ */
+const YIELD_INTERVAL_MS = 100;
+
+/**
+ * Rate limiter implementation
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 1, dailyQuota: 8640 });
+ *
+ * if (await limiter.hasBudget("background", 10)) {
+ *   await limiter.acquire("background");
+ *   await callExternalService();
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private store: RateLimitStore;
+  private readonly fallbackStore = new InMemoryRateLimitStore();
+  private readonly config: Required<Omit<RateLimiterConfig, "store" | "reserve" | "maxWaitMs">> & {
+    reserve: Record<RequestPriority, number>;
+    maxWaitMs: Record<RequestPriority, number>;
+  };
+  private readonly waiting: Record<RequestPriority, number> = { interactive: 0, import: 0, background: 0 };
+  private readonly logger: Logger;
+
+  constructor(config?: RateLimiterConfig) {
+    this.config = {
+      name: config?.name ?? "rate-limiter",
+      requestsPerSecond: config?.requestsPerSecond ?? 1,
+      dailyQuota: config?.dailyQuota ?? 8640,
+      reserve: { interactive: 0, import: 0.05, background: 0.2, ...config?.reserve },
+      maxWaitMs: { interactive: 5000, import: 15000, background: 15000, ...config?.maxWaitMs },
+    };
+    this.store = config?.store ?? new InMemoryRateLimitStore();
+    this.logger = new Logger({ minLevel: LogLevel.INFO });
+  }
+
+  /**
+   * Replace the store (e.g. with a shared one once a database client exists)
+   */
+  setStore(store: RateLimitStore): void {
+    this.store = store;
+  }
+
+  /**
+   * Requests per day after which a class is refused
+   */
+  quotaLimit(priority: RequestPriority): number {
+    return Math.floor(this.config.dailyQuota * (1 - this.config.reserve[priority]));
+  }
+
+  /**
+   * Wait for a token
+   *
+   * @throws {RateLimitError} If the class's daily quota is used, or no token
+   * became available within its maxWaitMs
+   */
+  async acquire(priority: RequestPriority = "interactive"): Promise<void> {
+    const deadline = Date.now() + this.config.maxWaitMs[priority];
+    this.waiting[priority]++;
+
+    try {
+      while (true) {
+        let waitMs = YIELD_INTERVAL_MS;
+
+        if (!this.isHigherPriorityWaiting(priority)) {
+          const decision = await this.take(priority);
+
+          if (decision.granted) {
+            return;
+          }
+
+          if (decision.reason === "quota") {
+            this.logger.warn("Daily quota used, request refused", {
+              name: this.config.name,
+              priority,
+              usedToday: decision.usedToday,
+              quotaLimit: this.quotaLimit(priority),
+            });
+            throw new RateLimitError(
+              `Daily ${this.config.name} quota for ${priority} requests used (${decision.usedToday}/${this.quotaLimit(priority)})`,
+              "quota",
+              decision.waitMs,
+              priority,
+            );
+          }
+
+          waitMs = decision.waitMs;
+        }
+
+        if (Date.now() + waitMs > deadline) {
+          throw new RateLimitError(
+            `No ${this.config.name} request slot for ${priority} requests within ${this.config.maxWaitMs[priority]}ms`,
+            "rate",
+            waitMs,
+            priority,
+          );
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
+      }
+    } finally {
+      this.waiting[priority]--;
+    }
+  }
+
+  /**
+   * Whether a class can still make `requests` requests today
+   *
+   * Falls back to this isolate's usage if the store fails, so an unreachable
+   * store never stops work.
+   */
+  async hasBudget(priority: RequestPriority, requests = 1): Promise<boolean> {
+    const usage = await this.getUsage();
+    return usage.remaining[priority] >= requests;
+  }
+
+  /**
+   * Today's usage (falls back to this isolate's usage if the store fails)
+   */
+  async getUsage(): Promise<RateLimiterUsage> {
+    const now = Date.now();
+    let usage: QuotaUsage;
+
+    try {
+      usage = await this.store.usage(this.config.name, now);
+    } catch (error) {
+      this.logStoreError("Failed to load rate limit usage, using local usage", error);
+      usage = await this.fallbackStore.usage(this.config.name, now);
+    }
+
+    const remaining = Object.fromEntries(
+      REQUEST_PRIORITIES.map((priority) => [priority, Math.max(0, this.quotaLimit(priority) - usage.usedToday)]),
+    ) as Record<RequestPriority, number>;
+
+    return {
+      ...usage,
+      name: this.config.name,
+      requestsPerSecond: this.config.requestsPerSecond,
+      dailyQuota: this.config.dailyQuota,
+      remaining,
+    };
+  }
+
+  private isHigherPriorityWaiting(priority: RequestPriority): boolean {
+    const rank = REQUEST_PRIORITIES.indexOf(priority);
+    return REQUEST_PRIORITIES.slice(0, rank).some((higher) => this.waiting[higher] > 0);
+  }
+
+  /**
+   * Take a token from the store, or from the local fallback if the store fails
+   */
+  private async take(priority: RequestPriority): Promise<TokenDecision> {
+    const request: TokenRequest = {
+      priority,
+      requestsPerSecond: this.config.requestsPerSecond,
+      quotaLimit: this.quotaLimit(priority),
+    };
+    const now = Date.now();
+
+    try {
+      return await this.store.take(this.config.name, request, now);
+    } catch (error) {
+      this.logStoreError("Failed to take rate limit token, using local bucket", error);
+      return await this.fallbackStore.take(this.config.name, request, now);
+    }
+  }
+
+  private logStoreError(message: string, error: unknown): void {
+    this.logger.warn(message, {
+      name: this.config.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
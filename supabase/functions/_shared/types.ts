@@ -28,7 +28,13 @@ export interface Marketplace {
   region_name: string; // e.g., "United States", "Germany"
   currency: string; // e.g., "USD", "EUR"
   paapi_endpoint: string; // PA-API endpoint URL
-  associate_tag: string; // Amazon Associate Tag
+  associate_tag: string | null; // Amazon Associate Tag (required once active)
+  host: string; // Amazon storefront host, e.g., "www.amazon.de"
+  paapi_region: string; // AWS signing region, e.g., "eu-west-1"
+  locale: string; // BCP 47 locale, e.g., "de-DE"
+  flag: string; // Emoji flag
+  is_active: boolean;
+  sort_order: number;
   created_at: string; // ISO 8601 timestamp
   updated_at: string; // ISO 8601 timestamp
 }
@@ -125,6 +131,92 @@ export interface RefreshJob {
   created_at: string; // ISO 8601 timestamp
 }
 
+/**
+ * Writer that recorded a price history entry
+ */
+export type PriceHistorySource = 'import' | 'refresh' | 'backfill';
+
+/**
+ * Price history table row
+ * One snapshot per observed price or availability change
+ */
+export interface PriceHistoryEntry {
+  id: string; // UUID
+  product_id: string; // Foreign key to products
+  current_price: number | null;
+  original_price: number | null; // PA-API SavingBasis at the time of the change
+  savings_percentage: number | null;
+  currency: string | null;
+  availability_type: string | null;
+  source: PriceHistorySource;
+  recorded_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Alert delivery channel
+ */
+export type AlertChannel = 'email' | 'webhook';
+
+/**
+ * Alert subscription lifecycle (double opt-in)
+ */
+export type AlertSubscriptionStatus = 'pending' | 'active' | 'unsubscribed';
+
+/**
+ * Alert subscription table row
+ * Price-drop and/or back-in-stock alert for one product
+ */
+export interface AlertSubscription {
+  id: string; // UUID
+  product_id: string; // Foreign key to products
+  channel: AlertChannel;
+  destination: string; // Email address or https webhook URL
+  destination_key: string; // lower(destination), unique per product and channel while live
+  target_price: number | null;
+  notify_when_available: boolean;
+  status: AlertSubscriptionStatus;
+  confirm_token: string;
+  unsubscribe_token: string;
+  confirmation_sent_at: string; // ISO 8601 timestamp
+  confirmed_at: string | null; // ISO 8601 timestamp
+  unsubscribed_at: string | null; // ISO 8601 timestamp
+  last_notified_at: string | null; // ISO 8601 timestamp
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Reason an alert notification was queued
+ */
+export type AlertNotificationKind = 'confirmation' | 'price_drop' | 'back_in_stock';
+
+/**
+ * Alert notification delivery state
+ */
+export type AlertNotificationStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Alert notification table row (delivery queue)
+ */
+export interface AlertNotification {
+  id: string; // UUID
+  subscription_id: string; // Foreign key to alert_subscriptions
+  kind: AlertNotificationKind;
+  channel: AlertChannel;
+  destination: string;
+  payload: {
+    subject: string;
+    text: string;
+    data: Record<string, unknown>;
+  };
+  status: AlertNotificationStatus;
+  attempts: number;
+  last_error: string | null;
+  locked_at: string | null; // ISO 8601 timestamp, set while a delivery run claims it
+  created_at: string; // ISO 8601 timestamp
+  sent_at: string | null; // ISO 8601 timestamp
+}
+
 // ============================================================================
 // API REQUEST/RESPONSE TYPES (for Edge Functions)
 // ============================================================================
@@ -171,6 +263,7 @@ export interface HealthCheckResponse {
     database: ComponentHealth;
     paapi: ComponentHealth;
     circuit_breaker: ComponentHealth;
+    refresh: ComponentHealth;
   };
 }
 
@@ -209,8 +302,16 @@ export interface PaapiConfig {
   partnerTag: string;
   marketplace: string; // e.g., "www.amazon.com"
   region: string; // e.g., "us-east-1"
+  endpoint?: string; // PA-API base URL, e.g., "https://webservices.amazon.de/paapi5" (defaults by region)
+  priority?: PaapiRequestPriority; // Rate limiter class of the client's requests (defaults to "interactive")
 }
 
+/**
+ * Rate limiter priority classes for PA-API requests, highest first:
+ * admin searches, product imports, background price refreshes
+ */
+export type PaapiRequestPriority = "interactive" | "import" | "background";
+
 /**
  * PA-API GetItems Request (T022)
  */
@@ -393,10 +494,7 @@ export interface EnvironmentVariables {
   // PA-API
   PAAPI_ACCESS_KEY: string;
   PAAPI_SECRET_KEY: string;
-  PAAPI_PARTNER_TAG_US: string;
-  PAAPI_PARTNER_TAG_DE?: string;
-  PAAPI_ENDPOINT_US: string;
-  PAAPI_ENDPOINT_DE?: string;
+  // Partner tags and endpoints are per marketplace in the marketplaces table
 
   // Application
   NODE_ENV?: string;
@@ -551,6 +649,19 @@ export type MarketplaceInsert = Omit<Marketplace, 'id' | 'created_at' | 'updated
  */
 export type RefreshJobInsert = Omit<RefreshJob, 'id' | 'created_at'>;
 
+/**
+ * Price history insert type
+ */
+export type PriceHistoryInsert = Omit<PriceHistoryEntry, 'id' | 'recorded_at'>;
+
+/**
+ * Alert notification insert type
+ */
+export type AlertNotificationInsert = Pick<
+  AlertNotification,
+  'subscription_id' | 'kind' | 'channel' | 'destination' | 'payload'
+>;
+
 // ============================================================================
 // DATABASE UPDATE TYPES (Partial updates)
 // ============================================================================
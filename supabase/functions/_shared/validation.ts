@@ -45,17 +45,14 @@ const AsinSchema = z
 
 /**
  * Marketplace code validation
- * Supported: US, DE (can be extended)
+ * Format only: functions check the code against the active rows of the
+ * marketplaces table (see getMarketplaceSettings()).
  */
 const MarketplaceCodeSchema = z
   .string()
   .min(2, 'Marketplace code must be at least 2 characters')
   .max(3, 'Marketplace code must be at most 3 characters')
-  .toUpperCase()
-  .refine(
-    (code: string) => ['US', 'DE'].includes(code),
-    'Marketplace code must be one of: US, DE'
-  );
+  .toUpperCase();
 
 /**
  * Correlation ID validation (UUID v4)
@@ -0,0 +1,159 @@
+/**
+ * Deliver Notifications Edge Function
+ *
+ * POST /deliver-notifications
+ *
+ * Delivers pending alert_notifications (double opt-in confirmations, price-drop
+ * and back-in-stock alerts) through the configured transport. Called by the
+ * store's subscribe route right after queueing a confirmation; the refresh worker
+ * delivers the alerts it queues at the end of each run.
+ *
+ * Request: No body required
+ *
+ * Response (Success):
+ * {
+ *   "success": true,
+ *   "sent": 3,
+ *   "failed": 0,
+ *   "correlation_id": "uuid"
+ * }
+ *
+ * Response (Error):
+ * {
+ *   "error": {
+ *     "code": "INTERNAL_SERVER_ERROR",
+ *     "message": "Error message"
+ *   },
+ *   "correlation_id": "uuid"
+ * }
+ *
+ * Environment:
+ * - NOTIFICATION_TRANSPORT: "live" | "file" | "console" (default)
+ * - SMTP_HOSTNAME, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD, SMTP_FROM, SMTP_TLS (live email)
+ * - NOTIFICATION_FILE_PATH (file transport)
+ */
+
+// Import Supabase client
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+// Import shared utilities
+import { correlationIdFromRequest, Logger, LogLevel, withRequestTracing } from "../_shared/logger.ts";
+import { configureLoggingFromEnv } from "../_shared/log-sinks.ts";
+import { createErrorResponse, ErrorCode } from "../_shared/errors.ts";
+import { deliverPendingNotifications } from "../_shared/alerts.ts";
+import { createNotificationTransports } from "../_shared/notification-transport.ts";
+
+/**
+ * CORS headers for development
+ */
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-correlation-id",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/**
+ * Main Edge Function handler
+ *
+ * @param req - Incoming HTTP request
+ * @returns HTTP response with delivery counts
+ */
+async function handler(req: Request): Promise<Response> {
+  const correlationId = correlationIdFromRequest(req);
+
+  const logger = new Logger({
+    minLevel: LogLevel.INFO,
+    correlationId,
+    source: "deliver-notifications",
+  });
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: CORS_HEADERS,
+    });
+  }
+
+  if (req.method !== "POST") {
+    const errorResponse = createErrorResponse({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: `Method ${req.method} not allowed. Use POST.`,
+      correlationId,
+    });
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 405,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+        "Allow": "POST, OPTIONS",
+      },
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_LOCAL_URL") || Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_LOCAL_SERVICE_ROLE_KEY") ||
+                                  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    logger.error("Missing Supabase credentials", undefined, {
+      hasUrl: !!supabaseUrl,
+      hasServiceKey: !!supabaseServiceRoleKey,
+    });
+
+    const errorResponse = createErrorResponse({
+      code: ErrorCode.INTERNAL_SERVER_ERROR,
+      message: "Database configuration error",
+      correlationId,
+    });
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    const transports = createNotificationTransports((name) => Deno.env.get(name), logger);
+
+    const result = await deliverPendingNotifications(supabase, transports, logger);
+
+    return new Response(JSON.stringify({
+      success: true,
+      ...result,
+      correlation_id: correlationId,
+    }), {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    logger.error("Notification delivery failed", error instanceof Error ? error : undefined, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    const errorResponse = createErrorResponse({
+      code: ErrorCode.INTERNAL_SERVER_ERROR,
+      message: "Failed to deliver notifications",
+      correlationId,
+    });
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+}
+
+configureLoggingFromEnv();
+Deno.serve(withRequestTracing(handler));
@@ -0,0 +1,143 @@
+/**
+ * Health Check Edge Function (T073)
+ *
+ * GET /health
+ *
+ * Probes the database, reports the shared PA-API circuit breaker (state from
+ * the circuit_breakers table, metrics from this isolate), PA-API credentials and
+ * recent refresh failures, and the refresh backlog. See _shared/health.ts for
+ * the thresholds and how components roll up.
+ *
+ * Response (HealthCheckResponse):
+ * {
+ *   "status": "healthy" | "degraded" | "unhealthy",
+ *   "timestamp": "2025-12-01T12:00:00.000Z",
+ *   "components": {
+ *     "database": { "status": "up", "details": { "latency_ms": 12 } },
+ *     "paapi": { "status": "up", "details": { "credentials_configured": true, ... } },
+ *     "circuit_breaker": { "status": "up", "details": { "state": "CLOSED", "metrics": { ... } } },
+ *     "refresh": { "status": "degraded", "message": "No successful refresh for 2 hours", "details": { ... } }
+ *   },
+ *   "correlation_id": "uuid"
+ * }
+ *
+ * Status codes: 200 (healthy, degraded), 503 (unhealthy)
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+import { correlationIdFromRequest, Logger, LogLevel, withRequestTracing } from "../_shared/logger.ts";
+import { configureLoggingFromEnv } from "../_shared/log-sinks.ts";
+import { createErrorResponse, ErrorCode } from "../_shared/errors.ts";
+import { getPaapiCircuitBreaker } from "../_shared/paapi-client.ts";
+import { usePersistentPaapiCircuitBreaker } from "../_shared/circuit-breaker-store.ts";
+import { healthStatusCode, runHealthChecks } from "../_shared/health.ts";
+
+/**
+ * CORS headers for development
+ */
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-correlation-id",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+};
+
+/**
+ * Main Edge Function handler
+ *
+ * @param req - Incoming HTTP request
+ * @returns HTTP response with the health report
+ */
+async function handler(req: Request): Promise<Response> {
+  const correlationId = correlationIdFromRequest(req);
+
+  const logger = new Logger({
+    minLevel: LogLevel.INFO,
+    correlationId,
+    source: "health",
+  });
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: CORS_HEADERS,
+    });
+  }
+
+  if (req.method !== "GET") {
+    const errorResponse = createErrorResponse({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: `Method ${req.method} not allowed. Use GET.`,
+      correlationId,
+    });
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 405,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+        "Allow": "GET, OPTIONS",
+      },
+    });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_LOCAL_URL") || Deno.env.get("SUPABASE_URL");
+  const supabaseServiceRoleKey = Deno.env.get("SUPABASE_LOCAL_SERVICE_ROLE_KEY") ||
+                                  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    logger.error("Missing Supabase credentials", undefined, {
+      hasUrl: !!supabaseUrl,
+      hasServiceKey: !!supabaseServiceRoleKey,
+    });
+
+    const errorResponse = createErrorResponse({
+      code: ErrorCode.INTERNAL_SERVER_ERROR,
+      message: "Database configuration error",
+      correlationId,
+    });
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 503,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+
+  // Store errors are logged by the breaker, which then reports its local state
+  const breakerState = await usePersistentPaapiCircuitBreaker(supabase);
+  const health = await runHealthChecks(
+    supabase,
+    { state: breakerState, metrics: getPaapiCircuitBreaker().getMetrics() },
+    !!Deno.env.get("PAAPI_ACCESS_KEY") && !!Deno.env.get("PAAPI_SECRET_KEY"),
+  );
+
+  if (health.status !== "healthy") {
+    logger.warn("Health check not healthy", {
+      status: health.status,
+      components: Object.fromEntries(
+        Object.entries(health.components).map(([name, component]) => [name, component.status]),
+      ),
+    });
+  }
+
+  return new Response(JSON.stringify({
+    ...health,
+    correlation_id: correlationId,
+  }), {
+    status: healthStatusCode(health.status),
+    headers: {
+      ...CORS_HEADERS,
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+configureLoggingFromEnv();
+Deno.serve(withRequestTracing(handler));
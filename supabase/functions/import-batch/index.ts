@@ -0,0 +1,635 @@
+/**
+ * Import Batch Edge Function
+ *
+ * POST /import-batch
+ *
+ * Imports the pending rows of bulk ASIN imports (import_batches / import_batch_rows)
+ * from Amazon PA-API. Called by the admin API right after a batch is submitted or
+ * retried, and by a cron job every minute to pick up anything left pending.
+ *
+ * Request Body (optional):
+ * {
+ *   "batch_id": "uuid"   // Only process rows of this batch
+ * }
+ *
+ * Response (Success):
+ * {
+ *   "success": true,
+ *   "metrics": {
+ *     "processed": 25,
+ *     "imported": 20,
+ *     "duplicate": 2,
+ *     "not_accessible": 1,
+ *     "invalid_asin": 1,
+ *     "failed": 1,
+ *     "deferred": 0,
+ *     "duration_ms": 5432
+ *   },
+ *   "message": "Processed 25 rows",
+ *   "correlation_id": "uuid"
+ * }
+ *
+ * Response (Error):
+ * {
+ *   "success": false,
+ *   "error": {
+ *     "code": "INTERNAL_ERROR",
+ *     "message": "Error message",
+ *     "details": {}
+ *   },
+ *   "correlation_id": "uuid"
+ * }
+ *
+ * Constitution Compliance:
+ * - Performance: One GetItems call per marketplace per 10 ASINs, at most 100 rows per run
+ * - Observability: Structured logging, correlation IDs, per-row outcomes in the database
+ * - Reliability: Circuit breaker integration (rows stay pending while open), import
+ *   priority on the shared PA-API rate limiter (rows stay pending once the import
+ *   share of the daily quota is used), retry with exponential backoff, row claims
+ *   so overlapping runs don't import twice
+ * - Code Quality: <50 lines per function, JSDoc comments
+ */
+
+// Import Supabase client
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+// Import shared utilities
+import { correlationIdFromRequest, Logger, LogLevel, withRequestTracing } from "../_shared/logger.ts";
+import { configureLoggingFromEnv } from "../_shared/log-sinks.ts";
+import { createErrorResponse, ErrorCode } from "../_shared/errors.ts";
+import { PaapiClient, getPaapiCircuitBreaker, getPaapiRateLimiter } from "../_shared/paapi-client.ts";
+import { usePersistentPaapiCircuitBreaker } from "../_shared/circuit-breaker-store.ts";
+import { CircuitOpenError } from "../_shared/circuit-breaker.ts";
+import { RateLimitError } from "../_shared/rate-limiter.ts";
+import { usePersistentPaapiRateLimiter } from "../_shared/rate-limit-store.ts";
+import { chunk, groupBy, matchGetItemsResults, PAAPI_MAX_ITEM_IDS } from "../_shared/paapi-batch.ts";
+import { createMarketplaceClient, fetchBatchWithRetry } from "../_shared/paapi-items.ts";
+import {
+  buildImportedProduct,
+  outcomeForMissingItem,
+  outcomeForRequestError,
+  type ImportRowStatus,
+} from "../_shared/import-rows.ts";
+import { MARKETPLACE_SETTINGS_COLUMNS, type MarketplaceSettings } from "../_shared/marketplaces.ts";
+import { recordPriceChange } from "../_shared/price-history.ts";
+import { cacheInvalidationConfigFromEnv, invalidateCatalogCache } from "../_shared/cache-invalidation.ts";
+import type { PaapiItem } from "../_shared/types.ts";
+
+/**
+ * CORS headers for development
+ */
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-correlation-id",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+/**
+ * Maximum rows processed per run (10 GetItems calls)
+ */
+const MAX_ROWS_PER_RUN = 100;
+
+/**
+ * Claims older than this are considered abandoned (e.g. run timed out)
+ */
+const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Import worker metrics
+ */
+interface ImportMetrics {
+  processed: number;
+  imported: number;
+  duplicate: number;
+  not_accessible: number;
+  invalid_asin: number;
+  failed: number;
+  deferred: number;
+  duration_ms: number;
+}
+
+/**
+ * Pending import row from database
+ */
+interface PendingRow {
+  id: string;
+  batch_id: string;
+  asin: string;
+  marketplace_id: string;
+  product_type: string | null;
+  group_id: string | null;
+  attempts: number;
+  marketplace?: MarketplaceSettings;
+}
+
+/**
+ * Claim up to MAX_ROWS_PER_RUN pending rows for this run
+ *
+ * Rows are claimed with a conditional update on locked_at, so a row selected by
+ * two overlapping runs is only returned to the run whose update wins.
+ *
+ * @param supabase - Service role client
+ * @param batchId - Optional batch to restrict to
+ * @returns Claimed rows, oldest first
+ */
+async function claimPendingRows(supabase: SupabaseClient, batchId: string | null): Promise<PendingRow[]> {
+  const staleBefore = new Date(Date.now() - CLAIM_TIMEOUT_MS).toISOString();
+  const claimable = `locked_at.is.null,locked_at.lt.${staleBefore}`;
+
+  let query = supabase
+    .from("import_batch_rows")
+    .select("id")
+    .eq("status", "pending")
+    .or(claimable)
+    .order("created_at", { ascending: true })
+    .order("row_number", { ascending: true })
+    .limit(MAX_ROWS_PER_RUN);
+
+  if (batchId) {
+    query = query.eq("batch_id", batchId);
+  }
+
+  const { data: candidates, error: selectError } = await query;
+
+  if (selectError) {
+    throw new Error(`Failed to select pending rows: ${selectError.message}`);
+  }
+
+  if (!candidates || candidates.length === 0) {
+    return [];
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("import_batch_rows")
+    .update({ locked_at: new Date().toISOString() })
+    .in("id", candidates.map((row) => row.id))
+    .eq("status", "pending")
+    .or(claimable)
+    .select(`id, batch_id, asin, marketplace_id, product_type, group_id, attempts, marketplace:marketplaces(${MARKETPLACE_SETTINGS_COLUMNS})`);
+
+  if (claimError) {
+    throw new Error(`Failed to claim pending rows: ${claimError.message}`);
+  }
+
+  return (claimed || []) as unknown as PendingRow[];
+}
+
+/**
+ * Record the final status of a row and release its claim
+ */
+async function settleRow(
+  supabase: SupabaseClient,
+  row: PendingRow,
+  status: Exclude<ImportRowStatus, "pending">,
+  details: { error_message?: string | null; product_id?: string | null },
+  metrics: ImportMetrics,
+  attempted = true,
+): Promise<void> {
+  await supabase
+    .from("import_batch_rows")
+    .update({
+      status,
+      error_message: details.error_message ?? null,
+      product_id: details.product_id ?? null,
+      attempts: attempted ? row.attempts + 1 : row.attempts,
+      locked_at: null,
+      processed_at: new Date().toISOString(),
+    })
+    .eq("id", row.id);
+
+  metrics[status]++;
+}
+
+/**
+ * Release the claim of rows that stay pending (circuit breaker open or PA-API budget used)
+ */
+async function deferRows(supabase: SupabaseClient, rows: PendingRow[], metrics: ImportMetrics): Promise<void> {
+  await supabase
+    .from("import_batch_rows")
+    .update({ locked_at: null })
+    .in("id", rows.map((row) => row.id));
+
+  metrics.deferred += rows.length;
+}
+
+/**
+ * Mark rows whose ASIN already exists in their marketplace as duplicates
+ *
+ * @returns Rows that still need to be imported
+ */
+async function settleExistingProducts(
+  supabase: SupabaseClient,
+  marketplaceId: string,
+  rows: PendingRow[],
+  metrics: ImportMetrics,
+): Promise<PendingRow[]> {
+  const { data: existing, error } = await supabase
+    .from("products")
+    .select("id, asin")
+    .eq("marketplace_id", marketplaceId)
+    .in("asin", [...new Set(rows.map((row) => row.asin))]);
+
+  if (error) {
+    throw new Error(`Failed to look up existing products: ${error.message}`);
+  }
+
+  const existingIds = new Map((existing || []).map((product) => [product.asin as string, product.id as string]));
+  const remaining: PendingRow[] = [];
+
+  for (const row of rows) {
+    const productId = existingIds.get(row.asin);
+
+    if (productId) {
+      await settleRow(supabase, row, "duplicate", {
+        error_message: "Product already exists in this marketplace",
+        product_id: productId,
+      }, metrics, false);
+    } else {
+      remaining.push(row);
+    }
+  }
+
+  return remaining;
+}
+
+/**
+ * Insert the product for a row found by GetItems
+ *
+ * A unique violation means another row (or a single import) created the same
+ * ASIN in the meantime, which settles the row as a duplicate.
+ */
+async function importRow(
+  supabase: SupabaseClient,
+  row: PendingRow,
+  item: PaapiItem,
+  logger: Logger,
+  metrics: ImportMetrics,
+): Promise<void> {
+  const productData = buildImportedProduct(item, row, new Date().toISOString());
+
+  const { data: product, error } = await supabase
+    .from("products")
+    .insert(productData)
+    .select("id")
+    .single();
+
+  if (error?.code === "23505") {
+    const { data: existing } = await supabase
+      .from("products")
+      .select("id")
+      .eq("asin", row.asin)
+      .eq("marketplace_id", row.marketplace_id)
+      .maybeSingle();
+
+    await settleRow(supabase, row, "duplicate", {
+      error_message: "Product already exists in this marketplace",
+      product_id: existing?.id ?? null,
+    }, metrics);
+    return;
+  }
+
+  if (error || !product) {
+    throw new Error(`Failed to insert product: ${error?.message || "no data returned"}`);
+  }
+
+  await recordPriceChange(supabase, product.id, {
+    current_price: productData.current_price,
+    original_price: productData.original_price,
+    savings_percentage: productData.savings_percentage,
+    currency: productData.currency,
+    availability_type: productData.availability_type,
+  }, "import", logger);
+
+  await settleRow(supabase, row, "imported", { product_id: product.id }, metrics);
+}
+
+/**
+ * Import up to 10 ASINs of one marketplace with a single GetItems call
+ *
+ * @param supabase - Service role client
+ * @param client - PA-API client for the batch's marketplace
+ * @param rows - Rows in the batch (an ASIN may appear in rows of several batches)
+ * @param logger - Worker logger
+ * @param metrics - Worker metrics (updated in place)
+ */
+async function importChunk(
+  supabase: SupabaseClient,
+  client: PaapiClient,
+  rows: PendingRow[],
+  logger: Logger,
+  metrics: ImportMetrics,
+): Promise<void> {
+  const asins = [...new Set(rows.map((row) => row.asin))];
+
+  const circuitBreaker = getPaapiCircuitBreaker();
+  await circuitBreaker.loadState();
+
+  if (!circuitBreaker.isRequestAllowed()) {
+    logger.warn("Circuit breaker is OPEN, leaving rows pending", { asins });
+    await deferRows(supabase, rows, metrics);
+    return;
+  }
+
+  // Yield to admin searches once the import share of the daily quota is used
+  if (!(await getPaapiRateLimiter().hasBudget("import"))) {
+    logger.warn("PA-API quota left for admin searches, leaving rows pending", { asins });
+    await deferRows(supabase, rows, metrics);
+    return;
+  }
+
+  const result = await fetchBatchWithRetry(client, asins, logger);
+
+  if (!result.ok) {
+    if (result.error instanceof CircuitOpenError) {
+      logger.warn("Circuit breaker opened during retry, leaving rows pending", { asins });
+      await deferRows(supabase, rows, metrics);
+      return;
+    }
+
+    if (result.error instanceof RateLimitError) {
+      logger.warn("PA-API rate limit reached, leaving rows pending", { asins, reason: result.error.reason });
+      await deferRows(supabase, rows, metrics);
+      return;
+    }
+
+    const outcome = outcomeForRequestError(result.error);
+    logger.warn("GetItems request failed", { asins, status: outcome.status, error: outcome.error_message });
+
+    for (const row of rows) {
+      await settleRow(supabase, row, outcome.status, { error_message: outcome.error_message }, metrics);
+    }
+    return;
+  }
+
+  const results = matchGetItemsResults(asins, result.response);
+
+  for (const row of rows) {
+    const match = results.get(row.asin);
+
+    try {
+      if (match?.status === "found") {
+        await importRow(supabase, row, match.item, logger, metrics);
+      } else {
+        const outcome = outcomeForMissingItem(match);
+        await settleRow(supabase, row, outcome.status, { error_message: outcome.error_message }, metrics);
+      }
+    } catch (error) {
+      logger.error("Failed to import row", error instanceof Error ? error : undefined, {
+        row_id: row.id,
+        asin: row.asin,
+      });
+
+      await settleRow(supabase, row, "failed", {
+        error_message: error instanceof Error ? error.message : String(error),
+      }, metrics);
+    }
+  }
+}
+
+/**
+ * Import claimed rows of one marketplace: duplicates first, then GetItems in chunks of 10
+ */
+async function importMarketplaceRows(
+  supabase: SupabaseClient,
+  rows: PendingRow[],
+  logger: Logger,
+  metrics: ImportMetrics,
+): Promise<void> {
+  const [first] = rows;
+
+  if (!first) {
+    return;
+  }
+
+  const remaining = await settleExistingProducts(supabase, first.marketplace_id, rows, metrics);
+
+  if (remaining.length === 0) {
+    return;
+  }
+
+  let paapiClient: PaapiClient;
+
+  try {
+    if (!first.marketplace) {
+      throw new Error("Marketplace settings not found");
+    }
+    paapiClient = createMarketplaceClient(first.marketplace, "import");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    for (const row of remaining) {
+      await settleRow(supabase, row, "failed", { error_message: message }, metrics, false);
+    }
+    return;
+  }
+
+  // Rows sharing an ASIN stay in the same chunk so it is requested once
+  const byAsin = [...groupBy(remaining, (row) => row.asin).values()];
+
+  for (const asinGroups of chunk(byAsin, PAAPI_MAX_ITEM_IDS)) {
+    await importChunk(supabase, paapiClient, asinGroups.flat(), logger, metrics);
+  }
+}
+
+/**
+ * Mark batches as processing, and as completed once none of their rows is pending
+ */
+async function updateBatchStatuses(supabase: SupabaseClient, batchIds: string[]): Promise<void> {
+  if (batchIds.length === 0) {
+    return;
+  }
+
+  const now = new Date().toISOString();
+
+  await supabase
+    .from("import_batches")
+    .update({ status: "processing", started_at: now })
+    .in("id", batchIds)
+    .eq("status", "pending");
+
+  for (const batchId of batchIds) {
+    const { count } = await supabase
+      .from("import_batch_rows")
+      .select("id", { count: "exact", head: true })
+      .eq("batch_id", batchId)
+      .eq("status", "pending");
+
+    if (count === 0) {
+      await supabase
+        .from("import_batches")
+        .update({ status: "completed", completed_at: now })
+        .eq("id", batchId);
+    }
+  }
+}
+
+/**
+ * Main Edge Function handler
+ *
+ * Handles:
+ * - OPTIONS requests (CORS preflight)
+ * - POST requests (import pending rows)
+ *
+ * @param req - Incoming HTTP request
+ * @returns HTTP response with metrics
+ */
+async function handler(req: Request): Promise<Response> {
+  const correlationId = correlationIdFromRequest(req);
+  const logger = new Logger({
+    minLevel: LogLevel.INFO,
+    correlationId,
+    source: "import-batch",
+  });
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: CORS_HEADERS,
+    });
+  }
+
+  if (req.method !== "POST") {
+    logger.warn("Method not allowed", { method: req.method });
+
+    const errorResponse = createErrorResponse({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: `Method ${req.method} not allowed. Use POST.`,
+      correlationId,
+    });
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 405,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+        "Allow": "POST, OPTIONS",
+      },
+    });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const batchId = typeof body?.batch_id === "string" ? body.batch_id : null;
+
+    logger.info("Import batch execution started", { batch_id: batchId });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      logger.error("Missing Supabase configuration", undefined, {
+        hasUrl: !!supabaseUrl,
+        hasServiceRoleKey: !!supabaseServiceRoleKey,
+      });
+
+      const errorResponse = createErrorResponse({
+        code: ErrorCode.INTERNAL_SERVER_ERROR,
+        message: "Missing Supabase configuration",
+        correlationId,
+      });
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: {
+          ...CORS_HEADERS,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    await usePersistentPaapiCircuitBreaker(supabase);
+    usePersistentPaapiRateLimiter(supabase);
+
+    const metrics: ImportMetrics = {
+      processed: 0,
+      imported: 0,
+      duplicate: 0,
+      not_accessible: 0,
+      invalid_asin: 0,
+      failed: 0,
+      deferred: 0,
+      duration_ms: 0,
+    };
+
+    const rows = await claimPendingRows(supabase, batchId);
+    metrics.processed = rows.length;
+
+    // One PA-API client per marketplace, one GetItems call per 10 ASINs
+    const marketplaceGroups = groupBy(rows, (row) => row.marketplace_id);
+
+    for (const marketplaceRows of marketplaceGroups.values()) {
+      await importMarketplaceRows(supabase, marketplaceRows, logger, metrics);
+    }
+
+    const batchIds = [...new Set(rows.map((row) => row.batch_id))];
+    if (batchId && !batchIds.includes(batchId)) {
+      batchIds.push(batchId);
+    }
+    await updateBatchStatuses(supabase, batchIds);
+
+    // New products only show up in the store's listings once its cache is dropped
+    if (metrics.imported > 0) {
+      await invalidateCatalogCache(cacheInvalidationConfigFromEnv((name) => Deno.env.get(name)), logger);
+    }
+
+    metrics.duration_ms = Date.now() - startTime;
+
+    logger.info("Import batch execution completed", {
+      metrics,
+      batch_ids: batchIds,
+      circuit_state: getPaapiCircuitBreaker().getState().state,
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      metrics,
+      message: rows.length > 0 ? `Processed ${rows.length} rows` : "No pending rows",
+      correlation_id: correlationId,
+    }), {
+      status: 200,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      },
+    });
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+
+    logger.error(
+      "Unexpected error in import-batch function",
+      error instanceof Error ? error : undefined,
+      {
+        errorDetails: error instanceof Error ? error.message : String(error),
+        duration_ms: duration,
+      }
+    );
+
+    const errorResponse = {
+      success: false,
+      error: {
+        code: ErrorCode.INTERNAL_SERVER_ERROR,
+        message: error instanceof Error ? error.message : "Unknown error",
+        details: {
+          stack: error instanceof Error ? error.stack : undefined,
+        },
+      },
+      correlation_id: correlationId,
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+}
+
+// Deno Deploy expects a default export
+configureLoggingFromEnv();
+Deno.serve(withRequestTracing(handler));
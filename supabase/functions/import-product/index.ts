@@ -44,11 +44,17 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 
 // Import shared utilities
-import { Logger, generateCorrelationId, LogLevel } from "../_shared/logger.ts";
+import { correlationIdFromRequest, Logger, LogLevel, withRequestTracing } from "../_shared/logger.ts";
+import { configureLoggingFromEnv } from "../_shared/log-sinks.ts";
 import { createErrorResponse, ErrorCode } from "../_shared/errors.ts";
 import { validateImportRequest } from "../_shared/validation.ts";
 import { PaapiClient, PaapiClientError, type PaapiConfig } from "../_shared/paapi-client.ts";
 import { CircuitOpenError } from "../_shared/circuit-breaker.ts";
+import { recordPriceChange } from "../_shared/price-history.ts";
+import { getMarketplaceSettings, getPaapiBaseEndpoint, getPartnerTag } from "../_shared/marketplaces.ts";
+import { usePersistentPaapiCircuitBreaker } from "../_shared/circuit-breaker-store.ts";
+import { usePersistentPaapiRateLimiter } from "../_shared/rate-limit-store.ts";
+import { RateLimitError } from "../_shared/rate-limiter.ts";
 
 // Suppress unused import warnings - all imports now in use
 // (removed void createClient as it's now being used in T032)
@@ -60,7 +66,7 @@ import { CircuitOpenError } from "../_shared/circuit-breaker.ts";
  */
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-correlation-id",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
@@ -75,13 +81,14 @@ const CORS_HEADERS = {
  * @returns HTTP response
  */
 async function handler(req: Request): Promise<Response> {
-  // Generate correlation ID for request tracing
-  const correlationId = generateCorrelationId();
+  // Correlation ID sent by the caller (or a new one) for request tracing
+  const correlationId = correlationIdFromRequest(req);
   
   // Initialize logger with correlation ID
   const logger = new Logger({
     minLevel: LogLevel.INFO,
     correlationId,
+    source: "import-product",
   });
 
   // Handle CORS preflight
@@ -181,20 +188,70 @@ async function handler(req: Request): Promise<Response> {
       correlation_id: correlationId,
     });
 
+    // Initialize Supabase client with service role key (bypasses RLS)
+    // Prioritize LOCAL credentials for development
+    const supabaseUrl = Deno.env.get("SUPABASE_LOCAL_URL") || Deno.env.get("SUPABASE_URL");
+    const supabaseServiceRoleKey = Deno.env.get("SUPABASE_LOCAL_SERVICE_ROLE_KEY") || 
+                                    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      logger.error("Missing Supabase credentials", undefined, {
+        hasUrl: !!supabaseUrl,
+        hasServiceKey: !!supabaseServiceRoleKey,
+      });
+
+      const errorResponse = createErrorResponse({
+        code: ErrorCode.INTERNAL_SERVER_ERROR,
+        message: "Database configuration error",
+        correlationId,
+        details: { error: "Missing Supabase credentials" },
+      });
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: {
+          ...CORS_HEADERS,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    await usePersistentPaapiCircuitBreaker(supabase);
+    usePersistentPaapiRateLimiter(supabase);
+
+    // Marketplace host, region, endpoint and partner tag come from the marketplaces table
+    const marketplaceSettings = await getMarketplaceSettings(supabase, marketplace);
+
+    if (!marketplaceSettings) {
+      logger.warn("Marketplace not found or inactive", { marketplace });
+
+      const errorResponse = createErrorResponse({
+        code: ErrorCode.MARKETPLACE_NOT_FOUND,
+        message: `Marketplace '${marketplace}' not found`,
+        correlationId,
+        details: { marketplace },
+      });
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: {
+          ...CORS_HEADERS,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
     // T030: PA-API data fetching
     // Initialize PaapiClient with credentials from environment
     const paapiAccessKey = Deno.env.get("PAAPI_ACCESS_KEY");
     const paapiSecretKey = Deno.env.get("PAAPI_SECRET_KEY");
-    const paapiPartnerTag = Deno.env.get(`PAAPI_PARTNER_TAG_${marketplace}`);
-    const paapiEndpoint = Deno.env.get(`PAAPI_ENDPOINT_${marketplace}`);
 
     // Validate PA-API credentials are present
-    if (!paapiAccessKey || !paapiSecretKey || !paapiPartnerTag || !paapiEndpoint) {
+    if (!paapiAccessKey || !paapiSecretKey) {
       logger.error("Missing PA-API credentials", undefined, {
         hasAccessKey: !!paapiAccessKey,
         hasSecretKey: !!paapiSecretKey,
-        hasPartnerTag: !!paapiPartnerTag,
-        hasEndpoint: !!paapiEndpoint,
         marketplace,
       });
 
@@ -214,27 +271,15 @@ async function handler(req: Request): Promise<Response> {
       });
     }
 
-    // Determine region from marketplace
-    const regionMap: Record<string, string> = {
-      "US": "us-east-1",
-      "DE": "eu-west-1",
-    };
-    const region = regionMap[marketplace] || "us-east-1";
-
-    // Map marketplace code to actual Amazon marketplace domain
-    const marketplaceDomainMap: Record<string, string> = {
-      "US": "www.amazon.com",
-      "DE": "www.amazon.de",
-    };
-    const marketplaceDomain = marketplaceDomainMap[marketplace] || "www.amazon.com";
-
     // Initialize PA-API client
     const paapiConfig: PaapiConfig = {
       accessKey: paapiAccessKey,
       secretKey: paapiSecretKey,
-      partnerTag: paapiPartnerTag,
-      marketplace: marketplaceDomain, // Use domain, not endpoint
-      region,
+      partnerTag: getPartnerTag(marketplaceSettings),
+      marketplace: marketplaceSettings.host, // Use domain, not endpoint
+      region: marketplaceSettings.paapi_region,
+      endpoint: getPaapiBaseEndpoint(marketplaceSettings.paapi_endpoint),
+      priority: "import",
     };
 
     const paapiClient = new PaapiClient(paapiConfig);
@@ -569,66 +614,7 @@ async function handler(req: Request): Promise<Response> {
       //
       logger.info("Upserting product to database", { asin, marketplace });
 
-      // Initialize Supabase client with service role key (bypasses RLS)
-      // Prioritize LOCAL credentials for development
-      const supabaseUrl = Deno.env.get("SUPABASE_LOCAL_URL") || Deno.env.get("SUPABASE_URL");
-      const supabaseServiceRoleKey = Deno.env.get("SUPABASE_LOCAL_SERVICE_ROLE_KEY") || 
-                                      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-
-      if (!supabaseUrl || !supabaseServiceRoleKey) {
-        logger.error("Missing Supabase credentials", undefined, {
-          hasUrl: !!supabaseUrl,
-          hasServiceKey: !!supabaseServiceRoleKey,
-        });
-
-        const errorResponse = createErrorResponse({
-          code: ErrorCode.INTERNAL_SERVER_ERROR,
-          message: "Database configuration error",
-          correlationId,
-          details: { error: "Missing Supabase credentials" },
-        });
-
-        return new Response(JSON.stringify(errorResponse), {
-          status: 500,
-          headers: {
-            ...CORS_HEADERS,
-            "Content-Type": "application/json",
-          },
-        });
-      }
-
-      const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
-
-      // Get marketplace_id from marketplace code
-      const { data: marketplaceData, error: marketplaceError } = await supabase
-        .from("marketplaces")
-        .select("id")
-        .eq("code", marketplace)
-        .single();
-
-      if (marketplaceError || !marketplaceData) {
-        logger.error("Failed to find marketplace", undefined, {
-          marketplace,
-          error: marketplaceError?.message,
-        });
-
-        const errorResponse = createErrorResponse({
-          code: ErrorCode.MARKETPLACE_NOT_FOUND,
-          message: `Marketplace '${marketplace}' not found`,
-          correlationId,
-          details: { marketplace, error: marketplaceError?.message },
-        });
-
-        return new Response(JSON.stringify(errorResponse), {
-          status: 400,
-          headers: {
-            ...CORS_HEADERS,
-            "Content-Type": "application/json",
-          },
-        });
-      }
-
-      const marketplaceId = marketplaceData.id;
+      const marketplaceId = marketplaceSettings.id;
 
       // Prepare product data for upsert
       const productData = {
@@ -731,6 +717,15 @@ async function handler(req: Request): Promise<Response> {
         correlation_id: correlationId,
       });
 
+      // Record the imported price (first import, or a re-import that changed it)
+      await recordPriceChange(supabase, product.id, {
+        current_price: currentPrice,
+        original_price: originalPrice,
+        savings_percentage: savingsPercentage,
+        currency,
+        availability_type: availabilityType,
+      }, "import", logger);
+
       // Determine if this was an INSERT or UPDATE
       // If created_at and updated_at are identical (down to microseconds), it was an INSERT
       // Otherwise, it was an UPDATE (trigger updates updated_at)
@@ -797,6 +792,39 @@ async function handler(req: Request): Promise<Response> {
         });
       }
 
+      // Handle RateLimitError - request rate or daily quota of the PA-API account used
+      if (error instanceof RateLimitError) {
+        logger.warn("PA-API request blocked by rate limiter", {
+          asin,
+          duration_ms: paapiDuration,
+          reason: error.reason,
+          retryAfter: error.retryAfter,
+          correlation_id: correlationId,
+        });
+
+        const errorResponse = createErrorResponse({
+          code: ErrorCode.RATE_LIMIT_EXCEEDED,
+          message: error.reason === "quota"
+            ? "Daily PA-API request quota used. Please try again tomorrow."
+            : "Too many PA-API requests. Please try again in a few seconds.",
+          correlationId,
+          details: {
+            reason: error.reason,
+            retryAfterMs: error.retryAfter,
+            retryAfterSeconds: Math.ceil(error.retryAfter / 1000),
+          },
+        });
+
+        return new Response(JSON.stringify(errorResponse), {
+          status: 429, // Too Many Requests
+          headers: {
+            ...CORS_HEADERS,
+            "Content-Type": "application/json",
+            "Retry-After": String(Math.ceil(error.retryAfter / 1000)), // Seconds
+          },
+        });
+      }
+
       // T034: Log PA-API errors with full error details and stack trace
       // Handle PA-API client errors
       if (error instanceof PaapiClientError) {
@@ -914,4 +942,5 @@ async function handler(req: Request): Promise<Response> {
 }
 
 // Serve the function using Deno.serve
-Deno.serve(handler);
+configureLoggingFromEnv();
+Deno.serve(withRequestTracing(handler));
@@ -0,0 +1,261 @@
+/**
+ * Worker-level tests for batched refreshes
+ *
+ * Runs the refresh-worker handler against one local server that plays both
+ * Supabase (a minimal PostgREST stand-in recording every write) and PA-API
+ * (the fake server from _shared/fake-paapi.ts), to verify:
+ * - Products of one marketplace go out as a single GetItems call
+ * - Each marketplace gets its own GetItems call
+ * - Items are fanned back out to the products they belong to
+ * - ASINs listed in a partial Errors result are the only ones marked unavailable
+ *
+ * Run tests: deno test supabase/functions/refresh-worker/__tests__/batching.test.ts --allow-net --allow-env
+ */
+
+import { assert, assertEquals, assertExists } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { afterAll, beforeAll, beforeEach, describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+
+import handler from "../index.ts";
+import { FakePaapi } from "../../_shared/fake-paapi.ts";
+import { getPaapiCircuitBreaker } from "../../_shared/paapi-client.ts";
+import type { PaapiItem } from "../../_shared/types.ts";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const ACCESS_KEY = "FAKE_ACCESS_KEY";
+const LAST_REFRESH_AT = "2025-11-27T08:00:00.000Z";
+
+const US = {
+  id: "marketplace-us",
+  code: "US",
+  currency: "USD",
+  host: "www.amazon.com",
+  paapi_region: "us-east-1",
+  paapi_endpoint: "https://webservices.amazon.com/paapi5/getitems",
+  associate_tag: "espboards-20",
+  locale: "en_US",
+};
+
+const DE = {
+  id: "marketplace-de",
+  code: "DE",
+  currency: "EUR",
+  host: "www.amazon.de",
+  paapi_region: "eu-west-1",
+  paapi_endpoint: "https://webservices.amazon.de/paapi5/getitems",
+  associate_tag: "espboards-21",
+  locale: "de_DE",
+};
+
+function createItem(asin: string, title: string, price: number, currency: string): PaapiItem {
+  return {
+    ASIN: asin,
+    DetailPageURL: `https://www.amazon.com/dp/${asin}`,
+    ItemInfo: { Title: { DisplayValue: title } },
+    Offers: {
+      Listings: [{
+        Price: { Amount: price, Currency: currency },
+        Availability: { Type: "Now", Message: "In Stock" },
+      }],
+    },
+  };
+}
+
+function createProduct(id: string, asin: string, marketplace: typeof US) {
+  return {
+    id,
+    asin,
+    marketplace_id: marketplace.id,
+    slug: id,
+    title: null,
+    currency: marketplace.currency,
+    current_price: 19.99,
+    availability_type: "Now",
+    marketplace,
+  };
+}
+
+const ITEMS = [
+  createItem("B08DQQ8CBP", "ESP32-DevKitC-32UE Development Board", 23.99, "USD"),
+  createItem("B07RXPHYNM", "ESP32-CAM WiFi Bluetooth Camera Module", 9.49, "USD"),
+  createItem("B0B6HT6DRF", "ESP32-S3-DevKitC-1 Entwicklungsboard", 17.5, "EUR"),
+];
+
+// B09GK74F7N has no fixture, so the fake lists it in the response Errors
+const PRODUCTS = [
+  createProduct("product-devkit", "B08DQQ8CBP", US),
+  createProduct("product-delisted", "B09GK74F7N", US),
+  createProduct("product-cam", "B07RXPHYNM", US),
+  createProduct("product-s3", "B0B6HT6DRF", DE),
+];
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+interface RecordedWrite {
+  method: string;
+  table: string;
+  query: URLSearchParams;
+  body: Record<string, unknown> | null;
+}
+
+/**
+ * Answer the Supabase REST calls of the worker, recording every write
+ */
+async function handleSupabase(req: Request, writes: RecordedWrite[]): Promise<Response> {
+  const url = new URL(req.url);
+  const table = url.pathname.replace(/^\/rest\/v1\//, "");
+  const single = req.headers.get("accept") === "application/vnd.pgrst.object+json";
+  const text = req.method === "GET" ? "" : await req.text();
+  const body = text ? JSON.parse(text) as Record<string, unknown> : null;
+
+  const json = (data: unknown) =>
+    new Response(JSON.stringify(data), { headers: { "Content-Type": "application/json" } });
+
+  if (table === "rpc/take_rate_limit_token") {
+    return json({ granted: true, reason: null, wait_ms: 0, used_today: 0 });
+  }
+
+  if (req.method === "GET") {
+    if (table === "products") {
+      return single ? json({ last_refresh_at: LAST_REFRESH_AT }) : json(PRODUCTS);
+    }
+    return json([]);
+  }
+
+  writes.push({ method: req.method, table, query: url.searchParams, body });
+
+  if (table === "refresh_jobs" && req.method === "POST") {
+    return json({ id: `job-${body?.["product_id"]}` });
+  }
+
+  return new Response(null, { status: req.method === "POST" ? 201 : 204 });
+}
+
+function productUpdates(writes: RecordedWrite[], productId: string): Record<string, unknown>[] {
+  return writes
+    .filter((write) => write.table === "products" && write.method === "PATCH")
+    .filter((write) => write.query.get("id") === `eq.${productId}`)
+    .map((write) => write.body ?? {});
+}
+
+// ============================================================================
+// TEST SUITE
+// ============================================================================
+
+describe("Refresh Worker - batched GetItems", () => {
+  const fake = new FakePaapi({ items: ITEMS, accessKey: ACCESS_KEY });
+  const ENV_NAMES = ["SUPABASE_URL", "SUPABASE_SERVICE_ROLE_KEY", "PAAPI_ACCESS_KEY", "PAAPI_SECRET_KEY", "PAAPI_ENDPOINT_OVERRIDE"];
+  const savedEnv = new Map<string, string | undefined>();
+
+  let server: Deno.HttpServer<Deno.NetAddr>;
+  let writes: RecordedWrite[] = [];
+  let getItemsCalls: string[][] = [];
+
+  beforeAll(() => {
+    server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+      if (new URL(req.url).pathname.startsWith("/rest/v1/")) {
+        return handleSupabase(req, writes);
+      }
+
+      const body = await req.clone().json().catch(() => ({}));
+      if (Array.isArray(body.ItemIds)) {
+        getItemsCalls.push(body.ItemIds);
+      }
+      return fake.handle(req);
+    });
+
+    const baseUrl = `http://localhost:${server.addr.port}`;
+    for (const name of ENV_NAMES) {
+      savedEnv.set(name, Deno.env.get(name));
+    }
+    Deno.env.set("SUPABASE_URL", baseUrl);
+    Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "test-service-role-key");
+    Deno.env.set("PAAPI_ACCESS_KEY", ACCESS_KEY);
+    Deno.env.set("PAAPI_SECRET_KEY", "FAKE_SECRET_KEY");
+    Deno.env.set("PAAPI_ENDPOINT_OVERRIDE", `${baseUrl}/paapi5`);
+  });
+
+  afterAll(async () => {
+    await server.shutdown();
+
+    for (const [name, value] of savedEnv) {
+      if (value === undefined) {
+        Deno.env.delete(name);
+      } else {
+        Deno.env.set(name, value);
+      }
+    }
+  });
+
+  beforeEach(async () => {
+    writes = [];
+    getItemsCalls = [];
+    fake.setScenario({});
+    await getPaapiCircuitBreaker().forceClose();
+  });
+
+  const runWorker = async () => {
+    const response = await handler(new Request("http://localhost/refresh-worker", { method: "POST" }));
+    assertEquals(response.status, 200);
+    return await response.json();
+  };
+
+  it("should send one GetItems call per marketplace", async () => {
+    const body = await runWorker();
+
+    assertEquals(getItemsCalls.length, 2);
+    assertEquals(fake.getState().requests.GetItems, 2);
+    assertEquals(getItemsCalls[0], ["B08DQQ8CBP", "B09GK74F7N", "B07RXPHYNM"]);
+    assertEquals(getItemsCalls[1], ["B0B6HT6DRF"]);
+    assertEquals(body.metrics.processed, 4);
+    assertEquals(body.metrics.success, 4);
+    assertEquals(body.metrics.failure, 0);
+  });
+
+  it("should save each item to the product it belongs to", async () => {
+    await runWorker();
+
+    const [devkit] = productUpdates(writes, "product-devkit");
+    const [cam] = productUpdates(writes, "product-cam");
+    const [s3] = productUpdates(writes, "product-s3");
+
+    assertExists(devkit);
+    assertExists(cam);
+    assertExists(s3);
+    assertEquals(devkit["title"], "ESP32-DevKitC-32UE Development Board");
+    assertEquals(devkit["current_price"], 23.99);
+    assertEquals(cam["title"], "ESP32-CAM WiFi Bluetooth Camera Module");
+    assertEquals(cam["current_price"], 9.49);
+    assertEquals(s3["current_price"], 17.5);
+  });
+
+  it("should mark only the ASINs listed in Errors unavailable", async () => {
+    await runWorker();
+
+    const unavailable = writes
+      .filter((write) => write.table === "products" && write.body?.["status"] === "unavailable")
+      .map((write) => write.query.get("id"));
+
+    assertEquals(unavailable, ["eq.product-delisted"]);
+
+    const [delisted] = productUpdates(writes, "product-delisted");
+    assertExists(delisted);
+    assertEquals(delisted["availability_type"], null);
+    assertEquals(delisted["last_available_at"], LAST_REFRESH_AT);
+  });
+
+  it("should complete every refresh job as a success", async () => {
+    await runWorker();
+
+    const completed = writes
+      .filter((write) => write.table === "refresh_jobs" && write.body?.["completed_at"])
+      .map((write) => [write.query.get("id"), write.body?.["status"]]);
+
+    assertEquals(completed.length, PRODUCTS.length);
+    assert(completed.every(([, status]) => status === "success"));
+  });
+});
@@ -77,6 +77,10 @@ describe("Refresh Worker Edge Function - Integration Tests (T053)", () => {
         currency: "USD",
         paapi_endpoint: "https://webservices.amazon.com/paapi5/getitems",
         associate_tag: "test-tag-20",
+        host: "www.amazon.com",
+        paapi_region: "us-east-1",
+        locale: "en-US",
+        flag: "🇺🇸",
       })
       .select()
       .single();
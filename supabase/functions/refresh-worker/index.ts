@@ -35,9 +35,14 @@
  * 
  * Constitution Compliance:
  * - TDD: Tests written first (T053), implementation follows (T054-T061)
- * - Performance: Batch size of 10 (rolling updates across 24 hours)
+ * - Performance: Batch size of 10 (rolling updates across 24 hours), fetched with
+ *   one GetItems call per marketplace per 10 ASINs
  * - Observability: Structured logging, correlation IDs, metrics tracking
- * - Reliability: Circuit breaker integration, retry logic with exponential backoff
+ * - Reliability: Circuit breaker integration, retry logic with exponential backoff,
+ *   background priority on the shared PA-API rate limiter (batches are skipped,
+ *   not failed, once the background share of the daily quota is used)
+ * - Freshness: invalidates the store's catalog response cache after a run that
+ *   updated products (SITE_URL + CACHE_INVALIDATION_SECRET)
  * - Code Quality: <50 lines per function, JSDoc comments
  * 
  * User Story 2: Automatic Product Refresh
@@ -55,20 +60,37 @@
  */
 
 // Import Supabase client
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 
 // Import shared utilities
-import { Logger, generateCorrelationId, LogLevel } from "../_shared/logger.ts";
+import { correlationIdFromRequest, Logger, LogLevel, withRequestTracing } from "../_shared/logger.ts";
+import { configureLoggingFromEnv } from "../_shared/log-sinks.ts";
 import { createErrorResponse, ErrorCode } from "../_shared/errors.ts";
-import { PaapiClient, PaapiClientError, getPaapiCircuitBreaker } from "../_shared/paapi-client.ts";
+import { PaapiClient, PaapiClientError, getPaapiCircuitBreaker, getPaapiRateLimiter } from "../_shared/paapi-client.ts";
 import { CircuitOpenError } from "../_shared/circuit-breaker.ts";
+import { CIRCUIT_STATE_COLUMN, usePersistentPaapiCircuitBreaker } from "../_shared/circuit-breaker-store.ts";
+import { RateLimitError } from "../_shared/rate-limiter.ts";
+import { usePersistentPaapiRateLimiter } from "../_shared/rate-limit-store.ts";
+import { chunk, groupBy, matchGetItemsResults, PAAPI_MAX_ITEM_IDS } from "../_shared/paapi-batch.ts";
+import {
+  createMarketplaceClient,
+  extractProductData,
+  fetchBatchWithRetry,
+  isItemNotAccessibleError,
+} from "../_shared/paapi-items.ts";
+import { MARKETPLACE_SETTINGS_COLUMNS, type MarketplaceSettings } from "../_shared/marketplaces.ts";
+import { recordPriceChange } from "../_shared/price-history.ts";
+import { deliverPendingNotifications, queueProductAlerts } from "../_shared/alerts.ts";
+import { createNotificationTransports } from "../_shared/notification-transport.ts";
+import { cacheInvalidationConfigFromEnv, invalidateCatalogCache } from "../_shared/cache-invalidation.ts";
+import type { PaapiItem } from "../_shared/types.ts";
 
 /**
  * CORS headers for development
  */
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-correlation-id",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
@@ -90,12 +112,352 @@ interface ProductToRefresh {
   id: string;
   asin: string;
   marketplace_id: string;
-  marketplace?: {
-    code: string;
-    paapi_endpoint: string;
-  };
+  slug: string | null;
+  title: string | null;
+  currency: string | null;
+  current_price: number | null;
+  availability_type: string | null;
+  marketplace?: MarketplaceSettings;
 }
 
+/**
+ * Refresh job paired with the product it tracks
+ */
+interface RefreshTarget {
+  product: ProductToRefresh;
+  jobId: string;
+}
+
+/**
+ * T056: Create a refresh_job for a product and mark it running
+ *
+ * @returns The refresh_job ID, or null if it could not be created
+ */
+async function startRefreshJob(
+  supabase: SupabaseClient,
+  product: ProductToRefresh,
+  logger: Logger,
+): Promise<string | null> {
+  const { data: refreshJob, error: jobCreateError } = await supabase
+    .from("refresh_jobs")
+    .insert({
+      product_id: product.id,
+      status: "pending",
+      started_at: null,
+      completed_at: null,
+    })
+    .select()
+    .single();
+
+  if (jobCreateError) {
+    logger.error(
+      "Failed to create refresh_job",
+      jobCreateError instanceof Error ? jobCreateError : undefined,
+      { asin: product.asin }
+    );
+    return null;
+  }
+
+  await supabase
+    .from("refresh_jobs")
+    .update({
+      status: "running",
+      started_at: new Date().toISOString(),
+    })
+    .eq("id", refreshJob.id);
+
+  return refreshJob.id;
+}
+
+/**
+ * T060: Record the final status of a refresh_job
+ *
+ * Also records the breaker state at completion (for analytics).
+ */
+async function completeRefreshJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  update: Record<string, unknown>,
+): Promise<void> {
+  await supabase
+    .from("refresh_jobs")
+    .update({
+      circuit_breaker_state: CIRCUIT_STATE_COLUMN[getPaapiCircuitBreaker().getState().state],
+      ...update,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+}
+
+/**
+ * T058: Save refreshed product data, record price changes and queue alerts
+ *
+ * @throws {Error} If the product update fails
+ */
+async function saveRefreshedProduct(
+  supabase: SupabaseClient,
+  product: ProductToRefresh,
+  item: PaapiItem,
+  logger: Logger,
+): Promise<void> {
+  const update = extractProductData(item);
+
+  const { error: updateError } = await supabase
+    .from("products")
+    .update({
+      ...update,
+      last_refresh_at: new Date().toISOString(),
+      // T058: Keep status unchanged during successful refresh
+    })
+    .eq("id", product.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update product: ${updateError.message}`);
+  }
+
+  // Keep the old price: append to price_history when price or availability changed
+  await recordPriceChange(supabase, product.id, {
+    current_price: update.current_price,
+    original_price: update.original_price,
+    savings_percentage: update.savings_percentage,
+    currency: product.currency,
+    availability_type: update.availability_type,
+  }, "refresh", logger);
+
+  // Queue price-drop / back-in-stock alerts (delivered at the end of the run)
+  await queueProductAlerts(
+    supabase,
+    { id: product.id, title: update.title || product.title, slug: product.slug, currency: product.currency },
+    { current_price: product.current_price, availability_type: product.availability_type },
+    { current_price: update.current_price, availability_type: update.availability_type },
+    Deno.env.get("SITE_URL") || "http://localhost:3000/store",
+    logger,
+  );
+}
+
+/**
+ * T059: Set product status to 'unavailable', keeping when it was last seen
+ */
+async function markProductUnavailable(
+  supabase: SupabaseClient,
+  product: ProductToRefresh,
+  logger: Logger,
+): Promise<void> {
+  const { data: currentProduct } = await supabase
+    .from("products")
+    .select("last_refresh_at")
+    .eq("id", product.id)
+    .single();
+
+  await supabase
+    .from("products")
+    .update({
+      status: "unavailable",
+      // Cleared so a back-in-stock alert fires once the item is offered again
+      availability_type: null,
+      availability_message: null,
+      last_available_at: currentProduct?.last_refresh_at,
+      last_refresh_at: new Date().toISOString(),
+    })
+    .eq("id", product.id);
+
+  // Record the availability drop so price charts show the gap
+  await recordPriceChange(supabase, product.id, {
+    current_price: null,
+    original_price: null,
+    savings_percentage: null,
+    currency: product.currency,
+    availability_type: null,
+  }, "refresh", logger);
+
+  logger.info("Product marked as unavailable", {
+    product_id: product.id,
+    asin: product.asin,
+  });
+}
+
+/**
+ * T060: Mark every refresh_job of a batch as failed
+ */
+async function failRefreshTargets(
+  supabase: SupabaseClient,
+  targets: RefreshTarget[],
+  error: Error,
+  retryCount: number,
+  logger: Logger,
+  metrics: RefreshMetrics,
+): Promise<void> {
+  logger.error("Product refresh failed after retries", error, {
+    asins: targets.map(({ product }) => product.asin),
+    retry_count: retryCount,
+  });
+
+  for (const { jobId } of targets) {
+    await completeRefreshJob(supabase, jobId, {
+      status: "failed",
+      error_code: error instanceof PaapiClientError ? error.code : "UNKNOWN_ERROR",
+      error_message: error.message || "Unknown error",
+      retry_count: retryCount,
+    });
+    metrics.failure++;
+  }
+}
+
+/**
+ * Mark every refresh_job of a batch as skipped because PA-API budget is left
+ * for imports and admin searches (the products stay due for the next run)
+ */
+async function skipRateLimitedTargets(
+  supabase: SupabaseClient,
+  targets: RefreshTarget[],
+  reason: string,
+  retryCount: number,
+  metrics: RefreshMetrics,
+): Promise<void> {
+  for (const { jobId } of targets) {
+    await completeRefreshJob(supabase, jobId, {
+      status: "skipped",
+      error_code: ErrorCode.RATE_LIMIT_EXCEEDED,
+      error_message: reason,
+      retry_count: retryCount,
+    });
+    metrics.skipped++;
+  }
+}
+
+/**
+ * T056-T060: Refresh up to 10 products of one marketplace with a single GetItems call
+ *
+ * Results are fanned back out to each product's refresh_job. ASINs listed in the
+ * response Errors (or missing from it) are marked unavailable individually.
+ *
+ * @param supabase - Service role client
+ * @param client - PA-API client for the batch's marketplace
+ * @param targets - Products in the batch with their refresh_job IDs
+ * @param logger - Worker logger
+ * @param metrics - Worker metrics (updated in place)
+ */
+async function refreshBatch(
+  supabase: SupabaseClient,
+  client: PaapiClient,
+  targets: RefreshTarget[],
+  logger: Logger,
+  metrics: RefreshMetrics,
+): Promise<void> {
+  const asins = targets.map(({ product }) => product.asin);
+
+  // T056: Check circuit breaker state
+  const circuitBreaker = getPaapiCircuitBreaker();
+  const circuitState = await circuitBreaker.loadState();
+
+  if (!circuitBreaker.isRequestAllowed()) {
+    logger.warn("Circuit breaker is OPEN, skipping batch refresh", { asins, circuit_state: circuitState });
+
+    for (const { jobId } of targets) {
+      await completeRefreshJob(supabase, jobId, { status: "skipped", circuit_breaker_state: "open" });
+      metrics.skipped++;
+    }
+    return;
+  }
+
+  // Yield to imports and admin searches once the background share of the daily quota is used
+  if (!(await getPaapiRateLimiter().hasBudget("background"))) {
+    logger.warn("PA-API quota left for higher priorities, skipping batch refresh", { asins });
+    await skipRateLimitedTargets(supabase, targets, "Daily PA-API quota for background refreshes used", 0, metrics);
+    return;
+  }
+
+  const result = await fetchBatchWithRetry(client, asins, logger);
+
+  if (!result.ok) {
+    // T056: Circuit breaker opened during retry
+    if (result.error instanceof CircuitOpenError) {
+      logger.warn("Circuit breaker opened during retry", { asins, retry_count: result.retryCount });
+
+      for (const { jobId } of targets) {
+        await completeRefreshJob(supabase, jobId, {
+          status: "skipped",
+          retry_count: result.retryCount,
+          circuit_breaker_state: "open",
+        });
+        metrics.skipped++;
+      }
+      return;
+    }
+
+    if (result.error instanceof RateLimitError) {
+      logger.warn("PA-API rate limit reached, skipping batch refresh", {
+        asins,
+        reason: result.error.reason,
+        retry_after_ms: result.error.retryAfter,
+      });
+      await skipRateLimitedTargets(supabase, targets, result.error.message, result.retryCount, metrics);
+      return;
+    }
+
+    // T059: Whole request rejected because its only ASIN is not accessible
+    if (isItemNotAccessibleError(result.error)) {
+      for (const { product, jobId } of targets) {
+        logger.warn("Product not accessible or invalid ASIN", {
+          product_id: product.id,
+          asin: product.asin,
+          error: result.error.message,
+        });
+        await markProductUnavailable(supabase, product, logger);
+        await completeRefreshJob(supabase, jobId, { status: "success", retry_count: result.retryCount });
+        metrics.success++;
+      }
+      return;
+    }
+
+    await failRefreshTargets(supabase, targets, result.error, result.retryCount, logger, metrics);
+    return;
+  }
+
+  // T058/T059: Fan the batch response out to each product
+  const results = matchGetItemsResults(asins, result.response);
+
+  for (const { product, jobId } of targets) {
+    const match = results.get(product.asin);
+
+    try {
+      if (match?.status === "found") {
+        await saveRefreshedProduct(supabase, product, match.item, logger);
+        logger.info("Product refresh successful", {
+          product_id: product.id,
+          asin: product.asin,
+          retry_count: result.retryCount,
+        });
+      } else {
+        logger.warn("Product not found in PA-API response", {
+          product_id: product.id,
+          asin: product.asin,
+          error_code: match?.status === "error" ? match.error.Code : undefined,
+        });
+        await markProductUnavailable(supabase, product, logger);
+      }
+
+      // T059: Unavailable products are an expected outcome, so the job succeeds either way
+      await completeRefreshJob(supabase, jobId, { status: "success", retry_count: result.retryCount });
+      metrics.success++;
+    } catch (error) {
+      logger.error("Failed to save refreshed product", error instanceof Error ? error : undefined, {
+        product_id: product.id,
+        asin: product.asin,
+      });
+
+      await completeRefreshJob(supabase, jobId, {
+        status: "failed",
+        error_code: ErrorCode.DATABASE_ERROR,
+        error_message: error instanceof Error ? error.message : String(error),
+        retry_count: result.retryCount,
+      });
+      metrics.failure++;
+    }
+  }
+}
+
+
 /**
  * Main Edge Function handler
  * 
@@ -107,13 +469,14 @@ interface ProductToRefresh {
  * @returns HTTP response with metrics
  */
 async function handler(req: Request): Promise<Response> {
-  // T054: Generate correlation ID for worker execution
-  const correlationId = generateCorrelationId();
+  // T054: Correlation ID of the caller, or a new one for cron runs
+  const correlationId = correlationIdFromRequest(req);
   
   // T054: Initialize logger with correlation ID
   const logger = new Logger({
     minLevel: LogLevel.INFO,
     correlationId,
+    source: "refresh-worker",
   });
 
   // Handle CORS preflight
@@ -183,6 +546,8 @@ async function handler(req: Request): Promise<Response> {
     }
 
     const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    await usePersistentPaapiCircuitBreaker(supabase);
+    usePersistentPaapiRateLimiter(supabase);
 
     // T055: Select products needing refresh (24-hour logic)
     const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
@@ -197,7 +562,12 @@ async function handler(req: Request): Promise<Response> {
         id,
         asin,
         marketplace_id,
-        marketplace:marketplaces(code, paapi_endpoint)
+        slug,
+        title,
+        currency,
+        current_price,
+        availability_type,
+        marketplace:marketplaces(${MARKETPLACE_SETTINGS_COLUMNS})
       `)
       .in("status", ["active", "draft"])
       .or(`last_refresh_at.is.null,last_refresh_at.lt.${twentyFourHoursAgo}`)
@@ -263,16 +633,11 @@ async function handler(req: Request): Promise<Response> {
       });
     }
 
-    // T054: Initialize PA-API client (will be created per-product with marketplace config)
-    const paapiAccessKey = Deno.env.get("PAAPI_ACCESS_KEY") || "";
-    const paapiSecretKey = Deno.env.get("PAAPI_SECRET_KEY") || "";
-    const paapiPartnerTag = Deno.env.get("PAAPI_PARTNER_TAG") || "";
-
-    // Get circuit breaker instance
-    const circuitBreaker = getPaapiCircuitBreaker();
+    // T056: Create a refresh_job (status='running') for every selected product
+    const targets: RefreshTarget[] = [];
 
-    // T056: Process each product in batch
-    for (const product of productsToRefresh as ProductToRefresh[]) {
+    // The embedded marketplace is one row (many-to-one), not the array supabase-js infers
+    for (const product of productsToRefresh as unknown as ProductToRefresh[]) {
       metrics.processed++;
 
       logger.info("Processing product refresh", {
@@ -281,513 +646,49 @@ async function handler(req: Request): Promise<Response> {
         product_id: product.id,
       });
 
-      // T056: Create refresh_job record (status='pending')
-      const { data: refreshJob, error: jobCreateError } = await supabase
-        .from("refresh_jobs")
-        .insert({
-          product_id: product.id,
-          status: "pending",
-          started_at: null,
-          completed_at: null,
-        })
-        .select()
-        .single();
-
-      if (jobCreateError) {
-        logger.error(
-          "Failed to create refresh_job",
-          jobCreateError instanceof Error ? jobCreateError : undefined,
-          { asin: product.asin }
-        );
+      const jobId = await startRefreshJob(supabase, product, logger);
+
+      if (!jobId) {
         metrics.failure++;
         continue;
       }
 
-      // T056: Update refresh_job to status='running'
-      await supabase
-        .from("refresh_jobs")
-        .update({
-          status: "running",
-          started_at: new Date().toISOString(),
-        })
-        .eq("id", refreshJob.id);
-
-      // T056: Check circuit breaker state
-      const circuitState = circuitBreaker.getState();
-      
-      if (circuitState.state === "OPEN") {
-        logger.warn("Circuit breaker is OPEN, skipping product refresh", {
-          product_id: product.id,
-          asin: product.asin,
-          circuit_state: circuitState,
-        });
+      targets.push({ product, jobId });
+    }
 
-        // T060: Mark refresh_job as skipped
-        await supabase
-          .from("refresh_jobs")
-          .update({
-            status: "skipped",
-            completed_at: new Date().toISOString(),
-            circuit_breaker_state: "open",
-          })
-          .eq("id", refreshJob.id);
+    // T057: One GetItems call per marketplace and per 10 ASINs, one client per marketplace
+    const marketplaceGroups = groupBy(targets, ({ product }) => product.marketplace_id);
 
-        metrics.skipped++;
+    for (const marketplaceTargets of marketplaceGroups.values()) {
+      let paapiClient: PaapiClient;
+
+      try {
+        const marketplace = marketplaceTargets[0]?.product.marketplace;
+        if (!marketplace) {
+          throw new Error("Marketplace settings not found");
+        }
+        paapiClient = createMarketplaceClient(marketplace, "background");
+      } catch (error) {
+        const clientError = error instanceof Error ? error : new Error(String(error));
+        await failRefreshTargets(supabase, marketplaceTargets, clientError, 0, logger, metrics);
         continue;
       }
 
-      // T057: Call PA-API with retry logic (exponential backoff)
-      let retryCount = 0;
-      const maxRetries = 3; // 4 total attempts (initial + 3 retries)
-      let refreshSuccess = false;
-      let lastError: Error | null = null;
-
-      while (retryCount <= maxRetries && !refreshSuccess) {
-        try {
-          // T057: Exponential backoff delays: 0s, 1s, 2s, 4s
-          if (retryCount > 0) {
-            const delayMs = Math.pow(2, retryCount - 1) * 1000; // 1s, 2s, 4s
-            logger.info("Retrying PA-API call", {
-              asin: product.asin,
-              retry_count: retryCount,
-              delay_ms: delayMs,
-            });
-            await new Promise(resolve => setTimeout(resolve, delayMs));
-          }
-
-          // Get marketplace configuration
-          const marketplaceCode = product.marketplace?.code || "US";
-          
-          // Map marketplace code to actual Amazon marketplace domain
-          const marketplaceDomainMap: Record<string, string> = {
-            "US": "www.amazon.com",
-            "DE": "www.amazon.de",
-            "UK": "www.amazon.co.uk",
-            "FR": "www.amazon.fr",
-            "IT": "www.amazon.it",
-            "ES": "www.amazon.es",
-            "JP": "www.amazon.co.jp",
-            "CA": "www.amazon.ca",
-            "AU": "www.amazon.com.au",
-          };
-          const marketplaceDomain = marketplaceDomainMap[marketplaceCode] || "www.amazon.com";
-          
-          // Map marketplace code to AWS region
-          const regionMap: Record<string, string> = {
-            "US": "us-east-1",
-            "CA": "us-east-1",
-            "DE": "eu-west-1",
-            "UK": "eu-west-1",
-            "FR": "eu-west-1",
-            "IT": "eu-west-1",
-            "ES": "eu-west-1",
-            "JP": "us-west-2",
-            "AU": "us-west-2",
-          };
-          const region = regionMap[marketplaceCode] || "us-east-1";
-
-          // Initialize PA-API client for this product
-          const paapiClient = new PaapiClient({
-            accessKey: paapiAccessKey,
-            secretKey: paapiSecretKey,
-            partnerTag: paapiPartnerTag,
-            marketplace: marketplaceDomain,
-            region,
-          });
-
-          // Define resources to request
-          const resources = [
-            // Browse node information
-            'BrowseNodeInfo.BrowseNodes',
-            'BrowseNodeInfo.BrowseNodes.Ancestor',
-            'BrowseNodeInfo.BrowseNodes.SalesRank',
-            'BrowseNodeInfo.WebsiteSalesRank',
-            
-            // Customer reviews
-            'CustomerReviews.Count',
-            'CustomerReviews.StarRating',
-            
-            // All image resources
-            'Images.Primary.Small',
-            'Images.Primary.Medium',
-            'Images.Primary.Large',
-            'Images.Primary.HighRes',
-            'Images.Variants.Small',
-            'Images.Variants.Medium',
-            'Images.Variants.Large',
-            'Images.Variants.HighRes',
-            
-            // Item information
-            'ItemInfo.ByLineInfo',
-            'ItemInfo.ContentInfo',
-            'ItemInfo.ContentRating',
-            'ItemInfo.Classifications',
-            'ItemInfo.ExternalIds',
-            'ItemInfo.Features',
-            'ItemInfo.ManufactureInfo',
-            'ItemInfo.ProductInfo',
-            'ItemInfo.TechnicalInfo',
-            'ItemInfo.Title',
-            'ItemInfo.TradeInInfo',
-            
-            // Offers and pricing - detailed
-            'Offers.Listings.Availability.MaxOrderQuantity',
-            'Offers.Listings.Availability.Message',
-            'Offers.Listings.Availability.MinOrderQuantity',
-            'Offers.Listings.Availability.Type',
-            'Offers.Listings.Condition',
-            'Offers.Listings.Condition.ConditionNote',
-            'Offers.Listings.Condition.SubCondition',
-            'Offers.Listings.DeliveryInfo.IsAmazonFulfilled',
-            'Offers.Listings.DeliveryInfo.IsFreeShippingEligible',
-            'Offers.Listings.DeliveryInfo.IsPrimeEligible',
-            'Offers.Listings.DeliveryInfo.ShippingCharges',
-            'Offers.Listings.IsBuyBoxWinner',
-            'Offers.Listings.LoyaltyPoints.Points',
-            'Offers.Listings.MerchantInfo',
-            'Offers.Listings.Price',
-            'Offers.Listings.ProgramEligibility.IsPrimeExclusive',
-            'Offers.Listings.ProgramEligibility.IsPrimePantry',
-            'Offers.Listings.Promotions',
-            'Offers.Listings.SavingBasis',
-            'Offers.Summaries.HighestPrice',
-            'Offers.Summaries.LowestPrice',
-            'Offers.Summaries.OfferCount',
-            
-            // Parent ASIN
-            'ParentASIN',
-            
-            // Rental offers
-            'RentalOffers.Listings.Availability.MaxOrderQuantity',
-            'RentalOffers.Listings.Availability.Message',
-            'RentalOffers.Listings.Availability.MinOrderQuantity',
-            'RentalOffers.Listings.Availability.Type',
-            'RentalOffers.Listings.BasePrice',
-            'RentalOffers.Listings.Condition',
-            'RentalOffers.Listings.Condition.ConditionNote',
-            'RentalOffers.Listings.Condition.SubCondition',
-            'RentalOffers.Listings.DeliveryInfo.IsAmazonFulfilled',
-            'RentalOffers.Listings.DeliveryInfo.IsFreeShippingEligible',
-            'RentalOffers.Listings.DeliveryInfo.IsPrimeEligible',
-            'RentalOffers.Listings.DeliveryInfo.ShippingCharges',
-            'RentalOffers.Listings.MerchantInfo',
-          ];
-
-          // Call PA-API
-          const paapiResponse = await paapiClient.getItems({
-            itemIds: [product.asin],
-            resources,
-          });
-
-          // T058: Transform PA-API response and update product
-          if (paapiResponse.ItemsResult?.Items && paapiResponse.ItemsResult.Items.length > 0) {
-            const item = paapiResponse.ItemsResult.Items[0];
-
-            // Extract basic information
-            const title = item.ItemInfo?.Title?.DisplayValue || null;
-            const brand = item.ItemInfo?.ByLineInfo?.Brand?.DisplayValue || null;
-            const manufacturer = item.ItemInfo?.ByLineInfo?.Manufacturer?.DisplayValue || null;
-
-            // Extract features and extended info (cast to unknown for dynamic PA-API fields)
-            const itemInfo = item.ItemInfo as unknown as Record<string, unknown>;
-            const featuresData = itemInfo?.Features as Record<string, unknown> | undefined;
-            const features = (featuresData?.DisplayValues as string[] | undefined) || null;
-
-            const technicalInfo = itemInfo?.TechnicalInfo ? 
-              itemInfo.TechnicalInfo as Record<string, unknown> : null;
-            const productInfo = itemInfo?.ProductInfo ? 
-              itemInfo.ProductInfo as Record<string, unknown> : null;
-            const contentInfo = itemInfo?.ContentInfo ? 
-              itemInfo.ContentInfo as Record<string, unknown> : null;
-            const manufactureInfo = itemInfo?.ManufactureInfo ? 
-              itemInfo.ManufactureInfo as Record<string, unknown> : null;
-
-            // Extract ALL image variants
-            const images = (() => {
-              const imageData: Record<string, unknown> = {};
-              const paapiImages = item.Images as unknown as Record<string, unknown>;
-              
-              if (paapiImages?.Primary) {
-                const primary = paapiImages.Primary as Record<string, unknown>;
-                const primaryData: Record<string, unknown> = {};
-                
-                if (primary.Small) {
-                  const small = primary.Small as Record<string, unknown>;
-                  primaryData.small = { url: small.URL, width: small.Width || null, height: small.Height || null };
-                }
-                if (primary.Medium) {
-                  const medium = primary.Medium as Record<string, unknown>;
-                  primaryData.medium = { url: medium.URL, width: medium.Width || null, height: medium.Height || null };
-                }
-                if (primary.Large) {
-                  const large = primary.Large as Record<string, unknown>;
-                  primaryData.large = { url: large.URL, width: large.Width || null, height: large.Height || null };
-                }
-                if (primary.HighRes) {
-                  const highRes = primary.HighRes as Record<string, unknown>;
-                  primaryData.highRes = { url: highRes.URL, width: highRes.Width || null, height: highRes.Height || null };
-                }
-                
-                if (Object.keys(primaryData).length > 0) {
-                  imageData.primary = primaryData;
-                }
-              }
-              
-              if (paapiImages?.Variants && Array.isArray(paapiImages.Variants)) {
-                imageData.variants = (paapiImages.Variants as Record<string, unknown>[]).map((variant) => {
-                  const variantData: Record<string, unknown> = {};
-                  if (variant.Small) {
-                    const small = variant.Small as Record<string, unknown>;
-                    variantData.small = { url: small.URL, width: small.Width || null, height: small.Height || null };
-                  }
-                  if (variant.Medium) {
-                    const medium = variant.Medium as Record<string, unknown>;
-                    variantData.medium = { url: medium.URL, width: medium.Width || null, height: medium.Height || null };
-                  }
-                  if (variant.Large) {
-                    const large = variant.Large as Record<string, unknown>;
-                    variantData.large = { url: large.URL, width: large.Width || null, height: large.Height || null };
-                  }
-                  if (variant.HighRes) {
-                    const highRes = variant.HighRes as Record<string, unknown>;
-                    variantData.highRes = { url: highRes.URL, width: highRes.Width || null, height: highRes.Height || null };
-                  }
-                  return variantData;
-                });
-              }
-              
-              return Object.keys(imageData).length > 0 ? imageData : null;
-            })();
-
-            // Extract price information
-            const offers = item.Offers?.Listings?.[0];
-            const currentPrice = offers?.Price?.Amount || null;
-            const originalPrice = offers?.SavingBasis?.Amount || currentPrice;
-            
-            // Calculate savings (only if both prices exist)
-            let savingsAmount: number | null = null;
-            let savingsPercentage: number | null = null;
-            
-            if (currentPrice && originalPrice && currentPrice < originalPrice) {
-              savingsAmount = originalPrice - currentPrice;
-              savingsPercentage = (savingsAmount / originalPrice) * 100;
-              
-              // Round to 2 decimal places
-              savingsAmount = Math.round(savingsAmount * 100) / 100;
-              savingsPercentage = Math.round(savingsPercentage * 100) / 100;
-            }
-
-            // Extract availability
-            const availabilityType = offers?.Availability?.Type || null;
-            const availabilityMessage = offers?.Availability?.Message || null;
-
-            // Extract reviews and rating
-            const customerReviewCount = item.CustomerReviews?.Count || null;
-            const starRating = item.CustomerReviews?.StarRating?.Value || null;
-
-            // T058: Update product in database
-            const { error: updateError } = await supabase
-              .from("products")
-              .update({
-                title,
-                brand,
-                manufacturer,
-                features,
-                technical_info: technicalInfo,
-                product_info: productInfo,
-                content_info: contentInfo,
-                manufacture_info: manufactureInfo,
-                images,
-                current_price: currentPrice,
-                original_price: originalPrice,
-                savings_amount: savingsAmount,
-                savings_percentage: savingsPercentage,
-                availability_type: availabilityType,
-                availability_message: availabilityMessage,
-                customer_review_count: customerReviewCount,
-                star_rating: starRating,
-                raw_paapi_response: paapiResponse,
-                last_refresh_at: new Date().toISOString(),
-                // T058: Keep status unchanged during successful refresh
-              })
-              .eq("id", product.id);
-
-            if (updateError) {
-              throw new Error(`Failed to update product: ${updateError.message}`);
-            }
-
-            // T060: Mark refresh_job as success
-            await supabase
-              .from("refresh_jobs")
-              .update({
-                status: "success",
-                completed_at: new Date().toISOString(),
-                retry_count: retryCount,
-              })
-              .eq("id", refreshJob.id);
-
-            logger.info("Product refresh successful", {
-              product_id: product.id,
-              asin: product.asin,
-              retry_count: retryCount,
-            });
-
-            metrics.success++;
-            refreshSuccess = true;
-          } else {
-            // T059: Handle unavailable product (no items in response)
-            logger.warn("Product not found in PA-API response", {
-              product_id: product.id,
-              asin: product.asin,
-            });
-
-            // T059: Update product status to 'unavailable'
-            const { data: currentProduct } = await supabase
-              .from("products")
-              .select("last_refresh_at")
-              .eq("id", product.id)
-              .single();
-
-            await supabase
-              .from("products")
-              .update({
-                status: "unavailable",
-                last_available_at: currentProduct?.last_refresh_at,
-                last_refresh_at: new Date().toISOString(),
-              })
-              .eq("id", product.id);
-
-            // T059: Mark refresh_job as success (expected outcome)
-            await supabase
-              .from("refresh_jobs")
-              .update({
-                status: "success",
-                completed_at: new Date().toISOString(),
-                retry_count: retryCount,
-              })
-              .eq("id", refreshJob.id);
-
-            logger.info("Product marked as unavailable", {
-              product_id: product.id,
-              asin: product.asin,
-            });
-
-            metrics.success++;
-            refreshSuccess = true;
-          }
-
-        } catch (error) {
-          lastError = error instanceof Error ? error : new Error(String(error));
-          retryCount++;
-
-          // T059: Handle ItemNotAccessible or InvalidParameterValue errors specifically
-          // These indicate the product doesn't exist or has an invalid ASIN
-          if (error instanceof PaapiClientError && 
-              (error.code === "ItemNotAccessible" || 
-               error.code === "PAAPI_INVALID_PARAMETER" ||
-               error.message.includes("not accessible") ||
-               error.message.includes("Invalid parameter value"))) {
-            
-            logger.warn("Product not accessible or invalid ASIN", {
-              product_id: product.id,
-              asin: product.asin,
-              error_code: error.code,
-              error: error.message,
-            });
-
-            // T059: Update product status to 'unavailable'
-            const { data: currentProduct } = await supabase
-              .from("products")
-              .select("last_refresh_at")
-              .eq("id", product.id)
-              .single();
-
-            await supabase
-              .from("products")
-              .update({
-                status: "unavailable",
-                last_available_at: currentProduct?.last_refresh_at,
-                last_refresh_at: new Date().toISOString(),
-              })
-              .eq("id", product.id);
-
-            // T059: Mark refresh_job as success
-            await supabase
-              .from("refresh_jobs")
-              .update({
-                status: "success",
-                completed_at: new Date().toISOString(),
-                retry_count: retryCount,
-              })
-              .eq("id", refreshJob.id);
-
-            metrics.success++;
-            refreshSuccess = true;
-            break;
-          }
-
-          // T056: Handle circuit breaker open during retry
-          if (error instanceof CircuitOpenError) {
-            logger.warn("Circuit breaker opened during retry", {
-              product_id: product.id,
-              asin: product.asin,
-              retry_count: retryCount,
-            });
-
-            // T060: Mark refresh_job as skipped
-            await supabase
-              .from("refresh_jobs")
-              .update({
-                status: "skipped",
-                completed_at: new Date().toISOString(),
-                retry_count: retryCount,
-                circuit_breaker_state: "open",
-              })
-              .eq("id", refreshJob.id);
-
-            metrics.skipped++;
-            refreshSuccess = true; // Mark as "handled"
-            break;
-          }
-
-          // Log retry attempt
-          if (retryCount <= maxRetries) {
-            logger.warn("PA-API call failed, will retry", {
-              product_id: product.id,
-              asin: product.asin,
-              retry_count: retryCount,
-              max_retries: maxRetries,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
-        }
+      for (const batch of chunk(marketplaceTargets, PAAPI_MAX_ITEM_IDS)) {
+        await refreshBatch(supabase, paapiClient, batch, logger, metrics);
       }
+    }
 
-      // T060: If all retries exhausted, mark as failure
-      if (!refreshSuccess) {
-        logger.error(
-          "Product refresh failed after retries",
-          lastError || undefined,
-          {
-            asin: product.asin,
-            retry_count: retryCount,
-          }
-        );
-
-        // T060: Update refresh_job with failure details
-        await supabase
-          .from("refresh_jobs")
-          .update({
-            status: "failed",
-            completed_at: new Date().toISOString(),
-            error_code: lastError instanceof PaapiClientError ? lastError.code : "UNKNOWN_ERROR",
-            error_message: lastError?.message || "Unknown error",
-            retry_count: retryCount,
-          })
-          .eq("id", refreshJob.id);
+    // Deliver alerts queued during this run
+    await deliverPendingNotifications(
+      supabase,
+      createNotificationTransports((name) => Deno.env.get(name), logger),
+      logger,
+    );
 
-        metrics.failure++;
-      }
+    // Let the store serve the refreshed prices instead of its cached responses
+    if (metrics.success > 0) {
+      await invalidateCatalogCache(cacheInvalidationConfigFromEnv((name) => Deno.env.get(name)), logger);
     }
 
     // T061: Calculate final duration and log summary
@@ -796,7 +697,7 @@ async function handler(req: Request): Promise<Response> {
 
     logger.info("Refresh worker execution completed", {
       metrics,
-      circuit_state: circuitBreaker.getState().state,
+      circuit_state: getPaapiCircuitBreaker().getState().state,
       correlation_id: correlationId,
     });
 
@@ -851,5 +752,11 @@ async function handler(req: Request): Promise<Response> {
   }
 }
 
-// Deno Deploy expects a default export
-Deno.serve(handler);
+// Serve the function using Deno.serve (only when not in test mode)
+if (import.meta.main) {
+  configureLoggingFromEnv();
+  Deno.serve(withRequestTracing(handler));
+}
+
+// Export handler for testing
+export default handler;
@@ -108,9 +108,10 @@ describe("Search Products Edge Function - Integration Tests", () => {
       const response = await handler(request);
 
       // Check if PA-API credentials are available
+      // Partner tags come from the marketplaces table
       const hasCredentials = Deno.env.get("PAAPI_ACCESS_KEY") && 
                             Deno.env.get("PAAPI_SECRET_KEY") && 
-                            Deno.env.get("PAAPI_PARTNER_TAG_US");
+                            Deno.env.get("SUPABASE_URL");
 
       if (!hasCredentials) {
         // Without credentials, expect 500 error with proper error response
@@ -179,9 +180,10 @@ describe("Search Products Edge Function - Integration Tests", () => {
       const response = await handler(request);
 
       // Check if PA-API credentials are available
+      // Partner tags come from the marketplaces table
       const hasCredentials = Deno.env.get("PAAPI_ACCESS_KEY") && 
                             Deno.env.get("PAAPI_SECRET_KEY") && 
-                            Deno.env.get("PAAPI_PARTNER_TAG_DE");
+                            Deno.env.get("SUPABASE_URL");
 
       if (!hasCredentials) {
         // Without credentials, expect 500 error
@@ -44,12 +44,19 @@
  * - Performance: <3s for search API calls with circuit breaker protection
  */
 
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
 // Import shared utilities
-import { Logger, generateCorrelationId, LogLevel } from "../_shared/logger.ts";
+import { correlationIdFromRequest, Logger, LogLevel, withRequestTracing } from "../_shared/logger.ts";
+import { configureLoggingFromEnv } from "../_shared/log-sinks.ts";
 import { createErrorResponse, ErrorCode } from "../_shared/errors.ts";
 import { validateSearchProducts } from "../_shared/validation.ts";
 import { PaapiClient, PaapiClientError, type SearchItemsRequest } from "../_shared/paapi-client.ts";
 import { CircuitOpenError } from "../_shared/circuit-breaker.ts";
+import { getMarketplaceSettings, getPaapiBaseEndpoint, getPartnerTag } from "../_shared/marketplaces.ts";
+import { usePersistentPaapiCircuitBreaker } from "../_shared/circuit-breaker-store.ts";
+import { usePersistentPaapiRateLimiter } from "../_shared/rate-limit-store.ts";
+import { RateLimitError } from "../_shared/rate-limiter.ts";
 import type { PaapiSearchItemsResponse, SearchProduct } from "../_shared/types.ts";
 
 // Suppress unused import warnings - all imports now in use
@@ -62,7 +69,7 @@ import type { PaapiSearchItemsResponse, SearchProduct } from "../_shared/types.t
  */
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-correlation-id",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
@@ -77,13 +84,14 @@ const CORS_HEADERS = {
  * @returns HTTP response
  */
 async function handler(req: Request): Promise<Response> {
-  // Generate correlation ID for request tracing
-  const correlationId = generateCorrelationId();
+  // Correlation ID sent by the caller (or a new one) for request tracing
+  const correlationId = correlationIdFromRequest(req);
 
   // Initialize logger with correlation ID
   const logger = new Logger({
     minLevel: LogLevel.INFO,
     correlationId,
+    source: "search-products",
   });
 
   // Handle CORS preflight
@@ -185,19 +193,66 @@ async function handler(req: Request): Promise<Response> {
       correlation_id: correlationId,
     });
 
+    // Marketplace host, region, endpoint and partner tag come from the marketplaces table
+    const supabaseUrl = Deno.env.get("SUPABASE_LOCAL_URL") || Deno.env.get("SUPABASE_URL");
+    const supabaseServiceRoleKey = Deno.env.get("SUPABASE_LOCAL_SERVICE_ROLE_KEY") ||
+                                    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      logger.error("Missing Supabase credentials", undefined, {
+        hasUrl: !!supabaseUrl,
+        hasServiceKey: !!supabaseServiceRoleKey,
+      });
+
+      const errorResponse = createErrorResponse({
+        code: ErrorCode.INTERNAL_SERVER_ERROR,
+        message: "Database configuration error",
+        correlationId,
+        details: { error: "Missing Supabase credentials" },
+      });
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: {
+          ...CORS_HEADERS,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceRoleKey);
+    await usePersistentPaapiCircuitBreaker(supabase);
+    usePersistentPaapiRateLimiter(supabase);
+    const marketplaceSettings = await getMarketplaceSettings(supabase, marketplace);
+
+    if (!marketplaceSettings) {
+      logger.warn("Marketplace not found or inactive", { marketplace });
+
+      const errorResponse = createErrorResponse({
+        code: ErrorCode.MARKETPLACE_NOT_FOUND,
+        message: `Marketplace '${marketplace}' not found`,
+        correlationId,
+        details: { marketplace },
+      });
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: {
+          ...CORS_HEADERS,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+
     // Initialize PA-API client with credentials from environment
     const paapiAccessKey = Deno.env.get("PAAPI_ACCESS_KEY");
     const paapiSecretKey = Deno.env.get("PAAPI_SECRET_KEY");
-    const paapiPartnerTag = Deno.env.get(`PAAPI_PARTNER_TAG_${marketplace}`);
-    const paapiEndpoint = Deno.env.get(`PAAPI_ENDPOINT_${marketplace}`);
 
     // Validate PA-API credentials are present
-    if (!paapiAccessKey || !paapiSecretKey || !paapiPartnerTag || !paapiEndpoint) {
+    if (!paapiAccessKey || !paapiSecretKey) {
       logger.error("Missing PA-API credentials", undefined, {
         hasAccessKey: !!paapiAccessKey,
         hasSecretKey: !!paapiSecretKey,
-        hasPartnerTag: !!paapiPartnerTag,
-        hasEndpoint: !!paapiEndpoint,
         marketplace,
       });
 
@@ -217,27 +272,14 @@ async function handler(req: Request): Promise<Response> {
       });
     }
 
-    // Determine region from marketplace
-    const regionMap: Record<string, string> = {
-      "US": "us-east-1",
-      "DE": "eu-west-1",
-    };
-    const region = regionMap[marketplace] || "us-east-1";
-
-    // Map marketplace code to actual Amazon marketplace domain
-    const marketplaceDomainMap: Record<string, string> = {
-      "US": "www.amazon.com",
-      "DE": "www.amazon.de",
-    };
-    const marketplaceDomain = marketplaceDomainMap[marketplace] || "www.amazon.com";
-
     // Initialize PA-API client
     const paapiConfig = {
       accessKey: paapiAccessKey,
       secretKey: paapiSecretKey,
-      partnerTag: paapiPartnerTag,
-      marketplace: marketplaceDomain,
-      region,
+      partnerTag: getPartnerTag(marketplaceSettings),
+      marketplace: marketplaceSettings.host,
+      region: marketplaceSettings.paapi_region,
+      endpoint: getPaapiBaseEndpoint(marketplaceSettings.paapi_endpoint),
     };
 
     const paapiClient = new PaapiClient(paapiConfig);
@@ -296,7 +338,7 @@ async function handler(req: Request): Promise<Response> {
       });
 
       // Transform PA-API response to standardized format
-      const transformedResults = transformSearchResults(paapiResponse, marketplace);
+      const transformedResults = transformSearchResults(paapiResponse, marketplaceSettings.locale);
 
       // Return successful response
       const response = {
@@ -356,6 +398,39 @@ async function handler(req: Request): Promise<Response> {
         });
       }
 
+      // Handle RateLimitError - request rate or daily quota of the PA-API account used
+      if (error instanceof RateLimitError) {
+        logger.warn("PA-API search request blocked by rate limiter", {
+          query,
+          duration_ms: searchDuration,
+          reason: error.reason,
+          retryAfter: error.retryAfter,
+          correlation_id: correlationId,
+        });
+
+        const errorResponse = createErrorResponse({
+          code: ErrorCode.RATE_LIMIT_EXCEEDED,
+          message: error.reason === "quota"
+            ? "Daily PA-API request quota used. Please try again tomorrow."
+            : "Too many PA-API requests. Please try again in a few seconds.",
+          correlationId,
+          details: {
+            reason: error.reason,
+            retryAfterMs: error.retryAfter,
+            retryAfterSeconds: Math.ceil(error.retryAfter / 1000),
+          },
+        });
+
+        return new Response(JSON.stringify(errorResponse), {
+          status: 429, // Too Many Requests
+          headers: {
+            ...CORS_HEADERS,
+            "Content-Type": "application/json",
+            "Retry-After": String(Math.ceil(error.retryAfter / 1000)), // Seconds
+          },
+        });
+      }
+
       // Handle PA-API client errors
       if (error instanceof PaapiClientError) {
         logger.error("PA-API search request failed", error, {
@@ -470,10 +545,10 @@ async function handler(req: Request): Promise<Response> {
  * Transform PA-API search results to standardized format
  *
  * @param paapiResponse - Raw PA-API SearchItems response
- * @param marketplace - Marketplace code (US/DE)
+ * @param locale - Marketplace locale used to format prices (e.g. "de-DE")
  * @returns Array of standardized product objects
  */
-function transformSearchResults(paapiResponse: PaapiSearchItemsResponse, marketplace: string): SearchProduct[] {
+function transformSearchResults(paapiResponse: PaapiSearchItemsResponse, locale: string): SearchProduct[] {
   const items = paapiResponse.SearchResult?.Items || [];
 
   return items.map((item) => {
@@ -511,7 +586,7 @@ function transformSearchResults(paapiResponse: PaapiSearchItemsResponse, marketp
     let pricing = null;
     if (currentPrice && currency) {
       const formatter = new Intl.NumberFormat(
-        marketplace === 'DE' ? 'de-DE' : 'en-US',
+        locale,
         {
           style: 'currency',
           currency: currency,
@@ -553,7 +628,8 @@ function transformSearchResults(paapiResponse: PaapiSearchItemsResponse, marketp
 
 // Serve the function using Deno.serve (only when not in test mode)
 if (import.meta.main) {
-  Deno.serve(handler);
+  configureLoggingFromEnv();
+  Deno.serve(withRequestTracing(handler));
 }
 
 // Export handler for testing
@@ -0,0 +1,75 @@
+-- Create price_history table to keep every observed price/availability change
+-- The refresh worker and import-product overwrite current_price on products,
+-- so this table is the only record of how a product's price evolved over time.
+CREATE TABLE IF NOT EXISTS price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Product identification
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+
+  -- Price snapshot (mirrors the products columns at the time of the change)
+  current_price DECIMAL(10, 2),
+  original_price DECIMAL(10, 2),
+  savings_percentage DECIMAL(5, 2),
+  currency TEXT,
+  availability_type TEXT,
+
+  -- Which writer observed the change
+  source TEXT NOT NULL CHECK (source IN ('import', 'refresh', 'backfill')),
+
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Chart queries read one product's history newest-first within a time window
+CREATE INDEX idx_price_history_product_recorded ON price_history(product_id, recorded_at DESC);
+
+-- Add RLS policies (public read for active products, writes restricted to service role)
+ALTER TABLE price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public can read price history of active products"
+  ON price_history
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = price_history.product_id
+        AND products.status = 'active'
+    )
+  );
+
+CREATE POLICY "Service role can manage price history"
+  ON price_history
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Seed one baseline point per product so charts have a starting value
+INSERT INTO price_history (
+  product_id,
+  current_price,
+  original_price,
+  savings_percentage,
+  currency,
+  availability_type,
+  source,
+  recorded_at
+)
+SELECT
+  id,
+  current_price,
+  original_price,
+  savings_percentage,
+  currency,
+  availability_type,
+  'backfill',
+  COALESCE(last_refresh_at, updated_at, NOW())
+FROM products
+WHERE current_price IS NOT NULL;
+
+-- Add comment for documentation
+COMMENT ON TABLE price_history IS 'Price and availability snapshots, one row per observed change';
+COMMENT ON COLUMN price_history.original_price IS 'PA-API SavingBasis at the time of the change (used to spot inflated discounts)';
+COMMENT ON COLUMN price_history.source IS 'Writer that recorded the change: import, refresh or backfill (initial seed)';
+COMMENT ON COLUMN price_history.recorded_at IS 'When the change was observed';
@@ -0,0 +1,185 @@
+-- Create alert_subscriptions and alert_notifications tables for price-drop and back-in-stock alerts
+--
+-- Flow:
+-- 1. Visitor subscribes (email or webhook) -> row in alert_subscriptions with status 'pending'
+--    and a confirmation notification queued in alert_notifications (double opt-in)
+-- 2. Visitor confirms with confirm_token -> status 'active'
+-- 3. Refresh worker evaluates active subscriptions after updating a product and queues
+--    'price_drop' / 'back_in_stock' notifications
+-- 4. Queued notifications are delivered through the configured transport (SMTP, webhook, file/console)
+-- 5. Every notification carries the unsubscribe_token -> status 'unsubscribed'
+
+-- ============================================================================
+-- ALERT SUBSCRIPTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS alert_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Product identification
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+
+  -- Where to deliver alerts
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook')),
+  destination TEXT NOT NULL, -- Email address or https webhook URL
+  destination_key TEXT GENERATED ALWAYS AS (lower(destination)) STORED, -- Case-insensitive match of destination
+
+  -- What to alert on
+  target_price DECIMAL(10, 2) CHECK (target_price IS NULL OR target_price > 0),
+  notify_when_available BOOLEAN NOT NULL DEFAULT false,
+
+  -- Double opt-in lifecycle
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'unsubscribed')),
+  confirm_token TEXT NOT NULL UNIQUE,
+  unsubscribe_token TEXT NOT NULL UNIQUE,
+  confirmation_sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  confirmed_at TIMESTAMPTZ,
+  unsubscribed_at TIMESTAMPTZ,
+
+  -- Last alert sent (avoids repeating the same alert)
+  last_notified_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT alert_subscriptions_trigger_check CHECK (target_price IS NOT NULL OR notify_when_available)
+);
+
+-- One live subscription per product and destination (re-subscribing updates it)
+CREATE UNIQUE INDEX idx_alert_subscriptions_unique_destination
+  ON alert_subscriptions(product_id, channel, destination_key)
+  WHERE status <> 'unsubscribed';
+
+-- Worker looks up active subscriptions of a refreshed product
+CREATE INDEX idx_alert_subscriptions_product_active
+  ON alert_subscriptions(product_id)
+  WHERE status = 'active';
+
+-- Keep updated_at current
+CREATE TRIGGER update_alert_subscriptions_updated_at
+  BEFORE UPDATE ON alert_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- ALERT NOTIFICATIONS (delivery queue)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS alert_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  subscription_id UUID NOT NULL REFERENCES alert_subscriptions(id) ON DELETE CASCADE,
+
+  -- Why the notification was queued
+  kind TEXT NOT NULL CHECK (kind IN ('confirmation', 'price_drop', 'back_in_stock')),
+
+  -- Delivery target (copied from the subscription when queued)
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook')),
+  destination TEXT NOT NULL,
+
+  -- Rendered message: { subject, text, data }
+  payload JSONB NOT NULL,
+
+  -- Delivery state
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  locked_at TIMESTAMPTZ, -- Set while a delivery run claims the notification
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ
+);
+
+-- Delivery picks the oldest pending notifications first
+CREATE INDEX idx_alert_notifications_pending
+  ON alert_notifications(created_at)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_alert_notifications_subscription ON alert_notifications(subscription_id);
+
+-- ============================================================================
+-- SUBSCRIBE RATE LIMITS
+-- ============================================================================
+-- POST /api/alerts/subscribe is public and sends a message to the given
+-- destination, so attempts are counted per client and per destination in fixed
+-- windows (limits are passed in by the route, see server/utils/alerts.ts).
+
+CREATE TABLE IF NOT EXISTS alert_subscribe_limits (
+  -- 'client:<sha256 of the IP>' or 'destination:<sha256 of the destination>'
+  key TEXT PRIMARY KEY,
+  window_started_at TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0 CHECK (request_count >= 0)
+);
+
+CREATE INDEX idx_alert_subscribe_limits_window ON alert_subscribe_limits(window_started_at);
+
+-- Count one attempt for a key
+--
+-- Refused once the key made p_limit attempts in the current window of
+-- p_window_seconds; retry_after_ms says when the next window starts.
+CREATE OR REPLACE FUNCTION take_alert_subscribe_attempt(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_seconds INTEGER
+)
+RETURNS TABLE (granted BOOLEAN, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_window TIMESTAMPTZ := to_timestamp(FLOOR(EXTRACT(EPOCH FROM v_now) / p_window_seconds) * p_window_seconds);
+  v_retry_after_ms INTEGER := CEIL(EXTRACT(EPOCH FROM (v_window + make_interval(secs => p_window_seconds) - v_now)) * 1000)::INTEGER;
+  v_count INTEGER;
+BEGIN
+  -- Windows of other keys that ended long ago
+  DELETE FROM alert_subscribe_limits WHERE window_started_at < v_now - INTERVAL '1 day';
+
+  INSERT INTO alert_subscribe_limits AS l (key, window_started_at, request_count)
+  VALUES (p_key, v_window, 1)
+  ON CONFLICT (key) DO UPDATE
+  SET window_started_at = v_window,
+      request_count = CASE WHEN l.window_started_at = v_window THEN l.request_count + 1 ELSE 1 END
+  RETURNING l.request_count INTO v_count;
+
+  RETURN QUERY SELECT v_count <= p_limit, v_retry_after_ms;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION take_alert_subscribe_attempt(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION take_alert_subscribe_attempt(TEXT, INTEGER, INTEGER) TO service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Subscriptions hold email addresses and tokens: no public access.
+-- Public subscribe/confirm/unsubscribe routes use the service role server-side.
+
+ALTER TABLE alert_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_subscribe_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage alert subscriptions"
+  ON alert_subscriptions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage alert notifications"
+  ON alert_notifications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE alert_subscriptions IS 'Price-drop and back-in-stock alert subscriptions (double opt-in)';
+COMMENT ON COLUMN alert_subscriptions.destination IS 'Email address (channel=email) or https URL (channel=webhook)';
+COMMENT ON COLUMN alert_subscriptions.destination_key IS 'lower(destination); re-subscribing looks the live subscription up by it';
+COMMENT ON COLUMN alert_subscriptions.target_price IS 'Alert when current_price drops to or below this price';
+COMMENT ON COLUMN alert_subscriptions.notify_when_available IS 'Alert when availability_type goes back to Now';
+COMMENT ON COLUMN alert_subscriptions.confirm_token IS 'Double opt-in token sent in the confirmation message';
+COMMENT ON COLUMN alert_subscriptions.unsubscribe_token IS 'Token included in every message to unsubscribe';
+COMMENT ON TABLE alert_notifications IS 'Queue of alert and confirmation messages awaiting delivery';
+COMMENT ON COLUMN alert_notifications.locked_at IS 'Claim of the delivery run sending the notification; stale claims are taken over';
+COMMENT ON TABLE alert_subscribe_limits IS 'Subscribe attempts per client and destination in the current window';
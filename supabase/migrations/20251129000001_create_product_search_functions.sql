@@ -0,0 +1,229 @@
+-- Migration: Product search functions
+-- Description: Server-side faceted filtering for the public product listing (GET /api/products)
+-- Dependencies: 20251125000001_add_product_metadata.sql (requires products.metadata)
+-- Date: 2025-11-29
+
+-- ============================================================================
+-- OVERVIEW
+-- ============================================================================
+-- The products page used to download every active product and filter/sort/paginate
+-- in the browser. These functions move that work into Postgres:
+--
+--   search_products(filters)         -> SETOF products matching all filters
+--                                       (sorted and paginated by PostgREST: .order()/.range())
+--   product_filter_facets(filters)   -> {"chip": {"ESP32-S3": 4, ...}, "flash": {"8": 3}, ...}
+--   variants(products)               -> the product's variants, embedded in the same request
+--                                       (select=..., variants(...))
+--
+-- Filters (JSONB, every key optional):
+--   marketplace_id  UUID    products of one marketplace
+--   search          TEXT    case-insensitive substring of title, description or brand
+--   type            TEXT    metadata.filters.product_type
+--   chip            TEXT    metadata.filters.chip
+--   wifi            TEXT    metadata.filters.wifi_version
+--   bluetooth       TEXT    metadata.filters.bluetooth_version
+--   usb             TEXT    metadata.filters.usb_type
+--   flash           INT     metadata.filters.flash_size >= N (MB)
+--   psram           TEXT    'none' or metadata.filters.psram_size >= N (MB)
+--   gpio            INT     metadata.filters.gpio_count >= N
+--   min_price       NUMERIC current_price >= N (missing price counts as 0)
+--   max_price       NUMERIC current_price <= N
+--   camera, display, battery, zigbee, thread, sdcard   BOOLEAN feature flags
+--
+-- Facets are disjunctive: the counts of a facet ignore that facet's own filter,
+-- so the page can show how many products each alternative value would return.
+--
+-- All functions are SECURITY INVOKER, so RLS still limits anon callers to active products.
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Leading integer of a metadata value ("16", 16, "16MB" -> 16), NULL if there is none
+CREATE OR REPLACE FUNCTION product_filter_int(value TEXT)
+RETURNS INTEGER AS $$
+  SELECT substring(value FROM '^\s*(\d+)')::INTEGER;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- JSON boolean of a metadata value, NULL for anything else (missing, "yes", 1, ...)
+CREATE OR REPLACE FUNCTION product_filter_bool(value JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'boolean' THEN value::TEXT::BOOLEAN END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Battery support: has_battery_pins, falling back to the legacy has_battery field
+CREATE OR REPLACE FUNCTION product_filter_battery(filters JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    product_filter_bool(filters->'has_battery_pins'),
+    product_filter_bool(filters->'has_battery')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================================================
+-- FUNCTION: product_matches_filters
+-- ============================================================================
+-- Purpose: Check a product against the listing filters
+-- ignore_facet: Skip one facet's filter (used for disjunctive facet counts)
+
+CREATE OR REPLACE FUNCTION product_matches_filters(
+  product products,
+  filters JSONB,
+  ignore_facet TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+  SELECT
+    product.status = 'active'
+    AND product.custom_parent_id IS NULL
+    AND (filters->>'marketplace_id' IS NULL
+      OR product.marketplace_id = (filters->>'marketplace_id')::UUID)
+    AND (filters->>'search' IS NULL
+      OR strpos(lower(product.title), lower(filters->>'search')) > 0
+      OR strpos(lower(COALESCE(product.description, '')), lower(filters->>'search')) > 0
+      OR strpos(lower(COALESCE(product.brand, '')), lower(filters->>'search')) > 0)
+    AND (filters->>'min_price' IS NULL
+      OR COALESCE(product.current_price, 0) >= (filters->>'min_price')::NUMERIC)
+    AND (filters->>'max_price' IS NULL
+      OR COALESCE(product.current_price, 0) <= (filters->>'max_price')::NUMERIC)
+    -- Facets
+    AND (ignore_facet = 'type' OR filters->>'type' IS NULL
+      OR product.metadata->'filters'->>'product_type' = filters->>'type')
+    AND (ignore_facet = 'chip' OR filters->>'chip' IS NULL
+      OR product.metadata->'filters'->>'chip' = filters->>'chip')
+    AND (ignore_facet = 'wifi' OR filters->>'wifi' IS NULL
+      OR product.metadata->'filters'->>'wifi_version' = filters->>'wifi')
+    AND (ignore_facet = 'bluetooth' OR filters->>'bluetooth' IS NULL
+      OR product.metadata->'filters'->>'bluetooth_version' = filters->>'bluetooth')
+    AND (ignore_facet = 'usb' OR filters->>'usb' IS NULL
+      OR product.metadata->'filters'->>'usb_type' = filters->>'usb')
+    AND (ignore_facet = 'flash' OR filters->>'flash' IS NULL
+      OR COALESCE(product_filter_int(product.metadata->'filters'->>'flash_size') >= (filters->>'flash')::INTEGER, FALSE))
+    AND (ignore_facet = 'psram' OR filters->>'psram' IS NULL
+      OR CASE
+        WHEN filters->>'psram' = 'none'
+          THEN COALESCE(product_filter_int(product.metadata->'filters'->>'psram_size'), 0) = 0
+        ELSE COALESCE(product_filter_int(product.metadata->'filters'->>'psram_size') >= (filters->>'psram')::INTEGER, FALSE)
+      END)
+    AND (ignore_facet = 'gpio' OR filters->>'gpio' IS NULL
+      OR COALESCE(product_filter_int(product.metadata->'filters'->>'gpio_count') >= (filters->>'gpio')::INTEGER, FALSE))
+    AND (ignore_facet = 'camera' OR filters->>'camera' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_camera') = (filters->>'camera')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'display' OR filters->>'display' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_display') = (filters->>'display')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'battery' OR filters->>'battery' IS NULL
+      OR COALESCE(product_filter_battery(product.metadata->'filters') = (filters->>'battery')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'zigbee' OR filters->>'zigbee' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_zigbee') = (filters->>'zigbee')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'thread' OR filters->>'thread' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_thread') = (filters->>'thread')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'sdcard' OR filters->>'sdcard' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_sd_card') = (filters->>'sdcard')::BOOLEAN, FALSE));
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: search_products
+-- ============================================================================
+-- Purpose: Listing products (parents and ungrouped products) matching all filters
+-- Usage: supabase.rpc('search_products', { filters }, { count: 'exact' })
+--          .select('..., marketplace:marketplaces!marketplace_id (...)')
+--          .order('current_price').range(0, 11)
+
+CREATE OR REPLACE FUNCTION search_products(filters JSONB DEFAULT '{}'::JSONB)
+RETURNS SETOF products AS $$
+  SELECT p.*
+  FROM products p
+  WHERE product_matches_filters(p, filters);
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: variants (computed relationship)
+-- ============================================================================
+-- Purpose: Embed a product's variants (products with custom_parent_id = id) in
+--          listing rows, instead of one follow-up query per product
+-- Usage: .select('..., variants (id, title, current_price)')
+--          .eq('variants.status', 'active')
+--          .order('current_price', { referencedTable: 'variants' })
+
+CREATE OR REPLACE FUNCTION variants(products)
+RETURNS SETOF products ROWS 10 AS $$
+  SELECT v.*
+  FROM products v
+  WHERE v.custom_parent_id = $1.id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: product_filter_facets
+-- ============================================================================
+-- Purpose: Product counts per facet value for the listing filters
+-- Returns: {"facet": {"value": count}}; numeric facets (flash, psram, gpio) are
+--          counted per raw size so callers can sum "N or more" buckets, and
+--          psram counts products without PSRAM under "none"
+
+CREATE OR REPLACE FUNCTION product_filter_facets(filters JSONB DEFAULT '{}'::JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(facet, counts), '{}'::JSONB)
+  FROM (
+    SELECT facet, jsonb_object_agg(value, total) AS counts
+    FROM (
+      SELECT f.facet, f.value, count(*) AS total
+      FROM products p
+      CROSS JOIN LATERAL (VALUES
+        ('type', p.metadata->'filters'->>'product_type'),
+        ('chip', p.metadata->'filters'->>'chip'),
+        ('wifi', p.metadata->'filters'->>'wifi_version'),
+        ('bluetooth', p.metadata->'filters'->>'bluetooth_version'),
+        ('usb', p.metadata->'filters'->>'usb_type'),
+        ('flash', product_filter_int(p.metadata->'filters'->>'flash_size')::TEXT),
+        ('psram', COALESCE(NULLIF(product_filter_int(p.metadata->'filters'->>'psram_size'), 0)::TEXT, 'none')),
+        ('gpio', product_filter_int(p.metadata->'filters'->>'gpio_count')::TEXT),
+        ('camera', product_filter_bool(p.metadata->'filters'->'has_camera')::TEXT),
+        ('display', product_filter_bool(p.metadata->'filters'->'has_display')::TEXT),
+        ('battery', product_filter_battery(p.metadata->'filters')::TEXT),
+        ('zigbee', product_filter_bool(p.metadata->'filters'->'has_zigbee')::TEXT),
+        ('thread', product_filter_bool(p.metadata->'filters'->'has_thread')::TEXT),
+        ('sdcard', product_filter_bool(p.metadata->'filters'->'has_sd_card')::TEXT)
+      ) AS f(facet, value)
+      WHERE f.value IS NOT NULL
+        AND product_matches_filters(p, filters, f.facet)
+      GROUP BY f.facet, f.value
+    ) value_counts
+    GROUP BY facet
+  ) facet_counts;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- PERMISSIONS
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION search_products(JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION product_filter_facets(JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION variants(products) TO anon, authenticated;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON FUNCTION product_matches_filters IS
+'Check a product against the public listing filters (see search_products). ignore_facet skips one facet for disjunctive counts.';
+
+COMMENT ON FUNCTION search_products IS
+'Active listing products (no custom parent) matching all filters. Sort and paginate with PostgREST order/range.';
+
+COMMENT ON FUNCTION variants(products) IS
+'Variants of a product (custom_parent_id), a PostgREST computed relationship for embedding.';
+
+COMMENT ON FUNCTION product_filter_facets IS
+'Product counts per facet value, each facet ignoring its own filter. Returns {"facet": {"value": count}}.';
+
+-- ============================================================================
+-- ROLLBACK
+-- ============================================================================
+
+-- To rollback this migration:
+-- DROP FUNCTION IF EXISTS product_filter_facets(JSONB);
+-- DROP FUNCTION IF EXISTS variants(products);
+-- DROP FUNCTION IF EXISTS search_products(JSONB);
+-- DROP FUNCTION IF EXISTS product_matches_filters(products, JSONB, TEXT);
+-- DROP FUNCTION IF EXISTS product_filter_battery(JSONB);
+-- DROP FUNCTION IF EXISTS product_filter_bool(JSONB);
+-- DROP FUNCTION IF EXISTS product_filter_int(TEXT);
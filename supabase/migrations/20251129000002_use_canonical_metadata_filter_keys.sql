@@ -0,0 +1,126 @@
+-- Migration: Canonical metadata filter keys for product search
+-- Description: Point the listing filters at the canonical metadata.filters keys of the shared filter registry
+-- Dependencies: 20251129000001_create_product_search_functions.sql
+-- Date: 2025-11-29
+
+-- ============================================================================
+-- OVERVIEW
+-- ============================================================================
+-- The catalog filtered on keys nothing else wrote (flash_size, psram_size,
+-- gpio_count, has_battery). The metadata vocabulary is now defined once in
+-- app/shared/metadata-filters.ts and these functions use its keys:
+--
+--   flash   metadata.filters.flash_mb >= N
+--   psram   'none' or metadata.filters.psram_mb >= N
+--   gpio    metadata.filters.gpio_pins >= N
+--   battery metadata.filters.has_battery_pins
+--
+-- Existing rows are rewritten by scripts/migrate-metadata-filters.ts
+-- (dry run by default, --apply to write).
+
+-- ============================================================================
+-- FUNCTION: product_matches_filters
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION product_matches_filters(
+  product products,
+  filters JSONB,
+  ignore_facet TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+  SELECT
+    product.status = 'active'
+    AND product.custom_parent_id IS NULL
+    AND (filters->>'marketplace_id' IS NULL
+      OR product.marketplace_id = (filters->>'marketplace_id')::UUID)
+    AND (filters->>'search' IS NULL
+      OR strpos(lower(product.title), lower(filters->>'search')) > 0
+      OR strpos(lower(COALESCE(product.description, '')), lower(filters->>'search')) > 0
+      OR strpos(lower(COALESCE(product.brand, '')), lower(filters->>'search')) > 0)
+    AND (filters->>'min_price' IS NULL
+      OR COALESCE(product.current_price, 0) >= (filters->>'min_price')::NUMERIC)
+    AND (filters->>'max_price' IS NULL
+      OR COALESCE(product.current_price, 0) <= (filters->>'max_price')::NUMERIC)
+    -- Facets
+    AND (ignore_facet = 'type' OR filters->>'type' IS NULL
+      OR product.metadata->'filters'->>'product_type' = filters->>'type')
+    AND (ignore_facet = 'chip' OR filters->>'chip' IS NULL
+      OR product.metadata->'filters'->>'chip' = filters->>'chip')
+    AND (ignore_facet = 'wifi' OR filters->>'wifi' IS NULL
+      OR product.metadata->'filters'->>'wifi_version' = filters->>'wifi')
+    AND (ignore_facet = 'bluetooth' OR filters->>'bluetooth' IS NULL
+      OR product.metadata->'filters'->>'bluetooth_version' = filters->>'bluetooth')
+    AND (ignore_facet = 'usb' OR filters->>'usb' IS NULL
+      OR product.metadata->'filters'->>'usb_type' = filters->>'usb')
+    AND (ignore_facet = 'flash' OR filters->>'flash' IS NULL
+      OR COALESCE(product_filter_int(product.metadata->'filters'->>'flash_mb') >= (filters->>'flash')::INTEGER, FALSE))
+    AND (ignore_facet = 'psram' OR filters->>'psram' IS NULL
+      OR CASE
+        WHEN filters->>'psram' = 'none'
+          THEN COALESCE(product_filter_int(product.metadata->'filters'->>'psram_mb'), 0) = 0
+        ELSE COALESCE(product_filter_int(product.metadata->'filters'->>'psram_mb') >= (filters->>'psram')::INTEGER, FALSE)
+      END)
+    AND (ignore_facet = 'gpio' OR filters->>'gpio' IS NULL
+      OR COALESCE(product_filter_int(product.metadata->'filters'->>'gpio_pins') >= (filters->>'gpio')::INTEGER, FALSE))
+    AND (ignore_facet = 'camera' OR filters->>'camera' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_camera') = (filters->>'camera')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'display' OR filters->>'display' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_display') = (filters->>'display')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'battery' OR filters->>'battery' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_battery_pins') = (filters->>'battery')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'zigbee' OR filters->>'zigbee' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_zigbee') = (filters->>'zigbee')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'thread' OR filters->>'thread' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_thread') = (filters->>'thread')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'sdcard' OR filters->>'sdcard' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_sd_card') = (filters->>'sdcard')::BOOLEAN, FALSE));
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: product_filter_facets
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION product_filter_facets(filters JSONB DEFAULT '{}'::JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(facet, counts), '{}'::JSONB)
+  FROM (
+    SELECT facet, jsonb_object_agg(value, total) AS counts
+    FROM (
+      SELECT f.facet, f.value, count(*) AS total
+      FROM products p
+      CROSS JOIN LATERAL (VALUES
+        ('type', p.metadata->'filters'->>'product_type'),
+        ('chip', p.metadata->'filters'->>'chip'),
+        ('wifi', p.metadata->'filters'->>'wifi_version'),
+        ('bluetooth', p.metadata->'filters'->>'bluetooth_version'),
+        ('usb', p.metadata->'filters'->>'usb_type'),
+        ('flash', product_filter_int(p.metadata->'filters'->>'flash_mb')::TEXT),
+        ('psram', COALESCE(NULLIF(product_filter_int(p.metadata->'filters'->>'psram_mb'), 0)::TEXT, 'none')),
+        ('gpio', product_filter_int(p.metadata->'filters'->>'gpio_pins')::TEXT),
+        ('camera', product_filter_bool(p.metadata->'filters'->'has_camera')::TEXT),
+        ('display', product_filter_bool(p.metadata->'filters'->'has_display')::TEXT),
+        ('battery', product_filter_bool(p.metadata->'filters'->'has_battery_pins')::TEXT),
+        ('zigbee', product_filter_bool(p.metadata->'filters'->'has_zigbee')::TEXT),
+        ('thread', product_filter_bool(p.metadata->'filters'->'has_thread')::TEXT),
+        ('sdcard', product_filter_bool(p.metadata->'filters'->'has_sd_card')::TEXT)
+      ) AS f(facet, value)
+      WHERE f.value IS NOT NULL
+        AND product_matches_filters(p, filters, f.facet)
+      GROUP BY f.facet, f.value
+    ) value_counts
+    GROUP BY facet
+  ) facet_counts;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- CLEANUP
+-- ============================================================================
+
+-- The legacy has_battery fallback is handled by the metadata migration script
+DROP FUNCTION IF EXISTS product_filter_battery(JSONB);
+
+-- ============================================================================
+-- ROLLBACK
+-- ============================================================================
+
+-- To rollback this migration, re-run 20251129000001_create_product_search_functions.sql
@@ -0,0 +1,140 @@
+-- Create import_batches and import_batch_rows tables for bulk ASIN imports
+--
+-- Flow:
+-- 1. Admin submits a list of ASINs or a CSV (asin, marketplace, product_type, group_slug)
+--    -> one import_batches row and one import_batch_rows row per line.
+--    Malformed ASINs and repeats within the batch are stored already settled
+--    ('invalid_asin' / 'duplicate') so the admin sees every line of the input.
+-- 2. The import-batch Edge Function picks up pending rows (triggered on submit and
+--    every minute by cron), looks them up with GetItems in chunks of 10 per marketplace
+--    and settles each row: 'imported', 'duplicate', 'not_accessible', 'invalid_asin' or 'failed'
+-- 3. Once no row is pending the batch is 'completed'
+-- 4. Failed rows can be retried from the admin page (status back to 'pending')
+
+-- ============================================================================
+-- IMPORT BATCHES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- How the ASINs were submitted
+  source TEXT NOT NULL CHECK (source IN ('list', 'csv')),
+
+  -- Job lifecycle
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed')),
+  total_rows INTEGER NOT NULL DEFAULT 0 CHECK (total_rows >= 0),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_import_batches_created_at ON import_batches(created_at DESC);
+
+-- Keep updated_at current
+CREATE TRIGGER update_import_batches_updated_at
+  BEFORE UPDATE ON import_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- IMPORT BATCH ROWS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS import_batch_rows (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  batch_id UUID NOT NULL REFERENCES import_batches(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL CHECK (row_number > 0), -- Line in the submitted list/CSV
+
+  -- What to import (asin is stored as submitted when it is invalid)
+  asin TEXT NOT NULL,
+  marketplace_id UUID NOT NULL REFERENCES marketplaces(id),
+  product_type TEXT,
+  group_id UUID REFERENCES product_groups(id) ON DELETE SET NULL,
+
+  -- Outcome
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending', 'imported', 'duplicate', 'not_accessible', 'invalid_asin', 'failed'
+  )),
+  error_message TEXT,
+  product_id UUID REFERENCES products(id) ON DELETE SET NULL, -- Imported or already existing product
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_at TIMESTAMPTZ, -- Set while a worker run claims the row
+  processed_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT import_batch_rows_unique_row UNIQUE (batch_id, row_number)
+);
+
+-- Worker picks up the oldest pending rows first
+CREATE INDEX idx_import_batch_rows_pending
+  ON import_batch_rows(created_at, row_number)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_import_batch_rows_batch_status ON import_batch_rows(batch_id, status);
+
+-- Keep updated_at current
+CREATE TRIGGER update_import_batch_rows_updated_at
+  BEFORE UPDATE ON import_batch_rows
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Import jobs are admin-only: admin API routes and the worker use the service role.
+
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batch_rows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage import batches"
+  ON import_batches
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage import batch rows"
+  ON import_batch_rows
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================================
+-- CRON
+-- ============================================================================
+-- Batches are also triggered right after submit; the cron job picks up rows left
+-- pending by a timeout, an open circuit breaker or a retry.
+-- Uses the WORKER_URL / WORKER_AUTH vault secrets of the refresh-worker cron job.
+
+SELECT cron.schedule(
+    'import-batch-every-minute',
+    '* * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'WORKER_URL') || '/functions/v1/import-batch',
+        body := '{}'::jsonb,
+        params := '{}'::jsonb,
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'WORKER_AUTH')
+        ),
+        timeout_milliseconds := 300000
+    ) as request_id;
+    $$
+);
+
+-- Add comment for documentation
+COMMENT ON TABLE import_batches IS 'Bulk ASIN import jobs submitted from the admin UI';
+COMMENT ON COLUMN import_batches.total_rows IS 'Number of lines submitted (including invalid ones)';
+COMMENT ON TABLE import_batch_rows IS 'One line of a bulk import with its per-row outcome';
+COMMENT ON COLUMN import_batch_rows.status IS 'pending, imported, duplicate (already in catalog or batch), not_accessible (PA-API), invalid_asin, failed (retryable)';
+COMMENT ON COLUMN import_batch_rows.product_type IS 'Optional metadata.filters.product_type set on the imported product';
+COMMENT ON COLUMN import_batch_rows.attempts IS 'GetItems attempts for this row (incremented per run)';
+COMMENT ON COLUMN import_batch_rows.locked_at IS 'Claim of the worker run processing the row; stale claims are taken over';
@@ -0,0 +1,90 @@
+-- Make the marketplaces table the single source of truth for marketplace settings
+--
+-- Previously the Amazon host, AWS region and supported codes were hardcoded in the
+-- Edge Functions and the Nuxt app. Every PA-API client, validator and the storefront
+-- marketplace selector now read them from this table (the app caches GET /api/marketplaces).
+--
+-- Adding a marketplace: set its associate_tag and is_active = true (or insert a new row).
+-- UK, FR, IT, ES and CA are seeded inactive without an associate tag; a marketplace
+-- cannot be activated until it has one.
+--
+-- Partner tag cut-over: US and DE still hold the seed tags from the initial schema.
+-- Until now the real tags came from the PAAPI_PARTNER_TAG_US / PAAPI_PARTNER_TAG_DE
+-- secrets, which keep overriding associate_tag (Edge Functions and the /go redirect).
+-- Deploy with the secrets still set, copy their values into associate_tag, e.g.
+--   UPDATE marketplaces SET associate_tag = '<tag>' WHERE code = 'US';
+-- then unset the secrets.
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE marketplaces
+  ADD COLUMN IF NOT EXISTS host TEXT,           -- Amazon storefront host sent to PA-API as Marketplace, e.g. 'www.amazon.de'
+  ADD COLUMN IF NOT EXISTS paapi_region TEXT,   -- AWS region used to sign PA-API requests, e.g. 'eu-west-1'
+  ADD COLUMN IF NOT EXISTS locale TEXT,         -- BCP 47 locale for prices and dates, e.g. 'de-DE'
+  ADD COLUMN IF NOT EXISTS flag TEXT,           -- Emoji flag shown in the marketplace selector
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- SEED DATA
+-- ============================================================================
+
+UPDATE marketplaces
+SET host = 'www.amazon.com', paapi_region = 'us-east-1', locale = 'en-US', flag = '🇺🇸', sort_order = 10
+WHERE code = 'US';
+
+UPDATE marketplaces
+SET host = 'www.amazon.de', paapi_region = 'eu-west-1', locale = 'de-DE', flag = '🇩🇪', sort_order = 20
+WHERE code = 'DE';
+
+-- Associate tags are optional while a marketplace is inactive
+ALTER TABLE marketplaces ALTER COLUMN associate_tag DROP NOT NULL;
+
+-- Not live yet: set the associate tag and is_active = true to enable
+INSERT INTO marketplaces (code, region_name, currency, paapi_endpoint, associate_tag, host, paapi_region, locale, flag, is_active, sort_order)
+VALUES
+  ('UK', 'United Kingdom', 'GBP', 'https://webservices.amazon.co.uk/paapi5/getitems', NULL, 'www.amazon.co.uk', 'eu-west-1', 'en-GB', '🇬🇧', false, 30),
+  ('FR', 'France', 'EUR', 'https://webservices.amazon.fr/paapi5/getitems', NULL, 'www.amazon.fr', 'eu-west-1', 'fr-FR', '🇫🇷', false, 40),
+  ('IT', 'Italy', 'EUR', 'https://webservices.amazon.it/paapi5/getitems', NULL, 'www.amazon.it', 'eu-west-1', 'it-IT', '🇮🇹', false, 50),
+  ('ES', 'Spain', 'EUR', 'https://webservices.amazon.es/paapi5/getitems', NULL, 'www.amazon.es', 'eu-west-1', 'es-ES', '🇪🇸', false, 60),
+  ('CA', 'Canada', 'CAD', 'https://webservices.amazon.ca/paapi5/getitems', NULL, 'www.amazon.ca', 'us-east-1', 'en-CA', '🇨🇦', false, 70)
+ON CONFLICT (code) DO NOTHING;
+
+-- Any other existing rows fall back to the US settings until configured
+UPDATE marketplaces
+SET host = COALESCE(host, 'www.amazon.com'),
+    paapi_region = COALESCE(paapi_region, 'us-east-1'),
+    locale = COALESCE(locale, 'en-US'),
+    flag = COALESCE(flag, '🌐')
+WHERE host IS NULL OR paapi_region IS NULL OR locale IS NULL OR flag IS NULL;
+
+ALTER TABLE marketplaces
+  ALTER COLUMN host SET NOT NULL,
+  ALTER COLUMN paapi_region SET NOT NULL,
+  ALTER COLUMN locale SET NOT NULL,
+  ALTER COLUMN flag SET NOT NULL;
+
+-- Every PA-API request and affiliate link of an active marketplace needs a partner tag
+ALTER TABLE marketplaces
+  ADD CONSTRAINT marketplaces_active_requires_associate_tag
+  CHECK (NOT is_active OR NULLIF(btrim(associate_tag), '') IS NOT NULL);
+
+-- Selector and validators list active marketplaces in display order
+CREATE INDEX IF NOT EXISTS idx_marketplaces_active_sort
+  ON marketplaces(sort_order, code)
+  WHERE is_active;
+
+-- ============================================================================
+-- COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN marketplaces.host IS 'Amazon storefront host, sent to PA-API as Marketplace (www.amazon.de)';
+COMMENT ON COLUMN marketplaces.paapi_region IS 'AWS region used to sign PA-API requests (us-east-1, eu-west-1, us-west-2)';
+COMMENT ON COLUMN marketplaces.paapi_endpoint IS 'Amazon Product Advertising API 5.0 GetItems URL; its host is used for every PA-API operation';
+COMMENT ON COLUMN marketplaces.associate_tag IS 'Amazon Associate Tag (Partner Tag) sent with every PA-API request for this marketplace; required while active, overridden by the PAAPI_PARTNER_TAG_<CODE> secret';
+COMMENT ON COLUMN marketplaces.locale IS 'BCP 47 locale for formatting prices (de-DE)';
+COMMENT ON COLUMN marketplaces.flag IS 'Emoji flag shown in the marketplace selector';
+COMMENT ON COLUMN marketplaces.is_active IS 'Only active marketplaces are accepted by the API and shown in the selector';
+COMMENT ON COLUMN marketplaces.sort_order IS 'Display order in the marketplace selector';
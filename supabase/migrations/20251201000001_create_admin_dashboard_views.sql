@@ -0,0 +1,71 @@
+-- Migration: Admin dashboard views
+-- Description: Aggregates behind GET /api/admin/dashboard
+-- Dependencies: 20251124000002_create_products.sql, 20251126000001_create_amazon_clicks.sql
+-- Date: 2025-12-01
+
+-- ============================================================================
+-- OVERVIEW
+-- ============================================================================
+-- The dashboard shows catalog, refresh and click metrics. Counting happens here
+-- so the route never downloads products or clicks:
+--
+--   v_product_status_counts             -> one row per marketplace and product status
+--   top_clicked_products(since, limit)  -> most clicked products since a timestamp
+--
+-- Refresh metrics come from the existing v_products_needing_refresh and
+-- v_refresh_job_stats views. Both are read with the service role (clicks are not
+-- readable by anon).
+
+-- ============================================================================
+-- VIEW: v_product_status_counts
+-- ============================================================================
+
+CREATE OR REPLACE VIEW v_product_status_counts AS
+SELECT
+    m.code AS marketplace,
+    p.status,
+    COUNT(*)::INTEGER AS product_count
+FROM products p
+JOIN marketplaces m ON p.marketplace_id = m.id
+GROUP BY m.code, p.status;
+
+COMMENT ON VIEW v_product_status_counts IS 'Product count per marketplace code and status (admin dashboard)';
+
+-- ============================================================================
+-- FUNCTION: top_clicked_products
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION top_clicked_products(since TIMESTAMPTZ, max_results INTEGER DEFAULT 5)
+RETURNS TABLE (
+    product_id UUID,
+    product_asin TEXT,
+    product_slug TEXT,
+    marketplace_code TEXT,
+    clicks INTEGER,
+    sessions INTEGER
+) AS $$
+  SELECT
+    c.product_id,
+    MAX(c.product_asin),
+    MAX(c.product_slug),
+    MAX(c.marketplace_code),
+    COUNT(*)::INTEGER,
+    COUNT(DISTINCT c.session_id)::INTEGER
+  FROM amazon_clicks c
+  WHERE c.clicked_at >= since
+    AND c.product_id IS NOT NULL
+  GROUP BY c.product_id
+  ORDER BY COUNT(*) DESC, MAX(c.clicked_at) DESC
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION top_clicked_products IS 'Most clicked products since a timestamp, with click and unique session counts';
+
+REVOKE EXECUTE ON FUNCTION top_clicked_products(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION top_clicked_products(TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- ============================================================================
+-- ROLLBACK (if needed)
+-- ============================================================================
+-- DROP FUNCTION IF EXISTS top_clicked_products(TIMESTAMPTZ, INTEGER);
+-- DROP VIEW IF EXISTS v_product_status_counts;
@@ -0,0 +1,60 @@
+-- Create circuit_breakers table to share circuit breaker state across Edge Function isolates
+--
+-- The PA-API circuit breaker used to live in module memory, so every isolate of
+-- import-product, search-products, refresh-worker and import-batch had its own
+-- breaker that reset on cold start. The functions now load and save the breaker
+-- state here (PostgresCircuitStateStore in _shared/circuit-breaker-store.ts).
+--
+-- Admins can force a breaker open (forced_open = true blocks every request until
+-- it is force-closed) from the admin dashboard via POST /api/admin/circuit-breakers/:name.
+
+-- ============================================================================
+-- CIRCUIT BREAKERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+  -- Breaker name, e.g. 'paapi-client'
+  name TEXT PRIMARY KEY,
+
+  -- Automatic state (see _shared/circuit-breaker.ts for the transitions)
+  state circuit_breaker_state NOT NULL DEFAULT 'closed',
+  failure_count INTEGER NOT NULL DEFAULT 0 CHECK (failure_count >= 0),
+  success_count INTEGER NOT NULL DEFAULT 0 CHECK (success_count >= 0),
+  last_failure_at TIMESTAMPTZ,
+
+  -- Admin override
+  forced_open BOOLEAN NOT NULL DEFAULT false,
+  forced_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Keep updated_at current
+CREATE TRIGGER update_circuit_breakers_updated_at
+  BEFORE UPDATE ON circuit_breakers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO circuit_breakers (name) VALUES ('paapi-client')
+ON CONFLICT (name) DO NOTHING;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Edge Functions and admin API routes use the service role.
+
+ALTER TABLE circuit_breakers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage circuit breakers"
+  ON circuit_breakers
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE circuit_breakers IS 'Circuit breaker state shared by all Edge Function isolates';
+COMMENT ON COLUMN circuit_breakers.failure_count IS 'Consecutive failures; the breaker opens at its failure threshold';
+COMMENT ON COLUMN circuit_breakers.last_failure_at IS 'Last failure; an open breaker goes half-open once its cooldown has passed since then';
+COMMENT ON COLUMN circuit_breakers.forced_open IS 'Set by an admin: every request is blocked until the breaker is force-closed';
@@ -0,0 +1,155 @@
+-- Create rate limit tables to share the PA-API token bucket and daily quota across Edge Function isolates
+--
+-- PA-API limits requests per second and per day for the whole account. Every
+-- PA-API request first takes a token with take_rate_limit_token(), which
+-- refills the bucket, checks the day's quota and records usage in one
+-- transaction (PostgresRateLimitStore in _shared/rate-limit-store.ts).
+--
+-- Usage is recorded per UTC day and priority class (interactive admin searches,
+-- imports, background refreshes) for the admin dashboard.
+
+-- ============================================================================
+-- RATE LIMITS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  -- Limiter name, e.g. 'paapi'
+  name TEXT PRIMARY KEY,
+
+  -- Token bucket
+  tokens NUMERIC NOT NULL CHECK (tokens >= 0),
+  refilled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Keep updated_at current
+CREATE TRIGGER update_rate_limits_updated_at
+  BEFORE UPDATE ON rate_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- DAILY USAGE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_usage (
+  name TEXT NOT NULL,
+
+  -- UTC day the quota applies to
+  usage_date DATE NOT NULL,
+
+  priority TEXT NOT NULL CHECK (priority IN ('interactive', 'import', 'background')),
+  request_count INTEGER NOT NULL DEFAULT 0 CHECK (request_count >= 0),
+  denied_count INTEGER NOT NULL DEFAULT 0 CHECK (denied_count >= 0),
+
+  PRIMARY KEY (name, usage_date, priority)
+);
+
+-- ============================================================================
+-- HELPER FUNCTIONS
+-- ============================================================================
+
+-- Take one token for a priority class
+--
+-- Refused with reason 'quota' once the day's requests reach p_quota_limit (the
+-- daily quota minus the share reserved for higher classes), or 'rate' while
+-- the bucket is empty; wait_ms says when to try again.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(
+  p_name TEXT,
+  p_priority TEXT,
+  p_requests_per_second NUMERIC,
+  p_quota_limit INTEGER
+)
+RETURNS TABLE (granted BOOLEAN, reason TEXT, wait_ms INTEGER, used_today INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_today DATE := (v_now AT TIME ZONE 'UTC')::DATE;
+  v_capacity NUMERIC := GREATEST(1, p_requests_per_second);
+  v_tokens NUMERIC;
+  v_used INTEGER;
+BEGIN
+  INSERT INTO rate_limits (name, tokens, refilled_at)
+  VALUES (p_name, v_capacity, v_now)
+  ON CONFLICT (name) DO NOTHING;
+
+  -- Serializes concurrent isolates on the bucket row
+  SELECT LEAST(
+    v_capacity,
+    rl.tokens + GREATEST(0, EXTRACT(EPOCH FROM (v_now - rl.refilled_at))) * p_requests_per_second
+  )
+  INTO v_tokens
+  FROM rate_limits rl
+  WHERE rl.name = p_name
+  FOR UPDATE;
+
+  SELECT COALESCE(SUM(request_count), 0)::INTEGER
+  INTO v_used
+  FROM rate_limit_usage
+  WHERE name = p_name AND usage_date = v_today;
+
+  IF v_used >= p_quota_limit THEN
+    INSERT INTO rate_limit_usage (name, usage_date, priority, denied_count)
+    VALUES (p_name, v_today, p_priority, 1)
+    ON CONFLICT (name, usage_date, priority)
+    DO UPDATE SET denied_count = rate_limit_usage.denied_count + 1;
+
+    RETURN QUERY SELECT
+      false,
+      'quota'::TEXT,
+      CEIL(EXTRACT(EPOCH FROM ((v_today + 1)::TIMESTAMP AT TIME ZONE 'UTC' - v_now)) * 1000)::INTEGER,
+      v_used;
+    RETURN;
+  END IF;
+
+  IF v_tokens < 1 THEN
+    UPDATE rate_limits SET tokens = v_tokens, refilled_at = v_now WHERE name = p_name;
+
+    RETURN QUERY SELECT false, 'rate'::TEXT, CEIL((1 - v_tokens) / p_requests_per_second * 1000)::INTEGER, v_used;
+    RETURN;
+  END IF;
+
+  UPDATE rate_limits SET tokens = v_tokens - 1, refilled_at = v_now WHERE name = p_name;
+
+  INSERT INTO rate_limit_usage (name, usage_date, priority, request_count)
+  VALUES (p_name, v_today, p_priority, 1)
+  ON CONFLICT (name, usage_date, priority)
+  DO UPDATE SET request_count = rate_limit_usage.request_count + 1;
+
+  RETURN QUERY SELECT true, NULL::TEXT, 0, v_used + 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(TEXT, TEXT, NUMERIC, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION take_rate_limit_token(TEXT, TEXT, NUMERIC, INTEGER) TO service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Edge Functions and admin API routes use the service role.
+
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage rate limits"
+  ON rate_limits
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage rate limit usage"
+  ON rate_limit_usage
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON TABLE rate_limits IS 'Token buckets shared by all Edge Function isolates';
+COMMENT ON TABLE rate_limit_usage IS 'Requests per limiter, UTC day and priority class';
+COMMENT ON COLUMN rate_limit_usage.denied_count IS 'Requests refused because the priority class had used its share of the daily quota';
+COMMENT ON FUNCTION take_rate_limit_token IS 'Take a rate limit token: refill the bucket, check the daily quota and record usage atomically';
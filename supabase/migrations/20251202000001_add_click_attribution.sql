@@ -0,0 +1,38 @@
+-- Record affiliate clicks server-side with the link and campaign they came from
+--
+-- Product pages now link to Amazon through GET /go/:slug, which looks up the
+-- product, records the click with the service role and redirects with the
+-- marketplace's associate tag. Clicks are no longer written by browsers, so
+-- anonymous inserts (which trusted client-supplied ASINs and slugs) are revoked.
+
+-- ============================================================================
+-- ATTRIBUTION COLUMNS
+-- ============================================================================
+
+ALTER TABLE amazon_clicks
+  ADD COLUMN IF NOT EXISTS placement TEXT,
+  ADD COLUMN IF NOT EXISTS utm_source TEXT,
+  ADD COLUMN IF NOT EXISTS utm_medium TEXT,
+  ADD COLUMN IF NOT EXISTS utm_campaign TEXT,
+  ADD COLUMN IF NOT EXISTS utm_term TEXT,
+  ADD COLUMN IF NOT EXISTS utm_content TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_amazon_clicks_campaign
+  ON amazon_clicks(utm_campaign, clicked_at DESC)
+  WHERE utm_campaign IS NOT NULL;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Allow anonymous click tracking" ON amazon_clicks;
+
+CREATE POLICY "Service role can record clicks"
+  ON amazon_clicks
+  FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+-- Add comment for documentation
+COMMENT ON COLUMN amazon_clicks.placement IS 'Link that was clicked, e.g. buy-button or reviews (from the /go/:slug placement parameter)';
+COMMENT ON COLUMN amazon_clicks.utm_campaign IS 'Campaign the visitor arrived with (utm_* parameters passed on by the product page)';
@@ -0,0 +1,127 @@
+-- Migration: Click analytics functions
+-- Description: Aggregates behind GET /api/analytics/clicks
+-- Dependencies: 20251126000001_create_amazon_clicks.sql, 20251202000001_add_click_attribution.sql
+-- Date: 2025-12-02
+
+-- ============================================================================
+-- OVERVIEW
+-- ============================================================================
+-- The clicks page used to download the newest clicks and group them in the
+-- route, so every total was capped at the download size. Grouping now happens
+-- here and the route only reads one row per group:
+--
+--   click_totals(since, until)                               -> clicks, unique sessions and products
+--   click_breakdown(dimension, since, until, max_results)    -> clicks and sessions per group
+--
+-- Dimensions: 'day' and 'week' (UTC, weeks start on Monday, oldest first),
+-- 'product' (product id), 'marketplace', 'referrer' (domain) and 'device'
+-- (class parsed from the user agent); the others are ordered by clicks.
+-- `since` NULL means since the first click. Both functions are service role only.
+
+-- ============================================================================
+-- FUNCTION: click_device_class
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION click_device_class(user_agent TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN user_agent IS NULL OR user_agent = '' THEN 'unknown'
+    WHEN user_agent ~* 'bot|crawl|spider|slurp|preview|headless' THEN 'bot'
+    WHEN user_agent ~* 'ipad|tablet|kindle|silk|playbook'
+      OR (user_agent ~* 'android' AND user_agent !~* 'mobile') THEN 'tablet'
+    WHEN user_agent ~* 'mobi|iphone|ipod|android|windows phone|blackberry|opera mini' THEN 'mobile'
+    ELSE 'desktop'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION click_device_class IS 'Device class of a user agent: mobile, tablet, desktop, bot or unknown';
+
+-- ============================================================================
+-- FUNCTION: click_referrer_domain
+-- ============================================================================
+
+-- Clicks from product pages carry the store's own domain; other domains are
+-- links to /go/:slug placed elsewhere (newsletters, other sites)
+CREATE OR REPLACE FUNCTION click_referrer_domain(referrer TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(lower(substring(referrer FROM '^[A-Za-z][A-Za-z0-9+.-]*://(?:www\.)?([^/:?#]+)')), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION click_referrer_domain IS 'Host of a referrer URL without www., NULL for direct visits and unparseable referrers';
+
+-- ============================================================================
+-- FUNCTION: click_totals
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION click_totals(since TIMESTAMPTZ, until TIMESTAMPTZ)
+RETURNS TABLE (
+    clicks INTEGER,
+    sessions INTEGER,
+    products INTEGER
+) AS $$
+  SELECT
+    COUNT(*)::INTEGER,
+    COUNT(DISTINCT c.session_id)::INTEGER,
+    COUNT(DISTINCT c.product_asin)::INTEGER
+  FROM amazon_clicks c
+  WHERE (since IS NULL OR c.clicked_at >= since)
+    AND c.clicked_at < until;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION click_totals IS 'Clicks, unique sessions and unique products between two timestamps (since NULL = all time)';
+
+-- ============================================================================
+-- FUNCTION: click_breakdown
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION click_breakdown(
+    dimension TEXT,
+    since TIMESTAMPTZ,
+    until TIMESTAMPTZ,
+    max_results INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket TEXT,
+    clicks INTEGER,
+    sessions INTEGER
+) AS $$
+  SELECT b.bucket, b.clicks, b.sessions
+  FROM (
+    SELECT
+      CASE dimension
+        WHEN 'day' THEN to_char(date_trunc('day', c.clicked_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')
+        WHEN 'week' THEN to_char(date_trunc('week', c.clicked_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')
+        WHEN 'product' THEN c.product_id::TEXT
+        WHEN 'marketplace' THEN c.marketplace_code
+        WHEN 'referrer' THEN click_referrer_domain(c.referrer)
+        WHEN 'device' THEN click_device_class(c.user_agent)
+      END AS bucket,
+      COUNT(*)::INTEGER AS clicks,
+      COUNT(DISTINCT c.session_id)::INTEGER AS sessions
+    FROM amazon_clicks c
+    WHERE (since IS NULL OR c.clicked_at >= since)
+      AND c.clicked_at < until
+    GROUP BY 1
+  ) b
+  ORDER BY
+    CASE WHEN dimension IN ('day', 'week') THEN b.bucket END,
+    b.clicks DESC,
+    b.bucket
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION click_breakdown IS 'Clicks and unique sessions per day, week, product, marketplace, referrer domain or device class (max_results NULL = all groups)';
+
+REVOKE EXECUTE ON FUNCTION click_totals(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION click_totals(TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION click_breakdown(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION click_breakdown(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- ============================================================================
+-- ROLLBACK (if needed)
+-- ============================================================================
+-- DROP FUNCTION IF EXISTS click_breakdown(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER);
+-- DROP FUNCTION IF EXISTS click_totals(TIMESTAMPTZ, TIMESTAMPTZ);
+-- DROP FUNCTION IF EXISTS click_referrer_domain(TEXT);
+-- DROP FUNCTION IF EXISTS click_device_class(TEXT);
@@ -0,0 +1,204 @@
+-- Anonymize and expire affiliate click data
+--
+-- amazon_clicks kept full IP addresses and user agents forever. A daily cron job
+-- now runs anonymize_amazon_clicks(), which:
+--
+--   1. deletes clicks older than the retention window (395 days, so a full year
+--      can still be compared with the year before), and
+--   2. for clicks older than 30 days: stores the device class parsed from the
+--      user agent, drops the user agent and truncates the IP address to its
+--      /24 (IPv4) or /48 (IPv6) network.
+--
+-- Both windows live in click_retention_settings and apply from the next run.
+--
+-- The coarse country is recorded with the click (country_code, from the CDN's
+-- geolocation header in GET /go/:slug), so no IP lookup is needed later.
+-- To change the windows:
+--   UPDATE click_retention_settings SET anonymize_after = INTERVAL '14 days', delete_after = INTERVAL '180 days';
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE amazon_clicks
+  ADD COLUMN IF NOT EXISTS country_code TEXT,          -- ISO 3166-1 alpha-2, e.g. 'DE'
+  ADD COLUMN IF NOT EXISTS device_class TEXT,          -- click_device_class(user_agent), kept after anonymization
+  ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMPTZ;  -- NULL while the IP and user agent are still complete
+
+CREATE INDEX IF NOT EXISTS idx_amazon_clicks_not_anonymized
+  ON amazon_clicks(clicked_at)
+  WHERE anonymized_at IS NULL;
+
+-- ============================================================================
+-- TABLE: click_retention_settings (single row)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS click_retention_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),  -- Only one row
+    anonymize_after INTERVAL NOT NULL DEFAULT INTERVAL '30 days',
+    delete_after INTERVAL NOT NULL DEFAULT INTERVAL '395 days',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT click_retention_windows_ordered CHECK (
+      anonymize_after > INTERVAL '0' AND delete_after >= anonymize_after
+    )
+);
+
+INSERT INTO click_retention_settings (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TRIGGER update_click_retention_settings_updated_at
+    BEFORE UPDATE ON click_retention_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the service role (and the cron job) reads or changes the windows
+ALTER TABLE click_retention_settings ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE click_retention_settings IS 'Retention windows of affiliate click data, read by anonymize_amazon_clicks() on every run';
+COMMENT ON COLUMN click_retention_settings.anonymize_after IS 'Age after which the IP address is truncated and the user agent dropped';
+COMMENT ON COLUMN click_retention_settings.delete_after IS 'Age after which clicks are deleted';
+
+-- ============================================================================
+-- FUNCTION: anonymize_ip
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION anonymize_ip(ip INET)
+RETURNS INET AS $$
+  SELECT CASE
+    WHEN ip IS NULL THEN NULL
+    WHEN family(ip) = 4 THEN network(set_masklen(ip, 24))::INET
+    ELSE network(set_masklen(ip, 48))::INET
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION anonymize_ip IS 'Network of an IP address: /24 for IPv4, /48 for IPv6 (e.g. 203.0.113.7 -> 203.0.113.0/24)';
+
+-- ============================================================================
+-- FUNCTION: anonymize_amazon_clicks
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION anonymize_amazon_clicks(
+    anonymize_after INTERVAL DEFAULT NULL,  -- NULL = click_retention_settings
+    delete_after INTERVAL DEFAULT NULL      -- NULL = click_retention_settings
+)
+RETURNS TABLE (
+    anonymized INTEGER,
+    deleted INTEGER
+) AS $$
+DECLARE
+  v_anonymized INTEGER;
+  v_deleted INTEGER;
+BEGIN
+  -- Parameters are qualified: the settings columns share their names
+  SELECT
+    COALESCE(anonymize_amazon_clicks.anonymize_after, s.anonymize_after),
+    COALESCE(anonymize_amazon_clicks.delete_after, s.delete_after)
+  INTO anonymize_after, delete_after
+  FROM click_retention_settings s;
+
+  IF anonymize_after IS NULL OR delete_after IS NULL THEN
+    RAISE EXCEPTION 'click_retention_settings has no row';
+  END IF;
+
+  IF delete_after < anonymize_after THEN
+    RAISE EXCEPTION 'delete_after (%) must not be shorter than anonymize_after (%)', delete_after, anonymize_after;
+  END IF;
+
+  DELETE FROM amazon_clicks
+  WHERE clicked_at < NOW() - delete_after;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Derive the device class before the user agent is dropped
+  UPDATE amazon_clicks
+  SET
+    device_class = COALESCE(device_class, click_device_class(user_agent)),
+    user_agent = NULL,
+    ip_address = anonymize_ip(ip_address),
+    anonymized_at = NOW()
+  WHERE anonymized_at IS NULL
+    AND clicked_at < NOW() - anonymize_after;
+
+  GET DIAGNOSTICS v_anonymized = ROW_COUNT;
+
+  RETURN QUERY SELECT v_anonymized, v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION anonymize_amazon_clicks IS 'Deletes clicks older than delete_after and truncates IPs / drops user agents of clicks older than anonymize_after (windows default to click_retention_settings)';
+
+REVOKE EXECUTE ON FUNCTION anonymize_amazon_clicks(INTERVAL, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION anonymize_amazon_clicks(INTERVAL, INTERVAL) TO service_role;
+
+-- ============================================================================
+-- FUNCTION: click_breakdown (device class after anonymization, country)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION click_breakdown(
+    dimension TEXT,
+    since TIMESTAMPTZ,
+    until TIMESTAMPTZ,
+    max_results INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+    bucket TEXT,
+    clicks INTEGER,
+    sessions INTEGER
+) AS $$
+  SELECT b.bucket, b.clicks, b.sessions
+  FROM (
+    SELECT
+      CASE dimension
+        WHEN 'day' THEN to_char(date_trunc('day', c.clicked_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')
+        WHEN 'week' THEN to_char(date_trunc('week', c.clicked_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')
+        WHEN 'product' THEN c.product_id::TEXT
+        WHEN 'marketplace' THEN c.marketplace_code
+        WHEN 'referrer' THEN click_referrer_domain(c.referrer)
+        WHEN 'device' THEN COALESCE(c.device_class, click_device_class(c.user_agent))
+        WHEN 'country' THEN c.country_code
+      END AS bucket,
+      COUNT(*)::INTEGER AS clicks,
+      COUNT(DISTINCT c.session_id)::INTEGER AS sessions
+    FROM amazon_clicks c
+    WHERE (since IS NULL OR c.clicked_at >= since)
+      AND c.clicked_at < until
+    GROUP BY 1
+  ) b
+  ORDER BY
+    CASE WHEN dimension IN ('day', 'week') THEN b.bucket END,
+    b.clicks DESC,
+    b.bucket
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION click_breakdown IS 'Clicks and unique sessions per day, week, product, marketplace, referrer domain, device class or country (max_results NULL = all groups)';
+
+-- ============================================================================
+-- CRON
+-- ============================================================================
+-- Runs in the database, no Edge Function involved. The windows come from
+-- click_retention_settings, so changing them needs no reschedule.
+
+SELECT cron.schedule(
+    'click-retention-daily',
+    '15 3 * * *',
+    $$SELECT anonymize_amazon_clicks()$$
+);
+
+-- Add comment for documentation
+COMMENT ON COLUMN amazon_clicks.ip_address IS 'Visitor IP address, truncated to /24 (IPv4) or /48 (IPv6) by anonymize_amazon_clicks()';
+COMMENT ON COLUMN amazon_clicks.user_agent IS 'Visitor user agent, dropped by anonymize_amazon_clicks() once device_class is set';
+COMMENT ON COLUMN amazon_clicks.session_id IS 'Value of the session_id cookie; NULL for visitors who only accepted necessary cookies';
+COMMENT ON COLUMN amazon_clicks.country_code IS 'Visitor country from the CDN geolocation header at click time';
+COMMENT ON COLUMN amazon_clicks.anonymized_at IS 'When the IP address was truncated and the user agent dropped';
+
+-- ============================================================================
+-- ROLLBACK (if needed)
+-- ============================================================================
+-- SELECT cron.unschedule('click-retention-daily');
+-- DROP FUNCTION IF EXISTS anonymize_amazon_clicks(INTERVAL, INTERVAL);
+-- DROP FUNCTION IF EXISTS anonymize_ip(INET);
+-- DROP TABLE IF EXISTS click_retention_settings;
+-- (click_breakdown: re-run 20251202000002_create_click_analytics_functions.sql)
+-- ALTER TABLE amazon_clicks DROP COLUMN anonymized_at, DROP COLUMN device_class, DROP COLUMN country_code;
@@ -0,0 +1,67 @@
+-- Store Edge Function and Nuxt server logs for the admin log viewer
+--
+-- Edge Functions write here when LOG_SINKS includes "postgres"
+-- (PostgresLogSink in _shared/log-sinks.ts); Nuxt server routes record their
+-- warnings and errors (server/utils/request-log.ts). Entries of one request carry
+-- the same correlation_id, which the Nuxt server forwards to Edge Functions in
+-- the x-correlation-id header, so /admin/logs can show a request end to end.
+--
+-- Entries are kept for 14 days (cron job below).
+
+-- ============================================================================
+-- FUNCTION LOGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS function_logs (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+
+  logged_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  level TEXT NOT NULL CHECK (level IN ('debug', 'info', 'warn', 'error')),
+  message TEXT NOT NULL,
+
+  -- Edge Function name (e.g. 'import-product') or Nuxt route (e.g. 'nuxt:/api/products/import')
+  source TEXT,
+  correlation_id TEXT,
+
+  metadata JSONB,
+  error JSONB -- { name, message, stack }
+);
+
+CREATE INDEX IF NOT EXISTS idx_function_logs_logged_at
+  ON function_logs(logged_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_function_logs_correlation
+  ON function_logs(correlation_id, logged_at)
+  WHERE correlation_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_function_logs_level
+  ON function_logs(level, logged_at DESC)
+  WHERE level IN ('warn', 'error');
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE function_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage function logs"
+  ON function_logs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================================
+-- CRON
+-- ============================================================================
+
+SELECT cron.schedule(
+    'function-logs-retention-daily',
+    '45 3 * * *',
+    $$DELETE FROM function_logs WHERE logged_at < NOW() - INTERVAL '14 days'$$
+);
+
+-- Add comment for documentation
+COMMENT ON TABLE function_logs IS 'Structured log entries of Edge Functions and Nuxt server routes (14 days)';
+COMMENT ON COLUMN function_logs.correlation_id IS 'Request trace ID shared by the Nuxt route and the Edge Functions it called (x-correlation-id)';
+COMMENT ON COLUMN function_logs.source IS 'Edge Function name or nuxt:<route path>';
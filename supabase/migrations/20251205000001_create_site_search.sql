@@ -0,0 +1,371 @@
+-- Migration: Full-text site search
+-- Description: Ranked, typo-tolerant search over products and product groups (GET /api/search, header typeahead, catalog search)
+-- Dependencies: 20251129000002_use_canonical_metadata_filter_keys.sql, 20251127000004_add_group_id_to_products.sql
+-- Date: 2025-12-05
+
+-- ============================================================================
+-- OVERVIEW
+-- ============================================================================
+-- Products and groups get two search columns, kept up to date by triggers:
+--
+--   search_vector  TSVECTOR  'simple' lexemes (no stemming, so part numbers stay intact)
+--                            weighted A title, B brand and metadata.display values,
+--                            C features (groups: description), D description
+--   search_text    TEXT      normalized title, brand and display values for trigram matching
+--
+-- Text is indexed twice: as written ("ESP32-S3" -> esp32-s3, esp32, s3) and
+-- normalized (search_normalize: lowercase without - _ . /, "ESP32-S3" -> esp32s3),
+-- so "esp32s3", "ESP32 S3" and "esp32-s3" all find the same boards.
+--
+-- A product matches when every query word is a prefix of one of its lexemes
+-- (typeahead: "esp32-s" already matches) or, for typos, when the normalized query
+-- is similar to a word sequence of search_text (pg_trgm <%, default threshold 0.6).
+--
+--   site_search_products(query, marketplace_id, max_results)  -> ranked products with highlights
+--   site_search_groups(query, marketplace_id, max_results)    -> ranked groups with active products
+--
+-- Highlights come from ts_headline with chr(2) / chr(3) around matched words; the
+-- API turns them into segments, so no product text is ever rendered as HTML.
+--
+-- The catalog's `search` filter (product_matches_filters) uses the same matching.
+-- All functions are SECURITY INVOKER, so RLS still limits anon callers to active products.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- ============================================================================
+-- COLUMNS
+-- ============================================================================
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+ALTER TABLE product_groups
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- Lowercase without the separators of part numbers ("ESP32-S3 DevKitC-1" -> "esp32s3 devkitc1")
+CREATE OR REPLACE FUNCTION search_normalize(value TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(lower(COALESCE(value, '')), '[-_./]+', '', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- metadata.display values as one text ("ESP32-S3 8MB Flash WiFi 4 ...")
+CREATE OR REPLACE FUNCTION search_display_text(metadata JSONB)
+RETURNS TEXT AS $$
+  SELECT COALESCE(string_agg(value, ' '), '')
+  FROM jsonb_each_text(
+    CASE WHEN jsonb_typeof(metadata->'display') = 'object' THEN metadata->'display' ELSE '{}'::JSONB END
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Lexemes of a text as written and normalized, with one weight
+CREATE OR REPLACE FUNCTION search_weighted_vector(value TEXT, weight "char")
+RETURNS TSVECTOR AS $$
+  SELECT setweight(
+    to_tsvector('simple', COALESCE(value, '')) || to_tsvector('simple', search_normalize(value)),
+    weight
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Prefix query requiring every word ("esp32-s3 cam" -> 'esp32':* & 's3':* & 'cam':*); NULL without words
+CREATE OR REPLACE FUNCTION search_prefix_query(query TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery('simple', string_agg(quote_literal(token) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(COALESCE(query, '')), '[^[:alnum:]]+') AS token
+  WHERE token <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether a search_vector / search_text pair matches a query (words or typo-tolerant trigrams)
+CREATE OR REPLACE FUNCTION search_matches(vector TSVECTOR, normalized_text TEXT, query TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(vector @@ search_prefix_query(query), FALSE)
+    OR search_normalize(query) <% normalized_text;
+$$ LANGUAGE sql STABLE;
+
+-- Relevance of a match: word rank (title words weigh most) plus trigram similarity
+CREATE OR REPLACE FUNCTION search_rank(vector TSVECTOR, normalized_text TEXT, query TEXT)
+RETURNS REAL AS $$
+  SELECT COALESCE(ts_rank(vector, search_prefix_query(query)), 0)
+    + word_similarity(search_normalize(query), COALESCE(normalized_text, ''));
+$$ LANGUAGE sql STABLE;
+
+-- Text with the query's words between chr(2) and chr(3); whole text, or a short fragment
+CREATE OR REPLACE FUNCTION search_highlight(value TEXT, query TEXT, fragment BOOLEAN DEFAULT FALSE)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN value IS NULL OR value = '' THEN NULL
+    WHEN search_prefix_query(query) IS NULL THEN value
+    ELSE ts_headline(
+      'simple',
+      value,
+      search_prefix_query(query),
+      format(
+        'StartSel="%s", StopSel="%s", %s',
+        chr(2),
+        chr(3),
+        CASE WHEN fragment THEN 'MaxFragments=1, MaxWords=24, MinWords=10, FragmentDelimiter=" … "' ELSE 'HighlightAll=true' END
+      )
+    )
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_product_search_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    search_weighted_vector(NEW.title, 'A')
+    || search_weighted_vector(NEW.brand, 'B')
+    || search_weighted_vector(search_display_text(NEW.metadata), 'B')
+    || search_weighted_vector(array_to_string(NEW.features, ' '), 'C')
+    || setweight(to_tsvector('simple', COALESCE(NEW.description, '')), 'D');
+  NEW.search_text := search_normalize(concat_ws(' ', NEW.title, NEW.brand, search_display_text(NEW.metadata)));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_products_search_columns
+    BEFORE INSERT OR UPDATE OF title, brand, metadata, features, description ON products
+    FOR EACH ROW
+    EXECUTE FUNCTION update_product_search_columns();
+
+CREATE OR REPLACE FUNCTION update_product_group_search_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    search_weighted_vector(NEW.title, 'A')
+    || search_weighted_vector(NEW.brand, 'B')
+    || search_weighted_vector(search_display_text(NEW.metadata), 'B')
+    || search_weighted_vector(NEW.description, 'C');
+  NEW.search_text := search_normalize(concat_ws(' ', NEW.title, NEW.brand, search_display_text(NEW.metadata)));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_product_groups_search_columns
+    BEFORE INSERT OR UPDATE OF title, brand, metadata, description ON product_groups
+    FOR EACH ROW
+    EXECUTE FUNCTION update_product_group_search_columns();
+
+-- Backfill existing rows through the triggers above. The rows' content does not
+-- change, so updated_at (sitemap lastmod, feed and API timestamps) and the
+-- title-derived slug must not either: their triggers are off for the backfill
+-- (the migration runs in one transaction, so no other write can slip through).
+ALTER TABLE products DISABLE TRIGGER update_products_updated_at;
+ALTER TABLE products DISABLE TRIGGER trigger_products_generate_slug;
+ALTER TABLE product_groups DISABLE TRIGGER product_groups_updated_at;
+
+UPDATE products SET title = title;
+UPDATE product_groups SET title = title;
+
+ALTER TABLE products ENABLE TRIGGER update_products_updated_at;
+ALTER TABLE products ENABLE TRIGGER trigger_products_generate_slug;
+ALTER TABLE product_groups ENABLE TRIGGER product_groups_updated_at;
+
+-- ============================================================================
+-- INDEXES
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector
+  ON products USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm
+  ON products USING GIN (search_text gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_product_groups_search_vector
+  ON product_groups USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_product_groups_search_text_trgm
+  ON product_groups USING GIN (search_text gin_trgm_ops);
+
+-- ============================================================================
+-- FUNCTION: site_search_products
+-- ============================================================================
+-- Purpose: Products (parents and ungrouped products, like the catalog) matching a query, best first
+-- Usage: supabase.rpc('site_search_products', { query: 'esp32s3', marketplace: id, max_results: 8 })
+
+CREATE OR REPLACE FUNCTION site_search_products(
+  query TEXT,
+  marketplace UUID DEFAULT NULL,
+  max_results INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  slug TEXT,
+  title TEXT,
+  brand TEXT,
+  images JSONB,
+  current_price NUMERIC,
+  currency TEXT,
+  group_slug TEXT,
+  group_title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL
+) AS $$
+  SELECT
+    p.id,
+    p.slug,
+    p.title,
+    p.brand,
+    p.images,
+    p.current_price,
+    p.currency,
+    g.slug AS group_slug,
+    g.title AS group_title,
+    search_highlight(p.title, query) AS title_highlight,
+    search_highlight(
+      NULLIF(concat_ws(' · ', NULLIF(search_display_text(p.metadata), ''), array_to_string(p.features, ' · ')), ''),
+      query,
+      TRUE
+    ) AS snippet,
+    search_rank(p.search_vector, p.search_text, query) AS rank
+  FROM products p
+  LEFT JOIN product_groups g ON g.id = p.group_id
+  WHERE p.status = 'active'
+    AND p.custom_parent_id IS NULL
+    AND (marketplace IS NULL OR p.marketplace_id = marketplace)
+    AND search_matches(p.search_vector, p.search_text, query)
+  ORDER BY rank DESC, p.title
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: site_search_groups
+-- ============================================================================
+-- Purpose: Product groups with at least one active product matching a query, best first
+
+CREATE OR REPLACE FUNCTION site_search_groups(
+  query TEXT,
+  marketplace UUID DEFAULT NULL,
+  max_results INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  id UUID,
+  slug TEXT,
+  title TEXT,
+  images JSONB,
+  product_count BIGINT,
+  min_price NUMERIC,
+  currency TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  rank REAL
+) AS $$
+  SELECT
+    g.id,
+    g.slug,
+    g.title,
+    g.images,
+    stats.product_count,
+    stats.min_price,
+    stats.currency,
+    search_highlight(g.title, query) AS title_highlight,
+    search_highlight(g.description, query, TRUE) AS snippet,
+    search_rank(g.search_vector, g.search_text, query) AS rank
+  FROM product_groups g
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS product_count, min(p.current_price) AS min_price, min(p.currency) AS currency
+    FROM products p
+    WHERE p.group_id = g.id AND p.status = 'active'
+  ) stats
+  WHERE stats.product_count > 0
+    AND (marketplace IS NULL OR g.marketplace_id = marketplace)
+    AND search_matches(g.search_vector, g.search_text, query)
+  ORDER BY rank DESC, g.title
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- FUNCTION: product_matches_filters
+-- ============================================================================
+-- The catalog's `search` filter now uses the site search matching instead of a
+-- substring of title, description or brand; everything else is unchanged.
+
+CREATE OR REPLACE FUNCTION product_matches_filters(
+  product products,
+  filters JSONB,
+  ignore_facet TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+  SELECT
+    product.status = 'active'
+    AND product.custom_parent_id IS NULL
+    AND (filters->>'marketplace_id' IS NULL
+      OR product.marketplace_id = (filters->>'marketplace_id')::UUID)
+    AND (filters->>'search' IS NULL
+      OR search_matches(product.search_vector, product.search_text, filters->>'search'))
+    AND (filters->>'min_price' IS NULL
+      OR COALESCE(product.current_price, 0) >= (filters->>'min_price')::NUMERIC)
+    AND (filters->>'max_price' IS NULL
+      OR COALESCE(product.current_price, 0) <= (filters->>'max_price')::NUMERIC)
+    -- Facets
+    AND (ignore_facet = 'type' OR filters->>'type' IS NULL
+      OR product.metadata->'filters'->>'product_type' = filters->>'type')
+    AND (ignore_facet = 'chip' OR filters->>'chip' IS NULL
+      OR product.metadata->'filters'->>'chip' = filters->>'chip')
+    AND (ignore_facet = 'wifi' OR filters->>'wifi' IS NULL
+      OR product.metadata->'filters'->>'wifi_version' = filters->>'wifi')
+    AND (ignore_facet = 'bluetooth' OR filters->>'bluetooth' IS NULL
+      OR product.metadata->'filters'->>'bluetooth_version' = filters->>'bluetooth')
+    AND (ignore_facet = 'usb' OR filters->>'usb' IS NULL
+      OR product.metadata->'filters'->>'usb_type' = filters->>'usb')
+    AND (ignore_facet = 'flash' OR filters->>'flash' IS NULL
+      OR COALESCE(product_filter_int(product.metadata->'filters'->>'flash_mb') >= (filters->>'flash')::INTEGER, FALSE))
+    AND (ignore_facet = 'psram' OR filters->>'psram' IS NULL
+      OR CASE
+        WHEN filters->>'psram' = 'none'
+          THEN COALESCE(product_filter_int(product.metadata->'filters'->>'psram_mb'), 0) = 0
+        ELSE COALESCE(product_filter_int(product.metadata->'filters'->>'psram_mb') >= (filters->>'psram')::INTEGER, FALSE)
+      END)
+    AND (ignore_facet = 'gpio' OR filters->>'gpio' IS NULL
+      OR COALESCE(product_filter_int(product.metadata->'filters'->>'gpio_pins') >= (filters->>'gpio')::INTEGER, FALSE))
+    AND (ignore_facet = 'camera' OR filters->>'camera' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_camera') = (filters->>'camera')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'display' OR filters->>'display' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_display') = (filters->>'display')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'battery' OR filters->>'battery' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_battery_pins') = (filters->>'battery')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'zigbee' OR filters->>'zigbee' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_zigbee') = (filters->>'zigbee')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'thread' OR filters->>'thread' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_thread') = (filters->>'thread')::BOOLEAN, FALSE))
+    AND (ignore_facet = 'sdcard' OR filters->>'sdcard' IS NULL
+      OR COALESCE(product_filter_bool(product.metadata->'filters'->'has_sd_card') = (filters->>'sdcard')::BOOLEAN, FALSE));
+$$ LANGUAGE sql STABLE;
+
+-- Add comment for documentation
+COMMENT ON COLUMN products.search_vector IS 'Weighted full-text lexemes of title, brand, metadata.display, features and description (trigger-maintained)';
+COMMENT ON COLUMN products.search_text IS 'Normalized title, brand and metadata.display for typo-tolerant trigram search (trigger-maintained)';
+COMMENT ON COLUMN product_groups.search_vector IS 'Weighted full-text lexemes of title, brand, metadata.display and description (trigger-maintained)';
+COMMENT ON COLUMN product_groups.search_text IS 'Normalized title, brand and metadata.display for typo-tolerant trigram search (trigger-maintained)';
+COMMENT ON FUNCTION site_search_products IS 'Active listing products matching a site search query, ranked, with highlighted title and snippet';
+COMMENT ON FUNCTION site_search_groups IS 'Product groups with active products matching a site search query, ranked, with highlighted title and snippet';
+
+-- ============================================================================
+-- ROLLBACK (if needed)
+-- ============================================================================
+-- (product_matches_filters: re-run 20251129000002_use_canonical_metadata_filter_keys.sql)
+-- DROP FUNCTION IF EXISTS site_search_groups(TEXT, UUID, INTEGER);
+-- DROP FUNCTION IF EXISTS site_search_products(TEXT, UUID, INTEGER);
+-- DROP TRIGGER IF EXISTS update_product_groups_search_columns ON product_groups;
+-- DROP TRIGGER IF EXISTS update_products_search_columns ON products;
+-- DROP FUNCTION IF EXISTS update_product_group_search_columns();
+-- DROP FUNCTION IF EXISTS update_product_search_columns();
+-- DROP FUNCTION IF EXISTS search_highlight(TEXT, TEXT, BOOLEAN);
+-- DROP FUNCTION IF EXISTS search_rank(TSVECTOR, TEXT, TEXT);
+-- DROP FUNCTION IF EXISTS search_matches(TSVECTOR, TEXT, TEXT);
+-- DROP FUNCTION IF EXISTS search_prefix_query(TEXT);
+-- DROP FUNCTION IF EXISTS search_weighted_vector(TEXT, "char");
+-- DROP FUNCTION IF EXISTS search_display_text(JSONB);
+-- DROP FUNCTION IF EXISTS search_normalize(TEXT);
+-- ALTER TABLE product_groups DROP COLUMN search_text, DROP COLUMN search_vector;
+-- ALTER TABLE products DROP COLUMN search_text, DROP COLUMN search_vector;
@@ -0,0 +1,204 @@
+-- Create API keys for the public read-only REST API (/api/v1)
+--
+-- Keys are created in /admin/api-keys; only their SHA-256 hash and a short
+-- prefix (to tell keys apart) are stored, the key itself is shown once. Every
+-- /api/v1 request calls take_api_key_request(), which checks the key's
+-- per-minute rate limit and daily quota and records usage in one transaction
+-- (server/middleware/api-key-auth.ts).
+--
+-- Usage is counted per key and UTC day for the admin area and kept for 90 days.
+
+-- ============================================================================
+-- API KEYS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Who uses the key, e.g. 'espboards.dev board pages'
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+
+  -- First characters of the key, e.g. 'esk_3fJx9a'
+  key_prefix TEXT NOT NULL,
+  -- SHA-256 of the key (hex)
+  key_hash TEXT NOT NULL UNIQUE,
+
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  -- NULL = no daily quota
+  daily_quota INTEGER CHECK (daily_quota IS NULL OR daily_quota > 0),
+
+  -- Fixed one-minute rate limit window
+  window_started_at TIMESTAMPTZ,
+  window_count INTEGER NOT NULL DEFAULT 0 CHECK (window_count >= 0),
+
+  request_count BIGINT NOT NULL DEFAULT 0 CHECK (request_count >= 0),
+  last_used_at TIMESTAMPTZ,
+
+  created_by TEXT,
+  revoked_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Keep updated_at current
+CREATE TRIGGER update_api_keys_updated_at
+  BEFORE UPDATE ON api_keys
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- DAILY USAGE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS api_key_usage (
+  api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+
+  -- UTC day
+  usage_date DATE NOT NULL,
+
+  request_count INTEGER NOT NULL DEFAULT 0 CHECK (request_count >= 0),
+  denied_count INTEGER NOT NULL DEFAULT 0 CHECK (denied_count >= 0),
+
+  PRIMARY KEY (api_key_id, usage_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_key_usage_date
+  ON api_key_usage(usage_date);
+
+-- ============================================================================
+-- HELPER FUNCTIONS
+-- ============================================================================
+
+-- Count one request against a key
+--
+-- Returns no row for unknown or revoked keys. Otherwise refused with reason
+-- 'quota' once the day's requests reach daily_quota, or 'rate' once the
+-- current minute's requests reach rate_limit_per_minute; reset_ms says when
+-- the exhausted limit resets (the current minute when granted).
+CREATE OR REPLACE FUNCTION take_api_key_request(p_key_hash TEXT)
+RETURNS TABLE (
+  api_key_id UUID,
+  granted BOOLEAN,
+  reason TEXT,
+  rate_limit INTEGER,
+  remaining INTEGER,
+  reset_ms INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_today DATE := (v_now AT TIME ZONE 'UTC')::DATE;
+  v_window TIMESTAMPTZ := date_trunc('minute', v_now);
+  v_window_reset_ms INTEGER := CEIL(EXTRACT(EPOCH FROM (v_window + INTERVAL '1 minute' - v_now)) * 1000)::INTEGER;
+  v_key api_keys%ROWTYPE;
+  v_window_count INTEGER;
+  v_used_today INTEGER;
+BEGIN
+  -- Serializes concurrent requests of the same key
+  SELECT *
+  INTO v_key
+  FROM api_keys ak
+  WHERE ak.key_hash = p_key_hash
+    AND ak.revoked_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_window_count := CASE WHEN v_key.window_started_at = v_window THEN v_key.window_count ELSE 0 END;
+
+  SELECT COALESCE(u.request_count, 0)
+  INTO v_used_today
+  FROM api_key_usage u
+  WHERE u.api_key_id = v_key.id AND u.usage_date = v_today;
+
+  v_used_today := COALESCE(v_used_today, 0);
+
+  IF (v_key.daily_quota IS NOT NULL AND v_used_today >= v_key.daily_quota)
+    OR v_window_count >= v_key.rate_limit_per_minute THEN
+    INSERT INTO api_key_usage (api_key_id, usage_date, denied_count)
+    VALUES (v_key.id, v_today, 1)
+    ON CONFLICT (api_key_id, usage_date)
+    DO UPDATE SET denied_count = api_key_usage.denied_count + 1;
+
+    IF v_key.daily_quota IS NOT NULL AND v_used_today >= v_key.daily_quota THEN
+      RETURN QUERY SELECT
+        v_key.id,
+        false,
+        'quota'::TEXT,
+        v_key.rate_limit_per_minute,
+        0,
+        CEIL(EXTRACT(EPOCH FROM ((v_today + 1)::TIMESTAMP AT TIME ZONE 'UTC' - v_now)) * 1000)::INTEGER;
+      RETURN;
+    END IF;
+
+    RETURN QUERY SELECT v_key.id, false, 'rate'::TEXT, v_key.rate_limit_per_minute, 0, v_window_reset_ms;
+    RETURN;
+  END IF;
+
+  UPDATE api_keys
+  SET window_started_at = v_window,
+      window_count = v_window_count + 1,
+      request_count = request_count + 1,
+      last_used_at = v_now
+  WHERE id = v_key.id;
+
+  INSERT INTO api_key_usage (api_key_id, usage_date, request_count)
+  VALUES (v_key.id, v_today, 1)
+  ON CONFLICT (api_key_id, usage_date)
+  DO UPDATE SET request_count = api_key_usage.request_count + 1;
+
+  RETURN QUERY SELECT
+    v_key.id,
+    true,
+    NULL::TEXT,
+    v_key.rate_limit_per_minute,
+    v_key.rate_limit_per_minute - v_window_count - 1,
+    v_window_reset_ms;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION take_api_key_request(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION take_api_key_request(TEXT) TO service_role;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- The API key middleware and admin API routes use the service role.
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_key_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage API keys"
+  ON api_keys
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can manage API key usage"
+  ON api_key_usage
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================================
+-- CRON
+-- ============================================================================
+
+SELECT cron.schedule(
+    'api-key-usage-retention-daily',
+    '50 3 * * *',
+    $$DELETE FROM api_key_usage WHERE usage_date < CURRENT_DATE - 90$$
+);
+
+-- Add comment for documentation
+COMMENT ON TABLE api_keys IS 'Keys of the public read-only API (/api/v1), stored as SHA-256 hashes';
+COMMENT ON TABLE api_key_usage IS 'Requests per API key and UTC day (90 days)';
+COMMENT ON COLUMN api_keys.key_prefix IS 'First characters of the key, shown in the admin area to tell keys apart';
+COMMENT ON COLUMN api_key_usage.denied_count IS 'Requests refused by the per-minute rate limit or the daily quota';
+COMMENT ON FUNCTION take_api_key_request IS 'Check an API key''s rate limit and daily quota and record the request atomically';